@@ -0,0 +1,192 @@
+// ABOUTME: Coverage test for API route authorization
+// ABOUTME: Walks every route handler under src/app and checks it runs through withSecurity with the expected policy
+
+import { describe, it, expect } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { policies, type PolicyName } from '@/lib/authorization';
+
+type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+const APP_DIR = path.join(process.cwd(), 'src/app');
+
+// Routes that do their own authentication and cannot be wrapped
+const EXEMPT_ROUTES: Record<string, string> = {
+  '/api/auth/[...nextauth]': 'NextAuth handlers, rate limited separately',
+};
+
+// Changing a route's policy means changing this table, so it shows up in review
+const EXPECTED_POLICIES: Record<string, Partial<Record<Method, PolicyName>>> = {
+  '/(dashboard)/requests/[id]/reject': { POST: 'approveRequests' },
+  '/api/approval-delegations/[id]': { DELETE: 'approveRequests' },
+  '/api/approval-delegations': { GET: 'approveRequests', POST: 'approveRequests' },
+  '/api/approval-policies/[id]': { PUT: 'admin', DELETE: 'admin' },
+  '/api/approval-policies': { GET: 'admin', POST: 'admin' },
+  '/api/auth/dev-login': { POST: 'public', GET: 'public' },
+  '/api/auth/register': { POST: 'public' },
+  '/api/consumables/[id]/movements': { GET: 'manageEquipment', POST: 'manageEquipment' },
+  '/api/consumables/[id]': { GET: 'authenticated', PUT: 'manageEquipment', DELETE: 'admin' },
+  '/api/consumables': { GET: 'authenticated', POST: 'manageEquipment' },
+  '/api/csrf-token': { GET: 'public' },
+  '/api/disposals/[id]/approve': { POST: 'admin' },
+  '/api/disposals/[id]/reject': { POST: 'admin' },
+  '/api/disposals': { GET: 'admin' },
+  '/api/emails/[id]/retry': { POST: 'admin' },
+  '/api/emails/[id]': { GET: 'admin' },
+  '/api/emails': { GET: 'admin', POST: 'admin' },
+  '/api/equipment/[id]/assign': { POST: 'manageEquipment' },
+  '/api/equipment/[id]/checklists/[checklistId]': { PATCH: 'manageEquipment' },
+  '/api/equipment/[id]/checklists': { GET: 'authenticated' },
+  '/api/equipment/[id]/disposal': { GET: 'manageEquipment', POST: 'manageEquipment' },
+  '/api/equipment/[id]/maintenance-workflow': { POST: 'authenticated', GET: 'authenticated', PATCH: 'authenticated' },
+  '/api/equipment/[id]/maintenance': { GET: 'authenticated', POST: 'manageEquipment' },
+  '/api/equipment/[id]': { GET: 'authenticated', PUT: 'manageEquipment', DELETE: 'admin' },
+  '/api/equipment/[id]/status': { POST: 'authenticated', GET: 'authenticated' },
+  '/api/equipment/[id]/transfer': { POST: 'authenticated', GET: 'authenticated', PATCH: 'approveRequests' },
+  '/api/equipment/[id]/unassign': { POST: 'manageEquipment' },
+  '/api/equipment/assignment-request': { POST: 'manageEquipment', GET: 'authenticated' },
+  '/api/equipment/bulk-qr': { POST: 'authenticated' },
+  '/api/equipment/categories': { GET: 'authenticated', POST: 'manageEquipment' },
+  '/api/equipment/categories/[id]': { PUT: 'manageEquipment' },
+  '/api/equipment/export': { GET: 'authenticated' },
+  '/api/equipment/files': { POST: 'authenticated', GET: 'authenticated', DELETE: 'authenticated' },
+  '/api/equipment/history': { GET: 'authenticated', POST: 'manageEquipment' },
+  '/api/equipment/import-template': { GET: 'manageEquipment' },
+  '/api/equipment/import': { POST: 'manageEquipment' },
+  '/api/equipment': { GET: 'authenticated', POST: 'manageEquipment' },
+  '/api/equipment/search': { GET: 'authenticated' },
+  '/api/equipment/tags': { GET: 'authenticated', POST: 'manageEquipment' },
+  '/api/equipment/workflow-stats': { GET: 'authenticated' },
+  '/api/files/[id]': { GET: 'authenticated' },
+  '/api/files': { POST: 'authenticated' },
+  '/api/inventory-checks/[id]/close': { POST: 'admin' },
+  '/api/inventory-checks/[id]/report': { GET: 'manageEquipment' },
+  '/api/inventory-checks/[id]': { GET: 'manageEquipment' },
+  '/api/inventory-checks/[id]/scan': { POST: 'manageEquipment' },
+  '/api/inventory-checks': { GET: 'manageEquipment', POST: 'admin' },
+  '/api/invoices/[id]/download': { GET: 'authenticated' },
+  '/api/invoices/[id]': { GET: 'authenticated', PUT: 'manageSubscriptions', DELETE: 'admin' },
+  '/api/invoices': { GET: 'authenticated', POST: 'manageSubscriptions' },
+  '/api/notifications/[id]': { PATCH: 'authenticated', DELETE: 'authenticated' },
+  '/api/notifications/preferences': { GET: 'authenticated', PUT: 'authenticated' },
+  '/api/notifications/read-all': { POST: 'authenticated' },
+  '/api/notifications': { GET: 'authenticated' },
+  '/api/ocr/documents/[id]': { GET: 'authenticated' },
+  '/api/ocr/jobs/[id]/retry': { POST: 'authenticated' },
+  '/api/ocr/jobs/[id]': { GET: 'authenticated' },
+  '/api/ocr/jobs': { GET: 'authenticated' },
+  '/api/ocr/process-invoice': { POST: 'authenticated', GET: 'authenticated' },
+  '/api/ocr/vendor-profiles/[id]': { DELETE: 'admin' },
+  '/api/ocr/vendor-profiles': { GET: 'manageEquipment' },
+  '/api/ocr': { POST: 'authenticated', GET: 'authenticated' },
+  '/api/onboarding-kits/[id]': { PUT: 'admin', DELETE: 'admin' },
+  '/api/onboarding-kits': { GET: 'admin', POST: 'admin' },
+  '/api/payments': { GET: 'authenticated', POST: 'manageSubscriptions' },
+  '/api/profile': { GET: 'authenticated', PATCH: 'authenticated' },
+  '/api/purchase-orders/[id]/receive': { POST: 'admin' },
+  '/api/purchase-orders/[id]': { GET: 'admin', PATCH: 'admin', DELETE: 'admin' },
+  '/api/purchase-orders': { GET: 'admin', POST: 'admin' },
+  '/api/reports/depreciation': { GET: 'viewReports' },
+  '/api/reports/fixed-assets/[period]/journal': { GET: 'viewReports' },
+  '/api/reports/fixed-assets/[period]': { GET: 'viewReports' },
+  '/api/reports/fixed-assets': { GET: 'viewReports', POST: 'admin' },
+  '/api/reports': { GET: 'viewReports', POST: 'viewReports' },
+  '/api/requests/[id]/approve': { POST: 'approveRequests' },
+  '/api/requests/[id]/assign': { POST: 'admin', DELETE: 'admin' },
+  '/api/requests/[id]/items/[itemId]': { PATCH: 'admin' },
+  '/api/requests/[id]/reject': { POST: 'approveRequests' },
+  '/api/requests/[id]/status': { GET: 'authenticated', PUT: 'authenticated' },
+  '/api/requests/history': { GET: 'authenticated' },
+  '/api/requests': { GET: 'authenticated', POST: 'authenticated' },
+  '/api/settings/history': { GET: 'admin' },
+  '/api/settings': { GET: 'admin', PUT: 'admin' },
+  '/api/storage/[...key]': { GET: 'public' },
+  '/api/subscriptions/[id]': { GET: 'authenticated', PUT: 'manageSubscriptions', DELETE: 'admin' },
+  '/api/subscriptions/export': { GET: 'authenticated' },
+  '/api/subscriptions': { GET: 'authenticated', POST: 'manageSubscriptions' },
+  '/api/teams/[id]/leader': { PUT: 'manageTeams' },
+  '/api/teams/[id]': { GET: 'viewUsers', PUT: 'manageTeams', DELETE: 'manageTeams' },
+  '/api/teams': { GET: 'viewUsers', POST: 'manageTeams' },
+  '/api/users/[id]/offboarding/complete': { POST: 'manageUsers' },
+  '/api/users/[id]/offboarding/resolve': { POST: 'manageUsers' },
+  '/api/users/[id]/offboarding': { GET: 'manageUsers', POST: 'manageUsers' },
+  '/api/users/[id]': { GET: 'authenticated', PUT: 'manageUsers', DELETE: 'manageUsers' },
+  '/api/users': { GET: 'viewUsers', POST: 'manageUsers' },
+};
+
+function findRouteFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return findRouteFiles(fullPath);
+    }
+    return entry.name === 'route.ts' ? [fullPath] : [];
+  });
+}
+
+function toRoutePath(file: string): string {
+  return '/' + path.relative(APP_DIR, path.dirname(file)).split(path.sep).join('/');
+}
+
+/**
+ * Split a route file into the source of each exported handler
+ */
+function getHandlers(source: string): Partial<Record<Method, string>> {
+  const parts = source.split(/export async function (GET|POST|PUT|PATCH|DELETE)\b/);
+  const handlers: Partial<Record<Method, string>> = {};
+
+  for (let i = 1; i < parts.length; i += 2) {
+    handlers[parts[i] as Method] = parts[i + 1];
+  }
+
+  return handlers;
+}
+
+const routes = findRouteFiles(APP_DIR).map((file) => ({
+  route: toRoutePath(file),
+  source: fs.readFileSync(file, 'utf8'),
+}));
+
+describe('API route policies', () => {
+  it('finds the route files', () => {
+    expect(routes.length).toBeGreaterThan(0);
+  });
+
+  it('has an expected policy table entry for every route', () => {
+    const missing = routes
+      .map(({ route }) => route)
+      .filter((route) => !(route in EXPECTED_POLICIES) && !(route in EXEMPT_ROUTES));
+
+    expect(missing).toEqual([]);
+  });
+
+  it('has no table entries for routes that no longer exist', () => {
+    const existing = new Set(routes.map(({ route }) => route));
+    const stale = Object.keys(EXPECTED_POLICIES).filter((route) => !existing.has(route));
+
+    expect(stale).toEqual([]);
+  });
+
+  it('only references known policies', () => {
+    for (const methods of Object.values(EXPECTED_POLICIES)) {
+      for (const name of Object.values(methods)) {
+        expect(policies).toHaveProperty(name as string);
+      }
+    }
+  });
+
+  describe.each(routes.filter(({ route }) => !(route in EXEMPT_ROUTES)))('$route', ({ route, source }) => {
+    const handlers = getHandlers(source);
+
+    it('exports exactly the methods in the policy table', () => {
+      expect(Object.keys(handlers).sort()).toEqual(Object.keys(EXPECTED_POLICIES[route] ?? {}).sort());
+    });
+
+    it.each(Object.entries(handlers))('%s runs through withSecurity with its policy', (method, handler) => {
+      const expected = EXPECTED_POLICIES[route]?.[method as Method];
+
+      expect(handler).toContain('withSecurity(');
+      expect(handler?.match(/policy: policies\.(\w+)/g)).toEqual([`policy: policies.${expected}`]);
+    });
+  });
+});
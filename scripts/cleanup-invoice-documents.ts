@@ -0,0 +1,23 @@
+// ABOUTME: Removes uploaded invoice originals that were never saved as an invoice
+// ABOUTME: Meant for cron, e.g. nightly: `npm run invoices:cleanup`
+
+import { prisma } from "@/lib/prisma";
+import { pdfProcessingService } from "@/lib/pdf-processing";
+
+async function main() {
+  console.log("🧹 Removing unsaved invoice uploads...");
+
+  const removed = await pdfProcessingService.cleanupOldFiles();
+
+  console.log(`✅ Removed ${removed} unsaved invoice uploads older than a day`);
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect();
+  })
+  .catch(async (e) => {
+    console.error("❌ Invoice upload cleanup failed:", e);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
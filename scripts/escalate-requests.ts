@@ -0,0 +1,29 @@
+// ABOUTME: Reminds approvers of requests nearing their approval SLA and escalates breached ones to admins
+// ABOUTME: Meant for cron, e.g. every 15 minutes: `npm run requests:escalate`
+
+import { prisma } from "@/lib/prisma";
+import { SlaTrackingService } from "@/lib/sla-tracking";
+
+async function main() {
+  console.log("⏱️  Checking approval SLAs...");
+
+  const result = await SlaTrackingService.escalate();
+
+  console.log(
+    `✅ SLA check finished: ${result.checked} waiting stages, ${result.reminded} reminded, ${result.escalated} escalated, ${result.failed} failed`
+  );
+
+  if (result.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect();
+  })
+  .catch(async (e) => {
+    console.error("❌ SLA check failed:", e);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,156 @@
+// ABOUTME: Moves files uploaded before the storage service into the configured storage driver
+// ABOUTME: Run once after upgrading: `npm run storage:migrate`; files already in storage are skipped
+
+import { promises as fs } from "fs";
+import path from "path";
+import { UTApi } from "uploadthing/server";
+import { prisma } from "@/lib/prisma";
+import { DOCUMENT_CONTENT_TYPES, FileUploadService } from "@/lib/file-uploads";
+
+interface MigrationResult {
+  migrated: number;
+  failed: number;
+}
+
+/**
+ * Subscription invoices used to be written under uploads/ and served from public/
+ */
+async function migrateSubscriptionInvoices(): Promise<MigrationResult> {
+  const invoices = await prisma.subscriptionInvoice.findMany({
+    where: { storageKey: null, invoiceUrl: { not: null } },
+    select: { id: true, invoiceUrl: true },
+  });
+  const result: MigrationResult = { migrated: 0, failed: 0 };
+
+  for (const invoice of invoices) {
+    const relativePath = invoice.invoiceUrl!.replace(/^\/+/, "");
+    const candidates = [
+      path.join(process.cwd(), "public", relativePath),
+      path.join(process.cwd(), relativePath),
+    ];
+
+    try {
+      const filePath = await firstExisting(candidates);
+      if (!filePath) {
+        throw new Error(`no file at ${candidates.join(" or ")}`);
+      }
+
+      const stored = await FileUploadService.store({
+        body: await fs.readFile(filePath),
+        fileName: path.basename(filePath),
+        prefix: "subscription-invoices",
+        allowedTypes: DOCUMENT_CONTENT_TYPES,
+      });
+
+      await prisma.subscriptionInvoice.update({
+        where: { id: invoice.id },
+        data: { storageKey: stored.storageKey, invoiceUrl: `/api/invoices/${invoice.id}/download` },
+      });
+      await fs.unlink(filePath);
+      result.migrated++;
+    } catch (error) {
+      console.error(`Failed to migrate subscription invoice ${invoice.id}:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Equipment files and other uploads that still live on UploadThing
+ */
+async function migrateUploadthingFiles(): Promise<MigrationResult> {
+  const files = await prisma.file.findMany({
+    where: { storageKey: null },
+    select: { id: true, name: true, url: true, equipmentId: true },
+  });
+  const result: MigrationResult = { migrated: 0, failed: 0 };
+  const utapi = process.env.UPLOADTHING_TOKEN ? new UTApi() : null;
+
+  for (const file of files) {
+    try {
+      const response = await fetch(file.url);
+      if (!response.ok) {
+        throw new Error(`download failed with status ${response.status}`);
+      }
+
+      const stored = await FileUploadService.store({
+        body: Buffer.from(await response.arrayBuffer()),
+        fileName: file.name,
+        prefix: file.equipmentId ? "equipment-files" : "files",
+        allowedTypes: DOCUMENT_CONTENT_TYPES,
+      });
+      const url = `/api/files/${file.id}`;
+
+      await prisma.$transaction(async (tx) => {
+        await tx.file.update({
+          where: { id: file.id },
+          data: { storageKey: stored.storageKey, url, type: stored.contentType },
+        });
+
+        // Photo lists keep their own copy of each photo's URL
+        if (file.equipmentId) {
+          const equipment = await tx.equipment.findUnique({
+            where: { id: file.equipmentId },
+            select: { photos: true },
+          });
+          if (equipment?.photos) {
+            const photos: Array<{ id?: string; url: string }> = JSON.parse(equipment.photos);
+            await tx.equipment.update({
+              where: { id: file.equipmentId },
+              data: { photos: JSON.stringify(photos.map((photo) => (photo.id === file.id ? { ...photo, url } : photo))) },
+            });
+          }
+        }
+      });
+
+      const fileKey = file.url.split("/").pop();
+      if (utapi && fileKey) {
+        await utapi.deleteFiles([fileKey]);
+      }
+      result.migrated++;
+    } catch (error) {
+      console.error(`Failed to migrate file ${file.id}:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+async function firstExisting(paths: string[]): Promise<string | null> {
+  for (const candidate of paths) {
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      // Try the next location
+    }
+  }
+  return null;
+}
+
+async function main() {
+  console.log("📦 Moving existing uploads into file storage...");
+
+  const invoices = await migrateSubscriptionInvoices();
+  console.log(`✅ Subscription invoices: ${invoices.migrated} moved, ${invoices.failed} failed`);
+
+  const files = await migrateUploadthingFiles();
+  console.log(`✅ UploadThing files: ${files.migrated} moved, ${files.failed} failed`);
+
+  if (invoices.failed + files.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect();
+  })
+  .catch(async (e) => {
+    console.error("❌ Storage migration failed:", e);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,23 @@
+// ABOUTME: Retries outgoing emails whose backoff has elapsed
+// ABOUTME: Meant for cron every few minutes: `npm run email:retry`
+
+import { prisma } from "@/lib/prisma";
+import { EmailOutboxService } from "@/lib/email-outbox";
+
+async function main() {
+  const result = await EmailOutboxService.processDue();
+
+  console.log(
+    `✅ Email retries: ${result.sent} sent, ${result.retrying} still retrying, ${result.failed} gave up`
+  );
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect();
+  })
+  .catch(async (e) => {
+    console.error("❌ Email retry run failed:", e);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
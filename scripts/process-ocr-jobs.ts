@@ -0,0 +1,23 @@
+// ABOUTME: Extracts queued OCR files, including retries whose backoff has elapsed and files a crashed worker left behind
+// ABOUTME: Meant for cron every minute: `npm run ocr:work`
+
+import { prisma } from "@/lib/prisma";
+import { OcrJobService } from "@/lib/ocr-jobs";
+
+async function main() {
+  const result = await OcrJobService.processDue();
+
+  console.log(
+    `✅ OCR queue: ${result.completed} extracted, ${result.retrying} still retrying, ${result.failed} gave up`
+  );
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect();
+  })
+  .catch(async (e) => {
+    console.error("❌ OCR queue run failed:", e);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,21 @@
+// ABOUTME: Recalculates the book value of every equipment item
+// ABOUTME: Meant for cron once a month, after period end: `npm run depreciation:recalculate`
+
+import { prisma } from "@/lib/prisma";
+import { DepreciationService } from "@/lib/depreciation";
+
+async function main() {
+  const updated = await DepreciationService.refreshCurrentValues();
+
+  console.log(`✅ Depreciation: ${updated} book values updated`);
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect();
+  })
+  .catch(async (e) => {
+    console.error("❌ Depreciation run failed:", e);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
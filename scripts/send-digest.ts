@@ -0,0 +1,44 @@
+// ABOUTME: Sends the daily or weekly notification digest to team leads, admins and digest subscribers
+// ABOUTME: Meant for cron: `npm run digest:send -- --weekly`; `--dry-run` prints the emails instead of sending
+
+import { prisma } from "@/lib/prisma";
+import { DigestService } from "@/lib/digest";
+import type { EmailTransport } from "@/lib/email-transport";
+
+const args = process.argv.slice(2);
+const frequency = args.includes("--weekly") ? "weekly" : "daily";
+const dryRun = args.includes("--dry-run");
+
+const consoleTransport: EmailTransport = {
+  send: async (message) => {
+    console.log(`\n📧 To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  },
+};
+
+async function main() {
+  console.log(`📬 Sending ${frequency} digest${dryRun ? " (dry run)" : ""}...`);
+
+  const result = await DigestService.sendDigests({
+    frequency,
+    transport: dryRun ? consoleTransport : undefined,
+    dryRun,
+  });
+
+  console.log(
+    `✅ Digest finished: ${result.sent} sent, ${result.skipped} with nothing to report, ${result.failed} failed`
+  );
+
+  if (result.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect();
+  })
+  .catch(async (e) => {
+    console.error("❌ Digest failed:", e);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
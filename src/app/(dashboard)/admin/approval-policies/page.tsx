@@ -0,0 +1,25 @@
+// ABOUTME: Admin approval policy page for request approval chains
+// ABOUTME: Lets admins define which stages a request goes through before it is approved
+
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { ApprovalPoliciesManager } from "@/components/requests/approval-policies-manager";
+
+export default async function AdminApprovalPoliciesPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/auth/signin");
+  }
+
+  // Check if user has admin permissions
+  if (session.user.role !== "admin") {
+    redirect("/dashboard");
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <ApprovalPoliciesManager />
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+// ABOUTME: Admin disposal approval page for decommissioning equipment
+// ABOUTME: Shows pending disposal requests and the write-offs recorded for approved ones
+
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { DisposalApprovalDashboard } from "@/components/disposals/disposal-approval-dashboard";
+
+export default async function AdminDisposalsPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/auth/signin");
+  }
+
+  // Check if user has admin permissions
+  if (session.user.role !== "admin") {
+    redirect("/dashboard");
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <DisposalApprovalDashboard />
+    </div>
+  );
+}
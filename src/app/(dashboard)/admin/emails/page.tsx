@@ -0,0 +1,25 @@
+// ABOUTME: Admin email log page for reviewing outgoing notification emails
+// ABOUTME: Shows sent, pending and failed emails so delivery problems can be spotted and retried
+
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { EmailOutboxDashboard } from "@/components/emails/email-outbox-dashboard";
+
+export default async function AdminEmailsPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/auth/signin");
+  }
+
+  // Check if user has admin permissions
+  if (session.user.role !== "admin") {
+    redirect("/dashboard");
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <EmailOutboxDashboard />
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+// ABOUTME: Admin onboarding kit page for new starter equipment bundles
+// ABOUTME: Lets admins define the kits offered when creating users
+
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { OnboardingKitsManager } from "@/components/users/onboarding-kits-manager";
+
+export default async function AdminOnboardingKitsPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/auth/signin");
+  }
+
+  // Check if user has admin permissions
+  if (session.user.role !== "admin") {
+    redirect("/dashboard");
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <OnboardingKitsManager />
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+// ABOUTME: Admin purchase order page for procurement tracking
+// ABOUTME: Lets admins order equipment for approved requests and receive the goods into stock
+
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { db } from "@/lib/prisma";
+import { ORDERABLE_REQUEST_STATUSES } from "@/lib/purchase-orders";
+import { PurchaseOrdersManager } from "@/components/procurement/purchase-orders-manager";
+
+export default async function AdminPurchaseOrdersPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/auth/signin");
+  }
+
+  // Check if user has admin permissions
+  if (session.user.role !== "admin") {
+    redirect("/dashboard");
+  }
+
+  // Requests that can still be ordered for, oldest first so nothing waits too long
+  const orderableRequests = await db.equipmentRequest.findMany({
+    where: { status: { in: ORDERABLE_REQUEST_STATUSES }, consumableId: null },
+    select: {
+      id: true,
+      equipmentType: true,
+      status: true,
+      budget: true,
+      requester: { select: { id: true, name: true } },
+      items: {
+        where: { kind: "equipment" },
+        select: { id: true, name: true, quantity: true, fulfilledQuantity: true, budget: true },
+        orderBy: { position: "asc" },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <PurchaseOrdersManager orderableRequests={orderableRequests} />
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+// ABOUTME: Fixed-asset register page for month-end close
+// ABOUTME: Shows each month's register and journal exports; admins close months from here
+
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { FixedAssetRegisterView } from "@/components/reports/fixed-asset-register";
+
+export default async function FixedAssetRegisterPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/auth/signin");
+  }
+
+  // The register is a report; closing a month is limited to admins in the component and API
+  if (session.user.role === "user") {
+    redirect("/dashboard");
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <FixedAssetRegisterView userRole={session.user.role} />
+    </div>
+  );
+}
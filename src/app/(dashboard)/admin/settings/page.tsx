@@ -3,7 +3,7 @@
 
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { auth } from "@/lib/auth";
 import { useRouter } from "next/navigation";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -69,6 +69,19 @@ interface SystemSettings {
   enableUserRegistration: boolean;
   maxFileUploadSize: number;
   backupRetentionDays: number;
+  slaUrgentHours: number;
+  slaHighBusinessDays: number;
+  slaMediumBusinessDays: number;
+  slaLowBusinessDays: number;
+}
+
+interface SettingChange {
+  id: string;
+  key: keyof SystemSettings;
+  oldValue: unknown;
+  newValue: unknown;
+  changedBy: { id: string; name: string | null; email: string };
+  createdAt: string;
 }
 
 interface EquipmentCategory {
@@ -107,17 +120,30 @@ export default function AdminSettingsPage() {
     enableOfflineMode: true,
     enablePWA: true,
     defaultUserRole: "user",
-    enableUserRegistration: false,
+    enableUserRegistration: true,
     maxFileUploadSize: 10,
     backupRetentionDays: 30,
+    slaUrgentHours: 4,
+    slaHighBusinessDays: 1,
+    slaMediumBusinessDays: 3,
+    slaLowBusinessDays: 5,
   });
 
+  const [history, setHistory] = useState<SettingChange[]>([]);
   const [categories, setCategories] = useState<EquipmentCategory[]>([]);
   const [systemInfo, setSystemInfo] = useState<SystemInfo | null>(null);
   const [newCategory, setNewCategory] = useState<Partial<EquipmentCategory>>({});
   const [editingCategory, setEditingCategory] = useState<EquipmentCategory | null>(null);
   const [showCategoryDialog, setShowCategoryDialog] = useState(false);
 
+  const fetchHistory = useCallback(async () => {
+    const response = await fetch("/api/settings/history?limit=10");
+    if (response.ok) {
+      const data = await response.json();
+      setHistory(data.changes);
+    }
+  }, []);
+
   useEffect(() => {
     const fetchData = async () => {
       try {
@@ -135,8 +161,13 @@ export default function AdminSettingsPage() {
           return;
         }
 
-        // Fetch system settings (in a real app, this would come from the API)
-        // For now, we'll use default values
+        // Fetch system settings, with defaults filled in for anything never saved
+        const settingsResponse = await fetch("/api/settings");
+        if (settingsResponse.ok) {
+          const data = await settingsResponse.json();
+          setSettings(data.settings);
+        }
+        await fetchHistory();
 
         // Fetch equipment categories
         const categoriesData = [
@@ -192,16 +223,26 @@ export default function AdminSettingsPage() {
     };
 
     fetchData();
-  }, [router]);
+  }, [router, fetchHistory]);
 
   const handleSaveSettings = async () => {
     setSaving(true);
     try {
-      // In a real app, this would call an API
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      toast.success("Settings saved successfully");
+      const response = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || "Failed to save settings");
+      }
+
+      setSettings(result.settings);
+      await fetchHistory();
+      toast.success(result.message);
     } catch (error) {
-      toast.error("Failed to save settings");
+      toast.error(error instanceof Error ? error.message : "Failed to save settings");
     } finally {
       setSaving(false);
     }
@@ -648,11 +689,65 @@ export default function AdminSettingsPage() {
                 <Alert>
                   <Mail className="h-4 w-4" />
                   <AlertDescription>
-                    Email notifications will be sent for equipment requests, approvals, maintenance schedules, and system alerts.
+                    Email notifications will be sent for equipment requests, approvals, maintenance schedules, and system alerts. Users can narrow which events reach them by email from their profile page.
                   </AlertDescription>
                 </Alert>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Approval SLAs</CardTitle>
+                <CardDescription>
+                  How long an approval stage may wait for a decision. Approvers are reminded as the deadline
+                  nears and admins are alerted once it is breached.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="sla-urgent">Urgent (hours)</Label>
+                    <Input
+                      id="sla-urgent"
+                      type="number"
+                      min={1}
+                      value={settings.slaUrgentHours}
+                      onChange={(e) => setSettings({...settings, slaUrgentHours: parseInt(e.target.value)})}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sla-high">High (business days)</Label>
+                    <Input
+                      id="sla-high"
+                      type="number"
+                      min={1}
+                      value={settings.slaHighBusinessDays}
+                      onChange={(e) => setSettings({...settings, slaHighBusinessDays: parseInt(e.target.value)})}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sla-medium">Medium (business days)</Label>
+                    <Input
+                      id="sla-medium"
+                      type="number"
+                      min={1}
+                      value={settings.slaMediumBusinessDays}
+                      onChange={(e) => setSettings({...settings, slaMediumBusinessDays: parseInt(e.target.value)})}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sla-low">Low (business days)</Label>
+                    <Input
+                      id="sla-low"
+                      type="number"
+                      min={1}
+                      value={settings.slaLowBusinessDays}
+                      onChange={(e) => setSettings({...settings, slaLowBusinessDays: parseInt(e.target.value)})}
+                    />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="system" className="space-y-6">
@@ -732,6 +827,40 @@ export default function AdminSettingsPage() {
                 </div>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Clock className="h-5 w-5" />
+                  <span>Recent Changes</span>
+                </CardTitle>
+                <CardDescription>
+                  The last settings changes and who made them
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {history.length === 0 ? (
+                  <p className="text-sm text-gray-600">No settings have been changed yet</p>
+                ) : (
+                  <div className="space-y-3">
+                    {history.map((change) => (
+                      <div key={change.id} className="flex items-center justify-between text-sm border-b pb-2 last:border-0">
+                        <div>
+                          <p className="font-medium">{change.key}</p>
+                          <p className="text-gray-600">
+                            {change.oldValue === null ? "default" : String(change.oldValue)} → {String(change.newValue)}
+                          </p>
+                        </div>
+                        <div className="text-right text-gray-500">
+                          <p>{change.changedBy.name || change.changedBy.email}</p>
+                          <p>{new Date(change.createdAt).toLocaleString()}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
       </div>
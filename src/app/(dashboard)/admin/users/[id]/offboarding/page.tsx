@@ -0,0 +1,31 @@
+// ABOUTME: Admin offboarding page for a leaving user
+// ABOUTME: Walks through reclaiming the user's assets and subscriptions before deactivation
+
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { OffboardingWizard } from "@/components/users/offboarding-wizard";
+
+interface OffboardingPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function AdminUserOffboardingPage({ params }: OffboardingPageProps) {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/auth/signin");
+  }
+
+  // Check if user has admin permissions
+  if (session.user.role !== "admin") {
+    redirect("/dashboard");
+  }
+
+  const { id } = await params;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <OffboardingWizard userId={id} />
+    </div>
+  );
+}
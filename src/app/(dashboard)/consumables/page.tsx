@@ -0,0 +1,25 @@
+// ABOUTME: Consumables page for small-inventory stock management
+// ABOUTME: Shows cables, adapters and similar items with stock levels, movements and low-stock alerts
+
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { ConsumablesDashboard } from "@/components/consumables/consumables-dashboard";
+
+export default async function ConsumablesPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/auth/signin");
+  }
+
+  // Users request consumables through the request flow instead of managing stock
+  if (session.user.role === "user") {
+    redirect("/requests/new");
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <ConsumablesDashboard userRole={session.user.role} />
+    </div>
+  );
+}
@@ -3,8 +3,10 @@
 
 "use client";
 
+import { useEffect } from "react";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { SessionProvider } from "next-auth/react";
+import { installCsrfFetch } from "@/lib/csrf-client";
 
 interface User {
   id: string;
@@ -19,6 +21,11 @@ interface DashboardLayoutProviderProps {
 }
 
 export function DashboardLayoutProvider({ children, user }: DashboardLayoutProviderProps) {
+  // API routes reject state-changing calls without a CSRF token
+  useEffect(() => {
+    installCsrfFetch();
+  }, []);
+
   return (
     <SessionProvider>
       <DashboardLayout userRole={user.role}>
@@ -5,6 +5,7 @@ import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import { db } from "@/lib/prisma";
 import { dashboardCache } from "@/lib/cache";
+import { ApprovalChainService } from "@/lib/approval-chains";
 import {
   Card,
   CardContent,
@@ -202,11 +203,7 @@ export default async function DashboardPage() {
         include: { currentOwner: { select: { name: true, email: true } } }
       }),
       db.equipmentRequest.count({
-        where: { 
-          status: "pending",
-          teamLeadApproval: null,
-          requester: { teamId: user.teamId }
-        }
+        where: await ApprovalChainService.pendingApprovalWhere(user)
       }),
       db.equipmentRequest.count({
         where: { requesterId: user.id }
@@ -26,8 +26,11 @@ import {
 } from "lucide-react";
 import Link from "next/link";
 import { EquipmentStatusDialogWrapper } from "@/components/equipment/equipment-status-dialog-wrapper";
+import { EquipmentDisposalDialog } from "@/components/equipment/equipment-disposal-dialog";
+import { DISPOSABLE_STATUSES } from "@/lib/disposal";
 import { EquipmentAssignmentDialogs } from "@/components/equipment/equipment-assignment-dialogs";
 import { EquipmentHistoryComponent } from "@/components/equipment/equipment-history";
+import { EquipmentHandoverChecklists } from "@/components/equipment/handover-checklists";
 import { EquipmentCategoriesTags } from "@/components/equipment/equipment-categories-tags";
 import { EquipmentPhotos } from "@/components/equipment/equipment-photos";
 
@@ -94,6 +97,11 @@ export default async function EquipmentDetailPage({ params }: EquipmentDetailPag
           orderBy: { createdAt: "desc" },
           take: 5,
         },
+        disposals: {
+          where: { status: "pending" },
+          select: { id: true },
+          take: 1,
+        },
       },
     });
     } catch (error) {
@@ -122,6 +130,7 @@ export default async function EquipmentDetailPage({ params }: EquipmentDetailPag
   const canEdit = user.role === "admin" || user.role === "team_lead";
   const canAssign = canEdit && equipment.status === "available";
   const canUnassign = canEdit && equipment.status === "assigned";
+  const canRequestDisposal = canEdit && DISPOSABLE_STATUSES.includes(equipment.status);
 
   const getStatusBadge = (status: string) => {
     const variants = {
@@ -430,6 +439,14 @@ export default async function EquipmentDetailPage({ params }: EquipmentDetailPag
                 </Button>
                 
                 <EquipmentStatusDialogWrapper equipment={equipment} canEdit={canEdit} />
+
+                {canEdit && (
+                  <EquipmentDisposalDialog
+                    equipment={{ id: equipment.id, name: equipment.name }}
+                    canRequest={canRequestDisposal}
+                    hasPendingDisposal={equipment.disposals.length > 0}
+                  />
+                )}
                 
                 <Button variant="outline" className="w-full" asChild>
                   <Link href={`/equipment/${equipment.id}/qr`}>
@@ -452,6 +469,13 @@ export default async function EquipmentDetailPage({ params }: EquipmentDetailPag
         </div>
       </div>
 
+      {/* Handover Checklists */}
+      {canEdit && (
+        <div className="mt-8">
+          <EquipmentHandoverChecklists equipmentId={equipment.id} canManage={canEdit} />
+        </div>
+      )}
+
       {/* Equipment History Section */}
       <div className="mt-8">
         <EquipmentHistoryComponent
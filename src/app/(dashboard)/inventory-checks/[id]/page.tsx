@@ -0,0 +1,30 @@
+// ABOUTME: Inventory check detail page used while scanning equipment during an audit
+// ABOUTME: Shows verification progress, discrepancies and the reconciliation report once closed
+
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { InventoryCheckDetail } from "@/components/inventory-checks/inventory-check-detail";
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function InventoryCheckPage({ params }: PageProps) {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/auth/signin");
+  }
+
+  if (session.user.role === "user") {
+    redirect("/dashboard");
+  }
+
+  const { id } = await params;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <InventoryCheckDetail checkId={id} userRole={session.user.role} />
+    </div>
+  );
+}
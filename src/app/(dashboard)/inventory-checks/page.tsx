@@ -0,0 +1,25 @@
+// ABOUTME: Inventory checks page for physical audit campaigns
+// ABOUTME: Lists stocktakes for admins and team leads; admins can schedule new checks
+
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { InventoryCheckList } from "@/components/inventory-checks/inventory-check-list";
+
+export default async function InventoryChecksPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/auth/signin");
+  }
+
+  // Audits are run by team leads and admins
+  if (session.user.role === "user") {
+    redirect("/dashboard");
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <InventoryCheckList userRole={session.user.role} />
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { FileText, Upload, History, Settings } from 'lucide-react';
+import { FileText, Upload, History, Settings, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -23,6 +23,14 @@ interface InvoiceRecord {
     name: string;
     email: string;
   };
+  document?: SourceDocument | null;
+}
+
+interface SourceDocument {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
 }
 
 interface ProcessingResult {
@@ -44,12 +52,14 @@ interface ProcessingResult {
     depreciationPeriod?: number;
     confidence?: number;
   };
+  document?: SourceDocument;
   error?: string;
 }
 
 export default function InvoiceManagementPage() {
   const [invoices, setInvoices] = useState<InvoiceRecord[]>([]);
   const [reviewData, setReviewData] = useState<any>(null);
+  const [reviewDocument, setReviewDocument] = useState<SourceDocument | undefined>();
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -75,6 +85,7 @@ export default function InvoiceManagementPage() {
     const firstSuccess = results.find(r => r.success && r.data);
     if (firstSuccess && firstSuccess.data) {
       setReviewData(firstSuccess.data);
+      setReviewDocument(firstSuccess.document);
     }
   };
 
@@ -90,11 +101,12 @@ export default function InvoiceManagementPage() {
           createEquipment,
           createSubscriptions,
           saveAsDraft,
+          documentId: reviewDocument?.id,
         }),
       });
 
       if (response.ok) {
-        setReviewData(null);
+        closeReview();
         fetchInvoices();
       } else {
         console.error('Failed to save invoice');
@@ -104,6 +116,11 @@ export default function InvoiceManagementPage() {
     }
   };
 
+  const closeReview = () => {
+    setReviewData(null);
+    setReviewDocument(undefined);
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'draft':
@@ -129,8 +146,9 @@ export default function InvoiceManagementPage() {
         
         <OCRReview
           ocrData={reviewData}
+          document={reviewDocument}
           onSave={handleSaveInvoice}
-          onCancel={() => setReviewData(null)}
+          onCancel={closeReview}
         />
       </div>
     );
@@ -220,8 +238,18 @@ export default function InvoiceManagementPage() {
                         </div>
                       </div>
                       
-                      <div className="mt-3 text-xs text-gray-500">
-                        Created: {new Date(invoice.createdAt).toLocaleDateString()}
+                      <div className="mt-3 flex items-center justify-between text-xs text-gray-500">
+                        <span>Created: {new Date(invoice.createdAt).toLocaleDateString()}</span>
+                        {invoice.document ? (
+                          <Button variant="outline" size="sm" asChild>
+                            <a href={`/api/ocr/documents/${invoice.document.id}?download=1`}>
+                              <Download className="h-4 w-4 mr-2" />
+                              Original invoice
+                            </a>
+                          </Button>
+                        ) : (
+                          <span>No original on file</span>
+                        )}
                       </div>
                     </div>
                   ))}
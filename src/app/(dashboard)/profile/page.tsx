@@ -5,6 +5,13 @@ import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import { db } from "@/lib/prisma";
 import { ProfileForm } from "@/components/profile/profile-form";
+import { NotificationPreferencesForm } from "@/components/profile/notification-preferences-form";
+import { OutOfOfficeForm } from "@/components/profile/out-of-office-form";
+import { approvalDelegationInclude } from "@/lib/approval-delegations";
+import {
+  NOTIFICATION_EVENTS,
+  NotificationPreferenceService,
+} from "@/lib/notification-preferences";
 import {
   Card,
   CardContent,
@@ -49,6 +56,32 @@ export default async function ProfilePage() {
     redirect("/auth/signin");
   }
 
+  const isApprover = user.role === "team_lead" || user.role === "admin";
+
+  const [notificationPreferences, emailEnabled, delegations, delegateCandidates] = await Promise.all([
+    NotificationPreferenceService.getPreferences(user.id),
+    NotificationPreferenceService.isEmailEnabled(),
+    // Current and upcoming out-of-office windows the user set or is covering
+    isApprover
+      ? db.approvalDelegation.findMany({
+          where: {
+            OR: [{ delegatorId: user.id }, { delegateId: user.id }],
+            cancelledAt: null,
+            endsAt: { gt: new Date() },
+          },
+          include: approvalDelegationInclude,
+          orderBy: { startsAt: "asc" },
+        })
+      : [],
+    isApprover
+      ? db.user.findMany({
+          where: { id: { not: user.id }, isActive: true, role: { in: ["team_lead", "admin"] } },
+          select: { id: true, name: true, role: true },
+          orderBy: { name: "asc" },
+        })
+      : [],
+  ]);
+
   return (
     <div className="container mx-auto px-4 py-8 max-w-4xl">
       <div className="space-y-6">
@@ -91,7 +124,7 @@ export default async function ProfilePage() {
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Profile Information */}
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-6">
             <Card>
               <CardHeader>
                 <CardTitle>Profile Information</CardTitle>
@@ -103,6 +136,40 @@ export default async function ProfilePage() {
                 <ProfileForm user={user} />
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Notification Preferences</CardTitle>
+                <CardDescription>
+                  Choose how you hear about each kind of event
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <NotificationPreferencesForm
+                  events={NOTIFICATION_EVENTS}
+                  preferences={notificationPreferences}
+                  emailEnabled={emailEnabled}
+                />
+              </CardContent>
+            </Card>
+
+            {isApprover && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Out of Office</CardTitle>
+                  <CardDescription>
+                    While you are away, requests waiting on your approval go to your delegate
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <OutOfOfficeForm
+                    userId={user.id}
+                    delegations={delegations}
+                    candidates={delegateCandidates}
+                  />
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Account Summary */}
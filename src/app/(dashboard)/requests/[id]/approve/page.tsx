@@ -6,6 +6,7 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { auth } from "@/lib/auth";
+import { currentApprovalStage, type ApprovalStep } from "@/lib/approval-stages";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -60,6 +61,8 @@ interface RequestData {
   };
   teamLeadApproval: boolean | null;
   adminApproval: boolean | null;
+  approvals: ApprovalStep[];
+  decidesCurrentStage: boolean;
   approvalNotes?: string;
   rejectionReason?: string;
 }
@@ -100,12 +103,15 @@ export default function ApprovalPage({ params }: ApprovalPageProps) {
         setRequest(requestData);
         setUser(session.user);
 
-        // Check if user can approve this request
-        const canApprove = 
-          (session.user.role === "team_lead" && requestData.teamLeadApproval === null) ||
-          (session.user.role === "admin" && 
-           requestData.teamLeadApproval === true && 
-           requestData.adminApproval === null);
+        // Check if user can approve this request; chained requests wait on one stage at a time,
+        // which a delegate covering for an absent approver can also decide
+        const currentStage = currentApprovalStage<ApprovalStep>(requestData.approvals ?? []);
+        const canApprove = currentStage
+          ? requestData.decidesCurrentStage === true
+          : (session.user.role === "team_lead" && requestData.teamLeadApproval === null) ||
+            (session.user.role === "admin" &&
+             requestData.teamLeadApproval === true &&
+             requestData.adminApproval === null);
 
         if (!canApprove) {
           toast.error("You don't have permission to approve this request");
@@ -6,6 +6,9 @@ import { redirect } from "next/navigation";
 import { db } from "@/lib/prisma";
 import { notFound } from "next/navigation";
 import { AssignEquipmentForm } from "@/components/requests/assign-equipment-form";
+import { IssueConsumableForm } from "@/components/requests/issue-consumable-form";
+import { FulfilRequestItemsForm } from "@/components/requests/fulfil-request-items-form";
+import { requestItemInclude, OPEN_LINE_REQUEST_STATUSES } from "@/lib/request-items";
 import type { Equipment, EquipmentRequest } from "@prisma/client";
 
 interface PageProps {
@@ -84,6 +87,11 @@ export default async function AssignEquipmentPage({ params }: PageProps) {
           }
         },
       },
+      consumable: true,
+      items: {
+        include: requestItemInclude,
+        orderBy: { position: "asc" },
+      },
     },
   });
 
@@ -91,8 +99,9 @@ export default async function AssignEquipmentPage({ params }: PageProps) {
     notFound();
   }
 
-  // Check if request is approved and not already assigned
-  if (request.status !== "approved") {
+  // Check if request is approved and not already assigned; multi-item requests stay open while partially fulfilled
+  const assignable = request.items.length > 0 ? OPEN_LINE_REQUEST_STATUSES : ["approved"];
+  if (!assignable.includes(request.status)) {
     redirect(`/requests/${id}`);
   }
 
@@ -100,6 +109,59 @@ export default async function AssignEquipmentPage({ params }: PageProps) {
     redirect(`/requests/${id}`);
   }
 
+  // Consumable requests are issued from stock rather than assigned a serialized item
+  if (request.consumable) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold">Issue Consumable</h1>
+          <p className="text-gray-600 mt-2">
+            Issue stock for approved request #{id.slice(-8)}
+          </p>
+        </div>
+
+        <IssueConsumableForm
+          requestId={request.id}
+          requesterName={request.requester.name}
+          quantity={request.quantity}
+          justification={request.justification}
+          consumable={request.consumable}
+        />
+      </div>
+    );
+  }
+
+  // Multi-item requests such as onboarding kits are fulfilled line by line
+  if (request.items.length > 0) {
+    const stock = await db.equipment.findMany({
+      where: { status: "available" },
+      select: { id: true, name: true, serialNumber: true, category: true },
+      orderBy: [
+        { category: "asc" },
+        { name: "asc" }
+      ]
+    });
+
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold">Fulfil Request</h1>
+          <p className="text-gray-600 mt-2">
+            Fulfil the line items of approved request #{id.slice(-8)}
+          </p>
+        </div>
+
+        <FulfilRequestItemsForm
+          requestId={request.id}
+          requesterName={request.requester.name}
+          justification={request.justification}
+          items={request.items}
+          availableEquipment={stock}
+        />
+      </div>
+    );
+  }
+
   // Fetch available equipment
   const availableEquipment = await db.equipment.findMany({
     where: {
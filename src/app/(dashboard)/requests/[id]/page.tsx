@@ -28,9 +28,14 @@ import {
   Package,
   Mail,
   Phone,
+  ShoppingCart,
 } from "lucide-react";
 import Link from "next/link";
 import { RequestHistory } from "@/components/requests/request-history";
+import { NeededByBadge } from "@/components/requests/needed-by-badge";
+import { ApprovalChainService, requestApprovalInclude } from "@/lib/approval-chains";
+import { currentApprovalStage } from "@/lib/approval-stages";
+import { OPEN_LINE_REQUEST_STATUSES } from "@/lib/request-items";
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -84,6 +89,29 @@ export default async function RequestDetailPage({ params }: PageProps) {
           }
         },
       },
+      items: {
+        select: { id: true },
+      },
+      approvalPolicy: {
+        select: { name: true },
+      },
+      approvals: {
+        include: requestApprovalInclude,
+        orderBy: { position: "asc" },
+      },
+      purchaseOrderLines: {
+        select: {
+          id: true,
+          description: true,
+          quantity: true,
+          receivedQuantity: true,
+          purchaseOrder: {
+            select: { poNumber: true, vendor: true, status: true, expectedDelivery: true },
+          },
+        },
+        where: { purchaseOrder: { status: { not: "cancelled" } } },
+        orderBy: { createdAt: "asc" },
+      },
     },
   });
 
@@ -96,9 +124,19 @@ export default async function RequestDetailPage({ params }: PageProps) {
     redirect("/requests");
   }
 
+  // Requests routed through an approval chain are decided by whoever approves the current stage
+  const currentStage = currentApprovalStage(request.approvals);
+  const decidesCurrentStage = currentStage
+    ? await ApprovalChainService.canDecide(user, currentStage, request.requesterId)
+    : false;
+
   const canApprove = () => {
     if (request.status !== "pending") return false;
 
+    if (request.approvals.length > 0) {
+      return decidesCurrentStage;
+    }
+
     if (user.role === "team_lead" && request.teamLeadApproval === null) {
       return true;
     }
@@ -114,6 +152,14 @@ export default async function RequestDetailPage({ params }: PageProps) {
     return false;
   };
 
+  // Multi-item requests stay open for assignment until every unit is handed over
+  const canAssign = () => {
+    if (request.items.length > 0) {
+      return OPEN_LINE_REQUEST_STATUSES.includes(request.status);
+    }
+    return request.status === "approved" && !request.equipmentId;
+  };
+
   const canEdit = () => {
     return request.requesterId === user.id && request.status === "pending";
   };
@@ -124,6 +170,7 @@ export default async function RequestDetailPage({ params }: PageProps) {
       approved: { color: "default", icon: CheckCircle, text: "Approved" },
       rejected: { color: "destructive", icon: XCircle, text: "Rejected" },
       ordered: { color: "secondary", icon: Package, text: "Ordered" },
+      partially_fulfilled: { color: "secondary", icon: Package, text: "Partially Fulfilled" },
       fulfilled: { color: "default", icon: CheckCircle, text: "Fulfilled" },
     };
 
@@ -172,7 +219,7 @@ export default async function RequestDetailPage({ params }: PageProps) {
     label: string,
     approved: boolean | null,
     required: boolean,
-    approver?: { name: string; email: string } | null
+    approver?: { name: string } | null
   ) => {
     let statusColor = "bg-gray-100 text-gray-500";
     let statusText = "Pending";
@@ -245,9 +292,12 @@ export default async function RequestDetailPage({ params }: PageProps) {
               {request.neededBy && (
                 <div>
                   <p className="text-sm font-medium text-gray-600">Needed By</p>
-                  <p className="font-medium">
-                    {new Date(request.neededBy).toLocaleDateString()}
-                  </p>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">
+                      {new Date(request.neededBy).toLocaleDateString()}
+                    </p>
+                    <NeededByBadge neededBy={request.neededBy} status={request.status} />
+                  </div>
                 </div>
               )}
             </div>
@@ -319,26 +369,45 @@ export default async function RequestDetailPage({ params }: PageProps) {
               <CardTitle>Approval Workflow</CardTitle>
               <CardDescription>
                 Track the progress of your request through the approval process
+                {request.approvals.length > 0 &&
+                  ` (${request.approvalPolicy ? `policy: ${request.approvalPolicy.name}` : "default approval chain"})`}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {getApprovalStep(
-                  "Team Lead Review",
-                  request.teamLeadApproval,
-                  true,
-                  request.teamLeadApproval === true ? request.approver : undefined
-                )}
-                
-                {request.teamLeadApproval === true && (
-                  <div className="ml-4 border-l-2 border-gray-300 pl-4">
+                {request.approvals.length > 0 ? (
+                  request.approvals.map((stage, index) => (
+                    <div key={stage.id} className={index > 0 ? "ml-4 border-l-2 border-gray-300 pl-4" : undefined}>
+                      {getApprovalStep(
+                        stage.approver ? `${stage.name} (${stage.approver.name})` : stage.name,
+                        stage.status === "approved" ? true : stage.status === "rejected" ? false : null,
+                        stage.status !== "skipped",
+                        stage.decidedBy && stage.delegation
+                          ? { name: `${stage.decidedBy.name} on behalf of ${stage.delegation.delegator.name}` }
+                          : stage.decidedBy
+                      )}
+                    </div>
+                  ))
+                ) : (
+                  <>
                     {getApprovalStep(
-                      "Admin Approval",
-                      request.adminApproval,
+                      "Team Lead Review",
+                      request.teamLeadApproval,
                       true,
-                      request.adminApproval === true ? request.approver : undefined
+                      request.teamLeadApproval === true ? request.approver : undefined
                     )}
-                  </div>
+
+                    {request.teamLeadApproval === true && (
+                      <div className="ml-4 border-l-2 border-gray-300 pl-4">
+                        {getApprovalStep(
+                          "Admin Approval",
+                          request.adminApproval,
+                          true,
+                          request.adminApproval === true ? request.approver : undefined
+                        )}
+                      </div>
+                    )}
+                  </>
                 )}
 
                 {request.approvalNotes && (
@@ -359,6 +428,44 @@ export default async function RequestDetailPage({ params }: PageProps) {
           </Card>
         ) : null}
 
+        {/* Procurement */}
+        {request.purchaseOrderLines.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <ShoppingCart className="h-5 w-5" />
+                <span>Ordered</span>
+              </CardTitle>
+              <CardDescription>
+                What has been ordered from vendors for this request
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {request.purchaseOrderLines.map((line) => (
+                <div key={line.id} className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">{line.description}</p>
+                    <p className="text-sm text-gray-600">
+                      {line.purchaseOrder.poNumber} from {line.purchaseOrder.vendor}
+                      {line.purchaseOrder.expectedDelivery &&
+                        line.receivedQuantity < line.quantity &&
+                        ` • expected ${new Date(line.purchaseOrder.expectedDelivery).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <Badge variant={line.receivedQuantity >= line.quantity ? "default" : "secondary"}>
+                    {line.receivedQuantity} / {line.quantity} received
+                  </Badge>
+                </div>
+              ))}
+              {user.role === "admin" && (
+                <Button asChild variant="outline" size="sm">
+                  <Link href="/admin/purchase-orders">Manage Purchase Orders</Link>
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Equipment Assignment */}
         {request.equipment && (
           <Card>
@@ -413,7 +520,7 @@ export default async function RequestDetailPage({ params }: PageProps) {
                 </Button>
               )}
 
-              {user.role === "admin" && request.status === "approved" && !request.equipmentId && (
+              {user.role === "admin" && canAssign() && (
                 <Button asChild>
                   <Link href={`/requests/${request.id}/assign`}>
                     <Package className="h-4 w-4 mr-2" />
@@ -4,16 +4,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { db } from "@/lib/prisma";
-import { withSecurity } from "@/lib/security-middleware";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
 import { EmailNotificationService, type EquipmentRequestEmailData } from "@/lib/email";
-
-interface AuthenticatedRequest extends NextRequest {
-  user?: {
-    id?: string;
-    name?: string;
-    role?: string;
-  };
-}
+import { NotificationService } from "@/lib/notifications";
+import { ApprovalChainService, ApprovalChainError, ApprovalStageForbiddenError } from "@/lib/approval-chains";
 
 const rejectRequestSchema = z.object({
   rejectionReason: z.string().min(10, "Rejection reason must be at least 10 characters"),
@@ -29,36 +24,13 @@ export async function POST(
       const { id } = await params;
       const user = req.user;
       const requestId = id;
-      
-      if (!user?.id || !user?.role) {
-        return NextResponse.json(
-          { error: "Unauthorized - user context missing" },
-          { status: 401 }
-        );
-      }
-
-      // Only team leads and admins can reject requests
-      if (user.role !== 'team_lead' && user.role !== 'admin') {
-        return NextResponse.json(
-          { error: "Forbidden - insufficient permissions to reject requests" },
-          { status: 403 }
-        );
-      }
 
       const body = await req.json();
       const validatedData = rejectRequestSchema.parse(body);
 
-      // Get the current request with requester details
       const currentRequest = await db.equipmentRequest.findUnique({
         where: { id: requestId },
-        include: {
-          requester: {
-            select: { id: true, name: true, email: true, role: true }
-          },
-          approver: {
-            select: { id: true, name: true, email: true, role: true }
-          }
-        }
+        select: { id: true },
       });
 
       if (!currentRequest) {
@@ -68,59 +40,11 @@ export async function POST(
         );
       }
 
-      // Check if request is in pending status
-      if (currentRequest.status !== 'pending') {
-        return NextResponse.json(
-          { error: `Request cannot be rejected - current status: ${currentRequest.status}` },
-          { status: 400 }
-        );
-      }
-
-      const updateData: any = {
-        status: 'rejected',
-        approverId: user.id,
-        rejectionReason: validatedData.rejectionReason,
-        updatedAt: new Date(),
-      };
-
-      // Determine rejection workflow based on user role
-      if (user.role === 'team_lead') {
-        // Team lead rejection
-        if (currentRequest.teamLeadApproval !== null) {
-          return NextResponse.json(
-            { error: "Request has already been reviewed by a team lead" },
-            { status: 400 }
-          );
-        }
-
-        updateData.teamLeadApproval = false;
-      } else if (user.role === 'admin') {
-        // Admin rejection
-        if (currentRequest.adminApproval !== null) {
-          return NextResponse.json(
-            { error: "Request has already been reviewed by an admin" },
-            { status: 400 }
-          );
-        }
-
-        // Admins can reject at any point in the workflow
-        updateData.adminApproval = false;
-        
-        // If team lead hasn't reviewed yet, also mark that as rejected
-        if (currentRequest.teamLeadApproval === null) {
-          updateData.teamLeadApproval = false;
-        }
-      }
-
-      // Add notes if provided
-      if (validatedData.notes) {
-        updateData.approvalNotes = validatedData.notes;
-      }
+      // Rejected at whichever approval stage the request is waiting on
+      await ApprovalChainService.reject(requestId, user, validatedData.rejectionReason, validatedData.notes);
 
-      // Update the request
-      const updatedRequest = await db.equipmentRequest.update({
+      const updatedRequest = await db.equipmentRequest.findUniqueOrThrow({
         where: { id: requestId },
-        data: updateData,
         include: {
           requester: {
             select: { id: true, name: true, email: true, role: true }
@@ -166,6 +90,13 @@ export async function POST(
         // Don't fail the rejection process if email fails
       }
 
+      try {
+        await NotificationService.notifyRequestRejected(emailData);
+      } catch (notificationError) {
+        console.error('Failed to create rejection notification:', notificationError);
+        // Don't fail the rejection process if notifications fail
+      }
+
       return NextResponse.json({
         message: "Request rejected successfully",
         request: updatedRequest,
@@ -183,14 +114,27 @@ export async function POST(
         );
       }
 
+      if (error instanceof ApprovalStageForbiddenError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
+
+      if (error instanceof ApprovalChainError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
       return NextResponse.json(
         { error: "Internal server error" },
         { status: 500 }
       );
     }
   }, {
-    requireAuth: true,
-    requiredRoles: ['team_lead', 'admin'],
+    policy: policies.approveRequests,
     enableRateLimit: true,
   });
 }
\ No newline at end of file
@@ -5,6 +5,9 @@ import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import { db } from "@/lib/prisma";
 import { ApprovalDashboard } from "@/components/requests/approval-dashboard";
+import { ApprovalChainService } from "@/lib/approval-chains";
+import { ApprovalDelegationService } from "@/lib/approval-delegations";
+import { SlaTrackingService } from "@/lib/sla-tracking";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -56,30 +59,17 @@ export default async function ApprovalQueuePage({
   const tomorrow = new Date(today);
   tomorrow.setDate(tomorrow.getDate() + 1);
 
-  // Build approval queue filters based on user role
-  let pendingWhereClause: Record<string, unknown> = {};
-  let myApprovalsWhereClause: Record<string, unknown> = {};
-
-  if (user.role === "team_lead") {
-    // Team leads see requests needing their approval
-    pendingWhereClause = {
-      status: "pending",
-      teamLeadApproval: null,
-    };
-    myApprovalsWhereClause = {
-      approverId: user.id,
-    };
-  } else if (user.role === "admin") {
-    // Admins see requests that have team lead approval but need admin approval
-    pendingWhereClause = {
-      status: "pending",
-      teamLeadApproval: true,
-      adminApproval: null,
-    };
-    myApprovalsWhereClause = {
-      approverId: user.id,
-    };
-  }
+  // Requests waiting on a stage this user approves, and the ones they have decided
+  const pendingWhereClause = await ApprovalChainService.pendingApprovalWhere(user);
+  const coveringFor = (await ApprovalDelegationService.activeForDelegate(user.id)).map(
+    (delegation) => delegation.delegator
+  );
+  const myApprovalsWhereClause = {
+    OR: [
+      { approverId: user.id },
+      { approvals: { some: { decidedById: user.id } } },
+    ],
+  };
 
   // Fetch all needed data
   const [
@@ -103,6 +93,14 @@ export default async function ApprovalQueuePage({
         equipment: {
           select: { id: true, name: true, serialNumber: true },
         },
+        items: {
+          select: { id: true, kind: true, name: true, quantity: true, fulfilledQuantity: true, budget: true, status: true },
+          orderBy: { position: "asc" },
+        },
+        approvals: {
+          select: { id: true, position: true, name: true, approverRole: true, approverId: true, status: true, openedAt: true },
+          orderBy: { position: "asc" },
+        },
       },
       orderBy: [
         { priority: "desc" }, // Higher priority first
@@ -123,6 +121,14 @@ export default async function ApprovalQueuePage({
         equipment: {
           select: { id: true, name: true, serialNumber: true },
         },
+        items: {
+          select: { id: true, kind: true, name: true, quantity: true, fulfilledQuantity: true, budget: true, status: true },
+          orderBy: { position: "asc" },
+        },
+        approvals: {
+          select: { id: true, position: true, name: true, approverRole: true, approverId: true, status: true },
+          orderBy: { position: "asc" },
+        },
       },
       orderBy: { updatedAt: "desc" },
       take: 50, // Limit to recent approvals
@@ -130,16 +136,7 @@ export default async function ApprovalQueuePage({
     
     // Stats
     db.equipmentRequest.count({ where: pendingWhereClause }),
-    db.equipmentRequest.count({ 
-      where: { 
-        ...pendingWhereClause,
-        ...(user.role === "team_lead" ? { teamLeadApproval: null } : {}),
-        ...(user.role === "admin" ? { 
-          teamLeadApproval: true, 
-          adminApproval: null 
-        } : {}),
-      }
-    }),
+    db.equipmentRequest.count({ where: pendingWhereClause }),
     db.equipmentRequest.count({
       where: {
         approverId: user.id,
@@ -156,8 +153,14 @@ export default async function ApprovalQueuePage({
     }),
   ]);
 
-  // Calculate average approval time (placeholder - would need more complex calculation)
-  const avgApprovalTime = 2.4; // hours
+  // Average time to approve requests submitted in the last 30 days, from their history
+  const since = new Date(today);
+  since.setDate(since.getDate() - 30);
+  const [slaTargets, responseTimes] = await Promise.all([
+    SlaTrackingService.getTargets(),
+    SlaTrackingService.responseTimes({ since }),
+  ]);
+  const avgApprovalTime = responseTimes.overall.averageHoursToApprove ?? 0; // hours
 
   const stats = {
     totalPending,
@@ -175,6 +178,8 @@ export default async function ApprovalQueuePage({
         stats={stats}
         userRole={user.role}
         userId={user.id}
+        coveringFor={coveringFor}
+        slaTargets={slaTargets}
       />
     </div>
   );
@@ -0,0 +1,49 @@
+// ABOUTME: Request response-times report page
+// ABOUTME: Shows average time to approve and to fulfil requests per team; team leads see their own team
+
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { db } from "@/lib/prisma";
+import { SlaTrackingService } from "@/lib/sla-tracking";
+import { ResponseTimesReportView } from "@/components/reports/response-times-report";
+
+const PERIODS = [30, 90, 365];
+
+interface PageProps {
+  searchParams: Promise<{ days?: string }>;
+}
+
+export default async function ResponseTimesPage({ searchParams }: PageProps) {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/auth/signin");
+  }
+
+  const { user } = session;
+
+  if (user.role === "user") {
+    redirect("/requests");
+  }
+
+  const params = await searchParams;
+  const days = PERIODS.includes(Number(params.days)) ? Number(params.days) : PERIODS[0];
+  const since = new Date();
+  since.setHours(0, 0, 0, 0);
+  since.setDate(since.getDate() - days);
+
+  // Team leads only see how their own team's requests were handled
+  let teamId: string | null | undefined;
+  if (user.role === "team_lead") {
+    const lead = await db.user.findUnique({ where: { id: user.id }, select: { teamId: true } });
+    teamId = lead?.teamId ?? null;
+  }
+
+  const report = await SlaTrackingService.responseTimes({ since, teamId });
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <ResponseTimesReportView report={report} days={days} periods={PERIODS} />
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import { db } from "@/lib/prisma";
 import { RequestsList } from "@/components/requests/requests-list";
+import { ApprovalChainService } from "@/lib/approval-chains";
+import { ApprovalDelegationService } from "@/lib/approval-delegations";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -68,6 +70,14 @@ export default async function RequestsPage({
           equipment: {
             select: { id: true, name: true, serialNumber: true },
           },
+          items: {
+            select: { id: true, kind: true, name: true, quantity: true, fulfilledQuantity: true, budget: true, status: true },
+            orderBy: { position: "asc" },
+          },
+          approvals: {
+            select: { id: true, position: true, name: true, approverRole: true, approverId: true, status: true },
+            orderBy: { position: "asc" },
+          },
         },
         orderBy: { createdAt: "desc" },
         skip: (currentPage - 1) * pageSize,
@@ -85,23 +95,16 @@ export default async function RequestsPage({
       }),
     ]);
 
-  // Count requests needing approval for team leads/admins
+  // Count requests needing approval for team leads/admins, including those of approvers they cover for
   let needsApprovalCount = 0;
-  if (user.role === "team_lead") {
-    needsApprovalCount = await db.equipmentRequest.count({
-      where: {
-        status: "pending",
-        teamLeadApproval: null,
-      },
-    });
-  } else if (user.role === "admin") {
+  let coveringFor: Array<{ id: string; role: string }> = [];
+  if (user.role === "team_lead" || user.role === "admin") {
     needsApprovalCount = await db.equipmentRequest.count({
-      where: {
-        status: "pending",
-        teamLeadApproval: true,
-        adminApproval: null,
-      },
+      where: await ApprovalChainService.pendingApprovalWhere(user),
     });
+    coveringFor = (await ApprovalDelegationService.activeForDelegate(user.id)).map(
+      (delegation) => delegation.delegator
+    );
   }
 
   const totalPages = Math.ceil(totalCount / pageSize);
@@ -254,6 +257,7 @@ export default async function RequestsPage({
           totalPages={totalPages}
           userRole={user.role}
           userId={user.id}
+          coveringFor={coveringFor}
         />
       </div>
     </div>
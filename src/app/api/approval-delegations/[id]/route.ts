@@ -0,0 +1,57 @@
+// ABOUTME: API endpoint for a single out-of-office approval delegation
+// ABOUTME: Cancels a delegation early; the record is kept so decisions made under it stay traceable
+
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import {
+  ApprovalDelegationService,
+  ApprovalDelegationError,
+  ApprovalDelegationForbiddenError,
+} from "@/lib/approval-delegations";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+
+      const delegation = await ApprovalDelegationService.cancel(id, req.user);
+
+      if (!delegation) {
+        return NextResponse.json({ error: "Delegation not found" }, { status: 404 });
+      }
+
+      return NextResponse.json({
+        message: "Out-of-office delegation cancelled",
+        delegation,
+      });
+    } catch (error) {
+      console.error("Approval delegation cancel error:", error);
+
+      if (error instanceof ApprovalDelegationForbiddenError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
+
+      if (error instanceof ApprovalDelegationError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.approveRequests,
+  });
+}
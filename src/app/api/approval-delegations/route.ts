@@ -0,0 +1,96 @@
+// ABOUTME: API endpoint for out-of-office approval delegations
+// ABOUTME: Lists the delegations a user gave or received and records new out-of-office windows
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { approvalDelegationSchemas } from "@/lib/validation";
+import {
+  ApprovalDelegationService,
+  ApprovalDelegationError,
+  ApprovalDelegationForbiddenError,
+} from "@/lib/approval-delegations";
+import { NotificationService } from "@/lib/notifications";
+
+export async function GET(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const delegations = await ApprovalDelegationService.list(req.user);
+      return NextResponse.json({ delegations });
+    } catch (error) {
+      console.error("Approval delegations fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.approveRequests,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+      const body = await req.json();
+      const { delegatorId = user.id, ...data } = approvalDelegationSchemas.delegation.parse(body);
+
+      if (delegatorId !== user.id && user.role !== "admin") {
+        throw new ApprovalDelegationForbiddenError();
+      }
+
+      const delegation = await ApprovalDelegationService.create(delegatorId, data, user.id);
+
+      try {
+        await NotificationService.notifyUsers([delegation.delegateId], {
+          type: "info",
+          title: "Approvals delegated to you",
+          message: `${delegation.delegator.name} is out of office from ${delegation.startsAt.toLocaleDateString()} to ${delegation.endsAt.toLocaleDateString()}. Their approvals come to you in the meantime.`,
+          relatedId: delegation.delegatorId,
+          relatedType: "user",
+          actionUrl: "/requests/approve",
+        });
+      } catch (notificationError) {
+        console.error("Failed to notify delegate:", notificationError);
+        // Don't fail the delegation if the notification fails
+      }
+
+      return NextResponse.json({
+        message: "Out-of-office delegation saved",
+        delegation,
+      }, { status: 201 });
+    } catch (error) {
+      console.error("Approval delegation creation error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof ApprovalDelegationForbiddenError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
+
+      if (error instanceof ApprovalDelegationError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.approveRequests,
+  });
+}
@@ -0,0 +1,81 @@
+// ABOUTME: API endpoint for a single approval policy
+// ABOUTME: Updates a policy's conditions and stages or deletes it; requests already routed keep their stages
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { approvalPolicySchemas } from "@/lib/validation";
+import { ApprovalChainService, ApprovalChainError } from "@/lib/approval-chains";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+      const body = await req.json();
+      const data = approvalPolicySchemas.policy.parse(body);
+
+      const approvalPolicy = await ApprovalChainService.update(id, data);
+
+      if (!approvalPolicy) {
+        return NextResponse.json({ error: "Approval policy not found" }, { status: 404 });
+      }
+
+      return NextResponse.json({
+        message: "Approval policy updated",
+        policy: approvalPolicy,
+      });
+    } catch (error) {
+      console.error("Approval policy update error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof ApprovalChainError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withSecurity(request, async () => {
+    try {
+      const { id } = await params;
+
+      const approvalPolicy = await ApprovalChainService.delete(id);
+
+      if (!approvalPolicy) {
+        return NextResponse.json({ error: "Approval policy not found" }, { status: 404 });
+      }
+
+      return NextResponse.json({ message: "Approval policy deleted" });
+    } catch (error) {
+      console.error("Approval policy deletion error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
+}
@@ -0,0 +1,65 @@
+// ABOUTME: API endpoint for approval policies
+// ABOUTME: Lists the policies in the order they are matched against requests and creates new ones
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { approvalPolicySchemas } from "@/lib/validation";
+import { ApprovalChainService, ApprovalChainError } from "@/lib/approval-chains";
+
+export async function GET(request: NextRequest) {
+  return withSecurity(request, async () => {
+    try {
+      const approvalPolicies = await ApprovalChainService.list();
+      return NextResponse.json({ policies: approvalPolicies });
+    } catch (error) {
+      console.error("Approval policies fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const data = approvalPolicySchemas.policy.parse(body);
+
+      const approvalPolicy = await ApprovalChainService.create(data, req.user.id);
+
+      return NextResponse.json({
+        message: "Approval policy created",
+        policy: approvalPolicy,
+      }, { status: 201 });
+    } catch (error) {
+      console.error("Approval policy creation error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof ApprovalChainError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
+}
@@ -1,8 +1,21 @@
 // ABOUTME: NextAuth.js API route handlers for authentication endpoints
 // ABOUTME: Handles all authentication requests including sign in, sign out, and callbacks
 
+import { NextRequest } from "next/server";
 import { handlers } from "@/lib/auth";
+import { enforceRateLimit } from "@/lib/rate-limit";
 
-export const { GET, POST } = handlers;
+export const { GET } = handlers;
+
+// Sign-in and magic link requests fall in the strict auth group against brute force and email flooding;
+// sign-out, session and CSRF calls only count against the general limit, so a shared NAT is not locked out
+export async function POST(request: NextRequest) {
+  const rateLimited = await enforceRateLimit(request);
+  if (rateLimited) {
+    return rateLimited;
+  }
+
+  return handlers.POST(request);
+}
 
 export const runtime = "nodejs";
@@ -6,18 +6,29 @@ import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { userSchemas, InputSanitizer } from "@/lib/validation";
 import { withSecurity } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { SystemSettingsService } from "@/lib/system-settings";
 
 async function registerHandler(req: NextRequest) {
   try {
+    const settings = await SystemSettingsService.getAll();
+    if (!settings.enableUserRegistration) {
+      return NextResponse.json(
+        { error: "User registration is disabled" },
+        { status: 403 }
+      );
+    }
+
     const body = await req.json();
     const validatedData = userSchemas.create.parse(body);
 
-    // Sanitize inputs
+    // Sanitize inputs. Self-registered accounts always get the configured default role,
+    // whatever the request asks for
     const { name, email, password, role } = {
       name: InputSanitizer.sanitizeString(validatedData.name),
       email: InputSanitizer.sanitizeEmail(validatedData.email),
       password: validatedData.password, // Don't sanitize password - it will be hashed
-      role: validatedData.role,
+      role: settings.defaultUserRole,
     };
 
     // Check if user already exists
@@ -73,7 +84,7 @@ async function registerHandler(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   return withSecurity(req, registerHandler, {
-    requireAuth: false,
+    policy: policies.public,
     enableRateLimit: true,
     rateLimitWindow: 15 * 60 * 1000, // 15 minutes
     rateLimitMax: 5, // Limit registration attempts
@@ -0,0 +1,117 @@
+// ABOUTME: API endpoint for consumable stock movements
+// ABOUTME: Handles GET for movement history and POST for attributed check-ins, check-outs and adjustments
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/prisma";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { consumableSchemas, InputSanitizer, ValidationHelper } from "@/lib/validation";
+import { ConsumableStockService, InsufficientStockError, isLowStock } from "@/lib/consumables";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+      const { searchParams } = new URL(req.url);
+      const limit = Math.min(parseInt(searchParams.get("limit") || "100", 10) || 100, 500);
+
+      const item = await db.smallInventoryItem.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+
+      if (!item) {
+        return NextResponse.json(
+          { error: "Consumable not found" },
+          { status: 404 }
+        );
+      }
+
+      const movements = await ConsumableStockService.getMovements(id, limit);
+
+      return NextResponse.json(ValidationHelper.sanitizeDbResults(movements));
+    } catch (error) {
+      console.error("Stock movements fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageEquipment,
+    enableRateLimit: true,
+  });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+      const user = req.user;
+      const body = await req.json();
+
+      const validatedData = consumableSchemas.movement.parse(body);
+
+      const item = await db.smallInventoryItem.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+
+      if (!item) {
+        return NextResponse.json(
+          { error: "Consumable not found" },
+          { status: 404 }
+        );
+      }
+
+      const result = await ConsumableStockService.recordMovement(
+        id,
+        {
+          ...validatedData,
+          reason: InputSanitizer.sanitizeString(validatedData.reason),
+        },
+        user.id
+      );
+
+      return NextResponse.json(
+        {
+          message: "Stock movement recorded successfully",
+          movement: result.movement,
+          item: { ...result.item, isLowStock: isLowStock(result.item) },
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Stock movement error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof InsufficientStockError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageEquipment,
+    enableRateLimit: true,
+  });
+}
@@ -0,0 +1,172 @@
+// ABOUTME: API endpoint for a single consumable item
+// ABOUTME: Handles GET with recent movements, PUT for item details and DELETE for unused items
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/prisma";
+import { withSecurity } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { consumableSchemas, InputSanitizer, ValidationHelper } from "@/lib/validation";
+import { ConsumableStockService, isLowStock } from "@/lib/consumables";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async () => {
+    try {
+      const { id } = await params;
+
+      const item = await db.smallInventoryItem.findUnique({
+        where: { id },
+      });
+
+      if (!item) {
+        return NextResponse.json(
+          { error: "Consumable not found" },
+          { status: 404 }
+        );
+      }
+
+      const movements = await ConsumableStockService.getMovements(id, 50);
+
+      return NextResponse.json(
+        ValidationHelper.sanitizeDbResults({
+          ...item,
+          isLowStock: isLowStock(item),
+          movements,
+        })
+      );
+    } catch (error) {
+      console.error("Consumable fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+    enableRateLimit: true,
+  });
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req) => {
+    try {
+      const { id } = await params;
+      const body = await req.json();
+
+      const validatedData = consumableSchemas.update.parse(body);
+
+      const existing = await db.smallInventoryItem.findUnique({
+        where: { id },
+      });
+
+      if (!existing) {
+        return NextResponse.json(
+          { error: "Consumable not found" },
+          { status: 404 }
+        );
+      }
+
+      const minStock = validatedData.minStock ?? existing.minStock;
+      const maxStock = validatedData.maxStock !== undefined ? validatedData.maxStock : existing.maxStock;
+      if (maxStock != null && maxStock < minStock) {
+        return NextResponse.json(
+          { error: "Maximum stock must not be lower than minimum stock" },
+          { status: 400 }
+        );
+      }
+
+      const item = await db.smallInventoryItem.update({
+        where: { id },
+        data: {
+          ...validatedData,
+          name: validatedData.name ? InputSanitizer.sanitizeString(validatedData.name) : undefined,
+          category: validatedData.category ? InputSanitizer.sanitizeString(validatedData.category) : undefined,
+          location: validatedData.location !== undefined
+            ? InputSanitizer.sanitizeString(validatedData.location)
+            : undefined,
+          notes: validatedData.notes !== undefined
+            ? InputSanitizer.sanitizeString(validatedData.notes)
+            : undefined,
+        },
+      });
+
+      return NextResponse.json({
+        message: "Consumable updated successfully",
+        item: { ...item, isLowStock: isLowStock(item) },
+      });
+    } catch (error) {
+      console.error("Consumable update error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageEquipment,
+    enableRateLimit: true,
+  });
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async () => {
+    try {
+      const { id } = await params;
+
+      const item = await db.smallInventoryItem.findUnique({
+        where: { id },
+        include: {
+          _count: { select: { requests: true } },
+        },
+      });
+
+      if (!item) {
+        return NextResponse.json(
+          { error: "Consumable not found" },
+          { status: 404 }
+        );
+      }
+
+      // Keep items that requests point at so the request history stays readable
+      if (item._count.requests > 0) {
+        return NextResponse.json(
+          { error: "Cannot delete a consumable that has been requested" },
+          { status: 400 }
+        );
+      }
+
+      await db.smallInventoryItem.delete({
+        where: { id },
+      });
+
+      return NextResponse.json({
+        message: "Consumable deleted successfully",
+      });
+    } catch (error) {
+      console.error("Consumable deletion error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+    enableRateLimit: true,
+  });
+}
@@ -0,0 +1,118 @@
+// ABOUTME: API endpoint for consumable (small inventory) stock management
+// ABOUTME: Handles GET for listing consumables with low-stock flags and POST for creating items
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/prisma";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { consumableSchemas, InputSanitizer, ValidationHelper } from "@/lib/validation";
+import { ConsumableStockService, isLowStock } from "@/lib/consumables";
+
+export async function GET(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = new URL(req.url);
+      const search = searchParams.get("search");
+      const category = searchParams.get("category");
+      const lowStockOnly = searchParams.get("lowStock") === "true";
+
+      if (lowStockOnly) {
+        const items = await ConsumableStockService.getLowStockItems();
+        return NextResponse.json(
+          ValidationHelper.sanitizeDbResults(items.map((item) => ({ ...item, isLowStock: true })))
+        );
+      }
+
+      const whereClause: Record<string, unknown> = {};
+      if (search) {
+        whereClause.name = { contains: InputSanitizer.sanitizeString(search) };
+      }
+      if (category && category !== "all") {
+        whereClause.category = category;
+      }
+
+      const items = await db.smallInventoryItem.findMany({
+        where: whereClause,
+        orderBy: [{ category: "asc" }, { name: "asc" }],
+      });
+
+      return NextResponse.json(
+        ValidationHelper.sanitizeDbResults(
+          items.map((item) => ({ ...item, isLowStock: isLowStock(item) }))
+        )
+      );
+    } catch (error) {
+      console.error("Consumables fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+    enableRateLimit: true,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+      const body = await req.json();
+
+      const validatedData = consumableSchemas.create.parse(body);
+      const { currentStock, ...itemData } = validatedData;
+
+      // Opening stock is recorded as a movement so the history adds up to the current level
+      const item = await db.$transaction(async (tx) => {
+        const created = await tx.smallInventoryItem.create({
+          data: {
+            ...itemData,
+            name: InputSanitizer.sanitizeString(itemData.name),
+            category: InputSanitizer.sanitizeString(itemData.category),
+            location: itemData.location ? InputSanitizer.sanitizeString(itemData.location) : undefined,
+            notes: itemData.notes ? InputSanitizer.sanitizeString(itemData.notes) : undefined,
+          },
+        });
+
+        if (currentStock > 0) {
+          const { item: stocked } = await ConsumableStockService.recordMovement(
+            created.id,
+            { type: "check_in", quantity: currentStock, reason: "Opening stock" },
+            user.id,
+            tx
+          );
+          return stocked;
+        }
+
+        return created;
+      });
+
+      return NextResponse.json(
+        {
+          message: "Consumable created successfully",
+          item: { ...item, isLowStock: isLowStock(item) },
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Consumable creation error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageEquipment,
+    enableRateLimit: true,
+  });
+}
@@ -3,40 +3,35 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { CSRFProtection } from '@/lib/csrf';
-import { SecurityMiddleware } from '@/lib/security-middleware';
+import { withSecurity } from '@/lib/security-middleware';
+import { policies } from '@/lib/authorization';
 
 export async function GET(request: NextRequest) {
-  // Apply security middleware (allow public access for CSRF token)
-  const securityResult = await SecurityMiddleware.apply(request, {
-    requireAuth: false, // CSRF tokens can be requested without authentication
-    enableRateLimit: true,
-  });
-
-  if (securityResult) {
-    return securityResult;
-  }
+  return withSecurity(request, async (req) => {
+    try {
+      // Generate CSRF token
+      const { token, setCookieHeader } = await CSRFProtection.getCsrfToken(req);
 
-  try {
-    // Generate CSRF token
-    const { token, setCookieHeader } = await CSRFProtection.getCsrfToken(request);
+      // Create response with CSRF token
+      const response = NextResponse.json({
+        csrfToken: token,
+        message: 'CSRF token generated successfully',
+      });
 
-    // Create response with CSRF token
-    const response = NextResponse.json({
-      csrfToken: token,
-      message: 'CSRF token generated successfully',
-    });
+      // Set CSRF token cookie
+      response.headers.set('Set-Cookie', setCookieHeader);
 
-    // Set CSRF token cookie
-    response.headers.set('Set-Cookie', setCookieHeader);
+      return response;
+    } catch (error) {
+      console.error('Error generating CSRF token:', error);
 
-    // Apply security headers
-    return SecurityMiddleware.applySecurityHeaders(response);
-  } catch (error) {
-    console.error('Error generating CSRF token:', error);
-    
-    return NextResponse.json(
-      { error: 'Failed to generate CSRF token' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+      return NextResponse.json(
+        { error: 'Failed to generate CSRF token' },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.public, // CSRF tokens can be requested without authentication
+    enableRateLimit: true,
+  });
+}
@@ -0,0 +1,64 @@
+// ABOUTME: API endpoint for rejecting equipment disposals
+// ABOUTME: Rejects a pending disposal, leaving the equipment in service
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { disposalSchemas, InputSanitizer } from "@/lib/validation";
+import { EquipmentDisposalService, DisposalError } from "@/lib/disposal";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+      const body = await req.json().catch(() => ({}));
+      const { notes } = disposalSchemas.review.parse(body);
+
+      const disposal = await EquipmentDisposalService.reject(
+        id,
+        req.user.id,
+        notes ? InputSanitizer.sanitizeString(notes) : undefined
+      );
+
+      if (!disposal) {
+        return NextResponse.json(
+          { error: "Disposal not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        message: "Disposal rejected",
+        disposal,
+      });
+    } catch (error) {
+      console.error("Disposal reject error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof DisposalError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+    enableRateLimit: true,
+  });
+}
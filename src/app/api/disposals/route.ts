@@ -0,0 +1,36 @@
+// ABOUTME: API endpoint for the equipment disposal approval queue
+// ABOUTME: Lists disposal requests across all equipment, filtered by status, for admins
+
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { disposalSchemas } from "@/lib/validation";
+import { EquipmentDisposalService } from "@/lib/disposal";
+
+export async function GET(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = new URL(req.url);
+      const parsed = disposalSchemas.list.safeParse(Object.fromEntries(searchParams.entries()));
+
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Invalid parameters", details: parsed.error.issues },
+          { status: 400 }
+        );
+      }
+
+      const result = await EquipmentDisposalService.list(parsed.data);
+
+      return NextResponse.json(result);
+    } catch (error) {
+      console.error("Disposals fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
+}
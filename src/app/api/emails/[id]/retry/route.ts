@@ -0,0 +1,40 @@
+// ABOUTME: API endpoint for retrying a single outgoing email
+// ABOUTME: Handles POST to resend a pending or failed email immediately
+
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { EmailOutboxService, summarizeDelivery } from "@/lib/email-outbox";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async () => {
+    try {
+      const { id } = await params;
+      const delivery = await EmailOutboxService.retry(id);
+
+      if (!delivery) {
+        return NextResponse.json(
+          { error: "Email not found, already sent or being sent" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        message: delivery.status === "sent" ? "Email sent successfully" : "Email could not be sent",
+        delivery: summarizeDelivery(delivery),
+      });
+    } catch (error) {
+      console.error("Email retry error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+    enableRateLimit: true,
+  });
+}
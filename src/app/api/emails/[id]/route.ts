@@ -0,0 +1,41 @@
+// ABOUTME: API endpoint for a single outgoing email
+// ABOUTME: Handles GET for the full message so admins can preview what was sent
+
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { parseRecipients } from "@/lib/email-outbox";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async () => {
+    try {
+      const { id } = await params;
+      const delivery = await prisma.emailDelivery.findUnique({ where: { id } });
+
+      if (!delivery) {
+        return NextResponse.json(
+          { error: "Email not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        ...delivery,
+        to: parseRecipients(delivery.to),
+      });
+    } catch (error) {
+      console.error("Email fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+    enableRateLimit: true,
+  });
+}
@@ -0,0 +1,70 @@
+// ABOUTME: API endpoint for the outgoing email log
+// ABOUTME: Handles GET for listing sent, pending and failed emails and POST for running due retries
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { emailDeliverySchemas } from "@/lib/validation";
+import { EmailOutboxService, summarizeDelivery } from "@/lib/email-outbox";
+
+export async function GET(request: NextRequest) {
+  return withSecurity(request, async (req: NextRequest) => {
+    try {
+      const { searchParams } = new URL(req.url);
+
+      const validatedParams = emailDeliverySchemas.list.parse({
+        page: searchParams.get("page") || undefined,
+        limit: searchParams.get("limit") || undefined,
+        status: searchParams.get("status") || undefined,
+      });
+
+      const result = await EmailOutboxService.list(validatedParams);
+
+      // Bodies are fetched one at a time for the preview, so keep the list light
+      return NextResponse.json({
+        ...result,
+        deliveries: result.deliveries.map(summarizeDelivery),
+      });
+    } catch (error) {
+      console.error("Email log fetch error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid query parameters", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+    enableRateLimit: true,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  return withSecurity(request, async () => {
+    try {
+      const result = await EmailOutboxService.processDue();
+
+      return NextResponse.json({
+        message: "Due email retries processed",
+        ...result,
+      });
+    } catch (error) {
+      console.error("Email retry processing error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+    enableRateLimit: true,
+  });
+}
@@ -4,11 +4,13 @@
 import { z } from "zod";
 import { db } from "@/lib/prisma";
 import { NextRequest, NextResponse } from "next/server";
-import { commonSchemas, InputSanitizer } from "@/lib/validation";
-import { withSecurity } from "@/lib/security-middleware";
+import { commonSchemas, handoverChecklistSchemas, InputSanitizer } from "@/lib/validation";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { HandoverChecklistService } from "@/lib/handover-checklists";
 
 async function assignEquipmentHandler(
-  request: NextRequest,
+  request: AuthenticatedRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
@@ -27,9 +29,10 @@ async function assignEquipmentHandler(
     const assignSchema = z.object({
       userId: commonSchemas.cuid,
       notes: z.string().max(1000).optional(),
+      completedSteps: handoverChecklistSchemas.completedSteps,
     });
     
-    const { userId, notes } = assignSchema.parse(body);
+    const { userId, notes, completedSteps } = assignSchema.parse(body);
     
     // Sanitize inputs
     const sanitizedNotes = notes ? InputSanitizer.sanitizeString(notes) : null;
@@ -83,21 +86,30 @@ async function assignEquipmentHandler(
       });
 
       // Create history record
-      await tx.equipmentHistory.create({
+      const history = await tx.equipmentHistory.create({
         data: {
           equipmentId,
           toUserId: userId,
           action: "assigned",
-          notes: sanitizedNotes || `Assigned by ${(request as { user?: { name?: string } }).user?.name || 'System'}`,
+          notes: sanitizedNotes || `Assigned by ${request.user?.name || 'System'}`,
         },
       });
 
-      return updatedEquipment;
+      const checklist = await HandoverChecklistService.start(tx, {
+        equipmentId,
+        stage: "assignment",
+        historyId: history.id,
+        completedSteps,
+        userId: request.user.id,
+      });
+
+      return { equipment: updatedEquipment, checklist };
     });
 
     return NextResponse.json({
       message: "Equipment assigned successfully",
-      equipment: result,
+      equipment: result.equipment,
+      checklist: result.checklist,
     });
   } catch (error) {
     console.error("Equipment assignment error:", error);
@@ -121,8 +133,7 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   return withSecurity(request, (req) => assignEquipmentHandler(req, { params }), {
-    requireAuth: true,
-    requiredRoles: ['team_lead', 'admin'],
+    policy: policies.manageEquipment,
     enableRateLimit: true,
     enableCSRF: true,
   });
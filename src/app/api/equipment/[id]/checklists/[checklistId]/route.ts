@@ -0,0 +1,61 @@
+// ABOUTME: API endpoint for ticking handover checklist steps
+// ABOUTME: Records who ticked each step and when, releasing returned equipment once its return checklist is done
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { handoverChecklistSchemas } from "@/lib/validation";
+import { HandoverChecklistService, ChecklistError } from "@/lib/handover-checklists";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; checklistId: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id, checklistId } = await params;
+      const body = await req.json();
+      const { itemId, completed } = handoverChecklistSchemas.updateItem.parse(body);
+
+      const result = await HandoverChecklistService.setItemCompleted(id, checklistId, itemId, completed, req.user.id);
+
+      if (!result) {
+        return NextResponse.json(
+          { error: "Checklist step not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        message: result.released
+          ? "Return checklist complete, equipment is available again"
+          : "Checklist updated",
+        ...result,
+      });
+    } catch (error) {
+      console.error("Checklist update error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof ChecklistError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageEquipment,
+  });
+}
@@ -0,0 +1,47 @@
+// ABOUTME: API endpoint for an item's handover checklists
+// ABOUTME: Returns the category's steps for each stage and every checklist run on assignment, return and transfer
+
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { authorizeResource, policies, resourcePolicies } from "@/lib/authorization";
+import { db } from "@/lib/prisma";
+import { HandoverChecklistService } from "@/lib/handover-checklists";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+
+      const equipment = await db.equipment.findUnique({
+        where: { id },
+        select: { id: true, currentOwnerId: true },
+      });
+
+      if (!equipment) {
+        return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
+      }
+
+      if (!(await authorizeResource(req.user, resourcePolicies.ownerOrManager, equipment.currentOwnerId))) {
+        return NextResponse.json({ error: "Permission denied" }, { status: 403 });
+      }
+
+      const [steps, checklists] = await Promise.all([
+        HandoverChecklistService.getSteps(id),
+        HandoverChecklistService.listForEquipment(id),
+      ]);
+
+      return NextResponse.json({ steps, checklists });
+    } catch (error) {
+      console.error("Error fetching handover checklists:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+  });
+}
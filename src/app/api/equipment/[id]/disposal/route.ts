@@ -0,0 +1,106 @@
+// ABOUTME: API endpoint for disposing of a piece of equipment
+// ABOUTME: Handles GET for the item's disposal history and POST for disposal requests awaiting admin approval
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/prisma";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { disposalSchemas, InputSanitizer } from "@/lib/validation";
+import { EquipmentDisposalService, DisposalError } from "@/lib/disposal";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async () => {
+    try {
+      const { id } = await params;
+
+      const equipment = await db.equipment.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+
+      if (!equipment) {
+        return NextResponse.json(
+          { error: "Equipment not found" },
+          { status: 404 }
+        );
+      }
+
+      const disposals = await EquipmentDisposalService.listForEquipment(id);
+
+      return NextResponse.json({ disposals });
+    } catch (error) {
+      console.error("Equipment disposals fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageEquipment,
+  });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+      const body = await req.json();
+      const validatedData = disposalSchemas.request.parse(body);
+
+      const disposal = await EquipmentDisposalService.requestDisposal(
+        id,
+        {
+          ...validatedData,
+          notes: validatedData.notes ? InputSanitizer.sanitizeString(validatedData.notes) : undefined,
+        },
+        req.user.id
+      );
+
+      if (!disposal) {
+        return NextResponse.json(
+          { error: "Equipment not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          message: "Disposal requested and waiting for admin approval",
+          disposal,
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Disposal request error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof DisposalError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageEquipment,
+    enableRateLimit: true,
+  });
+}
@@ -2,9 +2,11 @@
 // ABOUTME: Handles maintenance scheduling, tracking, and completion with validation
 
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
 import { db } from "@/lib/prisma";
 import { z } from "zod";
+import { HandoverChecklistService } from "@/lib/handover-checklists";
 
 const maintenanceWorkflowSchema = z.object({
   type: z.enum(["preventive", "corrective", "emergency", "upgrade", "inspection"]),
@@ -48,249 +50,255 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const session = await auth();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const { id: equipmentId } = await params;
-    const body = await request.json();
-    const validatedData = maintenanceWorkflowSchema.parse(body);
-
-    // Check if equipment exists and get current maintenance status
-    const equipment = await db.equipment.findUnique({
-      where: { id: equipmentId },
-      include: {
-        currentOwner: true,
-        maintenanceRecords: {
-          orderBy: { createdAt: "desc" },
-          take: 1,
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+
+      const { id: equipmentId } = await params;
+      const body = await req.json();
+      const validatedData = maintenanceWorkflowSchema.parse(body);
+
+      // Check if equipment exists and get current maintenance status
+      const equipment = await db.equipment.findUnique({
+        where: { id: equipmentId },
+        include: {
+          currentOwner: true,
+          maintenanceRecords: {
+            orderBy: { createdAt: "desc" },
+            take: 1,
+          },
         },
-      },
-    });
-
-    if (!equipment) {
-      return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
-    }
+      });
 
-    // Check permissions
-    if (session.user.role === "user") {
-      return NextResponse.json({ error: "Users cannot create maintenance records" }, { status: 403 });
-    }
-
-    // Perform maintenance workflow in transaction
-    const result = await db.$transaction(async (tx) => {
-      // Create maintenance record
-      const maintenanceRecord = await tx.maintenanceRecord.create({
-        data: {
-          equipmentId,
-          type: validatedData.type,
-          description: validatedData.description,
-          status: "pending",
-          date: new Date(),
-          scheduledAt: validatedData.scheduledDate ? new Date(validatedData.scheduledDate) : new Date(),
-          cost: validatedData.estimatedCost || 0,
-          performedBy: validatedData.assignedTo,
-          vendor: validatedData.vendor,
-          notes: validatedData.notes,
-        },
-        });
+      if (!equipment) {
+        return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
+      }
 
-      // Update equipment status if transitioning to maintenance
-      if (equipment.status !== "maintenance") {
-        await tx.equipment.update({
-          where: { id: equipmentId },
-          data: {
-            status: "maintenance",
-            lastMaintenanceDate: new Date(),
-            nextMaintenanceDate: validatedData.scheduledDate ? new Date(validatedData.scheduledDate) : undefined,
-          },
-        });
+      // Check permissions
+      if (user.role === "user") {
+        return NextResponse.json({ error: "Users cannot create maintenance records" }, { status: 403 });
+      }
 
-        // Create history record
-        await tx.equipmentHistory.create({
+      // Perform maintenance workflow in transaction
+      const result = await db.$transaction(async (tx) => {
+        // Create maintenance record
+        const maintenanceRecord = await tx.maintenanceRecord.create({
           data: {
             equipmentId,
-            fromUserId: equipment.currentOwnerId,
-            action: "STATUS_MAINTENANCE",
-            notes: `Maintenance scheduled: ${validatedData.description}`,
+            type: validatedData.type,
+            description: validatedData.description,
+            status: "pending",
+            date: new Date(),
+            scheduledAt: validatedData.scheduledDate ? new Date(validatedData.scheduledDate) : new Date(),
+            cost: validatedData.estimatedCost || 0,
+            performedBy: validatedData.assignedTo,
+            vendor: validatedData.vendor,
+            notes: validatedData.notes,
           },
-        });
+          });
+
+        // Update equipment status if transitioning to maintenance
+        if (equipment.status !== "maintenance") {
+          await tx.equipment.update({
+            where: { id: equipmentId },
+            data: {
+              status: "maintenance",
+              lastMaintenanceDate: new Date(),
+              nextMaintenanceDate: validatedData.scheduledDate ? new Date(validatedData.scheduledDate) : undefined,
+            },
+          });
+
+          // Create history record
+          await tx.equipmentHistory.create({
+            data: {
+              equipmentId,
+              fromUserId: equipment.currentOwnerId,
+              action: "STATUS_MAINTENANCE",
+              notes: `Maintenance scheduled: ${validatedData.description}`,
+            },
+          });
+        }
+
+        return maintenanceRecord;
+      });
+
+      return NextResponse.json({
+        message: "Maintenance record created successfully",
+        maintenance: result,
+      });
+    } catch (error) {
+      console.error("Maintenance workflow error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Validation failed", details: error.issues },
+          { status: 400 }
+        );
       }
 
-      return maintenanceRecord;
-    });
-
-    return NextResponse.json({
-      message: "Maintenance record created successfully",
-      maintenance: result,
-    });
-  } catch (error) {
-    console.error("Maintenance workflow error:", error);
-
-    if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: "Validation failed", details: error.issues },
-        { status: 400 }
+        { error: "Internal server error" },
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.authenticated,
+  });
 }
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const session = await auth();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+  return withSecurity(request, async () => {
+    try {
+      const { id: equipmentId } = await params;
+      const equipment = await db.equipment.findUnique({
+        where: { id: equipmentId },
+        select: {
+          id: true,
+          name: true,
+          serialNumber: true,
+          status: true,
+          lastMaintenanceDate: true,
+          nextMaintenanceDate: true,
+        },
+      });
 
-    const { id: equipmentId } = await params;
-    const equipment = await db.equipment.findUnique({
-      where: { id: equipmentId },
-      select: {
-        id: true,
-        name: true,
-        serialNumber: true,
-        status: true,
-        lastMaintenanceDate: true,
-        nextMaintenanceDate: true,
-      },
-    });
-
-    if (!equipment) {
-      return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
-    }
+      if (!equipment) {
+        return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
+      }
 
-    // Get maintenance records separately
-    const maintenanceRecords = await db.maintenanceRecord.findMany({
-      where: { equipmentId },
-      orderBy: { createdAt: "desc" },
-    });
-
-    return NextResponse.json({
-      equipment,
-      maintenanceHistory: maintenanceRecords,
-    });
-  } catch (error) {
-    console.error("Error fetching maintenance data:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+      // Get maintenance records separately
+      const maintenanceRecords = await db.maintenanceRecord.findMany({
+        where: { equipmentId },
+        orderBy: { createdAt: "desc" },
+      });
+
+      return NextResponse.json({
+        equipment,
+        maintenanceHistory: maintenanceRecords,
+      });
+    } catch (error) {
+      console.error("Error fetching maintenance data:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+  });
 }
 
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const session = await auth();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const { id: equipmentId } = await params;
-    const body = await request.json();
-    const validatedData = maintenanceUpdateSchema.parse(body);
-
-    // Check if equipment exists
-    const equipment = await db.equipment.findUnique({
-      where: { id: equipmentId },
-      include: {
-        currentOwner: true,
-        maintenanceRecords: {
-          orderBy: { createdAt: "desc" },
-          take: 1,
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+
+      const { id: equipmentId } = await params;
+      const body = await req.json();
+      const validatedData = maintenanceUpdateSchema.parse(body);
+
+      // Check if equipment exists
+      const equipment = await db.equipment.findUnique({
+        where: { id: equipmentId },
+        include: {
+          currentOwner: true,
+          maintenanceRecords: {
+            orderBy: { createdAt: "desc" },
+            take: 1,
+          },
         },
-      },
-    });
+      });
 
-    if (!equipment) {
-      return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
-    }
-
-    // Check permissions
-    if (session.user.role === "user") {
-      return NextResponse.json({ error: "Users cannot update maintenance records" }, { status: 403 });
-    }
-
-    // Perform maintenance update in transaction
-    const result = await db.$transaction(async (tx) => {
-      // Update the most recent maintenance record
-      const updatedMaintenance = await tx.maintenanceRecord.update({
-        where: { id: equipment.maintenanceRecords[0].id },
-        data: {
-          status: validatedData.status,
-          cost: validatedData.actualCost,
-          completedAt: validatedData.completedDate ? new Date(validatedData.completedDate) : 
-                        validatedData.status === "completed" ? new Date() : undefined,
-          notes: validatedData.resolutionNotes,
-        },
-        });
+      if (!equipment) {
+        return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
+      }
 
-      // Update equipment status based on maintenance completion
-      if (validatedData.status === "completed") {
-        await tx.equipment.update({
-          where: { id: equipmentId },
-          data: {
-            status: "available",
-            currentOwnerId: null,
-            lastMaintenanceDate: new Date(),
-            nextMaintenanceDate: validatedData.nextMaintenanceDate ? 
-                               new Date(validatedData.nextMaintenanceDate) : undefined,
-            condition: "good", // Default condition after maintenance
-          },
-        });
+      // Check permissions
+      if (user.role === "user") {
+        return NextResponse.json({ error: "Users cannot update maintenance records" }, { status: 403 });
+      }
 
-        // Create history record
-        await tx.equipmentHistory.create({
-          data: {
-            equipmentId,
-            fromUserId: equipment.currentOwnerId,
-            action: "STATUS_AVAILABLE",
-            condition: "good",
-            notes: "Maintenance completed, equipment returned to available pool",
-          },
-        });
-      } else if (validatedData.status === "in_progress") {
-        await tx.equipment.update({
-          where: { id: equipmentId },
+      // Perform maintenance update in transaction
+      const result = await db.$transaction(async (tx) => {
+        // Update the most recent maintenance record
+        const updatedMaintenance = await tx.maintenanceRecord.update({
+          where: { id: equipment.maintenanceRecords[0].id },
           data: {
-            status: "maintenance",
+            status: validatedData.status,
+            cost: validatedData.actualCost,
+            completedAt: validatedData.completedDate ? new Date(validatedData.completedDate) : 
+                          validatedData.status === "completed" ? new Date() : undefined,
+            notes: validatedData.resolutionNotes,
           },
-        });
+          });
+
+        // Update equipment status based on maintenance completion
+        if (validatedData.status === "completed") {
+          // An item repaired after a return waits for its return checklist before rejoining the pool
+          const returnPending = await HandoverChecklistService.hasOpenReturnChecklist(equipmentId, tx);
+
+          await tx.equipment.update({
+            where: { id: equipmentId },
+            data: {
+              status: returnPending ? "pending" : "available",
+              currentOwnerId: null,
+              lastMaintenanceDate: new Date(),
+              nextMaintenanceDate: validatedData.nextMaintenanceDate ? 
+                                 new Date(validatedData.nextMaintenanceDate) : undefined,
+              condition: "good", // Default condition after maintenance
+            },
+          });
+
+          // Create history record
+          await tx.equipmentHistory.create({
+            data: {
+              equipmentId,
+              fromUserId: equipment.currentOwnerId,
+              action: returnPending ? "STATUS_PENDING" : "STATUS_AVAILABLE",
+              condition: "good",
+              notes: returnPending
+                ? "Maintenance completed, waiting for the return checklist"
+                : "Maintenance completed, equipment returned to available pool",
+            },
+          });
+        } else if (validatedData.status === "in_progress") {
+          await tx.equipment.update({
+            where: { id: equipmentId },
+            data: {
+              status: "maintenance",
+            },
+          });
+        }
+
+        return updatedMaintenance;
+      });
+
+      return NextResponse.json({
+        message: "Maintenance record updated successfully",
+        maintenance: result,
+      });
+    } catch (error) {
+      console.error("Maintenance update error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Validation failed", details: error.issues },
+          { status: 400 }
+        );
       }
 
-      return updatedMaintenance;
-    });
-
-    return NextResponse.json({
-      message: "Maintenance record updated successfully",
-      maintenance: result,
-    });
-  } catch (error) {
-    console.error("Maintenance update error:", error);
-
-    if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: "Validation failed", details: error.issues },
-        { status: 400 }
+        { error: "Internal server error" },
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.authenticated,
+  });
 }
\ No newline at end of file
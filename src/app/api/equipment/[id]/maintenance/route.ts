@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
 import { db } from "@/lib/prisma";
 import { z } from "zod";
+import { HandoverChecklistService } from "@/lib/handover-checklists";
 
 const maintenanceSchema = z.object({
   type: z.enum(["preventive", "corrective", "emergency", "upgrade", "inspection"]),
@@ -17,106 +19,108 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const { id } = await params;
-    const session = await auth();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  return withSecurity(request, async () => {
+    try {
+      const { id } = await params;
+
+      const maintenanceRecords = await db.maintenanceRecord.findMany({
+        where: { equipmentId: id },
+        orderBy: { date: "desc" },
+      });
+
+      return NextResponse.json(maintenanceRecords);
+    } catch (error) {
+      console.error("Error fetching maintenance records:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
     }
-
-    const maintenanceRecords = await db.maintenanceRecord.findMany({
-      where: { equipmentId: id },
-      orderBy: { date: "desc" },
-    });
-
-    return NextResponse.json(maintenanceRecords);
-  } catch (error) {
-    console.error("Error fetching maintenance records:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.authenticated,
+  });
 }
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const { id } = await params;
-    const session = await auth();
-    if (!session || (session.user.role !== "admin" && session.user.role !== "team_lead")) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const body = await request.json();
-    const validatedData = maintenanceSchema.parse(body);
-
-    const equipment = await db.equipment.findUnique({
-      where: { id },
-    });
-
-    if (!equipment) {
-      return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
-    }
-
-    // Create maintenance record
-    const maintenanceRecord = await db.maintenanceRecord.create({
-      data: {
-        equipmentId: id,
-        type: validatedData.type,
-        date: new Date(validatedData.date),
-        description: validatedData.description,
-        cost: validatedData.cost,
-        performedBy: validatedData.performedBy,
-        notes: validatedData.notes || null,
-      },
-    });
-
-    // Update equipment with new maintenance dates
-    const updateData: Record<string, unknown> = {
-      lastMaintenanceDate: new Date(validatedData.date),
-      updatedBy: session.user.id,
-    };
-
-    if (validatedData.nextMaintenanceDate) {
-      updateData.nextMaintenanceDate = new Date(validatedData.nextMaintenanceDate);
-    }
-
-    // Update equipment status if it was in maintenance
-    if (equipment.status === "maintenance") {
-      updateData.status = "available";
-    }
-
-    const updatedEquipment = await db.equipment.update({
-      where: { id },
-      data: updateData,
-    });
-
-    // Create history record
-    await db.equipmentHistory.create({
-      data: {
-        equipmentId: id,
-        fromUserId: session.user.id,
-        action: "maintenance",
-        notes: `${validatedData.type.toUpperCase()} maintenance performed`,
-      },
-    });
-
-    return NextResponse.json(maintenanceRecord, { status: 201 });
-  } catch (error) {
-    if (error instanceof z.ZodError) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+
+      const { id } = await params;
+
+      const body = await req.json();
+      const validatedData = maintenanceSchema.parse(body);
+
+      const equipment = await db.equipment.findUnique({
+        where: { id },
+      });
+
+      if (!equipment) {
+        return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
+      }
+
+      // Create maintenance record
+      const maintenanceRecord = await db.maintenanceRecord.create({
+        data: {
+          equipmentId: id,
+          type: validatedData.type,
+          date: new Date(validatedData.date),
+          description: validatedData.description,
+          cost: validatedData.cost,
+          performedBy: validatedData.performedBy,
+          notes: validatedData.notes || null,
+        },
+      });
+
+      // Update equipment with new maintenance dates
+      const updateData: Record<string, unknown> = {
+        lastMaintenanceDate: new Date(validatedData.date),
+        updatedBy: user.id,
+      };
+
+      if (validatedData.nextMaintenanceDate) {
+        updateData.nextMaintenanceDate = new Date(validatedData.nextMaintenanceDate);
+      }
+
+      // Update equipment status if it was in maintenance; an item repaired after a return waits for its return checklist
+      if (equipment.status === "maintenance") {
+        updateData.status = (await HandoverChecklistService.hasOpenReturnChecklist(id)) ? "pending" : "available";
+      }
+
+      const updatedEquipment = await db.equipment.update({
+        where: { id },
+        data: updateData,
+      });
+
+      // Create history record
+      await db.equipmentHistory.create({
+        data: {
+          equipmentId: id,
+          fromUserId: user.id,
+          action: "maintenance",
+          notes: `${validatedData.type.toUpperCase()} maintenance performed`,
+        },
+      });
+
+      return NextResponse.json(maintenanceRecord, { status: 201 });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Validation error", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      console.error("Error creating maintenance record:", error);
       return NextResponse.json(
-        { error: "Validation error", details: error.issues },
-        { status: 400 }
+        { error: "Internal server error" },
+        { status: 500 }
       );
     }
-
-    console.error("Error creating maintenance record:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.manageEquipment,
+  });
 }
\ No newline at end of file
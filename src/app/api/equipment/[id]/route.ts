@@ -1,171 +1,169 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { authorizeResource, policies, resourcePolicies } from "@/lib/authorization";
 import { db } from "@/lib/prisma";
 import { equipmentSchema } from "@/lib/validation";
+import { DepreciationService, serializeSchedule } from "@/lib/depreciation";
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const { id } = await params;
-    const session = await auth();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
 
-    const equipment = await db.equipment.findUnique({
-      where: { id },
-      include: {
-        currentOwner: {
-          select: { id: true, name: true, email: true },
-        },
-        maintenanceRecords: {
-          orderBy: { date: "desc" },
-        },
-        history: {
-          orderBy: { createdAt: "desc" },
-          include: {
-            fromUser: {
-              select: { id: true, name: true },
-            },
-            toUser: {
-              select: { id: true, name: true },
+      const { id } = await params;
+
+      const equipment = await db.equipment.findUnique({
+        where: { id },
+        include: {
+          currentOwner: {
+            select: { id: true, name: true, email: true },
+          },
+          maintenanceRecords: {
+            orderBy: { date: "desc" },
+          },
+          history: {
+            orderBy: { createdAt: "desc" },
+            include: {
+              fromUser: {
+                select: { id: true, name: true },
+              },
+              toUser: {
+                select: { id: true, name: true },
+              },
             },
+            take: 10,
           },
-          take: 10,
         },
-      },
-    });
-
-    if (!equipment) {
-      return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
-    }
-
-    // Check if user has permission to view this equipment
-    if (session.user.role === "user" && equipment.currentOwnerId !== session.user.id && equipment.status !== "available") {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      });
+
+      if (!equipment) {
+        return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
+      }
+
+      // Check if user has permission to view this equipment
+      if (
+        equipment.status !== "available" &&
+        !(await authorizeResource(user, resourcePolicies.ownerOrManager, equipment.currentOwnerId))
+      ) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      return NextResponse.json(equipment);
+    } catch (error) {
+      console.error("Error fetching equipment:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
     }
-
-    return NextResponse.json(equipment);
-  } catch (error) {
-    console.error("Error fetching equipment:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.authenticated,
+  });
 }
 
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const { id } = await params;
-    const session = await auth();
-    if (!session || (session.user.role !== "admin" && session.user.role !== "team_lead")) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const body = await request.json();
-    const validatedData = equipmentSchema.parse(body);
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+
+      const { id } = await params;
+
+      const body = await req.json();
+      const validatedData = equipmentSchema.parse(body);
+
+      const existingEquipment = await db.equipment.findUnique({
+        where: { id },
+      });
+
+      if (!existingEquipment) {
+        return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
+      }
+
+      const updatedEquipment = await db.equipment.update({
+        where: { id },
+        data: {
+          ...validatedData,
+          depreciationSchedule: serializeSchedule(validatedData.depreciationSchedule),
+          purchaseDate: new Date(validatedData.purchaseDate),
+          warrantyExpiry: validatedData.warrantyExpiry ? new Date(validatedData.warrantyExpiry) : null,
+          lastMaintenanceDate: validatedData.lastMaintenanceDate ? new Date(validatedData.lastMaintenanceDate) : null,
+        },
+        include: {
+          currentOwner: {
+            select: { id: true, name: true, email: true },
+          },
+        },
+      });
+
+      // Create history record
+      await db.equipmentHistory.create({
+        data: {
+          equipmentId: id,
+          fromUserId: user.id,
+          action: "updated",
+          notes: "Equipment details updated",
+        },
+      });
 
-    const existingEquipment = await db.equipment.findUnique({
-      where: { id },
-    });
+      // Book value follows the price and depreciation settings, not the submitted value
+      const currentValue = await DepreciationService.refreshCurrentValue(id);
 
-    if (!existingEquipment) {
-      return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
-    }
+      return NextResponse.json({ ...updatedEquipment, currentValue });
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return NextResponse.json(
+          { error: "Validation error", details: error.message },
+          { status: 400 }
+        );
+      }
 
-    const updatedEquipment = await db.equipment.update({
-      where: { id },
-      data: {
-        ...validatedData,
-        purchaseDate: new Date(validatedData.purchaseDate),
-        warrantyExpiry: validatedData.warrantyExpiry ? new Date(validatedData.warrantyExpiry) : null,
-        lastMaintenanceDate: validatedData.lastMaintenanceDate ? new Date(validatedData.lastMaintenanceDate) : null,
-      },
-      include: {
-        currentOwner: {
-          select: { id: true, name: true, email: true },
-        },
-      },
-    });
-
-    // Create history record
-    await db.equipmentHistory.create({
-      data: {
-        equipmentId: id,
-        fromUserId: session.user.id,
-        action: "updated",
-        notes: "Equipment details updated",
-      },
-    });
-
-    return NextResponse.json(updatedEquipment);
-  } catch (error) {
-    if (error instanceof Error && error.name === "ZodError") {
+      console.error("Error updating equipment:", error);
       return NextResponse.json(
-        { error: "Validation error", details: error.message },
-        { status: 400 }
+        { error: "Internal server error" },
+        { status: 500 }
       );
     }
-
-    console.error("Error updating equipment:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.manageEquipment,
+  });
 }
 
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const { id } = await params;
-    const session = await auth();
-    if (!session || session.user.role !== "admin") {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const existingEquipment = await db.equipment.findUnique({
-      where: { id },
-    });
-
-    if (!existingEquipment) {
-      return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
+  return withSecurity(request, async () => {
+    try {
+      const { id } = await params;
+
+      const existingEquipment = await db.equipment.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+
+      if (!existingEquipment) {
+        return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
+      }
+
+      // Decommissioning needs a disposal record and admin approval
+      return NextResponse.json({
+        error: "Equipment is decommissioned by requesting a disposal",
+        disposalUrl: `/api/equipment/${id}/disposal`,
+      }, { status: 400 });
+    } catch (error) {
+      console.error("Error decommissioning equipment:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
     }
-
-    // Soft delete by marking as decommissioned
-    await db.equipment.update({
-      where: { id },
-      data: {
-        status: "decommissioned",
-        // updatedBy field doesn't exist in Equipment model
-      },
-    });
-
-    // Create history record
-    await db.equipmentHistory.create({
-      data: {
-        equipmentId: id,
-        fromUserId: session.user.id,
-        action: "decommissioned",
-        notes: "Equipment decommissioned",
-        // newState field doesn't exist in EquipmentHistory model
-      },
-    });
-
-    return NextResponse.json({ message: "Equipment decommissioned successfully" });
-  } catch (error) {
-    console.error("Error decommissioning equipment:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.admin,
+  });
 }
\ No newline at end of file
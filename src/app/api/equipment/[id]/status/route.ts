@@ -2,10 +2,12 @@
 // ABOUTME: Handles equipment status lifecycle with validation, business rules, and history tracking
 
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
 import { db } from "@/lib/prisma";
 import { z } from "zod";
 import { EquipmentStatus } from "@/types";
+import { HandoverChecklistService } from "@/lib/handover-checklists";
 
 const statusTransitionSchema = z.object({
   status: z.enum(["pending", "available", "assigned", "maintenance", "broken", "lost", "stolen", "decommissioned"]),
@@ -38,199 +40,218 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const session = await auth();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+
+      const { id: equipmentId } = await params;
+      const body = await req.json();
+      const validatedData = statusTransitionSchema.parse(body);
 
-    const { id: equipmentId } = await params;
-    const body = await request.json();
-    const validatedData = statusTransitionSchema.parse(body);
-
-    // Get current equipment state
-    const equipment = await db.equipment.findUnique({
-      where: { id: equipmentId },
-      include: {
-        currentOwner: true,
-        maintenanceRecords: {
-          orderBy: { createdAt: "desc" },
-          take: 1,
+      // Get current equipment state
+      const equipment = await db.equipment.findUnique({
+        where: { id: equipmentId },
+        include: {
+          currentOwner: true,
+          maintenanceRecords: {
+            orderBy: { createdAt: "desc" },
+            take: 1,
+          },
         },
-      },
-    });
+      });
 
-    if (!equipment) {
-      return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
-    }
+      if (!equipment) {
+        return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
+      }
 
-    // Check if status transition is valid
-    const currentStatus = equipment.status as EquipmentStatus;
-    const newStatus = validatedData.status as EquipmentStatus;
-    const allowedTransitions = validStatusTransitions[currentStatus] || [];
+      // Check if status transition is valid
+      const currentStatus = equipment.status as EquipmentStatus;
+      const newStatus = validatedData.status as EquipmentStatus;
+      const allowedTransitions = validStatusTransitions[currentStatus] || [];
 
-    if (!allowedTransitions.includes(newStatus)) {
-      return NextResponse.json({
-        error: `Invalid status transition from ${currentStatus} to ${newStatus}`,
-        allowedTransitions,
-      }, { status: 400 });
-    }
+      if (!allowedTransitions.includes(newStatus)) {
+        return NextResponse.json({
+          error: `Invalid status transition from ${currentStatus} to ${newStatus}`,
+          allowedTransitions,
+        }, { status: 400 });
+      }
 
-    // Check permissions for specific status changes
-    if (newStatus === "decommissioned" && session.user.role !== "admin") {
-      return NextResponse.json({ error: "Only admins can decommission equipment" }, { status: 403 });
-    }
+      // Decommissioning needs a disposal record and admin approval
+      if (newStatus === "decommissioned") {
+        return NextResponse.json({
+          error: "Equipment is decommissioned by requesting a disposal",
+          disposalUrl: `/api/equipment/${equipmentId}/disposal`,
+        }, { status: 400 });
+      }
 
-    if (newStatus === "maintenance" && session.user.role === "user") {
-      return NextResponse.json({ error: "Users cannot mark equipment for maintenance" }, { status: 403 });
-    }
+      // Returned items stay out of the pool until the return checklist is done
+      if (newStatus === "available" && await HandoverChecklistService.hasOpenReturnChecklist(equipmentId)) {
+        return NextResponse.json({
+          error: "Complete the return checklist before making the equipment available",
+        }, { status: 400 });
+      }
 
-    // Perform status transition in transaction
-    const result = await db.$transaction(async (tx) => {
-      // Prepare update data
-      const updateData: Record<string, unknown> = {
-        status: newStatus,
-        updatedBy: session.user.id,
-      };
-
-      // Handle specific status transitions
-      if (newStatus === "available") {
-        updateData.currentOwnerId = null;
-        updateData.condition = validatedData.condition || equipment.condition;
-        
-        // If coming from maintenance, update maintenance record
-        if (currentStatus === "maintenance" && equipment.maintenanceRecords[0]) {
-          await tx.maintenanceRecord.update({
-            where: { id: equipment.maintenanceRecords[0].id },
-            data: {
-              status: "completed",
-              completedAt: new Date(),
-            },
-          });
-        }
+      if (newStatus === "maintenance" && user.role === "user") {
+        return NextResponse.json({ error: "Users cannot mark equipment for maintenance" }, { status: 403 });
       }
 
-      if (newStatus === "lost" || newStatus === "stolen") {
-        updateData.currentOwnerId = null;
-        if (validatedData.lossReport) {
-          updateData.notes = validatedData.lossReport.circumstances;
+      // Perform status transition in transaction
+      const result = await db.$transaction(async (tx) => {
+        // Prepare update data
+        const updateData: Record<string, unknown> = {
+          status: newStatus,
+          updatedBy: user.id,
+        };
+
+        // Handle specific status transitions
+        if (newStatus === "available") {
+          updateData.currentOwnerId = null;
+          updateData.condition = validatedData.condition || equipment.condition;
+
+          // If coming from maintenance, update maintenance record
+          if (currentStatus === "maintenance" && equipment.maintenanceRecords[0]) {
+            await tx.maintenanceRecord.update({
+              where: { id: equipment.maintenanceRecords[0].id },
+              data: {
+                status: "completed",
+                completedAt: new Date(),
+              },
+            });
+          }
         }
-      }
 
-      if (newStatus === "maintenance" && validatedData.maintenanceProvider) {
-        updateData.notes = validatedData.maintenanceProvider;
-      }
+        if (newStatus === "lost" || newStatus === "stolen") {
+          updateData.currentOwnerId = null;
+          if (validatedData.lossReport) {
+            updateData.notes = validatedData.lossReport.circumstances;
+          }
+        }
 
-      // Update equipment
-      const updatedEquipment = await tx.equipment.update({
-        where: { id: equipmentId },
-        data: updateData,
-        include: {
-          currentOwner: {
-            select: { id: true, name: true, email: true },
+        if (newStatus === "maintenance" && validatedData.maintenanceProvider) {
+          updateData.notes = validatedData.maintenanceProvider;
+        }
+
+        // Update equipment
+        const updatedEquipment = await tx.equipment.update({
+          where: { id: equipmentId },
+          data: updateData,
+          include: {
+            currentOwner: {
+              select: { id: true, name: true, email: true },
+            },
           },
-        },
-      });
+        });
+
+        // Create maintenance record if transitioning to maintenance
+        if (newStatus === "maintenance") {
+          await tx.maintenanceRecord.create({
+            data: {
+              equipmentId,
+              type: "corrective",
+              status: "pending",
+              date: new Date(),
+              description: validatedData.reason || "Equipment marked for maintenance",
+              notes: validatedData.notes,
+            },
+          });
+        }
 
-      // Create maintenance record if transitioning to maintenance
-      if (newStatus === "maintenance") {
-        await tx.maintenanceRecord.create({
+        // Create history record
+        await tx.equipmentHistory.create({
           data: {
             equipmentId,
-            type: "corrective",
-            status: "pending",
-            date: new Date(),
-            description: validatedData.reason || "Equipment marked for maintenance",
-            notes: validatedData.notes,
+            fromUserId: equipment.currentOwnerId,
+            action: `STATUS_${newStatus.toUpperCase()}`,
+            condition: validatedData.condition,
+            notes: validatedData.notes || validatedData.reason || `Status changed from ${currentStatus} to ${newStatus}`,
           },
         });
-      }
 
-      // Create history record
-      await tx.equipmentHistory.create({
-        data: {
-          equipmentId,
-          fromUserId: equipment.currentOwnerId,
-          action: `STATUS_${newStatus.toUpperCase()}`,
-          condition: validatedData.condition,
-          notes: validatedData.notes || validatedData.reason || `Status changed from ${currentStatus} to ${newStatus}`,
-        },
+        return updatedEquipment;
       });
 
-      return updatedEquipment;
-    });
+      return NextResponse.json({
+        message: `Equipment status changed from ${currentStatus} to ${newStatus}`,
+        equipment: result,
+      });
+    } catch (error) {
+      console.error("Equipment status transition error:", error);
 
-    return NextResponse.json({
-      message: `Equipment status changed from ${currentStatus} to ${newStatus}`,
-      equipment: result,
-    });
-  } catch (error) {
-    console.error("Equipment status transition error:", error);
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Validation failed", details: error.issues },
+          { status: 400 }
+        );
+      }
 
-    if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: "Validation failed", details: error.issues },
-        { status: 400 }
+        { error: "Internal server error" },
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.authenticated,
+  });
 }
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const session = await auth();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
 
-    const { id: equipmentId } = await params;
-    const equipment = await db.equipment.findUnique({
-      where: { id: equipmentId },
-      select: {
-        id: true,
-        name: true,
-        serialNumber: true,
-        status: true,
-        currentOwnerId: true,
-        condition: true,
-      },
-    });
-
-    if (!equipment) {
-      return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
-    }
+      const { id: equipmentId } = await params;
+      const equipment = await db.equipment.findUnique({
+        where: { id: equipmentId },
+        select: {
+          id: true,
+          name: true,
+          serialNumber: true,
+          status: true,
+          currentOwnerId: true,
+          condition: true,
+        },
+      });
+
+      if (!equipment) {
+        return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
+      }
+
+      // Get available status transitions
+      const currentStatus = equipment.status as EquipmentStatus;
+      const allowedTransitions = validStatusTransitions[currentStatus] || [];
+
+      // Filter transitions based on user role; decommissioning goes through a disposal request instead
+      const userRole = user.role;
+      const filteredTransitions = allowedTransitions.filter(status => {
+        if (status === "decommissioned") return false;
+        if (status === "maintenance") return userRole !== "user";
+        return true;
+      });
 
-    // Get available status transitions
-    const currentStatus = equipment.status as EquipmentStatus;
-    const allowedTransitions = validStatusTransitions[currentStatus] || [];
-
-    // Filter transitions based on user role
-    const userRole = session.user.role;
-    const filteredTransitions = allowedTransitions.filter(status => {
-      if (status === "decommissioned") return userRole === "admin";
-      if (status === "maintenance") return userRole !== "user";
-      return true;
-    });
-
-    return NextResponse.json({
-      currentStatus,
-      allowedTransitions: filteredTransitions,
-      condition: equipment.condition,
-      isAssigned: !!equipment.currentOwnerId,
-    });
-  } catch (error) {
-    console.error("Error fetching status options:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+      const pendingDisposal = await db.equipmentDisposal.findFirst({
+        where: { equipmentId, status: "pending" },
+        select: { id: true },
+      });
+
+      return NextResponse.json({
+        currentStatus,
+        allowedTransitions: filteredTransitions,
+        canRequestDisposal: allowedTransitions.includes("decommissioned") && userRole !== "user" && !pendingDisposal,
+        hasPendingDisposal: !!pendingDisposal,
+        condition: equipment.condition,
+        isAssigned: !!equipment.currentOwnerId,
+      });
+    } catch (error) {
+      console.error("Error fetching status options:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+  });
 }
\ No newline at end of file
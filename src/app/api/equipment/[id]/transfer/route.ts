@@ -2,9 +2,13 @@
 // ABOUTME: Handles equipment transfer workflow with approval chains, notifications, and history tracking
 
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { authorizeResource, policies, resourcePolicies } from "@/lib/authorization";
 import { db } from "@/lib/prisma";
 import { z } from "zod";
+import { NotificationService } from "@/lib/notifications";
+import { HandoverChecklistService } from "@/lib/handover-checklists";
+import { handoverChecklistSchemas } from "@/lib/validation";
 
 const transferSchema = z.object({
   toUserId: z.string().cuid(),
@@ -13,155 +17,185 @@ const transferSchema = z.object({
   condition: z.enum(["excellent", "good", "fair", "poor"]).optional(),
   requiresApproval: z.boolean().default(true),
   immediateTransfer: z.boolean().default(false),
+  completedSteps: handoverChecklistSchemas.completedSteps,
 });
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const session = await auth();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
 
-    const { id: equipmentId } = await params;
-    const body = await request.json();
-    const validatedData = transferSchema.parse(body);
+      const { id: equipmentId } = await params;
+      const body = await req.json();
+      const validatedData = transferSchema.parse(body);
 
-    // Get equipment details
-    const equipment = await db.equipment.findUnique({
-      where: { id: equipmentId },
-      include: {
-        currentOwner: {
-          include: { team: true },
+      // Get equipment details
+      const equipment = await db.equipment.findUnique({
+        where: { id: equipmentId },
+        include: {
+          currentOwner: {
+            include: { team: true },
+          },
         },
-      },
-    });
+      });
 
-    if (!equipment) {
-      return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
-    }
+      if (!equipment) {
+        return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
+      }
 
-    // Get recipient user
-    const recipient = await db.user.findUnique({
-      where: { id: validatedData.toUserId },
-      include: { team: true },
-    });
+      // Get recipient user
+      const recipient = await db.user.findUnique({
+        where: { id: validatedData.toUserId },
+        include: { team: true },
+      });
 
-    if (!recipient || !recipient.isActive) {
-      return NextResponse.json({ error: "Recipient user not found or inactive" }, { status: 404 });
-    }
+      if (!recipient || !recipient.isActive) {
+        return NextResponse.json({ error: "Recipient user not found or inactive" }, { status: 404 });
+      }
 
-    // Check permissions
-    const currentUser = session.user;
-    
-    // Only admin, team lead, or current owner can initiate transfer
-    const canTransfer = 
-      currentUser.role === "admin" ||
-      currentUser.role === "team_lead" ||
-      equipment.currentOwnerId === currentUser.id;
-
-    if (!canTransfer) {
-      return NextResponse.json({ error: "You cannot transfer this equipment" }, { status: 403 });
-    }
+      // Only the current owner, their team lead or an admin can initiate a transfer
+      if (!(await authorizeResource(user, resourcePolicies.ownerOrTeamLead, equipment.currentOwnerId))) {
+        return NextResponse.json({ error: "You cannot transfer this equipment" }, { status: 403 });
+      }
 
-    // Check if equipment is available for transfer
-    if (!["available", "assigned"].includes(equipment.status)) {
-      return NextResponse.json({ 
-        error: `Equipment cannot be transferred when status is ${equipment.status}` 
-      }, { status: 400 });
-    }
+      // Check if equipment is available for transfer
+      if (!["available", "assigned"].includes(equipment.status)) {
+        return NextResponse.json({ 
+          error: `Equipment cannot be transferred when status is ${equipment.status}` 
+        }, { status: 400 });
+      }
 
-    // Determine if approval is needed
-    let needsApproval = validatedData.requiresApproval;
-    let approver = null;
+      // Determine if approval is needed
+      let needsApproval = validatedData.requiresApproval;
+      let approver = null;
 
-    if (currentUser.role === "user") {
-      // User transferring equipment needs team lead approval
-      needsApproval = true;
-      if (recipient.team?.leaderId) {
-        approver = await db.user.findUnique({
-          where: { id: recipient.team.leaderId },
-        });
-      }
-    } else if (currentUser.role === "team_lead") {
-      // Team lead transferring to another team needs admin approval
-      if (equipment.currentOwner?.team?.id !== recipient.team?.id) {
+      if (user.role === "user") {
+        // User transferring equipment needs team lead approval
         needsApproval = true;
-        approver = await db.user.findFirst({
-          where: { role: "admin", isActive: true },
-        });
+        if (recipient.team?.leaderId) {
+          approver = await db.user.findUnique({
+            where: { id: recipient.team.leaderId },
+          });
+        }
+      } else if (user.role === "team_lead") {
+        // Team lead transferring to another team needs admin approval
+        if (equipment.currentOwner?.team?.id !== recipient.team?.id) {
+          needsApproval = true;
+          approver = await db.user.findFirst({
+            where: { role: "admin", isActive: true },
+          });
+        }
       }
-    }
 
-    // If immediate transfer is allowed or no approval needed, transfer immediately
-    if (validatedData.immediateTransfer || !needsApproval || currentUser.role === "admin") {
-      const updatedEquipment = await performImmediateTransfer(equipmentId, validatedData, session);
-      return NextResponse.json({
-        message: "Equipment transferred successfully",
-        equipment: updatedEquipment,
-      });
-    }
+      // If immediate transfer is allowed or no approval needed, transfer immediately
+      if (validatedData.immediateTransfer || !needsApproval || user.role === "admin") {
+        const { equipment: updatedEquipment, checklist } = await performImmediateTransfer(
+          equipmentId,
+          validatedData,
+          user.id
+        );
+
+        try {
+          await NotificationService.notifyTransferCompleted({
+            id: equipmentId,
+            equipment: { id: equipment.id, name: equipment.name },
+            fromUserId: equipment.currentOwnerId,
+            toUserId: recipient.id,
+            toUserName: recipient.name,
+            requestedById: user.id,
+            reason: validatedData.reason,
+          });
+        } catch (notificationError) {
+          console.error("Failed to create transfer notifications:", notificationError);
+        }
+
+        return NextResponse.json({
+          message: "Equipment transferred successfully",
+          equipment: updatedEquipment,
+          checklist,
+        });
+      }
 
-    // Otherwise, create transfer request
-    const transferRequest = await db.equipmentTransferRequest.create({
-      data: {
-        equipmentId,
-        fromUserId: equipment.currentOwnerId || null,
-        toUserId: validatedData.toUserId,
-        requestedById: currentUser.id,
-        reason: validatedData.reason,
-        notes: validatedData.notes,
-        condition: validatedData.condition,
-        status: "pending",
-        approverId: approver?.id || null,
-      },
-      include: {
-        fromUser: {
-          select: { id: true, name: true, email: true },
-        },
-        toUser: {
-          select: { id: true, name: true, email: true },
-        },
-        requestedBy: {
-          select: { id: true, name: true, email: true },
-        },
-        approver: {
-          select: { id: true, name: true, email: true },
+      // Otherwise, create transfer request
+      const transferRequest = await db.equipmentTransferRequest.create({
+        data: {
+          equipmentId,
+          fromUserId: equipment.currentOwnerId || null,
+          toUserId: validatedData.toUserId,
+          requestedById: user.id,
+          reason: validatedData.reason,
+          notes: validatedData.notes,
+          condition: validatedData.condition,
+          status: "pending",
+          approverId: approver?.id || null,
         },
-        equipment: {
-          select: { id: true, name: true, serialNumber: true },
+        include: {
+          fromUser: {
+            select: { id: true, name: true, email: true },
+          },
+          toUser: {
+            select: { id: true, name: true, email: true },
+          },
+          requestedBy: {
+            select: { id: true, name: true, email: true },
+          },
+          approver: {
+            select: { id: true, name: true, email: true },
+          },
+          equipment: {
+            select: { id: true, name: true, serialNumber: true },
+          },
         },
-      },
-    });
+      });
 
-    return NextResponse.json({
-      message: "Transfer request created and requires approval",
-      transferRequest,
-      requiresApproval: true,
-    }, { status: 201 });
-  } catch (error) {
-    console.error("Equipment transfer error:", error);
+      try {
+        await NotificationService.notifyTransferRequested({
+          id: transferRequest.id,
+          equipment: transferRequest.equipment,
+          fromUserId: transferRequest.fromUser?.id,
+          toUserId: transferRequest.toUser.id,
+          toUserName: transferRequest.toUser.name,
+          requestedById: transferRequest.requestedBy.id,
+          requestedByName: transferRequest.requestedBy.name,
+          approverIds: transferRequest.approver ? [transferRequest.approver.id] : undefined,
+          reason: transferRequest.reason,
+        });
+      } catch (notificationError) {
+        console.error("Failed to create transfer approval notification:", notificationError);
+      }
+
+      return NextResponse.json({
+        message: "Transfer request created and requires approval",
+        transferRequest,
+        requiresApproval: true,
+      }, { status: 201 });
+    } catch (error) {
+      console.error("Equipment transfer error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Validation failed", details: error.issues },
+          { status: 400 }
+        );
+      }
 
-    if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: "Validation failed", details: error.issues },
-        { status: 400 }
+        { error: "Internal server error" },
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.authenticated,
+  });
 }
 
 async function performImmediateTransfer(
   equipmentId: string,
   transferData: any,
-  session: any
+  performedById: string
 ) {
   return await db.$transaction(async (tx) => {
     // Get current equipment state
@@ -186,7 +220,7 @@ async function performImmediateTransfer(
     });
 
     // Create history record
-    await tx.equipmentHistory.create({
+    const history = await tx.equipmentHistory.create({
       data: {
         equipmentId,
         fromUserId: equipment?.currentOwnerId || null,
@@ -197,85 +231,94 @@ async function performImmediateTransfer(
       },
     });
 
-    return updatedEquipment;
+    const checklist = await HandoverChecklistService.start(tx, {
+      equipmentId,
+      stage: "transfer",
+      historyId: history.id,
+      completedSteps: transferData.completedSteps,
+      userId: performedById,
+    });
+
+    return { equipment: updatedEquipment, checklist };
   });
 }
 
 // GET endpoint to list transfer requests
 export async function GET(request: NextRequest) {
-  try {
-    const session = await auth();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const { searchParams } = new URL(request.url);
-    const status = searchParams.get("status") || "pending";
-    const page = parseInt(searchParams.get("page") || "1");
-    const limit = parseInt(searchParams.get("limit") || "10");
-
-    const skip = (page - 1) * limit;
-
-    // Build where clause based on user role
-    const where: any = { status };
-
-    if (session.user.role === "user") {
-      where.OR = [
-        { requestedById: session.user.id },
-        { toUserId: session.user.id },
-      ];
-    } else if (session.user.role === "team_lead") {
-      where.OR = [
-        { requestedById: session.user.id },
-        { toUserId: session.user.id },
-        { approverId: session.user.id },
-        { fromUserId: session.user.id },
-      ];
-    }
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+
+      const { searchParams } = new URL(req.url);
+      const status = searchParams.get("status") || "pending";
+      const page = parseInt(searchParams.get("page") || "1");
+      const limit = parseInt(searchParams.get("limit") || "10");
+
+      const skip = (page - 1) * limit;
+
+      // Build where clause based on user role
+      const where: any = { status };
+
+      if (user.role === "user") {
+        where.OR = [
+          { requestedById: user.id },
+          { toUserId: user.id },
+        ];
+      } else if (user.role === "team_lead") {
+        where.OR = [
+          { requestedById: user.id },
+          { toUserId: user.id },
+          { approverId: user.id },
+          { fromUserId: user.id },
+        ];
+      }
 
-    const [transferRequests, total] = await Promise.all([
-      db.equipmentTransferRequest.findMany({
-        where,
-        include: {
-          fromUser: {
-            select: { id: true, name: true, email: true },
-          },
-          toUser: {
-            select: { id: true, name: true, email: true },
-          },
-          requestedBy: {
-            select: { id: true, name: true, email: true },
-          },
-          approver: {
-            select: { id: true, name: true, email: true },
-          },
-          equipment: {
-            select: { id: true, name: true, serialNumber: true, category: true },
+      const [transferRequests, total] = await Promise.all([
+        db.equipmentTransferRequest.findMany({
+          where,
+          include: {
+            fromUser: {
+              select: { id: true, name: true, email: true },
+            },
+            toUser: {
+              select: { id: true, name: true, email: true },
+            },
+            requestedBy: {
+              select: { id: true, name: true, email: true },
+            },
+            approver: {
+              select: { id: true, name: true, email: true },
+            },
+            equipment: {
+              select: { id: true, name: true, serialNumber: true, category: true },
+            },
           },
+          orderBy: { createdAt: "desc" },
+          skip,
+          take: limit,
+        }),
+        db.equipmentTransferRequest.count({ where }),
+      ]);
+
+      return NextResponse.json({
+        transferRequests,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
         },
-        orderBy: { createdAt: "desc" },
-        skip,
-        take: limit,
-      }),
-      db.equipmentTransferRequest.count({ where }),
-    ]);
-
-    return NextResponse.json({
-      transferRequests,
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages: Math.ceil(total / limit),
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching transfer requests:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+      });
+    } catch (error) {
+      console.error("Error fetching transfer requests:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+  });
 }
 
 // Transfer approval endpoint (could be separate, but included here for completeness)
@@ -283,71 +326,92 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const session = await auth();
-    if (!session || session.user.role === "user") {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
 
-    const { id: equipmentId } = await params;
-    const body = await request.json();
-    const { transferRequestId, action } = body;
+      const { id: equipmentId } = await params;
+      const body = await req.json();
+      const { transferRequestId, action } = body;
 
-    if (!transferRequestId || !["approve", "reject"].includes(action)) {
-      return NextResponse.json({ error: "Invalid request" }, { status: 400 });
-    }
+      if (!transferRequestId || !["approve", "reject"].includes(action)) {
+        return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+      }
 
-    const transferRequest = await db.equipmentTransferRequest.findUnique({
-      where: { id: transferRequestId },
-      include: {
-        equipment: true,
-        fromUser: true,
-        toUser: true,
-      },
-    });
+      const transferRequest = await db.equipmentTransferRequest.findUnique({
+        where: { id: transferRequestId },
+        include: {
+          equipment: true,
+          fromUser: true,
+          toUser: true,
+        },
+      });
 
-    if (!transferRequest) {
-      return NextResponse.json({ error: "Transfer request not found" }, { status: 404 });
-    }
+      if (!transferRequest) {
+        return NextResponse.json({ error: "Transfer request not found" }, { status: 404 });
+      }
 
-    // Check if user can approve this request
-    if (transferRequest.approverId !== session.user.id && session.user.role !== "admin") {
-      return NextResponse.json({ error: "You cannot approve this transfer" }, { status: 403 });
-    }
+      // Check if user can approve this request
+      if (transferRequest.approverId !== user.id && user.role !== "admin") {
+        return NextResponse.json({ error: "You cannot approve this transfer" }, { status: 403 });
+      }
+
+      if (action === "approve") {
+        // Perform the transfer
+        await performImmediateTransfer(
+          transferRequest.equipmentId,
+          {
+            toUserId: transferRequest.toUserId,
+            reason: transferRequest.reason,
+            notes: transferRequest.notes,
+            condition: transferRequest.condition,
+          },
+          user.id
+        );
+      }
+
+      // Update transfer request
+      const updatedTransferRequest = await db.equipmentTransferRequest.update({
+        where: { id: transferRequestId },
+        data: {
+          status: action === "approve" ? "approved" : "rejected",
+          approverId: user.id,
+          updatedAt: new Date(),
+        },
+      });
 
-    if (action === "approve") {
-      // Perform the transfer
-      await performImmediateTransfer(
-        transferRequest.equipmentId,
-        {
+      try {
+        const transferNotification = {
+          id: transferRequest.id,
+          equipment: { id: transferRequest.equipment.id, name: transferRequest.equipment.name },
+          fromUserId: transferRequest.fromUserId,
           toUserId: transferRequest.toUserId,
+          toUserName: transferRequest.toUser.name,
+          requestedById: transferRequest.requestedById,
           reason: transferRequest.reason,
-          notes: transferRequest.notes,
-          condition: transferRequest.condition,
-        },
-        session
+        };
+
+        if (action === "approve") {
+          await NotificationService.notifyTransferCompleted(transferNotification);
+        } else {
+          await NotificationService.notifyTransferRejected(transferNotification);
+        }
+      } catch (notificationError) {
+        console.error("Failed to create transfer notifications:", notificationError);
+      }
+
+      return NextResponse.json({
+        message: `Transfer request ${action}d`,
+        transferRequest: updatedTransferRequest,
+      });
+    } catch (error) {
+      console.error("Transfer approval error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
       );
     }
-
-    // Update transfer request
-    const updatedTransferRequest = await db.equipmentTransferRequest.update({
-      where: { id: transferRequestId },
-      data: {
-        status: action === "approve" ? "approved" : "rejected",
-        approverId: session.user.id,
-        updatedAt: new Date(),
-      },
-    });
-
-    return NextResponse.json({
-      message: `Transfer request ${action}d`,
-      transferRequest: updatedTransferRequest,
-    });
-  } catch (error) {
-    console.error("Transfer approval error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.approveRequests,
+  });
 }
\ No newline at end of file
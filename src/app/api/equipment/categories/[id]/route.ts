@@ -0,0 +1,80 @@
+// ABOUTME: API endpoint for a single equipment category
+// ABOUTME: Updates a category, its handover checklists, and revalues its equipment when depreciation changes
+
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { db } from "@/lib/prisma";
+import { equipmentCategorySchema } from "@/lib/validation";
+import { DepreciationService, serializeSchedule } from "@/lib/depreciation";
+import { serializeChecklistSteps } from "@/lib/handover-checklists";
+import { z } from "zod";
+
+// PUT /api/equipment/categories/[id] - Update category
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+      const body = await req.json();
+      const { depreciationSchedule, handoverChecklists, ...validatedData } = equipmentCategorySchema
+        .partial()
+        .parse(body);
+
+      const existingCategory = await db.equipmentCategory.findUnique({
+        where: { id },
+      });
+
+      if (!existingCategory) {
+        return NextResponse.json({ error: "Category not found" }, { status: 404 });
+      }
+
+      if (validatedData.name && validatedData.name !== existingCategory.name) {
+        const duplicate = await db.equipmentCategory.findUnique({
+          where: { name: validatedData.name },
+        });
+
+        if (duplicate) {
+          return NextResponse.json(
+            { error: "Category with this name already exists" },
+            { status: 400 }
+          );
+        }
+      }
+
+      const category = await db.equipmentCategory.update({
+        where: { id },
+        data: {
+          ...validatedData,
+          depreciationSchedule: serializeSchedule(depreciationSchedule),
+          handoverChecklists: serializeChecklistSteps(handoverChecklists),
+        },
+      });
+
+      // Items linked by id or, for older records, by category name
+      await DepreciationService.refreshCurrentValues({
+        OR: [{ categoryId: id }, { category: existingCategory.name }],
+      });
+
+      return NextResponse.json(category);
+    } catch (error) {
+      console.error("Error updating category:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Validation failed", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageEquipment,
+  });
+}
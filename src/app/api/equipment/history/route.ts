@@ -2,7 +2,8 @@
 // ABOUTME: Provides comprehensive history tracking with search, filtering, and analytics
 
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
 import { db } from "@/lib/prisma";
 import { z } from "zod";
 
@@ -19,142 +20,143 @@ const historyQuerySchema = z.object({
 });
 
 export async function GET(request: NextRequest) {
-  try {
-    const session = await auth();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const { searchParams } = new URL(request.url);
-    const validatedParams = historyQuerySchema.parse(Object.fromEntries(searchParams));
-
-    const page = parseInt(validatedParams.page);
-    const limit = parseInt(validatedParams.limit);
-    const skip = (page - 1) * limit;
-
-    // Build where clause based on user role and filters
-    const where: any = {};
-
-    // Apply role-based filtering
-    if (session.user.role === "user") {
-      // Users can only see history for equipment they own or equipment that's available
-      where.OR = [
-        { 
-          equipment: { 
-            OR: [
-              { currentOwnerId: session.user.id },
-              { status: "available" }
-            ]
-          }
-        },
-        { fromUserId: session.user.id },
-        { toUserId: session.user.id },
-        { performedBy: session.user.id },
-      ];
-    }
-
-    // Apply filters
-    if (validatedParams.equipmentId) {
-      where.equipmentId = validatedParams.equipmentId;
-    }
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+
+      const { searchParams } = new URL(req.url);
+      const validatedParams = historyQuerySchema.parse(Object.fromEntries(searchParams));
+
+      const page = parseInt(validatedParams.page);
+      const limit = parseInt(validatedParams.limit);
+      const skip = (page - 1) * limit;
+
+      // Build where clause based on user role and filters
+      const where: any = {};
+
+      // Apply role-based filtering
+      if (user.role === "user") {
+        // Users can only see history for equipment they own or equipment that's available
+        where.OR = [
+          { 
+            equipment: { 
+              OR: [
+                { currentOwnerId: user.id },
+                { status: "available" }
+              ]
+            }
+          },
+          { fromUserId: user.id },
+          { toUserId: user.id },
+          { performedBy: user.id },
+        ];
+      }
 
-    if (validatedParams.userId) {
-      where.OR = [
-        { fromUserId: validatedParams.userId },
-        { toUserId: validatedParams.userId },
-        { performedBy: validatedParams.userId },
-      ];
-    }
+      // Apply filters
+      if (validatedParams.equipmentId) {
+        where.equipmentId = validatedParams.equipmentId;
+      }
 
-    if (validatedParams.action) {
-      where.action = { contains: validatedParams.action, mode: "insensitive" };
-    }
+      if (validatedParams.userId) {
+        where.OR = [
+          { fromUserId: validatedParams.userId },
+          { toUserId: validatedParams.userId },
+          { performedBy: validatedParams.userId },
+        ];
+      }
 
-    if (validatedParams.dateFrom || validatedParams.dateTo) {
-      where.createdAt = {};
-      if (validatedParams.dateFrom) {
-        where.createdAt.gte = new Date(validatedParams.dateFrom);
+      if (validatedParams.action) {
+        where.action = { contains: validatedParams.action, mode: "insensitive" };
       }
-      if (validatedParams.dateTo) {
-        where.createdAt.lte = new Date(validatedParams.dateTo);
+
+      if (validatedParams.dateFrom || validatedParams.dateTo) {
+        where.createdAt = {};
+        if (validatedParams.dateFrom) {
+          where.createdAt.gte = new Date(validatedParams.dateFrom);
+        }
+        if (validatedParams.dateTo) {
+          where.createdAt.lte = new Date(validatedParams.dateTo);
+        }
       }
-    }
 
-    const includeOptions: any = {};
-    if (validatedParams.includeEquipment === "true") {
-      includeOptions.equipment = {
-        select: {
-          id: true,
-          name: true,
-          serialNumber: true,
-          category: true,
-          status: true,
-        },
-      };
-    }
+      const includeOptions: any = {};
+      if (validatedParams.includeEquipment === "true") {
+        includeOptions.equipment = {
+          select: {
+            id: true,
+            name: true,
+            serialNumber: true,
+            category: true,
+            status: true,
+          },
+        };
+      }
 
-    if (validatedParams.includeUsers === "true") {
-      includeOptions.fromUser = {
-        select: { id: true, name: true, email: true },
-      };
-      includeOptions.toUser = {
-        select: { id: true, name: true, email: true },
-      };
-      includeOptions.performedBy = {
-        select: { id: true, name: true, email: true },
-      };
-    }
+      if (validatedParams.includeUsers === "true") {
+        includeOptions.fromUser = {
+          select: { id: true, name: true, email: true },
+        };
+        includeOptions.toUser = {
+          select: { id: true, name: true, email: true },
+        };
+        includeOptions.performedBy = {
+          select: { id: true, name: true, email: true },
+        };
+      }
 
-    // Get history records with pagination
-    const [history, total] = await Promise.all([
-      db.equipmentHistory.findMany({
-        where,
-        include: includeOptions,
-        orderBy: { createdAt: "desc" },
-        skip,
-        take: limit,
-      }),
-      db.equipmentHistory.count({ where }),
-    ]);
-
-    // Generate analytics if equipmentId is provided
-    let analytics = null;
-    if (validatedParams.equipmentId) {
-      analytics = await getEquipmentAnalytics(validatedParams.equipmentId);
-    }
+      // Get history records with pagination
+      const [history, total] = await Promise.all([
+        db.equipmentHistory.findMany({
+          where,
+          include: includeOptions,
+          orderBy: { createdAt: "desc" },
+          skip,
+          take: limit,
+        }),
+        db.equipmentHistory.count({ where }),
+      ]);
+
+      // Generate analytics if equipmentId is provided
+      let analytics = null;
+      if (validatedParams.equipmentId) {
+        analytics = await getEquipmentAnalytics(validatedParams.equipmentId);
+      }
 
-    return NextResponse.json({
-      history,
-      analytics,
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages: Math.ceil(total / limit),
-      },
-      filters: {
-        equipmentId: validatedParams.equipmentId,
-        userId: validatedParams.userId,
-        action: validatedParams.action,
-        dateFrom: validatedParams.dateFrom,
-        dateTo: validatedParams.dateTo,
-      },
-    });
-  } catch (error) {
-    console.error("History fetch error:", error);
+      return NextResponse.json({
+        history,
+        analytics,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+        filters: {
+          equipmentId: validatedParams.equipmentId,
+          userId: validatedParams.userId,
+          action: validatedParams.action,
+          dateFrom: validatedParams.dateFrom,
+          dateTo: validatedParams.dateTo,
+        },
+      });
+    } catch (error) {
+      console.error("History fetch error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Validation failed", details: error.issues },
+          { status: 400 }
+        );
+      }
 
-    if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: "Validation failed", details: error.issues },
-        { status: 400 }
+        { error: "Internal server error" },
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.authenticated,
+  });
 }
 
 async function getEquipmentAnalytics(equipmentId: string) {
@@ -242,69 +244,68 @@ async function getEquipmentAnalytics(equipmentId: string) {
 
 // POST endpoint to add manual history entries
 export async function POST(request: NextRequest) {
-  try {
-    const session = await auth();
-    if (!session || session.user.role === "user") {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const body = await request.json();
-    
-    const manualHistorySchema = z.object({
-      equipmentId: z.string().cuid(),
-      action: z.string().min(1, "Action is required"),
-      notes: z.string().min(1, "Notes are required"),
-      condition: z.enum(["excellent", "good", "fair", "poor", "broken"]).optional(),
-      date: z.string().optional(),
-    });
-
-    const validatedData = manualHistorySchema.parse(body);
-
-    // Verify equipment exists
-    const equipment = await db.equipment.findUnique({
-      where: { id: validatedData.equipmentId },
-    });
-
-    if (!equipment) {
-      return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
-    }
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+
+      const manualHistorySchema = z.object({
+        equipmentId: z.string().cuid(),
+        action: z.string().min(1, "Action is required"),
+        notes: z.string().min(1, "Notes are required"),
+        condition: z.enum(["excellent", "good", "fair", "poor", "broken"]).optional(),
+        date: z.string().optional(),
+      });
+
+      const validatedData = manualHistorySchema.parse(body);
+
+      // Verify equipment exists
+      const equipment = await db.equipment.findUnique({
+        where: { id: validatedData.equipmentId },
+      });
+
+      if (!equipment) {
+        return NextResponse.json({ error: "Equipment not found" }, { status: 404 });
+      }
 
-    // Create manual history entry
-    const historyEntry = await db.equipmentHistory.create({
-      data: {
-        equipmentId: validatedData.equipmentId,
-        action: validatedData.action.toLowerCase(),
-        notes: validatedData.notes,
-        condition: validatedData.condition,
-      },
-      include: {
-        equipment: {
-          select: {
-            id: true,
-            name: true,
-            serialNumber: true,
+      // Create manual history entry
+      const historyEntry = await db.equipmentHistory.create({
+        data: {
+          equipmentId: validatedData.equipmentId,
+          action: validatedData.action.toLowerCase(),
+          notes: validatedData.notes,
+          condition: validatedData.condition,
+        },
+        include: {
+          equipment: {
+            select: {
+              id: true,
+              name: true,
+              serialNumber: true,
+            },
           },
         },
-      },
-    });
-
-    return NextResponse.json({
-      message: "History entry created successfully",
-      historyEntry,
-    }, { status: 201 });
-  } catch (error) {
-    console.error("Manual history entry error:", error);
+      });
+
+      return NextResponse.json({
+        message: "History entry created successfully",
+        historyEntry,
+      }, { status: 201 });
+    } catch (error) {
+      console.error("Manual history entry error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Validation failed", details: error.issues },
+          { status: 400 }
+        );
+      }
 
-    if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: "Validation failed", details: error.issues },
-        { status: 400 }
+        { error: "Internal server error" },
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.manageEquipment,
+  });
 }
\ No newline at end of file
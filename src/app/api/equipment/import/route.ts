@@ -2,7 +2,8 @@
 // ABOUTME: Validates and creates equipment records with proper error handling
 
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
 import { db } from "@/lib/prisma";
 import { z } from "zod";
 
@@ -38,104 +39,100 @@ const importEquipmentSchema = z.object({
 });
 
 export async function POST(request: NextRequest) {
-  try {
-    const session = await auth();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
 
-    // Check permissions
-    if (!["admin", "team_lead"].includes(session.user.role)) {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
+      const { data } = await req.json();
 
-    const { data } = await request.json();
-    
-    if (!Array.isArray(data) || data.length === 0) {
-      return NextResponse.json({ error: "No data provided" }, { status: 400 });
-    }
+      if (!Array.isArray(data) || data.length === 0) {
+        return NextResponse.json({ error: "No data provided" }, { status: 400 });
+      }
+
+      const results = {
+        success: [] as any[],
+        errors: [] as string[],
+        successCount: 0,
+      };
+
+      // Process each equipment item
+      for (const [index, item] of data.entries()) {
+        try {
+          // Validate the item
+          const validatedItem = importEquipmentSchema.parse(item);
+
+          // Check if serial number already exists
+          const existingEquipment = await db.equipment.findUnique({
+            where: { serialNumber: validatedItem.serialNumber },
+          });
+
+          if (existingEquipment) {
+            results.errors.push(
+              `Row ${item.lineNumber || index + 1}: Equipment with serial number "${validatedItem.serialNumber}" already exists`
+            );
+            continue;
+          }
+
+          // Create the equipment
+          const equipment = await db.equipment.create({
+            data: {
+              name: validatedItem.name,
+              serialNumber: validatedItem.serialNumber,
+              category: validatedItem.category,
+              brand: validatedItem.brand,
+              model: validatedItem.model,
+              purchaseDate: validatedItem.purchaseDate,
+              purchasePrice: validatedItem.purchasePrice,
+              purchaseMethod: validatedItem.purchaseMethod,
+              condition: validatedItem.condition,
+              location: validatedItem.location,
+              warrantyExpiry: validatedItem.warrantyExpiry,
+              notes: validatedItem.notes,
+              status: "available", // Default status for imported equipment
+              createdBy: user.id,
+            },
+          });
+
+          results.success.push({
+            row: item.lineNumber || index + 1,
+            id: equipment.id,
+            name: equipment.name,
+            serialNumber: equipment.serialNumber,
+          });
+          results.successCount++;
+
+        } catch (error) {
+          let errorMessage = "Unknown error";
+
+          if (error instanceof z.ZodError) {
+            errorMessage = error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join(', ');
+          } else if (error instanceof Error) {
+            errorMessage = error.message;
+          }
 
-    const results = {
-      success: [] as any[],
-      errors: [] as string[],
-      successCount: 0,
-    };
-
-    // Process each equipment item
-    for (const [index, item] of data.entries()) {
-      try {
-        // Validate the item
-        const validatedItem = importEquipmentSchema.parse(item);
-        
-        // Check if serial number already exists
-        const existingEquipment = await db.equipment.findUnique({
-          where: { serialNumber: validatedItem.serialNumber },
-        });
-
-        if (existingEquipment) {
           results.errors.push(
-            `Row ${item.lineNumber || index + 1}: Equipment with serial number "${validatedItem.serialNumber}" already exists`
+            `Row ${item.lineNumber || index + 1}: ${errorMessage}`
           );
-          continue;
         }
+      }
 
-        // Create the equipment
-        const equipment = await db.equipment.create({
-          data: {
-            name: validatedItem.name,
-            serialNumber: validatedItem.serialNumber,
-            category: validatedItem.category,
-            brand: validatedItem.brand,
-            model: validatedItem.model,
-            purchaseDate: validatedItem.purchaseDate,
-            purchasePrice: validatedItem.purchasePrice,
-            purchaseMethod: validatedItem.purchaseMethod,
-            condition: validatedItem.condition,
-            location: validatedItem.location,
-            warrantyExpiry: validatedItem.warrantyExpiry,
-            notes: validatedItem.notes,
-            status: "available", // Default status for imported equipment
-            createdBy: session.user.id,
-          },
-        });
-
-        results.success.push({
-          row: item.lineNumber || index + 1,
-          id: equipment.id,
-          name: equipment.name,
-          serialNumber: equipment.serialNumber,
-        });
-        results.successCount++;
-
-      } catch (error) {
-        let errorMessage = "Unknown error";
-        
-        if (error instanceof z.ZodError) {
-          errorMessage = error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join(', ');
-        } else if (error instanceof Error) {
-          errorMessage = error.message;
-        }
+      // Return results
+      return NextResponse.json({
+        message: `Import completed. ${results.successCount} items created, ${results.errors.length} errors.`,
+        successCount: results.successCount,
+        errorCount: results.errors.length,
+        success: results.success,
+        errors: results.errors,
+      });
 
-        results.errors.push(
-          `Row ${item.lineNumber || index + 1}: ${errorMessage}`
-        );
-      }
+    } catch (error) {
+      console.error("Equipment import error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
     }
-
-    // Return results
-    return NextResponse.json({
-      message: `Import completed. ${results.successCount} items created, ${results.errors.length} errors.`,
-      successCount: results.successCount,
-      errorCount: results.errors.length,
-      success: results.success,
-      errors: results.errors,
-    });
-
-  } catch (error) {
-    console.error("Equipment import error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.manageEquipment,
+  });
 }
\ No newline at end of file
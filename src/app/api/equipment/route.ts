@@ -1,142 +1,152 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
 import { db } from "@/lib/prisma";
 import { equipmentSchema } from "@/lib/validation";
+import { DepreciationService, serializeSchedule } from "@/lib/depreciation";
 
 export async function GET(request: NextRequest) {
-  try {
-    const session = await auth();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get("page") || "1");
-    const limit = parseInt(searchParams.get("limit") || "10");
-    const search = searchParams.get("search");
-    const category = searchParams.get("category");
-    const status = searchParams.get("status");
-
-    const skip = (page - 1) * limit;
-
-    const where: any = {};
-
-    // Apply role-based filtering
-    if (session.user.role === "user") {
-      where.OR = [
-        { currentOwnerId: session.user.id },
-        { status: "available" }
-      ];
-    }
-
-    // Apply search filters
-    if (search) {
-      where.OR = [
-        ...(where.OR || []),
-        { name: { contains: search, mode: "insensitive" } },
-        { serialNumber: { contains: search, mode: "insensitive" } },
-        { brand: { contains: search, mode: "insensitive" } },
-        { model: { contains: search, mode: "insensitive" } },
-      ];
-    }
-
-    if (category) {
-      where.category = category;
-    }
-
-    if (status) {
-      where.status = status;
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+
+      const { searchParams } = new URL(req.url);
+      const page = parseInt(searchParams.get("page") || "1");
+      const limit = parseInt(searchParams.get("limit") || "10");
+      const search = searchParams.get("search");
+      const category = searchParams.get("category");
+      const status = searchParams.get("status");
+
+      const skip = (page - 1) * limit;
+
+      const where: any = {};
+
+      // Apply role-based filtering
+      if (user.role === "user") {
+        where.OR = [
+          { currentOwnerId: user.id },
+          { status: "available" }
+        ];
+      }
+
+      // Apply search filters
+      if (search) {
+        where.OR = [
+          ...(where.OR || []),
+          { name: { contains: search, mode: "insensitive" } },
+          { serialNumber: { contains: search, mode: "insensitive" } },
+          { brand: { contains: search, mode: "insensitive" } },
+          { model: { contains: search, mode: "insensitive" } },
+        ];
+      }
+
+      if (category) {
+        where.category = category;
+      }
+
+      if (status) {
+        where.status = status;
+      }
+
+      const [equipment, total] = await Promise.all([
+        db.equipment.findMany({
+          where,
+          include: {
+            currentOwner: {
+              select: { id: true, name: true, email: true, team: { select: { id: true, name: true } } },
+            },
+          },
+          orderBy: { updatedAt: "desc" },
+          skip,
+          take: limit,
+        }),
+        db.equipment.count({ where }),
+      ]);
+
+      return NextResponse.json({
+        equipment,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching equipment:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
     }
+  }, {
+    policy: policies.authenticated,
+  });
+}
 
-    const [equipment, total] = await Promise.all([
-      db.equipment.findMany({
-        where,
+export async function POST(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+
+      const body = await req.json();
+      const validatedData = equipmentSchema.parse(body);
+
+      const equipment = await db.equipment.create({
+        data: {
+          name: validatedData.name,
+          brand: validatedData.brand,
+          model: validatedData.model,
+          serialNumber: validatedData.serialNumber,
+          category: validatedData.category,
+          status: validatedData.status,
+          purchaseDate: validatedData.purchaseDate,
+          purchasePrice: validatedData.purchasePrice,
+          purchaseMethod: "off_the_shelf", // Default value
+          depreciationMethod: validatedData.depreciationMethod,
+          usefulLifeMonths: validatedData.usefulLifeMonths,
+          salvageValue: validatedData.salvageValue,
+          depreciationSchedule: serializeSchedule(validatedData.depreciationSchedule),
+          warrantyExpiry: validatedData.warrantyExpiry,
+          lastMaintenanceDate: validatedData.lastMaintenanceDate,
+          location: validatedData.location,
+          notes: validatedData.notes,
+          createdBy: user.id,
+        },
         include: {
           currentOwner: {
             select: { id: true, name: true, email: true, team: { select: { id: true, name: true } } },
           },
         },
-        orderBy: { updatedAt: "desc" },
-        skip,
-        take: limit,
-      }),
-      db.equipment.count({ where }),
-    ]);
-
-    return NextResponse.json({
-      equipment,
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages: Math.ceil(total / limit),
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching equipment:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
-}
+      });
+
+      // Create initial history record
+      await db.equipmentHistory.create({
+        data: {
+          equipmentId: equipment.id,
+          action: "created",
+          notes: "Equipment added to inventory",
+        },
+      });
 
-export async function POST(request: NextRequest) {
-  try {
-    const session = await auth();
-    if (!session || (session.user.role !== "admin" && session.user.role !== "team_lead")) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+      const currentValue = await DepreciationService.refreshCurrentValue(equipment.id);
 
-    const body = await request.json();
-    const validatedData = equipmentSchema.parse(body);
-
-    const equipment = await db.equipment.create({
-      data: {
-        name: validatedData.name,
-        brand: validatedData.brand,
-        model: validatedData.model,
-        serialNumber: validatedData.serialNumber,
-        category: validatedData.category,
-        status: validatedData.status,
-        purchaseDate: validatedData.purchaseDate,
-        purchasePrice: validatedData.purchasePrice,
-        purchaseMethod: "off_the_shelf", // Default value
-        warrantyExpiry: validatedData.warrantyExpiry,
-        lastMaintenanceDate: validatedData.lastMaintenanceDate,
-        location: validatedData.location,
-        notes: validatedData.notes,
-        createdBy: session.user.id,
-      },
-      include: {
-        currentOwner: {
-          select: { id: true, name: true, email: true, team: { select: { id: true, name: true } } },
-        },
-      },
-    });
-
-    // Create initial history record
-    await db.equipmentHistory.create({
-      data: {
-        equipmentId: equipment.id,
-        action: "created",
-        notes: "Equipment added to inventory",
-      },
-    });
-
-    return NextResponse.json(equipment, { status: 201 });
-  } catch (error) {
-    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ ...equipment, currentValue }, { status: 201 });
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return NextResponse.json(
+          { error: "Validation error", details: error.message },
+          { status: 400 }
+        );
+      }
+
+      console.error("Error creating equipment:", error);
       return NextResponse.json(
-        { error: "Validation error", details: error.message },
-        { status: 400 }
+        { error: "Internal server error" },
+        { status: 500 }
       );
     }
-
-    console.error("Error creating equipment:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.manageEquipment,
+  });
 }
\ No newline at end of file
@@ -1,15 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { ValidationHelper } from '@/lib/validation';
-import { withSecurity } from '@/lib/security-middleware';
-
-interface AuthenticatedRequest extends NextRequest {
-  user?: {
-    id?: string;
-    name?: string;
-    role?: string;
-  };
-}
+import { withSecurity, type AuthenticatedRequest } from '@/lib/security-middleware';
+import { policies } from '@/lib/authorization';
 
 export async function GET(request: Request) {
   return withSecurity(request as NextRequest, async (req: AuthenticatedRequest) => {
@@ -194,7 +187,7 @@ export async function GET(request: Request) {
     );
   }
   }, {
-    requireAuth: true,
+    policy: policies.authenticated,
     enableRateLimit: true,
   });
 }
\ No newline at end of file
@@ -2,7 +2,8 @@
 // ABOUTME: Handles CRUD operations for equipment tags with usage tracking
 
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
 import { db } from "@/lib/prisma";
 import { z } from "zod";
 
@@ -14,86 +15,84 @@ const tagSchema = z.object({
 
 // GET /api/equipment/tags - List all tags
 export async function GET(request: NextRequest) {
-  try {
-    const session = await auth();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const tags = await db.equipmentTag.findMany({
-      include: {
-        _count: {
-          select: {
-            equipment: true,
+  return withSecurity(request, async () => {
+    try {
+      const tags = await db.equipmentTag.findMany({
+        include: {
+          _count: {
+            select: {
+              equipment: true,
+            },
           },
         },
-      },
-      orderBy: {
-        name: "asc",
-      },
-    });
+        orderBy: {
+          name: "asc",
+        },
+      });
 
-    const formattedTags = tags.map(tag => ({
-      id: tag.id,
-      name: tag.name,
-      description: tag.description,
-      color: tag.color,
-      usageCount: tag._count.equipment,
-      createdAt: tag.createdAt,
-      updatedAt: tag.updatedAt,
-    }));
+      const formattedTags = tags.map(tag => ({
+        id: tag.id,
+        name: tag.name,
+        description: tag.description,
+        color: tag.color,
+        usageCount: tag._count.equipment,
+        createdAt: tag.createdAt,
+        updatedAt: tag.updatedAt,
+      }));
 
-    return NextResponse.json(formattedTags);
-  } catch (error) {
-    console.error("Error fetching tags:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+      return NextResponse.json(formattedTags);
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+  });
 }
 
 // POST /api/equipment/tags - Create new tag
 export async function POST(request: NextRequest) {
-  try {
-    const session = await auth();
-    if (!session || session.user.role === "user") {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const validatedData = tagSchema.parse(body);
 
-    const body = await request.json();
-    const validatedData = tagSchema.parse(body);
+      // Check if tag with same name already exists
+      const existingTag = await db.equipmentTag.findUnique({
+        where: { name: validatedData.name },
+      });
 
-    // Check if tag with same name already exists
-    const existingTag = await db.equipmentTag.findUnique({
-      where: { name: validatedData.name },
-    });
+      if (existingTag) {
+        return NextResponse.json(
+          { error: "Tag with this name already exists" },
+          { status: 400 }
+        );
+      }
 
-    if (existingTag) {
-      return NextResponse.json(
-        { error: "Tag with this name already exists" },
-        { status: 400 }
-      );
-    }
+      const tag = await db.equipmentTag.create({
+        data: validatedData,
+      });
 
-    const tag = await db.equipmentTag.create({
-      data: validatedData,
-    });
+      return NextResponse.json(tag, { status: 201 });
+    } catch (error) {
+      console.error("Error creating tag:", error);
 
-    return NextResponse.json(tag, { status: 201 });
-  } catch (error) {
-    console.error("Error creating tag:", error);
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Validation failed", details: error.issues },
+          { status: 400 }
+        );
+      }
 
-    if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: "Validation failed", details: error.issues },
-        { status: 400 }
+        { error: "Internal server error" },
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.manageEquipment,
+  });
 }
\ No newline at end of file
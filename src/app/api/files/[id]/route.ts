@@ -0,0 +1,57 @@
+// ABOUTME: API endpoint for reading an uploaded file
+// ABOUTME: Checks access and redirects to a short-lived signed link to the stored file
+
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { authorizeResource, policies, resourcePolicies } from "@/lib/authorization";
+import { db } from "@/lib/prisma";
+import { FileUploadService } from "@/lib/file-uploads";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+      const { id } = await params;
+
+      const file = await db.file.findUnique({
+        where: { id },
+        include: {
+          equipment: { select: { currentOwnerId: true } },
+        },
+      });
+
+      if (!file) {
+        return NextResponse.json({ error: "File not found" }, { status: 404 });
+      }
+
+      // The uploader and the equipment's holder see a file; team leads and admins see all
+      const ownerId = file.equipment ? file.equipment.currentOwnerId : file.uploadedById;
+      if (file.uploadedById !== user.id && !(await authorizeResource(user, resourcePolicies.ownerOrManager, ownerId))) {
+        return NextResponse.json({ error: "Permission denied" }, { status: 403 });
+      }
+
+      // Files uploaded to Uploadthing before storage moved in-house still live there
+      if (!file.storageKey) {
+        return NextResponse.redirect(file.url);
+      }
+
+      const url = await FileUploadService.downloadUrl(
+        { storageKey: file.storageKey, fileName: file.name, contentType: file.type },
+        { download: new URL(req.url).searchParams.get("download") === "1" }
+      );
+
+      return NextResponse.redirect(new URL(url, req.url));
+    } catch (error) {
+      console.error("Error reading file:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+  });
+}
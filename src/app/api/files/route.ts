@@ -0,0 +1,93 @@
+// ABOUTME: API endpoint for uploading standalone files such as invoices, receipts and documents
+// ABOUTME: Stores each file through the storage service and records it; files are then reached through /api/files/[id]
+
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { canManageSubscriptions } from "@/lib/auth-utils";
+import {
+  DOCUMENT_CONTENT_TYPES,
+  FileUploadError,
+  FileUploadService,
+  IMAGE_CONTENT_TYPES,
+} from "@/lib/file-uploads";
+import { z } from "zod";
+
+// What each upload form accepts; invoices are limited to the people who manage purchases
+const UPLOAD_PURPOSES = {
+  equipmentImage: { allowedTypes: IMAGE_CONTENT_TYPES, maxFiles: 1, managersOnly: false },
+  invoice: { allowedTypes: DOCUMENT_CONTENT_TYPES, maxFiles: 5, managersOnly: true },
+  document: { allowedTypes: DOCUMENT_CONTENT_TYPES, maxFiles: 3, managersOnly: false },
+} as const;
+
+const uploadSchema = z.object({
+  purpose: z.enum(["equipmentImage", "invoice", "document"]),
+  description: z.string().max(500).optional(),
+});
+
+export async function POST(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+
+      const formData = await req.formData();
+      const { purpose, description } = uploadSchema.parse({
+        purpose: formData.get("purpose"),
+        description: formData.get("description") || undefined,
+      });
+      const config = UPLOAD_PURPOSES[purpose];
+      const files = formData.getAll("files").filter((entry): entry is File => entry instanceof File);
+
+      if (config.managersOnly && !canManageSubscriptions(user.role)) {
+        return NextResponse.json({ error: "Permission denied" }, { status: 403 });
+      }
+
+      if (files.length === 0 || files.length > config.maxFiles) {
+        return NextResponse.json(
+          { error: `Upload between 1 and ${config.maxFiles} files` },
+          { status: 400 }
+        );
+      }
+
+      const uploads = await Promise.all(
+        files.map(async (file) => ({
+          body: Buffer.from(await file.arrayBuffer()),
+          fileName: file.name,
+          prefix: "files",
+          allowedTypes: [...config.allowedTypes],
+        }))
+      );
+
+      // Reject the whole batch before anything is stored
+      for (const upload of uploads) {
+        await FileUploadService.validate(upload.body, upload.allowedTypes);
+      }
+
+      const uploadedFiles = [];
+      for (const upload of uploads) {
+        uploadedFiles.push(await FileUploadService.storeFile(upload, { uploadedById: user.id, description }));
+      }
+
+      return NextResponse.json({ files: uploadedFiles }, { status: 201 });
+    } catch (error) {
+      if (error instanceof FileUploadError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Validation failed", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      console.error("File upload error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+  });
+}
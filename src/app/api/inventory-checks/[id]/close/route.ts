@@ -0,0 +1,79 @@
+// ABOUTME: API endpoint for closing an inventory check
+// ABOUTME: Handles POST requests that mark unscanned items missing and return the reconciliation report
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/prisma";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { inventoryCheckSchemas, InputSanitizer } from "@/lib/validation";
+import { InventoryCheckService, InventoryCheckError } from "@/lib/inventory-check";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+      const user = req.user;
+      const body = await req.json().catch(() => ({}));
+
+      const validatedData = inventoryCheckSchemas.close.parse(body);
+
+      const check = await db.inventoryCheck.findUnique({
+        where: { id },
+        select: { id: true, status: true },
+      });
+
+      if (!check) {
+        return NextResponse.json(
+          { error: "Inventory check not found" },
+          { status: 404 }
+        );
+      }
+
+      if (check.status === "completed") {
+        return NextResponse.json(
+          { error: "Inventory check is already closed" },
+          { status: 400 }
+        );
+      }
+
+      const report = await InventoryCheckService.closeCheck(
+        id,
+        user.id,
+        validatedData.notes ? InputSanitizer.sanitizeString(validatedData.notes) : undefined
+      );
+
+      return NextResponse.json({
+        message: "Inventory check closed",
+        report,
+      });
+    } catch (error) {
+      console.error("Inventory check close error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof InventoryCheckError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+    enableRateLimit: true,
+  });
+}
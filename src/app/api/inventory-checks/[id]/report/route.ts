@@ -0,0 +1,86 @@
+// ABOUTME: API endpoint for inventory check reconciliation reports
+// ABOUTME: Returns the discrepancy summary as JSON or as an Excel download for the finance team
+
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { InventoryCheckService } from "@/lib/inventory-check";
+import * as XLSX from "xlsx";
+
+const discrepancyLabels: Record<string, string> = {
+  missing: "Missing",
+  unexpected: "Unexpected",
+  wrong_owner: "Wrong owner",
+  wrong_location: "Wrong location",
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: NextRequest) => {
+    try {
+      const { id } = await params;
+      const { searchParams } = new URL(req.url);
+      const format = searchParams.get("format") || "json";
+
+      const report = await InventoryCheckService.getReconciliationReport(id);
+
+      if (!report) {
+        return NextResponse.json(
+          { error: "Inventory check not found" },
+          { status: 404 }
+        );
+      }
+
+      if (format !== "xlsx") {
+        return NextResponse.json(report);
+      }
+
+      const summaryRows = [
+        { "Metric": "Check", "Value": report.check.name },
+        { "Metric": "Status", "Value": report.check.status },
+        { "Metric": "Scope", "Value": report.check.scopeValue ? `${report.check.scopeType}: ${report.check.scopeValue}` : "All equipment" },
+        { "Metric": "Expected items", "Value": report.summary.expected },
+        { "Metric": "Verified", "Value": report.summary.verified },
+        { "Metric": "Missing", "Value": report.summary.missing },
+        { "Metric": "Unexpected", "Value": report.summary.unexpected },
+        { "Metric": "Wrong owner", "Value": report.summary.wrongOwner },
+        { "Metric": "Wrong location", "Value": report.summary.wrongLocation },
+        { "Metric": "Accuracy (%)", "Value": report.summary.accuracy },
+      ];
+
+      const discrepancyRows = report.discrepancies.map((discrepancy) => ({
+        "Type": discrepancyLabels[discrepancy.type] || discrepancy.type,
+        "Serial Number": discrepancy.serialNumber || discrepancy.scannedCode || "",
+        "Name": discrepancy.name || "",
+        "Expected Owner": discrepancy.expectedOwner || "",
+        "Observed Owner": discrepancy.observedOwner || "",
+        "Expected Location": discrepancy.expectedLocation || "",
+        "Observed Location": discrepancy.observedLocation || "",
+      }));
+
+      const wb = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(summaryRows), "Summary");
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(discrepancyRows), "Discrepancies");
+
+      const excelBuffer = XLSX.write(wb, { bookType: "xlsx", type: "buffer" });
+
+      return new NextResponse(excelBuffer, {
+        headers: {
+          "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          "Content-Disposition": `attachment; filename="inventory-check-${report.check.id}.xlsx"`,
+        },
+      });
+    } catch (error) {
+      console.error("Inventory check report error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageEquipment,
+    enableRateLimit: true,
+  });
+}
@@ -0,0 +1,67 @@
+// ABOUTME: API endpoint for a single inventory check
+// ABOUTME: Handles GET for check details including every expected and scanned item
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/prisma";
+import { withSecurity } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { ValidationHelper } from "@/lib/validation";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async () => {
+    try {
+      const { id } = await params;
+
+      const check = await db.inventoryCheck.findUnique({
+        where: { id },
+        include: {
+          createdBy: {
+            select: { id: true, name: true, email: true },
+          },
+          closedBy: {
+            select: { id: true, name: true, email: true },
+          },
+          items: {
+            include: {
+              equipment: {
+                select: {
+                  id: true,
+                  name: true,
+                  serialNumber: true,
+                  category: true,
+                  status: true,
+                  currentOwner: { select: { id: true, name: true } },
+                },
+              },
+              verifiedBy: {
+                select: { id: true, name: true },
+              },
+            },
+            orderBy: [{ status: "asc" }, { updatedAt: "desc" }],
+          },
+        },
+      });
+
+      if (!check) {
+        return NextResponse.json(
+          { error: "Inventory check not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(ValidationHelper.sanitizeDbResults(check));
+    } catch (error) {
+      console.error("Inventory check fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageEquipment,
+    enableRateLimit: true,
+  });
+}
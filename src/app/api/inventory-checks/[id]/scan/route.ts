@@ -0,0 +1,82 @@
+// ABOUTME: API endpoint for verifying equipment during an inventory check
+// ABOUTME: Handles POST requests with scanned QR codes and records discrepancies against the snapshot
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/prisma";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { inventoryCheckSchemas, InputSanitizer } from "@/lib/validation";
+import { InventoryCheckService } from "@/lib/inventory-check";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+      const user = req.user;
+      const body = await req.json();
+
+      const validatedData = inventoryCheckSchemas.scan.parse(body);
+
+      const check = await db.inventoryCheck.findUnique({
+        where: { id },
+        select: { id: true, status: true, scopeType: true, scopeValue: true },
+      });
+
+      if (!check) {
+        return NextResponse.json(
+          { error: "Inventory check not found" },
+          { status: 404 }
+        );
+      }
+
+      if (check.status === "completed") {
+        return NextResponse.json(
+          { error: "Inventory check is already closed" },
+          { status: 400 }
+        );
+      }
+
+      const result = await InventoryCheckService.recordScan(
+        check,
+        {
+          ...validatedData,
+          location: validatedData.location
+            ? InputSanitizer.sanitizeString(validatedData.location)
+            : undefined,
+          notes: validatedData.notes
+            ? InputSanitizer.sanitizeString(validatedData.notes)
+            : undefined,
+        },
+        user.id
+      );
+
+      return NextResponse.json({
+        message: result.matched
+          ? "Equipment verified"
+          : "Scanned code does not match any equipment and was recorded as unexpected",
+        ...result,
+      });
+    } catch (error) {
+      console.error("Inventory scan error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageEquipment,
+    enableRateLimit: true,
+  });
+}
@@ -0,0 +1,98 @@
+// ABOUTME: API endpoint for physical inventory audit campaigns
+// ABOUTME: Handles GET for listing inventory checks and POST for creating scoped checks
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/prisma";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { inventoryCheckSchemas, InputSanitizer, ValidationHelper } from "@/lib/validation";
+import { InventoryCheckService } from "@/lib/inventory-check";
+
+export async function GET(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = new URL(req.url);
+      const status = searchParams.get("status");
+
+      const whereClause: Record<string, unknown> = {};
+      if (status && status !== "all") {
+        whereClause.status = status;
+      }
+
+      const checks = await db.inventoryCheck.findMany({
+        where: whereClause,
+        include: {
+          createdBy: {
+            select: { id: true, name: true, email: true },
+          },
+          closedBy: {
+            select: { id: true, name: true, email: true },
+          },
+        },
+        orderBy: { scheduledAt: "desc" },
+      });
+
+      return NextResponse.json(ValidationHelper.sanitizeDbResults(checks));
+    } catch (error) {
+      console.error("Inventory checks fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageEquipment,
+    enableRateLimit: true,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+      const body = await req.json();
+
+      const validatedData = inventoryCheckSchemas.create.parse(body);
+
+      const check = await InventoryCheckService.createCheck(
+        {
+          ...validatedData,
+          name: InputSanitizer.sanitizeString(validatedData.name),
+          description: validatedData.description
+            ? InputSanitizer.sanitizeString(validatedData.description)
+            : undefined,
+          scopeValue: validatedData.scopeValue
+            ? InputSanitizer.sanitizeString(validatedData.scopeValue)
+            : undefined,
+        },
+        user.id
+      );
+
+      return NextResponse.json(
+        {
+          message: "Inventory check created successfully",
+          check,
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Inventory check creation error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+    enableRateLimit: true,
+  });
+}
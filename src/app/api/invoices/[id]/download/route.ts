@@ -1,70 +1,63 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { authorizeResource, policies, resourcePolicies } from "@/lib/authorization";
 import { db } from "@/lib/prisma";
-import { readFile } from "fs/promises";
-import { join } from "path";
-import { existsSync } from "fs";
+import { FileUploadService } from "@/lib/file-uploads";
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const { id } = await params;
-    const session = await auth();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const invoice = await db.subscriptionInvoice.findUnique({
-      where: { id },
-      include: {
-        subscription: {
-          select: {
-            id: true,
-            softwareName: true,
-            assignedUser: {
-              select: { id: true, name: true, email: true },
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+
+      const { id } = await params;
+
+      const invoice = await db.subscriptionInvoice.findUnique({
+        where: { id },
+        include: {
+          subscription: {
+            select: {
+              id: true,
+              softwareName: true,
+              assignedUser: {
+                select: { id: true, name: true, email: true },
+              },
             },
           },
         },
-      },
-    });
-
-    if (!invoice) {
-      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+      });
+
+      if (!invoice) {
+        return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+      }
+
+      // Subscription holders see their own invoices; team leads and admins see all
+      if (!(await authorizeResource(user, resourcePolicies.ownerOrManager, invoice.subscription.assignedUser.id))) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+      }
+
+      // Files still in public/ are moved into storage by `npm run storage:migrate`
+      if (!invoice.storageKey) {
+        return NextResponse.json({ error: "Invoice file not found" }, { status: 404 });
+      }
+
+      const url = await FileUploadService.downloadUrl({
+        storageKey: invoice.storageKey,
+        fileName: invoice.fileName || `invoice-${invoice.id}`,
+        contentType: invoice.fileType || "application/octet-stream",
+      }, { download: true });
+
+      return NextResponse.redirect(new URL(url, req.url));
+    } catch (error) {
+      console.error("Error downloading invoice:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
     }
-
-    // Check role-based access
-    if (session.user.role === "user" && invoice.subscription.assignedUser.id !== session.user.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
-    }
-
-    if (!invoice.invoiceUrl) {
-      return NextResponse.json({ error: "Invoice file not found" }, { status: 404 });
-    }
-
-    const filePath = join(process.cwd(), "public", invoice.invoiceUrl);
-    
-    if (!existsSync(filePath)) {
-      return NextResponse.json({ error: "Invoice file not found on disk" }, { status: 404 });
-    }
-
-    const fileBuffer = await readFile(filePath);
-    const fileName = invoice.fileName || `invoice-${invoice.id}`;
-
-    return new NextResponse(fileBuffer as any, {
-      headers: {
-        "Content-Type": invoice.fileType || "application/octet-stream",
-        "Content-Disposition": `attachment; filename="${fileName}"`,
-        "Content-Length": fileBuffer.length.toString(),
-      },
-    });
-  } catch (error) {
-    console.error("Error downloading invoice:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.authenticated,
+  });
 }
\ No newline at end of file
@@ -1,149 +1,146 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { authorizeResource, policies, resourcePolicies } from "@/lib/authorization";
 import { db } from "@/lib/prisma";
-import { unlink } from "fs/promises";
-import { join } from "path";
-import { existsSync } from "fs";
+import { FileUploadService } from "@/lib/file-uploads";
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const { id } = await params;
-    const session = await auth();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const invoice = await db.subscriptionInvoice.findUnique({
-      where: { id },
-      include: {
-        subscription: {
-          select: {
-            id: true,
-            softwareName: true,
-            vendor: true,
-            assignedUser: {
-              select: { id: true, name: true, email: true },
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+
+      const { id } = await params;
+
+      const invoice = await db.subscriptionInvoice.findUnique({
+        where: { id },
+        include: {
+          subscription: {
+            select: {
+              id: true,
+              softwareName: true,
+              vendor: true,
+              assignedUser: {
+                select: { id: true, name: true, email: true },
+              },
             },
           },
         },
-      },
-    });
+      });
 
-    if (!invoice) {
-      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
-    }
+      if (!invoice) {
+        return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+      }
 
-    // Check role-based access
-    if (session.user.role === "user" && invoice.subscription.assignedUser.id !== session.user.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
-    }
+      // Subscription holders see their own invoices; team leads and admins see all
+      if (!(await authorizeResource(user, resourcePolicies.ownerOrManager, invoice.subscription.assignedUser.id))) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+      }
 
-    return NextResponse.json(invoice);
-  } catch (error) {
-    console.error("Error fetching invoice:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+      return NextResponse.json(invoice);
+    } catch (error) {
+      console.error("Error fetching invoice:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+  });
 }
 
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const { id } = await params;
-    const session = await auth();
-    if (!session || (session.user.role !== "admin" && session.user.role !== "team_lead")) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
 
-    const body = await request.json();
-    const { status, dueDate, amount, vendor, description } = body;
+      const body = await req.json();
+      const { status, dueDate, amount, vendor, description } = body;
 
-    const existingInvoice = await db.subscriptionInvoice.findUnique({
-      where: { id },
-    });
+      const existingInvoice = await db.subscriptionInvoice.findUnique({
+        where: { id },
+      });
 
-    if (!existingInvoice) {
-      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
-    }
+      if (!existingInvoice) {
+        return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+      }
 
-    const updateData: Record<string, unknown> = {};
-    if (status) updateData.status = status;
-    if (dueDate) updateData.dueDate = new Date(dueDate);
-    if (amount !== undefined) updateData.amount = amount;
-    if (vendor !== undefined) updateData.vendor = vendor;
-    if (description !== undefined) updateData.description = description;
-
-    const invoice = await db.subscriptionInvoice.update({
-      where: { id },
-      data: updateData,
-      include: {
-        subscription: {
-          select: {
-            id: true,
-            softwareName: true,
-            vendor: true,
-            assignedUser: {
-              select: { id: true, name: true, email: true },
+      const updateData: Record<string, unknown> = {};
+      if (status) updateData.status = status;
+      if (dueDate) updateData.dueDate = new Date(dueDate);
+      if (amount !== undefined) updateData.amount = amount;
+      if (vendor !== undefined) updateData.vendor = vendor;
+      if (description !== undefined) updateData.description = description;
+
+      const invoice = await db.subscriptionInvoice.update({
+        where: { id },
+        data: updateData,
+        include: {
+          subscription: {
+            select: {
+              id: true,
+              softwareName: true,
+              vendor: true,
+              assignedUser: {
+                select: { id: true, name: true, email: true },
+              },
             },
           },
         },
-      },
-    });
-
-    return NextResponse.json(invoice);
-  } catch (error) {
-    console.error("Error updating invoice:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+      });
+
+      return NextResponse.json(invoice);
+    } catch (error) {
+      console.error("Error updating invoice:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageSubscriptions,
+  });
 }
 
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const { id } = await params;
-    const session = await auth();
-    if (!session || session.user.role !== "admin") {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+  return withSecurity(request, async () => {
+    try {
+      const { id } = await params;
 
-    const invoice = await db.subscriptionInvoice.findUnique({
-      where: { id },
-    });
+      const invoice = await db.subscriptionInvoice.findUnique({
+        where: { id },
+      });
 
-    if (!invoice) {
-      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
-    }
+      if (!invoice) {
+        return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+      }
+
+      await db.subscriptionInvoice.delete({
+        where: { id },
+      });
 
-    // Delete file from disk if it exists
-    if (invoice.invoiceUrl) {
-      const filePath = join(process.cwd(), "public", invoice.invoiceUrl);
-      if (existsSync(filePath)) {
-        await unlink(filePath);
+      if (invoice.storageKey) {
+        await FileUploadService.remove(invoice.storageKey);
       }
-    }
 
-    await db.subscriptionInvoice.delete({
-      where: { id },
-    });
-
-    return NextResponse.json({ message: "Invoice deleted successfully" });
-  } catch (error) {
-    console.error("Error deleting invoice:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+      return NextResponse.json({ message: "Invoice deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting invoice:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
 }
\ No newline at end of file
@@ -0,0 +1,86 @@
+// ABOUTME: API endpoint for a single in-app notification
+// ABOUTME: Handles PATCH for read/unread state and DELETE for dismissing a notification
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { notificationSchemas } from "@/lib/validation";
+import { NotificationService } from "@/lib/notifications";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+      const body = await req.json();
+      const validatedData = notificationSchemas.update.parse(body);
+
+      // Scoped to the signed-in user so nobody can touch another user's notifications
+      const updated = await NotificationService.setReadState(req.user.id, id, validatedData.read);
+
+      if (!updated) {
+        return NextResponse.json(
+          { error: "Notification not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        message: "Notification updated successfully",
+      });
+    } catch (error) {
+      console.error("Notification update error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+    enableRateLimit: true,
+  });
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+
+      const deleted = await NotificationService.deleteForUser(req.user.id, id);
+
+      if (!deleted) {
+        return NextResponse.json(
+          { error: "Notification not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        message: "Notification deleted successfully",
+      });
+    } catch (error) {
+      console.error("Notification deletion error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+    enableRateLimit: true,
+  });
+}
@@ -0,0 +1,67 @@
+// ABOUTME: API endpoint for the signed-in user's notification preferences
+// ABOUTME: Handles GET and PUT of the delivery channel chosen for each notification event
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { notificationSchemas } from "@/lib/validation";
+import { NotificationPreferenceService } from "@/lib/notification-preferences";
+
+export async function GET(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const [preferences, emailEnabled] = await Promise.all([
+        NotificationPreferenceService.getPreferences(req.user.id),
+        NotificationPreferenceService.isEmailEnabled(),
+      ]);
+
+      return NextResponse.json({ preferences, emailEnabled });
+    } catch (error) {
+      console.error("Notification preferences fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+    enableRateLimit: true,
+  });
+}
+
+export async function PUT(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const validatedData = notificationSchemas.preferences.parse(body);
+
+      const preferences = await NotificationPreferenceService.updatePreferences(
+        req.user.id,
+        validatedData
+      );
+
+      return NextResponse.json({
+        message: "Notification preferences updated successfully",
+        preferences,
+      });
+    } catch (error) {
+      console.error("Notification preferences update error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+    enableRateLimit: true,
+  });
+}
@@ -0,0 +1,29 @@
+// ABOUTME: API endpoint for marking all of the user's notifications as read
+// ABOUTME: Handles POST requests from the notification bell's mark-all-read action
+
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { NotificationService } from "@/lib/notifications";
+
+export async function POST(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const updated = await NotificationService.markAllAsRead(req.user.id);
+
+      return NextResponse.json({
+        message: "All notifications marked as read",
+        updated,
+      });
+    } catch (error) {
+      console.error("Mark all notifications read error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+    enableRateLimit: true,
+  });
+}
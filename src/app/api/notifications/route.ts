@@ -0,0 +1,59 @@
+// ABOUTME: API endpoint for the signed-in user's in-app notifications
+// ABOUTME: Handles GET for paginated notification listing with the unread count
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { notificationSchemas } from "@/lib/validation";
+import { NotificationService } from "@/lib/notifications";
+
+export async function GET(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+      const { searchParams } = new URL(req.url);
+
+      const validatedParams = notificationSchemas.list.parse({
+        page: searchParams.get("page") || undefined,
+        limit: searchParams.get("limit") || undefined,
+        unread: searchParams.get("unread") || undefined,
+      });
+
+      // Maintenance and renewal reminders are date-driven, so raise any that became due before listing
+      if (validatedParams.page === 1) {
+        try {
+          await NotificationService.notifyMaintenanceDue({ userId: user.id });
+          await NotificationService.notifyRenewalsDue({ userId: user.id });
+        } catch (reminderError) {
+          console.error('Failed to create reminders:', reminderError);
+        }
+      }
+
+      const result = await NotificationService.listForUser(user.id, {
+        page: validatedParams.page,
+        limit: validatedParams.limit,
+        unreadOnly: validatedParams.unread === "true",
+      });
+
+      return NextResponse.json(result);
+    } catch (error) {
+      console.error("Notifications fetch error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid query parameters", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+    enableRateLimit: true,
+  });
+}
@@ -0,0 +1,45 @@
+// ABOUTME: Original invoice document endpoint
+// ABOUTME: Redirects to a short-lived link to the stored PDF or image behind an invoice, inline for review or as a download
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withSecurity, type AuthenticatedRequest } from '@/lib/security-middleware';
+import { authorizeResource, policies, resourcePolicies } from '@/lib/authorization';
+import { InvoiceDocumentService } from '@/lib/invoice-documents';
+import { FileUploadService } from '@/lib/file-uploads';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+      const { id } = await params;
+
+      const document = await InvoiceDocumentService.get(id);
+
+      if (!document) {
+        return NextResponse.json({ error: 'Invoice document not found' }, { status: 404 });
+      }
+
+      // The uploader and whoever saved the invoice see the original; team leads and admins see all
+      const isProcessor = document.invoice?.processedBy === user.id;
+      if (!isProcessor && !(await authorizeResource(user, resourcePolicies.ownerOrManager, document.uploadedById))) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+      }
+
+      const download = new URL(req.url).searchParams.get('download') === '1';
+      const url = await FileUploadService.downloadUrl(document, { download });
+
+      return NextResponse.redirect(new URL(url, req.url));
+    } catch (error) {
+      console.error('Error reading invoice document:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+  });
+}
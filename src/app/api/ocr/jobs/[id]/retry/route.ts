@@ -0,0 +1,62 @@
+// ABOUTME: Retries failed files of an OCR job
+// ABOUTME: Queues them again from the stored originals, so nothing has to be uploaded twice
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { withSecurity, type AuthenticatedRequest } from '@/lib/security-middleware';
+import { authorizeResource, policies, resourcePolicies } from '@/lib/authorization';
+import { OcrJobService, summarizeJob } from '@/lib/ocr-jobs';
+import { z } from 'zod';
+
+const retrySchema = z.object({
+  // Every failed file when omitted
+  fileIds: z.array(z.string()).min(1).optional(),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+      const { id } = await params;
+      const { fileIds } = retrySchema.parse(await req.json().catch(() => ({})));
+
+      const job = await OcrJobService.get(id);
+
+      if (!job) {
+        return NextResponse.json({ error: 'OCR job not found' }, { status: 404 });
+      }
+
+      if (!(await authorizeResource(user, resourcePolicies.ownerOrManager, job.createdById))) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+      }
+
+      const retried = await OcrJobService.retry(job.id, fileIds);
+
+      if (retried === 0) {
+        return NextResponse.json({ error: 'No failed files to retry' }, { status: 400 });
+      }
+
+      after(() => OcrJobService.processDue({ jobId: job.id }));
+
+      const updated = await OcrJobService.get(job.id);
+      return NextResponse.json({ retried, job: updated ? summarizeJob(updated) : null }, { status: 202 });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      console.error('Error retrying OCR job:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+  });
+}
@@ -0,0 +1,47 @@
+// ABOUTME: OCR job progress endpoint, polled by the upload screen
+// ABOUTME: Returns per-file status and results, and restarts processing of files whose retry is due
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { withSecurity, type AuthenticatedRequest } from '@/lib/security-middleware';
+import { authorizeResource, policies, resourcePolicies } from '@/lib/authorization';
+import { OcrJobService, summarizeJob } from '@/lib/ocr-jobs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
+      const { id } = await params;
+
+      const job = await OcrJobService.get(id);
+
+      if (!job) {
+        return NextResponse.json({ error: 'OCR job not found' }, { status: 404 });
+      }
+
+      if (!(await authorizeResource(user, resourcePolicies.ownerOrManager, job.createdById))) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+      }
+
+      // While someone is watching, keep the batch moving; one worker per job at a time
+      const summary = summarizeJob(job);
+      if (summary.progress.remaining > 0 && !summary.files.some((file) => file.status === 'processing')) {
+        after(() => OcrJobService.processDue({ jobId: job.id }));
+      }
+
+      return NextResponse.json({ job: summary });
+    } catch (error) {
+      console.error('Error reading OCR job:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+    // Polled every few seconds and does not call the model itself
+    rateLimitGroup: 'general',
+  });
+}
@@ -0,0 +1,27 @@
+// ABOUTME: Lists the signed-in user's recent OCR jobs
+// ABOUTME: Lets the upload screen pick up a batch that is still running after a reload
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withSecurity, type AuthenticatedRequest } from '@/lib/security-middleware';
+import { policies } from '@/lib/authorization';
+import { OcrJobService, summarizeJob } from '@/lib/ocr-jobs';
+
+export async function GET(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const jobs = await OcrJobService.list(req.user.id);
+
+      return NextResponse.json({ jobs: jobs.map(summarizeJob) });
+    } catch (error) {
+      console.error('Error listing OCR jobs:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+    // Reading progress does not call the model, so it does not count against the OCR limit
+    rateLimitGroup: 'general',
+  });
+}
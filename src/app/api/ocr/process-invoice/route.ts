@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
+import { withSecurity, type AuthenticatedRequest } from '@/lib/security-middleware';
+import { policies } from '@/lib/authorization';
 import { geminiOCRService } from '@/lib/gemini-ocr';
 import { prisma } from '@/lib/prisma';
+import { DepreciationService } from '@/lib/depreciation';
+import { PurchaseOrderError, PurchaseOrderService } from '@/lib/purchase-orders';
+import { VendorProfileService } from '@/lib/vendor-profiles';
+import { InvoiceDocumentError, InvoiceDocumentService, invoiceDocumentSelect } from '@/lib/invoice-documents';
 import { z } from 'zod';
 
 const InvoiceProcessingSchema = z.object({
@@ -43,242 +48,304 @@ const InvoiceProcessingSchema = z.object({
   createEquipment: z.boolean().default(true),
   createSubscriptions: z.boolean().default(true),
   saveAsDraft: z.boolean().default(false),
+  // Purchase order the invoice bills; its received goods get linked instead of new equipment being created
+  purchaseOrderId: z.string().optional(),
+  // Stored original returned by /api/ocr, attached to the saved invoice
+  documentId: z.string().optional(),
 });
 
 export async function POST(request: NextRequest) {
-  try {
-    const session = await auth();
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
 
-    const body = await request.json();
-    const validatedData = InvoiceProcessingSchema.safeParse(body);
-    
-    if (!validatedData.success) {
-      return NextResponse.json(
-        { error: 'Invalid input', details: validatedData.error },
-        { status: 400 }
-      );
-    }
+      const body = await req.json();
+      const validatedData = InvoiceProcessingSchema.safeParse(body);
 
-    const { ocrData, createEquipment, createSubscriptions, saveAsDraft } = validatedData.data;
+      if (!validatedData.success) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: validatedData.error },
+          { status: 400 }
+        );
+      }
 
-    // Validate extracted data
-    const validation = await geminiOCRService.validateExtractedData(ocrData);
-    
-    if (!validation.valid && !saveAsDraft) {
-      return NextResponse.json({
-        success: false,
-        validation,
-        error: 'Validation failed',
-      }, { status: 400 });
-    }
+      const { ocrData, createEquipment, createSubscriptions, saveAsDraft, purchaseOrderId, documentId } = validatedData.data;
 
-    // Generate equipment and subscription records if requested
-    let equipmentRecords: any[] = [];
-    let subscriptionRecords: any[] = [];
-    
-    if (createEquipment && (validation.valid || saveAsDraft) && ocrData.equipment?.length) {
-      equipmentRecords = await geminiOCRService.generateEquipmentFromOCR(ocrData);
-    }
-    
-    if (createSubscriptions && (validation.valid || saveAsDraft) && ocrData.subscriptions?.length) {
-      subscriptionRecords = await geminiOCRService.generateSubscriptionsFromOCR(ocrData);
-    }
+      if (purchaseOrderId) {
+        if (user.role !== 'admin') {
+          return NextResponse.json(
+            { error: 'Only admins can link invoices to purchase orders' },
+            { status: 403 }
+          );
+        }
 
-    // Save extracted data as draft or processed invoice
-    const invoiceRecord = await prisma.invoice.create({
-      data: {
-        vendor: ocrData.vendor || '',
-        invoiceNumber: ocrData.invoiceNumber || '',
-        invoiceDate: ocrData.date ? new Date(ocrData.date) : null,
-        amount: ocrData.amount || 0,
-        purchaseMethod: ocrData.purchaseMethod || 'Off-the-shelf',
-        depreciationPeriod: ocrData.depreciationPeriod || 24,
-        status: saveAsDraft ? 'draft' : 'processed',
-        confidence: ocrData.confidence || 0,
-        rawText: ocrData.rawText || '',
-        processedBy: session.user.id,
-        equipmentCount: ocrData.equipment?.length || 0,
-        validationErrors: validation.valid ? null : JSON.stringify({
-          errors: validation.errors,
-          warnings: []
-        }),
-      },
-    });
-
-    // Create equipment records if requested
-    let createdEquipment: any[] = [];
-    if (createEquipment && equipmentRecords.length > 0) {
-      createdEquipment = await Promise.all(
-        equipmentRecords.map(async (equipment) => {
-          return prisma.equipment.create({
-            data: {
-              ...equipment,
-              invoiceId: invoiceRecord.id,
-              createdBy: session.user.id,
-            },
-          });
-        })
-      );
+        const purchaseOrder = await PurchaseOrderService.get(purchaseOrderId);
 
-      // Log equipment creation
-      await prisma.activityLog.create({
-        data: {
-          userId: session.user.id,
-          action: 'EQUIPMENT_CREATED_FROM_OCR',
-          details: JSON.stringify({
-            invoiceId: invoiceRecord.id,
-            equipmentCount: createdEquipment.length,
-            vendor: ocrData.vendor,
-            totalAmount: ocrData.amount,
-            confidence: ocrData.confidence,
-          }),
-        },
+        if (!purchaseOrder) {
+          return NextResponse.json(
+            { error: 'Purchase order not found' },
+            { status: 404 }
+          );
+        }
+
+        // Checked before the invoice is saved, so a rejected link leaves nothing behind
+        if (purchaseOrder.status === 'cancelled') {
+          return NextResponse.json(
+            { error: 'Cannot link an invoice to a cancelled purchase order' },
+            { status: 409 }
+          );
+        }
+      }
+
+      // Validate extracted data
+      const validation = await geminiOCRService.validateExtractedData(ocrData);
+
+      if (!validation.valid && !saveAsDraft) {
+        return NextResponse.json({
+          success: false,
+          validation,
+          error: 'Validation failed',
+        }, { status: 400 });
+      }
+
+      // Generate equipment and subscription records if requested
+      let equipmentRecords: any[] = [];
+      let subscriptionRecords: any[] = [];
+
+      if (createEquipment && !purchaseOrderId && (validation.valid || saveAsDraft) && ocrData.equipment?.length) {
+        equipmentRecords = await geminiOCRService.generateEquipmentFromOCR(ocrData);
+      }
+
+      if (createSubscriptions && (validation.valid || saveAsDraft) && ocrData.subscriptions?.length) {
+        subscriptionRecords = await geminiOCRService.generateSubscriptionsFromOCR(ocrData);
+      }
+
+      // Save extracted data as draft or processed invoice, together with its original document
+      const invoiceRecord = await prisma.$transaction(async (tx) => {
+        const invoice = await tx.invoice.create({
+          data: {
+            vendor: ocrData.vendor || '',
+            invoiceNumber: ocrData.invoiceNumber || '',
+            invoiceDate: ocrData.date ? new Date(ocrData.date) : null,
+            amount: ocrData.amount || 0,
+            purchaseMethod: ocrData.purchaseMethod || 'Off-the-shelf',
+            depreciationPeriod:
+              ocrData.depreciationPeriod ||
+              geminiOCRService.getDefaultDepreciationPeriod(ocrData.equipment?.[0]?.name || ''),
+            status: saveAsDraft ? 'draft' : 'processed',
+            confidence: ocrData.confidence || 0,
+            rawText: ocrData.rawText || '',
+            processedBy: user.id,
+            equipmentCount: ocrData.equipment?.length || 0,
+            validationErrors: validation.valid ? null : JSON.stringify({
+              errors: validation.errors,
+              warnings: []
+            }),
+          },
+        });
+
+        if (documentId) {
+          await InvoiceDocumentService.attach(documentId, invoice.id, user, tx);
+        }
+
+        return invoice;
       });
-    }
 
-    // Create subscription records if requested
-    let createdSubscriptions: any[] = [];
-    if (createSubscriptions && subscriptionRecords.length > 0) {
-      createdSubscriptions = await Promise.all(
-        subscriptionRecords.map(async (subscription) => {
-          const { _ocrData, ...subscriptionData } = subscription;
-          return prisma.subscription.create({
-            data: {
-              ...subscriptionData,
-              assignedUserId: session.user.id, // Default to processor, can be changed later
-            },
-          });
-        })
-      );
+      if (purchaseOrderId) {
+        await PurchaseOrderService.linkInvoice(purchaseOrderId, invoiceRecord.id);
+      }
 
-      // Log subscription creation
+      // Remember the reviewer's corrections for the vendor's next invoice; the invoice is saved either way
+      if (documentId) {
+        await VendorProfileService.learnFromReview(documentId, ocrData, user.id).catch((error) => {
+          console.error('Failed to learn vendor corrections:', error);
+        });
+      }
+
+      // Create equipment records if requested
+      let createdEquipment: any[] = [];
+      if (createEquipment && equipmentRecords.length > 0) {
+        createdEquipment = await Promise.all(
+          equipmentRecords.map(async (equipment) => {
+            return prisma.equipment.create({
+              data: {
+                ...equipment,
+                invoiceId: invoiceRecord.id,
+                createdBy: user.id,
+              },
+            });
+          })
+        );
+
+        await DepreciationService.refreshCurrentValues({ invoiceId: invoiceRecord.id });
+
+        // Log equipment creation
+        await prisma.activityLog.create({
+          data: {
+            userId: user.id,
+            action: 'EQUIPMENT_CREATED_FROM_OCR',
+            details: JSON.stringify({
+              invoiceId: invoiceRecord.id,
+              equipmentCount: createdEquipment.length,
+              vendor: ocrData.vendor,
+              totalAmount: ocrData.amount,
+              confidence: ocrData.confidence,
+            }),
+          },
+        });
+      }
+
+      // Create subscription records if requested
+      let createdSubscriptions: any[] = [];
+      if (createSubscriptions && subscriptionRecords.length > 0) {
+        createdSubscriptions = await Promise.all(
+          subscriptionRecords.map(async (subscription) => {
+            const { _ocrData, ...subscriptionData } = subscription;
+            return prisma.subscription.create({
+              data: {
+                ...subscriptionData,
+                assignedUserId: user.id, // Default to processor, can be changed later
+              },
+            });
+          })
+        );
+
+        // Log subscription creation
+        await prisma.activityLog.create({
+          data: {
+            userId: user.id,
+            action: 'SUBSCRIPTION_CREATED_FROM_OCR',
+            details: JSON.stringify({
+              invoiceId: invoiceRecord.id,
+              subscriptionCount: createdSubscriptions.length,
+              vendor: ocrData.vendor,
+              totalAmount: ocrData.amount,
+              confidence: ocrData.confidence,
+            }),
+          },
+        });
+      }
+
+      // Return response with created records
+      if (createdEquipment.length > 0 || createdSubscriptions.length > 0) {
+        return NextResponse.json({
+          success: true,
+          invoice: invoiceRecord,
+          equipment: createdEquipment,
+          subscriptions: createdSubscriptions,
+          validation,
+          message: saveAsDraft ? 'Invoice saved as draft' : 
+            `Successfully processed invoice and created ${createdEquipment.length} equipment and ${createdSubscriptions.length} subscription records`,
+        });
+      }
+
+      // Log invoice processing
       await prisma.activityLog.create({
         data: {
-          userId: session.user.id,
-          action: 'SUBSCRIPTION_CREATED_FROM_OCR',
+          userId: user.id,
+          action: saveAsDraft ? 'INVOICE_DRAFT_CREATED' : 'INVOICE_PROCESSED',
           details: JSON.stringify({
             invoiceId: invoiceRecord.id,
-            subscriptionCount: createdSubscriptions.length,
             vendor: ocrData.vendor,
-            totalAmount: ocrData.amount,
+            amount: ocrData.amount,
             confidence: ocrData.confidence,
+            validationErrors: validation.errors,
+            validationWarnings: [],
+            invoiceType: ocrData.invoiceType,
           }),
         },
       });
-    }
 
-    // Return response with created records
-    if (createdEquipment.length > 0 || createdSubscriptions.length > 0) {
       return NextResponse.json({
         success: true,
         invoice: invoiceRecord,
-        equipment: createdEquipment,
-        subscriptions: createdSubscriptions,
         validation,
-        message: saveAsDraft ? 'Invoice saved as draft' : 
-          `Successfully processed invoice and created ${createdEquipment.length} equipment and ${createdSubscriptions.length} subscription records`,
+        message: saveAsDraft ? 'Invoice saved as draft' : 'Invoice processed successfully',
       });
-    }
+    } catch (error) {
+      if (error instanceof InvoiceDocumentError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
 
-    // Log invoice processing
-    await prisma.activityLog.create({
-      data: {
-        userId: session.user.id,
-        action: saveAsDraft ? 'INVOICE_DRAFT_CREATED' : 'INVOICE_PROCESSED',
-        details: JSON.stringify({
-          invoiceId: invoiceRecord.id,
-          vendor: ocrData.vendor,
-          amount: ocrData.amount,
-          confidence: ocrData.confidence,
-          validationErrors: validation.errors,
-          validationWarnings: [],
-          invoiceType: ocrData.invoiceType,
-        }),
-      },
-    });
-
-    return NextResponse.json({
-      success: true,
-      invoice: invoiceRecord,
-      validation,
-      message: saveAsDraft ? 'Invoice saved as draft' : 'Invoice processed successfully',
-    });
-  } catch (error) {
-    console.error('Invoice processing error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
+      if (error instanceof PurchaseOrderError) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+
+      console.error('Invoice processing error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+  });
 }
 
 export async function GET(request: NextRequest) {
-  try {
-    const session = await auth();
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = new URL(req.url);
+      const page = parseInt(searchParams.get('page') || '1');
+      const limit = parseInt(searchParams.get('limit') || '10');
+      const status = searchParams.get('status');
+      const vendor = searchParams.get('vendor');
+
+      const skip = (page - 1) * limit;
+
+      const where: any = {};
+      if (status) where.status = status;
+      if (vendor) where.vendor = { contains: vendor, mode: 'insensitive' };
 
-    const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '10');
-    const status = searchParams.get('status');
-    const vendor = searchParams.get('vendor');
-
-    const skip = (page - 1) * limit;
-
-    const where: any = {};
-    if (status) where.status = status;
-    if (vendor) where.vendor = { contains: vendor, mode: 'insensitive' };
-
-    const [invoices, total] = await Promise.all([
-      prisma.invoice.findMany({
-        where,
-        include: {
-          processedByUser: {
-            select: {
-              name: true,
-              email: true,
+      const [invoices, total] = await Promise.all([
+        prisma.invoice.findMany({
+          where,
+          include: {
+            processedByUser: {
+              select: {
+                name: true,
+                email: true,
+              },
             },
-          },
-          equipment: {
-            select: {
-              id: true,
-              name: true,
-              status: true,
-              serialNumber: true,
+            equipment: {
+              select: {
+                id: true,
+                name: true,
+                status: true,
+                serialNumber: true,
+              },
+            },
+            document: {
+              select: invoiceDocumentSelect,
             },
           },
+          orderBy: {
+            createdAt: 'desc',
+          },
+          skip,
+          take: limit,
+        }),
+        prisma.invoice.count({ where }),
+      ]);
+
+      return NextResponse.json({
+        success: true,
+        invoices,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
         },
-        orderBy: {
-          createdAt: 'desc',
-        },
-        skip,
-        take: limit,
-      }),
-      prisma.invoice.count({ where }),
-    ]);
-
-    return NextResponse.json({
-      success: true,
-      invoices,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
-    });
-  } catch (error) {
-    console.error('Failed to fetch invoices:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
+      });
+    } catch (error) {
+      console.error('Failed to fetch invoices:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+  });
 }
\ No newline at end of file
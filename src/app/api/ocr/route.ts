@@ -1,6 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
+// ABOUTME: OCR upload endpoint and processing statistics
+// ABOUTME: Queues uploaded invoices as an OCR job and returns its id straight away; extraction runs in the background
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { withSecurity, type AuthenticatedRequest } from '@/lib/security-middleware';
+import { policies } from '@/lib/authorization';
 import { pdfProcessingService } from '@/lib/pdf-processing';
+import { FileUploadError } from '@/lib/file-uploads';
+import { OcrJobService, summarizeJob } from '@/lib/ocr-jobs';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
 
@@ -9,112 +15,90 @@ const OCRUploadSchema = z.object({
 });
 
 export async function POST(request: NextRequest) {
-  try {
-    const session = await auth();
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user;
 
-    const formData = await request.formData();
-    const files = formData.getAll('files') as File[];
+      const formData = await req.formData();
+      const files = formData.getAll('files') as File[];
 
-    // Validate input
-    const validatedData = OCRUploadSchema.safeParse({ files });
-    if (!validatedData.success) {
-      return NextResponse.json(
-        { error: 'Invalid input', details: validatedData.error },
-        { status: 400 }
-      );
-    }
+      // Validate input
+      const validatedData = OCRUploadSchema.safeParse({ files });
+      if (!validatedData.success) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: validatedData.error },
+          { status: 400 }
+        );
+      }
 
-    // Initialize processing service
-    await pdfProcessingService.initialize();
+      const uploads = await Promise.all(
+        files.map(async (file) => ({
+          body: Buffer.from(await file.arrayBuffer()),
+          fileName: file.name,
+        }))
+      );
 
-    // Process files
-    const fileBuffers = await Promise.all(
-      files.map(async (file) => ({
-        buffer: Buffer.from(await file.arrayBuffer()),
-        filename: file.name,
-        mimetype: file.type,
-      }))
-    );
+      // Originals are kept for audit, read back by the worker and attached to the invoice once it is saved
+      const job = await OcrJobService.create(uploads, user.id);
 
-    const results = await pdfProcessingService.processMultipleFiles(fileBuffers);
+      // Start on the batch once the response is sent; polling and the ocr:work job pick up retries
+      after(() => OcrJobService.processDue({ jobId: job.id }));
 
-    // Log processing activity
-    await prisma.activityLog.create({
-      data: {
-        userId: session.user.id,
-        action: 'OCR_PROCESSING',
-        details: JSON.stringify({
-          filesProcessed: results.length,
-          successful: results.filter(r => r.success).length,
-          failed: results.filter(r => !r.success).length,
-          totalProcessingTime: results.reduce((sum, r) => sum + r.processingTime, 0),
-        }),
-      },
-    });
+      return NextResponse.json({ success: true, job: summarizeJob(job) }, { status: 202 });
+    } catch (error) {
+      if (error instanceof FileUploadError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
 
-    return NextResponse.json({
-      success: true,
-      results,
-      summary: {
-        total: results.length,
-        successful: results.filter(r => r.success).length,
-        failed: results.filter(r => !r.success).length,
-        averageProcessingTime: results.reduce((sum, r) => sum + r.processingTime, 0) / results.length,
-      },
-    });
-  } catch (error) {
-    console.error('OCR processing error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
+      console.error('OCR upload error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+  });
 }
 
 export async function GET(request: NextRequest) {
-  try {
-    const session = await auth();
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+  return withSecurity(request, async () => {
+    try {
+      // Get processing statistics
+      const stats = await pdfProcessingService.getProcessingStats();
 
-    // Get processing statistics
-    const stats = await pdfProcessingService.getProcessingStats();
-
-    // Get recent OCR processing history
-    const recentActivity = await prisma.activityLog.findMany({
-      where: {
-        action: 'OCR_PROCESSING',
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
-      take: 10,
-      include: {
-        user: {
-          select: {
-            name: true,
-            email: true,
+      // Get recent OCR processing history
+      const recentActivity = await prisma.activityLog.findMany({
+        where: {
+          action: 'OCR_PROCESSING',
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+        take: 10,
+        include: {
+          user: {
+            select: {
+              name: true,
+              email: true,
+            },
           },
         },
-      },
-    });
+      });
 
-    return NextResponse.json({
-      success: true,
-      stats,
-      recentActivity,
-    });
-  } catch (error) {
-    console.error('Failed to get OCR stats:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
+      return NextResponse.json({
+        success: true,
+        stats,
+        recentActivity,
+      });
+    } catch (error) {
+      console.error('Failed to get OCR stats:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+  });
 }
\ No newline at end of file
@@ -0,0 +1,34 @@
+// ABOUTME: Forgets what invoice OCR learned about one vendor
+// ABOUTME: Later invoices from the vendor are extracted without its corrections until reviewers teach them again
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withSecurity } from '@/lib/security-middleware';
+import { policies } from '@/lib/authorization';
+import { VendorProfileService } from '@/lib/vendor-profiles';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async () => {
+    try {
+      const { id } = await params;
+
+      const profile = await VendorProfileService.remove(id);
+
+      if (!profile) {
+        return NextResponse.json({ error: 'Vendor profile not found' }, { status: 404 });
+      }
+
+      return NextResponse.json({ message: 'Vendor profile deleted' });
+    } catch (error) {
+      console.error('Error deleting vendor profile:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
+}
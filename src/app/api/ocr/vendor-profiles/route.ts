@@ -0,0 +1,33 @@
+// ABOUTME: Lists what invoice OCR has learned about each vendor from reviewers' corrections
+// ABOUTME: Shows the vendor aliases, field corrections, item categories and serial number location applied to new invoices
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withSecurity } from '@/lib/security-middleware';
+import { policies } from '@/lib/authorization';
+import { VendorProfileService, parseVendorProfile } from '@/lib/vendor-profiles';
+
+export async function GET(request: NextRequest) {
+  return withSecurity(request, async () => {
+    try {
+      const profiles = await VendorProfileService.list();
+
+      return NextResponse.json({
+        profiles: profiles.map((profile) => ({
+          id: profile.id,
+          reviewsLearned: profile.reviewsLearned,
+          updatedAt: profile.updatedAt,
+          updatedBy: profile.updatedBy,
+          ...parseVendorProfile(profile),
+        })),
+      });
+    } catch (error) {
+      console.error('Error listing vendor profiles:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageEquipment,
+  });
+}
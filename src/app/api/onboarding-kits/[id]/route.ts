@@ -0,0 +1,81 @@
+// ABOUTME: API endpoint for a single onboarding kit
+// ABOUTME: Updates a kit's details and items or deletes it; requests already spawned keep their line items
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { onboardingKitSchemas } from "@/lib/validation";
+import { OnboardingKitService, OnboardingKitError } from "@/lib/onboarding-kits";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+      const body = await req.json();
+      const data = onboardingKitSchemas.kit.parse(body);
+
+      const kit = await OnboardingKitService.update(id, data);
+
+      if (!kit) {
+        return NextResponse.json({ error: "Onboarding kit not found" }, { status: 404 });
+      }
+
+      return NextResponse.json({
+        message: "Onboarding kit updated",
+        kit,
+      });
+    } catch (error) {
+      console.error("Onboarding kit update error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof OnboardingKitError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withSecurity(request, async () => {
+    try {
+      const { id } = await params;
+
+      const kit = await OnboardingKitService.delete(id);
+
+      if (!kit) {
+        return NextResponse.json({ error: "Onboarding kit not found" }, { status: 404 });
+      }
+
+      return NextResponse.json({ message: "Onboarding kit deleted" });
+    } catch (error) {
+      console.error("Onboarding kit deletion error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
+}
@@ -0,0 +1,76 @@
+// ABOUTME: API endpoint for onboarding kits
+// ABOUTME: Lists kits, optionally those suited to a team and role, and creates new kits
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { onboardingKitSchemas } from "@/lib/validation";
+import { OnboardingKitService, OnboardingKitError } from "@/lib/onboarding-kits";
+
+export async function GET(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = new URL(req.url);
+
+      // With a team or role, only the active kits that suit them, most specific first
+      if (searchParams.has("teamId") || searchParams.has("role")) {
+        const kits = await OnboardingKitService.matching(
+          searchParams.get("teamId") || null,
+          searchParams.get("role") || null
+        );
+        return NextResponse.json({ kits });
+      }
+
+      const kits = await OnboardingKitService.list(searchParams.get("active") === "true");
+      return NextResponse.json({ kits });
+    } catch (error) {
+      console.error("Onboarding kits fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const data = onboardingKitSchemas.kit.parse(body);
+
+      const kit = await OnboardingKitService.create(data, req.user.id);
+
+      return NextResponse.json({
+        message: "Onboarding kit created",
+        kit,
+      }, { status: 201 });
+    } catch (error) {
+      console.error("Onboarding kit creation error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof OnboardingKitError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
+}
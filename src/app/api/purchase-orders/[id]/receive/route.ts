@@ -0,0 +1,59 @@
+// ABOUTME: API endpoint for receiving goods against a purchase order
+// ABOUTME: Creates one equipment item per serial number received and moves the order towards received
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { purchaseOrderSchemas } from "@/lib/validation";
+import { PurchaseOrderService, PurchaseOrderError } from "@/lib/purchase-orders";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+      const body = await req.json();
+      const data = purchaseOrderSchemas.receive.parse(body);
+
+      const result = await PurchaseOrderService.receive(id, data, req.user.id);
+
+      if (!result) {
+        return NextResponse.json(
+          { error: "Purchase order not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        message: `Received ${result.equipment.length} item${result.equipment.length === 1 ? "" : "s"}`,
+        ...result,
+      });
+    } catch (error) {
+      console.error("Purchase order receive error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof PurchaseOrderError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
+}
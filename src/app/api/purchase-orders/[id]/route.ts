@@ -0,0 +1,128 @@
+// ABOUTME: API endpoint for a single purchase order
+// ABOUTME: Shows an order with its lines and received equipment, updates delivery details or the invoice, and cancels it
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { purchaseOrderSchemas } from "@/lib/validation";
+import { PurchaseOrderService, PurchaseOrderError } from "@/lib/purchase-orders";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async () => {
+    try {
+      const { id } = await params;
+      const purchaseOrder = await PurchaseOrderService.get(id);
+
+      if (!purchaseOrder) {
+        return NextResponse.json(
+          { error: "Purchase order not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ purchaseOrder });
+    } catch (error) {
+      console.error("Purchase order fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+      const body = await req.json();
+      const data = purchaseOrderSchemas.update.parse(body);
+
+      const purchaseOrder = await PurchaseOrderService.update(id, data);
+
+      if (!purchaseOrder) {
+        return NextResponse.json(
+          { error: "Purchase order not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        message: "Purchase order updated",
+        purchaseOrder,
+      });
+    } catch (error) {
+      console.error("Purchase order update error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof PurchaseOrderError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+      const purchaseOrder = await PurchaseOrderService.cancel(id, req.user.id);
+
+      if (!purchaseOrder) {
+        return NextResponse.json(
+          { error: "Purchase order not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        message: "Purchase order cancelled",
+        purchaseOrder,
+      });
+    } catch (error) {
+      console.error("Purchase order cancel error:", error);
+
+      if (error instanceof PurchaseOrderError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
+}
@@ -0,0 +1,76 @@
+// ABOUTME: API endpoint for purchase orders
+// ABOUTME: Lists purchase orders and places new orders with vendors for approved requests
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { purchaseOrderSchemas } from "@/lib/validation";
+import { PurchaseOrderService, PurchaseOrderError } from "@/lib/purchase-orders";
+
+export async function GET(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = new URL(req.url);
+      const parsed = purchaseOrderSchemas.list.safeParse(Object.fromEntries(searchParams.entries()));
+
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Invalid parameters", details: parsed.error.issues },
+          { status: 400 }
+        );
+      }
+
+      const result = await PurchaseOrderService.list(parsed.data);
+
+      return NextResponse.json(result);
+    } catch (error) {
+      console.error("Purchase orders fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const data = purchaseOrderSchemas.create.parse(body);
+
+      const purchaseOrder = await PurchaseOrderService.create(data, req.user.id);
+
+      return NextResponse.json({
+        message: "Purchase order placed",
+        purchaseOrder,
+      }, { status: 201 });
+    } catch (error) {
+      console.error("Purchase order creation error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof PurchaseOrderError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
+}
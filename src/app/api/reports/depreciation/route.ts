@@ -5,6 +5,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { ValidationHelper, reportSchemas } from '@/lib/validation';
 import { withSecurity } from '@/lib/security-middleware';
+import { policies } from '@/lib/authorization';
+import { SystemSettingsService } from '@/lib/system-settings';
+import { DepreciationService, summarizeValuations, type EquipmentValuation } from '@/lib/depreciation';
 
 interface DateFilter {
   gte?: Date;
@@ -57,190 +60,119 @@ export async function GET(request: NextRequest) {
         where.purchaseDate = dateFilter;
       }
 
-      // Get current date for age calculations
-      const currentDate = new Date();
-      const twoYearsAgo = new Date(currentDate.getFullYear() - 2, currentDate.getMonth(), currentDate.getDate());
+      // Value every item with the shared depreciation engine
+      const [valuations, depreciationPeriod] = await Promise.all([
+        DepreciationService.valueEquipment(where),
+        SystemSettingsService.get('defaultDepreciationPeriod'),
+      ]);
 
       // Detailed age-based depreciation analysis
       const ageGroups = [
-        { name: 'Under 6 months', maxAge: 6, rate: 0.0 },
-        { name: '6-12 months', minAge: 6, maxAge: 12, rate: 0.25 },
-        { name: '1-2 years', minAge: 12, maxAge: 24, rate: 0.5 },
-        { name: '2-3 years', minAge: 24, maxAge: 36, rate: 0.75 },
-        { name: '3-4 years', minAge: 36, maxAge: 48, rate: 0.875 },
-        { name: '4-5 years', minAge: 48, maxAge: 60, rate: 0.9375 },
-        { name: 'Over 5 years', minAge: 60, rate: 1.0 },
+        { name: 'Under 6 months', minAge: 0, maxAge: 6 },
+        { name: '6-12 months', minAge: 6, maxAge: 12 },
+        { name: '1-2 years', minAge: 12, maxAge: 24 },
+        { name: '2-3 years', minAge: 24, maxAge: 36 },
+        { name: '3-4 years', minAge: 36, maxAge: 48 },
+        { name: '4-5 years', minAge: 48, maxAge: 60 },
+        { name: 'Over 5 years', minAge: 60, maxAge: Infinity },
       ];
 
-      const depreciationByAge = await Promise.all(
-        ageGroups.map(async (group) => {
-          const dateFilter: Record<string, Date> = {};
-          const now = new Date();
-          
-          if (group.maxAge) {
-            const maxDate = new Date(now.getFullYear(), now.getMonth() - group.maxAge, now.getDate());
-            dateFilter.gte = maxDate;
-          }
-          
-          if (group.minAge) {
-            const minDate = new Date(now.getFullYear(), now.getMonth() - group.minAge, now.getDate());
-            dateFilter.lte = minDate;
-          } else {
-            // For "Under X months" group, we only need gte
-            if (!group.maxAge) {
-              dateFilter.lte = now;
-            }
-          }
-
-          const stats = await prisma.equipment.aggregate({
-            where: {
-              ...where,
-              purchaseDate: dateFilter,
-            },
-            _count: { id: true },
-            _sum: { purchasePrice: true },
-            _avg: { purchasePrice: true },
-          });
+      const byAgeGroup = (items: EquipmentValuation[]) =>
+        ageGroups.map((group) => {
+          const inGroup = items.filter((v) => v.ageMonths >= group.minAge && v.ageMonths < group.maxAge);
+          return { ageRange: group.name, totals: summarizeValuations(inGroup) };
+        });
+
+      const depreciationByAge = byAgeGroup(valuations).map(({ ageRange, totals }) => ({
+        ageRange,
+        depreciationRate: totals.depreciationRate,
+        equipmentCount: totals.equipmentCount,
+        originalValue: totals.originalValue,
+        averageValue: totals.equipmentCount > 0 ? totals.originalValue / totals.equipmentCount : 0,
+        currentValue: totals.currentValue,
+        depreciatedValue: totals.depreciatedValue,
+      }));
 
-          return {
-            ageRange: group.name,
-            depreciationRate: group.rate,
-            equipmentCount: stats._count.id || 0,
-            originalValue: stats._sum.purchasePrice || 0,
-            averageValue: stats._avg.purchasePrice || 0,
-            currentValue: (stats._sum.purchasePrice || 0) * (1 - group.rate),
-            depreciatedValue: (stats._sum.purchasePrice || 0) * group.rate,
-          };
-        })
-      );
+      const groupBy = (key: (v: EquipmentValuation) => string) => {
+        const groups = new Map<string, EquipmentValuation[]>();
+        for (const valuation of valuations) {
+          groups.set(key(valuation), [...(groups.get(key(valuation)) ?? []), valuation]);
+        }
+        return Array.from(groups.entries());
+      };
 
       // Get depreciation by category
-      const categories = await prisma.equipment.groupBy({
-        by: ['category'],
-        where,
-        _count: { id: true },
-        _sum: { purchasePrice: true },
-      });
-
-      const depreciationByCategory = await Promise.all(
-        categories.map(async (category) => {
-          const categoryAgeAnalysis = await Promise.all(
-            ageGroups.map(async (group) => {
-              const dateFilter: Record<string, Date> = {};
-              const now = new Date();
-              
-              if (group.maxAge) {
-                const maxDate = new Date(now.getFullYear(), now.getMonth() - group.maxAge, now.getDate());
-                dateFilter.gte = maxDate;
-              }
-              
-              if (group.minAge) {
-                const minDate = new Date(now.getFullYear(), now.getMonth() - group.minAge, now.getDate());
-                dateFilter.lte = minDate;
-              } else if (!group.maxAge) {
-                dateFilter.lte = now;
-              }
-
-              const stats = await prisma.equipment.aggregate({
-                where: {
-                  ...where,
-                  category: category.category,
-                  purchaseDate: dateFilter,
-                },
-                _count: { id: true },
-                _sum: { purchasePrice: true },
-              });
-
-              return {
-                ageRange: group.name,
-                depreciationRate: group.rate,
-                equipmentCount: stats._count.id || 0,
-                originalValue: stats._sum.purchasePrice || 0,
-                currentValue: (stats._sum.purchasePrice || 0) * (1 - group.rate),
-              };
-            })
-          );
-
-          const categoryTotal = categoryAgeAnalysis.reduce((acc, age) => ({
-            equipmentCount: acc.equipmentCount + age.equipmentCount,
-            originalValue: acc.originalValue + age.originalValue,
-            currentValue: acc.currentValue + age.currentValue,
-          }), { equipmentCount: 0, originalValue: 0, currentValue: 0 });
-
-          return {
-            category: category.category,
-            totalEquipment: category._count.id,
-            totalOriginalValue: category._sum.purchasePrice || 0,
-            depreciatedValue: categoryTotal.originalValue - categoryTotal.currentValue,
-            currentValue: categoryTotal.currentValue,
-            depreciationRate: categoryTotal.originalValue > 0 
-              ? (categoryTotal.originalValue - categoryTotal.currentValue) / categoryTotal.originalValue 
-              : 0,
-            ageBreakdown: categoryAgeAnalysis,
-          };
-        })
-      );
-
-      // Get purchase method analysis
-      const purchaseMethodAnalysis = await prisma.equipment.groupBy({
-        by: ['purchaseMethod'],
-        where,
-        _count: { id: true },
-        _sum: { purchasePrice: true },
+      const depreciationByCategory = groupBy((v) => v.equipment.category).map(([category, items]) => {
+        const totals = summarizeValuations(items);
+        return {
+          category,
+          totalEquipment: totals.equipmentCount,
+          totalOriginalValue: totals.originalValue,
+          depreciatedValue: totals.depreciatedValue,
+          writtenOffValue: totals.writtenOffValue,
+          currentValue: totals.currentValue,
+          depreciationRate: totals.depreciationRate,
+          ageBreakdown: byAgeGroup(items).map(({ ageRange, totals: group }) => ({
+            ageRange,
+            depreciationRate: group.depreciationRate,
+            equipmentCount: group.equipmentCount,
+            originalValue: group.originalValue,
+            currentValue: group.currentValue,
+          })),
+        };
       });
 
-      const purchaseMethodDepreciation = await Promise.all(
-        purchaseMethodAnalysis.map(async (method) => {
-          const methodDepreciation = await prisma.equipment.aggregate({
-            where: {
-              ...where,
-              purchaseMethod: method.purchaseMethod,
-              purchaseDate: { lte: twoYearsAgo },
-            },
-            _count: { id: true },
-            _sum: { purchasePrice: true },
-          });
-
+      // Get purchase method analysis; depreciated items are those fully written off
+      const purchaseMethodDepreciation = groupBy((v) => v.equipment.purchaseMethod).map(
+        ([purchaseMethod, items]) => {
+          const totals = summarizeValuations(items);
+          const fullyDepreciated = items.filter((v) => v.fullyDepreciated).length;
           return {
-            purchaseMethod: method.purchaseMethod,
-            totalEquipment: method._count.id,
-            totalValue: method._sum.purchasePrice || 0,
-            depreciatedEquipment: methodDepreciation._count.id || 0,
-            depreciatedValue: methodDepreciation._sum.purchasePrice || 0,
-            depreciationPercentage: method._count.id > 0 
-              ? ((methodDepreciation._count.id || 0) / method._count.id) * 100 
-              : 0,
+            purchaseMethod,
+            totalEquipment: totals.equipmentCount,
+            totalValue: totals.originalValue,
+            depreciatedEquipment: fullyDepreciated,
+            depreciatedValue: totals.depreciatedValue,
+            depreciationPercentage: (fullyDepreciated / totals.equipmentCount) * 100,
           };
-        })
+        }
       );
 
       // Calculate overall summary
-      const overallSummary = depreciationByAge.reduce((acc, age) => ({
-        totalEquipment: acc.totalEquipment + age.equipmentCount,
-        totalOriginalValue: acc.totalOriginalValue + age.originalValue,
-        totalCurrentValue: acc.totalCurrentValue + age.currentValue,
-        totalDepreciatedValue: acc.totalDepreciatedValue + age.depreciatedValue,
-      }), { totalEquipment: 0, totalOriginalValue: 0, totalCurrentValue: 0, totalDepreciatedValue: 0 });
+      const overallSummary = summarizeValuations(valuations);
+
+      // Approved disposals: book value written off on the disposal date, less what the item fetched
+      const disposed = valuations.filter((v) => v.disposal);
+      const summarizeDisposals = (items: EquipmentValuation[]) => {
+        const writtenOffValue = items.reduce((sum, v) => sum + v.writtenOffValue, 0);
+        const saleProceeds = items.reduce((sum, v) => sum + (v.disposal?.saleProceeds ?? 0), 0);
+        return {
+          equipmentCount: items.length,
+          writtenOffValue: Math.round(writtenOffValue * 100) / 100,
+          saleProceeds: Math.round(saleProceeds * 100) / 100,
+          netWriteOff: Math.round((writtenOffValue - saleProceeds) * 100) / 100,
+        };
+      };
+      const disposalReasons = Array.from(new Set(disposed.flatMap((v) => (v.disposal ? [v.disposal.reason] : []))));
+
+      const disposals = {
+        ...summarizeDisposals(disposed),
+        byReason: disposalReasons.map((reason) => ({
+          reason,
+          ...summarizeDisposals(disposed.filter((v) => v.disposal?.reason === reason)),
+        })),
+      };
 
-      const averageDepreciationRate = overallSummary.totalOriginalValue > 0 
-        ? overallSummary.totalDepreciatedValue / overallSummary.totalOriginalValue 
-        : 0;
+      // Get equipment nearing full depreciation (past 90% of its own useful life), leaving out disposed items
+      const nearingFullDepreciation = valuations
+        .filter((v) => !v.disposal && v.purchasePrice > 0 && v.ageMonths >= v.policy.usefulLifeMonths * 0.9)
+        .sort((a, b) => a.equipment.purchaseDate.getTime() - b.equipment.purchaseDate.getTime())
+        .slice(0, 20);
 
-      // Get equipment nearing full depreciation (older than 4.5 years)
-      const nearingFullDepreciation = await prisma.equipment.findMany({
-        where: {
-          ...where,
-          purchaseDate: { lte: new Date(currentDate.getFullYear() - 4.5, currentDate.getMonth(), currentDate.getDate()) },
-          purchasePrice: { gt: 0 },
-        },
+      const owners = await prisma.equipment.findMany({
+        where: { id: { in: nearingFullDepreciation.map((v) => v.equipment.id) } },
         select: {
           id: true,
-          name: true,
-          serialNumber: true,
-          purchaseDate: true,
-          purchasePrice: true,
-          category: true,
-          status: true,
           currentOwner: {
             select: {
               id: true,
@@ -249,31 +181,39 @@ export async function GET(request: NextRequest) {
             },
           },
         },
-        orderBy: {
-          purchaseDate: 'asc',
-        },
-        take: 20,
       });
+      const ownersById = new Map(owners.map((item) => [item.id, item.currentOwner]));
 
       // Format dates for response
-      const formattedEquipment = nearingFullDepreciation.map(item => ({
-        ...item,
-        purchaseDate: item.purchaseDate.toISOString().split('T')[0],
-        currentValue: (item.purchasePrice || 0) * 0.1, // 90% depreciated
+      const formattedEquipment = nearingFullDepreciation.map(({ equipment, bookValue, policy }) => ({
+        id: equipment.id,
+        name: equipment.name,
+        serialNumber: equipment.serialNumber,
+        purchaseDate: equipment.purchaseDate.toISOString().split('T')[0],
+        purchasePrice: equipment.purchasePrice,
+        category: equipment.category,
+        status: equipment.status,
+        currentOwner: ownersById.get(equipment.id) ?? null,
+        currentValue: bookValue,
+        depreciationMethod: policy.method,
+        usefulLifeMonths: policy.usefulLifeMonths,
       }));
 
       const depreciationReport = {
         summary: {
-          totalEquipment: overallSummary.totalEquipment,
-          totalOriginalValue: overallSummary.totalOriginalValue,
-          totalCurrentValue: overallSummary.totalCurrentValue,
-          totalDepreciatedValue: overallSummary.totalDepreciatedValue,
-          averageDepreciationRate,
-          netBookValue: overallSummary.totalCurrentValue,
+          totalEquipment: overallSummary.equipmentCount,
+          totalOriginalValue: overallSummary.originalValue,
+          totalCurrentValue: overallSummary.currentValue,
+          totalDepreciatedValue: overallSummary.depreciatedValue,
+          totalWrittenOffValue: overallSummary.writtenOffValue,
+          averageDepreciationRate: overallSummary.depreciationRate,
+          depreciationPeriodMonths: depreciationPeriod,
+          netBookValue: overallSummary.currentValue,
         },
         byAge: depreciationByAge,
         byCategory: depreciationByCategory,
         byPurchaseMethod: purchaseMethodDepreciation,
+        disposals,
         equipmentNearingFullDepreciation: ValidationHelper.sanitizeDbResults(formattedEquipment),
         generatedAt: new Date().toISOString(),
         filters: params,
@@ -296,8 +236,7 @@ export async function GET(request: NextRequest) {
       );
     }
   }, {
-    requireAuth: true,
+    policy: policies.viewReports,
     enableRateLimit: true,
-    requiredRoles: ['admin', 'team_lead'],
   });
 }
\ No newline at end of file
@@ -0,0 +1,107 @@
+// ABOUTME: API endpoint for exporting a closed period's depreciation journal
+// ABOUTME: Returns journal lines as CSV or an Excel workbook with the fixed-asset register alongside
+
+import { NextRequest, NextResponse } from "next/server";
+import * as XLSX from "xlsx";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { fixedAssetSchemas } from "@/lib/validation";
+import { FixedAssetRegisterService, buildJournalLines } from "@/lib/fixed-asset-register";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ period: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = new URL(req.url);
+      const parsedPeriod = fixedAssetSchemas.period.safeParse((await params).period);
+      const parsedQuery = fixedAssetSchemas.journalExport.safeParse(Object.fromEntries(searchParams.entries()));
+
+      if (!parsedPeriod.success || !parsedQuery.success) {
+        return NextResponse.json(
+          {
+            error: "Invalid parameters",
+            details: [...(parsedPeriod.error?.issues ?? []), ...(parsedQuery.error?.issues ?? [])],
+          },
+          { status: 400 }
+        );
+      }
+
+      const period = parsedPeriod.data;
+      const register = await FixedAssetRegisterService.getRegister(period);
+
+      // Only closed periods are final enough to post to the books
+      if (!register.closed) {
+        return NextResponse.json(
+          { error: `${period} has not been closed` },
+          { status: 409 }
+        );
+      }
+
+      const journal = buildJournalLines(period, register.endDate, register.lines).map((line) => ({
+        "Date": line.date,
+        "Reference": line.reference,
+        "Account": line.account,
+        "Category": line.category,
+        "Description": line.description,
+        "Debit": line.debit,
+        "Credit": line.credit,
+      }));
+
+      const journalSheet = XLSX.utils.json_to_sheet(journal, {
+        header: ["Date", "Reference", "Account", "Category", "Description", "Debit", "Credit"],
+      });
+
+      if (parsedQuery.data.format === "csv") {
+        return new NextResponse(XLSX.utils.sheet_to_csv(journalSheet), {
+          headers: {
+            "Content-Type": "text/csv",
+            "Content-Disposition": `attachment; filename="depreciation-journal-${period}.csv"`,
+          },
+        });
+      }
+
+      const registerSheet = XLSX.utils.json_to_sheet(
+        register.lines.map((line) => ({
+          "Serial Number": line.serialNumber,
+          "Name": line.name,
+          "Category": line.category,
+          "Purchase Date": line.purchaseDate.toISOString().split("T")[0],
+          "Cost": line.purchasePrice,
+          "Invoice": line.invoiceNumber || "",
+          "Vendor": line.vendor || "",
+          "Method": line.depreciationMethod,
+          "Useful Life (months)": line.usefulLifeMonths,
+          "Opening Value": line.openingValue,
+          "Additions": line.additions,
+          "Disposals": line.disposals,
+          "Sale Proceeds": line.saleProceeds,
+          "Depreciation": line.depreciationCharge,
+          "Closing Value": line.closingValue,
+        }))
+      );
+
+      const wb = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(wb, journalSheet, "Journal");
+      XLSX.utils.book_append_sheet(wb, registerSheet, "Fixed Asset Register");
+
+      const excelBuffer = XLSX.write(wb, { bookType: "xlsx", type: "buffer" });
+
+      return new NextResponse(excelBuffer, {
+        headers: {
+          "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          "Content-Disposition": `attachment; filename="depreciation-journal-${period}.xlsx"`,
+        },
+      });
+    } catch (error) {
+      console.error("Depreciation journal export error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.viewReports,
+  });
+}
@@ -0,0 +1,38 @@
+// ABOUTME: API endpoint for one month of the fixed-asset register
+// ABOUTME: Returns frozen lines for closed periods and a live preview for open ones
+
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { fixedAssetSchemas } from "@/lib/validation";
+import { FixedAssetRegisterService } from "@/lib/fixed-asset-register";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ period: string }> }
+) {
+  return withSecurity(request, async () => {
+    try {
+      const parsed = fixedAssetSchemas.period.safeParse((await params).period);
+
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Invalid period", details: parsed.error.issues },
+          { status: 400 }
+        );
+      }
+
+      const register = await FixedAssetRegisterService.getRegister(parsed.data);
+
+      return NextResponse.json(register);
+    } catch (error) {
+      console.error("Error generating fixed-asset register:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.viewReports,
+  });
+}
@@ -0,0 +1,78 @@
+// ABOUTME: API endpoint for month-end close of the fixed-asset register
+// ABOUTME: Lists closed periods and closes the next month, freezing its depreciation
+
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { fixedAssetSchemas } from "@/lib/validation";
+import { FixedAssetRegisterService, PeriodCloseError } from "@/lib/fixed-asset-register";
+
+// GET /api/reports/fixed-assets - List closed periods
+export async function GET(request: NextRequest) {
+  return withSecurity(request, async () => {
+    try {
+      const periods = await FixedAssetRegisterService.listPeriods();
+
+      return NextResponse.json({ periods });
+    } catch (error) {
+      console.error("Error fetching fixed-asset periods:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.viewReports,
+  });
+}
+
+// POST /api/reports/fixed-assets - Close a period
+export async function POST(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const period = fixedAssetSchemas.period.parse(body.period);
+
+      const register = await FixedAssetRegisterService.closePeriod(period, req.user.id);
+
+      return NextResponse.json(
+        { message: `Closed ${period}`, register },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Error closing fixed-asset period:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      // Another close of the same period won the race
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        return NextResponse.json(
+          { error: "Period already closed" },
+          { status: 409 }
+        );
+      }
+
+      if (error instanceof PeriodCloseError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+    enableRateLimit: true,
+  });
+}
@@ -5,12 +5,48 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { ValidationHelper, reportSchemas } from '@/lib/validation';
 import { withSecurity } from '@/lib/security-middleware';
+import { policies } from '@/lib/authorization';
+import { DepreciationService, summarizeValuations, type EquipmentValuation } from '@/lib/depreciation';
 
 interface DateFilter {
   gte?: Date;
   lte?: Date;
 }
 
+const ageRanges = [
+  { ageRange: 'Under 1 year', minMonths: 0, maxMonths: 12 },
+  { ageRange: '1-2 years', minMonths: 12, maxMonths: 24 },
+  { ageRange: '2-3 years', minMonths: 24, maxMonths: 36 },
+  { ageRange: 'Over 3 years', minMonths: 36, maxMonths: Infinity },
+];
+
+// Group valuations by age; rates are what has actually been written off, not a fixed table
+function buildDepreciationAnalysis(valuations: EquipmentValuation[]) {
+  const totals = summarizeValuations(valuations);
+
+  return {
+    byAge: ageRanges.map(({ ageRange, minMonths, maxMonths }) => {
+      const group = summarizeValuations(
+        valuations.filter((v) => v.ageMonths >= minMonths && v.ageMonths < maxMonths)
+      );
+      return {
+        ageRange,
+        depreciationRate: group.depreciationRate,
+        count: group.equipmentCount,
+        originalValue: group.originalValue,
+        currentValue: group.currentValue,
+      };
+    }),
+    summary: {
+      totalEquipment: totals.equipmentCount,
+      totalOriginalValue: totals.originalValue,
+      totalCurrentValue: totals.currentValue,
+      totalWrittenOffValue: totals.writtenOffValue,
+      averageDepreciationRate: totals.depreciationRate,
+    },
+  };
+}
+
 export async function GET(request: NextRequest) {
   return withSecurity(request, async (req: NextRequest & { user?: { name?: string; role?: string } }) => {
     try {
@@ -129,138 +165,30 @@ export async function GET(request: NextRequest) {
       return acc;
     }, {} as Record<string, { totalValue: number; count: number; averageValue: number }>);
 
-    // Get enhanced depreciation analysis
-    const currentDate = new Date();
-    const oneYearAgo = new Date(currentDate.getFullYear() - 1, currentDate.getMonth(), currentDate.getDate());
-    const twoYearsAgo = new Date(currentDate.getFullYear() - 2, currentDate.getMonth(), currentDate.getDate());
-    const threeYearsAgo = new Date(currentDate.getFullYear() - 3, currentDate.getMonth(), currentDate.getDate());
-    
-    // Full depreciation analysis by age groups
-    const depreciationByAge = await Promise.all([
-      // Under 1 year (0% depreciation)
-      prisma.equipment.aggregate({
-        where: {
-          ...where,
-          purchaseDate: { gt: oneYearAgo },
-        },
-        _count: { id: true },
-        _sum: { purchasePrice: true },
-      }),
-      // 1-2 years (50% depreciation)
-      prisma.equipment.aggregate({
-        where: {
-          ...where,
-          purchaseDate: { lte: oneYearAgo, gt: twoYearsAgo },
-        },
-        _count: { id: true },
-        _sum: { purchasePrice: true },
-      }),
-      // 2-3 years (75% depreciation)
-      prisma.equipment.aggregate({
-        where: {
-          ...where,
-          purchaseDate: { lte: twoYearsAgo, gt: threeYearsAgo },
-        },
-        _count: { id: true },
-        _sum: { purchasePrice: true },
-      }),
-      // Over 3 years (100% depreciation)
-      prisma.equipment.aggregate({
-        where: {
-          ...where,
-          purchaseDate: { lte: threeYearsAgo },
-        },
-        _count: { id: true },
-        _sum: { purchasePrice: true },
-      }),
-    ]);
-
-    // Calculate depreciation metrics
-    const depreciationAnalysis = {
-      byAge: [
-        {
-          ageRange: 'Under 1 year',
-          depreciationRate: 0,
-          count: depreciationByAge[0]._count.id || 0,
-          originalValue: depreciationByAge[0]._sum.purchasePrice || 0,
-          currentValue: depreciationByAge[0]._sum.purchasePrice || 0,
-        },
-        {
-          ageRange: '1-2 years',
-          depreciationRate: 0.5,
-          count: depreciationByAge[1]._count.id || 0,
-          originalValue: depreciationByAge[1]._sum.purchasePrice || 0,
-          currentValue: (depreciationByAge[1]._sum.purchasePrice || 0) * 0.5,
-        },
-        {
-          ageRange: '2-3 years',
-          depreciationRate: 0.75,
-          count: depreciationByAge[2]._count.id || 0,
-          originalValue: depreciationByAge[2]._sum.purchasePrice || 0,
-          currentValue: (depreciationByAge[2]._sum.purchasePrice || 0) * 0.25,
-        },
-        {
-          ageRange: 'Over 3 years',
-          depreciationRate: 1.0,
-          count: depreciationByAge[3]._count.id || 0,
-          originalValue: depreciationByAge[3]._sum.purchasePrice || 0,
-          currentValue: 0,
-        },
-      ],
-      summary: {
-        totalEquipment: depreciationByAge.reduce((sum, age) => sum + (age._count.id || 0), 0),
-        totalOriginalValue: depreciationByAge.reduce((sum, age) => sum + (age._sum.purchasePrice || 0), 0),
-        totalCurrentValue: depreciationByAge.reduce((sum, age, index) => {
-          const rates = [1, 0.5, 0.25, 0];
-          return sum + ((age._sum.purchasePrice || 0) * rates[index]);
-        }, 0),
-        averageDepreciationRate: 0,
-      },
-    };
+    // Value every item with the shared depreciation engine
+    const valuations = await DepreciationService.valueEquipment(where);
 
-    // Calculate average depreciation rate
-    if (depreciationAnalysis.summary.totalOriginalValue > 0) {
-      depreciationAnalysis.summary.averageDepreciationRate = 
-        (depreciationAnalysis.summary.totalOriginalValue - depreciationAnalysis.summary.totalCurrentValue) / 
-        depreciationAnalysis.summary.totalOriginalValue;
-    }
+    const depreciationAnalysis = buildDepreciationAnalysis(valuations);
 
     // Get depreciation by category
-    const depreciationByCategory = await prisma.equipment.groupBy({
-      by: ['category'],
-      where,
-      _sum: { purchasePrice: true },
-      _count: { id: true },
+    const categoryNames = Array.from(new Set(valuations.map((v) => v.equipment.category)));
+    const categoryDepreciation = categoryNames.map((category) => {
+      const inCategory = valuations.filter((v) => v.equipment.category === category);
+      const categoryTotals = summarizeValuations(inCategory);
+      const fullyDepreciated = inCategory.filter((v) => v.fullyDepreciated).length;
+
+      return {
+        category,
+        totalEquipment: categoryTotals.equipmentCount,
+        totalValue: categoryTotals.originalValue,
+        depreciatedEquipment: fullyDepreciated,
+        depreciatedValue: categoryTotals.depreciatedValue,
+        writtenOffValue: categoryTotals.writtenOffValue,
+        depreciationPercentage: (fullyDepreciated / categoryTotals.equipmentCount) * 100,
+        valueDepreciationPercentage: categoryTotals.depreciationRate * 100,
+      };
     });
 
-    const categoryDepreciation = await Promise.all(
-      depreciationByCategory.map(async (category) => {
-        const categoryDepreciation = await prisma.equipment.aggregate({
-          where: {
-            ...where,
-            category: category.category,
-            purchaseDate: { lte: twoYearsAgo },
-          },
-          _count: { id: true },
-          _sum: { purchasePrice: true },
-        });
-
-        return {
-          category: category.category,
-          totalEquipment: category._count.id,
-          totalValue: category._sum.purchasePrice || 0,
-          depreciatedEquipment: categoryDepreciation._count.id || 0,
-          depreciatedValue: categoryDepreciation._sum.purchasePrice || 0,
-          depreciationPercentage: category._count.id > 0 
-            ? ((categoryDepreciation._count.id || 0) / category._count.id) * 100 
-            : 0,
-          valueDepreciationPercentage: (category._sum.purchasePrice || 0) > 0
-            ? ((categoryDepreciation._sum.purchasePrice || 0) / (category._sum.purchasePrice || 0)) * 100
-            : 0,
-        };
-      })
-    );
-
     // Get maintenance statistics
     const maintenanceStats = await prisma.maintenanceRecord.groupBy({
       by: ['status'],
@@ -418,9 +346,8 @@ export async function GET(request: NextRequest) {
     );
   }
   }, {
-    requireAuth: true,
+    policy: policies.viewReports,
     enableRateLimit: true,
-    requiredRoles: ['admin', 'team_lead'], // Only admins and team leads can access reports
   });
 }
 
@@ -467,9 +394,8 @@ export async function POST(request: NextRequest) {
       );
     }
   }, {
-    requireAuth: true,
+    policy: policies.viewReports,
     enableRateLimit: true,
-    requiredRoles: ['admin', 'team_lead'],
   });
 }
 
@@ -542,101 +468,9 @@ async function generateReportData(params: {
     },
   });
 
-  // Get enhanced depreciation analysis
-  const currentDate = new Date();
-  const oneYearAgo = new Date(currentDate.getFullYear() - 1, currentDate.getMonth(), currentDate.getDate());
-  const twoYearsAgo = new Date(currentDate.getFullYear() - 2, currentDate.getMonth(), currentDate.getDate());
-  const threeYearsAgo = new Date(currentDate.getFullYear() - 3, currentDate.getMonth(), currentDate.getDate());
-  
-  // Full depreciation analysis by age groups
-  const depreciationByAge = await Promise.all([
-    // Under 1 year (0% depreciation)
-    prisma.equipment.aggregate({
-      where: {
-        ...where,
-        purchaseDate: { gt: oneYearAgo },
-      },
-      _count: { id: true },
-      _sum: { purchasePrice: true },
-    }),
-    // 1-2 years (50% depreciation)
-    prisma.equipment.aggregate({
-      where: {
-        ...where,
-        purchaseDate: { lte: oneYearAgo, gt: twoYearsAgo },
-      },
-      _count: { id: true },
-      _sum: { purchasePrice: true },
-    }),
-    // 2-3 years (75% depreciation)
-    prisma.equipment.aggregate({
-      where: {
-        ...where,
-        purchaseDate: { lte: twoYearsAgo, gt: threeYearsAgo },
-      },
-      _count: { id: true },
-      _sum: { purchasePrice: true },
-    }),
-    // Over 3 years (100% depreciation)
-    prisma.equipment.aggregate({
-      where: {
-        ...where,
-        purchaseDate: { lte: threeYearsAgo },
-      },
-      _count: { id: true },
-      _sum: { purchasePrice: true },
-    }),
-  ]);
-
-  // Calculate depreciation metrics
-  const depreciationAnalysis = {
-    byAge: [
-      {
-        ageRange: 'Under 1 year',
-        depreciationRate: 0,
-        count: depreciationByAge[0]._count.id || 0,
-        originalValue: depreciationByAge[0]._sum.purchasePrice || 0,
-        currentValue: depreciationByAge[0]._sum.purchasePrice || 0,
-      },
-      {
-        ageRange: '1-2 years',
-        depreciationRate: 0.5,
-        count: depreciationByAge[1]._count.id || 0,
-        originalValue: depreciationByAge[1]._sum.purchasePrice || 0,
-        currentValue: (depreciationByAge[1]._sum.purchasePrice || 0) * 0.5,
-      },
-      {
-        ageRange: '2-3 years',
-        depreciationRate: 0.75,
-        count: depreciationByAge[2]._count.id || 0,
-        originalValue: depreciationByAge[2]._sum.purchasePrice || 0,
-        currentValue: (depreciationByAge[2]._sum.purchasePrice || 0) * 0.25,
-      },
-      {
-        ageRange: 'Over 3 years',
-        depreciationRate: 1.0,
-        count: depreciationByAge[3]._count.id || 0,
-        originalValue: depreciationByAge[3]._sum.purchasePrice || 0,
-        currentValue: 0,
-      },
-    ],
-    summary: {
-      totalEquipment: depreciationByAge.reduce((sum, age) => sum + (age._count.id || 0), 0),
-      totalOriginalValue: depreciationByAge.reduce((sum, age) => sum + (age._sum.purchasePrice || 0), 0),
-      totalCurrentValue: depreciationByAge.reduce((sum, age, index) => {
-        const rates = [1, 0.5, 0.25, 0];
-        return sum + ((age._sum.purchasePrice || 0) * rates[index]);
-      }, 0),
-      averageDepreciationRate: 0,
-    },
-  };
-
-  // Calculate average depreciation rate
-  if (depreciationAnalysis.summary.totalOriginalValue > 0) {
-    depreciationAnalysis.summary.averageDepreciationRate = 
-      (depreciationAnalysis.summary.totalOriginalValue - depreciationAnalysis.summary.totalCurrentValue) / 
-      depreciationAnalysis.summary.totalOriginalValue;
-  }
+  const depreciationAnalysis = buildDepreciationAnalysis(
+    await DepreciationService.valueEquipment(where)
+  );
 
   return {
     totalEquipment: totalStats._count.id || 0,
@@ -1,20 +1,14 @@
 // ABOUTME: API endpoint for approving equipment requests with role-based approval workflow
-// ABOUTME: Handles POST requests for team lead and admin approval with email notifications
+// ABOUTME: Approves the request's current approval stage and notifies the next stage's approvers
 
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { db } from "@/lib/prisma";
-import { withSecurity } from "@/lib/security-middleware";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
 import { EmailNotificationService, type EquipmentRequestEmailData } from "@/lib/email";
-import { RequestHistoryService } from "@/lib/request-history";
-
-interface AuthenticatedRequest extends NextRequest {
-  user?: {
-    id?: string;
-    name?: string;
-    role?: string;
-  };
-}
+import { NotificationService } from "@/lib/notifications";
+import { ApprovalChainService, ApprovalChainError, ApprovalStageForbiddenError } from "@/lib/approval-chains";
 
 const approveRequestSchema = z.object({
   notes: z.string().optional(),
@@ -29,36 +23,13 @@ export async function POST(
       const { id } = await params;
       const user = req.user;
       const requestId = id;
-      
-      if (!user?.id || !user?.role) {
-        return NextResponse.json(
-          { error: "Unauthorized - user context missing" },
-          { status: 401 }
-        );
-      }
-
-      // Only team leads and admins can approve requests
-      if (user.role !== 'team_lead' && user.role !== 'admin') {
-        return NextResponse.json(
-          { error: "Forbidden - insufficient permissions to approve requests" },
-          { status: 403 }
-        );
-      }
 
       const body = await req.json();
       const validatedData = approveRequestSchema.parse(body);
 
-      // Get the current request with requester details
       const currentRequest = await db.equipmentRequest.findUnique({
         where: { id: requestId },
-        include: {
-          requester: {
-            select: { id: true, name: true, email: true, role: true }
-          },
-          approver: {
-            select: { id: true, name: true, email: true, role: true }
-          }
-        }
+        select: { id: true },
       });
 
       if (!currentRequest) {
@@ -68,74 +39,14 @@ export async function POST(
         );
       }
 
-      // Check if request is in pending status
-      if (currentRequest.status !== 'pending') {
-        return NextResponse.json(
-          { error: `Request cannot be approved - current status: ${currentRequest.status}` },
-          { status: 400 }
-        );
-      }
-
-      const updateData: any = {
-        approverId: user.id,
-        updatedAt: new Date(),
-      };
-
-      // Determine approval workflow based on user role
-      if (user.role === 'team_lead') {
-        // Team lead approval
-        if (currentRequest.teamLeadApproval !== null) {
-          return NextResponse.json(
-            { error: "Request has already been reviewed by a team lead" },
-            { status: 400 }
-          );
-        }
-
-        updateData.teamLeadApproval = true;
-
-        // Check if admin approval is also needed (for high-value or special requests)
-        // For now, all requests go to admin after team lead approval
-        // You can modify this logic based on business rules
-        const needsAdminApproval = true; // Could be based on budget, type, etc.
-
-        if (needsAdminApproval) {
-          updateData.status = 'pending'; // Still pending, waiting for admin
-        } else {
-          updateData.status = 'approved';
-        }
-      } else if (user.role === 'admin') {
-        // Admin approval
-        if (currentRequest.adminApproval !== null) {
-          return NextResponse.json(
-            { error: "Request has already been reviewed by an admin" },
-            { status: 400 }
-          );
-        }
+      // The request's approval chain decides who reviews it next
+      const decision = await ApprovalChainService.approve(requestId, user, validatedData.notes);
 
-        // Check if team lead has approved first
-        if (currentRequest.teamLeadApproval !== true) {
-          return NextResponse.json(
-            { error: "Team lead approval is required before admin approval" },
-            { status: 400 }
-          );
-        }
-
-        updateData.adminApproval = true;
-        updateData.status = 'approved';
-      }
-
-      // Add notes if provided
-      if (validatedData.notes) {
-        updateData.approvalNotes = validatedData.notes;
-      }
-
-      // Update the request
-      const updatedRequest = await db.equipmentRequest.update({
+      const updatedRequest = await db.equipmentRequest.findUniqueOrThrow({
         where: { id: requestId },
-        data: updateData,
         include: {
           requester: {
-            select: { id: true, name: true, email: true, role: true }
+            select: { id: true, name: true, email: true, role: true, teamId: true }
           },
           approver: {
             select: { id: true, name: true, email: true, role: true }
@@ -143,26 +54,6 @@ export async function POST(
         }
       });
 
-      // Log approval action in audit trail
-      try {
-        if (user.role === 'team_lead') {
-          await RequestHistoryService.logTeamLeadApproval(
-            requestId,
-            user.id,
-            validatedData.notes
-          );
-        } else if (user.role === 'admin') {
-          await RequestHistoryService.logAdminApproval(
-            requestId,
-            user.id,
-            validatedData.notes
-          );
-        }
-      } catch (historyError) {
-        console.error('Failed to log approval history:', historyError);
-        // Don't fail the approval process if history logging fails
-      }
-
       // Prepare email data
       const emailData: EquipmentRequestEmailData = {
         id: updatedRequest.id,
@@ -190,13 +81,21 @@ export async function POST(
         updatedAt: updatedRequest.updatedAt,
       };
 
+      const nextApprovers = decision.nextStage
+        ? await ApprovalChainService.approvers(decision.nextStage, updatedRequest.requester.teamId)
+        : [];
+
       // Send appropriate email notifications
       try {
-        if (user.role === 'team_lead' && updatedRequest.status === 'pending') {
-          // Team lead approved, notify admins for final approval
-          const adminEmails = await EmailNotificationService.getAdminEmails();
-          if (adminEmails.length > 0) {
-            await EmailNotificationService.notifyAdminOfApprovalNeeded(emailData, adminEmails);
+        if (decision.nextStage) {
+          // Notify whoever approves the next stage
+          const approverEmails = nextApprovers.map((approver) => approver.email);
+          if (approverEmails.length > 0) {
+            if (decision.nextStage.approverRole === 'admin') {
+              await EmailNotificationService.notifyAdminOfApprovalNeeded(emailData, approverEmails);
+            } else {
+              await EmailNotificationService.notifyTeamLeadOfNewRequest(emailData, approverEmails);
+            }
           }
         } else if (updatedRequest.status === 'approved') {
           // Final approval granted, notify the requester
@@ -207,11 +106,27 @@ export async function POST(
         // Don't fail the approval process if email fails
       }
 
+      try {
+        if (decision.nextStage) {
+          await NotificationService.notifyApprovalNeeded(
+            emailData,
+            nextApprovers.map((approver) => approver.id),
+            decision.nextStage.name
+          );
+        } else if (updatedRequest.status === 'approved') {
+          await NotificationService.notifyRequestApproved(emailData);
+        }
+      } catch (notificationError) {
+        console.error('Failed to create approval notifications:', notificationError);
+        // Don't fail the approval process if notifications fail
+      }
+
       return NextResponse.json({
         message: "Request approved successfully",
         request: updatedRequest,
-        nextStep: updatedRequest.status === 'pending' 
-          ? 'Waiting for admin approval' 
+        approvedStage: decision.stage.name,
+        nextStep: decision.nextStage
+          ? `Waiting for ${decision.nextStage.name} approval`
           : 'Request fully approved'
       });
 
@@ -225,14 +140,27 @@ export async function POST(
         );
       }
 
+      if (error instanceof ApprovalStageForbiddenError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
+
+      if (error instanceof ApprovalChainError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
       return NextResponse.json(
         { error: "Internal server error" },
         { status: 500 }
       );
     }
   }, {
-    requireAuth: true,
-    requiredRoles: ['team_lead', 'admin'],
+    policy: policies.approveRequests,
     enableRateLimit: true,
   });
 }
\ No newline at end of file
@@ -1,23 +1,40 @@
 // ABOUTME: API endpoint for assigning equipment to approved requests
-// ABOUTME: Handles POST requests to link equipment with approved requests
+// ABOUTME: Handles POST requests to link equipment with approved requests, kit line items, or issue requested consumables
 
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { db } from "@/lib/prisma";
-import { withSecurity } from "@/lib/security-middleware";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
 import { EmailNotificationService, type EquipmentRequestEmailData } from "@/lib/email";
+import { NotificationService } from "@/lib/notifications";
+import { ConsumableStockService, InsufficientStockError } from "@/lib/consumables";
+import { RequestHistoryService } from "@/lib/request-history";
+import { HandoverChecklistService } from "@/lib/handover-checklists";
+import { handoverChecklistSchemas } from "@/lib/validation";
+import { RequestItemService, RequestItemError, OPEN_LINE_REQUEST_STATUSES } from "@/lib/request-items";
+
+// Raised inside the transaction when another assignment fulfilled the request first
+class RequestNoLongerApprovedError extends Error {
+  constructor() {
+    super("Request is no longer approved; it may have just been fulfilled");
+    this.name = "RequestNoLongerApprovedError";
+  }
+}
 
-interface AuthenticatedRequest extends NextRequest {
-  user?: {
-    id?: string;
-    name?: string;
-    role?: string;
-  };
+// Raised inside the transaction when another assignment took the equipment first
+class EquipmentNoLongerAvailableError extends Error {
+  constructor() {
+    super("Equipment is no longer available; it may have just been assigned");
+    this.name = "EquipmentNoLongerAvailableError";
+  }
 }
 
 const assignEquipmentSchema = z.object({
-  equipmentId: z.string().cuid("Invalid equipment ID"),
+  equipmentId: z.string().cuid("Invalid equipment ID").optional(),
+  itemId: z.string().cuid("Invalid line item ID").optional(),
   notes: z.string().optional(),
+  completedSteps: handoverChecklistSchemas.completedSteps,
 });
 
 export async function POST(
@@ -29,21 +46,6 @@ export async function POST(
       const { id } = await params;
       const user = req.user;
       const requestId = id;
-      
-      if (!user?.id || !user?.role) {
-        return NextResponse.json(
-          { error: "Unauthorized - user context missing" },
-          { status: 401 }
-        );
-      }
-
-      // Only admins can assign equipment
-      if (user.role !== 'admin') {
-        return NextResponse.json(
-          { error: "Forbidden - only admins can assign equipment" },
-          { status: 403 }
-        );
-      }
 
       const body = await req.json();
       const validatedData = assignEquipmentSchema.parse(body);
@@ -57,6 +59,12 @@ export async function POST(
           },
           equipment: {
             select: { id: true, name: true, serialNumber: true }
+          },
+          consumable: {
+            select: { id: true, name: true }
+          },
+          items: {
+            select: { id: true, name: true }
           }
         }
       });
@@ -68,14 +76,102 @@ export async function POST(
         );
       }
 
-      // Check if request is approved
-      if (currentRequest.status !== 'approved') {
+      // Check if request is approved; requests with line items stay open while partially fulfilled
+      const assignable = currentRequest.items.length > 0 ? OPEN_LINE_REQUEST_STATUSES : ['approved'];
+      if (!assignable.includes(currentRequest.status)) {
         return NextResponse.json(
           { error: `Cannot assign equipment to request with status: ${currentRequest.status}` },
           { status: 400 }
         );
       }
 
+      // Consumable requests are fulfilled by checking the requested quantity out of stock
+      if (currentRequest.consumable) {
+        const consumable = currentRequest.consumable;
+
+        const result = await db.$transaction(async (tx) => {
+          // Claim the request first so two concurrent assigns cannot both check stock out
+          const claimed = await tx.equipmentRequest.updateMany({
+            where: { id: requestId, status: 'approved' },
+            data: {
+              status: 'fulfilled',
+              updatedAt: new Date(),
+              statusNotes: validatedData.notes,
+            },
+          });
+
+          if (claimed.count === 0) {
+            throw new RequestNoLongerApprovedError();
+          }
+
+          const stock = await ConsumableStockService.recordMovement(
+            consumable.id,
+            {
+              type: 'check_out',
+              quantity: currentRequest.quantity,
+              reason: `Issued via equipment request #${requestId.slice(-8)}. ${validatedData.notes || ''}`.trim(),
+              recipientId: currentRequest.requesterId,
+              requestId,
+            },
+            user.id!,
+            tx
+          );
+
+          const updatedRequest = await tx.equipmentRequest.findUniqueOrThrow({
+            where: { id: requestId },
+          });
+
+          return { updatedRequest, item: stock.item };
+        });
+
+        try {
+          await RequestHistoryService.logConsumableIssue(
+            requestId,
+            user.id,
+            consumable.id,
+            consumable.name,
+            currentRequest.quantity
+          );
+        } catch (historyError) {
+          console.error('Failed to log consumable issue history:', historyError);
+        }
+
+        try {
+          await NotificationService.notifyEquipmentAssigned(
+            currentRequest,
+            `${currentRequest.quantity} x ${consumable.name}`
+          );
+        } catch (notificationError) {
+          console.error('Failed to create consumable issue notification:', notificationError);
+        }
+
+        return NextResponse.json({
+          message: "Consumable issued successfully",
+          request: result.updatedRequest,
+          item: result.item,
+        });
+      }
+
+      if (!validatedData.equipmentId) {
+        return NextResponse.json(
+          { error: "Equipment ID is required" },
+          { status: 400 }
+        );
+      }
+      const equipmentId = validatedData.equipmentId;
+
+      // Requests with line items are fulfilled one line at a time
+      const lineItem = validatedData.itemId
+        ? currentRequest.items.find((item) => item.id === validatedData.itemId)
+        : undefined;
+
+      if (currentRequest.items.length > 0 && !lineItem) {
+        return NextResponse.json(
+          { error: "Choose which line item of this request the equipment fulfils" },
+          { status: 400 }
+        );
+      }
+
       // Check if equipment is already assigned to this request
       if (currentRequest.equipmentId) {
         return NextResponse.json(
@@ -86,7 +182,7 @@ export async function POST(
 
       // Get the equipment to check availability
       const equipment = await db.equipment.findUnique({
-        where: { id: validatedData.equipmentId },
+        where: { id: equipmentId },
         include: {
           currentOwner: {
             select: { id: true, name: true, email: true }
@@ -111,15 +207,53 @@ export async function POST(
 
       // Update both the request and equipment in a transaction
       const result = await db.$transaction(async (tx) => {
-        // Update the request
-        const updatedRequest = await tx.equipmentRequest.update({
-          where: { id: requestId },
+        // Claim the equipment first so two requests cannot both be given the same item
+        const claimedEquipment = await tx.equipment.updateMany({
+          where: { id: equipmentId, status: 'available' },
           data: {
-            equipmentId: validatedData.equipmentId,
-            status: 'fulfilled',
+            status: 'assigned',
+            currentOwnerId: currentRequest.requesterId,
             updatedAt: new Date(),
-            statusNotes: validatedData.notes,
           },
+        });
+
+        if (claimedEquipment.count === 0) {
+          throw new EquipmentNoLongerAvailableError();
+        }
+
+        if (!lineItem) {
+          const claimed = await tx.equipmentRequest.updateMany({
+            where: { id: requestId, status: 'approved' },
+            data: { status: 'fulfilled' },
+          });
+
+          if (claimed.count === 0) {
+            throw new RequestNoLongerApprovedError();
+          }
+        }
+
+        if (lineItem) {
+          await RequestItemService.fulfilWithEquipment(
+            tx,
+            requestId,
+            lineItem.id,
+            { id: equipment.id, name: equipment.name },
+            user.id,
+            validatedData.notes
+          );
+        }
+
+        // Update the request; a line item request only closes once every unit of every line is fulfilled
+        const updatedRequest = await tx.equipmentRequest.update({
+          where: { id: requestId },
+          data: lineItem
+            ? { updatedAt: new Date() }
+            : {
+                equipmentId,
+                status: 'fulfilled',
+                updatedAt: new Date(),
+                statusNotes: validatedData.notes,
+              },
           include: {
             requester: {
               select: { id: true, name: true, email: true, role: true }
@@ -133,14 +267,8 @@ export async function POST(
           }
         });
 
-        // Update the equipment
-        const updatedEquipment = await tx.equipment.update({
-          where: { id: validatedData.equipmentId },
-          data: {
-            status: 'assigned',
-            currentOwnerId: currentRequest.requesterId,
-            updatedAt: new Date(),
-          },
+        const updatedEquipment = await tx.equipment.findUniqueOrThrow({
+          where: { id: equipmentId },
           include: {
             currentOwner: {
               select: { id: true, name: true, email: true }
@@ -149,50 +277,59 @@ export async function POST(
         });
 
         // Create equipment history record
-        await tx.equipmentHistory.create({
+        const history = await tx.equipmentHistory.create({
           data: {
-            equipmentId: validatedData.equipmentId,
+            equipmentId,
             toUserId: currentRequest.requesterId,
             action: 'assigned',
-            notes: `Assigned via equipment request #${requestId.slice(-8)}. ${validatedData.notes || ''}`,
+            notes: `Assigned via equipment request #${requestId.slice(-8)}${lineItem ? ` (${lineItem.name})` : ''}. ${validatedData.notes || ''}`,
           }
         });
 
-        return { updatedRequest, updatedEquipment };
+        const checklist = await HandoverChecklistService.start(tx, {
+          equipmentId,
+          stage: 'assignment',
+          historyId: history.id,
+          completedSteps: validatedData.completedSteps,
+          userId: user.id,
+        });
+
+        return { updatedRequest, updatedEquipment, checklist };
       });
 
+      const emailData: EquipmentRequestEmailData = {
+        id: result.updatedRequest.id,
+        equipmentType: result.updatedRequest.equipmentType,
+        justification: result.updatedRequest.justification,
+        priority: result.updatedRequest.priority,
+        neededBy: result.updatedRequest.neededBy || undefined,
+        budget: result.updatedRequest.budget || undefined,
+        specificRequirements: result.updatedRequest.specificRequirements || undefined,
+        status: result.updatedRequest.status,
+        requester: {
+          id: result.updatedRequest.requester.id,
+          name: result.updatedRequest.requester.name,
+          email: result.updatedRequest.requester.email,
+          role: result.updatedRequest.requester.role as any,
+        },
+        approver: result.updatedRequest.approver ? {
+          id: result.updatedRequest.approver.id,
+          name: result.updatedRequest.approver.name,
+          email: result.updatedRequest.approver.email,
+          role: result.updatedRequest.approver.role as any,
+        } : undefined,
+        equipment: {
+          id: result.updatedEquipment.id,
+          name: result.updatedEquipment.name,
+          serialNumber: result.updatedEquipment.serialNumber,
+          status: result.updatedEquipment.status,
+        },
+        createdAt: result.updatedRequest.createdAt,
+        updatedAt: result.updatedRequest.updatedAt,
+      };
+
       // Send notification to requester
       try {
-        const emailData: EquipmentRequestEmailData = {
-          id: result.updatedRequest.id,
-          equipmentType: result.updatedRequest.equipmentType,
-          justification: result.updatedRequest.justification,
-          priority: result.updatedRequest.priority,
-          neededBy: result.updatedRequest.neededBy || undefined,
-          budget: result.updatedRequest.budget || undefined,
-          specificRequirements: result.updatedRequest.specificRequirements || undefined,
-          status: result.updatedRequest.status,
-          requester: {
-            id: result.updatedRequest.requester.id,
-            name: result.updatedRequest.requester.name,
-            email: result.updatedRequest.requester.email,
-            role: result.updatedRequest.requester.role as any,
-          },
-          approver: result.updatedRequest.approver ? {
-            id: result.updatedRequest.approver.id,
-            name: result.updatedRequest.approver.name,
-            email: result.updatedRequest.approver.email,
-            role: result.updatedRequest.approver.role as any,
-          } : undefined,
-          equipment: result.updatedRequest.equipment ? {
-            id: result.updatedRequest.equipment.id,
-            name: result.updatedRequest.equipment.name,
-            serialNumber: result.updatedRequest.equipment.serialNumber,
-            status: result.updatedRequest.equipment.status,
-          } : undefined,
-          createdAt: result.updatedRequest.createdAt,
-          updatedAt: result.updatedRequest.updatedAt,
-        };
 
         await EmailNotificationService.notifyRequesterOfEquipmentAssignment(emailData);
       } catch (emailError) {
@@ -200,10 +337,18 @@ export async function POST(
         // Don't fail the assignment if email fails
       }
 
+      try {
+        await NotificationService.notifyEquipmentAssigned(emailData, result.updatedEquipment.name);
+      } catch (notificationError) {
+        console.error('Failed to create equipment assignment notification:', notificationError);
+        // Don't fail the assignment if notifications fail
+      }
+
       return NextResponse.json({
         message: "Equipment assigned successfully",
         request: result.updatedRequest,
         equipment: result.updatedEquipment,
+        checklist: result.checklist,
       });
 
     } catch (error) {
@@ -216,14 +361,27 @@ export async function POST(
         );
       }
 
+      if (error instanceof RequestNoLongerApprovedError || error instanceof EquipmentNoLongerAvailableError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+
+      if (error instanceof InsufficientStockError || error instanceof RequestItemError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
       return NextResponse.json(
         { error: "Internal server error" },
         { status: 500 }
       );
     }
   }, {
-    requireAuth: true,
-    requiredRoles: ['admin'],
+    policy: policies.admin,
     enableRateLimit: true,
   });
 }
@@ -235,23 +393,8 @@ export async function DELETE(
   return withSecurity(request, async (req: AuthenticatedRequest) => {
     try {
       const { id } = await params;
-      const user = req.user;
       const requestId = id;
-      
-      if (!user?.id || !user?.role) {
-        return NextResponse.json(
-          { error: "Unauthorized - user context missing" },
-          { status: 401 }
-        );
-      }
-
-      // Only admins can unassign equipment
-      if (user.role !== 'admin') {
-        return NextResponse.json(
-          { error: "Forbidden - only admins can unassign equipment" },
-          { status: 403 }
-        );
-      }
+      const user = req.user;
 
       // Get the current request with details
       const currentRequest = await db.equipmentRequest.findUnique({
@@ -301,11 +444,28 @@ export async function DELETE(
           }
         });
 
-        // Update the equipment
+        // Create equipment history record
+        const history = await tx.equipmentHistory.create({
+          data: {
+            equipmentId: currentRequest.equipmentId || '',
+            fromUserId: currentRequest.requesterId,
+            action: 'unassigned',
+            notes: `Unassigned from equipment request #${requestId.slice(-8)} by admin`,
+          }
+        });
+
+        const checklist = await HandoverChecklistService.start(tx, {
+          equipmentId: currentRequest.equipmentId || '',
+          stage: 'return',
+          historyId: history.id,
+          userId: user.id,
+        });
+
+        // Update the equipment, held back from the pool until the return checklist is done
         const updatedEquipment = await tx.equipment.update({
           where: { id: currentRequest.equipmentId || '' },
           data: {
-            status: 'available',
+            status: checklist && !checklist.completedAt ? 'pending' : 'available',
             currentOwnerId: null,
             updatedAt: new Date(),
           },
@@ -316,23 +476,14 @@ export async function DELETE(
           }
         });
 
-        // Create equipment history record
-        await tx.equipmentHistory.create({
-          data: {
-            equipmentId: currentRequest.equipmentId || '',
-            fromUserId: currentRequest.requesterId,
-            action: 'unassigned',
-            notes: `Unassigned from equipment request #${requestId.slice(-8)} by admin`,
-          }
-        });
-
-        return { updatedRequest, updatedEquipment };
+        return { updatedRequest, updatedEquipment, checklist };
       });
 
       return NextResponse.json({
         message: "Equipment unassigned successfully",
         request: result.updatedRequest,
         equipment: result.updatedEquipment,
+        checklist: result.checklist,
       });
 
     } catch (error) {
@@ -344,8 +495,7 @@ export async function DELETE(
       );
     }
   }, {
-    requireAuth: true,
-    requiredRoles: ['admin'],
+    policy: policies.admin,
     enableRateLimit: true,
   });
 }
\ No newline at end of file
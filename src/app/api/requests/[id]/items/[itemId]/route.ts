@@ -0,0 +1,59 @@
+// ABOUTME: API endpoint for updating a request line item
+// ABOUTME: Flags lines for purchase or marks subscription lines as set up, closing the request when all lines are done
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { requestSchemas } from "@/lib/validation";
+import { RequestItemService, RequestItemError } from "@/lib/request-items";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id, itemId } = await params;
+      const body = await req.json();
+      const data = requestSchemas.updateItem.parse(body);
+
+      const result = await RequestItemService.updateItem(id, itemId, data, req.user.id);
+
+      if (!result) {
+        return NextResponse.json(
+          { error: "Line item not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        message: "Line item updated",
+        ...result,
+      });
+    } catch (error) {
+      console.error("Line item update error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof RequestItemError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+  });
+}
@@ -4,17 +4,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { db } from "@/lib/prisma";
-import { withSecurity } from "@/lib/security-middleware";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
 import { EmailNotificationService, type EquipmentRequestEmailData } from "@/lib/email";
-import { RequestHistoryService } from "@/lib/request-history";
-
-interface AuthenticatedRequest extends NextRequest {
-  user?: {
-    id?: string;
-    name?: string;
-    role?: string;
-  };
-}
+import { NotificationService } from "@/lib/notifications";
+import { ApprovalChainService, ApprovalChainError, ApprovalStageForbiddenError } from "@/lib/approval-chains";
 
 const rejectRequestSchema = z.object({
   reason: z.string().min(10, "Rejection reason must be at least 10 characters").max(1000, "Rejection reason is too long"),
@@ -30,36 +24,13 @@ export async function POST(
       const { id } = await params;
       const user = req.user;
       const requestId = id;
-      
-      if (!user?.id || !user?.role) {
-        return NextResponse.json(
-          { error: "Unauthorized - user context missing" },
-          { status: 401 }
-        );
-      }
-
-      // Only team leads and admins can reject requests
-      if (user.role !== 'team_lead' && user.role !== 'admin') {
-        return NextResponse.json(
-          { error: "Forbidden - insufficient permissions to reject requests" },
-          { status: 403 }
-        );
-      }
 
       const body = await req.json();
       const validatedData = rejectRequestSchema.parse(body);
 
-      // Get the current request with requester details
       const currentRequest = await db.equipmentRequest.findUnique({
         where: { id: requestId },
-        include: {
-          requester: {
-            select: { id: true, name: true, email: true, role: true }
-          },
-          approver: {
-            select: { id: true, name: true, email: true, role: true }
-          }
-        }
+        select: { id: true },
       });
 
       if (!currentRequest) {
@@ -69,49 +40,11 @@ export async function POST(
         );
       }
 
-      // Check if request is in pending status
-      if (currentRequest.status !== 'pending') {
-        return NextResponse.json(
-          { error: `Request cannot be rejected - current status: ${currentRequest.status}` },
-          { status: 400 }
-        );
-      }
-
-      const updateData: any = {
-        approverId: user.id,
-        status: 'rejected',
-        rejectionReason: validatedData.reason,
-        updatedAt: new Date(),
-      };
-
-      // Track which level rejected the request
-      if (user.role === 'team_lead') {
-        if (currentRequest.teamLeadApproval !== null) {
-          return NextResponse.json(
-            { error: "Request has already been reviewed by a team lead" },
-            { status: 400 }
-          );
-        }
-        updateData.teamLeadApproval = false;
-      } else if (user.role === 'admin') {
-        if (currentRequest.adminApproval !== null) {
-          return NextResponse.json(
-            { error: "Request has already been reviewed by an admin" },
-            { status: 400 }
-          );
-        }
-        updateData.adminApproval = false;
-      }
-
-      // Add notes if provided
-      if (validatedData.notes) {
-        updateData.approvalNotes = validatedData.notes;
-      }
+      // Rejected at whichever approval stage the request is waiting on
+      await ApprovalChainService.reject(requestId, user, validatedData.reason, validatedData.notes);
 
-      // Update the request
-      const updatedRequest = await db.equipmentRequest.update({
+      const updatedRequest = await db.equipmentRequest.findUniqueOrThrow({
         where: { id: requestId },
-        data: updateData,
         include: {
           requester: {
             select: { id: true, name: true, email: true, role: true }
@@ -122,28 +55,6 @@ export async function POST(
         }
       });
 
-      // Log rejection action in audit trail
-      try {
-        if (user.role === 'team_lead') {
-          await RequestHistoryService.logTeamLeadRejection(
-            requestId,
-            user.id,
-            validatedData.reason,
-            validatedData.notes
-          );
-        } else if (user.role === 'admin') {
-          await RequestHistoryService.logAdminRejection(
-            requestId,
-            user.id,
-            validatedData.reason,
-            validatedData.notes
-          );
-        }
-      } catch (historyError) {
-        console.error('Failed to log rejection history:', historyError);
-        // Don't fail the rejection process if history logging fails
-      }
-
       // Prepare email data
       const emailData: EquipmentRequestEmailData = {
         id: updatedRequest.id,
@@ -179,6 +90,13 @@ export async function POST(
         // Don't fail the rejection process if email fails
       }
 
+      try {
+        await NotificationService.notifyRequestRejected(emailData);
+      } catch (notificationError) {
+        console.error('Failed to create rejection notification:', notificationError);
+        // Don't fail the rejection process if notifications fail
+      }
+
       return NextResponse.json({
         message: "Request rejected successfully",
         request: updatedRequest,
@@ -194,14 +112,27 @@ export async function POST(
         );
       }
 
+      if (error instanceof ApprovalStageForbiddenError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
+
+      if (error instanceof ApprovalChainError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
       return NextResponse.json(
         { error: "Internal server error" },
         { status: 500 }
       );
     }
   }, {
-    requireAuth: true,
-    requiredRoles: ['team_lead', 'admin'],
+    policy: policies.approveRequests,
     enableRateLimit: true,
   });
 }
\ No newline at end of file
@@ -4,16 +4,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { db } from "@/lib/prisma";
-import { withSecurity } from "@/lib/security-middleware";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { authorizeResource, policies, resourcePolicies } from "@/lib/authorization";
 import { EmailNotificationService, type EquipmentRequestEmailData } from "@/lib/email";
-
-interface AuthenticatedRequest extends NextRequest {
-  user?: {
-    id?: string;
-    name?: string;
-    role?: string;
-  };
-}
+import { NotificationService } from "@/lib/notifications";
+import { requestItemInclude } from "@/lib/request-items";
+import { ApprovalChainService, requestApprovalInclude } from "@/lib/approval-chains";
+import { currentApprovalStage } from "@/lib/approval-stages";
 
 const updateStatusSchema = z.object({
   equipmentType: z.string().optional(),
@@ -23,7 +20,7 @@ const updateStatusSchema = z.object({
   specificRequirements: z.string().optional(),
   budget: z.number().optional(),
   neededBy: z.string().optional(),
-  status: z.enum(['pending', 'approved', 'rejected', 'ordered', 'fulfilled']).optional(),
+  status: z.enum(['pending', 'approved', 'rejected', 'ordered', 'partially_fulfilled', 'fulfilled']).optional(),
   notes: z.string().optional(),
 });
 
@@ -36,13 +33,6 @@ export async function GET(
       const { id } = await params;
       const user = req.user;
       const requestId = id;
-      
-      if (!user?.id || !user?.role) {
-        return NextResponse.json(
-          { error: "Unauthorized - user context missing" },
-          { status: 401 }
-        );
-      }
 
       // Get the request with requester details
       const requestDetails = await db.equipmentRequest.findUnique({
@@ -69,6 +59,14 @@ export async function GET(
           equipment: {
             select: { id: true, name: true, serialNumber: true, status: true, currentOwner: { select: { name: true, email: true } } }
           },
+          items: {
+            include: requestItemInclude,
+            orderBy: { position: "asc" },
+          },
+          approvals: {
+            include: requestApprovalInclude,
+            orderBy: { position: "asc" },
+          },
         }
       });
 
@@ -80,14 +78,21 @@ export async function GET(
       }
 
       // Check if user can view this request
-      if (user.role === "user" && requestDetails.requesterId !== user.id) {
+      if (!(await authorizeResource(user, resourcePolicies.ownerOrManager, requestDetails.requesterId))) {
         return NextResponse.json(
           { error: "Forbidden - you can only view your own requests" },
           { status: 403 }
         );
       }
 
-      return NextResponse.json(requestDetails);
+      // Lets the approval screen tell delegates covering for an absent approver that they can decide
+      const currentStage = currentApprovalStage(requestDetails.approvals);
+      const decidesCurrentStage =
+        requestDetails.status === "pending" && currentStage
+          ? await ApprovalChainService.canDecide(user, currentStage, requestDetails.requesterId)
+          : false;
+
+      return NextResponse.json({ ...requestDetails, decidesCurrentStage });
 
     } catch (error) {
       console.error("Request fetch error:", error);
@@ -97,8 +102,7 @@ export async function GET(
       );
     }
   }, {
-    requireAuth: true,
-    requiredRoles: ['user', 'team_lead', 'admin'],
+    policy: policies.authenticated,
     enableRateLimit: true,
   });
 }
@@ -112,13 +116,6 @@ export async function PUT(
       const { id } = await params;
       const user = req.user;
       const requestId = id;
-      
-      if (!user?.id || !user?.role) {
-        return NextResponse.json(
-          { error: "Unauthorized - user context missing" },
-          { status: 401 }
-        );
-      }
 
       const body = await req.json();
       const validatedData = updateStatusSchema.parse(body);
@@ -248,33 +245,33 @@ export async function PUT(
 
       // Send email notification for status changes
       if (validatedData.status && validatedData.status !== oldStatus) {
-        try {
-          const emailData: EquipmentRequestEmailData = {
-            id: updatedRequest.id,
-            equipmentType: updatedRequest.equipmentType,
-            justification: updatedRequest.justification,
-            priority: updatedRequest.priority,
-            neededBy: updatedRequest.neededBy || undefined,
-            budget: updatedRequest.budget || undefined,
-            specificRequirements: updatedRequest.specificRequirements || undefined,
-            status: updatedRequest.status,
-            requester: {
-              id: updatedRequest.requester.id,
-              name: updatedRequest.requester.name,
-              email: updatedRequest.requester.email,
-              role: updatedRequest.requester.role as any,
-            },
-            approver: updatedRequest.approver ? {
-              id: updatedRequest.approver.id,
-              name: updatedRequest.approver.name,
-              email: updatedRequest.approver.email,
-              role: updatedRequest.approver.role as any,
-            } : undefined,
-            rejectionReason: updatedRequest.rejectionReason || undefined,
-            createdAt: updatedRequest.createdAt,
-            updatedAt: updatedRequest.updatedAt,
-          };
+        const emailData: EquipmentRequestEmailData = {
+          id: updatedRequest.id,
+          equipmentType: updatedRequest.equipmentType,
+          justification: updatedRequest.justification,
+          priority: updatedRequest.priority,
+          neededBy: updatedRequest.neededBy || undefined,
+          budget: updatedRequest.budget || undefined,
+          specificRequirements: updatedRequest.specificRequirements || undefined,
+          status: updatedRequest.status,
+          requester: {
+            id: updatedRequest.requester.id,
+            name: updatedRequest.requester.name,
+            email: updatedRequest.requester.email,
+            role: updatedRequest.requester.role as any,
+          },
+          approver: updatedRequest.approver ? {
+            id: updatedRequest.approver.id,
+            name: updatedRequest.approver.name,
+            email: updatedRequest.approver.email,
+            role: updatedRequest.approver.role as any,
+          } : undefined,
+          rejectionReason: updatedRequest.rejectionReason || undefined,
+          createdAt: updatedRequest.createdAt,
+          updatedAt: updatedRequest.updatedAt,
+        };
 
+        try {
           // Determine who should be notified
           const notifyEmails: string[] = [updatedRequest.requester.email];
           
@@ -288,6 +285,19 @@ export async function PUT(
           console.error('Failed to send status change notification:', emailError);
           // Don't fail the status update if email fails
         }
+
+        // In-app notifications skip whoever made the change
+        try {
+          const notifyUserIds = [updatedRequest.requester.id, updatedRequest.approver?.id || ''];
+          await NotificationService.notifyStatusChange(
+            emailData,
+            oldStatus,
+            notifyUserIds.filter((id) => id !== user.id)
+          );
+        } catch (notificationError) {
+          console.error('Failed to create status change notifications:', notificationError);
+          // Don't fail the status update if notifications fail
+        }
       }
 
       const responseMessage = isEditingOwnPendingRequest 
@@ -321,8 +331,7 @@ export async function PUT(
       );
     }
   }, {
-    requireAuth: true,
-    requiredRoles: ['user', 'team_lead', 'admin'],
+    policy: policies.authenticated,
     enableRateLimit: true,
   });
 }
\ No newline at end of file
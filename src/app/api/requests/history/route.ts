@@ -4,16 +4,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { db } from "@/lib/prisma";
-import { withSecurity } from "@/lib/security-middleware";
-import { RequestHistoryService } from "@/lib/request-history";
-
-interface AuthenticatedRequest extends NextRequest {
-  user?: {
-    id?: string;
-    name?: string;
-    role?: string;
-  };
-}
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { authorizeResource, policies, resourcePolicies } from "@/lib/authorization";
+import { RequestHistoryService, type LineItemProgress } from "@/lib/request-history";
 
 const historyQuerySchema = z.object({
   requestId: z.string().optional(),
@@ -41,22 +34,20 @@ export async function GET(request: NextRequest) {
       // Check permissions for accessing history
       if (validatedParams.requestId) {
         // Users can only view history for their own requests unless they're team leads or admins
-        if (user?.role === "user") {
-          const request = await db.equipmentRequest.findUnique({
-            where: { id: validatedParams.requestId },
-            select: { requesterId: true },
-          });
+        const request = await db.equipmentRequest.findUnique({
+          where: { id: validatedParams.requestId },
+          select: { requesterId: true },
+        });
 
-          if (!request || request.requesterId !== user.id) {
-            return NextResponse.json(
-              { error: "Forbidden - you can only view history for your own requests" },
-              { status: 403 }
-            );
-          }
+        if (!request || !(await authorizeResource(user, resourcePolicies.ownerOrManager, request.requesterId))) {
+          return NextResponse.json(
+            { error: "Forbidden - you can only view history for your own requests" },
+            { status: 403 }
+          );
         }
-      } else if (validatedParams.userId && validatedParams.userId !== user?.id) {
+      } else if (validatedParams.userId) {
         // Users can only view their own history unless they're team leads or admins
-        if (user?.role === "user") {
+        if (!(await authorizeResource(user, resourcePolicies.ownerOrManager, validatedParams.userId))) {
           return NextResponse.json(
             { error: "Forbidden - you can only view your own history" },
             { status: 403 }
@@ -66,11 +57,14 @@ export async function GET(request: NextRequest) {
 
       let history: any[] = [];
       let total: number = 0;
+      let lineItems: LineItemProgress[] | undefined;
 
       if (validatedParams.requestId) {
         // Get history for a specific request
         history = await RequestHistoryService.getRequestHistory(validatedParams.requestId);
         total = history.length;
+        // Multi-item requests also report where each line stands
+        lineItems = await RequestHistoryService.getLineItemProgress(validatedParams.requestId);
       } else if (validatedParams.userId) {
         // Get history for a specific user
         history = await RequestHistoryService.getUserHistory(validatedParams.userId, validatedParams.limit);
@@ -81,7 +75,7 @@ export async function GET(request: NextRequest) {
         total = history.length;
       } else if (user) {
         // Regular users can view their own recent history
-        history = await RequestHistoryService.getUserHistory(user.id || '', validatedParams.limit);
+        history = await RequestHistoryService.getUserHistory(user.id, validatedParams.limit);
         total = history.length;
       } else {
         // If no user, return empty history
@@ -94,6 +88,7 @@ export async function GET(request: NextRequest) {
 
       return NextResponse.json({
         history: paginatedHistory,
+        ...(lineItems && lineItems.length > 0 && { lineItems }),
         pagination: {
           total,
           limit: validatedParams.limit,
@@ -118,8 +113,7 @@ export async function GET(request: NextRequest) {
       );
     }
   }, {
-    requireAuth: true,
-    requiredRoles: ['user', 'team_lead', 'admin'],
+    policy: policies.authenticated,
     enableRateLimit: true,
   });
 }
\ No newline at end of file
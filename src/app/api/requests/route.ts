@@ -5,17 +5,13 @@ import { z } from "zod";
 import { db } from "@/lib/prisma";
 import { NextRequest, NextResponse } from "next/server";
 import { requestSchemas, InputSanitizer, ValidationHelper } from "@/lib/validation";
-import { withSecurity } from "@/lib/security-middleware";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
 import { EmailNotificationService, type EquipmentRequestEmailData } from "@/lib/email";
+import { NotificationService } from "@/lib/notifications";
 import { RequestHistoryService } from "@/lib/request-history";
-
-interface AuthenticatedRequest extends NextRequest {
-  user?: {
-    id?: string;
-    name?: string;
-    role?: string;
-  };
-}
+import { requestItemsBudget, requestItemsCreate } from "@/lib/request-items";
+import { ApprovalChainService } from "@/lib/approval-chains";
 
 export async function GET(request: NextRequest) {
   return withSecurity(request, async (req: AuthenticatedRequest) => {
@@ -44,16 +40,9 @@ export async function GET(request: NextRequest) {
       whereClause.requesterId = userId;
     }
 
-    // For team leads/admins, filter for requests needing their approval
+    // For team leads/admins, filter for requests waiting on their approval stage
     if (needsApproval && user?.role !== "user") {
-      if (user?.role === "team_lead") {
-        whereClause.status = "pending";
-        whereClause.teamLeadApproval = null;
-      } else if (user?.role === "admin") {
-        whereClause.status = "pending";
-        whereClause.teamLeadApproval = true;
-        whereClause.adminApproval = null;
-      }
+      Object.assign(whereClause, await ApprovalChainService.pendingApprovalWhere(user));
     }
 
     const requests = await db.equipmentRequest.findMany({
@@ -68,6 +57,14 @@ export async function GET(request: NextRequest) {
         equipment: {
           select: { id: true, name: true, serialNumber: true },
         },
+        items: {
+          select: { id: true, kind: true, name: true, quantity: true, fulfilledQuantity: true, budget: true, status: true },
+          orderBy: { position: "asc" },
+        },
+        approvals: {
+          select: { id: true, position: true, name: true, approverRole: true, approverId: true, status: true },
+          orderBy: { position: "asc" },
+        },
       },
       orderBy: { createdAt: "desc" },
     });
@@ -93,8 +90,7 @@ export async function GET(request: NextRequest) {
     );
   }
   }, {
-    requireAuth: true,
-    requiredRoles: ['user', 'team_lead', 'admin'],
+    policy: policies.authenticated,
     enableRateLimit: true,
   });
 }
@@ -116,18 +112,49 @@ export async function POST(request: NextRequest) {
           : undefined,
         budget: validatedData.budget,
         neededBy: validatedData.neededBy,
+        consumableId: validatedData.consumableId,
+        quantity: validatedData.quantity ?? 1,
       };
 
+      // Multi-item requests carry one line per item; the request budget is the sum of the line budgets
+      const items = validatedData.items?.map((item) => ({
+        ...item,
+        name: InputSanitizer.sanitizeString(item.name),
+        notes: item.notes ? InputSanitizer.sanitizeString(item.notes) : undefined,
+      }));
+      if (items) {
+        sanitizedData.budget = requestItemsBudget(items) ?? sanitizedData.budget;
+      }
+
+      // Consumable requests are fulfilled from stock instead of a serialized equipment row
+      if (sanitizedData.consumableId) {
+        const consumable = await db.smallInventoryItem.findUnique({
+          where: { id: sanitizedData.consumableId },
+          select: { id: true },
+        });
+
+        if (!consumable) {
+          return NextResponse.json(
+            { error: "Consumable not found" },
+            { status: 404 }
+          );
+        }
+      }
+
       // Create equipment request
       const equipmentRequest = await db.equipmentRequest.create({
         data: {
-          requesterId: user?.id || '',
+          requesterId: user.id,
           ...sanitizedData,
           status: "pending",
+          ...(items && { items: { create: requestItemsCreate(items) } }),
         },
         include: {
           requester: {
-            select: { id: true, name: true, email: true, role: true },
+            select: { id: true, name: true, email: true, role: true, teamId: true },
+          },
+          items: {
+            orderBy: { position: "asc" },
           },
         },
       });
@@ -136,7 +163,7 @@ export async function POST(request: NextRequest) {
       try {
         await RequestHistoryService.logRequestCreation(
           equipmentRequest.id,
-          user?.id || '',
+          user.id,
           sanitizedData.equipmentType
         );
       } catch (historyError) {
@@ -144,34 +171,81 @@ export async function POST(request: NextRequest) {
         // Don't fail the request creation if history logging fails
       }
 
-      // Send notification email to team leads
+      // Route the request through the matching approval policy; without one it gets the default chain on first review
+      let firstStage: { name: string; approverRole: string | null; approverId: string | null } | undefined;
       try {
-        const emailData: EquipmentRequestEmailData = {
-          id: equipmentRequest.id,
-          equipmentType: equipmentRequest.equipmentType,
-          justification: equipmentRequest.justification,
-          priority: equipmentRequest.priority,
-          neededBy: equipmentRequest.neededBy || undefined,
-          budget: equipmentRequest.budget || undefined,
-          specificRequirements: equipmentRequest.specificRequirements || undefined,
-          status: equipmentRequest.status,
-          requester: {
-            id: equipmentRequest.requester.id,
-            name: equipmentRequest.requester.name,
-            email: equipmentRequest.requester.email,
-            role: equipmentRequest.requester.role as any,
-          },
-          createdAt: equipmentRequest.createdAt,
-          updatedAt: equipmentRequest.updatedAt,
-        };
+        const chain = await ApprovalChainService.start(db, equipmentRequest.id, user.id);
+        equipmentRequest.status = chain.status;
+        firstStage = chain.stages.find((stage) => stage.status === "pending");
+      } catch (chainError) {
+        console.error('Failed to start approval chain:', chainError);
+        firstStage = { name: "Team Lead", approverRole: "team_lead", approverId: null };
+      }
+
+      const emailData: EquipmentRequestEmailData = {
+        id: equipmentRequest.id,
+        equipmentType: equipmentRequest.equipmentType,
+        justification: equipmentRequest.justification,
+        priority: equipmentRequest.priority,
+        neededBy: equipmentRequest.neededBy || undefined,
+        budget: equipmentRequest.budget || undefined,
+        specificRequirements: equipmentRequest.specificRequirements || undefined,
+        status: equipmentRequest.status,
+        requester: {
+          id: equipmentRequest.requester.id,
+          name: equipmentRequest.requester.name,
+          email: equipmentRequest.requester.email,
+          role: equipmentRequest.requester.role as any,
+        },
+        createdAt: equipmentRequest.createdAt,
+        updatedAt: equipmentRequest.updatedAt,
+      };
+
+      if (firstStage?.approverRole === "team_lead") {
+        // Send notification email to team leads
+        try {
+          const teamLeadEmails = await EmailNotificationService.getTeamLeadEmails(user.id);
+          if (teamLeadEmails.length > 0) {
+            await EmailNotificationService.notifyTeamLeadOfNewRequest(emailData, teamLeadEmails);
+          }
+        } catch (emailError) {
+          console.error('Failed to send team lead notification:', emailError);
+          // Don't fail the request creation if email fails
+        }
 
-        const teamLeadEmails = await EmailNotificationService.getTeamLeadEmails(user?.id || '');
-        if (teamLeadEmails.length > 0) {
-          await EmailNotificationService.notifyTeamLeadOfNewRequest(emailData, teamLeadEmails);
+        // Create in-app notifications for the same team leads
+        try {
+          await NotificationService.notifyRequestCreated(emailData);
+        } catch (notificationError) {
+          console.error('Failed to create team lead notification:', notificationError);
+          // Don't fail the request creation if notifications fail
+        }
+      } else if (firstStage) {
+        // Policies can start with another stage, such as an admin or a named approver
+        try {
+          const approvers = await ApprovalChainService.approvers(firstStage, equipmentRequest.requester.teamId);
+          const approverEmails = approvers.map((approver) => approver.email);
+          if (approverEmails.length > 0) {
+            await EmailNotificationService.notifyTeamLeadOfNewRequest(emailData, approverEmails);
+          }
+          await NotificationService.notifyApprovalNeeded(
+            emailData,
+            approvers.map((approver) => approver.id),
+            firstStage.name,
+            true
+          );
+        } catch (notificationError) {
+          console.error('Failed to notify approvers:', notificationError);
+          // Don't fail the request creation if notifications fail
+        }
+      } else if (equipmentRequest.status === "approved") {
+        // Every stage was skipped for this priority
+        try {
+          await NotificationService.notifyRequestApproved(emailData);
+        } catch (notificationError) {
+          console.error('Failed to create approval notification:', notificationError);
+          // Don't fail the request creation if notifications fail
         }
-      } catch (emailError) {
-        console.error('Failed to send team lead notification:', emailError);
-        // Don't fail the request creation if email fails
       }
 
       return NextResponse.json(
@@ -198,8 +272,7 @@ export async function POST(request: NextRequest) {
       );
     }
   }, {
-    requireAuth: true,
-    requiredRoles: ['user', 'team_lead', 'admin'],
+    policy: policies.authenticated,
     enableRateLimit: true,
   });
 }
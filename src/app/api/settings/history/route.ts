@@ -0,0 +1,54 @@
+// ABOUTME: API endpoint for the system settings change history
+// ABOUTME: Handles GET for listing who changed which setting, newest first
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { systemSettingSchemas } from "@/lib/validation";
+import { SYSTEM_SETTING_KEYS, SystemSettingsService, type SystemSettingKey } from "@/lib/system-settings";
+
+export async function GET(request: NextRequest) {
+  return withSecurity(request, async (req: NextRequest) => {
+    try {
+      const { searchParams } = new URL(req.url);
+
+      const validatedParams = systemSettingSchemas.history.parse({
+        page: searchParams.get("page") || undefined,
+        limit: searchParams.get("limit") || undefined,
+        key: searchParams.get("key") || undefined,
+      });
+
+      if (validatedParams.key && !SYSTEM_SETTING_KEYS.includes(validatedParams.key as SystemSettingKey)) {
+        return NextResponse.json(
+          { error: `Unknown setting "${validatedParams.key}"` },
+          { status: 400 }
+        );
+      }
+
+      const history = await SystemSettingsService.getHistory({
+        ...validatedParams,
+        key: validatedParams.key as SystemSettingKey | undefined,
+      });
+
+      return NextResponse.json(history);
+    } catch (error) {
+      console.error("System settings history fetch error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid query parameters", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+    enableRateLimit: true,
+  });
+}
@@ -0,0 +1,63 @@
+// ABOUTME: API endpoint for system-wide admin settings
+// ABOUTME: Handles GET of all settings with defaults filled in and PUT for validated partial updates
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { systemSettingSchemas } from "@/lib/validation";
+import { SystemSettingsService } from "@/lib/system-settings";
+
+export async function GET(request: NextRequest) {
+  return withSecurity(request, async () => {
+    try {
+      const settings = await SystemSettingsService.getAll();
+
+      return NextResponse.json({ settings });
+    } catch (error) {
+      console.error("System settings fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+    enableRateLimit: true,
+  });
+}
+
+export async function PUT(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const validatedData = systemSettingSchemas.update.parse(body);
+
+      const changed = await SystemSettingsService.update(validatedData, req.user.id);
+      const settings = await SystemSettingsService.getAll();
+
+      return NextResponse.json({
+        message: changed.length > 0 ? "Settings updated successfully" : "No settings changed",
+        changed,
+        settings,
+      });
+    } catch (error) {
+      console.error("System settings update error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.admin,
+    enableRateLimit: true,
+  });
+}
@@ -0,0 +1,60 @@
+// ABOUTME: Signed download endpoint for files kept on local disk
+// ABOUTME: Serves a stored file to whoever holds an unexpired link signed by the app; S3 links go straight to the bucket
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withSecurity } from '@/lib/security-middleware';
+import { policies } from '@/lib/authorization';
+import { getStorage, StorageError, verifyLocalSignature } from '@/lib/storage';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  return withSecurity(request, async (req) => {
+    try {
+      const { key: segments } = await params;
+      const key = segments.join('/');
+      const { searchParams } = new URL(req.url);
+
+      const signed = {
+        expires: searchParams.get('expires') ?? undefined,
+        disposition: searchParams.get('disposition') ?? undefined,
+        type: searchParams.get('type') ?? undefined,
+        signature: searchParams.get('signature') ?? undefined,
+      };
+
+      if (!verifyLocalSignature(key, signed)) {
+        return NextResponse.json({ error: 'Link is invalid or has expired' }, { status: 403 });
+      }
+
+      const stored = await getStorage().get(key);
+
+      if (!stored) {
+        return NextResponse.json({ error: 'File not found' }, { status: 404 });
+      }
+
+      return new NextResponse(new Uint8Array(stored.body), {
+        headers: {
+          'Content-Type': signed.type,
+          'Content-Disposition': signed.disposition,
+          'Content-Length': stored.size.toString(),
+          'Cache-Control': 'private, no-store',
+          'X-Content-Type-Options': 'nosniff',
+        },
+      });
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+
+      console.error('Error serving stored file:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }, {
+    // The signature is the credential: links are handed out only after the caller's access was checked
+    policy: policies.public,
+  });
+}
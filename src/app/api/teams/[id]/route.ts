@@ -2,7 +2,8 @@
 // ABOUTME: Handles team retrieval, updates, and deletion
 
 import { z } from "zod";
-import { auth } from "@/lib/auth";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
 import { db } from "@/lib/prisma";
 import { NextRequest, NextResponse } from "next/server";
 import { teamSchemas, InputSanitizer } from "@/lib/validation";
@@ -12,191 +13,173 @@ interface RouteParams {
 }
 
 export async function GET(request: NextRequest, { params }: RouteParams) {
-  try {
-    const session = await auth();
-    const { id } = await params;
-
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Check permissions - only admin and team_lead can view team details
-    if (session.user.role === "user") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
-
-    const team = await db.team.findUnique({
-      where: { id },
-      include: {
-        members: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true,
-            isActive: true,
+  return withSecurity(request, async () => {
+    try {
+      const { id } = await params;
+
+      const team = await db.team.findUnique({
+        where: { id },
+        include: {
+          members: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              role: true,
+              isActive: true,
+            },
+            where: { isActive: true },
+            orderBy: { name: "asc" },
           },
-          where: { isActive: true },
-          orderBy: { name: "asc" },
         },
-      },
-    });
+      });
 
-    if (!team) {
-      return NextResponse.json({ error: "Team not found" }, { status: 404 });
-    }
+      if (!team) {
+        return NextResponse.json({ error: "Team not found" }, { status: 404 });
+      }
+
+      // Add member counts to response
+      const teamWithCounts = {
+        ...team,
+        memberCount: team.members?.length || 0,
+        activeMemberCount: team.members?.filter(m => m.isActive).length || 0,
+      };
 
-    // Add member counts to response
-    const teamWithCounts = {
-      ...team,
-      memberCount: team.members?.length || 0,
-      activeMemberCount: team.members?.filter(m => m.isActive).length || 0,
-    };
-
-    return NextResponse.json(teamWithCounts);
-  } catch (error) {
-    console.error("Team fetch error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+      return NextResponse.json(teamWithCounts);
+    } catch (error) {
+      console.error("Team fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.viewUsers,
+  });
 }
 
 export async function PUT(request: NextRequest, { params }: RouteParams) {
-  try {
-    const session = await auth();
-    const { id } = await params;
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+
+      const body = await req.json();
+
+      // Validate and sanitize input
+      const validatedData = teamSchemas.update.parse(body);
+      const sanitizedData = {
+        ...(validatedData.name && { name: InputSanitizer.sanitizeString(validatedData.name) }),
+        ...(validatedData.leaderId !== undefined && { leaderId: validatedData.leaderId || null }),
+      };
+
+      // Check if name is being changed and already exists
+      if (validatedData.name) {
+        const existingTeam = await db.team.findUnique({
+          where: { name: validatedData.name }
+        });
+
+        if (existingTeam && existingTeam.id !== id) {
+          return NextResponse.json(
+            { error: "Team with this name already exists" },
+            { status: 400 }
+          );
+        }
+      }
 
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+      // Update the team
+      const updatedTeam = await db.team.update({
+        where: { id },
+        data: sanitizedData,
+        include: {
+          members: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              role: true,
+              isActive: true,
+            },
+            where: { isActive: true },
+          },
+        },
+      });
 
-    // Only admins can update teams
-    if (session.user.role !== "admin") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
+      // Add member counts to response
+      const teamWithCounts = {
+        ...updatedTeam,
+        memberCount: updatedTeam.members?.length || 0,
+        activeMemberCount: updatedTeam.members?.filter(m => m.isActive).length || 0,
+      };
 
-    const body = await request.json();
-    
-    // Validate and sanitize input
-    const validatedData = teamSchemas.update.parse(body);
-    const sanitizedData = {
-      ...(validatedData.name && { name: InputSanitizer.sanitizeString(validatedData.name) }),
-      ...(validatedData.leaderId !== undefined && { leaderId: validatedData.leaderId || null }),
-    };
-
-    // Check if name is being changed and already exists
-    if (validatedData.name) {
-      const existingTeam = await db.team.findUnique({
-        where: { name: validatedData.name }
+      return NextResponse.json({
+        message: "Team updated successfully",
+        team: teamWithCounts
       });
 
-      if (existingTeam && existingTeam.id !== id) {
+    } catch (error) {
+      console.error("Team update error:", error);
+
+      if (error instanceof z.ZodError) {
         return NextResponse.json(
-          { error: "Team with this name already exists" },
+          { error: "Invalid input data", details: error.issues },
           { status: 400 }
         );
       }
-    }
-
-    // Update the team
-    const updatedTeam = await db.team.update({
-      where: { id },
-      data: sanitizedData,
-      include: {
-        members: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true,
-            isActive: true,
-          },
-          where: { isActive: true },
-        },
-      },
-    });
-
-    // Add member counts to response
-    const teamWithCounts = {
-      ...updatedTeam,
-      memberCount: updatedTeam.members?.length || 0,
-      activeMemberCount: updatedTeam.members?.filter(m => m.isActive).length || 0,
-    };
 
-    return NextResponse.json({
-      message: "Team updated successfully",
-      team: teamWithCounts
-    });
-
-  } catch (error) {
-    console.error("Team update error:", error);
-
-    if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: "Invalid input data", details: error.issues },
-        { status: 400 }
+        { error: "Internal server error" },
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.manageTeams,
+  });
 }
 
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
-  try {
-    const session = await auth();
-    const { id } = await params;
+  return withSecurity(request, async () => {
+    try {
+      const { id } = await params;
+
+      // Check if team exists and has members
+      const team = await db.team.findUnique({
+        where: { id },
+        include: {
+          members: {
+            select: { id: true },
+            where: { isActive: true },
+          },
+        },
+      });
 
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+      if (!team) {
+        return NextResponse.json({ error: "Team not found" }, { status: 404 });
+      }
 
-    // Only admins can delete teams
-    if (session.user.role !== "admin") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
+      if (team.members.length > 0) {
+        return NextResponse.json(
+          { error: "Cannot delete team with active members. Please reassign or deactivate members first." },
+          { status: 400 }
+        );
+      }
 
-    // Check if team exists and has members
-    const team = await db.team.findUnique({
-      where: { id },
-      include: {
-        members: {
-          select: { id: true },
-          where: { isActive: true },
-        },
-      },
-    });
+      // Delete the team
+      await db.team.delete({
+        where: { id },
+      });
 
-    if (!team) {
-      return NextResponse.json({ error: "Team not found" }, { status: 404 });
-    }
+      return NextResponse.json({
+        message: "Team deleted successfully"
+      });
 
-    if (team.members.length > 0) {
+    } catch (error) {
+      console.error("Team deletion error:", error);
       return NextResponse.json(
-        { error: "Cannot delete team with active members. Please reassign or deactivate members first." },
-        { status: 400 }
+        { error: "Internal server error" },
+        { status: 500 }
       );
     }
-
-    // Delete the team
-    await db.team.delete({
-      where: { id },
-    });
-
-    return NextResponse.json({
-      message: "Team deleted successfully"
-    });
-
-  } catch (error) {
-    console.error("Team deletion error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.manageTeams,
+  });
 }
\ No newline at end of file
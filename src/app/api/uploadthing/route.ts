@@ -1,6 +0,0 @@
-import { createRouteHandler } from "uploadthing/next";
-import { ourFileRouter } from "./core";
-
-export const { GET, POST } = createRouteHandler({
-  router: ourFileRouter,
-});
\ No newline at end of file
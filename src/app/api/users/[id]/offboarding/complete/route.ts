@@ -0,0 +1,52 @@
+// ABOUTME: API endpoint for signing off an offboarding
+// ABOUTME: Deactivates the user once everything is resolved and returns the signed-off report
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { offboardingSchemas } from "@/lib/validation";
+import { OffboardingService, OffboardingError } from "@/lib/offboarding";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+      const body = await req.json();
+      const { notes } = offboardingSchemas.complete.parse(body);
+
+      const offboarding = await OffboardingService.complete(id, req.user.id, notes);
+
+      return NextResponse.json({
+        message: "Offboarding signed off and user deactivated",
+        offboarding,
+      });
+    } catch (error) {
+      console.error("Offboarding sign-off error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof OffboardingError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageUsers,
+  });
+}
@@ -0,0 +1,54 @@
+// ABOUTME: API endpoint for resolving what a leaving user holds
+// ABOUTME: Returns or reassigns equipment, cancels or transfers subscriptions and cancels open requests and transfers
+
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { offboardingSchemas } from "@/lib/validation";
+import { OffboardingService, OffboardingError } from "@/lib/offboarding";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+      const body = await req.json();
+      const { actions } = offboardingSchemas.resolve.parse(body);
+
+      const offboarding = await OffboardingService.resolve(id, actions, req.user.id);
+      const holdings = await OffboardingService.getHoldings(id);
+
+      return NextResponse.json({
+        message: `${actions.length} item${actions.length === 1 ? "" : "s"} resolved`,
+        offboarding,
+        holdings,
+      });
+    } catch (error) {
+      console.error("Offboarding resolve error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof OffboardingError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageUsers,
+  });
+}
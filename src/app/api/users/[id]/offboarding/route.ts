@@ -0,0 +1,79 @@
+// ABOUTME: API endpoint for a user's offboarding
+// ABOUTME: Shows what the user still holds with the offboarding record, and starts offboarding
+
+import { NextRequest, NextResponse } from "next/server";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
+import { db } from "@/lib/prisma";
+import { OffboardingService, OffboardingError } from "@/lib/offboarding";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withSecurity(request, async () => {
+    try {
+      const { id } = await params;
+
+      const user = await db.user.findUnique({
+        where: { id },
+        select: { id: true, name: true, email: true, role: true, isActive: true },
+      });
+
+      if (!user) {
+        return NextResponse.json({ error: "User not found" }, { status: 404 });
+      }
+
+      const [holdings, offboarding] = await Promise.all([
+        OffboardingService.getHoldings(id),
+        OffboardingService.getLatest(id),
+      ]);
+
+      return NextResponse.json({ user, holdings, offboarding });
+    } catch (error) {
+      console.error("Offboarding fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageUsers,
+  });
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+
+      const offboarding = await OffboardingService.start(id, req.user.id);
+
+      if (!offboarding) {
+        return NextResponse.json({ error: "User not found" }, { status: 404 });
+      }
+
+      return NextResponse.json({
+        message: "Offboarding started",
+        offboarding,
+      }, { status: 201 });
+    } catch (error) {
+      console.error("Offboarding start error:", error);
+
+      if (error instanceof OffboardingError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.manageUsers,
+  });
+}
@@ -1,209 +1,226 @@
 // ABOUTME: Individual user API endpoint for GET, PUT, and DELETE operations
-// ABOUTME: Handles user retrieval, updates, and deactivation
+// ABOUTME: Handles user retrieval, updates, and deactivation once the user holds nothing
 
 import { z } from "zod";
-import { auth } from "@/lib/auth";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { authorizeResource, policies, resourcePolicies } from "@/lib/authorization";
 import { db } from "@/lib/prisma";
 import { NextRequest, NextResponse } from "next/server";
 import { userSchemas, InputSanitizer } from "@/lib/validation";
+import { OffboardingService } from "@/lib/offboarding";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-export async function GET(request: NextRequest, { params }: RouteParams) {
-  try {
-    const session = await auth();
-    const { id } = await params;
+// Deactivation waits until offboarding has reclaimed everything the user holds
+async function offboardingRequired(id: string) {
+  const outstanding = await OffboardingService.countOutstanding(id);
+  if (outstanding === 0) {
+    return null;
+  }
 
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+  return NextResponse.json(
+    {
+      error: `User still holds ${outstanding} item${outstanding === 1 ? "" : "s"}. Complete offboarding before deactivating.`,
+      offboardingUrl: `/admin/users/${id}/offboarding`,
+    },
+    { status: 409 }
+  );
+}
 
-    // Check permissions - only admin and team_lead can view user details
-    if (session.user.role === "user" && session.user.id !== id) {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
 
-    const user = await db.user.findUnique({
-      where: { id },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        role: true,
-        isActive: true,
-        createdAt: true,
-        updatedAt: true,
-        teamId: true,
-        team: {
-          select: {
-            id: true,
-            name: true,
+      // Users can view themselves; team leads and admins can view anyone
+      if (!(await authorizeResource(req.user, resourcePolicies.ownerOrManager, id))) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+
+      const user = await db.user.findUnique({
+        where: { id },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          role: true,
+          isActive: true,
+          createdAt: true,
+          updatedAt: true,
+          teamId: true,
+          team: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+          ownedEquipment: {
+            where: { status: "assigned" },
+            select: { id: true, name: true, serialNumber: true },
+          },
+          equipmentRequests: {
+            select: { id: true, status: true, equipmentType: true, createdAt: true },
+            orderBy: { createdAt: "desc" },
+            take: 10,
           },
         },
-        ownedEquipment: {
-          where: { status: "assigned" },
-          select: { id: true, name: true, serialNumber: true },
-        },
-        equipmentRequests: {
-          select: { id: true, status: true, equipmentType: true, createdAt: true },
-          orderBy: { createdAt: "desc" },
-          take: 10,
-        },
-      },
-    });
+      });
 
-    if (!user) {
-      return NextResponse.json({ error: "User not found" }, { status: 404 });
-    }
+      if (!user) {
+        return NextResponse.json({ error: "User not found" }, { status: 404 });
+      }
 
-    // Add counts for dashboard
-    const userWithCounts = {
-      ...user,
-      equipmentCount: user.ownedEquipment.length,
-      pendingRequestsCount: user.equipmentRequests.filter(r => r.status === "pending").length,
-    };
-
-    return NextResponse.json(userWithCounts);
-  } catch (error) {
-    console.error("User fetch error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+      // Add counts for dashboard
+      const userWithCounts = {
+        ...user,
+        equipmentCount: user.ownedEquipment.length,
+        pendingRequestsCount: user.equipmentRequests.filter(r => r.status === "pending").length,
+      };
+
+      return NextResponse.json(userWithCounts);
+    } catch (error) {
+      console.error("User fetch error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }, {
+    policy: policies.authenticated,
+  });
 }
 
 export async function PUT(request: NextRequest, { params }: RouteParams) {
-  try {
-    const session = await auth();
-    const { id } = await params;
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { id } = await params;
+
+      const body = await req.json();
+
+      // Validate and sanitize input
+      const validatedData = userSchemas.update.parse(body);
+      const sanitizedData = {
+        ...(validatedData.name && { name: InputSanitizer.sanitizeString(validatedData.name) }),
+        ...(validatedData.email && { email: InputSanitizer.sanitizeEmail(validatedData.email) }),
+        ...(validatedData.role && { role: validatedData.role }),
+        ...(validatedData.teamId !== undefined && { teamId: validatedData.teamId || null }),
+        ...(validatedData.isActive !== undefined && { isActive: validatedData.isActive }),
+      };
+
+      if (validatedData.isActive === false) {
+        const blocked = await offboardingRequired(id);
+        if (blocked) {
+          return blocked;
+        }
+      }
 
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+      // Check if email is being changed and already exists
+      if (validatedData.email) {
+        const existingUser = await db.user.findUnique({
+          where: { email: validatedData.email }
+        });
+
+        if (existingUser && existingUser.id !== id) {
+          return NextResponse.json(
+            { error: "User with this email already exists" },
+            { status: 400 }
+          );
+        }
+      }
 
-    // Only admins can update users
-    if (session.user.role !== "admin") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
+      // Update the user
+      const updatedUser = await db.user.update({
+        where: { id },
+        data: sanitizedData,
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          role: true,
+          isActive: true,
+          updatedAt: true,
+          teamId: true,
+        }
+      });
 
-    const body = await request.json();
-    
-    // Validate and sanitize input
-    const validatedData = userSchemas.update.parse(body);
-    const sanitizedData = {
-      ...(validatedData.name && { name: InputSanitizer.sanitizeString(validatedData.name) }),
-      ...(validatedData.email && { email: InputSanitizer.sanitizeEmail(validatedData.email) }),
-      ...(validatedData.role && { role: validatedData.role }),
-      ...(validatedData.teamId !== undefined && { teamId: validatedData.teamId || null }),
-      ...(validatedData.isActive !== undefined && { isActive: validatedData.isActive }),
-    };
-
-    // Check if email is being changed and already exists
-    if (validatedData.email) {
-      const existingUser = await db.user.findUnique({
-        where: { email: validatedData.email }
+      return NextResponse.json({
+        message: "User updated successfully",
+        user: updatedUser
       });
 
-      if (existingUser && existingUser.id !== id) {
+    } catch (error) {
+      console.error("User update error:", error);
+
+      if (error instanceof z.ZodError) {
         return NextResponse.json(
-          { error: "User with this email already exists" },
+          { error: "Invalid input data", details: error.issues },
           { status: 400 }
         );
       }
-    }
-
-    // Update the user
-    const updatedUser = await db.user.update({
-      where: { id },
-      data: sanitizedData,
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        role: true,
-        isActive: true,
-        updatedAt: true,
-        teamId: true,
-      }
-    });
-
-    return NextResponse.json({
-      message: "User updated successfully",
-      user: updatedUser
-    });
-
-  } catch (error) {
-    console.error("User update error:", error);
 
-    if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: "Invalid input data", details: error.issues },
-        { status: 400 }
+        { error: "Internal server error" },
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.manageUsers,
+  });
 }
 
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
-  try {
-    const session = await auth();
-    const { id } = await params;
+  return withSecurity(request, async () => {
+    try {
+      const { id } = await params;
+
+      // Prevent deactivating the last admin
+      const userToDeactivate = await db.user.findUnique({
+        where: { id },
+        select: { role: true }
+      });
 
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+      if (!userToDeactivate) {
+        return NextResponse.json({ error: "User not found" }, { status: 404 });
+      }
 
-    // Only admins can deactivate users
-    if (session.user.role !== "admin") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
+      if (userToDeactivate.role === "admin") {
+        const adminCount = await db.user.count({
+          where: { role: "admin", isActive: true }
+        });
+
+        if (adminCount <= 1) {
+          return NextResponse.json(
+            { error: "Cannot deactivate the last administrator" },
+            { status: 400 }
+          );
+        }
+      }
 
-    // Prevent deactivating the last admin
-    const userToDeactivate = await db.user.findUnique({
-      where: { id },
-      select: { role: true }
-    });
+      const blocked = await offboardingRequired(id);
+      if (blocked) {
+        return blocked;
+      }
 
-    if (!userToDeactivate) {
-      return NextResponse.json({ error: "User not found" }, { status: 404 });
-    }
+      // Deactivate the user (soft delete)
+      await db.user.update({
+        where: { id },
+        data: { isActive: false }
+      });
 
-    if (userToDeactivate.role === "admin") {
-      const adminCount = await db.user.count({
-        where: { role: "admin", isActive: true }
+      return NextResponse.json({
+        message: "User deactivated successfully"
       });
 
-      if (adminCount <= 1) {
-        return NextResponse.json(
-          { error: "Cannot deactivate the last administrator" },
-          { status: 400 }
-        );
-      }
+    } catch (error) {
+      console.error("User deactivation error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
     }
-
-    // Deactivate the user (soft delete)
-    await db.user.update({
-      where: { id },
-      data: { isActive: false }
-    });
-
-    return NextResponse.json({
-      message: "User deactivated successfully"
-    });
-
-  } catch (error) {
-    console.error("User deactivation error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.manageUsers,
+  });
 }
\ No newline at end of file
@@ -1,147 +1,151 @@
 // ABOUTME: API endpoint for user management operations
-// ABOUTME: Handles GET requests for user listing and POST for creating new users
+// ABOUTME: Handles GET requests for user listing and POST for creating new users with an optional onboarding kit
 
 import { z } from "zod";
-import { auth } from "@/lib/auth";
+import { withSecurity, type AuthenticatedRequest } from "@/lib/security-middleware";
+import { policies } from "@/lib/authorization";
 import { db } from "@/lib/prisma";
 import { NextRequest, NextResponse } from "next/server";
 import { userSchemas, InputSanitizer } from "@/lib/validation";
+import { OnboardingKitService, OnboardingKitError } from "@/lib/onboarding-kits";
 
 export async function GET(request: NextRequest) {
-  try {
-    const session = await auth();
-
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const { searchParams } = new URL(request.url);
-    const activeOnly = searchParams.get("active") === "true";
-    const includeTeam = searchParams.get("includeTeam") === "true";
-
-    // Check permissions - only admin and team_lead can view all users
-    if (session.user.role === "user") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
-
-    const users = await db.user.findMany({
-      where: activeOnly ? { isActive: true } : undefined,
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        role: true,
-        isActive: true,
-        createdAt: true,
-        teamId: true,
-        team: includeTeam
-          ? {
-              select: {
-                id: true,
-                name: true,
-              },
-            }
-          : false,
-        ownedEquipment: {
-          where: { status: "assigned" },
-          select: { id: true },
-        },
-        equipmentRequests: {
-          where: { status: "pending" },
-          select: { id: true },
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = new URL(req.url);
+      const activeOnly = searchParams.get("active") === "true";
+      const includeTeam = searchParams.get("includeTeam") === "true";
+
+      const users = await db.user.findMany({
+        where: activeOnly ? { isActive: true } : undefined,
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          role: true,
+          isActive: true,
+          createdAt: true,
+          teamId: true,
+          team: includeTeam
+            ? {
+                select: {
+                  id: true,
+                  name: true,
+                },
+              }
+            : false,
+          ownedEquipment: {
+            where: { status: "assigned" },
+            select: { id: true },
+          },
+          equipmentRequests: {
+            where: { status: "pending" },
+            select: { id: true },
+          },
         },
-      },
-      orderBy: { name: "asc" },
-    });
-
-    // Add counts to response
-    const usersWithCounts = users.map((user) => ({
-      ...user,
-      equipmentCount: user.ownedEquipment.length,
-      pendingRequestsCount: user.equipmentRequests.length,
-      ownedEquipment: undefined, // Remove from response
-      equipmentRequests: undefined, // Remove from response
-    }));
-
-    return NextResponse.json(usersWithCounts);
-  } catch (error) {
-    console.error("Users fetch error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
-}
-
-export async function POST(request: NextRequest) {
-  try {
-    const session = await auth();
-
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Only admins can create users
-    if (session.user.role !== "admin") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
-
-    const body = await request.json();
-    
-    // Validate and sanitize input
-    const validatedData = userSchemas.create.parse(body);
-    const sanitizedData = {
-      name: InputSanitizer.sanitizeString(validatedData.name),
-      email: InputSanitizer.sanitizeEmail(validatedData.email),
-      role: validatedData.role,
-      teamId: validatedData.teamId || null,
-      isActive: true,
-    };
-
-    // Check if user already exists
-    const existingUser = await db.user.findUnique({
-      where: { email: sanitizedData.email }
-    });
-
-    if (existingUser) {
+        orderBy: { name: "asc" },
+      });
+
+      // Add counts to response
+      const usersWithCounts = users.map((user) => ({
+        ...user,
+        equipmentCount: user.ownedEquipment.length,
+        pendingRequestsCount: user.equipmentRequests.length,
+        ownedEquipment: undefined, // Remove from response
+        equipmentRequests: undefined, // Remove from response
+      }));
+
+      return NextResponse.json(usersWithCounts);
+    } catch (error) {
+      console.error("Users fetch error:", error);
       return NextResponse.json(
-        { error: "User with this email already exists" },
-        { status: 400 }
+        { error: "Internal server error" },
+        { status: 500 }
       );
     }
+  }, {
+    policy: policies.viewUsers,
+  });
+}
 
-    // Create the user
-    const newUser = await db.user.create({
-      data: sanitizedData,
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        role: true,
+export async function POST(request: NextRequest) {
+  return withSecurity(request, async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+
+      // Validate and sanitize input
+      const validatedData = userSchemas.create.parse(body);
+      const sanitizedData = {
+        name: InputSanitizer.sanitizeString(validatedData.name),
+        email: InputSanitizer.sanitizeEmail(validatedData.email),
+        role: validatedData.role,
+        teamId: validatedData.teamId || null,
         isActive: true,
-        createdAt: true,
-        teamId: true,
+      };
+
+      // Check if user already exists
+      const existingUser = await db.user.findUnique({
+        where: { email: sanitizedData.email }
+      });
+
+      if (existingUser) {
+        return NextResponse.json(
+          { error: "User with this email already exists" },
+          { status: 400 }
+        );
       }
-    });
 
-    return NextResponse.json({
-      message: "User created successfully",
-      user: newUser
-    }, { status: 201 });
+      // Create the user, with their onboarding kit request if one was chosen
+      const { newUser, onboardingRequest } = await db.$transaction(async (tx) => {
+        const newUser = await tx.user.create({
+          data: sanitizedData,
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            role: true,
+            isActive: true,
+            createdAt: true,
+            teamId: true,
+          }
+        });
+
+        const onboardingRequest = validatedData.onboardingKitId
+          ? await OnboardingKitService.spawnRequest(tx, validatedData.onboardingKitId, newUser.id, req.user.id)
+          : null;
+
+        return { newUser, onboardingRequest };
+      });
+
+      return NextResponse.json({
+        message: "User created successfully",
+        user: newUser,
+        onboardingRequest,
+      }, { status: 201 });
+
+    } catch (error) {
+      console.error("User creation error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid input data", details: error.issues },
+          { status: 400 }
+        );
+      }
 
-  } catch (error) {
-    console.error("User creation error:", error);
+      if (error instanceof OnboardingKitError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
 
-    if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: "Invalid input data", details: error.issues },
-        { status: 400 }
+        { error: "Internal server error" },
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
+  }, {
+    policy: policies.manageUsers,
+  });
 }
@@ -1,5 +1,5 @@
 // ABOUTME: Sign up page for ProfiCo Inventory Management System
-// ABOUTME: Handles new user registration with email/password and role assignment
+// ABOUTME: Handles new user registration with email/password unless an admin has closed registration
 
 "use client";
 
@@ -15,13 +15,6 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
 import { toast } from "react-hot-toast";
 import Link from "next/link";
 import bcrypt from "bcryptjs";
@@ -31,7 +24,6 @@ export default function SignUpPage() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
-  const [role, setRole] = useState<string>("user");
   const [isLoading, setIsLoading] = useState(false);
   const router = useRouter();
 
@@ -64,7 +56,6 @@ export default function SignUpPage() {
           name,
           email,
           password: hashedPassword,
-          role,
         }),
       });
 
@@ -116,19 +107,6 @@ export default function SignUpPage() {
                 required
               />
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="role">Role</Label>
-              <Select value={role} onValueChange={setRole}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select your role" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="user">User</SelectItem>
-                  <SelectItem value="team_lead">Team Lead</SelectItem>
-                  <SelectItem value="admin">Admin</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
             <div className="space-y-2">
               <Label htmlFor="password">Password</Label>
               <Input
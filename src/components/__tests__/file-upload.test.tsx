@@ -4,13 +4,8 @@
 import { render, screen } from "@testing-library/react";
 import { FileUpload } from "@/components/file-upload";
 
-// Mock UploadThing components
-jest.mock("@uploadthing/react", () => ({
-  UploadButton: ({ className, children }: any) => (
-    <button className={className} data-testid="upload-button">
-      {children}
-    </button>
-  ),
+jest.mock("sonner", () => ({
+  toast: { error: jest.fn(), success: jest.fn() },
 }));
 
 // Mock UI components
@@ -104,7 +99,6 @@ describe("FileUpload", () => {
       render(<FileUpload type="equipmentImage" />);
 
       expect(screen.getByText(/JPG, PNG, WebP/)).toBeInTheDocument();
-      expect(screen.getByText(/4MB/)).toBeInTheDocument();
       expect(screen.getByText(/Max 1 files/)).toBeInTheDocument();
     });
 
@@ -112,7 +106,6 @@ describe("FileUpload", () => {
       render(<FileUpload type="invoice" />);
 
       expect(screen.getByText(/Images & PDFs/)).toBeInTheDocument();
-      expect(screen.getByText(/10MB/)).toBeInTheDocument();
       expect(screen.getByText(/Max 5 files/)).toBeInTheDocument();
     });
 
@@ -120,10 +113,15 @@ describe("FileUpload", () => {
       render(<FileUpload type="document" />);
 
       expect(screen.getByText(/Images & PDFs/)).toBeInTheDocument();
-      expect(screen.getByText(/4MB/)).toBeInTheDocument();
       expect(screen.getByText(/Max 3 files/)).toBeInTheDocument();
     });
 
+    it("should show the configured size limit when provided", () => {
+      render(<FileUpload type="invoice" maxFileSizeMb={25} />);
+
+      expect(screen.getByText(/up to 25MB/)).toBeInTheDocument();
+    });
+
     it("should use custom max files when provided", () => {
       // Note: This test documents expected behavior but may fail due to component bug
       // The maxFiles prop is not currently being used in getTypeConfig function
@@ -255,12 +253,20 @@ describe("FileUpload", () => {
   });
 
   describe("Upload Button", () => {
-    it("should render upload button with correct styling", () => {
+    it("should render a file picker limited to the accepted types", () => {
       render(<FileUpload type="equipmentImage" />);
 
-      const uploadButton = screen.getByTestId("upload-button");
-      expect(uploadButton).toBeInTheDocument();
-      expect(uploadButton).toHaveClass("ut-button:bg-primary", "ut-button:hover:bg-primary/90");
+      const fileInput = screen.getByTestId("file-input");
+      expect(fileInput).toHaveAttribute("type", "file");
+      expect(fileInput).toHaveAttribute("accept", "image/jpeg,image/png,image/webp,image/gif");
+      expect(fileInput).not.toHaveAttribute("multiple");
+      expect(screen.getByText("Choose Files")).toBeInTheDocument();
+    });
+
+    it("should allow several files for documents", () => {
+      render(<FileUpload type="document" />);
+
+      expect(screen.getByTestId("file-input")).toHaveAttribute("multiple");
     });
   });
 
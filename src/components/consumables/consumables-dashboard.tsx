@@ -0,0 +1,641 @@
+// ABOUTME: Consumables dashboard component for small-inventory stock management
+// ABOUTME: Lists stock levels with low-stock alerts, records check-ins and check-outs and shows movement history
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { AlertTriangle, ArrowDownToLine, ArrowUpFromLine, Boxes, History, Plus, Search } from "lucide-react";
+import { format } from "date-fns";
+
+interface Consumable {
+  id: string;
+  name: string;
+  category: string;
+  currentStock: number;
+  minStock: number;
+  maxStock?: number | null;
+  unitPrice?: number | null;
+  location?: string | null;
+  notes?: string | null;
+  isLowStock: boolean;
+}
+
+interface StockMovement {
+  id: string;
+  type: "check_in" | "check_out" | "adjustment";
+  quantity: number;
+  balanceAfter: number;
+  reason: string;
+  createdAt: string;
+  performedBy: { id: string; name: string };
+  recipient?: { id: string; name: string } | null;
+  request?: { id: string } | null;
+}
+
+interface UserOption {
+  id: string;
+  name: string;
+}
+
+interface ConsumablesDashboardProps {
+  userRole: "admin" | "team_lead" | "user";
+}
+
+type MovementType = StockMovement["type"];
+
+const movementLabels: Record<MovementType, string> = {
+  check_in: "Check in",
+  check_out: "Check out",
+  adjustment: "Adjustment",
+};
+
+const emptyItemForm = {
+  name: "",
+  category: "",
+  currentStock: "0",
+  minStock: "0",
+  maxStock: "",
+  unitPrice: "",
+  location: "",
+  notes: "",
+};
+
+const emptyMovementForm = {
+  type: "check_out" as MovementType,
+  quantity: "1",
+  reason: "",
+  recipientId: "",
+};
+
+export function ConsumablesDashboard({ userRole }: ConsumablesDashboardProps) {
+  const [items, setItems] = useState<Consumable[]>([]);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [itemForm, setItemForm] = useState(emptyItemForm);
+  const [movementItem, setMovementItem] = useState<Consumable | null>(null);
+  const [movementForm, setMovementForm] = useState(emptyMovementForm);
+  const [historyItem, setHistoryItem] = useState<Consumable | null>(null);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+
+  useEffect(() => {
+    fetchItems();
+
+    // Users are needed to record who received items on check-out
+    fetch("/api/users?active=true")
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setUsers)
+      .catch(() => setUsers([]));
+  }, []);
+
+  const fetchItems = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/consumables");
+      if (response.ok) {
+        setItems(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch consumables:", error);
+      toast.error("Failed to load consumables");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreateItem = async () => {
+    try {
+      const response = await fetch("/api/consumables", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name: itemForm.name,
+          category: itemForm.category,
+          currentStock: parseInt(itemForm.currentStock, 10) || 0,
+          minStock: parseInt(itemForm.minStock, 10) || 0,
+          maxStock: itemForm.maxStock ? parseInt(itemForm.maxStock, 10) : undefined,
+          unitPrice: itemForm.unitPrice ? parseFloat(itemForm.unitPrice) : undefined,
+          location: itemForm.location || undefined,
+          notes: itemForm.notes || undefined,
+        }),
+      });
+
+      if (response.ok) {
+        toast.success("Consumable created successfully");
+        setIsCreateDialogOpen(false);
+        setItemForm(emptyItemForm);
+        fetchItems();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to create consumable");
+      }
+    } catch (error) {
+      console.error("Create consumable error:", error);
+      toast.error("Failed to create consumable");
+    }
+  };
+
+  const openMovementDialog = (item: Consumable, type: MovementType) => {
+    setMovementItem(item);
+    setMovementForm({ ...emptyMovementForm, type });
+  };
+
+  const handleRecordMovement = async () => {
+    if (!movementItem) return;
+
+    try {
+      const response = await fetch(`/api/consumables/${movementItem.id}/movements`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          type: movementForm.type,
+          quantity: parseInt(movementForm.quantity, 10),
+          reason: movementForm.reason,
+          recipientId: movementForm.type === "check_out" && movementForm.recipientId
+            ? movementForm.recipientId
+            : undefined,
+        }),
+      });
+
+      if (response.ok) {
+        const { item } = await response.json();
+        toast.success(`Stock updated: ${item.currentStock} ${item.name} in stock`);
+        setMovementItem(null);
+        fetchItems();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to record stock movement");
+      }
+    } catch (error) {
+      console.error("Stock movement error:", error);
+      toast.error("Failed to record stock movement");
+    }
+  };
+
+  const openHistory = async (item: Consumable) => {
+    setHistoryItem(item);
+    setMovements([]);
+
+    try {
+      const response = await fetch(`/api/consumables/${item.id}/movements`);
+      if (response.ok) {
+        setMovements(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch stock movements:", error);
+      toast.error("Failed to load stock history");
+    }
+  };
+
+  const handleDeleteItem = async (item: Consumable) => {
+    if (!confirm(`Delete ${item.name}? Its stock history will be removed as well.`)) return;
+
+    try {
+      const response = await fetch(`/api/consumables/${item.id}`, { method: "DELETE" });
+
+      if (response.ok) {
+        toast.success("Consumable deleted successfully");
+        fetchItems();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to delete consumable");
+      }
+    } catch (error) {
+      console.error("Delete consumable error:", error);
+      toast.error("Failed to delete consumable");
+    }
+  };
+
+  const lowStockItems = items.filter((item) => item.isLowStock);
+  const filteredItems = searchTerm
+    ? items.filter((item) =>
+        item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        item.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        (item.location || "").toLowerCase().includes(searchTerm.toLowerCase())
+      )
+    : items;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Consumables</h1>
+          <p className="text-gray-600">
+            Cables, adapters, mice and other items tracked by quantity
+          </p>
+        </div>
+
+        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              New Item
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add Consumable</DialogTitle>
+              <DialogDescription>
+                Opening stock is recorded as the first check-in.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="col-span-2">
+                <Label htmlFor="item-name">Name</Label>
+                <Input
+                  id="item-name"
+                  value={itemForm.name}
+                  onChange={(e) => setItemForm({ ...itemForm, name: e.target.value })}
+                  placeholder="USB-C to HDMI adapter"
+                />
+              </div>
+              <div>
+                <Label htmlFor="item-category">Category</Label>
+                <Input
+                  id="item-category"
+                  value={itemForm.category}
+                  onChange={(e) => setItemForm({ ...itemForm, category: e.target.value })}
+                  placeholder="adapters"
+                />
+              </div>
+              <div>
+                <Label htmlFor="item-location">Location</Label>
+                <Input
+                  id="item-location"
+                  value={itemForm.location}
+                  onChange={(e) => setItemForm({ ...itemForm, location: e.target.value })}
+                  placeholder="Zagreb Office"
+                />
+              </div>
+              <div>
+                <Label htmlFor="item-stock">Opening stock</Label>
+                <Input
+                  id="item-stock"
+                  type="number"
+                  min="0"
+                  value={itemForm.currentStock}
+                  onChange={(e) => setItemForm({ ...itemForm, currentStock: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="item-unit-price">Unit price (€)</Label>
+                <Input
+                  id="item-unit-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={itemForm.unitPrice}
+                  onChange={(e) => setItemForm({ ...itemForm, unitPrice: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="item-min-stock">Minimum stock</Label>
+                <Input
+                  id="item-min-stock"
+                  type="number"
+                  min="0"
+                  value={itemForm.minStock}
+                  onChange={(e) => setItemForm({ ...itemForm, minStock: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="item-max-stock">Maximum stock</Label>
+                <Input
+                  id="item-max-stock"
+                  type="number"
+                  min="1"
+                  value={itemForm.maxStock}
+                  onChange={(e) => setItemForm({ ...itemForm, maxStock: e.target.value })}
+                />
+              </div>
+              <div className="col-span-2">
+                <Label htmlFor="item-notes">Notes</Label>
+                <Textarea
+                  id="item-notes"
+                  value={itemForm.notes}
+                  onChange={(e) => setItemForm({ ...itemForm, notes: e.target.value })}
+                  rows={2}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreateItem} disabled={!itemForm.name || !itemForm.category}>
+                Create Item
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {lowStockItems.length > 0 && (
+        <Card className="border-orange-200 bg-orange-50">
+          <CardHeader>
+            <CardTitle className="flex items-center text-orange-800">
+              <AlertTriangle className="h-5 w-5 mr-2" />
+              Low Stock ({lowStockItems.length})
+            </CardTitle>
+            <CardDescription className="text-orange-700">
+              These items are below their minimum stock level and should be reordered
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap gap-2">
+              {lowStockItems.map((item) => (
+                <Badge key={item.id} variant="outline" className="border-orange-300 text-orange-800">
+                  {item.name}: {item.currentStock} / {item.minStock}
+                </Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Boxes className="h-5 w-5 mr-2" />
+            Stock
+          </CardTitle>
+          <CardDescription>
+            Every check-in and check-out is recorded with who made it and why
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search by name, category or location..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading consumables...</p>
+          ) : filteredItems.length === 0 ? (
+            <p className="text-sm text-gray-500">No consumables found.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead className="text-right">In stock</TableHead>
+                  <TableHead className="text-right">Min / Max</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredItems.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium">{item.name}</TableCell>
+                    <TableCell>{item.category}</TableCell>
+                    <TableCell>{item.location || "-"}</TableCell>
+                    <TableCell className="text-right">
+                      <span className={item.isLowStock ? "font-semibold text-orange-600" : ""}>
+                        {item.currentStock}
+                      </span>
+                      {item.isLowStock && (
+                        <Badge variant="outline" className="ml-2 border-orange-300 text-orange-700">
+                          Low
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right text-gray-600">
+                      {item.minStock} / {item.maxStock ?? "-"}
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button size="sm" variant="outline" onClick={() => openMovementDialog(item, "check_in")}>
+                        <ArrowDownToLine className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => openMovementDialog(item, "check_out")}
+                        disabled={item.currentStock === 0}
+                      >
+                        <ArrowUpFromLine className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => openHistory(item)}>
+                        <History className="h-4 w-4" />
+                      </Button>
+                      {userRole === "admin" && (
+                        <Button size="sm" variant="ghost" onClick={() => handleDeleteItem(item)}>
+                          Delete
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Stock movement dialog */}
+      <Dialog open={!!movementItem} onOpenChange={(open) => !open && setMovementItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {movementLabels[movementForm.type]}: {movementItem?.name}
+            </DialogTitle>
+            <DialogDescription>
+              Currently {movementItem?.currentStock} in stock
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="movement-type">Type</Label>
+                <Select
+                  value={movementForm.type}
+                  onValueChange={(value) =>
+                    setMovementForm({ ...movementForm, type: value as MovementType })
+                  }
+                >
+                  <SelectTrigger id="movement-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(movementLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="movement-quantity">
+                  {movementForm.type === "adjustment" ? "Change (+/-)" : "Quantity"}
+                </Label>
+                <Input
+                  id="movement-quantity"
+                  type="number"
+                  min={movementForm.type === "adjustment" ? undefined : "1"}
+                  value={movementForm.quantity}
+                  onChange={(e) => setMovementForm({ ...movementForm, quantity: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {movementForm.type === "check_out" && (
+              <div>
+                <Label htmlFor="movement-recipient">Given to</Label>
+                <Select
+                  value={movementForm.recipientId}
+                  onValueChange={(value) => setMovementForm({ ...movementForm, recipientId: value })}
+                >
+                  <SelectTrigger id="movement-recipient">
+                    <SelectValue placeholder="Select user (optional)" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users.map((user) => (
+                      <SelectItem key={user.id} value={user.id}>
+                        {user.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="movement-reason">Reason</Label>
+              <Textarea
+                id="movement-reason"
+                value={movementForm.reason}
+                onChange={(e) => setMovementForm({ ...movementForm, reason: e.target.value })}
+                placeholder={
+                  movementForm.type === "check_in"
+                    ? "Restocked from supplier order"
+                    : movementForm.type === "check_out"
+                      ? "Replacement for broken cable"
+                      : "Stocktake correction"
+                }
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMovementItem(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRecordMovement}
+              disabled={!movementForm.reason || !parseInt(movementForm.quantity, 10)}
+            >
+              Record Movement
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Movement history dialog */}
+      <Dialog open={!!historyItem} onOpenChange={(open) => !open && setHistoryItem(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Stock History: {historyItem?.name}</DialogTitle>
+            <DialogDescription>Most recent movements first</DialogDescription>
+          </DialogHeader>
+
+          {movements.length === 0 ? (
+            <p className="text-sm text-gray-500">No stock movements recorded.</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {movements.map((movement) => (
+                    <TableRow key={movement.id}>
+                      <TableCell>{format(new Date(movement.createdAt), "MMM d, yyyy HH:mm")}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{movementLabels[movement.type]}</Badge>
+                      </TableCell>
+                      <TableCell
+                        className={`text-right ${movement.quantity < 0 ? "text-red-600" : "text-green-600"}`}
+                      >
+                        {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                      </TableCell>
+                      <TableCell className="text-right">{movement.balanceAfter}</TableCell>
+                      <TableCell>
+                        {movement.performedBy.name}
+                        {movement.recipient && (
+                          <span className="block text-xs text-gray-500">
+                            to {movement.recipient.name}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{movement.reason}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,362 @@
+// ABOUTME: Disposal approval dashboard for administrators
+// ABOUTME: Lists equipment disposal requests and lets admins approve them into write-offs or reject them
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { Archive, Check, FileText, X } from "lucide-react";
+import { format } from "date-fns";
+
+type DisposalStatus = "pending" | "approved" | "rejected";
+
+interface UserSummary {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface Disposal {
+  id: string;
+  reason: string;
+  disposalDate: string;
+  saleProceeds: number;
+  dataWiped: boolean;
+  dataWipedAt: string | null;
+  notes: string | null;
+  status: DisposalStatus;
+  bookValue: number | null;
+  writeOffAmount: number | null;
+  reviewNotes: string | null;
+  createdAt: string;
+  equipment: { id: string; name: string; serialNumber: string; category: string; purchasePrice: number | null };
+  requestedBy: UserSummary;
+  reviewedBy: UserSummary | null;
+  dataWipedBy: UserSummary | null;
+  certificateFile: { id: string; name: string; url: string } | null;
+}
+
+interface DisposalListResponse {
+  disposals: Disposal[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+const statusVariants: Record<DisposalStatus, "default" | "secondary" | "destructive"> = {
+  approved: "default",
+  pending: "secondary",
+  rejected: "destructive",
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "EUR",
+  }).format(amount);
+};
+
+export function DisposalApprovalDashboard() {
+  const [list, setList] = useState<DisposalListResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<"all" | DisposalStatus>("pending");
+  const [page, setPage] = useState(1);
+  const [reviewing, setReviewing] = useState<{ disposal: Disposal; action: "approve" | "reject" } | null>(null);
+  const [reviewNotes, setReviewNotes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchDisposals = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ page: String(page) });
+      if (statusFilter !== "all") {
+        params.set("status", statusFilter);
+      }
+
+      const response = await fetch(`/api/disposals?${params}`);
+      if (response.ok) {
+        setList(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch disposals:", error);
+      toast.error("Failed to load disposals");
+    } finally {
+      setLoading(false);
+    }
+  }, [page, statusFilter]);
+
+  useEffect(() => {
+    fetchDisposals();
+  }, [fetchDisposals]);
+
+  const openReview = (disposal: Disposal, action: "approve" | "reject") => {
+    setReviewNotes("");
+    setReviewing({ disposal, action });
+  };
+
+  const handleReview = async () => {
+    if (!reviewing) {
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/disposals/${reviewing.disposal.id}/${reviewing.action}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ notes: reviewNotes || undefined }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to ${reviewing.action} disposal`);
+      }
+
+      if (reviewing.action === "approve") {
+        toast.success(
+          `${reviewing.disposal.equipment.name} decommissioned, ${formatCurrency(result.disposal.writeOffAmount)} written off`
+        );
+      } else {
+        toast.success("Disposal rejected");
+      }
+      setReviewing(null);
+      fetchDisposals();
+    } catch (error) {
+      console.error("Disposal review error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to review disposal");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Equipment Disposals</h1>
+        <p className="text-gray-600">
+          Approve disposals to decommission equipment and write off its remaining book value
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center">
+                <Archive className="h-5 w-5 mr-2" />
+                Disposal Requests
+              </CardTitle>
+              <CardDescription>
+                Write-offs are book value on the disposal date less any sale proceeds
+              </CardDescription>
+            </div>
+            <Select
+              value={statusFilter}
+              onValueChange={(value) => {
+                setStatusFilter(value as "all" | DisposalStatus);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading && !list ? (
+            <p className="text-gray-500 text-center py-8">Loading disposals...</p>
+          ) : !list || list.disposals.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No disposals found</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Equipment</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Disposal Date</TableHead>
+                  <TableHead>Data Wipe</TableHead>
+                  <TableHead className="text-right">Proceeds</TableHead>
+                  <TableHead className="text-right">Write-Off</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {list.disposals.map((disposal) => (
+                  <TableRow key={disposal.id}>
+                    <TableCell>
+                      <Link href={`/equipment/${disposal.equipment.id}`} className="font-medium hover:underline">
+                        {disposal.equipment.name}
+                      </Link>
+                      <p className="text-xs text-gray-500">{disposal.equipment.serialNumber}</p>
+                      <p className="text-xs text-gray-500">Requested by {disposal.requestedBy.name}</p>
+                    </TableCell>
+                    <TableCell className="capitalize">
+                      {disposal.reason}
+                      {disposal.notes && <p className="text-xs text-gray-500 normal-case">{disposal.notes}</p>}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(disposal.disposalDate), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      {disposal.dataWiped ? (
+                        <span className="text-sm">
+                          Wiped{disposal.dataWipedBy && ` by ${disposal.dataWipedBy.name}`}
+                        </span>
+                      ) : (
+                        <span className="text-sm text-gray-500">Not applicable</span>
+                      )}
+                      {disposal.certificateFile && (
+                        <a
+                          href={disposal.certificateFile.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center text-xs text-blue-600 hover:underline mt-1"
+                        >
+                          <FileText className="h-3 w-3 mr-1" />
+                          {disposal.certificateFile.name}
+                        </a>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(disposal.saleProceeds)}</TableCell>
+                    <TableCell className="text-right">
+                      {disposal.writeOffAmount !== null ? formatCurrency(disposal.writeOffAmount) : "-"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariants[disposal.status]}>{disposal.status}</Badge>
+                      {disposal.reviewedBy && (
+                        <p className="text-xs text-gray-500 mt-1">by {disposal.reviewedBy.name}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      {disposal.status === "pending" && (
+                        <>
+                          <Button size="sm" onClick={() => openReview(disposal, "approve")}>
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => openReview(disposal, "reject")}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {list && list.pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4">
+              <p className="text-sm text-gray-600">
+                Page {list.pagination.page} of {list.pagination.totalPages}
+              </p>
+              <div className="space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= list.pagination.totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.action === "approve" ? "Approve" : "Reject"} disposal of {reviewing?.disposal.equipment.name}?
+            </DialogTitle>
+            <DialogDescription>
+              {reviewing?.action === "approve"
+                ? "The equipment is decommissioned and its book value on the disposal date is written off. This cannot be undone."
+                : "The equipment stays in service with its current status."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review-notes">Notes</Label>
+            <Textarea
+              id="review-notes"
+              value={reviewNotes}
+              onChange={(e) => setReviewNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewing?.action === "reject" ? "destructive" : "default"}
+              onClick={handleReview}
+              disabled={submitting}
+            >
+              {reviewing?.action === "approve" ? "Approve Disposal" : "Reject Disposal"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
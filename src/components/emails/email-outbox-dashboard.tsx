@@ -0,0 +1,344 @@
+// ABOUTME: Email log dashboard for administrators
+// ABOUTME: Lists recently sent, pending and failed emails with a message preview and manual retry
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { Eye, Mail, RefreshCw, RotateCcw } from "lucide-react";
+import { format } from "date-fns";
+
+type DeliveryStatus = "pending" | "sending" | "sent" | "failed";
+
+interface EmailDelivery {
+  id: string;
+  to: string[];
+  subject: string;
+  transport: string;
+  status: DeliveryStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+interface EmailPreview extends EmailDelivery {
+  html: string;
+  text: string;
+}
+
+interface EmailLogResponse {
+  deliveries: EmailDelivery[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+  counts: Record<DeliveryStatus, number>;
+}
+
+const statusVariants: Record<DeliveryStatus, "default" | "secondary" | "destructive"> = {
+  sent: "default",
+  pending: "secondary",
+  sending: "secondary",
+  failed: "destructive",
+};
+
+export function EmailOutboxDashboard() {
+  const [log, setLog] = useState<EmailLogResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<"all" | DeliveryStatus>("all");
+  const [page, setPage] = useState(1);
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [processing, setProcessing] = useState(false);
+
+  const fetchLog = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ page: String(page) });
+      if (statusFilter !== "all") {
+        params.set("status", statusFilter);
+      }
+
+      const response = await fetch(`/api/emails?${params}`);
+      if (response.ok) {
+        setLog(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch email log:", error);
+      toast.error("Failed to load email log");
+    } finally {
+      setLoading(false);
+    }
+  }, [page, statusFilter]);
+
+  useEffect(() => {
+    fetchLog();
+  }, [fetchLog]);
+
+  const openPreview = async (id: string) => {
+    try {
+      const response = await fetch(`/api/emails/${id}`);
+      if (!response.ok) {
+        throw new Error("Failed to load email");
+      }
+      setPreview(await response.json());
+    } catch (error) {
+      console.error("Email preview error:", error);
+      toast.error("Failed to load email");
+    }
+  };
+
+  const handleRetry = async (id: string) => {
+    setRetryingId(id);
+
+    try {
+      const response = await fetch(`/api/emails/${id}/retry`, { method: "POST" });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to retry email");
+      }
+
+      if (result.delivery.status === "sent") {
+        toast.success("Email sent successfully");
+      } else {
+        toast.error(result.delivery.lastError || "Email could not be sent");
+      }
+      fetchLog();
+    } catch (error) {
+      console.error("Email retry error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to retry email");
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const handleProcessDue = async () => {
+    setProcessing(true);
+
+    try {
+      const response = await fetch("/api/emails", { method: "POST" });
+      if (!response.ok) {
+        throw new Error("Failed to process retries");
+      }
+
+      const result = await response.json();
+      toast.success(`${result.sent} sent, ${result.retrying} still retrying, ${result.failed} failed`);
+      fetchLog();
+    } catch (error) {
+      console.error("Email retry processing error:", error);
+      toast.error("Failed to process retries");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Email Log</h1>
+          <p className="text-gray-600">
+            Recently sent and failed notification emails
+          </p>
+        </div>
+
+        <Button onClick={handleProcessDue} disabled={processing}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${processing ? "animate-spin" : ""}`} />
+          Run Due Retries
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {(["sent", "pending", "failed"] as DeliveryStatus[]).map((status) => (
+          <Card key={status}>
+            <CardHeader className="pb-2">
+              <CardDescription className="capitalize">{status}</CardDescription>
+              <CardTitle className="text-2xl">{log?.counts[status] ?? 0}</CardTitle>
+            </CardHeader>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center">
+                <Mail className="h-5 w-5 mr-2" />
+                Messages
+              </CardTitle>
+              <CardDescription>
+                Pending emails are retried automatically with increasing delays
+              </CardDescription>
+            </div>
+            <Select
+              value={statusFilter}
+              onValueChange={(value) => {
+                setStatusFilter(value as "all" | DeliveryStatus);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="sent">Sent</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading && !log ? (
+            <p className="text-gray-500 text-center py-8">Loading emails...</p>
+          ) : !log || log.deliveries.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No emails found</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Recipients</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {log.deliveries.map((delivery) => (
+                  <TableRow key={delivery.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(delivery.createdAt), "MMM d, HH:mm")}
+                    </TableCell>
+                    <TableCell className="max-w-[200px] truncate">
+                      {delivery.to.join(", ")}
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-medium">{delivery.subject}</p>
+                      {delivery.lastError && delivery.status !== "sent" && (
+                        <p className="text-sm text-red-600">{delivery.lastError}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariants[delivery.status]}>{delivery.status}</Badge>
+                      {delivery.status === "pending" && delivery.nextAttemptAt && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Next try {format(new Date(delivery.nextAttemptAt), "HH:mm")}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {delivery.attempts}
+                      <span className="text-xs text-gray-500 ml-1">via {delivery.transport}</span>
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => openPreview(delivery.id)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      {delivery.status !== "sent" && delivery.status !== "sending" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRetry(delivery.id)}
+                          disabled={retryingId === delivery.id}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {log && log.pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4">
+              <p className="text-sm text-gray-600">
+                Page {log.pagination.page} of {log.pagination.totalPages}
+              </p>
+              <div className="space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= log.pagination.totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{preview?.subject}</DialogTitle>
+            <DialogDescription>
+              To {preview?.to.join(", ")}
+              {preview?.sentAt && ` · sent ${format(new Date(preview.sentAt), "MMM d, yyyy HH:mm")}`}
+            </DialogDescription>
+          </DialogHeader>
+          {preview && (
+            // Sandboxed so nothing in the email body can run scripts in the admin session
+            <iframe
+              title="Email preview"
+              sandbox=""
+              srcDoc={preview.html}
+              className="w-full h-[60vh] border rounded-lg bg-white"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 // ABOUTME: Dialog component for assigning equipment to users
-// ABOUTME: Provides user selection and assignment functionality with validation
+// ABOUTME: Provides user selection, assignment checklist and assignment functionality with validation
 
 "use client";
 
@@ -25,6 +25,7 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
 import type { Equipment, User } from "@prisma/client";
+import { ChecklistStepsField, useChecklistSteps } from "@/components/equipment/handover-checklists";
 
 interface EquipmentAssignDialogProps {
   equipment: Equipment & { currentOwner: User | null };
@@ -42,6 +43,7 @@ export function EquipmentAssignDialog({
   const [users, setUsers] = useState<User[]>([]);
   const [selectedUserId, setSelectedUserId] = useState("");
   const [notes, setNotes] = useState("");
+  const [completedSteps, setCompletedSteps] = useState<string[]>([]);
 
   // Fetch active users when dialog opens
   useEffect(() => {
@@ -50,6 +52,8 @@ export function EquipmentAssignDialog({
     }
   }, [open]);
 
+  const assignmentSteps = useChecklistSteps(equipment.id, "assignment", open);
+
   const fetchUsers = async () => {
     try {
       const response = await fetch("/api/users?active=true");
@@ -80,6 +84,7 @@ export function EquipmentAssignDialog({
         body: JSON.stringify({
           userId: selectedUserId,
           notes: notes.trim() || undefined,
+          completedSteps: assignmentSteps.length > 0 ? completedSteps : undefined,
         }),
       });
 
@@ -93,6 +98,7 @@ export function EquipmentAssignDialog({
       onOpenChange(false);
       setSelectedUserId("");
       setNotes("");
+      setCompletedSteps([]);
     } catch (error) {
       console.error("Assignment error:", error);
       toast.error(
@@ -157,6 +163,13 @@ export function EquipmentAssignDialog({
             </div>
           )}
 
+          <ChecklistStepsField
+            stage="assignment"
+            steps={assignmentSteps}
+            completed={completedSteps}
+            onChange={setCompletedSteps}
+          />
+
           <div>
             <Label htmlFor="notes">Notes (Optional)</Label>
             <Textarea
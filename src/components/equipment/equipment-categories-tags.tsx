@@ -20,6 +20,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -36,6 +37,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import type { DepreciationMethod } from "@/lib/depreciation";
 import {
   Plus,
   Tag,
@@ -71,6 +73,11 @@ interface Category {
   description: string;
   color: string;
   icon: string;
+  depreciationMethod: DepreciationMethod;
+  usefulLifeMonths: number | null;
+  salvageRate: number;
+  depreciationSchedule: number[] | null;
+  handoverChecklists: Partial<Record<ChecklistStage, string[]>>;
   equipmentCount: number;
   createdAt: Date;
   updatedAt: Date;
@@ -99,7 +106,19 @@ const categorySchema = z.object({
   description: z.string().max(200, "Description too long").optional(),
   color: z.string().min(4, "Color is required"),
   icon: z.string().min(1, "Icon is required"),
-});
+  depreciationMethod: z.enum(["straight_line", "declining_balance", "custom"]),
+  usefulLifeMonths: z.string().regex(/^\d*$/, "Enter a whole number of months"),
+  salvagePercent: z.string().regex(/^\d{0,3}(\.\d+)?$/, "Enter a percentage"),
+  // Yearly percentages for custom schedules, e.g. "40, 30, 20, 10"
+  schedule: z.string(),
+  // Handover checklist steps, one per line
+  assignmentSteps: z.string(),
+  returnSteps: z.string(),
+  transferSteps: z.string(),
+}).refine(
+  (data) => data.depreciationMethod !== "custom" || parseSchedulePercentages(data.schedule) !== null,
+  { message: "Enter yearly percentages that add up to 100", path: ["schedule"] }
+);
 
 const tagSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters").max(50, "Name too long"),
@@ -108,6 +127,32 @@ const tagSchema = z.object({
 });
 
 type CategoryFormData = z.infer<typeof categorySchema>;
+
+type ChecklistStage = "assignment" | "return" | "transfer";
+
+const checklistFields: Array<{ stage: ChecklistStage; name: "assignmentSteps" | "returnSteps" | "transferSteps"; label: string; placeholder: string }> = [
+  { stage: "assignment", name: "assignmentSteps", label: "Assignment Checklist", placeholder: "Enroll in MDM\nHand over charger" },
+  { stage: "return", name: "returnSteps", label: "Return Checklist", placeholder: "Wipe disk\nRemove MDM\nReturn charger" },
+  { stage: "transfer", name: "transferSteps", label: "Transfer Checklist", placeholder: "Sign out previous user" },
+];
+
+function parseStepLines(value: string): string[] {
+  return value.split("\n").map((line) => line.trim()).filter(Boolean);
+}
+
+function parseSchedulePercentages(value: string): number[] | null {
+  const shares = value.split(",").map((part) => Number(part.trim()) / 100);
+  const total = shares.reduce((sum, share) => sum + share, 0);
+  return shares.every((share) => Number.isFinite(share) && share >= 0) && Math.abs(total - 1) < 0.0001
+    ? shares
+    : null;
+}
+
+const depreciationMethods: { value: DepreciationMethod; label: string }[] = [
+  { value: "straight_line", label: "Straight-line" },
+  { value: "declining_balance", label: "Double-declining balance" },
+  { value: "custom", label: "Custom schedule" },
+];
 type TagFormData = z.infer<typeof tagSchema>;
 
 const categoryIcons = [
@@ -159,6 +204,13 @@ export function EquipmentCategoriesTags({
       description: "",
       color: "bg-blue-100 text-blue-800",
       icon: "monitor",
+      depreciationMethod: "straight_line",
+      usefulLifeMonths: "",
+      salvagePercent: "0",
+      schedule: "",
+      assignmentSteps: "",
+      returnSteps: "",
+      transferSteps: "",
     },
   });
 
@@ -203,13 +255,25 @@ export function EquipmentCategoriesTags({
     try {
       const url = editingCategory ? `/api/equipment/categories/${editingCategory.id}` : "/api/equipment/categories";
       const method = editingCategory ? "PUT" : "POST";
+      const { usefulLifeMonths, salvagePercent, schedule, assignmentSteps, returnSteps, transferSteps, ...category } = data;
 
       const response = await fetch(url, {
         method,
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify({
+          ...category,
+          usefulLifeMonths: usefulLifeMonths ? Number(usefulLifeMonths) : null,
+          salvageRate: salvagePercent ? Number(salvagePercent) / 100 : 0,
+          depreciationSchedule:
+            data.depreciationMethod === "custom" ? parseSchedulePercentages(schedule) : null,
+          handoverChecklists: {
+            assignment: parseStepLines(assignmentSteps),
+            return: parseStepLines(returnSteps),
+            transfer: parseStepLines(transferSteps),
+          },
+        }),
       });
 
       if (response.ok) {
@@ -286,6 +350,13 @@ export function EquipmentCategoriesTags({
       description: category.description || "",
       color: category.color,
       icon: category.icon,
+      depreciationMethod: category.depreciationMethod,
+      usefulLifeMonths: category.usefulLifeMonths?.toString() ?? "",
+      salvagePercent: (category.salvageRate * 100).toString(),
+      schedule: category.depreciationSchedule?.map((share) => share * 100).join(", ") ?? "",
+      assignmentSteps: category.handoverChecklists.assignment?.join("\n") ?? "",
+      returnSteps: category.handoverChecklists.return?.join("\n") ?? "",
+      transferSteps: category.handoverChecklists.transfer?.join("\n") ?? "",
     });
     setIsCategoryDialogOpen(true);
   };
@@ -364,7 +435,7 @@ export function EquipmentCategoriesTags({
                   Add Category
                 </Button>
               </DialogTrigger>
-              <DialogContent>
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>
                     {editingCategory ? "Edit Category" : "Add Category"}
@@ -471,6 +542,95 @@ export function EquipmentCategoriesTags({
                       />
                     </div>
 
+                    <FormField
+                      control={categoryForm.control}
+                      name="depreciationMethod"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Depreciation Method</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select method" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {depreciationMethods.map((method) => (
+                                <SelectItem key={method.value} value={method.value}>
+                                  {method.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <div className="grid grid-cols-2 gap-4">
+                      {categoryForm.watch("depreciationMethod") === "custom" ? (
+                        <FormField
+                          control={categoryForm.control}
+                          name="schedule"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Yearly Schedule (%)</FormLabel>
+                              <FormControl>
+                                <Input placeholder="40, 30, 20, 10" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ) : (
+                        <FormField
+                          control={categoryForm.control}
+                          name="usefulLifeMonths"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Useful Life (months)</FormLabel>
+                              <FormControl>
+                                <Input type="number" min="1" placeholder="System default" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+
+                      <FormField
+                        control={categoryForm.control}
+                        name="salvagePercent"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Salvage Value (%)</FormLabel>
+                            <FormControl>
+                              <Input type="number" min="0" max="100" step="0.1" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    {checklistFields.map((checklist) => (
+                      <FormField
+                        key={checklist.stage}
+                        control={categoryForm.control}
+                        name={checklist.name}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{checklist.label}</FormLabel>
+                            <FormControl>
+                              <Textarea placeholder={checklist.placeholder} rows={3} {...field} />
+                            </FormControl>
+                            <FormDescription>One step per line</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+
                     <DialogFooter>
                       <Button type="button" variant="outline" onClick={() => setIsCategoryDialogOpen(false)}>
                         Cancel
@@ -0,0 +1,298 @@
+// ABOUTME: Dialog component for requesting equipment disposal
+// ABOUTME: Captures reason, date, proceeds, data-wipe confirmation and certificate for admin approval
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Archive } from "lucide-react";
+import { format } from "date-fns";
+
+interface EquipmentDisposalDialogProps {
+  equipment: { id: string; name: string };
+  canRequest: boolean;
+  hasPendingDisposal: boolean;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const reasonOptions = [
+  { value: "sold", label: "Sold" },
+  { value: "recycled", label: "Recycled" },
+  { value: "donated", label: "Donated" },
+  { value: "lost", label: "Lost" },
+  { value: "stolen", label: "Stolen" },
+];
+
+// Lost and stolen items are out of our hands, so there is nothing to wipe
+const noWipeReasons = ["lost", "stolen"];
+
+const NONE = "none";
+
+export function EquipmentDisposalDialog({
+  equipment,
+  canRequest,
+  hasPendingDisposal,
+}: EquipmentDisposalDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [reason, setReason] = useState("");
+  const [disposalDate, setDisposalDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [saleProceeds, setSaleProceeds] = useState("");
+  const [dataWiped, setDataWiped] = useState(false);
+  const [dataWipedById, setDataWipedById] = useState(NONE);
+  const [certificateFileId, setCertificateFileId] = useState(NONE);
+  const [notes, setNotes] = useState("");
+  const [users, setUsers] = useState<Option[]>([]);
+  const [files, setFiles] = useState<Option[]>([]);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    const fetchOptions = async () => {
+      try {
+        const [usersResponse, filesResponse] = await Promise.all([
+          fetch("/api/users?active=true"),
+          fetch(`/api/equipment/files?equipmentId=${equipment.id}`),
+        ]);
+
+        if (usersResponse.ok) {
+          setUsers(await usersResponse.json());
+        }
+        if (filesResponse.ok) {
+          const data = await filesResponse.json();
+          setFiles(data.files);
+        }
+      } catch (error) {
+        console.error("Failed to load disposal options:", error);
+      }
+    };
+
+    fetchOptions();
+  }, [open, equipment.id]);
+
+  if (!canRequest && !hasPendingDisposal) {
+    return null;
+  }
+
+  if (hasPendingDisposal) {
+    return (
+      <Button variant="outline" className="w-full" disabled>
+        <Archive className="h-4 w-4 mr-2" />
+        Disposal Awaiting Approval
+      </Button>
+    );
+  }
+
+  const needsWipe = !!reason && !noWipeReasons.includes(reason);
+
+  const handleSubmit = async () => {
+    if (!reason) {
+      toast.error("Please select a disposal reason");
+      return;
+    }
+
+    if (needsWipe && !dataWiped) {
+      toast.error("Please confirm the data wipe");
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`/api/equipment/${equipment.id}/disposal`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          reason,
+          disposalDate,
+          saleProceeds: reason === "sold" ? parseFloat(saleProceeds) || 0 : 0,
+          dataWiped: needsWipe && dataWiped,
+          dataWipedById: needsWipe && dataWipedById !== NONE ? dataWipedById : undefined,
+          certificateFileId: certificateFileId !== NONE ? certificateFileId : undefined,
+          notes: notes || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to request disposal");
+      }
+
+      toast.success(`Disposal of ${equipment.name} sent for approval`);
+      setOpen(false);
+      router.refresh();
+    } catch (error) {
+      console.error("Error requesting disposal:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to request disposal");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" className="w-full" onClick={() => setOpen(true)}>
+        <Archive className="h-4 w-4 mr-2" />
+        Dispose of Equipment
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Dispose of Equipment</DialogTitle>
+            <DialogDescription>
+              Request disposal of {equipment.name}. An admin approves the request before the
+              equipment is decommissioned and written off.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="disposal-reason">Reason *</Label>
+                <Select value={reason} onValueChange={setReason}>
+                  <SelectTrigger id="disposal-reason">
+                    <SelectValue placeholder="Select reason" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reasonOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="disposal-date">Disposal Date *</Label>
+                <Input
+                  id="disposal-date"
+                  type="date"
+                  value={disposalDate}
+                  max={format(new Date(), "yyyy-MM-dd")}
+                  onChange={(e) => setDisposalDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {reason === "sold" && (
+              <div className="space-y-2">
+                <Label htmlFor="sale-proceeds">Sale Proceeds (EUR)</Label>
+                <Input
+                  id="sale-proceeds"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={saleProceeds}
+                  onChange={(e) => setSaleProceeds(e.target.value)}
+                />
+              </div>
+            )}
+
+            {needsWipe && (
+              <div className="space-y-2 rounded-md border p-3">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="data-wiped"
+                    checked={dataWiped}
+                    onCheckedChange={(checked) => setDataWiped(checked === true)}
+                  />
+                  <Label htmlFor="data-wiped">All company data has been wiped from this equipment</Label>
+                </div>
+                {dataWiped && (
+                  <div className="space-y-2">
+                    <Label htmlFor="data-wiped-by">Wiped By</Label>
+                    <Select value={dataWipedById} onValueChange={setDataWipedById}>
+                      <SelectTrigger id="data-wiped-by">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Me</SelectItem>
+                        {users.map((user) => (
+                          <SelectItem key={user.id} value={user.id}>
+                            {user.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="certificate">Certificate</Label>
+              <Select value={certificateFileId} onValueChange={setCertificateFileId}>
+                <SelectTrigger id="certificate">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No certificate</SelectItem>
+                  {files.map((file) => (
+                    <SelectItem key={file.id} value={file.id}>
+                      {file.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                Upload recycling, wipe or sale certificates to the equipment&apos;s files first
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="disposal-notes">Notes</Label>
+              <Textarea
+                id="disposal-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Buyer, recycler, police report number..."
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isLoading}>
+              {isLoading ? "Submitting..." : "Request Disposal"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,11 +1,10 @@
 // ABOUTME: Equipment photo upload component with drag-and-drop support
-// ABOUTME: Handles multiple photo uploads using UploadThing integration
+// ABOUTME: Sends selected photos to the equipment files API, which stores them and links them to the equipment
 
 "use client";
 
 import { useState, useCallback } from "react";
 import { useDropzone } from "react-dropzone";
-import { UploadButton, UploadDropzone } from "@uploadthing/react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
@@ -19,7 +18,6 @@ import {
   AlertCircle,
   CheckCircle,
 } from "lucide-react";
-import type { OurFileRouter } from "@/app/api/uploadthing/core";
 
 interface UploadedPhoto {
   id: string;
@@ -51,14 +49,11 @@ export function EquipmentPhotoUpload({
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const validFiles = acceptedFiles.filter((file) => {
+      // The server checks the real file type and the configured size limit
       if (!file.type.startsWith('image/')) {
         toast.error(`${file.name} is not an image file`);
         return false;
       }
-      if (file.size > 8 * 1024 * 1024) { // 8MB limit
-        toast.error(`${file.name} is too large (max 8MB)`);
-        return false;
-      }
       return true;
     });
 
@@ -91,9 +86,35 @@ export function EquipmentPhotoUpload({
     setUploadProgress(0);
 
     try {
-      // Note: This is a simplified version. In production, you'd use UploadThing's upload directly
-      toast.info('Please use the Upload Button below for now. Drag & drop will be enhanced in future updates.');
+      const formData = new FormData();
+      formData.append('equipmentId', equipmentId);
+      formData.append('category', 'photo');
+      selectedFiles.forEach(file => formData.append('files', file));
+      setUploadProgress(50);
+
+      const response = await fetch('/api/equipment/files', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Upload failed');
+      }
+
+      const newPhotos: UploadedPhoto[] = data.files.map((file: { id: string; url: string; name: string; size: number; createdAt: string }) => ({
+        id: file.id,
+        url: file.url,
+        name: file.name,
+        size: file.size,
+        uploadedAt: file.createdAt,
+      }));
+
+      setUploadProgress(100);
+      setUploadedFiles(prev => [...prev, ...newPhotos]);
       setSelectedFiles([]);
+      toast.success(`Successfully uploaded ${newPhotos.length} photo(s)`);
+      onUploadComplete?.(newPhotos);
     } catch (error) {
       console.error('Upload error:', error);
       const errorMessage = error instanceof Error ? error.message : 'Upload failed';
@@ -139,7 +160,7 @@ export function EquipmentPhotoUpload({
             <div>
               <p className="text-gray-600">Drag & drop images here, or click to select</p>
               <p className="text-sm text-gray-500 mt-1">
-                Maximum {maxFiles} files, up to 8MB each
+                Maximum {maxFiles} files per upload
               </p>
               <p className="text-xs text-gray-400 mt-1">
                 Supported formats: JPEG, PNG, GIF, WebP
@@ -148,83 +169,6 @@ export function EquipmentPhotoUpload({
           )}
         </div>
 
-        {/* UploadThing Upload Button */}
-        <div className="flex justify-center">
-          <UploadButton<OurFileRouter, "equipmentPhotos">
-            endpoint="equipmentPhotos"
-            onClientUploadComplete={async (res) => {
-              if (res) {
-                try {
-                  const newPhotos = res.map(file => ({
-                    id: file.fileId || file.key,
-                    url: file.url,
-                    name: file.name || 'Unknown',
-                    size: file.size || 0,
-                    uploadedAt: new Date().toISOString(),
-                  }));
-                  
-                  // Associate uploaded files with equipment
-                  const associateResponse = await fetch('/api/equipment/files', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                      equipmentId,
-                      files: res.map(r => ({
-                        key: r.key,
-                        name: r.name || 'Unknown',
-                        size: r.size || 0,
-                        type: 'image/jpeg', // UploadThing handles image validation
-                        url: r.url,
-                      })),
-                      metadata: res.map(r => ({
-                        fileKey: r.key,
-                        description: `Equipment photo - ${r.name || 'Unknown'}`,
-                        category: 'photo' as const,
-                      })),
-                    }),
-                  });
-
-                  if (!associateResponse.ok) {
-                    throw new Error('Failed to associate photos with equipment');
-                  }
-
-                  setUploadedFiles(prev => [...prev, ...newPhotos]);
-                  toast.success(`Successfully uploaded ${newPhotos.length} photo(s)`);
-                  onUploadComplete?.(newPhotos);
-                } catch (error) {
-                  console.error('Error associating photos:', error);
-                  toast.error('Photos uploaded but failed to associate with equipment');
-                  onUploadError?.('Association failed');
-                }
-              }
-            }}
-            onUploadError={(error: Error) => {
-              console.error('Upload error:', error);
-              toast.error(`Upload failed: ${error.message}`);
-              onUploadError?.(error.message);
-            }}
-            config={{
-              mode: "auto",
-            }}
-            appearance={{
-              button: "ut-ready:bg-blue-600 ut-ready:hover:bg-blue-700 ut-uploading:bg-blue-600/50",
-              allowedContent: "text-gray-600 text-sm",
-            }}
-            content={{
-              button: ({ ready, isUploading }) => {
-                if (isUploading) return "Uploading...";
-                if (ready) return "Upload Equipment Photos";
-                return "Getting ready...";
-              },
-              allowedContent: ({ ready, fileTypes, isUploading }) => {
-                if (!ready) return "Checking...";
-                if (isUploading) return "Uploading photos...";
-                return `Images up to 8MB (${fileTypes.join(", ")})`;
-              },
-            }}
-          />
-        </div>
-
         {/* Selected Files Preview */}
         {selectedFiles.length > 0 && (
           <div className="space-y-2">
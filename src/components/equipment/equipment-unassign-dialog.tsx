@@ -1,5 +1,5 @@
 // ABOUTME: Dialog component for unassigning equipment from users
-// ABOUTME: Handles equipment return process with condition assessment and notes
+// ABOUTME: Handles equipment return process with condition assessment, return checklist and notes
 
 "use client";
 
@@ -25,6 +25,7 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
 import type { Equipment, User } from "@prisma/client";
+import { ChecklistStepsField, useChecklistSteps } from "@/components/equipment/handover-checklists";
 
 interface EquipmentUnassignDialogProps {
   equipment: Equipment & { currentOwner: User | null };
@@ -41,6 +42,8 @@ export function EquipmentUnassignDialog({
   const [isLoading, setIsLoading] = useState(false);
   const [condition, setCondition] = useState("");
   const [notes, setNotes] = useState("");
+  const [completedSteps, setCompletedSteps] = useState<string[]>([]);
+  const returnSteps = useChecklistSteps(equipment.id, "return", open);
 
   const conditionOptions = [
     { value: "excellent", label: "Excellent - Like new condition" },
@@ -67,6 +70,7 @@ export function EquipmentUnassignDialog({
         body: JSON.stringify({
           condition,
           notes: notes.trim() || undefined,
+          completedSteps: returnSteps.length > 0 ? completedSteps : undefined,
         }),
       });
 
@@ -75,11 +79,17 @@ export function EquipmentUnassignDialog({
         throw new Error(error.message || "Failed to unassign equipment");
       }
 
-      toast.success("Equipment unassigned successfully");
+      const result = await response.json();
+      if (result.checklist && !result.checklist.completedAt && result.newStatus === "pending") {
+        toast.success("Equipment returned, finish the return checklist to make it available");
+      } else {
+        toast.success("Equipment unassigned successfully");
+      }
       router.refresh();
       onOpenChange(false);
       setCondition("");
       setNotes("");
+      setCompletedSteps([]);
     } catch (error) {
       console.error("Unassignment error:", error);
       toast.error(
@@ -147,6 +157,13 @@ export function EquipmentUnassignDialog({
             />
           </div>
 
+          <ChecklistStepsField
+            stage="return"
+            steps={returnSteps}
+            completed={completedSteps}
+            onChange={setCompletedSteps}
+          />
+
           {condition && (
             <div className="p-3 bg-gray-50 rounded-lg">
               <h4 className="font-medium">Next Steps</h4>
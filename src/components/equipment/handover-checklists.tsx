@@ -0,0 +1,234 @@
+// ABOUTME: Handover checklist components for equipment assignment, return and transfer
+// ABOUTME: Step picker for the handover dialogs and a panel for ticking off open checklists later
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { ClipboardCheck } from "lucide-react";
+import { format } from "date-fns";
+
+export type ChecklistStage = "assignment" | "return" | "transfer";
+
+interface ChecklistItem {
+  id: string;
+  label: string;
+  completed: boolean;
+  completedAt: string | null;
+  completedBy: { id: string; name: string } | null;
+}
+
+interface Checklist {
+  id: string;
+  stage: ChecklistStage;
+  completedAt: string | null;
+  createdAt: string;
+  items: ChecklistItem[];
+  history: {
+    fromUser: { id: string; name: string } | null;
+    toUser: { id: string; name: string } | null;
+  } | null;
+}
+
+const stageLabels: Record<ChecklistStage, string> = {
+  assignment: "Assignment",
+  return: "Return",
+  transfer: "Transfer",
+};
+
+/**
+ * Load the category's steps for one handover stage while a dialog is open
+ */
+export function useChecklistSteps(equipmentId: string, stage: ChecklistStage, open: boolean) {
+  const [steps, setSteps] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    const fetchSteps = async () => {
+      try {
+        const response = await fetch(`/api/equipment/${equipmentId}/checklists`);
+        if (response.ok) {
+          const data = await response.json();
+          setSteps(data.steps?.[stage] ?? []);
+        }
+      } catch (error) {
+        console.error("Failed to load checklist steps:", error);
+      }
+    };
+
+    fetchSteps();
+  }, [equipmentId, stage, open]);
+
+  return steps;
+}
+
+interface ChecklistStepsFieldProps {
+  stage: ChecklistStage;
+  steps: string[];
+  completed: string[];
+  onChange: (completed: string[]) => void;
+}
+
+/**
+ * Checkboxes for the steps done during the handover itself
+ */
+export function ChecklistStepsField({ stage, steps, completed, onChange }: ChecklistStepsFieldProps) {
+  if (steps.length === 0) {
+    return null;
+  }
+
+  const toggle = (step: string, checked: boolean) => {
+    onChange(checked ? [...completed, step] : completed.filter((s) => s !== step));
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <h4 className="font-medium">{stageLabels[stage]} Checklist</h4>
+      {steps.map((step, index) => (
+        <div key={step} className="flex items-center gap-2">
+          <Checkbox
+            id={`${stage}-step-${index}`}
+            checked={completed.includes(step)}
+            onCheckedChange={(checked) => toggle(step, checked === true)}
+          />
+          <Label htmlFor={`${stage}-step-${index}`} className="font-normal">
+            {step}
+          </Label>
+        </div>
+      ))}
+      {stage === "return" && completed.length < steps.length && (
+        <p className="text-xs text-gray-500">
+          Unticked steps can be finished later. The equipment stays pending until they are done.
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface EquipmentHandoverChecklistsProps {
+  equipmentId: string;
+  canManage: boolean;
+}
+
+/**
+ * Checklists run for an item, with open ones tickable by team leads and admins
+ */
+export function EquipmentHandoverChecklists({ equipmentId, canManage }: EquipmentHandoverChecklistsProps) {
+  const router = useRouter();
+  const [checklists, setChecklists] = useState<Checklist[]>([]);
+  const [updating, setUpdating] = useState<string | null>(null);
+
+  const fetchChecklists = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/equipment/${equipmentId}/checklists`);
+      if (response.ok) {
+        const data = await response.json();
+        setChecklists(data.checklists);
+      }
+    } catch (error) {
+      console.error("Failed to fetch checklists:", error);
+    }
+  }, [equipmentId]);
+
+  useEffect(() => {
+    fetchChecklists();
+  }, [fetchChecklists]);
+
+  const handleToggle = async (checklist: Checklist, item: ChecklistItem, completed: boolean) => {
+    setUpdating(item.id);
+
+    try {
+      const response = await fetch(`/api/equipment/${equipmentId}/checklists/${checklist.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ itemId: item.id, completed }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update checklist");
+      }
+
+      if (result.released) {
+        toast.success("Return checklist complete, equipment is available again");
+        router.refresh();
+      }
+      fetchChecklists();
+    } catch (error) {
+      console.error("Checklist update error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update checklist");
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  if (checklists.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ClipboardCheck className="h-5 w-5" />
+          <span>Handover Checklists</span>
+        </CardTitle>
+        <CardDescription>Steps from the category checklist for each handover</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {checklists.map((checklist) => {
+          const handover = [checklist.history?.fromUser?.name, checklist.history?.toUser?.name]
+            .filter(Boolean)
+            .join(" → ");
+
+          return (
+            <div key={checklist.id} className="rounded-md border p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium">{stageLabels[checklist.stage]}</p>
+                  <p className="text-xs text-gray-500">
+                    {format(new Date(checklist.createdAt), "MMM d, yyyy")}
+                    {handover && ` · ${handover}`}
+                  </p>
+                </div>
+                <Badge variant={checklist.completedAt ? "default" : "secondary"}>
+                  {checklist.completedAt ? "Complete" : "Open"}
+                </Badge>
+              </div>
+              {checklist.items.map((item) => (
+                <div key={item.id} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`checklist-item-${item.id}`}
+                    checked={item.completed}
+                    disabled={!canManage || !!checklist.completedAt || updating === item.id}
+                    onCheckedChange={(checked) => handleToggle(checklist, item, checked === true)}
+                  />
+                  <div>
+                    <Label htmlFor={`checklist-item-${item.id}`} className="font-normal">
+                      {item.label}
+                    </Label>
+                    {item.completed && item.completedAt && (
+                      <p className="text-xs text-gray-500">
+                        {item.completedBy?.name ?? "Unknown"} · {format(new Date(item.completedAt), "MMM d, yyyy HH:mm")}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -54,12 +54,15 @@ interface QRScanResult {
 
 interface OfflineQRScannerProps {
   onScan?: (result: QRScanResult) => void;
+  // When provided, the raw scanned text is handed to the caller instead of looking up equipment
+  onCodeScanned?: (scannedText: string) => void | Promise<void>;
   trigger?: React.ReactNode;
   showResults?: boolean;
 }
 
 export default function OfflineQRScanner({ 
   onScan, 
+  onCodeScanned,
   trigger,
   showResults = true 
 }: OfflineQRScannerProps) {
@@ -277,6 +280,13 @@ export default function OfflineQRScanner({
           if (result) {
             const scannedText = result.getText();
             setLastScanTime(new Date());
+
+            if (onCodeScanned) {
+              setScanning(false);
+              stopScanning();
+              await onCodeScanned(scannedText);
+              return;
+            }
             
             // Look up equipment
             const equipment = await findEquipmentById(scannedText);
@@ -1,8 +1,7 @@
 'use client';
 
-import { useState } from 'react';
-import { UploadButton } from '@uploadthing/react';
-import type { OurFileRouter } from '@/app/api/uploadthing/core';
+import { useRef, useState } from 'react';
+import { toast } from 'sonner';
 import {
   Dialog,
   DialogContent,
@@ -41,6 +40,8 @@ interface FileUploadProps {
   title?: string;
   description?: string;
   maxFiles?: number;
+  // Upload limit configured by admins, shown as a hint; the server enforces it either way
+  maxFileSizeMb?: number;
 }
 
 export function FileUpload({
@@ -51,9 +52,12 @@ export function FileUpload({
   title,
   description,
   maxFiles = 5,
+  maxFileSizeMb,
 }: FileUploadProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [fileDescription, setFileDescription] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const getTypeConfig = () => {
     switch (type) {
@@ -64,7 +68,8 @@ export function FileUpload({
           title: title || 'Equipment Images',
           description: description || 'Upload photos of the equipment',
           acceptedTypes: 'Images (JPG, PNG, WebP)',
-          maxFileSize: '4MB',
+          accept: 'image/jpeg,image/png,image/webp,image/gif',
+          category: 'photo',
           maxFiles: 1,
         };
       case 'invoice':
@@ -74,7 +79,8 @@ export function FileUpload({
           title: title || 'Invoices & Receipts',
           description: description || 'Upload purchase invoices and receipts',
           acceptedTypes: 'Images & PDFs',
-          maxFileSize: '10MB',
+          accept: 'application/pdf,image/jpeg,image/png,image/webp,image/gif',
+          category: 'invoice',
           maxFiles: 5,
         };
       case 'document':
@@ -84,7 +90,8 @@ export function FileUpload({
           title: title || 'Documents',
           description: description || 'Upload manuals, certificates, and other documents',
           acceptedTypes: 'Images & PDFs',
-          maxFileSize: '4MB',
+          accept: 'application/pdf,image/jpeg,image/png,image/webp,image/gif',
+          category: 'other',
           maxFiles: 3,
         };
       default:
@@ -94,7 +101,8 @@ export function FileUpload({
           title: 'Files',
           description: 'Upload files',
           acceptedTypes: 'Images & PDFs',
-          maxFileSize: '4MB',
+          accept: 'application/pdf,image/jpeg,image/png,image/webp,image/gif',
+          category: 'other',
           maxFiles: 3,
         };
     }
@@ -103,6 +111,56 @@ export function FileUpload({
   const config = getTypeConfig();
   const Icon = config.icon;
 
+  // Equipment files are attached to the equipment; everything else is stored on its own
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    if (files.length === 0) return;
+    if (files.length > config.maxFiles) {
+      toast.error(`Maximum ${config.maxFiles} files allowed`);
+      return;
+    }
+
+    const formData = new FormData();
+    files.forEach(file => formData.append('files', file));
+    if (fileDescription) {
+      formData.append('description', fileDescription);
+    }
+    if (equipmentId) {
+      formData.append('equipmentId', equipmentId);
+      formData.append('category', config.category);
+    } else {
+      formData.append('purpose', config.endpoint);
+    }
+
+    setIsUploading(true);
+    try {
+      const response = await fetch(equipmentId ? '/api/equipment/files' : '/api/files', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Upload failed');
+      }
+
+      onUploadComplete?.(data.files.map((file: { name: string; url: string; size: number; type: string }) => ({
+        name: file.name,
+        url: file.url,
+        size: file.size,
+        type: file.type,
+      })));
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Upload error:', error);
+      toast.error(error instanceof Error ? error.message : 'Upload failed');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -142,23 +200,30 @@ export function FileUpload({
           {/* Upload Section */}
           <div className="space-y-4">
             <div className="flex items-center justify-between text-sm text-muted-foreground">
-              <span>{config.acceptedTypes} up to {config.maxFileSize}</span>
+              <span>
+                {config.acceptedTypes}
+                {maxFileSizeMb ? ` up to ${maxFileSizeMb}MB` : ''}
+              </span>
               <span>Max {config.maxFiles} files</span>
             </div>
 
-            <UploadButton<OurFileRouter>
-              endpoint={config.endpoint}
-              onClientUploadComplete={(res) => {
-                if (res) {
-                  onUploadComplete?.(res);
-                  setIsOpen(false);
-                }
-              }}
-              onUploadError={(error: Error) => {
-                console.error('Upload error:', error);
-              }}
-              className="ut-button:bg-primary ut-button:hover:bg-primary/90"
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={config.accept}
+              multiple={config.maxFiles > 1}
+              onChange={handleFilesSelected}
+              className="hidden"
+              data-testid="file-input"
             />
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+              className="w-full"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {isUploading ? 'Uploading...' : 'Choose Files'}
+            </Button>
 
             {equipmentId && (
               <div>
@@ -9,6 +9,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { equipmentSchema } from "@/lib/validation";
 import type { Equipment } from "@prisma/client";
+import type { DepreciationMethod } from "@/lib/depreciation";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -50,6 +51,9 @@ export function EquipmentForm({ equipment, onSuccess, onCancel }: EquipmentFormP
       purchaseDate: equipment?.purchaseDate ? new Date(equipment.purchaseDate) : new Date(),
       purchasePrice: equipment?.purchasePrice || 0,
       currentValue: equipment?.currentValue || 0,
+      depreciationMethod: (equipment?.depreciationMethod as DepreciationMethod | null) ?? null,
+      usefulLifeMonths: equipment?.usefulLifeMonths ?? null,
+      salvageValue: equipment?.salvageValue ?? null,
       warrantyExpiry: equipment?.warrantyExpiry ? new Date(equipment.warrantyExpiry) : undefined,
       lastMaintenanceDate: equipment?.lastMaintenanceDate ? new Date(equipment.lastMaintenanceDate) : undefined,
       nextMaintenanceDate: equipment?.nextMaintenanceDate ? new Date(equipment.nextMaintenanceDate) : undefined,
@@ -278,12 +282,78 @@ export function EquipmentForm({ equipment, onSuccess, onCancel }: EquipmentFormP
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Current Value (€)</FormLabel>
+                  <FormControl>
+                    <Input type="number" {...field} readOnly disabled />
+                  </FormControl>
+                  <FormDescription>
+                    Book value, recalculated from the purchase price and depreciation settings on save
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <FormField
+              control={form.control}
+              name="depreciationMethod"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Depreciation Method</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === "inherit" ? null : value)}
+                    value={field.value ?? "inherit"}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select method" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="inherit">Category default</SelectItem>
+                      <SelectItem value="straight_line">Straight-line</SelectItem>
+                      <SelectItem value="declining_balance">Double-declining balance</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="usefulLifeMonths"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Useful Life (months)</FormLabel>
                   <FormControl>
                     <Input
                       type="number"
-                      placeholder="0.00"
+                      placeholder="Category default"
                       {...field}
-                      onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : null)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="salvageValue"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Salvage Value (€)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      placeholder="Category default"
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : null)}
                     />
                   </FormControl>
                   <FormMessage />
@@ -0,0 +1,526 @@
+// ABOUTME: Inventory check detail component used while running a physical audit
+// ABOUTME: Scans QR codes through the offline scanner, shows progress and the reconciliation report
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import OfflineQRScanner from "@/components/equipment/offline-qr-scanner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import {
+  ArrowLeft,
+  Camera,
+  CheckCircle,
+  Download,
+  Lock,
+  ScanLine,
+} from "lucide-react";
+import { format } from "date-fns";
+
+interface CheckItem {
+  id: string;
+  equipmentId?: string | null;
+  scannedCode?: string | null;
+  expected: boolean;
+  expectedLocation?: string | null;
+  observedLocation?: string | null;
+  status: "pending" | "verified" | "missing" | "unexpected";
+  verifiedAt?: string | null;
+  equipment?: {
+    id: string;
+    name: string;
+    serialNumber: string;
+    category: string;
+    currentOwner?: { id: string; name: string } | null;
+  } | null;
+  verifiedBy?: { id: string; name: string } | null;
+}
+
+interface InventoryCheckDetails {
+  id: string;
+  name: string;
+  description?: string | null;
+  status: "pending" | "in_progress" | "completed";
+  scopeType: string;
+  scopeValue?: string | null;
+  scheduledAt: string;
+  completedAt?: string | null;
+  equipmentCount: number;
+  verifiedCount: number;
+  items: CheckItem[];
+}
+
+interface ReconciliationReport {
+  summary: {
+    expected: number;
+    verified: number;
+    missing: number;
+    unexpected: number;
+    wrongOwner: number;
+    wrongLocation: number;
+    pending: number;
+    accuracy: number;
+  };
+  discrepancies: {
+    type: string;
+    itemId: string;
+    name?: string | null;
+    serialNumber?: string | null;
+    scannedCode?: string | null;
+    expectedOwner?: string | null;
+    observedOwner?: string | null;
+    expectedLocation?: string | null;
+    observedLocation?: string | null;
+  }[];
+}
+
+interface UserOption {
+  id: string;
+  name: string;
+}
+
+interface InventoryCheckDetailProps {
+  checkId: string;
+  userRole: "admin" | "team_lead" | "user";
+}
+
+const itemStatusStyles: Record<string, string> = {
+  pending: "bg-gray-100 text-gray-800",
+  verified: "bg-green-100 text-green-800",
+  missing: "bg-red-100 text-red-800",
+  unexpected: "bg-orange-100 text-orange-800",
+};
+
+const discrepancyLabels: Record<string, string> = {
+  missing: "Missing",
+  unexpected: "Unexpected",
+  wrong_owner: "Wrong owner",
+  wrong_location: "Wrong location",
+};
+
+// Sentinel values for the "held by" picker; Radix Select does not allow empty values
+const OWNER_NOT_CHECKED = "__not_checked";
+const OWNER_UNASSIGNED = "__unassigned";
+
+export function InventoryCheckDetail({ checkId, userRole }: InventoryCheckDetailProps) {
+  const [check, setCheck] = useState<InventoryCheckDetails | null>(null);
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [manualCode, setManualCode] = useState("");
+  const [location, setLocation] = useState("");
+  const [heldBy, setHeldBy] = useState(OWNER_NOT_CHECKED);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchCheck = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/inventory-checks/${checkId}`);
+      if (response.ok) {
+        const data: InventoryCheckDetails = await response.json();
+        setCheck(data);
+
+        if (data.status === "completed") {
+          const reportResponse = await fetch(`/api/inventory-checks/${checkId}/report`);
+          if (reportResponse.ok) {
+            setReport(await reportResponse.json());
+          }
+        }
+      } else {
+        toast.error("Inventory check not found");
+      }
+    } catch (error) {
+      console.error("Failed to fetch inventory check:", error);
+      toast.error("Failed to load inventory check");
+    } finally {
+      setLoading(false);
+    }
+  }, [checkId]);
+
+  useEffect(() => {
+    fetchCheck();
+
+    fetch("/api/users?active=true")
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setUsers)
+      .catch(() => setUsers([]));
+  }, [fetchCheck]);
+
+  const submitScan = async (code: string) => {
+    if (!code.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      const ownerId =
+        heldBy === OWNER_NOT_CHECKED ? undefined : heldBy === OWNER_UNASSIGNED ? null : heldBy;
+
+      const response = await fetch(`/api/inventory-checks/${checkId}/scan`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          code,
+          location: location || undefined,
+          ownerId,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || "Failed to record scan");
+        return;
+      }
+
+      const name = result.item.equipment?.name || code;
+      if (result.discrepancies.length === 0) {
+        toast.success(`${name} verified`);
+      } else {
+        const labels = result.discrepancies
+          .map((type: string) => discrepancyLabels[type] || type)
+          .join(", ");
+        toast.warning(`${name}: ${labels}`);
+      }
+
+      setManualCode("");
+      fetchCheck();
+    } catch (error) {
+      console.error("Inventory scan error:", error);
+      toast.error("Failed to record scan");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCloseCheck = async () => {
+    if (!confirm("Close this check? Items that were not scanned will be marked as missing.")) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/inventory-checks/${checkId}/close`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({}),
+      });
+
+      if (response.ok) {
+        toast.success("Inventory check closed");
+        fetchCheck();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to close inventory check");
+      }
+    } catch (error) {
+      console.error("Close inventory check error:", error);
+      toast.error("Failed to close inventory check");
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading inventory check...</p>;
+  }
+
+  if (!check) {
+    return <p className="text-sm text-gray-500">Inventory check not found.</p>;
+  }
+
+  const isOpen = check.status !== "completed";
+  const progress = check.equipmentCount > 0
+    ? Math.round((check.verifiedCount / check.equipmentCount) * 100)
+    : 0;
+
+  const renderItems = (items: CheckItem[]) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Equipment</TableHead>
+          <TableHead>Owner</TableHead>
+          <TableHead>Location</TableHead>
+          <TableHead>Verified</TableHead>
+          <TableHead>Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map((item) => (
+          <TableRow key={item.id}>
+            <TableCell>
+              {item.equipment ? (
+                <div>
+                  <p className="font-medium">{item.equipment.name}</p>
+                  <p className="text-xs text-gray-500">{item.equipment.serialNumber}</p>
+                </div>
+              ) : (
+                <span className="text-sm text-gray-600">{item.scannedCode}</span>
+              )}
+            </TableCell>
+            <TableCell>{item.equipment?.currentOwner?.name || "—"}</TableCell>
+            <TableCell>
+              {item.observedLocation && item.observedLocation !== item.expectedLocation ? (
+                <span>
+                  {item.expectedLocation || "—"} → <strong>{item.observedLocation}</strong>
+                </span>
+              ) : (
+                item.expectedLocation || "—"
+              )}
+            </TableCell>
+            <TableCell>
+              {item.verifiedAt
+                ? `${format(new Date(item.verifiedAt), "MMM d, HH:mm")} by ${item.verifiedBy?.name || "unknown"}`
+                : "—"}
+            </TableCell>
+            <TableCell>
+              <Badge className={itemStatusStyles[item.status]}>{item.status}</Badge>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Button variant="ghost" size="sm" asChild className="mb-2">
+            <Link href="/inventory-checks">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Inventory Checks
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold">{check.name}</h1>
+          {check.description && <p className="text-gray-600">{check.description}</p>}
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" asChild>
+            <a href={`/api/inventory-checks/${checkId}/report?format=xlsx`}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </a>
+          </Button>
+          {isOpen && userRole === "admin" && (
+            <Button onClick={handleCloseCheck}>
+              <Lock className="h-4 w-4 mr-2" />
+              Close Check
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-2">
+          <div className="flex justify-between text-sm">
+            <span>{check.verifiedCount} of {check.equipmentCount} expected items verified</span>
+            <span>{progress}%</span>
+          </div>
+          <Progress value={progress} />
+        </CardContent>
+      </Card>
+
+      {isOpen && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <ScanLine className="h-5 w-5 mr-2" />
+              Verify Equipment
+            </CardTitle>
+            <CardDescription>
+              Scan a QR code or type a serial number. Set the location you are auditing first.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="audit-location">Current location</Label>
+                <Input
+                  id="audit-location"
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                  placeholder={check.scopeType === "location" ? check.scopeValue || "" : "e.g. Zagreb Office"}
+                />
+              </div>
+              <div>
+                <Label htmlFor="audit-held-by">Held by</Label>
+                <Select value={heldBy} onValueChange={setHeldBy}>
+                  <SelectTrigger id="audit-held-by">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={OWNER_NOT_CHECKED}>Not checked</SelectItem>
+                    <SelectItem value={OWNER_UNASSIGNED}>Nobody (in storage)</SelectItem>
+                    {users.map((user) => (
+                      <SelectItem key={user.id} value={user.id}>
+                        {user.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2">
+              <OfflineQRScanner
+                trigger={
+                  <Button disabled={isSubmitting}>
+                    <Camera className="h-4 w-4 mr-2" />
+                    Scan QR Code
+                  </Button>
+                }
+                onCodeScanned={submitScan}
+                showResults={false}
+              />
+              <Input
+                value={manualCode}
+                onChange={(e) => setManualCode(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") submitScan(manualCode);
+                }}
+                placeholder="Serial number or equipment ID"
+              />
+              <Button
+                variant="outline"
+                onClick={() => submitScan(manualCode)}
+                disabled={isSubmitting || !manualCode.trim()}
+              >
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Verify
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Reconciliation Report</CardTitle>
+            <CardDescription>
+              Closed {check.completedAt ? format(new Date(check.completedAt), "MMM d, yyyy HH:mm") : ""} ·{" "}
+              {report.summary.accuracy}% of expected items verified without discrepancies
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+              <div className="p-3 bg-green-50 rounded-lg">
+                <p className="text-2xl font-bold text-green-700">{report.summary.verified}</p>
+                <p className="text-xs text-green-800">Verified</p>
+              </div>
+              <div className="p-3 bg-red-50 rounded-lg">
+                <p className="text-2xl font-bold text-red-700">{report.summary.missing}</p>
+                <p className="text-xs text-red-800">Missing</p>
+              </div>
+              <div className="p-3 bg-orange-50 rounded-lg">
+                <p className="text-2xl font-bold text-orange-700">{report.summary.unexpected}</p>
+                <p className="text-xs text-orange-800">Unexpected</p>
+              </div>
+              <div className="p-3 bg-yellow-50 rounded-lg">
+                <p className="text-2xl font-bold text-yellow-700">{report.summary.wrongOwner}</p>
+                <p className="text-xs text-yellow-800">Wrong owner</p>
+              </div>
+              <div className="p-3 bg-blue-50 rounded-lg">
+                <p className="text-2xl font-bold text-blue-700">{report.summary.wrongLocation}</p>
+                <p className="text-xs text-blue-800">Wrong location</p>
+              </div>
+            </div>
+
+            {report.discrepancies.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Equipment</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead>Observed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.discrepancies.map((discrepancy) => (
+                    <TableRow key={`${discrepancy.itemId}-${discrepancy.type}`}>
+                      <TableCell>
+                        <Badge variant="outline">{discrepancyLabels[discrepancy.type]}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {discrepancy.name || discrepancy.scannedCode}
+                        {discrepancy.serialNumber && (
+                          <span className="block text-xs text-gray-500">{discrepancy.serialNumber}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {discrepancy.type === "wrong_owner"
+                          ? discrepancy.expectedOwner || "Unassigned"
+                          : discrepancy.expectedLocation || "—"}
+                      </TableCell>
+                      <TableCell>
+                        {discrepancy.type === "wrong_owner"
+                          ? discrepancy.observedOwner || "Unassigned"
+                          : discrepancy.observedLocation || "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Items</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="all">
+            <TabsList>
+              <TabsTrigger value="all">All ({check.items.length})</TabsTrigger>
+              <TabsTrigger value="pending">
+                {isOpen ? "Not scanned" : "Missing"} (
+                {check.items.filter((item) => item.status === (isOpen ? "pending" : "missing")).length})
+              </TabsTrigger>
+              <TabsTrigger value="unexpected">
+                Unexpected ({check.items.filter((item) => item.status === "unexpected").length})
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="all">{renderItems(check.items)}</TabsContent>
+            <TabsContent value="pending">
+              {renderItems(check.items.filter((item) => item.status === (isOpen ? "pending" : "missing")))}
+            </TabsContent>
+            <TabsContent value="unexpected">
+              {renderItems(check.items.filter((item) => item.status === "unexpected"))}
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
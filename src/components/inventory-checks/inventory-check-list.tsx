@@ -0,0 +1,358 @@
+// ABOUTME: Inventory check list component for physical audit campaigns
+// ABOUTME: Lists scheduled, running and closed checks and lets admins create scoped checks
+
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { ClipboardCheck, Plus } from "lucide-react";
+import { format } from "date-fns";
+
+interface InventoryCheckSummary {
+  id: string;
+  name: string;
+  description?: string | null;
+  status: "pending" | "in_progress" | "completed";
+  scopeType: "all" | "location" | "category" | "team";
+  scopeValue?: string | null;
+  scheduledAt: string;
+  completedAt?: string | null;
+  equipmentCount: number;
+  verifiedCount: number;
+  createdBy?: { id: string; name: string };
+}
+
+interface TeamOption {
+  id: string;
+  name: string;
+}
+
+interface InventoryCheckListProps {
+  userRole: "admin" | "team_lead" | "user";
+}
+
+const statusStyles: Record<string, string> = {
+  pending: "bg-gray-100 text-gray-800",
+  in_progress: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+};
+
+const scopeLabels: Record<string, string> = {
+  all: "All equipment",
+  location: "Location",
+  category: "Category",
+  team: "Team",
+};
+
+const emptyForm = {
+  name: "",
+  description: "",
+  scopeType: "all",
+  scopeValue: "",
+  scheduledAt: new Date().toISOString().split("T")[0],
+};
+
+export function InventoryCheckList({ userRole }: InventoryCheckListProps) {
+  const [checks, setChecks] = useState<InventoryCheckSummary[]>([]);
+  const [teams, setTeams] = useState<TeamOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchChecks();
+
+    // Teams are needed for the team scope picker and to label team-scoped checks
+    fetch("/api/teams")
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setTeams)
+      .catch(() => setTeams([]));
+  }, []);
+
+  const fetchChecks = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/inventory-checks");
+      if (response.ok) {
+        setChecks(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch inventory checks:", error);
+      toast.error("Failed to load inventory checks");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreateCheck = async () => {
+    try {
+      const response = await fetch("/api/inventory-checks", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...formData,
+          description: formData.description || undefined,
+          scopeValue: formData.scopeType === "all" ? undefined : formData.scopeValue,
+        }),
+      });
+
+      if (response.ok) {
+        const { check } = await response.json();
+        toast.success(`Inventory check created with ${check.equipmentCount} items`);
+        setIsCreateDialogOpen(false);
+        setFormData(emptyForm);
+        fetchChecks();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to create inventory check");
+      }
+    } catch (error) {
+      console.error("Create inventory check error:", error);
+      toast.error("Failed to create inventory check");
+    }
+  };
+
+  const formatScope = (check: InventoryCheckSummary) => {
+    if (check.scopeType === "all") return scopeLabels.all;
+    if (check.scopeType === "team") {
+      const team = teams.find((t) => t.id === check.scopeValue);
+      return `${scopeLabels.team}: ${team?.name || check.scopeValue}`;
+    }
+    return `${scopeLabels[check.scopeType]}: ${check.scopeValue}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Inventory Checks</h1>
+          <p className="text-gray-600">
+            Physical stocktakes verified by scanning equipment QR codes
+          </p>
+        </div>
+
+        {userRole === "admin" && (
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                New Check
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create Inventory Check</DialogTitle>
+                <DialogDescription>
+                  Equipment in scope is snapshotted now and verified by scanning.
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="check-name">Name</Label>
+                  <Input
+                    id="check-name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="Yearly stocktake 2026"
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="check-scope">Scope</Label>
+                  <Select
+                    value={formData.scopeType}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, scopeType: value, scopeValue: "" })
+                    }
+                  >
+                    <SelectTrigger id="check-scope">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(scopeLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {formData.scopeType === "team" && (
+                  <div>
+                    <Label htmlFor="check-team">Team</Label>
+                    <Select
+                      value={formData.scopeValue}
+                      onValueChange={(value) => setFormData({ ...formData, scopeValue: value })}
+                    >
+                      <SelectTrigger id="check-team">
+                        <SelectValue placeholder="Select team" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {teams.map((team) => (
+                          <SelectItem key={team.id} value={team.id}>
+                            {team.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {(formData.scopeType === "location" || formData.scopeType === "category") && (
+                  <div>
+                    <Label htmlFor="check-scope-value">
+                      {formData.scopeType === "location" ? "Location" : "Category"}
+                    </Label>
+                    <Input
+                      id="check-scope-value"
+                      value={formData.scopeValue}
+                      onChange={(e) => setFormData({ ...formData, scopeValue: e.target.value })}
+                      placeholder={formData.scopeType === "location" ? "Zagreb Office" : "computers"}
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <Label htmlFor="check-date">Scheduled for</Label>
+                  <Input
+                    id="check-date"
+                    type="date"
+                    value={formData.scheduledAt}
+                    onChange={(e) => setFormData({ ...formData, scheduledAt: e.target.value })}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="check-description">Description</Label>
+                  <Textarea
+                    id="check-description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    rows={3}
+                  />
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreateCheck} disabled={!formData.name}>
+                  Create Check
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <ClipboardCheck className="h-5 w-5 mr-2" />
+            Checks
+          </CardTitle>
+          <CardDescription>
+            Open a check to scan equipment or review its reconciliation report
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading inventory checks...</p>
+          ) : checks.length === 0 ? (
+            <p className="text-sm text-gray-500">No inventory checks yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Scheduled</TableHead>
+                  <TableHead>Progress</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {checks.map((check) => {
+                  const progress = check.equipmentCount > 0
+                    ? Math.round((check.verifiedCount / check.equipmentCount) * 100)
+                    : 0;
+
+                  return (
+                    <TableRow key={check.id}>
+                      <TableCell>
+                        <Link
+                          href={`/inventory-checks/${check.id}`}
+                          className="font-medium text-blue-600 hover:underline"
+                        >
+                          {check.name}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{formatScope(check)}</TableCell>
+                      <TableCell>{format(new Date(check.scheduledAt), "MMM d, yyyy")}</TableCell>
+                      <TableCell className="w-48">
+                        <div className="space-y-1">
+                          <Progress value={progress} />
+                          <span className="text-xs text-gray-500">
+                            {check.verifiedCount} / {check.equipmentCount} verified
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={statusStyles[check.status]}>
+                          {check.status.replace("_", " ")}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
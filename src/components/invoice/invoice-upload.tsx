@@ -1,7 +1,7 @@
 'use client';
 
-import { useState } from 'react';
-import { Upload, FileText, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Upload, FileText, CheckCircle, XCircle, AlertCircle, RotateCcw, Loader2, Clock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
@@ -9,6 +9,12 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 
 interface ProcessingResult {
+  // Set for files processed through the OCR queue
+  id?: string;
+  status?: 'pending' | 'processing' | 'completed' | 'failed';
+  attempts?: number;
+  maxAttempts?: number;
+  nextAttemptAt?: string | null;
   success: boolean;
   filename: string;
   processingTime: number;
@@ -46,18 +52,97 @@ interface ProcessingResult {
       tokensUsed?: number;
     };
   };
+  document?: {
+    id: string;
+    fileName: string;
+    contentType: string;
+    size: number;
+  };
   error?: string;
 }
 
+interface OcrJob {
+  id: string;
+  status: 'queued' | 'processing' | 'completed';
+  progress: {
+    total: number;
+    completed: number;
+    failed: number;
+    remaining: number;
+  };
+  files: ProcessingResult[];
+}
+
+// How often a running job is checked for progress
+const POLL_INTERVAL_MS = 2000;
+
 interface InvoiceUploadProps {
   onProcessingComplete?: (results: ProcessingResult[]) => void;
 }
 
 export function InvoiceUpload({ onProcessingComplete }: InvoiceUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [results, setResults] = useState<ProcessingResult[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [job, setJob] = useState<OcrJob | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  // Results already handed to onProcessingComplete, so retries only report what is new
+  const reportedFiles = useRef(new Set<string>());
+
+  // Pick up a batch that was still running when the page was left
+  useEffect(() => {
+    const resumeJob = async () => {
+      try {
+        const response = await fetch('/api/ocr/jobs');
+        if (!response.ok) return;
+
+        const data = await response.json();
+        const running = (data.jobs as OcrJob[]).find(j => j.status !== 'completed');
+        if (running) {
+          running.files.filter(f => f.success && f.id).forEach(f => reportedFiles.current.add(f.id!));
+          setJob(running);
+        }
+      } catch (error) {
+        console.error('Failed to load OCR jobs:', error);
+      }
+    };
+
+    resumeJob();
+  }, []);
+
+  const handleJobUpdate = useCallback((updated: OcrJob) => {
+    setJob(updated);
+
+    if (updated.status === 'completed') {
+      const newResults = updated.files.filter(f => f.id && !reportedFiles.current.has(f.id));
+      newResults.forEach(f => reportedFiles.current.add(f.id!));
+
+      if (newResults.length > 0 && onProcessingComplete) {
+        onProcessingComplete(newResults);
+      }
+    }
+  }, [onProcessingComplete]);
+
+  const jobId = job?.id;
+  const jobRunning = !!job && job.status !== 'completed';
+
+  useEffect(() => {
+    if (!jobId || !jobRunning) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/ocr/jobs/${jobId}`);
+        if (response.ok) {
+          const data = await response.json();
+          handleJobUpdate(data.job);
+        }
+      } catch (error) {
+        console.error('Failed to check OCR progress:', error);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [jobId, jobRunning, handleJobUpdate]);
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -99,8 +184,8 @@ export function InvoiceUpload({ onProcessingComplete }: InvoiceUploadProps) {
   const handleProcess = async () => {
     if (selectedFiles.length === 0) return;
 
-    setIsProcessing(true);
-    setResults([]);
+    setIsUploading(true);
+    setUploadError(null);
 
     try {
       const formData = new FormData();
@@ -112,32 +197,56 @@ export function InvoiceUpload({ onProcessingComplete }: InvoiceUploadProps) {
         method: 'POST',
         body: formData,
       });
+      const data = await response.json();
 
       if (!response.ok) {
-        throw new Error('Processing failed');
+        throw new Error(data.error || 'Upload failed');
       }
 
-      const data = await response.json();
-      setResults(data.results);
-      
-      if (onProcessingComplete) {
-        onProcessingComplete(data.results);
-      }
+      setJob(data.job);
+      setSelectedFiles([]);
     } catch (error) {
       console.error('Processing error:', error);
-      setResults(selectedFiles.map(file => ({
-        success: false,
-        filename: file.name,
-        processingTime: 0,
-        error: 'Processing failed',
-      })));
+      setUploadError(error instanceof Error ? error.message : 'Upload failed');
     } finally {
-      setIsProcessing(false);
+      setIsUploading(false);
+    }
+  };
+
+  const handleRetry = async (fileIds?: string[]) => {
+    if (!job) return;
+
+    try {
+      const response = await fetch(`/api/ocr/jobs/${job.id}/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fileIds ? { fileIds } : {}),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Retry failed');
+      }
+
+      setJob(data.job);
+    } catch (error) {
+      console.error('Retry error:', error);
+      setUploadError(error instanceof Error ? error.message : 'Retry failed');
+    }
+  };
+
+  const describeQueuedFile = (file: ProcessingResult) => {
+    if (file.status === 'processing') return 'Extracting...';
+    if (file.attempts && file.nextAttemptAt) {
+      return `Retrying (attempt ${file.attempts + 1} of ${file.maxAttempts})`;
     }
+    return 'Queued';
   };
 
+  const results = job?.status === 'completed' ? job.files : [];
   const successfulResults = results.filter(r => r.success);
   const failedResults = results.filter(r => !r.success);
+  const finishedCount = job ? job.progress.completed + job.progress.failed : 0;
 
   return (
     <div className="space-y-6">
@@ -215,14 +324,14 @@ export function InvoiceUpload({ onProcessingComplete }: InvoiceUploadProps) {
               <div className="mt-4 flex gap-3">
                 <Button
                   onClick={handleProcess}
-                  disabled={isProcessing || selectedFiles.length === 0}
+                  disabled={isUploading || jobRunning || selectedFiles.length === 0}
                 >
-                  {isProcessing ? 'Processing...' : 'Process Invoices'}
+                  {isUploading ? 'Uploading...' : 'Process Invoices'}
                 </Button>
                 <Button
                   variant="outline"
                   onClick={() => setSelectedFiles([])}
-                  disabled={isProcessing}
+                  disabled={isUploading}
                 >
                   Clear All
                 </Button>
@@ -232,18 +341,48 @@ export function InvoiceUpload({ onProcessingComplete }: InvoiceUploadProps) {
         </CardContent>
       </Card>
 
+      {uploadError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{uploadError}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Processing Progress */}
-      {isProcessing && (
+      {job && jobRunning && (
         <Card>
           <CardContent className="pt-6">
             <div className="space-y-3">
-              <div className="flex items-center gap-2">
-                <div className="animate-spin h-4 w-4 border-2 border-blue-500 border-t-transparent rounded-full" />
-                <span className="text-sm font-medium">Processing invoices...</span>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <div className="animate-spin h-4 w-4 border-2 border-blue-500 border-t-transparent rounded-full" />
+                  <span className="text-sm font-medium">Processing invoices...</span>
+                </div>
+                <span className="text-sm text-gray-600">
+                  {finishedCount} of {job.progress.total} done
+                </span>
+              </div>
+              <Progress value={(finishedCount / job.progress.total) * 100} className="w-full" />
+              <div className="space-y-2">
+                {job.files.map(file => (
+                  <div key={file.id} className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2">
+                      {file.status === 'completed' && <CheckCircle className="h-4 w-4 text-green-600" />}
+                      {file.status === 'failed' && <XCircle className="h-4 w-4 text-red-600" />}
+                      {file.status === 'processing' && <Loader2 className="h-4 w-4 animate-spin text-blue-600" />}
+                      {file.status === 'pending' && <Clock className="h-4 w-4 text-gray-400" />}
+                      <span>{file.filename}</span>
+                    </div>
+                    <span className="text-xs text-gray-600">
+                      {file.status === 'completed' && 'Done'}
+                      {file.status === 'failed' && (file.error || 'Failed')}
+                      {(file.status === 'pending' || file.status === 'processing') && describeQueuedFile(file)}
+                    </span>
+                  </div>
+                ))}
               </div>
-              <Progress value={75} className="w-full" />
               <p className="text-xs text-gray-600">
-                This may take a few moments depending on the number and size of files.
+                You can leave this page; processing continues and picks up here when you come back.
               </p>
             </div>
           </CardContent>
@@ -367,10 +506,18 @@ export function InvoiceUpload({ onProcessingComplete }: InvoiceUploadProps) {
           {failedResults.length > 0 && (
             <Card>
               <CardHeader>
-                <CardTitle className="flex items-center gap-2 text-red-600">
-                  <XCircle className="h-5 w-5" />
-                  Processing Errors
-                </CardTitle>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center gap-2 text-red-600">
+                    <XCircle className="h-5 w-5" />
+                    Processing Errors
+                  </CardTitle>
+                  {failedResults.length > 1 && (
+                    <Button variant="outline" size="sm" onClick={() => handleRetry()}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Retry All Failed
+                    </Button>
+                  )}
+                </div>
               </CardHeader>
               <CardContent>
                 <div className="space-y-3">
@@ -378,9 +525,17 @@ export function InvoiceUpload({ onProcessingComplete }: InvoiceUploadProps) {
                     <Alert key={index} variant="destructive">
                       <AlertCircle className="h-4 w-4" />
                       <AlertDescription>
-                        <div className="flex items-center justify-between">
+                        <div className="flex items-center justify-between gap-3">
                           <span className="font-medium">{result.filename}</span>
-                          <span className="text-sm">{result.error}</span>
+                          <div className="flex items-center gap-3">
+                            <span className="text-sm">{result.error}</span>
+                            {result.id && (
+                              <Button variant="outline" size="sm" onClick={() => handleRetry([result.id!])}>
+                                <RotateCcw className="h-4 w-4 mr-2" />
+                                Retry
+                              </Button>
+                            )}
+                          </div>
                         </div>
                       </AlertDescription>
                     </Alert>
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { CheckCircle, XCircle, Edit, Save, Eye, AlertTriangle } from 'lucide-react';
+import { CheckCircle, XCircle, Edit, Save, Eye, AlertTriangle, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -50,16 +50,27 @@ interface OCRResult {
     processingTime: number;
     modelUsed: string;
     tokensUsed?: number;
+    fieldSources?: Record<string, string>;
+    conflicts?: string[];
+    autoCorrected?: string[];
   };
 }
 
+interface SourceDocument {
+  id: string;
+  fileName: string;
+  contentType: string;
+}
+
 interface OCRReviewProps {
   ocrData: OCRResult;
+  // Original the data was extracted from, shown next to the fields for checking
+  document?: SourceDocument;
   onSave?: (data: OCRResult, createEquipment: boolean, createSubscriptions: boolean, saveAsDraft: boolean) => void;
   onCancel?: () => void;
 }
 
-export function OCRReview({ ocrData, onSave, onCancel }: OCRReviewProps) {
+export function OCRReview({ ocrData, document, onSave, onCancel }: OCRReviewProps) {
   const [editedData, setEditedData] = useState<OCRResult>({ ...ocrData });
   const [isEditing, setIsEditing] = useState(false);
   const [createEquipment, setCreateEquipment] = useState(true);
@@ -146,6 +157,12 @@ export function OCRReview({ ocrData, onSave, onCancel }: OCRReviewProps) {
     return hasVendor && hasAmount && (hasEquipment || hasSubscriptions);
   };
 
+  // Fields filled in from corrections reviewers made on this vendor's earlier invoices
+  const autoCorrected = new Set(ocrData.extractionDetails?.autoCorrected ?? []);
+  const learnedBadge = (path: string) => autoCorrected.has(path) && (
+    <Badge variant="secondary" className="text-xs font-normal">Auto-corrected</Badge>
+  );
+
   const confidenceLevel = editedData.confidence || 0;
   const confidenceColor = confidenceLevel > 0.8 ? 'text-green-600' : 
                          confidenceLevel > 0.6 ? 'text-yellow-600' : 'text-red-600';
@@ -193,6 +210,62 @@ export function OCRReview({ ocrData, onSave, onCancel }: OCRReviewProps) {
         </Alert>
       )}
 
+      {autoCorrected.size > 0 && (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription>
+            Fields marked Auto-corrected were filled in from corrections made on earlier invoices from this vendor.
+            Your changes here are remembered for the next one.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Fields the extractors disagreed on */}
+      {editedData.extractionDetails?.conflicts && editedData.extractionDetails.conflicts.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <strong>Check these fields:</strong> the extractors read{' '}
+            {editedData.extractionDetails.conflicts.join(', ')} differently. The values shown are from the most confident one.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className={document ? 'grid grid-cols-1 xl:grid-cols-2 gap-6 items-start' : ''}>
+      {document && (
+        <Card className="xl:sticky xl:top-4">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Original Document</CardTitle>
+                <CardDescription>{document.fileName}</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/ocr/documents/${document.id}?download=1`}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </a>
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {document.contentType === 'application/pdf' ? (
+              <iframe
+                src={`/api/ocr/documents/${document.id}`}
+                title={document.fileName}
+                className="w-full h-[800px] border rounded"
+              />
+            ) : (
+              <img
+                src={`/api/ocr/documents/${document.id}`}
+                alt={document.fileName}
+                className="w-full border rounded"
+              />
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <Tabs defaultValue="invoice" className="space-y-4">
         <TabsList>
           <TabsTrigger value="invoice">Invoice Details</TabsTrigger>
@@ -213,7 +286,7 @@ export function OCRReview({ ocrData, onSave, onCancel }: OCRReviewProps) {
             <CardContent className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="vendor">Vendor *</Label>
+                  <Label htmlFor="vendor">Vendor * {learnedBadge('vendor')}</Label>
                   {isEditing ? (
                     <Input
                       id="vendor"
@@ -279,7 +352,7 @@ export function OCRReview({ ocrData, onSave, onCancel }: OCRReviewProps) {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="purchaseMethod">Purchase Method</Label>
+                  <Label htmlFor="purchaseMethod">Purchase Method {learnedBadge('purchaseMethod')}</Label>
                   {isEditing ? (
                     <Select
                       value={editedData.purchaseMethod || ''}
@@ -303,7 +376,7 @@ export function OCRReview({ ocrData, onSave, onCancel }: OCRReviewProps) {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="currency">Currency</Label>
+                  <Label htmlFor="currency">Currency {learnedBadge('currency')}</Label>
                   {isEditing ? (
                     <Input
                       id="currency"
@@ -337,7 +410,7 @@ export function OCRReview({ ocrData, onSave, onCancel }: OCRReviewProps) {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="invoiceType">Invoice Type</Label>
+                  <Label htmlFor="invoiceType">Invoice Type {learnedBadge('invoiceType')}</Label>
                   {isEditing ? (
                     <Select
                       value={editedData.invoiceType || 'equipment'}
@@ -360,7 +433,7 @@ export function OCRReview({ ocrData, onSave, onCancel }: OCRReviewProps) {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="depreciationPeriod">Depreciation Period (months)</Label>
+                  <Label htmlFor="depreciationPeriod">Depreciation Period (months) {learnedBadge('depreciationPeriod')}</Label>
                   {isEditing ? (
                     <Input
                       id="depreciationPeriod"
@@ -425,7 +498,7 @@ export function OCRReview({ ocrData, onSave, onCancel }: OCRReviewProps) {
                       </div>
 
                       <div className="space-y-2">
-                        <Label>Serial Number</Label>
+                        <Label>Serial Number {learnedBadge(`equipment.${index}.serialNumber`)}</Label>
                         {isEditing ? (
                           <Input
                             value={item.serialNumber || ''}
@@ -472,7 +545,7 @@ export function OCRReview({ ocrData, onSave, onCancel }: OCRReviewProps) {
                       </div>
 
                       <div className="space-y-2">
-                        <Label>Category</Label>
+                        <Label>Category {learnedBadge(`equipment.${index}.category`)}</Label>
                         {isEditing ? (
                           <Input
                             value={item.category || ''}
@@ -694,6 +767,7 @@ export function OCRReview({ ocrData, onSave, onCancel }: OCRReviewProps) {
           </Card>
         </TabsContent>
       </Tabs>
+      </div>
 
       {/* Save Options */}
       <Card>
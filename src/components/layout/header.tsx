@@ -41,7 +41,9 @@ export function Header({ onMenuToggle, showMenuButton = true }: HeaderProps) {
     markAsRead, 
     markAllAsRead, 
     unreadCount, 
-    hasUnread 
+    hasUnread,
+    loadMore,
+    hasMore
   } = useNotifications();
 
   const handleNotificationClick = (notification: Notification) => {
@@ -107,10 +109,15 @@ export function Header({ onMenuToggle, showMenuButton = true }: HeaderProps) {
                       const getBgColor = () => {
                         switch (notification.type) {
                           case "request_approved":
+                          case "transfer_completed":
                             return "bg-green-50 border-green-200";
                           case "request_rejected":
+                          case "transfer_rejected":
                             return "bg-red-50 border-red-200";
                           case "maintenance_due":
+                          case "renewal_due":
+                          case "approval_needed":
+                          case "transfer_requested":
                             return "bg-yellow-50 border-yellow-200";
                           case "equipment_assigned":
                             return "bg-blue-50 border-blue-200";
@@ -149,6 +156,19 @@ export function Header({ onMenuToggle, showMenuButton = true }: HeaderProps) {
                       );
                     })
                   )}
+                  {hasMore && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="w-full text-xs"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        loadMore();
+                      }}
+                    >
+                      Load older notifications
+                    </Button>
+                  )}
                 </div>
                 <DropdownMenuSeparator className="my-2" />
                 <Button 
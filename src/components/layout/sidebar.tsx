@@ -12,13 +12,20 @@ import {
   Settings,
   FileText,
   ClipboardList,
+  ClipboardCheck,
   Disc,
   BarChart3,
   Users,
   Package,
+  Boxes,
+  Mail,
   QrCode,
   ScanLine,
   ChevronRight,
+  Archive,
+  PackageOpen,
+  GitBranch,
+  ShoppingCart,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -70,6 +77,8 @@ export function Sidebar({ userRole = "user", isOpen = true, onClose }: SidebarPr
         { label: "Add Equipment", href: "/equipment/add", icon: Package, roles: ["admin", "team_lead"] },
         { label: "QR Scanner", href: "/equipment/scanner", icon: ScanLine, mobileOnly: true },
         { label: "Bulk Operations", href: "/equipment/bulk", icon: Settings, roles: ["admin", "team_lead"] },
+        { label: "Inventory Checks", href: "/inventory-checks", icon: ClipboardCheck, roles: ["admin", "team_lead"] },
+        { label: "Consumables", href: "/consumables", icon: Boxes, roles: ["admin", "team_lead"] },
       ]
     },
     { 
@@ -105,6 +114,36 @@ export function Sidebar({ userRole = "user", isOpen = true, onClose }: SidebarPr
       icon: Users,
       roles: ["admin"] 
     },
+    {
+      label: "Onboarding Kits",
+      href: "/admin/onboarding-kits",
+      icon: PackageOpen,
+      roles: ["admin"]
+    },
+    {
+      label: "Approval Policies",
+      href: "/admin/approval-policies",
+      icon: GitBranch,
+      roles: ["admin"]
+    },
+    {
+      label: "Purchase Orders",
+      href: "/admin/purchase-orders",
+      icon: ShoppingCart,
+      roles: ["admin"]
+    },
+    {
+      label: "Disposals",
+      href: "/admin/disposals",
+      icon: Archive,
+      roles: ["admin"]
+    },
+    { 
+      label: "Email Log", 
+      href: "/admin/emails", 
+      icon: Mail,
+      roles: ["admin"] 
+    },
     { 
       label: "Settings", 
       href: "/admin/settings", 
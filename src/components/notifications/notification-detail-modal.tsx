@@ -25,16 +25,17 @@ import {
 } from "lucide-react";
 import { format } from "date-fns";
 import Link from "next/link";
+import type { NotificationType, NotificationRelatedType } from "@/lib/notifications";
 
 export interface Notification {
   id: string;
-  type: "request_approved" | "request_rejected" | "maintenance_due" | "equipment_assigned" | "info";
+  type: NotificationType;
   title: string;
   message: string;
   timestamp: Date;
   read: boolean;
   relatedId?: string; // ID of related equipment, request, etc.
-  relatedType?: "equipment" | "request" | "user";
+  relatedType?: NotificationRelatedType;
   actionUrl?: string;
   priority?: "low" | "medium" | "high";
   metadata?: Record<string, any>;
@@ -58,10 +59,15 @@ export function NotificationDetailModal({
   const getIcon = () => {
     switch (notification.type) {
       case "request_approved":
+      case "transfer_completed":
         return <CheckCircle className="h-5 w-5 text-green-500" />;
       case "request_rejected":
+      case "transfer_rejected":
         return <AlertTriangle className="h-5 w-5 text-red-500" />;
       case "maintenance_due":
+      case "renewal_due":
+      case "approval_needed":
+      case "transfer_requested":
         return <Clock className="h-5 w-5 text-yellow-500" />;
       case "equipment_assigned":
         return <Package className="h-5 w-5 text-blue-500" />;
@@ -0,0 +1,848 @@
+// ABOUTME: Purchase order manager for administrators
+// ABOUTME: Places orders for approved requests, receives goods by serial number and links the vendor invoice
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { FileText, PackageCheck, Plus, ShoppingCart, X } from "lucide-react";
+
+interface OrderableRequest {
+  id: string;
+  equipmentType: string;
+  status: string;
+  budget: number | null;
+  requester: { id: string; name: string };
+  items: Array<{ id: string; name: string; quantity: number; fulfilledQuantity: number; budget: number | null }>;
+}
+
+interface PurchaseOrderLine {
+  id: string;
+  description: string;
+  category: string;
+  quantity: number;
+  unitPrice: number | null;
+  receivedQuantity: number;
+  request: { id: string; equipmentType: string; status: string; requester: { id: string; name: string } };
+  requestItem: { id: string; name: string; quantity: number } | null;
+  equipment: Array<{ id: string; name: string; serialNumber: string; status: string }>;
+}
+
+interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  vendor: string;
+  status: string;
+  purchaseMethod: string;
+  orderedAt: string;
+  expectedDelivery: string | null;
+  receivedAt: string | null;
+  notes: string | null;
+  createdBy: { id: string; name: string };
+  invoice: { id: string; vendor: string; invoiceNumber: string | null; status: string } | null;
+  lines: PurchaseOrderLine[];
+}
+
+interface InvoiceOption {
+  id: string;
+  vendor: string;
+  invoiceNumber: string | null;
+  amount: number | null;
+}
+
+interface LineForm {
+  requestId: string;
+  requestItemId: string;
+  description: string;
+  category: string;
+  quantity: number;
+  unitPrice: number | null;
+}
+
+interface OrderForm {
+  poNumber: string;
+  vendor: string;
+  purchaseMethod: string;
+  expectedDelivery: string;
+  notes: string;
+  lines: LineForm[];
+}
+
+interface PurchaseOrdersManagerProps {
+  orderableRequests: OrderableRequest[];
+}
+
+// Select items need a value, so "whole" stands in for ordering against the request as a whole
+const WHOLE_REQUEST = "whole";
+
+const equipmentCategories = [
+  { value: "computers", label: "Computers & Laptops" },
+  { value: "mobile_devices", label: "Mobile Devices & Tablets" },
+  { value: "peripherals", label: "Peripherals" },
+  { value: "monitors", label: "Monitors & Displays" },
+  { value: "networking", label: "Networking Equipment" },
+  { value: "audio_video", label: "Audio/Video Equipment" },
+  { value: "storage", label: "Storage Devices" },
+  { value: "other", label: "Other" },
+];
+
+const purchaseMethods = [
+  { value: "off_the_shelf", label: "Off-the-shelf" },
+  { value: "profi_co", label: "ProfiCo" },
+  { value: "zopi", label: "ZOPI" },
+  { value: "leasing", label: "Leasing" },
+];
+
+const statusLabels: Record<string, string> = {
+  ordered: "Ordered",
+  partially_received: "Partially received",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+const statusVariants: Record<string, "default" | "secondary" | "outline" | "destructive"> = {
+  ordered: "secondary",
+  partially_received: "outline",
+  received: "default",
+  cancelled: "destructive",
+};
+
+const emptyLine: LineForm = {
+  requestId: "",
+  requestItemId: WHOLE_REQUEST,
+  description: "",
+  category: "computers",
+  quantity: 1,
+  unitPrice: null,
+};
+
+const emptyForm: OrderForm = {
+  poNumber: "",
+  vendor: "",
+  purchaseMethod: "off_the_shelf",
+  expectedDelivery: "",
+  notes: "",
+  lines: [emptyLine],
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "EUR",
+  }).format(amount);
+};
+
+const orderTotal = (lines: Array<{ quantity: number; unitPrice: number | null }>) =>
+  lines.reduce((sum, line) => sum + (line.unitPrice ?? 0) * line.quantity, 0);
+
+const isOpen = (order: PurchaseOrder) => order.status === "ordered" || order.status === "partially_received";
+
+const isLate = (order: PurchaseOrder) =>
+  isOpen(order) && !!order.expectedDelivery && new Date(order.expectedDelivery) < new Date();
+
+export function PurchaseOrdersManager({ orderableRequests }: PurchaseOrdersManagerProps) {
+  const router = useRouter();
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [submitting, setSubmitting] = useState(false);
+
+  const [isOrderDialogOpen, setIsOrderDialogOpen] = useState(false);
+  const [form, setForm] = useState<OrderForm>(emptyForm);
+
+  const [receiving, setReceiving] = useState<PurchaseOrder | null>(null);
+  const [serials, setSerials] = useState<Record<string, string>>({});
+  const [receiptStatus, setReceiptStatus] = useState<"available" | "pending">("available");
+  const [location, setLocation] = useState("");
+
+  const [linking, setLinking] = useState<PurchaseOrder | null>(null);
+  const [invoices, setInvoices] = useState<InvoiceOption[]>([]);
+  const [invoiceId, setInvoiceId] = useState("");
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ limit: "50" });
+      if (statusFilter !== "all") {
+        params.set("status", statusFilter);
+      }
+
+      const response = await fetch(`/api/purchase-orders?${params}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch purchase orders");
+      }
+
+      const data = await response.json();
+      setOrders(data.purchaseOrders);
+    } catch (error) {
+      console.error("Failed to fetch purchase orders:", error);
+      toast.error("Failed to load purchase orders");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const requestById = (requestId: string) => orderableRequests.find((request) => request.id === requestId);
+
+  const updateLine = (index: number, changes: Partial<LineForm>) => {
+    setForm((prev) => ({
+      ...prev,
+      lines: prev.lines.map((line, i) => (i === index ? { ...line, ...changes } : line)),
+    }));
+  };
+
+  // Picking a request or one of its lines fills in what is being bought and how many
+  const selectRequest = (index: number, requestId: string) => {
+    const request = requestById(requestId);
+    updateLine(index, {
+      requestId,
+      requestItemId: WHOLE_REQUEST,
+      description: request?.equipmentType ?? "",
+      quantity: 1,
+      unitPrice: request?.budget ?? null,
+    });
+  };
+
+  const selectRequestItem = (index: number, requestItemId: string) => {
+    const item = requestById(form.lines[index].requestId)?.items.find((candidate) => candidate.id === requestItemId);
+    updateLine(index, {
+      requestItemId,
+      ...(item && {
+        description: item.name,
+        quantity: Math.max(item.quantity - item.fulfilledQuantity, 1),
+        unitPrice: item.budget,
+      }),
+    });
+  };
+
+  const handlePlaceOrder = async () => {
+    if (!form.poNumber.trim() || !form.vendor.trim()) {
+      toast.error("PO number and vendor are required");
+      return;
+    }
+
+    if (form.lines.some((line) => !line.requestId || !line.description.trim())) {
+      toast.error("Every line needs a request and a description");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch("/api/purchase-orders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          poNumber: form.poNumber,
+          vendor: form.vendor,
+          purchaseMethod: form.purchaseMethod,
+          expectedDelivery: form.expectedDelivery || null,
+          notes: form.notes || undefined,
+          lines: form.lines.map((line) => ({
+            requestId: line.requestId,
+            requestItemId: line.requestItemId === WHOLE_REQUEST ? undefined : line.requestItemId,
+            description: line.description,
+            category: line.category,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice,
+          })),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to place purchase order");
+      }
+
+      toast.success("Purchase order placed");
+      setIsOrderDialogOpen(false);
+      setForm(emptyForm);
+      await fetchOrders();
+      router.refresh();
+    } catch (error) {
+      console.error("Purchase order error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to place purchase order");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const openReceive = (order: PurchaseOrder) => {
+    setReceiving(order);
+    setSerials({});
+    setReceiptStatus("available");
+    setLocation("");
+  };
+
+  const handleReceive = async () => {
+    if (!receiving) return;
+
+    const lines = Object.entries(serials)
+      .map(([lineId, text]) => ({
+        lineId,
+        serialNumbers: text.split(/[\n,]/).map((serial) => serial.trim()).filter(Boolean),
+      }))
+      .filter((line) => line.serialNumbers.length > 0);
+
+    if (lines.length === 0) {
+      toast.error("Enter the serial numbers of the units that arrived");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/purchase-orders/${receiving.id}/receive`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          lines,
+          status: receiptStatus,
+          location: location || undefined,
+        }),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to receive goods");
+      }
+
+      toast.success(data?.message || "Goods received");
+      setReceiving(null);
+      await fetchOrders();
+    } catch (error) {
+      console.error("Receive goods error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to receive goods");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const openLinkInvoice = async (order: PurchaseOrder) => {
+    setLinking(order);
+    setInvoiceId(order.invoice?.id ?? "");
+
+    try {
+      const response = await fetch("/api/ocr/process-invoice?limit=50");
+      if (response.ok) {
+        const data = await response.json();
+        setInvoices(data.invoices);
+      }
+    } catch (error) {
+      console.error("Failed to fetch invoices:", error);
+      toast.error("Failed to load invoices");
+    }
+  };
+
+  const handleLinkInvoice = async () => {
+    if (!linking || !invoiceId) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/purchase-orders/${linking.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ invoiceId }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to link invoice");
+      }
+
+      toast.success("Invoice linked to the order and its equipment");
+      setLinking(null);
+      await fetchOrders();
+    } catch (error) {
+      console.error("Link invoice error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to link invoice");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (order: PurchaseOrder) => {
+    if (!confirm(`Cancel purchase order ${order.poNumber}?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/purchase-orders/${order.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to cancel purchase order");
+      }
+
+      toast.success("Purchase order cancelled");
+      await fetchOrders();
+      router.refresh();
+    } catch (error) {
+      console.error("Cancel purchase order error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to cancel purchase order");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Purchase Orders</h1>
+          <p className="text-gray-600 mt-1">
+            Order equipment for approved requests and receive it into stock
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All orders</SelectItem>
+              {Object.entries(statusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setIsOrderDialogOpen(true)} disabled={orderableRequests.length === 0}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Purchase Order
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-center text-gray-500 py-12">Loading purchase orders...</p>
+      ) : orders.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <ShoppingCart className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+            <p className="text-gray-500 text-lg">No purchase orders</p>
+            <p className="text-gray-400 mt-2">
+              {orderableRequests.length > 0
+                ? `${orderableRequests.length} approved request${orderableRequests.length === 1 ? " is" : "s are"} waiting to be ordered`
+                : "Approved requests that need buying can be ordered from here"}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {orders.map((order) => (
+            <Card key={order.id}>
+              <CardHeader className="pb-3">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      {order.poNumber}
+                      <Badge variant={statusVariants[order.status] || "outline"}>
+                        {statusLabels[order.status] || order.status}
+                      </Badge>
+                      {isLate(order) && <Badge variant="destructive">Late</Badge>}
+                    </CardTitle>
+                    <CardDescription>
+                      {order.vendor} • ordered {new Date(order.orderedAt).toLocaleDateString()} by {order.createdBy.name}
+                      {order.expectedDelivery && ` • expected ${new Date(order.expectedDelivery).toLocaleDateString()}`}
+                      {order.receivedAt && ` • received ${new Date(order.receivedAt).toLocaleDateString()}`}
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    {isOpen(order) && (
+                      <Button size="sm" onClick={() => openReceive(order)}>
+                        <PackageCheck className="h-4 w-4 mr-2" />
+                        Receive
+                      </Button>
+                    )}
+                    {order.status !== "cancelled" && (
+                      <Button size="sm" variant="outline" onClick={() => openLinkInvoice(order)}>
+                        <FileText className="h-4 w-4 mr-2" />
+                        {order.invoice ? "Change Invoice" : "Link Invoice"}
+                      </Button>
+                    )}
+                    {order.status === "ordered" && (
+                      <Button size="sm" variant="outline" onClick={() => handleCancel(order)}>
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Request</TableHead>
+                      <TableHead className="text-right">Unit price</TableHead>
+                      <TableHead className="text-right">Received</TableHead>
+                      <TableHead>Serial numbers</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {order.lines.map((line) => (
+                      <TableRow key={line.id}>
+                        <TableCell className="font-medium">{line.description}</TableCell>
+                        <TableCell>
+                          <Link href={`/requests/${line.request.id}`} className="text-blue-600 hover:underline">
+                            {line.requestItem?.name ?? line.request.equipmentType}
+                          </Link>
+                          <span className="text-gray-500 text-sm"> for {line.request.requester.name}</span>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {line.unitPrice !== null ? formatCurrency(line.unitPrice) : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {line.receivedQuantity} / {line.quantity}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {line.equipment.map((equipment) => (
+                            <Link
+                              key={equipment.id}
+                              href={`/equipment/${equipment.id}`}
+                              className="mr-2 text-blue-600 hover:underline"
+                            >
+                              {equipment.serialNumber}
+                            </Link>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <div className="flex justify-between text-sm text-gray-600">
+                  <span>
+                    Invoice:{" "}
+                    {order.invoice
+                      ? `${order.invoice.vendor}${order.invoice.invoiceNumber ? ` #${order.invoice.invoiceNumber}` : ""}`
+                      : "not linked yet"}
+                  </span>
+                  <span className="font-medium">Total {formatCurrency(orderTotal(order.lines))}</span>
+                </div>
+                {order.notes && <p className="text-sm text-gray-500">{order.notes}</p>}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isOrderDialogOpen} onOpenChange={setIsOrderDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Purchase Order</DialogTitle>
+            <DialogDescription>
+              Approved requests on the order move to ordered
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="poNumber">PO number</Label>
+                <Input
+                  id="poNumber"
+                  value={form.poNumber}
+                  onChange={(e) => setForm((prev) => ({ ...prev, poNumber: e.target.value }))}
+                  placeholder="e.g. PO-2026-014"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vendor">Vendor</Label>
+                <Input
+                  id="vendor"
+                  value={form.vendor}
+                  onChange={(e) => setForm((prev) => ({ ...prev, vendor: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="purchaseMethod">Purchase method</Label>
+                <Select
+                  value={form.purchaseMethod}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, purchaseMethod: value }))}
+                >
+                  <SelectTrigger id="purchaseMethod">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {purchaseMethods.map((method) => (
+                      <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expectedDelivery">Expected delivery</Label>
+                <Input
+                  id="expectedDelivery"
+                  type="date"
+                  value={form.expectedDelivery}
+                  onChange={(e) => setForm((prev) => ({ ...prev, expectedDelivery: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label>Lines</Label>
+              {form.lines.map((line, index) => {
+                const request = requestById(line.requestId);
+
+                return (
+                  <div key={index} className="p-3 border rounded-lg space-y-3">
+                    <div className="flex gap-2">
+                      <Select value={line.requestId} onValueChange={(value) => selectRequest(index, value)}>
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder="Request" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {orderableRequests.map((candidate) => (
+                            <SelectItem key={candidate.id} value={candidate.id}>
+                              {candidate.equipmentType} for {candidate.requester.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {request && request.items.length > 0 && (
+                        <Select value={line.requestItemId} onValueChange={(value) => selectRequestItem(index, value)}>
+                          <SelectTrigger className="w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={WHOLE_REQUEST}>Whole request</SelectItem>
+                            {request.items.map((item) => (
+                              <SelectItem key={item.id} value={item.id}>
+                                {item.name} ({item.fulfilledQuantity}/{item.quantity})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      {form.lines.length > 1 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            setForm((prev) => ({ ...prev, lines: prev.lines.filter((_, i) => i !== index) }))
+                          }
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                      <Input
+                        className="md:col-span-2"
+                        value={line.description}
+                        onChange={(e) => updateLine(index, { description: e.target.value })}
+                        placeholder="What is being bought"
+                      />
+                      <Select value={line.category} onValueChange={(value) => updateLine(index, { category: value })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {equipmentCategories.map((category) => (
+                            <SelectItem key={category.value} value={category.value}>{category.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="flex gap-2">
+                        <Input
+                          type="number"
+                          min={1}
+                          value={line.quantity}
+                          onChange={(e) => updateLine(index, { quantity: Math.max(parseInt(e.target.value) || 1, 1) })}
+                          aria-label="Quantity"
+                        />
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={line.unitPrice ?? ""}
+                          onChange={(e) =>
+                            updateLine(index, { unitPrice: e.target.value === "" ? null : parseFloat(e.target.value) })
+                          }
+                          placeholder="Unit €"
+                          aria-label="Unit price"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+              <div className="flex justify-between items-center">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setForm((prev) => ({ ...prev, lines: [...prev.lines, emptyLine] }))}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Line
+                </Button>
+                <span className="text-sm font-medium">Total {formatCurrency(orderTotal(form.lines))}</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="notes">Notes</Label>
+              <Textarea
+                id="notes"
+                value={form.notes}
+                onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOrderDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handlePlaceOrder} disabled={submitting}>
+              {submitting ? "Placing..." : "Place Order"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!receiving} onOpenChange={(open) => !open && setReceiving(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Receive Goods</DialogTitle>
+            <DialogDescription>
+              Enter one serial number per unit that arrived; each becomes an equipment item in stock
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {receiving?.lines
+              .filter((line) => line.receivedQuantity < line.quantity)
+              .map((line) => (
+                <div key={line.id} className="space-y-2">
+                  <Label htmlFor={`serials-${line.id}`}>
+                    {line.description} ({line.quantity - line.receivedQuantity} outstanding)
+                  </Label>
+                  <Textarea
+                    id={`serials-${line.id}`}
+                    value={serials[line.id] ?? ""}
+                    onChange={(e) => setSerials((prev) => ({ ...prev, [line.id]: e.target.value }))}
+                    placeholder="One serial number per line"
+                    rows={Math.min(line.quantity - line.receivedQuantity, 4)}
+                  />
+                </div>
+              ))}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="receiptStatus">Equipment status</Label>
+                <Select
+                  value={receiptStatus}
+                  onValueChange={(value) => setReceiptStatus(value as "available" | "pending")}
+                >
+                  <SelectTrigger id="receiptStatus">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="available">Available</SelectItem>
+                    <SelectItem value="pending">Pending setup</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="location">Location</Label>
+                <Input
+                  id="location"
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                  placeholder="e.g. Office storage"
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReceiving(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleReceive} disabled={submitting}>
+              {submitting ? "Receiving..." : "Receive"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!linking} onOpenChange={(open) => !open && setLinking(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Link Invoice</DialogTitle>
+            <DialogDescription>
+              The invoice is linked to {linking?.poNumber} and to every item received against it
+            </DialogDescription>
+          </DialogHeader>
+
+          <Select value={invoiceId} onValueChange={setInvoiceId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Processed invoice" />
+            </SelectTrigger>
+            <SelectContent>
+              {invoices.map((invoice) => (
+                <SelectItem key={invoice.id} value={invoice.id}>
+                  {invoice.vendor}
+                  {invoice.invoiceNumber ? ` #${invoice.invoiceNumber}` : ""}
+                  {invoice.amount ? ` (${formatCurrency(invoice.amount)})` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setLinking(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleLinkInvoice} disabled={submitting || !invoiceId}>
+              {submitting ? "Linking..." : "Link Invoice"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
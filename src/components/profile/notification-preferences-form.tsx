@@ -0,0 +1,119 @@
+// ABOUTME: Notification preferences form for the profile page
+// ABOUTME: Lets users pick email, in-app, daily digest or none for each notification event
+
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import type {
+  NotificationChannel,
+  NotificationEvent,
+  NotificationPreferences,
+} from "@/lib/notification-preferences";
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: "Email",
+  in_app: "In-app only",
+  digest: "Daily digest",
+  none: "None",
+};
+
+interface NotificationPreferencesFormProps {
+  events: Array<{ event: NotificationEvent; label: string; description: string }>;
+  preferences: NotificationPreferences;
+  emailEnabled: boolean;
+}
+
+export function NotificationPreferencesForm({
+  events,
+  preferences: initialPreferences,
+  emailEnabled,
+}: NotificationPreferencesFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [preferences, setPreferences] = useState(initialPreferences);
+
+  const handleChange = (event: NotificationEvent, channel: NotificationChannel) => {
+    setPreferences((prev) => ({
+      ...prev,
+      [event]: channel,
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const response = await fetch("/api/notifications/preferences", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(preferences),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update notification preferences");
+      }
+
+      toast.success("Notification preferences updated");
+    } catch (error) {
+      console.error("Notification preferences update error:", error);
+      toast.error("Failed to update notification preferences. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {!emailEnabled && (
+        <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+          Email notifications are currently turned off by an administrator. Events set to
+          email or daily digest will only appear in the notification center.
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {events.map(({ event, label, description }) => (
+          <div key={event} className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor={`notification-${event}`}>{label}</Label>
+              <p className="text-sm text-gray-600">{description}</p>
+            </div>
+            <Select
+              value={preferences[event]}
+              onValueChange={(value) => handleChange(event, value as NotificationChannel)}
+            >
+              <SelectTrigger id={`notification-${event}`} className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map((channel) => (
+                  <SelectItem key={channel} value={channel}>
+                    {CHANNEL_LABELS[channel]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? "Saving..." : "Save Preferences"}
+        </Button>
+      </div>
+    </form>
+  );
+}
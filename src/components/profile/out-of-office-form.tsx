@@ -0,0 +1,226 @@
+// ABOUTME: Out-of-office form for the profile page
+// ABOUTME: Lets approvers pick a delegate for an absence window and shows the delegations they gave or picked up
+
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+
+interface DelegationPerson {
+  id: string;
+  name: string;
+}
+
+interface Delegation {
+  id: string;
+  startsAt: Date;
+  endsAt: Date;
+  reason: string | null;
+  delegator: DelegationPerson;
+  delegate: DelegationPerson;
+}
+
+interface OutOfOfficeFormProps {
+  userId: string;
+  delegations: Delegation[];
+  candidates: Array<DelegationPerson & { role: string }>;
+}
+
+const formatWindow = (delegation: Delegation) =>
+  `${new Date(delegation.startsAt).toLocaleString()} – ${new Date(delegation.endsAt).toLocaleString()}`;
+
+export function OutOfOfficeForm({ userId, delegations, candidates }: OutOfOfficeFormProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    delegateId: "",
+    startsAt: "",
+    endsAt: "",
+    reason: "",
+  });
+
+  const now = new Date();
+  const isActive = (delegation: Delegation) =>
+    new Date(delegation.startsAt) <= now && new Date(delegation.endsAt) > now;
+  const given = delegations.filter((delegation) => delegation.delegator.id === userId);
+  const received = delegations.filter((delegation) => delegation.delegate.id === userId);
+
+  const handleInputChange = (field: keyof typeof formData, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      [field]: value,
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.delegateId || !formData.startsAt || !formData.endsAt) {
+      toast.error("Pick a delegate and the dates you are away");
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch("/api/approval-delegations", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          delegateId: formData.delegateId,
+          startsAt: new Date(formData.startsAt).toISOString(),
+          endsAt: new Date(formData.endsAt).toISOString(),
+          reason: formData.reason || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to save out-of-office delegation");
+      }
+
+      toast.success("Out-of-office delegation saved");
+      setFormData({ delegateId: "", startsAt: "", endsAt: "", reason: "" });
+      router.refresh();
+    } catch (error) {
+      console.error("Out-of-office delegation error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save out-of-office delegation");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancel = async (delegationId: string) => {
+    try {
+      const response = await fetch(`/api/approval-delegations/${delegationId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to cancel delegation");
+      }
+
+      toast.success("Out-of-office delegation cancelled");
+      router.refresh();
+    } catch (error) {
+      console.error("Out-of-office cancel error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to cancel delegation");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {given.length > 0 && (
+        <div className="space-y-3">
+          {given.map((delegation) => (
+            <div key={delegation.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+              <div>
+                <p className="font-medium">
+                  {delegation.delegate.name} approves for you
+                  {isActive(delegation) && (
+                    <Badge variant="secondary" className="ml-2">Active now</Badge>
+                  )}
+                </p>
+                <p className="text-sm text-gray-600">{formatWindow(delegation)}</p>
+                {delegation.reason && <p className="text-sm text-gray-500">{delegation.reason}</p>}
+              </div>
+              <Button variant="outline" size="sm" onClick={() => handleCancel(delegation.id)}>
+                Cancel
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {received.length > 0 && (
+        <div className="space-y-3">
+          {received.map((delegation) => (
+            <div key={delegation.id} className="p-3 border rounded-lg bg-blue-50">
+              <p className="font-medium">
+                You approve for {delegation.delegator.name}
+                {isActive(delegation) && (
+                  <Badge variant="secondary" className="ml-2">Active now</Badge>
+                )}
+              </p>
+              <p className="text-sm text-gray-600">{formatWindow(delegation)}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="delegateId">Delegate</Label>
+          <Select
+            value={formData.delegateId}
+            onValueChange={(value) => handleInputChange("delegateId", value)}
+          >
+            <SelectTrigger id="delegateId">
+              <SelectValue placeholder="Who approves while you are away" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {candidate.name} ({candidate.role.replace("_", " ")})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="startsAt">Away from</Label>
+            <Input
+              id="startsAt"
+              type="datetime-local"
+              value={formData.startsAt}
+              onChange={(e) => handleInputChange("startsAt", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="endsAt">Back on</Label>
+            <Input
+              id="endsAt"
+              type="datetime-local"
+              value={formData.endsAt}
+              onChange={(e) => handleInputChange("endsAt", e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="reason">Reason (optional)</Label>
+          <Input
+            id="reason"
+            value={formData.reason}
+            onChange={(e) => handleInputChange("reason", e.target.value)}
+            placeholder="e.g. Annual leave"
+            maxLength={200}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? "Saving..." : "Set Out of Office"}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -348,6 +349,18 @@ export function AdminReportsDashboard() {
           </p>
         </div>
         <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/admin/reports/fixed-assets">
+              <FileText className="h-4 w-4 mr-2" />
+              Fixed-Asset Register
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/requests/approve/response-times">
+              <Clock className="h-4 w-4 mr-2" />
+              Response Times
+            </Link>
+          </Button>
           <Button 
             variant="outline" 
             onClick={() => handleExport("csv")}
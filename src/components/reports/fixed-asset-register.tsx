@@ -0,0 +1,330 @@
+// ABOUTME: Fixed-asset register component for month-end close
+// ABOUTME: Previews a month's register, closes it for admins and downloads the depreciation journal
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { Download, Lock } from "lucide-react";
+import { format, subMonths } from "date-fns";
+
+interface RegisterLine {
+  equipmentId: string;
+  name: string;
+  serialNumber: string;
+  category: string;
+  invoiceNumber: string | null;
+  openingValue: number;
+  additions: number;
+  disposals: number;
+  depreciationCharge: number;
+  closingValue: number;
+  disposed: boolean;
+}
+
+interface RegisterTotals {
+  openingValue: number;
+  additions: number;
+  disposals: number;
+  depreciationCharge: number;
+  closingValue: number;
+}
+
+interface Register {
+  period: string;
+  closed: boolean;
+  closedAt: string | null;
+  closedBy: { id: string; name: string } | null;
+  totals: RegisterTotals;
+  lines: RegisterLine[];
+}
+
+interface ClosedPeriod {
+  id: string;
+  period: string;
+  closingValue: number;
+  closedAt: string;
+}
+
+interface FixedAssetRegisterViewProps {
+  userRole: "admin" | "team_lead" | "user";
+}
+
+const totalColumns: Array<{ key: keyof RegisterTotals; label: string }> = [
+  { key: "openingValue", label: "Opening Value" },
+  { key: "additions", label: "Additions" },
+  { key: "disposals", label: "Disposals" },
+  { key: "depreciationCharge", label: "Depreciation" },
+  { key: "closingValue", label: "Closing Value" },
+];
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "EUR",
+  }).format(amount);
+};
+
+export function FixedAssetRegisterView({ userRole }: FixedAssetRegisterViewProps) {
+  const [period, setPeriod] = useState(format(subMonths(new Date(), 1), "yyyy-MM"));
+  const [register, setRegister] = useState<Register | null>(null);
+  const [closedPeriods, setClosedPeriods] = useState<ClosedPeriod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [closing, setClosing] = useState(false);
+  const [isCloseDialogOpen, setIsCloseDialogOpen] = useState(false);
+
+  const fetchPeriods = useCallback(async () => {
+    try {
+      const response = await fetch("/api/reports/fixed-assets");
+      if (response.ok) {
+        const data = await response.json();
+        setClosedPeriods(data.periods);
+      }
+    } catch (error) {
+      console.error("Failed to fetch closed periods:", error);
+    }
+  }, []);
+
+  const fetchRegister = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/reports/fixed-assets/${period}`);
+      if (response.ok) {
+        setRegister(await response.json());
+      } else {
+        setRegister(null);
+        toast.error("Failed to load fixed-asset register");
+      }
+    } catch (error) {
+      console.error("Failed to fetch fixed-asset register:", error);
+      toast.error("Failed to load fixed-asset register");
+    } finally {
+      setLoading(false);
+    }
+  }, [period]);
+
+  useEffect(() => {
+    fetchPeriods();
+  }, [fetchPeriods]);
+
+  useEffect(() => {
+    if (period) {
+      fetchRegister();
+    }
+  }, [period, fetchRegister]);
+
+  const handleClose = async () => {
+    try {
+      setClosing(true);
+      const response = await fetch("/api/reports/fixed-assets", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ period }),
+      });
+
+      if (response.ok) {
+        const { register: closed } = await response.json();
+        toast.success(`Closed ${period}`);
+        setRegister(closed);
+        setIsCloseDialogOpen(false);
+        fetchPeriods();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to close period");
+      }
+    } catch (error) {
+      console.error("Close period error:", error);
+      toast.error("Failed to close period");
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold">Fixed-Asset Register</h1>
+          <p className="text-gray-600 mt-1">
+            Month-end depreciation, frozen once a month is closed
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div>
+            <Label htmlFor="register-period">Month</Label>
+            <Input
+              id="register-period"
+              type="month"
+              value={period}
+              onChange={(e) => setPeriod(e.target.value)}
+            />
+          </div>
+
+          {register?.closed && (
+            <>
+              <Button variant="outline" asChild>
+                <a href={`/api/reports/fixed-assets/${period}/journal?format=csv`}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Journal CSV
+                </a>
+              </Button>
+              <Button variant="outline" asChild>
+                <a href={`/api/reports/fixed-assets/${period}/journal?format=xlsx`}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Journal XLSX
+                </a>
+              </Button>
+            </>
+          )}
+
+          {userRole === "admin" && register && !register.closed && (
+            <Dialog open={isCloseDialogOpen} onOpenChange={setIsCloseDialogOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Lock className="h-4 w-4 mr-2" />
+                  Close Month
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Close {period}?</DialogTitle>
+                  <DialogDescription>
+                    The register below is frozen as it stands. Later changes to equipment will not
+                    alter it, and a closed month cannot be reopened.
+                  </DialogDescription>
+                </DialogHeader>
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setIsCloseDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleClose} disabled={closing}>
+                    {closing ? "Closing..." : "Close Month"}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </div>
+
+      {register && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {totalColumns.map(({ key, label }) => (
+            <Card key={key}>
+              <CardHeader className="pb-2">
+                <CardDescription>{label}</CardDescription>
+                <CardTitle className="text-xl">{formatCurrency(register.totals[key])}</CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {period}
+            {register && (
+              <Badge className={register.closed ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"}>
+                {register.closed ? "Closed" : "Preview"}
+              </Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            {register?.closed && register.closedAt
+              ? `Closed ${format(new Date(register.closedAt), "MMM d, yyyy")}${register.closedBy ? ` by ${register.closedBy.name}` : ""}`
+              : "Live figures until the month is closed"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading register...</p>
+          ) : !register || register.lines.length === 0 ? (
+            <p className="text-sm text-gray-500">No equipment on the register for this month.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Equipment</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  {totalColumns.map(({ key, label }) => (
+                    <TableHead key={key} className="text-right">{label}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {register.lines.map((line) => (
+                  <TableRow key={line.equipmentId}>
+                    <TableCell>
+                      <div className="font-medium">{line.name}</div>
+                      <div className="text-xs text-gray-500">{line.serialNumber}</div>
+                    </TableCell>
+                    <TableCell>{line.category}</TableCell>
+                    <TableCell>{line.invoiceNumber || "-"}</TableCell>
+                    {totalColumns.map(({ key }) => (
+                      <TableCell key={key} className="text-right">
+                        {formatCurrency(line[key])}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {closedPeriods.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Closed Months</CardTitle>
+            <CardDescription>Select a month to view its frozen register</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {closedPeriods.map((closed) => (
+              <Button
+                key={closed.id}
+                variant={closed.period === period ? "default" : "outline"}
+                size="sm"
+                onClick={() => setPeriod(closed.period)}
+              >
+                {closed.period}
+              </Button>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+// ABOUTME: Request response-times report component
+// ABOUTME: Tabulates average hours to approve and to fulfil requests per team for a chosen period
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ResponseTimesReport, TeamResponseTimes } from "@/lib/sla-tracking";
+
+interface ResponseTimesReportViewProps {
+  report: ResponseTimesReport;
+  days: number;
+  periods: number[];
+}
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return "—";
+  return hours >= 48 ? `${Math.round((hours / 24) * 10) / 10} days` : `${hours}h`;
+};
+
+function TeamRow({ row, total = false }: { row: TeamResponseTimes; total?: boolean }) {
+  return (
+    <TableRow className={total ? "font-semibold bg-gray-50" : undefined}>
+      <TableCell>{row.teamName}</TableCell>
+      <TableCell className="text-right">{row.requests}</TableCell>
+      <TableCell className="text-right">{row.approved}</TableCell>
+      <TableCell className="text-right">{formatHours(row.averageHoursToApprove)}</TableCell>
+      <TableCell className="text-right">{row.fulfilled}</TableCell>
+      <TableCell className="text-right">{formatHours(row.averageHoursToFulfil)}</TableCell>
+    </TableRow>
+  );
+}
+
+export function ResponseTimesReportView({ report, days, periods }: ResponseTimesReportViewProps) {
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Request Response Times</h1>
+          <p className="text-gray-600 mt-1">
+            How long requests submitted since {new Date(report.since).toLocaleDateString()} took to approve and fulfil
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {periods.map((period) => (
+            <Button key={period} asChild size="sm" variant={period === days ? "default" : "outline"}>
+              <Link href={`/requests/approve/response-times?days=${period}`}>Last {period} days</Link>
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Team</CardTitle>
+          <CardDescription>
+            Times run from submission to the first approval and to fulfilment, taken from each request&apos;s history
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {report.teams.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No requests were submitted in this period</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Team</TableHead>
+                  <TableHead className="text-right">Requests</TableHead>
+                  <TableHead className="text-right">Approved</TableHead>
+                  <TableHead className="text-right">Avg. to approve</TableHead>
+                  <TableHead className="text-right">Fulfilled</TableHead>
+                  <TableHead className="text-right">Avg. to fulfil</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.teams.map((row) => (
+                  <TeamRow key={row.teamId ?? "no-team"} row={row} />
+                ))}
+                {report.teams.length > 1 && <TeamRow row={report.overall} total />}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -64,11 +64,23 @@ import {
 } from "lucide-react";
 import Link from "next/link";
 import type { EquipmentRequest, User as UserType, Equipment } from "@prisma/client";
+import { RequestLineItems, type RequestLineItem } from "@/components/requests/request-line-items";
+import { currentApprovalStage, isStageApprover, type ApprovalStep } from "@/lib/approval-stages";
+import { NeededByBadge } from "@/components/requests/needed-by-badge";
+import {
+  DEFAULT_SLA_TARGETS,
+  slaState,
+  slaStatusLabels,
+  stageOpenedAt,
+  type SlaTargets,
+} from "@/lib/request-sla";
 
 interface RequestWithRelations extends EquipmentRequest {
   requester: UserType;
   approver: UserType | null;
   equipment: Equipment | null;
+  items?: RequestLineItem[];
+  approvals?: Array<ApprovalStep & { openedAt?: Date | null }>;
 }
 
 interface ApprovalDashboardProps {
@@ -83,6 +95,9 @@ interface ApprovalDashboardProps {
   };
   userRole: string;
   userId: string;
+  // Approvers who are out of office and have delegated their approvals to this user
+  coveringFor?: Array<{ id: string; role: string }>;
+  slaTargets?: SlaTargets;
 }
 
 export function ApprovalDashboard({
@@ -91,6 +106,8 @@ export function ApprovalDashboard({
   stats,
   userRole,
   userId,
+  coveringFor = [],
+  slaTargets = DEFAULT_SLA_TARGETS,
 }: ApprovalDashboardProps) {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
@@ -115,9 +132,31 @@ export function ApprovalDashboard({
     return matchesSearch && matchesStatus && matchesPriority;
   });
 
+  // Where the stage the request is waiting on stands against its approval SLA
+  const getSlaState = (request: RequestWithRelations) => {
+    if (request.status !== "pending") return null;
+
+    const stage = request.approvals && currentApprovalStage(request.approvals);
+    const openedAt = stage ? stageOpenedAt(stage, request.createdAt) : new Date(request.createdAt);
+    return slaState(openedAt, request.priority, slaTargets);
+  };
+
+  const breachedCount = pendingRequests.filter(
+    (request) => getSlaState(request)?.status === "breached"
+  ).length;
+
   const canApprove = (request: RequestWithRelations) => {
     if (request.status !== "pending") return false;
 
+    // Requests routed through an approval chain wait on one stage at a time
+    if (request.approvals && request.approvals.length > 0) {
+      const stage = currentApprovalStage(request.approvals);
+      return (
+        !!stage &&
+        [{ id: userId, role: userRole }, ...coveringFor].some((approver) => isStageApprover(stage, approver))
+      );
+    }
+
     if (userRole === "team_lead" && request.teamLeadApproval === null) {
       return true;
     }
@@ -235,6 +274,13 @@ export function ApprovalDashboard({
             <span>Rejected</span>
           </Badge>
         );
+      case "partially_fulfilled":
+        return (
+          <Badge variant="secondary" className="flex items-center space-x-1 bg-green-100 text-green-800">
+            <CheckCircle className="h-3 w-3" />
+            <span>Partially Fulfilled</span>
+          </Badge>
+        );
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -258,21 +304,43 @@ export function ApprovalDashboard({
     );
   };
 
+  const getSlaBadge = (request: RequestWithRelations) => {
+    const sla = getSlaState(request);
+    if (!sla || sla.status === "on_track") return null;
+
+    return (
+      <Badge
+        variant={sla.status === "breached" ? "destructive" : "secondary"}
+        className={`flex items-center space-x-1 ${sla.status === "at_risk" ? "bg-orange-100 text-orange-800" : ""}`}
+        title={`Due ${sla.deadline.toLocaleString()}`}
+      >
+        <Clock className="h-3 w-3" />
+        <span>{slaStatusLabels[sla.status]}</span>
+      </Badge>
+    );
+  };
+
   const getApprovalStatus = (request: RequestWithRelations) => {
     if (request.status !== "pending") return null;
 
-    const steps = [
-      {
-        label: "Team Lead",
-        approved: request.teamLeadApproval,
-        required: true,
-      },
-      {
-        label: "Admin",
-        approved: request.adminApproval,
-        required: request.teamLeadApproval === true,
-      },
-    ];
+    const steps = request.approvals && request.approvals.length > 0
+      ? request.approvals.map((stage) => ({
+          label: stage.status === "skipped" ? `${stage.name} (skipped)` : stage.name,
+          approved: stage.status === "approved" ? true : stage.status === "rejected" ? false : null,
+          required: stage.status === "pending",
+        }))
+      : [
+          {
+            label: "Team Lead",
+            approved: request.teamLeadApproval,
+            required: true,
+          },
+          {
+            label: "Admin",
+            approved: request.adminApproval,
+            required: request.teamLeadApproval === true,
+          },
+        ];
 
     return (
       <div className="flex items-center space-x-2 text-xs">
@@ -310,6 +378,12 @@ export function ApprovalDashboard({
           </p>
         </div>
         <div className="flex space-x-3">
+          <Button asChild variant="outline" size="sm">
+            <Link href="/requests/approve/response-times">
+              <TrendingUp className="h-4 w-4 mr-2" />
+              Response Times
+            </Link>
+          </Button>
           <Button variant="outline" size="sm">
             <Download className="h-4 w-4 mr-2" />
             Export Report
@@ -330,6 +404,9 @@ export function ApprovalDashboard({
             <div className="text-2xl font-bold text-orange-600">
               {stats.totalPending}
             </div>
+            {breachedCount > 0 && (
+              <p className="text-xs text-red-600 mt-1">{breachedCount} past SLA</p>
+            )}
           </CardContent>
         </Card>
 
@@ -463,6 +540,10 @@ export function ApprovalDashboard({
                           </CardTitle>
                           {getStatusBadge(request)}
                           {getPriorityBadge(request.priority)}
+                          {getSlaBadge(request)}
+                          {request.neededBy && (
+                            <NeededByBadge neededBy={request.neededBy} status={request.status} />
+                          )}
                         </div>
                         <CardDescription className="flex items-center space-x-4">
                           <span>Requested by {request.requester.name}</span>
@@ -546,6 +627,11 @@ export function ApprovalDashboard({
                         </p>
                       </div>
 
+                      {/* Line Items */}
+                      {request.items && request.items.length > 0 && (
+                        <RequestLineItems items={request.items} compact />
+                      )}
+
                       {/* Approval Status */}
                       {getApprovalStatus(request)}
 
@@ -650,6 +736,9 @@ export function ApprovalDashboard({
                       <p className="text-sm text-gray-600 line-clamp-2">
                         {request.justification}
                       </p>
+                      {request.items && request.items.length > 0 && (
+                        <RequestLineItems items={request.items} compact />
+                      )}
                       {request.approvalNotes && (
                         <div className="bg-gray-50 p-2 rounded text-sm">
                           <span className="font-medium">Notes:</span> {request.approvalNotes}
@@ -0,0 +1,567 @@
+// ABOUTME: Approval policy manager for administrators
+// ABOUTME: Defines which approval stages a request goes through based on its budget, priority, equipment type and team
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Edit, GitBranch, Plus, Trash2, X } from "lucide-react";
+import { approverRoleLabels, parseStringList, type ApproverRole } from "@/lib/approval-stages";
+
+interface PolicyStage {
+  id: string;
+  name: string;
+  approverRole: string | null;
+  approverId: string | null;
+  skipPriorities: string | null;
+  approver: { id: string; name: string; email: string; role: string } | null;
+}
+
+interface ApprovalPolicy {
+  id: string;
+  name: string;
+  description: string | null;
+  order: number;
+  isActive: boolean;
+  minBudget: number | null;
+  maxBudget: number | null;
+  priorities: string | null;
+  equipmentType: string | null;
+  teamId: string | null;
+  team: { id: string; name: string } | null;
+  stages: PolicyStage[];
+}
+
+interface Team {
+  id: string;
+  name: string;
+}
+
+interface Approver {
+  id: string;
+  name: string;
+  role: string;
+}
+
+interface StageForm {
+  name: string;
+  // "role:team_lead", "role:admin" or "user:<id>"
+  approver: string;
+  skipPriorities: string[];
+}
+
+interface PolicyForm {
+  name: string;
+  description: string;
+  order: number;
+  isActive: boolean;
+  minBudget: string;
+  maxBudget: string;
+  priorities: string[];
+  equipmentType: string;
+  teamId: string;
+  stages: StageForm[];
+}
+
+// Select items need a value, so "any" stands in for a policy that is not limited to a team
+const ANY = "any";
+
+const PRIORITIES = ["low", "medium", "high", "urgent"];
+
+const emptyStage: StageForm = { name: "", approver: "role:team_lead", skipPriorities: [] };
+
+const emptyForm: PolicyForm = {
+  name: "",
+  description: "",
+  order: 0,
+  isActive: true,
+  minBudget: "",
+  maxBudget: "",
+  priorities: [],
+  equipmentType: "",
+  teamId: ANY,
+  stages: [{ ...emptyStage, name: "Team Lead" }],
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "EUR",
+  }).format(amount);
+};
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter((entry) => entry !== value) : [...values, value];
+
+const stageApprover = (stage: PolicyStage) =>
+  stage.approver?.name || approverRoleLabels[stage.approverRole as ApproverRole] || "Unassigned";
+
+const budgetCondition = (policy: ApprovalPolicy) => {
+  if (policy.minBudget !== null && policy.maxBudget !== null) {
+    return `${formatCurrency(policy.minBudget)} to under ${formatCurrency(policy.maxBudget)}`;
+  }
+  if (policy.minBudget !== null) {
+    return `${formatCurrency(policy.minBudget)} or more`;
+  }
+  if (policy.maxBudget !== null) {
+    return `Under ${formatCurrency(policy.maxBudget)}`;
+  }
+  return "Any budget";
+};
+
+export function ApprovalPoliciesManager() {
+  const [policies, setPolicies] = useState<ApprovalPolicy[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [approvers, setApprovers] = useState<Approver[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<ApprovalPolicy | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<PolicyForm>(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [policiesResponse, teamsResponse, usersResponse] = await Promise.all([
+        fetch("/api/approval-policies"),
+        fetch("/api/teams"),
+        fetch("/api/users?active=true"),
+      ]);
+
+      if (policiesResponse.ok) {
+        const data = await policiesResponse.json();
+        setPolicies(data.policies);
+      }
+      if (teamsResponse.ok) {
+        setTeams(await teamsResponse.json());
+      }
+      if (usersResponse.ok) {
+        const users: Approver[] = await usersResponse.json();
+        // Only team leads and admins can use the approval endpoints
+        setApprovers(users.filter((user) => user.role === "team_lead" || user.role === "admin"));
+      }
+    } catch (error) {
+      console.error("Failed to fetch approval policies:", error);
+      toast.error("Failed to load approval policies");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm({ ...emptyForm, order: policies.length });
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (policy: ApprovalPolicy) => {
+    setEditing(policy);
+    setForm({
+      name: policy.name,
+      description: policy.description || "",
+      order: policy.order,
+      isActive: policy.isActive,
+      minBudget: policy.minBudget?.toString() ?? "",
+      maxBudget: policy.maxBudget?.toString() ?? "",
+      priorities: parseStringList(policy.priorities),
+      equipmentType: policy.equipmentType || "",
+      teamId: policy.teamId || ANY,
+      stages: policy.stages.map((stage) => ({
+        name: stage.name,
+        approver: stage.approverId ? `user:${stage.approverId}` : `role:${stage.approverRole}`,
+        skipPriorities: parseStringList(stage.skipPriorities),
+      })),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const updateStage = (index: number, changes: Partial<StageForm>) => {
+    setForm({
+      ...form,
+      stages: form.stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error("Policy name is required");
+      return;
+    }
+    if (form.stages.length === 0 || form.stages.some((stage) => !stage.name.trim())) {
+      toast.error("Every stage needs a name");
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const response = await fetch(editing ? `/api/approval-policies/${editing.id}` : "/api/approval-policies", {
+        method: editing ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name: form.name,
+          description: form.description || undefined,
+          order: form.order,
+          isActive: form.isActive,
+          minBudget: form.minBudget === "" ? null : Number(form.minBudget),
+          maxBudget: form.maxBudget === "" ? null : Number(form.maxBudget),
+          priorities: form.priorities,
+          equipmentType: form.equipmentType || null,
+          teamId: form.teamId === ANY ? null : form.teamId,
+          stages: form.stages.map((stage) => {
+            const [kind, value] = stage.approver.split(":");
+            return {
+              name: stage.name,
+              approverRole: kind === "role" ? value : null,
+              approverId: kind === "user" ? value : null,
+              skipPriorities: stage.skipPriorities,
+            };
+          }),
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save approval policy");
+      }
+
+      toast.success(editing ? "Approval policy updated" : "Approval policy created");
+      setIsDialogOpen(false);
+      fetchPolicies();
+    } catch (error) {
+      console.error("Approval policy save error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save approval policy");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (policy: ApprovalPolicy) => {
+    if (!confirm(`Delete the "${policy.name}" approval policy? Requests already routed through it keep their stages.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/approval-policies/${policy.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to delete approval policy");
+      }
+
+      toast.success("Approval policy deleted");
+      fetchPolicies();
+    } catch (error) {
+      console.error("Approval policy delete error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete approval policy");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Approval Policies</h1>
+          <p className="text-gray-600">
+            Requests follow the first active policy they match, in order. Requests matching none go to their team lead, then an admin.
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Policy
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-500">Loading approval policies...</div>
+      ) : policies.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8 text-gray-500">
+            No approval policies yet. Every request goes to its team lead, then an admin.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {policies.map((policy) => (
+            <Card key={policy.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <CardTitle className="flex items-center">
+                      <GitBranch className="h-5 w-5 mr-2" />
+                      {policy.order}. {policy.name}
+                    </CardTitle>
+                    <CardDescription>{policy.description || "No description"}</CardDescription>
+                  </div>
+                  <div className="flex space-x-1">
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(policy)} aria-label={`Edit ${policy.name}`}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(policy)} aria-label={`Delete ${policy.name}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2 pt-2">
+                  <Badge variant="outline">{budgetCondition(policy)}</Badge>
+                  <Badge variant="outline">
+                    {parseStringList(policy.priorities).length > 0
+                      ? `${parseStringList(policy.priorities).join(", ")} priority`
+                      : "Any priority"}
+                  </Badge>
+                  {policy.equipmentType && <Badge variant="outline">Type contains &quot;{policy.equipmentType}&quot;</Badge>}
+                  <Badge variant="outline">{policy.team?.name || "Any team"}</Badge>
+                  {!policy.isActive && <Badge variant="secondary">Inactive</Badge>}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <ol className="flex flex-wrap items-center gap-2 text-sm">
+                  {policy.stages.map((stage, index) => (
+                    <li key={stage.id} className="flex items-center space-x-2">
+                      {index > 0 && <span className="text-gray-400">→</span>}
+                      <span className="px-2 py-1 rounded bg-gray-100">
+                        {stage.name}
+                        <span className="text-gray-500 ml-1">({stageApprover(stage)})</span>
+                        {parseStringList(stage.skipPriorities).length > 0 && (
+                          <span className="text-gray-500 ml-1">
+                            skipped for {parseStringList(stage.skipPriorities).join(", ")}
+                          </span>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Approval Policy" : "New Approval Policy"}</DialogTitle>
+            <DialogDescription>
+              Leave a condition empty to match any request. Requests already in approval keep the stages they started with.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+            <div className="grid grid-cols-4 gap-4">
+              <div className="col-span-3">
+                <Label htmlFor="policy-name">Name</Label>
+                <Input
+                  id="policy-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Large purchases"
+                />
+              </div>
+              <div>
+                <Label htmlFor="policy-order">Order</Label>
+                <Input
+                  id="policy-order"
+                  type="number"
+                  min={0}
+                  value={form.order}
+                  onChange={(e) => setForm({ ...form, order: Math.max(0, Number(e.target.value) || 0) })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="policy-description">Description</Label>
+              <Textarea
+                id="policy-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="policy-min-budget">Budget from (EUR)</Label>
+                <Input
+                  id="policy-min-budget"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.minBudget}
+                  onChange={(e) => setForm({ ...form, minBudget: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="policy-max-budget">Budget under (EUR)</Label>
+                <Input
+                  id="policy-max-budget"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.maxBudget}
+                  onChange={(e) => setForm({ ...form, maxBudget: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="policy-equipment-type">Equipment type contains</Label>
+                <Input
+                  id="policy-equipment-type"
+                  value={form.equipmentType}
+                  onChange={(e) => setForm({ ...form, equipmentType: e.target.value })}
+                  placeholder="Laptop"
+                />
+              </div>
+              <div>
+                <Label htmlFor="policy-team">Team</Label>
+                <Select value={form.teamId} onValueChange={(value) => setForm({ ...form, teamId: value })}>
+                  <SelectTrigger id="policy-team">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any team</SelectItem>
+                    {teams.map((team) => (
+                      <SelectItem key={team.id} value={team.id}>
+                        {team.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label>Priorities</Label>
+              <div className="flex flex-wrap gap-4 pt-1">
+                {PRIORITIES.map((priority) => (
+                  <label key={priority} className="flex items-center space-x-2 text-sm capitalize">
+                    <Checkbox
+                      checked={form.priorities.includes(priority)}
+                      onCheckedChange={() => setForm({ ...form, priorities: toggle(form.priorities, priority) })}
+                    />
+                    <span>{priority}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="policy-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+              />
+              <Label htmlFor="policy-active">Apply this policy to new requests</Label>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Stages</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setForm({ ...form, stages: [...form.stages, emptyStage] })}
+                  disabled={form.stages.length >= 10}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Stage
+                </Button>
+              </div>
+              {form.stages.map((stage, index) => (
+                <div key={index} className="border rounded-lg p-3 space-y-2">
+                  <div className="grid grid-cols-12 gap-2 items-center">
+                    <span className="col-span-1 text-sm text-gray-500">{index + 1}.</span>
+                    <Input
+                      className="col-span-5"
+                      aria-label="Stage name"
+                      value={stage.name}
+                      onChange={(e) => updateStage(index, { name: e.target.value })}
+                      placeholder="Finance"
+                    />
+                    <div className="col-span-5">
+                      <Select value={stage.approver} onValueChange={(value) => updateStage(index, { approver: value })}>
+                        <SelectTrigger aria-label="Approver">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="role:team_lead">Requester&apos;s team lead</SelectItem>
+                          <SelectItem value="role:admin">Any admin</SelectItem>
+                          {approvers.map((approver) => (
+                            <SelectItem key={approver.id} value={`user:${approver.id}`}>
+                              {approver.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      className="col-span-1"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setForm({ ...form, stages: form.stages.filter((_, i) => i !== index) })}
+                      disabled={form.stages.length === 1}
+                      aria-label="Remove stage"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4 text-sm">
+                    <span className="text-gray-600">Skip for:</span>
+                    {PRIORITIES.map((priority) => (
+                      <label key={priority} className="flex items-center space-x-2 capitalize">
+                        <Checkbox
+                          checked={stage.skipPriorities.includes(priority)}
+                          onCheckedChange={() =>
+                            updateStage(index, { skipPriorities: toggle(stage.skipPriorities, priority) })
+                          }
+                        />
+                        <span>{priority}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={submitting}>
+              {submitting ? "Saving..." : editing ? "Save Policy" : "Create Policy"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,11 +1,11 @@
 // ABOUTME: Equipment request form component with validation and submission
-// ABOUTME: Handles new equipment requests with priority and justification fields using React Hook Form and Zod validation
+// ABOUTME: Handles new equipment, multi-item and consumable requests with priority and justification fields using React Hook Form and Zod validation
 
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { requestSchemas } from "@/lib/validation";
@@ -28,7 +28,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
+import { Plus, X } from "lucide-react";
 
 const equipmentCategories = [
   { value: "computers", label: "Computers & Laptops" },
@@ -73,9 +75,31 @@ const priorityLevels = [
   },
 ];
 
+type RequestKind = "equipment" | "multiple" | "consumable";
+
+const emptyLineItem = { kind: "equipment" as const, name: "", quantity: 1 };
+
+interface ConsumableOption {
+  id: string;
+  name: string;
+  category: string;
+  currentStock: number;
+}
+
 export function EquipmentRequestForm() {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
+  const [requestKind, setRequestKind] = useState<RequestKind>("equipment");
+  const [consumables, setConsumables] = useState<ConsumableOption[]>([]);
+
+  useEffect(() => {
+    if (requestKind !== "consumable" || consumables.length > 0) return;
+
+    fetch("/api/consumables")
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setConsumables)
+      .catch(() => setConsumables([]));
+  }, [requestKind, consumables.length]);
 
   type RequestFormData = z.infer<typeof requestSchemas.create>;
 
@@ -88,9 +112,44 @@ export function EquipmentRequestForm() {
       specificRequirements: "",
       budget: undefined,
       neededBy: undefined,
+      consumableId: undefined,
+      quantity: undefined,
+      items: undefined,
     },
   });
 
+  const lineItems = useFieldArray({ control: form.control, name: "items" });
+
+  const handleRequestKindChange = (kind: RequestKind) => {
+    setRequestKind(kind);
+    form.setValue("equipmentType", "");
+    form.setValue("consumableId", undefined);
+    form.setValue("quantity", kind === "consumable" ? 1 : undefined);
+    // Multi-item requests budget per line, so the request budget is their sum
+    form.setValue("budget", undefined);
+    form.setValue("items", kind === "multiple" ? [emptyLineItem] : undefined);
+  };
+
+  const watchedItems = form.watch("items");
+  const lineItemsBudget = (watchedItems || []).reduce(
+    (sum, item) => sum + (item.budget ?? 0) * (item.quantity || 0),
+    0
+  );
+
+  const handleConsumableChange = (consumableId: string) => {
+    const consumable = consumables.find((item) => item.id === consumableId);
+    form.setValue("consumableId", consumableId);
+    // Consumable requests reuse the equipment type field as a human-readable label
+    form.setValue("equipmentType", consumable?.name || "", { shouldValidate: true });
+  };
+
+  const onInvalid = () => {
+    // The equipment type field is hidden for consumables, so surface a missing item here
+    if (requestKind === "consumable" && !form.getValues("consumableId")) {
+      toast.error("Please select the item you need");
+    }
+  };
+
   const onSubmit = async (data: RequestFormData) => {
     setIsLoading(true);
     try {
@@ -122,39 +181,180 @@ export function EquipmentRequestForm() {
 
   return (
     <Form {...form}>
-      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-        {/* Equipment Type */}
-        <FormField
-          control={form.control}
-          name="equipmentType"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Equipment Type *</FormLabel>
-              <FormControl>
-                <Input
-                  placeholder="e.g., MacBook Pro 14-inch, iPhone 15, Dell Monitor"
-                  {...field}
-                />
-              </FormControl>
-              <FormDescription>
-                Be specific about the type and model if known
-              </FormDescription>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
+      <form onSubmit={form.handleSubmit(onSubmit, onInvalid)} className="space-y-6">
+        {/* Request Kind */}
+        <div className="space-y-2">
+          <Label htmlFor="request-kind">What do you need?</Label>
+          <Select value={requestKind} onValueChange={handleRequestKindChange}>
+            <SelectTrigger id="request-kind">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="equipment">Equipment (laptop, phone, monitor...)</SelectItem>
+              <SelectItem value="multiple">Several items (new starter, desk setup...)</SelectItem>
+              <SelectItem value="consumable">Consumable from stock (cable, adapter, mouse...)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {requestKind === "consumable" ? (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="consumable-item">Item *</Label>
+              <Select onValueChange={handleConsumableChange} value={form.watch("consumableId") || ""}>
+                <SelectTrigger id="consumable-item">
+                  <SelectValue placeholder="Select an item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {consumables.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.name} ({item.currentStock} in stock)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="consumable-quantity">Quantity *</Label>
+              <Input
+                id="consumable-quantity"
+                type="number"
+                min="1"
+                step="1"
+                value={form.watch("quantity") || ""}
+                onChange={(e) =>
+                  form.setValue("quantity", e.target.value ? parseInt(e.target.value, 10) : undefined)
+                }
+              />
+              {form.formState.errors.quantity && (
+                <p className="text-sm text-destructive">{form.formState.errors.quantity.message}</p>
+              )}
+            </div>
+          </div>
+        ) : requestKind === "multiple" ? (
+          <>
+            {/* Request title, stored as the equipment type */}
+            <div className="space-y-2">
+              <Label htmlFor="request-title">Request Title *</Label>
+              <Input id="request-title" placeholder="e.g., Home office setup" {...form.register("equipmentType")} />
+              {form.formState.errors.equipmentType && (
+                <p className="text-sm text-destructive">{form.formState.errors.equipmentType.message}</p>
+              )}
+            </div>
+
+            {/* Line Items */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Items *</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => lineItems.append(emptyLineItem)}
+                  disabled={lineItems.fields.length >= 30}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Item
+                </Button>
+              </div>
+              {lineItems.fields.map((field, index) => (
+                <div key={field.id} className="grid grid-cols-12 gap-2 items-start">
+                  <div className="col-span-3">
+                    <Select
+                      value={form.watch(`items.${index}.kind`)}
+                      onValueChange={(value) =>
+                        form.setValue(`items.${index}.kind`, value as "equipment" | "subscription")
+                      }
+                    >
+                      <SelectTrigger aria-label="Item kind">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="equipment">Equipment</SelectItem>
+                        <SelectItem value="subscription">Subscription</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-4">
+                    <Input aria-label="Item name" placeholder="e.g., Monitor" {...form.register(`items.${index}.name`)} />
+                    {form.formState.errors.items?.[index]?.name && (
+                      <p className="text-sm text-destructive">{form.formState.errors.items[index]?.name?.message}</p>
+                    )}
+                  </div>
+                  <Input
+                    className="col-span-2"
+                    aria-label="Quantity"
+                    type="number"
+                    min="1"
+                    step="1"
+                    {...form.register(`items.${index}.quantity`, { valueAsNumber: true })}
+                  />
+                  <Input
+                    className="col-span-2"
+                    aria-label="Unit budget"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="€ each"
+                    {...form.register(`items.${index}.budget`, {
+                      setValueAs: (value) => (value === "" || value === null ? undefined : Number(value)),
+                    })}
+                  />
+                  <Button
+                    type="button"
+                    className="col-span-1"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => lineItems.remove(index)}
+                    disabled={lineItems.fields.length === 1}
+                    aria-label="Remove item"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {lineItemsBudget > 0 && (
+                <p className="text-sm text-gray-600">Total budget: €{lineItemsBudget.toLocaleString()}</p>
+              )}
+            </div>
+          </>
+        ) : (
+          <>
+            {/* Equipment Type */}
+            <FormField
+              control={form.control}
+              name="equipmentType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Equipment Type *</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g., MacBook Pro 14-inch, iPhone 15, Dell Monitor"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Be specific about the type and model if known
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
         
-        {/* Equipment Examples */}
-        <div className="p-3 bg-gray-50 rounded-lg">
-          <p className="text-xs font-medium text-gray-700 mb-1">Common Examples:</p>
-          <div className="space-y-1">
-            {equipmentExamples.slice(0, 3).map((example) => (
-              <div key={example.category} className="text-xs text-gray-600">
-                <span className="font-medium">{example.category}:</span> {example.examples}
+            {/* Equipment Examples */}
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-xs font-medium text-gray-700 mb-1">Common Examples:</p>
+              <div className="space-y-1">
+                {equipmentExamples.slice(0, 3).map((example) => (
+                  <div key={example.category} className="text-xs text-gray-600">
+                    <span className="font-medium">{example.category}:</span> {example.examples}
+                  </div>
+                ))}
               </div>
-            ))}
-          </div>
-        </div>
+            </div>
+          </>
+        )}
 
         {/* Priority Level */}
         <FormField
@@ -212,6 +412,7 @@ export function EquipmentRequestForm() {
 
         {/* Budget and Needed By */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {requestKind !== "multiple" && (
           <FormField
             control={form.control}
             name="budget"
@@ -236,6 +437,7 @@ export function EquipmentRequestForm() {
               </FormItem>
             )}
           />
+          )}
 
           <FormField
             control={form.control}
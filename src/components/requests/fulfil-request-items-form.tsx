@@ -0,0 +1,268 @@
+// ABOUTME: Line item fulfilment component for admins working through multi-item requests
+// ABOUTME: Assigns stock to each equipment line, marks subscriptions set up and flags lines for purchase
+
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "sonner";
+import { Check, PackageOpen, ShoppingCart, Undo2 } from "lucide-react";
+
+type RequestItemStatus = "pending" | "to_purchase" | "partially_fulfilled" | "fulfilled";
+
+interface RequestItem {
+  id: string;
+  kind: string;
+  name: string;
+  quantity: number;
+  fulfilledQuantity: number;
+  budget: number | null;
+  status: string;
+  notes: string | null;
+  allocations: { id: string; equipment: { id: string; name: string; serialNumber: string } }[];
+  subscription: { id: string; softwareName: string } | null;
+}
+
+interface AvailableEquipment {
+  id: string;
+  name: string;
+  serialNumber: string;
+  category: string;
+}
+
+interface FulfilRequestItemsFormProps {
+  requestId: string;
+  requesterName: string;
+  justification: string;
+  items: RequestItem[];
+  availableEquipment: AvailableEquipment[];
+}
+
+const statusLabels: Record<RequestItemStatus, string> = {
+  pending: "Pending",
+  to_purchase: "To purchase",
+  partially_fulfilled: "Partially fulfilled",
+  fulfilled: "Fulfilled",
+};
+
+const statusVariants: Record<RequestItemStatus, "default" | "secondary" | "outline"> = {
+  pending: "outline",
+  to_purchase: "secondary",
+  partially_fulfilled: "secondary",
+  fulfilled: "default",
+};
+
+export function FulfilRequestItemsForm({
+  requestId,
+  requesterName,
+  justification,
+  items,
+  availableEquipment,
+}: FulfilRequestItemsFormProps) {
+  const router = useRouter();
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+
+  const units = items.reduce((sum, item) => sum + item.quantity, 0);
+  const fulfilledUnits = items.reduce((sum, item) => sum + item.fulfilledQuantity, 0);
+  const chosen = new Set(Object.values(selected));
+
+  const run = async (itemId: string, action: () => Promise<Response>, success: string) => {
+    setBusyItemId(itemId);
+
+    try {
+      const response = await action();
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update line item");
+      }
+
+      toast.success(success);
+      setSelected((current) => {
+        const next = { ...current };
+        delete next[itemId];
+        return next;
+      });
+      router.refresh();
+    } catch (error) {
+      console.error("Line item update error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update line item");
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const handleAssign = (item: RequestItem) =>
+    run(
+      item.id,
+      () =>
+        fetch(`/api/requests/${requestId}/assign`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ equipmentId: selected[item.id], itemId: item.id }),
+        }),
+      `${item.name} assigned to ${requesterName}`
+    );
+
+  const handleStatus = (item: RequestItem, status: RequestItemStatus, success: string) =>
+    run(
+      item.id,
+      () =>
+        fetch(`/api/requests/${requestId}/items/${item.id}`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ status }),
+        }),
+      success
+    );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <PackageOpen className="h-5 w-5" />
+            <span>Requested for {requesterName}</span>
+          </CardTitle>
+          <CardDescription>
+            {fulfilledUnits} of {units} units fulfilled across {items.length} line{items.length === 1 ? "" : "s"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Progress value={units > 0 ? (fulfilledUnits / units) * 100 : 0} />
+          <div className="bg-gray-50 p-3 rounded-lg text-sm">{justification}</div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Line Items</CardTitle>
+          <CardDescription>
+            Assign equipment from stock one unit at a time or flag lines that need to be purchased. The request closes once every unit is fulfilled.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {items.map((item) => {
+            const status = item.status as RequestItemStatus;
+            const busy = busyItemId === item.id;
+
+            return (
+              <div key={item.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">
+                      {item.quantity > 1 && `${item.quantity}x `}
+                      {item.name}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      <span className="capitalize">{item.kind}</span>
+                      {" · "}
+                      {item.fulfilledQuantity} of {item.quantity} fulfilled
+                    </p>
+                  </div>
+                  <Badge variant={statusVariants[status]}>{statusLabels[status]}</Badge>
+                </div>
+
+                {item.allocations.length > 0 && (
+                  <ul className="text-sm text-gray-600">
+                    {item.allocations.map((allocation) => (
+                      <li key={allocation.id}>
+                        {allocation.equipment.name} ({allocation.equipment.serialNumber})
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {status === "fulfilled" ? (
+                  item.subscription && (
+                    <p className="text-sm text-gray-600">{item.subscription.softwareName}</p>
+                  )
+                ) : (
+                  <div className="flex flex-wrap items-center gap-2">
+                    {item.kind === "equipment" ? (
+                      <>
+                        <Select
+                          value={selected[item.id] || ""}
+                          onValueChange={(value) => setSelected({ ...selected, [item.id]: value })}
+                        >
+                          <SelectTrigger className="w-72" aria-label={`Equipment for ${item.name}`}>
+                            <SelectValue placeholder="Choose available equipment" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {availableEquipment
+                              .filter((eq) => !chosen.has(eq.id) || selected[item.id] === eq.id)
+                              .map((eq) => (
+                                <SelectItem key={eq.id} value={eq.id}>
+                                  {eq.name} ({eq.serialNumber})
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        <Button size="sm" onClick={() => handleAssign(item)} disabled={!selected[item.id] || busy}>
+                          <Check className="h-4 w-4 mr-1" />
+                          {item.quantity > 1 ? `Assign Unit ${item.fulfilledQuantity + 1}` : "Assign"}
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        size="sm"
+                        onClick={() => handleStatus(item, "fulfilled", `${item.name} marked as set up`)}
+                        disabled={busy}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Mark Set Up
+                      </Button>
+                    )}
+                    {status === "pending" || status === "partially_fulfilled" ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleStatus(item, "to_purchase", `${item.name} flagged for purchase`)}
+                        disabled={busy}
+                      >
+                        <ShoppingCart className="h-4 w-4 mr-1" />
+                        Flag for Purchase
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleStatus(item, "pending", `${item.name} moved back to pending`)}
+                        disabled={busy}
+                      >
+                        <Undo2 className="h-4 w-4 mr-1" />
+                        Back to Pending
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+// ABOUTME: Consumable issue component for admins fulfilling approved consumable requests
+// ABOUTME: Shows requested quantity against current stock and checks the items out to the requester
+
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { AlertTriangle, Boxes } from "lucide-react";
+import type { SmallInventoryItem } from "@prisma/client";
+
+interface IssueConsumableFormProps {
+  requestId: string;
+  requesterName: string;
+  quantity: number;
+  justification: string;
+  consumable: SmallInventoryItem;
+}
+
+export function IssueConsumableForm({
+  requestId,
+  requesterName,
+  quantity,
+  justification,
+  consumable,
+}: IssueConsumableFormProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+  const [notes, setNotes] = useState("");
+
+  const hasEnoughStock = consumable.currentStock >= quantity;
+  const remainingStock = consumable.currentStock - quantity;
+
+  const handleIssue = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`/api/requests/${requestId}/assign`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          notes: notes.trim() || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to issue consumable");
+      }
+
+      toast.success("Consumable issued successfully!");
+      router.push(`/requests/${requestId}`);
+      router.refresh();
+    } catch (error) {
+      console.error("Consumable issue error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to issue consumable"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Boxes className="h-5 w-5" />
+            <span>{consumable.name}</span>
+          </CardTitle>
+          <CardDescription>
+            Requested by {requesterName}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Requested</p>
+              <p className="font-medium">{quantity}</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-600">In Stock</p>
+              <p className="font-medium">{consumable.currentStock}</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-600">Location</p>
+              <p className="font-medium">{consumable.location || "Not specified"}</p>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-600 mb-2">Justification</p>
+            <div className="bg-gray-50 p-3 rounded-lg text-sm">
+              {justification}
+            </div>
+          </div>
+
+          {hasEnoughStock && remainingStock < consumable.minStock && (
+            <Badge variant="secondary">
+              Stock will drop to {remainingStock}, below the minimum of {consumable.minStock}
+            </Badge>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Issue Notes (Optional)</CardTitle>
+          <CardDescription>
+            Added to the stock movement and the request
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Textarea
+            placeholder="Handed over at the front desk..."
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+          />
+        </CardContent>
+      </Card>
+
+      {!hasEnoughStock && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="h-5 w-5 text-red-600 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-red-800">Not Enough Stock</h4>
+              <p className="text-sm text-red-700 mt-1">
+                Only {consumable.currentStock} in stock. Check in more items before issuing this request.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => router.back()}
+          disabled={isLoading}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          onClick={handleIssue}
+          disabled={!hasEnoughStock || isLoading}
+        >
+          {isLoading ? "Issuing..." : `Issue ${quantity} from Stock`}
+        </Button>
+      </div>
+    </div>
+  );
+}
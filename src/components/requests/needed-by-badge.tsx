@@ -0,0 +1,34 @@
+// ABOUTME: Need-by date badge for equipment requests
+// ABOUTME: Highlights open requests whose need-by date has passed or is only a few days away
+
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "lucide-react";
+import { neededByUrgency } from "@/lib/request-sla";
+
+interface NeededByBadgeProps {
+  neededBy: Date | string;
+  status: string;
+}
+
+// Requests that are done no longer need chasing, whatever their need-by date
+const CLOSED_STATUSES = ["rejected", "fulfilled"];
+
+export function NeededByBadge({ neededBy, status }: NeededByBadgeProps) {
+  const urgency = CLOSED_STATUSES.includes(status) ? null : neededByUrgency(neededBy);
+
+  if (!urgency) {
+    return null;
+  }
+
+  return (
+    <Badge
+      variant={urgency === "overdue" ? "destructive" : "secondary"}
+      className={`flex items-center space-x-1 ${urgency === "soon" ? "bg-yellow-100 text-yellow-800" : ""}`}
+    >
+      <Calendar className="h-3 w-3" />
+      <span>{urgency === "overdue" ? "Past need-by date" : "Needed soon"}</span>
+    </Badge>
+  );
+}
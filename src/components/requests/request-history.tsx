@@ -8,6 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Progress } from "@/components/ui/progress";
 import {
   Dialog,
   DialogContent,
@@ -24,8 +25,13 @@ import {
   Package,
   FileText,
   MoreHorizontal,
+  ListChecks,
+  GitBranch,
+  SkipForward,
+  ShoppingCart,
+  PackageCheck,
 } from "lucide-react";
-import type { RequestHistoryEntry } from "@/lib/request-history";
+import type { LineItemProgress, RequestHistoryEntry } from "@/lib/request-history";
 
 interface RequestHistoryProps {
   requestId: string;
@@ -39,6 +45,13 @@ const actionIcons = {
   admin_rejected: XCircle,
   status_changed: Clock,
   equipment_assigned: Package,
+  item_updated: ListChecks,
+  approval_chain_started: GitBranch,
+  stage_approved: CheckCircle,
+  stage_rejected: XCircle,
+  stage_skipped: SkipForward,
+  ordered: ShoppingCart,
+  goods_received: PackageCheck,
 };
 
 const actionColors = {
@@ -49,6 +62,13 @@ const actionColors = {
   admin_rejected: "bg-red-600",
   status_changed: "bg-orange-500",
   equipment_assigned: "bg-purple-500",
+  item_updated: "bg-teal-500",
+  approval_chain_started: "bg-blue-400",
+  stage_approved: "bg-green-500",
+  stage_rejected: "bg-red-500",
+  stage_skipped: "bg-gray-400",
+  ordered: "bg-indigo-500",
+  goods_received: "bg-purple-400",
 };
 
 const actionLabels = {
@@ -59,10 +79,25 @@ const actionLabels = {
   admin_rejected: "Admin Rejected",
   status_changed: "Status Changed",
   equipment_assigned: "Equipment Assigned",
+  item_updated: "Line Item Updated",
+  approval_chain_started: "Approval Chain Started",
+  stage_approved: "Stage Approved",
+  stage_rejected: "Stage Rejected",
+  stage_skipped: "Stage Skipped",
+  ordered: "Ordered",
+  goods_received: "Goods Received",
+};
+
+const lineItemStatusLabels: Record<string, string> = {
+  pending: "pending",
+  to_purchase: "to purchase",
+  partially_fulfilled: "partially fulfilled",
+  fulfilled: "fulfilled",
 };
 
 export function RequestHistory({ requestId }: RequestHistoryProps) {
   const [history, setHistory] = useState<RequestHistoryEntry[]>([]);
+  const [lineItems, setLineItems] = useState<LineItemProgress[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedEntry, setSelectedEntry] = useState<RequestHistoryEntry | null>(null);
@@ -82,6 +117,7 @@ export function RequestHistory({ requestId }: RequestHistoryProps) {
 
       const data = await response.json();
       setHistory(data.history);
+      setLineItems(data.lineItems || []);
     } catch (err) {
       console.error("Error fetching request history:", err);
       setError("Failed to load request history");
@@ -109,8 +145,16 @@ export function RequestHistory({ requestId }: RequestHistoryProps) {
     return actionColors[action as keyof typeof actionColors] || "bg-gray-500";
   };
 
-  const getActionLabel = (action: string) => {
-    return actionLabels[action as keyof typeof actionLabels] || action.replace(/_/g, " ").toUpperCase();
+  const getActionLabel = (action: string, metadata?: Record<string, unknown>) => {
+    const label = actionLabels[action as keyof typeof actionLabels] || action.replace(/_/g, " ").toUpperCase();
+    // Approval stage entries name the stage they decided
+    return typeof metadata?.stage === "string" ? `${label}: ${metadata.stage}` : label;
+  };
+
+  // Decisions made by a delegate record the out-of-office approver they stood in for
+  const getDelegator = (metadata?: Record<string, unknown>) => {
+    const onBehalfOf = metadata?.onBehalfOf as { name?: unknown } | undefined;
+    return typeof onBehalfOf?.name === "string" ? onBehalfOf.name : null;
   };
 
   const getStatusBadge = (status?: string) => {
@@ -121,12 +165,13 @@ export function RequestHistory({ requestId }: RequestHistoryProps) {
       approved: "default",
       rejected: "destructive",
       ordered: "outline",
+      partially_fulfilled: "secondary",
       fulfilled: "default",
     } as const;
 
     return (
       <Badge variant={variants[status as keyof typeof variants] || "outline"}>
-        {status.toUpperCase()}
+        {status.replace(/_/g, " ").toUpperCase()}
       </Badge>
     );
   };
@@ -213,142 +258,179 @@ export function RequestHistory({ requestId }: RequestHistoryProps) {
         </CardDescription>
       </CardHeader>
       <CardContent>
-        <div className="space-y-6">
-          {history.map((entry, index) => (
-            <div key={entry.id} className="relative">
-              {/* Timeline connector except for last item */}
-              {index < history.length - 1 && (
-                <div className="absolute left-5 top-12 w-0.5 h-16 bg-gray-200"></div>
-              )}
-              
-              <div className="flex space-x-4">
-                {/* Action icon */}
-                <div className={`flex-shrink-0 w-10 h-10 rounded-full ${getActionColor(entry.action)} flex items-center justify-center text-white`}>
-                  {getActionIcon(entry.action)}
+        {/* Where each line of a multi-item request stands now */}
+        {lineItems.length > 0 && (
+          <div className="mb-6 p-4 border rounded-lg space-y-3">
+            <p className="text-sm font-medium text-gray-700">Line Item Progress</p>
+            {lineItems.map((item) => (
+              <div key={item.itemId} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span>{item.itemName}</span>
+                  <span className="text-gray-600">
+                    {item.fulfilledQuantity} of {item.quantity} · {lineItemStatusLabels[item.status] || item.status}
+                  </span>
                 </div>
+                <Progress value={(item.fulfilledQuantity / item.quantity) * 100} className="h-1" />
+              </div>
+            ))}
+          </div>
+        )}
 
-                {/* Content */}
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-3 mb-2">
-                        <h4 className="font-medium text-gray-900">
-                          {getActionLabel(entry.action)}
-                        </h4>
-                        <span className="text-sm text-gray-500">
-                          {formatDateTime(entry.createdAt)}
-                        </span>
-                        {entry.newStatus && getStatusBadge(entry.newStatus)}
-                      </div>
+        <div className="space-y-6">
+          {history.map((entry, index) => {
+            const lineItem = entry.metadata?.lineItem as LineItemProgress | undefined;
+
+            return (
+              <div key={entry.id} className="relative">
+                {/* Timeline connector except for last item */}
+                {index < history.length - 1 && (
+                  <div className="absolute left-5 top-12 w-0.5 h-16 bg-gray-200"></div>
+                )}
+              
+                <div className="flex space-x-4">
+                  {/* Action icon */}
+                  <div className={`flex-shrink-0 w-10 h-10 rounded-full ${getActionColor(entry.action)} flex items-center justify-center text-white`}>
+                    {getActionIcon(entry.action)}
+                  </div>
 
-                      <div className="flex items-center space-x-3 mb-2">
-                        <div className="flex items-center space-x-2">
-                          <Avatar className="h-6 w-6">
-                            <AvatarImage src={entry.user.image || ""} />
-                            <AvatarFallback className="text-xs">
-                              {entry.user.name
-                                .split(" ")
-                                .map((n) => n[0])
-                                .join("")}
-                            </AvatarFallback>
-                          </Avatar>
-                          <span className="text-sm text-gray-600">
-                            {entry.user.name} ({entry.user.role.replace("_", " ")})
+                  {/* Content */}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-3 mb-2">
+                          <h4 className="font-medium text-gray-900">
+                            {getActionLabel(entry.action, entry.metadata)}
+                          </h4>
+                          <span className="text-sm text-gray-500">
+                            {formatDateTime(entry.createdAt)}
                           </span>
+                          {entry.newStatus && getStatusBadge(entry.newStatus)}
                         </div>
-                      </div>
 
-                      {entry.notes && (
-                        <div className="bg-gray-50 p-3 rounded-lg">
-                          <p className="text-sm text-gray-700">{entry.notes}</p>
+                        <div className="flex items-center space-x-3 mb-2">
+                          <div className="flex items-center space-x-2">
+                            <Avatar className="h-6 w-6">
+                              <AvatarImage src={entry.user.image || ""} />
+                              <AvatarFallback className="text-xs">
+                                {entry.user.name
+                                  .split(" ")
+                                  .map((n) => n[0])
+                                  .join("")}
+                              </AvatarFallback>
+                            </Avatar>
+                            <span className="text-sm text-gray-600">
+                              {entry.user.name} ({entry.user.role.replace("_", " ")})
+                            </span>
+                            {getDelegator(entry.metadata) && (
+                              <Badge variant="outline" className="text-xs">
+                                on behalf of {getDelegator(entry.metadata)}
+                              </Badge>
+                            )}
+                          </div>
                         </div>
-                      )}
 
-                      {/* Status change indicator */}
-                      {entry.oldStatus && entry.newStatus && entry.oldStatus !== entry.newStatus && (
-                        <div className="flex items-center space-x-2 mt-2">
-                          <span className="text-sm text-gray-500">Status change:</span>
-                          {entry.oldStatus && getStatusBadge(entry.oldStatus)}
-                          <span className="text-gray-400">→</span>
-                          {entry.newStatus && getStatusBadge(entry.newStatus)}
-                        </div>
-                      )}
+                        {entry.notes && (
+                          <div className="bg-gray-50 p-3 rounded-lg">
+                            <p className="text-sm text-gray-700">{entry.notes}</p>
+                          </div>
+                        )}
 
-                      {/* Rejection reason */}
-                      {entry.metadata?.rejectionReason && (
-                        <div className="bg-red-50 border border-red-200 p-3 rounded-lg mt-2">
-                          <p className="text-sm font-medium text-red-800">Rejection Reason:</p>
-                          <p className="text-sm text-red-700">{String(entry.metadata.rejectionReason)}</p>
-                        </div>
-                      )}
+                        {/* Status change indicator */}
+                        {entry.oldStatus && entry.newStatus && entry.oldStatus !== entry.newStatus && (
+                          <div className="flex items-center space-x-2 mt-2">
+                            <span className="text-sm text-gray-500">Status change:</span>
+                            {entry.oldStatus && getStatusBadge(entry.oldStatus)}
+                            <span className="text-gray-400">→</span>
+                            {entry.newStatus && getStatusBadge(entry.newStatus)}
+                          </div>
+                        )}
 
-                      {/* Equipment assignment info */}
-                      {entry.metadata?.equipmentName && (
-                        <div className="bg-purple-50 border border-purple-200 p-3 rounded-lg mt-2">
-                          <p className="text-sm font-medium text-purple-800">Equipment Assigned:</p>
-                          <p className="text-sm text-purple-700">{String(entry.metadata.equipmentName)}</p>
-                        </div>
-                      )}
-                    </div>
+                        {/* Rejection reason */}
+                        {entry.metadata?.rejectionReason && (
+                          <div className="bg-red-50 border border-red-200 p-3 rounded-lg mt-2">
+                            <p className="text-sm font-medium text-red-800">Rejection Reason:</p>
+                            <p className="text-sm text-red-700">{String(entry.metadata.rejectionReason)}</p>
+                          </div>
+                        )}
 
-                    {/* View details button */}
-                    {entry.metadata && Object.keys(entry.metadata).length > 0 && (
-                      <Dialog>
-                        <DialogTrigger asChild>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => setSelectedEntry(entry)}
-                          >
-                            <MoreHorizontal className="h-4 w-4" />
-                          </Button>
-                        </DialogTrigger>
-                        <DialogContent>
-                          <DialogHeader>
-                            <DialogTitle>Action Details</DialogTitle>
-                            <DialogDescription>
-                              Detailed information about this action
-                            </DialogDescription>
-                          </DialogHeader>
-                          {selectedEntry && (
-                            <div className="space-y-4">
-                              <div className="grid grid-cols-2 gap-4">
-                                <div>
-                                  <span className="text-sm font-medium text-gray-500">Action:</span>
-                                  <p className="font-medium">{getActionLabel(selectedEntry.action)}</p>
-                                </div>
-                                <div>
-                                  <span className="text-sm font-medium text-gray-500">Timestamp:</span>
-                                  <p className="font-medium">{formatDateTime(selectedEntry.createdAt)}</p>
-                                </div>
-                                <div>
-                                  <span className="text-sm font-medium text-gray-500">User:</span>
-                                  <p className="font-medium">{selectedEntry.user.name}</p>
-                                </div>
-                                <div>
-                                  <span className="text-sm font-medium text-gray-500">Role:</span>
-                                  <p className="font-medium">{selectedEntry.user.role}</p>
+                        {/* Line item progress at the time of this action */}
+                        {lineItem && (
+                          <div className="bg-teal-50 border border-teal-200 p-3 rounded-lg mt-2 space-y-1">
+                            <p className="text-sm font-medium text-teal-800">
+                              {lineItem.itemName}: {lineItem.fulfilledQuantity} of {lineItem.quantity} fulfilled
+                            </p>
+                            <Progress value={(lineItem.fulfilledQuantity / lineItem.quantity) * 100} className="h-1" />
+                          </div>
+                        )}
+
+                        {/* Equipment assignment info */}
+                        {entry.metadata?.equipmentName && (
+                          <div className="bg-purple-50 border border-purple-200 p-3 rounded-lg mt-2">
+                            <p className="text-sm font-medium text-purple-800">Equipment Assigned:</p>
+                            <p className="text-sm text-purple-700">{String(entry.metadata.equipmentName)}</p>
+                          </div>
+                        )}
+                      </div>
+
+                      {/* View details button */}
+                      {entry.metadata && Object.keys(entry.metadata).length > 0 && (
+                        <Dialog>
+                          <DialogTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setSelectedEntry(entry)}
+                            >
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DialogTrigger>
+                          <DialogContent>
+                            <DialogHeader>
+                              <DialogTitle>Action Details</DialogTitle>
+                              <DialogDescription>
+                                Detailed information about this action
+                              </DialogDescription>
+                            </DialogHeader>
+                            {selectedEntry && (
+                              <div className="space-y-4">
+                                <div className="grid grid-cols-2 gap-4">
+                                  <div>
+                                    <span className="text-sm font-medium text-gray-500">Action:</span>
+                                    <p className="font-medium">{getActionLabel(selectedEntry.action, selectedEntry.metadata)}</p>
+                                  </div>
+                                  <div>
+                                    <span className="text-sm font-medium text-gray-500">Timestamp:</span>
+                                    <p className="font-medium">{formatDateTime(selectedEntry.createdAt)}</p>
+                                  </div>
+                                  <div>
+                                    <span className="text-sm font-medium text-gray-500">User:</span>
+                                    <p className="font-medium">{selectedEntry.user.name}</p>
+                                  </div>
+                                  <div>
+                                    <span className="text-sm font-medium text-gray-500">Role:</span>
+                                    <p className="font-medium">{selectedEntry.user.role}</p>
+                                  </div>
                                 </div>
-                              </div>
                               
-                              {selectedEntry.metadata && (
-                                <div>
-                                  <span className="text-sm font-medium text-gray-500">Additional Data:</span>
-                                  <pre className="mt-2 p-3 bg-gray-50 rounded text-xs overflow-auto">
-                                    {JSON.stringify(selectedEntry.metadata, null, 2)}
-                                  </pre>
-                                </div>
-                              )}
-                            </div>
-                          )}
-                        </DialogContent>
-                      </Dialog>
-                    )}
+                                {selectedEntry.metadata && (
+                                  <div>
+                                    <span className="text-sm font-medium text-gray-500">Additional Data:</span>
+                                    <pre className="mt-2 p-3 bg-gray-50 rounded text-xs overflow-auto">
+                                      {JSON.stringify(selectedEntry.metadata, null, 2)}
+                                    </pre>
+                                  </div>
+                                )}
+                              </div>
+                            )}
+                          </DialogContent>
+                        </Dialog>
+                      )}
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </CardContent>
     </Card>
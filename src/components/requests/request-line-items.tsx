@@ -0,0 +1,106 @@
+// ABOUTME: Line item progress component for multi-item equipment requests
+// ABOUTME: Shows how many units of each line have been fulfilled, compact for lists or detailed per line
+
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+
+export interface RequestLineItem {
+  id: string;
+  kind: string;
+  name: string;
+  quantity: number;
+  fulfilledQuantity: number;
+  budget: number | null;
+  status: string;
+}
+
+interface RequestLineItemsProps {
+  items: RequestLineItem[];
+  compact?: boolean;
+}
+
+const statusLabels: Record<string, string> = {
+  pending: "Pending",
+  to_purchase: "To purchase",
+  partially_fulfilled: "Partial",
+  fulfilled: "Fulfilled",
+};
+
+const statusVariants: Record<string, "default" | "secondary" | "outline"> = {
+  pending: "outline",
+  to_purchase: "secondary",
+  partially_fulfilled: "secondary",
+  fulfilled: "default",
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "EUR",
+  }).format(amount);
+};
+
+const percent = (done: number, total: number) => (total > 0 ? (done / total) * 100 : 0);
+
+export function RequestLineItems({ items, compact = false }: RequestLineItemsProps) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  const units = items.reduce((sum, item) => sum + item.quantity, 0);
+  const fulfilledUnits = items.reduce((sum, item) => sum + Math.min(item.fulfilledQuantity, item.quantity), 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-gray-700">
+          {items.length} line item{items.length === 1 ? "" : "s"}
+        </span>
+        <span className="text-gray-600">
+          {fulfilledUnits} of {units} units fulfilled
+        </span>
+      </div>
+      <Progress value={percent(fulfilledUnits, units)} aria-label="Request fulfillment progress" />
+
+      <ul className={compact ? "text-sm text-gray-600 space-y-1" : "space-y-3 pt-2"}>
+        {items.map((item) => (
+          <li key={item.id} className={compact ? "flex justify-between" : "space-y-1"}>
+            {compact ? (
+              <>
+                <span>
+                  {item.quantity > 1 && `${item.quantity}x `}
+                  {item.name}
+                </span>
+                <span>
+                  {item.fulfilledQuantity}/{item.quantity}
+                  {item.status === "to_purchase" && " · to purchase"}
+                </span>
+              </>
+            ) : (
+              <>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">
+                    {item.quantity > 1 && `${item.quantity}x `}
+                    {item.name}
+                    <span className="text-gray-500 font-normal ml-2 capitalize">{item.kind}</span>
+                  </span>
+                  <span className="flex items-center space-x-2">
+                    {item.budget !== null && (
+                      <span className="text-gray-500">{formatCurrency(item.budget * item.quantity)}</span>
+                    )}
+                    <Badge variant={statusVariants[item.status] || "outline"}>
+                      {statusLabels[item.status] || item.status}
+                    </Badge>
+                  </span>
+                </div>
+                <Progress value={percent(item.fulfilledQuantity, item.quantity)} className="h-1" />
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -33,19 +33,32 @@ import {
   Package,
 } from "lucide-react";
 import type { EquipmentRequest, User, Equipment } from "@prisma/client";
+import { RequestLineItems, type RequestLineItem } from "@/components/requests/request-line-items";
+import { NeededByBadge } from "@/components/requests/needed-by-badge";
+import { currentApprovalStage, isStageApprover, type ApprovalStep } from "@/lib/approval-stages";
 
 interface RequestWithRelations extends EquipmentRequest {
   requester: User;
   approver: User | null;
   equipment: Equipment | null;
+  items?: RequestLineItem[];
+  approvals?: ApprovalStep[];
 }
 
+// Multi-item requests stay open for assignment until every unit is handed over
+const canAssign = (request: RequestWithRelations) =>
+  request.items && request.items.length > 0
+    ? ["approved", "ordered", "partially_fulfilled"].includes(request.status)
+    : request.status === "approved" && !request.equipmentId;
+
 interface RequestsListProps {
   requests: RequestWithRelations[];
   currentPage: number;
   totalPages: number;
   userRole: string;
   userId: string;
+  // Approvers who are out of office and have delegated their approvals to this user
+  coveringFor?: Array<{ id: string; role: string }>;
 }
 
 export function RequestsList({
@@ -54,6 +67,7 @@ export function RequestsList({
   totalPages,
   userRole,
   userId,
+  coveringFor = [],
 }: RequestsListProps) {
   const getStatusBadge = (request: RequestWithRelations) => {
     const status = request.status;
@@ -93,6 +107,16 @@ export function RequestsList({
             <span>Ordered</span>
           </Badge>
         );
+      case "partially_fulfilled":
+        return (
+          <Badge
+            variant="secondary"
+            className="flex items-center space-x-1 bg-green-100 text-green-800"
+          >
+            <Package className="h-3 w-3" />
+            <span>Partially Fulfilled</span>
+          </Badge>
+        );
       case "fulfilled":
         return (
           <Badge
@@ -137,18 +161,24 @@ export function RequestsList({
   const getApprovalStatus = (request: RequestWithRelations) => {
     if (request.status !== "pending") return null;
 
-    const steps = [
-      {
-        label: "Team Lead",
-        approved: request.teamLeadApproval,
-        required: true,
-      },
-      {
-        label: "Admin",
-        approved: request.adminApproval,
-        required: request.teamLeadApproval === true,
-      },
-    ];
+    const steps = request.approvals && request.approvals.length > 0
+      ? request.approvals.map((stage) => ({
+          label: stage.status === "skipped" ? `${stage.name} (skipped)` : stage.name,
+          approved: stage.status === "approved" ? true : stage.status === "rejected" ? false : null,
+          required: stage.status === "pending",
+        }))
+      : [
+          {
+            label: "Team Lead",
+            approved: request.teamLeadApproval,
+            required: true,
+          },
+          {
+            label: "Admin",
+            approved: request.adminApproval,
+            required: request.teamLeadApproval === true,
+          },
+        ];
 
     return (
       <div className="flex items-center space-x-2 text-xs">
@@ -178,6 +208,15 @@ export function RequestsList({
   const canApprove = (request: RequestWithRelations) => {
     if (request.status !== "pending") return false;
 
+    // Requests routed through an approval chain wait on one stage at a time
+    if (request.approvals && request.approvals.length > 0) {
+      const stage = currentApprovalStage(request.approvals);
+      return (
+        !!stage &&
+        [{ id: userId, role: userRole }, ...coveringFor].some((approver) => isStageApprover(stage, approver))
+      );
+    }
+
     if (userRole === "team_lead" && request.teamLeadApproval === null) {
       return true;
     }
@@ -232,6 +271,9 @@ export function RequestsList({
                     </CardTitle>
                     {getStatusBadge(request)}
                     {getPriorityBadge(request.priority)}
+                    {request.neededBy && (
+                      <NeededByBadge neededBy={request.neededBy} status={request.status} />
+                    )}
                   </div>
                   <CardDescription className="flex items-center space-x-4">
                     <span>Requested by {request.requester.name}</span>
@@ -264,7 +306,7 @@ export function RequestsList({
                       </DropdownMenuItem>
                     )}
 
-                    {userRole === "admin" && request.status === "approved" && !request.equipmentId && (
+                    {userRole === "admin" && canAssign(request) && (
                       <DropdownMenuItem asChild>
                         <Link href={`/requests/${request.id}/assign`}>
                           <Package className="h-4 w-4 mr-2" />
@@ -329,6 +371,11 @@ export function RequestsList({
                   </p>
                 </div>
 
+                {/* Line Item Progress */}
+                {request.items && request.items.length > 0 && (
+                  <RequestLineItems items={request.items} compact />
+                )}
+
                 {/* Approval Status */}
                 {getApprovalStatus(request)}
 
@@ -364,7 +411,7 @@ export function RequestsList({
                       View Full Details
                     </Link>
                   </Button>
-                  {userRole === "admin" && request.status === "approved" && !request.equipmentId && (
+                  {userRole === "admin" && canAssign(request) && (
                     <Button asChild size="sm">
                       <Link href={`/requests/${request.id}/assign`}>
                         Assign Equipment
@@ -172,26 +172,9 @@ export function InvoiceManagement({ subscriptions, invoices = [] }: InvoiceManag
     }
   };
 
-  const handleDownload = async (invoiceId: string) => {
-    try {
-      const response = await fetch(`/api/invoices/${invoiceId}/download`);
-      if (!response.ok) {
-        throw new Error("Failed to download invoice");
-      }
-
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `invoice-${invoiceId}.pdf`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
-    } catch (error) {
-      console.error("Error downloading invoice:", error);
-      alert("Failed to download invoice. Please try again.");
-    }
+  // The download route redirects to a short-lived link with the original file name
+  const handleDownload = (invoiceId: string) => {
+    window.location.href = `/api/invoices/${invoiceId}/download`;
   };
 
   const handleDelete = async (invoiceId: string) => {
@@ -0,0 +1,559 @@
+// ABOUTME: Offboarding wizard for administrators
+// ABOUTME: Resolves a leaving user's equipment, subscriptions, requests and transfers, then signs off and deactivates
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { ArrowLeft, CheckCircle, ClipboardList, Printer, UserX } from "lucide-react";
+import { format } from "date-fns";
+
+type ItemType = "equipment" | "subscription" | "request" | "transfer";
+type ItemAction = "return" | "reassign" | "cancel" | "transfer";
+
+interface UserSummary {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface Holdings {
+  equipment: { id: string; name: string; serialNumber: string; category: string; status: string }[];
+  subscriptions: { id: string; softwareName: string; vendor: string | null; price: number; billingFrequency: string; renewalDate: string }[];
+  requests: { id: string; equipmentType: string; status: string; createdAt: string }[];
+  transfers: {
+    id: string;
+    createdAt: string;
+    equipment: { id: string; name: string; serialNumber: string };
+    fromUser: { id: string; name: string } | null;
+    toUser: { id: string; name: string };
+  }[];
+}
+
+interface Offboarding {
+  id: string;
+  status: "in_progress" | "completed";
+  signedOffAt: string | null;
+  signOffNotes: string | null;
+  createdAt: string;
+  startedBy: UserSummary;
+  signedOffBy: UserSummary | null;
+  actions: {
+    id: string;
+    itemType: ItemType;
+    itemName: string;
+    action: string;
+    notes: string | null;
+    createdAt: string;
+    toUser: UserSummary | null;
+    performedBy: UserSummary;
+  }[];
+}
+
+interface OffboardingData {
+  user: UserSummary & { role: string; isActive: boolean };
+  holdings: Holdings;
+  offboarding: Offboarding | null;
+}
+
+interface Choice {
+  action?: ItemAction;
+  toUserId?: string;
+}
+
+// What each kind of item can be resolved with; handing over needs a recipient
+const actionOptions: Record<ItemType, { value: ItemAction; label: string }[]> = {
+  equipment: [
+    { value: "return", label: "Return to stock" },
+    { value: "reassign", label: "Reassign to..." },
+  ],
+  subscription: [
+    { value: "cancel", label: "Cancel" },
+    { value: "transfer", label: "Transfer to..." },
+  ],
+  request: [{ value: "cancel", label: "Cancel" }],
+  transfer: [{ value: "cancel", label: "Cancel" }],
+};
+
+const itemTypeLabels: Record<ItemType, string> = {
+  equipment: "Equipment",
+  subscription: "Subscription",
+  request: "Request",
+  transfer: "Transfer",
+};
+
+const NONE = "none";
+
+interface OffboardingWizardProps {
+  userId: string;
+}
+
+export function OffboardingWizard({ userId }: OffboardingWizardProps) {
+  const [data, setData] = useState<OffboardingData | null>(null);
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+  const [signOffNotes, setSignOffNotes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchOffboarding = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/users/${userId}/offboarding`);
+      if (response.ok) {
+        setData(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch offboarding:", error);
+      toast.error("Failed to load offboarding");
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchOffboarding();
+  }, [fetchOffboarding]);
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      try {
+        const response = await fetch("/api/users?active=true");
+        if (response.ok) {
+          const list: UserSummary[] = await response.json();
+          setUsers(list.filter((user) => user.id !== userId));
+        }
+      } catch (error) {
+        console.error("Failed to fetch users:", error);
+      }
+    };
+
+    fetchUsers();
+  }, [userId]);
+
+  if (!data) {
+    return <p className="text-gray-500 text-center py-8">Loading offboarding...</p>;
+  }
+
+  const { user, holdings, offboarding } = data;
+  const inProgress = offboarding?.status === "in_progress";
+
+  const rows: { type: ItemType; id: string; name: string; detail: string }[] = [
+    ...holdings.equipment.map((e) => ({
+      type: "equipment" as const,
+      id: e.id,
+      name: e.name,
+      detail: `${e.serialNumber} · ${e.status}`,
+    })),
+    ...holdings.subscriptions.map((s) => ({
+      type: "subscription" as const,
+      id: s.id,
+      name: s.softwareName,
+      detail: `${s.vendor ? `${s.vendor} · ` : ""}${s.billingFrequency}, renews ${format(new Date(s.renewalDate), "MMM d, yyyy")}`,
+    })),
+    ...holdings.requests.map((r) => ({
+      type: "request" as const,
+      id: r.id,
+      name: r.equipmentType,
+      detail: `${r.status} since ${format(new Date(r.createdAt), "MMM d, yyyy")}`,
+    })),
+    ...holdings.transfers.map((t) => ({
+      type: "transfer" as const,
+      id: t.id,
+      name: t.equipment.name,
+      detail: `${t.fromUser?.name ?? "Stock"} → ${t.toUser.name}`,
+    })),
+  ];
+
+  const keyOf = (type: ItemType, id: string) => `${type}:${id}`;
+
+  const setChoice = (key: string, choice: Choice) => {
+    setChoices((current) => ({ ...current, [key]: { ...current[key], ...choice } }));
+  };
+
+  // Bulk choices apply to every item of one type in a single step
+  const setAll = (type: ItemType, choice: Choice) => {
+    setChoices((current) => {
+      const next = { ...current };
+      for (const row of rows.filter((r) => r.type === type)) {
+        next[keyOf(row.type, row.id)] = { ...next[keyOf(row.type, row.id)], ...choice };
+      }
+      return next;
+    });
+  };
+
+  const needsRecipient = (action?: ItemAction) => action === "reassign" || action === "transfer";
+
+  const pendingActions = rows.flatMap((row) => {
+    const choice = choices[keyOf(row.type, row.id)];
+    if (!choice?.action || (needsRecipient(choice.action) && !choice.toUserId)) {
+      return [];
+    }
+    return [{
+      type: row.type,
+      id: row.id,
+      action: choice.action,
+      ...(needsRecipient(choice.action) && { toUserId: choice.toUserId }),
+    }];
+  });
+
+  const handleStart = async () => {
+    setSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/users/${userId}/offboarding`, { method: "POST" });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to start offboarding");
+      }
+
+      toast.success(`Offboarding started for ${user.name}`);
+      fetchOffboarding();
+    } catch (error) {
+      console.error("Offboarding start error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to start offboarding");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleResolve = async () => {
+    setSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/users/${userId}/offboarding/resolve`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ actions: pendingActions }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to resolve items");
+      }
+
+      toast.success(result.message);
+      setChoices({});
+      setData({ ...data, holdings: result.holdings, offboarding: result.offboarding });
+    } catch (error) {
+      console.error("Offboarding resolve error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to resolve items");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSignOff = async () => {
+    if (!confirm(`Sign off the offboarding and deactivate ${user.name}?`)) {
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/users/${userId}/offboarding/complete`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ notes: signOffNotes || undefined }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to sign off offboarding");
+      }
+
+      toast.success(`${user.name} offboarded and deactivated`);
+      fetchOffboarding();
+    } catch (error) {
+      console.error("Offboarding sign-off error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to sign off offboarding");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const recipientSelect = (value: string | undefined, onChange: (value: string) => void, id?: string) => (
+    <Select value={value ?? NONE} onValueChange={(v) => v !== NONE && onChange(v)}>
+      <SelectTrigger id={id} className="w-48">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>Choose recipient</SelectItem>
+        {users.map((recipient) => (
+          <SelectItem key={recipient.id} value={recipient.id}>
+            {recipient.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between print:hidden">
+        <div>
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/admin/users">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Users
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold">Offboard {user.name}</h1>
+          <p className="text-gray-600">{user.email}</p>
+        </div>
+        {offboarding && (
+          <Badge variant={offboarding.status === "completed" ? "default" : "secondary"}>
+            {offboarding.status === "completed" ? "Signed off" : "In progress"}
+          </Badge>
+        )}
+      </div>
+
+      {!inProgress && user.isActive && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <UserX className="h-5 w-5 mr-2" />
+              Start Offboarding
+            </CardTitle>
+            <CardDescription>
+              {user.name} holds {rows.length} item{rows.length === 1 ? "" : "s"}. Everything must be returned,
+              reassigned or cancelled before the account can be deactivated.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={handleStart} disabled={submitting}>
+              Start Offboarding
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {inProgress && (
+        <Card className="print:hidden">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <ClipboardList className="h-5 w-5 mr-2" />
+              Outstanding Items
+            </CardTitle>
+            <CardDescription>
+              Choose what happens to each item, or set all items of a kind at once
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {rows.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">
+                Nothing left to resolve. Sign off below to deactivate {user.name}.
+              </p>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  {holdings.equipment.length > 0 && (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => setAll("equipment", { action: "return" })}>
+                        Return all equipment
+                      </Button>
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor="reassign-all" className="text-sm">Reassign all equipment to</Label>
+                        {recipientSelect(undefined, (toUserId) => setAll("equipment", { action: "reassign", toUserId }), "reassign-all")}
+                      </div>
+                    </>
+                  )}
+                  {holdings.subscriptions.length > 0 && (
+                    <Button variant="outline" size="sm" onClick={() => setAll("subscription", { action: "cancel" })}>
+                      Cancel all subscriptions
+                    </Button>
+                  )}
+                  {holdings.requests.length > 0 && (
+                    <Button variant="outline" size="sm" onClick={() => setAll("request", { action: "cancel" })}>
+                      Cancel all requests
+                    </Button>
+                  )}
+                  {holdings.transfers.length > 0 && (
+                    <Button variant="outline" size="sm" onClick={() => setAll("transfer", { action: "cancel" })}>
+                      Cancel all transfers
+                    </Button>
+                  )}
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Resolution</TableHead>
+                      <TableHead>Recipient</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => {
+                      const key = keyOf(row.type, row.id);
+                      const choice = choices[key] ?? {};
+
+                      return (
+                        <TableRow key={key}>
+                          <TableCell>
+                            <Badge variant="outline">{itemTypeLabels[row.type]}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            <p className="font-medium">{row.name}</p>
+                            <p className="text-xs text-gray-500">{row.detail}</p>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={choice.action ?? NONE}
+                              onValueChange={(value) =>
+                                setChoice(key, { action: value === NONE ? undefined : (value as ItemAction) })
+                              }
+                            >
+                              <SelectTrigger className="w-44">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NONE}>Leave for now</SelectItem>
+                                {actionOptions[row.type].map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            {needsRecipient(choice.action) &&
+                              recipientSelect(choice.toUserId, (toUserId) => setChoice(key, { toUserId }))}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+
+                <div className="flex justify-end">
+                  <Button onClick={handleResolve} disabled={submitting || pendingActions.length === 0}>
+                    Resolve {pendingActions.length} Item{pendingActions.length === 1 ? "" : "s"}
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {offboarding && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Offboarding Report</CardTitle>
+                <CardDescription>
+                  Started {format(new Date(offboarding.createdAt), "MMM d, yyyy")} by {offboarding.startedBy.name}
+                </CardDescription>
+              </div>
+              {offboarding.status === "completed" && (
+                <Button variant="outline" size="sm" onClick={() => window.print()} className="print:hidden">
+                  <Printer className="h-4 w-4 mr-2" />
+                  Print
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {offboarding.actions.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No items resolved yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Resolution</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Date</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {offboarding.actions.map((action) => (
+                    <TableRow key={action.id}>
+                      <TableCell>{itemTypeLabels[action.itemType]}</TableCell>
+                      <TableCell className="font-medium">{action.itemName}</TableCell>
+                      <TableCell className="capitalize">
+                        {action.action}
+                        {action.toUser && <span className="normal-case"> to {action.toUser.name}</span>}
+                      </TableCell>
+                      <TableCell>{action.performedBy.name}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(action.createdAt), "MMM d, yyyy")}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {offboarding.status === "completed" ? (
+              <div className="rounded-md border p-4 flex items-start gap-3">
+                <CheckCircle className="h-5 w-5 text-green-600 mt-0.5" />
+                <div>
+                  <p className="font-medium">
+                    Signed off by {offboarding.signedOffBy?.name}
+                    {offboarding.signedOffAt && ` on ${format(new Date(offboarding.signedOffAt), "MMM d, yyyy HH:mm")}`}
+                  </p>
+                  {offboarding.signOffNotes && <p className="text-sm text-gray-600 mt-1">{offboarding.signOffNotes}</p>}
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-2 print:hidden">
+                <Label htmlFor="sign-off-notes">Sign-off Notes</Label>
+                <Textarea
+                  id="sign-off-notes"
+                  value={signOffNotes}
+                  onChange={(e) => setSignOffNotes(e.target.value)}
+                  placeholder="Exit interview done, badge collected..."
+                  rows={3}
+                />
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-600">
+                    {rows.length > 0
+                      ? `${rows.length} item${rows.length === 1 ? "" : "s"} must be resolved before sign-off`
+                      : "Everything is resolved"}
+                  </p>
+                  <Button variant="destructive" onClick={handleSignOff} disabled={submitting || rows.length > 0}>
+                    Sign Off and Deactivate
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
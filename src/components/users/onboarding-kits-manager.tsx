@@ -0,0 +1,456 @@
+// ABOUTME: Onboarding kit manager for administrators
+// ABOUTME: Creates and edits the equipment and subscription bundles requested for new starters by role and team
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Edit, PackageOpen, Plus, Trash2, X } from "lucide-react";
+
+type KitItemKind = "equipment" | "subscription";
+
+interface KitItem {
+  kind: KitItemKind;
+  name: string;
+  quantity: number;
+  budget: number | null;
+}
+
+interface OnboardingKit {
+  id: string;
+  name: string;
+  description: string | null;
+  teamId: string | null;
+  role: string | null;
+  isActive: boolean;
+  team: { id: string; name: string } | null;
+  items: (KitItem & { id: string })[];
+}
+
+interface Team {
+  id: string;
+  name: string;
+}
+
+interface KitForm {
+  name: string;
+  description: string;
+  teamId: string;
+  role: string;
+  isActive: boolean;
+  items: KitItem[];
+}
+
+// Select items need a value, so "any" stands in for a kit that is not limited
+const ANY = "any";
+
+const roleLabels: Record<string, string> = {
+  admin: "Admin",
+  team_lead: "Team Lead",
+  user: "User",
+};
+
+const emptyItem: KitItem = { kind: "equipment", name: "", quantity: 1, budget: null };
+
+const emptyForm: KitForm = {
+  name: "",
+  description: "",
+  teamId: ANY,
+  role: ANY,
+  isActive: true,
+  items: [emptyItem],
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "EUR",
+  }).format(amount);
+};
+
+const kitBudget = (items: KitItem[]) =>
+  items.reduce((sum, item) => sum + (item.budget ?? 0) * item.quantity, 0);
+
+export function OnboardingKitsManager() {
+  const [kits, setKits] = useState<OnboardingKit[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<OnboardingKit | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<KitForm>(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchKits = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [kitsResponse, teamsResponse] = await Promise.all([
+        fetch("/api/onboarding-kits"),
+        fetch("/api/teams"),
+      ]);
+
+      if (kitsResponse.ok) {
+        const data = await kitsResponse.json();
+        setKits(data.kits);
+      }
+      if (teamsResponse.ok) {
+        setTeams(await teamsResponse.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch onboarding kits:", error);
+      toast.error("Failed to load onboarding kits");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchKits();
+  }, [fetchKits]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (kit: OnboardingKit) => {
+    setEditing(kit);
+    setForm({
+      name: kit.name,
+      description: kit.description || "",
+      teamId: kit.teamId || ANY,
+      role: kit.role || ANY,
+      isActive: kit.isActive,
+      items: kit.items.map(({ kind, name, quantity, budget }) => ({ kind, name, quantity, budget })),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const updateItem = (index: number, changes: Partial<KitItem>) => {
+    setForm({
+      ...form,
+      items: form.items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error("Kit name is required");
+      return;
+    }
+    if (form.items.length === 0 || form.items.some((item) => !item.name.trim())) {
+      toast.error("Every kit item needs a name");
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const response = await fetch(editing ? `/api/onboarding-kits/${editing.id}` : "/api/onboarding-kits", {
+        method: editing ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name: form.name,
+          description: form.description || undefined,
+          teamId: form.teamId === ANY ? null : form.teamId,
+          role: form.role === ANY ? null : form.role,
+          isActive: form.isActive,
+          items: form.items.map((item) => ({ ...item, budget: item.budget ?? undefined })),
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save onboarding kit");
+      }
+
+      toast.success(editing ? "Onboarding kit updated" : "Onboarding kit created");
+      setIsDialogOpen(false);
+      fetchKits();
+    } catch (error) {
+      console.error("Onboarding kit save error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save onboarding kit");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (kit: OnboardingKit) => {
+    if (!confirm(`Delete the "${kit.name}" onboarding kit? Requests already made from it are kept.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/onboarding-kits/${kit.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to delete onboarding kit");
+      }
+
+      toast.success("Onboarding kit deleted");
+      fetchKits();
+    } catch (error) {
+      console.error("Onboarding kit delete error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete onboarding kit");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Onboarding Kits</h1>
+          <p className="text-gray-600">
+            Bundles of equipment and subscriptions requested in one go when a new user is created
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Kit
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-500">Loading onboarding kits...</div>
+      ) : kits.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8 text-gray-500">
+            No onboarding kits yet. Create one to request a starter&apos;s equipment in one go.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {kits.map((kit) => (
+            <Card key={kit.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <CardTitle className="flex items-center">
+                      <PackageOpen className="h-5 w-5 mr-2" />
+                      {kit.name}
+                    </CardTitle>
+                    <CardDescription>{kit.description || "No description"}</CardDescription>
+                  </div>
+                  <div className="flex space-x-1">
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(kit)} aria-label={`Edit ${kit.name}`}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(kit)} aria-label={`Delete ${kit.name}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2 pt-2">
+                  <Badge variant="outline">{kit.team?.name || "Any team"}</Badge>
+                  <Badge variant="outline">{kit.role ? roleLabels[kit.role] : "Any role"}</Badge>
+                  {!kit.isActive && <Badge variant="secondary">Inactive</Badge>}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-1 text-sm">
+                  {kit.items.map((item) => (
+                    <li key={item.id} className="flex justify-between">
+                      <span>
+                        {item.quantity > 1 && `${item.quantity}x `}
+                        {item.name}
+                        <span className="text-gray-500 ml-2 capitalize">{item.kind}</span>
+                      </span>
+                      {item.budget !== null && (
+                        <span className="text-gray-500">{formatCurrency(item.budget * item.quantity)}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {kitBudget(kit.items) > 0 && (
+                  <p className="text-sm font-medium mt-3">Budget: {formatCurrency(kitBudget(kit.items))}</p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Onboarding Kit" : "New Onboarding Kit"}</DialogTitle>
+            <DialogDescription>
+              Kits limited to a team or role are suggested first when creating a matching user
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+            <div>
+              <Label htmlFor="kit-name">Name</Label>
+              <Input
+                id="kit-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Developer starter kit"
+              />
+            </div>
+            <div>
+              <Label htmlFor="kit-description">Description</Label>
+              <Textarea
+                id="kit-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="kit-team">Team</Label>
+                <Select value={form.teamId} onValueChange={(value) => setForm({ ...form, teamId: value })}>
+                  <SelectTrigger id="kit-team">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any team</SelectItem>
+                    {teams.map((team) => (
+                      <SelectItem key={team.id} value={team.id}>
+                        {team.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="kit-role">Role</Label>
+                <Select value={form.role} onValueChange={(value) => setForm({ ...form, role: value })}>
+                  <SelectTrigger id="kit-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any role</SelectItem>
+                    {Object.entries(roleLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="kit-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+              />
+              <Label htmlFor="kit-active">Offer this kit when creating users</Label>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Items</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setForm({ ...form, items: [...form.items, emptyItem] })}
+                  disabled={form.items.length >= 30}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Item
+                </Button>
+              </div>
+              {form.items.map((item, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-3">
+                    <Select
+                      value={item.kind}
+                      onValueChange={(value) => updateItem(index, { kind: value as KitItemKind })}
+                    >
+                      <SelectTrigger aria-label="Item kind">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="equipment">Equipment</SelectItem>
+                        <SelectItem value="subscription">Subscription</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    className="col-span-4"
+                    aria-label="Item name"
+                    value={item.name}
+                    onChange={(e) => updateItem(index, { name: e.target.value })}
+                    placeholder={item.kind === "equipment" ? "Laptop" : "Figma"}
+                  />
+                  <Input
+                    className="col-span-2"
+                    aria-label="Quantity"
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={item.quantity}
+                    onChange={(e) => updateItem(index, { quantity: Math.max(1, Number(e.target.value) || 1) })}
+                  />
+                  <Input
+                    className="col-span-2"
+                    aria-label="Unit budget"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={item.budget ?? ""}
+                    onChange={(e) => updateItem(index, { budget: e.target.value === "" ? null : Number(e.target.value) })}
+                    placeholder="Budget"
+                  />
+                  <Button
+                    className="col-span-1"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setForm({ ...form, items: form.items.filter((_, i) => i !== index) })}
+                    disabled={form.items.length === 1}
+                    aria-label="Remove item"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {kitBudget(form.items) > 0 && (
+                <p className="text-sm text-gray-600">Kit budget: {formatCurrency(kitBudget(form.items))}</p>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={submitting}>
+              {submitting ? "Saving..." : editing ? "Save Kit" : "Create Kit"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
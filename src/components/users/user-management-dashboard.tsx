@@ -4,6 +4,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -55,6 +56,7 @@ import {
   Calendar,
   Activity,
   Building2,
+  UserX,
 } from "lucide-react";
 import { format } from "date-fns";
 
@@ -82,8 +84,17 @@ interface CreateUserData {
   email: string;
   role: "admin" | "team_lead" | "user";
   teamId?: string;
+  onboardingKitId?: string;
 }
 
+interface OnboardingKit {
+  id: string;
+  name: string;
+  items: { id: string; name: string; quantity: number }[];
+}
+
+const NO_KIT = "none";
+
 export function UserManagementDashboard() {
   const [users, setUsers] = useState<User[]>([]);
   const [teams, setTeams] = useState<Team[]>([]);
@@ -94,6 +105,7 @@ export function UserManagementDashboard() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [kits, setKits] = useState<OnboardingKit[]>([]);
 
   const [formData, setFormData] = useState<CreateUserData>({
     name: "",
@@ -107,6 +119,28 @@ export function UserManagementDashboard() {
     fetchData();
   }, []);
 
+  // Suggest the onboarding kits that suit the new user's role and team
+  useEffect(() => {
+    if (!isCreateDialogOpen || isEditing) {
+      return;
+    }
+
+    const fetchKits = async () => {
+      try {
+        const params = new URLSearchParams({ role: formData.role, teamId: formData.teamId || "" });
+        const response = await fetch(`/api/onboarding-kits?${params}`);
+        if (response.ok) {
+          const data = await response.json();
+          setKits(data.kits);
+        }
+      } catch (error) {
+        console.error("Failed to fetch onboarding kits:", error);
+      }
+    };
+
+    fetchKits();
+  }, [isCreateDialogOpen, isEditing, formData.role, formData.teamId]);
+
   const fetchData = async () => {
     try {
       setLoading(true);
@@ -156,7 +190,12 @@ export function UserManagementDashboard() {
       });
 
       if (response.ok) {
-        toast.success("User created successfully");
+        const result = await response.json();
+        toast.success(
+          result.onboardingRequest
+            ? `User created and onboarding kit requested (${result.onboardingRequest.items.length} items)`
+            : "User created successfully"
+        );
         setIsCreateDialogOpen(false);
         setFormData({ name: "", email: "", role: "user", teamId: "" });
         fetchData();
@@ -208,7 +247,7 @@ export function UserManagementDashboard() {
         fetchData();
       } else {
         const error = await response.json();
-        toast.error(error.message || "Failed to deactivate user");
+        toast.error(error.error || error.message || "Failed to deactivate user");
       }
     } catch (error) {
       console.error("Deactivate user error:", error);
@@ -323,6 +362,37 @@ export function UserManagementDashboard() {
                   </SelectContent>
                 </Select>
               </div>
+              {!isEditing && kits.length > 0 && (
+                <div>
+                  <Label htmlFor="onboarding-kit">Onboarding Kit (Optional)</Label>
+                  <Select
+                    value={formData.onboardingKitId || NO_KIT}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, onboardingKitId: value === NO_KIT ? undefined : value })
+                    }
+                  >
+                    <SelectTrigger id="onboarding-kit">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_KIT}>No onboarding kit</SelectItem>
+                      {kits.map((kit) => (
+                        <SelectItem key={kit.id} value={kit.id}>
+                          {kit.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {formData.onboardingKitId && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {kits
+                        .find((kit) => kit.id === formData.onboardingKitId)
+                        ?.items.map((item) => (item.quantity > 1 ? `${item.quantity}x ${item.name}` : item.name))
+                        .join(", ")}
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
@@ -510,6 +580,13 @@ export function UserManagementDashboard() {
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+                        {user.isActive && (
+                          <Button variant="ghost" size="sm" asChild title="Offboard">
+                            <Link href={`/admin/users/${user.id}/offboarding`}>
+                              <UserX className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                        )}
                         {user.role !== "admin" && (
                           <Button
                             variant="ghost"
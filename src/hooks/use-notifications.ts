@@ -1,109 +1,136 @@
 // ABOUTME: Custom hook for managing notifications state and actions
-// ABOUTME: Handles notification fetching, marking as read, and real-time updates
+// ABOUTME: Handles notification fetching, pagination, marking as read, and periodic refresh
 
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import type { Notification } from '@/components/notifications/notification-detail-modal';
 
-// Mock notifications for now - in a real app, these would come from an API
-const mockNotifications: Notification[] = [
-  {
-    id: "1",
-    type: "request_approved",
-    title: "Equipment Request Approved",
-    message: "Your request for MacBook Pro has been approved by the admin team. You can expect to receive your equipment within 2-3 business days. Please ensure you're available to complete the handover process.",
-    timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000), // 2 hours ago
-    read: false,
-    relatedId: "req-123",
-    relatedType: "request",
-    actionUrl: "/requests/req-123",
-    priority: "medium",
-    metadata: {
-      equipmentType: "MacBook Pro",
-      approvedBy: "John Admin",
-      requestDate: "2024-01-15",
-      deliveryETA: "2-3 business days"
-    }
-  },
-  {
-    id: "2",
-    type: "maintenance_due",
-    title: "Maintenance Due",
-    message: "Scheduled maintenance is required for your assigned laptop (Dell XPS 13). Please schedule a maintenance appointment within the next 7 days to ensure optimal performance and warranty compliance.",
-    timestamp: new Date(Date.now() - 24 * 60 * 60 * 1000), // 1 day ago
-    read: false,
-    relatedId: "eq-456",
-    relatedType: "equipment",
-    actionUrl: "/equipment/eq-456",
-    priority: "high",
-    metadata: {
-      equipmentName: "Dell XPS 13",
-      serialNumber: "DXS123456",
-      lastMaintenance: "2023-07-15",
-      maintenanceType: "Preventive"
-    }
-  },
-  {
-    id: "3",
-    type: "equipment_assigned",
-    title: "New Equipment Assigned",
-    message: "You have been assigned a new piece of equipment: iPhone 14 Pro. Please confirm receipt and complete the equipment handover checklist within 48 hours.",
-    timestamp: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000), // 3 days ago
-    read: true,
-    relatedId: "eq-789",
-    relatedType: "equipment",
-    actionUrl: "/equipment/eq-789",
-    priority: "medium",
-    metadata: {
-      equipmentName: "iPhone 14 Pro",
-      serialNumber: "IP14789123",
-      assignedBy: "Sarah Manager",
-      handoverDeadline: "48 hours"
-    }
-  }
-];
+// How often the bell refreshes while the page is open
+const POLL_INTERVAL_MS = 60 * 1000;
+const PAGE_SIZE = 20;
+
+interface NotificationsResponse {
+  notifications: Array<Omit<Notification, 'timestamp'> & { timestamp: string }>;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+  unreadCount: number;
+}
+
+function parseNotifications(data: NotificationsResponse): Notification[] {
+  return data.notifications.map(notification => ({
+    ...notification,
+    timestamp: new Date(notification.timestamp),
+  }));
+}
 
 export function useNotifications() {
   const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Simulate API fetch
-  useEffect(() => {
-    const fetchNotifications = async () => {
-      setIsLoading(true);
-      // Simulate network delay
-      await new Promise(resolve => setTimeout(resolve, 500));
-      setNotifications(mockNotifications);
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/notifications?page=1&limit=${PAGE_SIZE}`);
+      if (!response.ok) return;
+
+      const data: NotificationsResponse = await response.json();
+      setNotifications(parseNotifications(data));
+      setUnreadCount(data.unreadCount);
+      setPage(1);
+      setTotalPages(data.pagination.totalPages);
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+    } finally {
       setIsLoading(false);
-    };
+    }
+  }, []);
 
+  useEffect(() => {
     fetchNotifications();
-  }, []);
 
-  const markAsRead = (notificationId: string) => {
-    setNotifications(prev => 
-      prev.map(notification => 
-        notification.id === notificationId 
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  const loadMore = async () => {
+    if (page >= totalPages) return;
+
+    try {
+      const response = await fetch(`/api/notifications?page=${page + 1}&limit=${PAGE_SIZE}`);
+      if (!response.ok) return;
+
+      const data: NotificationsResponse = await response.json();
+      setNotifications(prev => [...prev, ...parseNotifications(data)]);
+      setUnreadCount(data.unreadCount);
+      setPage(data.pagination.page);
+      setTotalPages(data.pagination.totalPages);
+    } catch (error) {
+      console.error('Failed to load more notifications:', error);
+    }
+  };
+
+  const markAsRead = async (notificationId: string) => {
+    const target = notifications.find(notification => notification.id === notificationId);
+    if (!target || target.read) return;
+
+    // Update optimistically; the next refresh corrects any failure
+    setNotifications(prev =>
+      prev.map(notification =>
+        notification.id === notificationId
           ? { ...notification, read: true }
           : notification
       )
     );
+    setUnreadCount(prev => Math.max(prev - 1, 0));
+
+    try {
+      await fetch(`/api/notifications/${notificationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ read: true }),
+      });
+    } catch (error) {
+      console.error('Failed to mark notification as read:', error);
+    }
   };
 
-  const markAllAsRead = () => {
-    setNotifications(prev => 
+  const markAllAsRead = async () => {
+    setNotifications(prev =>
       prev.map(notification => ({ ...notification, read: true }))
     );
+    setUnreadCount(0);
+
+    try {
+      await fetch('/api/notifications/read-all', { method: 'POST' });
+    } catch (error) {
+      console.error('Failed to mark all notifications as read:', error);
+    }
   };
 
-  const deleteNotification = (notificationId: string) => {
-    setNotifications(prev => 
+  const deleteNotification = async (notificationId: string) => {
+    const target = notifications.find(notification => notification.id === notificationId);
+
+    setNotifications(prev =>
       prev.filter(notification => notification.id !== notificationId)
     );
+    if (target && !target.read) {
+      setUnreadCount(prev => Math.max(prev - 1, 0));
+    }
+
+    try {
+      await fetch(`/api/notifications/${notificationId}`, { method: 'DELETE' });
+    } catch (error) {
+      console.error('Failed to delete notification:', error);
+    }
   };
 
-  const unreadCount = notifications.filter(n => !n.read).length;
   const hasUnread = unreadCount > 0;
 
   return {
@@ -114,10 +141,8 @@ export function useNotifications() {
     deleteNotification,
     unreadCount,
     hasUnread,
-    // For real-time updates
-    refetch: () => {
-      // In a real app, this would refetch from the API
-      console.log('Refetching notifications...');
-    }
+    loadMore,
+    hasMore: page < totalPages,
+    refetch: fetchNotifications,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,357 @@
+// ABOUTME: Unit tests for approval chains
+// ABOUTME: Tests policy matching, stage skipping by priority, delegation and moving a request through its approval stages
+
+import {
+  ApprovalChainService,
+  ApprovalStageForbiddenError,
+  policyMatches,
+} from '../approval-chains';
+import { RequestHistoryService } from '../request-history';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    approvalPolicy: {
+      findMany: jest.fn(),
+    },
+    requestApproval: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+      update: jest.fn(),
+    },
+    equipmentRequest: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    user: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    approvalDelegation: {
+      findMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../request-history', () => ({
+  RequestHistoryService: {
+    createHistoryEntry: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  approvalPolicy: { findMany: jest.Mock };
+  requestApproval: { findMany: jest.Mock; createMany: jest.Mock; update: jest.Mock };
+  equipmentRequest: { findUnique: jest.Mock; update: jest.Mock };
+  user: { findMany: jest.Mock; findUnique: jest.Mock };
+  approvalDelegation: { findMany: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+const mockCreateHistory = RequestHistoryService.createHistoryEntry as jest.Mock;
+
+const anyRequest = { minBudget: null, maxBudget: null, priorities: null, equipmentType: null, teamId: null };
+
+const laptopRequest = (budget: number | null, priority = 'medium') => ({
+  budget,
+  priority,
+  equipmentType: 'Laptop',
+  requester: { teamId: 'team-dev' },
+});
+
+const financePolicy = {
+  id: 'policy-finance',
+  name: 'Large purchases',
+  ...anyRequest,
+  minBudget: 2000,
+  stages: [
+    { name: 'Team Lead', approverRole: 'team_lead', approverId: null, skipPriorities: '["urgent"]' },
+    { name: 'Admin', approverRole: 'admin', approverId: null, skipPriorities: null },
+    { name: 'Finance', approverRole: null, approverId: 'finance-1', skipPriorities: null },
+  ],
+};
+
+const stage = (position: number, name: string, status: string, approverRole: string | null, approverId: string | null = null) => ({
+  id: `approval-${position}`,
+  position,
+  name,
+  approverRole,
+  approverId,
+  status,
+});
+
+describe('policyMatches', () => {
+  const facts = { budget: 150, priority: 'medium', equipmentType: 'MacBook Pro', teamId: 'team-dev' };
+
+  it('treats the minimum budget as inclusive and the maximum as exclusive', () => {
+    expect(policyMatches({ ...anyRequest, maxBudget: 200 }, facts)).toBe(true);
+    expect(policyMatches({ ...anyRequest, maxBudget: 200 }, { ...facts, budget: 200 })).toBe(false);
+    expect(policyMatches({ ...anyRequest, minBudget: 200 }, { ...facts, budget: 200 })).toBe(true);
+  });
+
+  it('does not match budget rules for requests without a budget', () => {
+    expect(policyMatches({ ...anyRequest, maxBudget: 200 }, { ...facts, budget: null })).toBe(false);
+    expect(policyMatches(anyRequest, { ...facts, budget: null })).toBe(true);
+  });
+
+  it('matches on priority, equipment type and team', () => {
+    expect(policyMatches({ ...anyRequest, priorities: '["high","urgent"]' }, facts)).toBe(false);
+    expect(policyMatches({ ...anyRequest, equipmentType: 'macbook' }, facts)).toBe(true);
+    expect(policyMatches({ ...anyRequest, teamId: 'team-sales' }, facts)).toBe(false);
+  });
+});
+
+describe('ApprovalChainService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+    mockPrisma.user.findMany.mockResolvedValue([{ id: 'approver-1', name: 'Approver', email: 'approver@example.com' }]);
+    mockPrisma.approvalDelegation.findMany.mockResolvedValue([]);
+  });
+
+  describe('start', () => {
+    it('routes a request through the first matching policy and skips stages for its priority', async () => {
+      mockPrisma.equipmentRequest.findUnique.mockResolvedValue(laptopRequest(2500, 'urgent'));
+      mockPrisma.approvalPolicy.findMany.mockResolvedValue([
+        { id: 'policy-small', name: 'Small purchases', ...anyRequest, maxBudget: 200, stages: [] },
+        financePolicy,
+      ]);
+
+      const chain = await ApprovalChainService.start(prisma as never, 'req-1', 'user-1');
+
+      expect(mockPrisma.requestApproval.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ name: 'Team Lead', status: 'skipped' }),
+          expect.objectContaining({ name: 'Admin', approverRole: 'admin', status: 'pending' }),
+          expect.objectContaining({ name: 'Finance', approverId: 'finance-1', status: 'waiting' }),
+        ],
+      });
+      expect(mockPrisma.equipmentRequest.update).toHaveBeenCalledWith({
+        where: { id: 'req-1' },
+        data: { approvalPolicyId: 'policy-finance' },
+      });
+      expect(mockCreateHistory).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'approval_chain_started',
+          notes: 'Approval policy "Large purchases": Admin → Finance',
+        }),
+        prisma
+      );
+      expect(mockCreateHistory).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'stage_skipped', notes: 'Team Lead skipped for urgent priority requests' }),
+        prisma
+      );
+      expect(chain.status).toBe('pending');
+    });
+
+    it('falls back to team lead then admin when no policy matches', async () => {
+      mockPrisma.equipmentRequest.findUnique.mockResolvedValue(laptopRequest(500));
+      mockPrisma.approvalPolicy.findMany.mockResolvedValue([financePolicy]);
+
+      const chain = await ApprovalChainService.start(prisma as never, 'req-1', 'user-1');
+
+      expect(chain.stages.map((step) => [step.name, step.status])).toEqual([
+        ['Team Lead', 'pending'],
+        ['Admin', 'waiting'],
+      ]);
+    });
+
+    it('approves the request straight away when every stage is skipped', async () => {
+      mockPrisma.equipmentRequest.findUnique.mockResolvedValue(laptopRequest(100, 'urgent'));
+      mockPrisma.approvalPolicy.findMany.mockResolvedValue([
+        {
+          id: 'policy-urgent',
+          name: 'Urgent small purchases',
+          ...anyRequest,
+          maxBudget: 200,
+          stages: [{ name: 'Team Lead', approverRole: 'team_lead', approverId: null, skipPriorities: '["urgent"]' }],
+        },
+      ]);
+
+      const chain = await ApprovalChainService.start(prisma as never, 'req-1', 'user-1');
+
+      expect(chain.status).toBe('approved');
+      expect(mockPrisma.equipmentRequest.update).toHaveBeenCalledWith({
+        where: { id: 'req-1' },
+        data: { approvalPolicyId: 'policy-urgent', status: 'approved' },
+      });
+    });
+  });
+
+  describe('approve', () => {
+    it('approves the current stage and opens the next one', async () => {
+      mockPrisma.equipmentRequest.findUnique.mockResolvedValue({ status: 'pending', requesterId: 'user-1' });
+      mockPrisma.requestApproval.findMany.mockResolvedValue([
+        stage(0, 'Admin', 'pending', 'admin'),
+        stage(1, 'Finance', 'waiting', null, 'finance-1'),
+      ]);
+
+      const result = await ApprovalChainService.approve('req-1', { id: 'admin-1', role: 'admin' }, 'Within budget');
+
+      expect(mockPrisma.requestApproval.update).toHaveBeenCalledWith({
+        where: { id: 'approval-0' },
+        data: expect.objectContaining({ status: 'approved', decidedById: 'admin-1', notes: 'Within budget' }),
+      });
+      expect(mockPrisma.requestApproval.update).toHaveBeenCalledWith({
+        where: { id: 'approval-1' },
+        data: { status: 'pending', openedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.equipmentRequest.update).toHaveBeenCalledWith({
+        where: { id: 'req-1' },
+        data: expect.objectContaining({ status: 'pending', adminApproval: true }),
+      });
+      expect(mockCreateHistory).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'stage_approved',
+          metadata: { stage: 'Admin', position: 0, nextStage: 'Finance' },
+        }),
+        prisma
+      );
+      expect(result.nextStage?.name).toBe('Finance');
+    });
+
+    it('approves the request once its named approver signs off the last stage', async () => {
+      mockPrisma.equipmentRequest.findUnique.mockResolvedValue({ status: 'pending', requesterId: 'user-1' });
+      mockPrisma.requestApproval.findMany.mockResolvedValue([
+        stage(0, 'Admin', 'approved', 'admin'),
+        stage(1, 'Finance', 'pending', null, 'finance-1'),
+      ]);
+
+      const result = await ApprovalChainService.approve('req-1', { id: 'finance-1', role: 'team_lead' });
+
+      expect(result.status).toBe('approved');
+      expect(mockPrisma.equipmentRequest.update).toHaveBeenCalledWith({
+        where: { id: 'req-1' },
+        data: { status: 'approved', approverId: 'finance-1' },
+      });
+    });
+
+    it('refuses a team lead from another team', async () => {
+      mockPrisma.equipmentRequest.findUnique.mockResolvedValue({ status: 'pending', requesterId: 'user-1' });
+      mockPrisma.requestApproval.findMany.mockResolvedValue([stage(0, 'Team Lead', 'pending', 'team_lead')]);
+      mockPrisma.user.findUnique.mockImplementation(({ where }: { where: { id: string } }) =>
+        Promise.resolve({ teamId: where.id === 'user-1' ? 'team-dev' : 'team-sales' })
+      );
+
+      await expect(
+        ApprovalChainService.approve('req-1', { id: 'lead-2', role: 'team_lead' })
+      ).rejects.toThrow(ApprovalStageForbiddenError);
+      expect(mockPrisma.requestApproval.update).not.toHaveBeenCalled();
+    });
+
+    it('lets a delegate approve for an approver who is out of office and records whose approval it was', async () => {
+      mockPrisma.equipmentRequest.findUnique.mockResolvedValue({ status: 'pending', requesterId: 'user-1' });
+      mockPrisma.requestApproval.findMany.mockResolvedValue([stage(0, 'Finance', 'pending', null, 'finance-1')]);
+      mockPrisma.approvalDelegation.findMany.mockResolvedValue([
+        { id: 'delegation-1', delegator: { id: 'finance-1', name: 'Fiona Finance', role: 'team_lead', teamId: null } },
+      ]);
+
+      await ApprovalChainService.approve('req-1', { id: 'lead-2', role: 'team_lead' });
+
+      expect(mockPrisma.approvalDelegation.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ delegateId: 'lead-2', cancelledAt: null }) })
+      );
+      expect(mockPrisma.requestApproval.update).toHaveBeenCalledWith({
+        where: { id: 'approval-0' },
+        data: expect.objectContaining({ status: 'approved', decidedById: 'lead-2', delegationId: 'delegation-1' }),
+      });
+      expect(mockCreateHistory).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'stage_approved',
+          notes: 'Finance approved on behalf of Fiona Finance',
+          metadata: expect.objectContaining({
+            delegationId: 'delegation-1',
+            onBehalfOf: { id: 'finance-1', name: 'Fiona Finance' },
+          }),
+        }),
+        prisma
+      );
+    });
+
+    it('counts an earlier team lead approval on requests made before approval policies', async () => {
+      mockPrisma.equipmentRequest.findUnique.mockImplementation(({ select }: { select: Record<string, unknown> }) =>
+        Promise.resolve(
+          select.teamLeadApproval
+            ? { teamLeadApproval: true }
+            : select.requester
+              ? laptopRequest(500)
+              : { status: 'pending', requesterId: 'user-1' }
+        )
+      );
+      mockPrisma.requestApproval.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([stage(0, 'Team Lead', 'approved', 'team_lead'), stage(1, 'Admin', 'pending', 'admin')]);
+
+      const result = await ApprovalChainService.approve('req-1', { id: 'admin-1', role: 'admin' });
+
+      expect(mockPrisma.requestApproval.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ name: 'Team Lead', status: 'approved' }),
+          expect.objectContaining({ name: 'Admin', status: 'pending' }),
+        ],
+      });
+      expect(result.status).toBe('approved');
+    });
+  });
+
+  describe('pendingApprovalWhere', () => {
+    it('includes stages named for the user alongside their role stages', async () => {
+      const where = await ApprovalChainService.pendingApprovalWhere({ id: 'admin-1', role: 'admin', teamId: null });
+
+      expect(where).toEqual({
+        status: 'pending',
+        OR: [
+          { approvals: { some: { status: 'pending', approverId: 'admin-1' } } },
+          { approvals: { some: { status: 'pending', approverId: null, approverRole: 'admin' } } },
+          { approvals: { none: {} }, teamLeadApproval: true, adminApproval: null },
+        ],
+      });
+    });
+
+    it('adds the queue of each approver the user is covering for', async () => {
+      mockPrisma.approvalDelegation.findMany.mockResolvedValue([
+        { id: 'delegation-1', delegator: { id: 'lead-1', name: 'Lead', role: 'team_lead', teamId: 'team-dev' } },
+      ]);
+
+      const where = await ApprovalChainService.pendingApprovalWhere({ id: 'admin-1', role: 'admin', teamId: null });
+
+      expect(where.OR).toHaveLength(6);
+      expect(where.OR).toContainEqual({ approvals: { some: { status: 'pending', approverId: 'lead-1' } } });
+      expect(where.OR).toContainEqual({
+        approvals: { some: { status: 'pending', approverId: null, approverRole: 'team_lead' } },
+        requester: { OR: [{ teamId: 'team-dev' }, { teamId: null }] },
+      });
+    });
+  });
+
+  describe('approvers', () => {
+    it('routes a stage to the delegate of an approver who is out of office', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([
+        { id: 'lead-1', name: 'Lead', email: 'lead@example.com' },
+        { id: 'lead-2', name: 'Other Lead', email: 'other@example.com' },
+      ]);
+      mockPrisma.approvalDelegation.findMany.mockResolvedValue([
+        {
+          id: 'delegation-1',
+          delegatorId: 'lead-1',
+          delegator: { id: 'lead-1', name: 'Lead' },
+          delegate: { id: 'admin-1', name: 'Admin', email: 'admin@example.com' },
+        },
+      ]);
+
+      const approvers = await ApprovalChainService.approvers({ approverRole: 'team_lead', approverId: null }, 'team-dev');
+
+      expect(approvers).toEqual([
+        {
+          id: 'admin-1',
+          name: 'Admin',
+          email: 'admin@example.com',
+          delegationId: 'delegation-1',
+          onBehalfOf: { id: 'lead-1', name: 'Lead' },
+        },
+        { id: 'lead-2', name: 'Other Lead', email: 'other@example.com' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+// ABOUTME: Unit tests for out-of-office approval delegations
+// ABOUTME: Tests window validation, overlap checks, cancelling and routing approvers to their delegates
+
+import {
+  ApprovalDelegationService,
+  ApprovalDelegationError,
+  ApprovalDelegationForbiddenError,
+} from '../approval-delegations';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+    },
+    approvalDelegation: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock };
+  approvalDelegation: {
+    findMany: jest.Mock;
+    findFirst: jest.Mock;
+    findUnique: jest.Mock;
+    create: jest.Mock;
+    update: jest.Mock;
+  };
+};
+
+const day = 24 * 60 * 60 * 1000;
+const window = {
+  delegateId: 'lead-2',
+  startsAt: new Date(Date.now() + day),
+  endsAt: new Date(Date.now() + 8 * day),
+  reason: 'Annual leave',
+};
+
+describe('ApprovalDelegationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.user.findUnique.mockImplementation(({ where }: { where: { id: string } }) =>
+      Promise.resolve({ name: where.id === 'lead-2' ? 'Other Lead' : 'Lead', role: 'team_lead', isActive: true })
+    );
+    mockPrisma.approvalDelegation.findFirst.mockResolvedValue(null);
+  });
+
+  describe('create', () => {
+    it('records the out-of-office window with its delegate', async () => {
+      await ApprovalDelegationService.create('lead-1', window, 'lead-1');
+
+      expect(mockPrisma.approvalDelegation.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            delegatorId: 'lead-1',
+            delegateId: 'lead-2',
+            startsAt: window.startsAt,
+            endsAt: window.endsAt,
+            reason: 'Annual leave',
+            createdById: 'lead-1',
+          },
+        })
+      );
+    });
+
+    it('refuses delegates who cannot approve requests', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ role: 'team_lead', isActive: true });
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ name: 'Dev', role: 'user', isActive: true });
+
+      await expect(ApprovalDelegationService.create('lead-1', window, 'lead-1')).rejects.toThrow(
+        'Approvals can only be delegated to an active team lead or admin'
+      );
+      expect(mockPrisma.approvalDelegation.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses a window that overlaps one of the approver\'s own', async () => {
+      mockPrisma.approvalDelegation.findFirst.mockResolvedValueOnce({ id: 'delegation-1' });
+
+      await expect(ApprovalDelegationService.create('lead-1', window, 'lead-1')).rejects.toThrow(
+        'This window overlaps another out-of-office delegation'
+      );
+    });
+
+    it('refuses a delegate who is out of office during the window', async () => {
+      mockPrisma.approvalDelegation.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'delegation-2' });
+
+      await expect(ApprovalDelegationService.create('lead-1', window, 'lead-1')).rejects.toThrow(
+        'Other Lead is out of office during this window'
+      );
+    });
+
+    it('refuses delegating to yourself', async () => {
+      await expect(
+        ApprovalDelegationService.create('lead-1', { ...window, delegateId: 'lead-1' }, 'lead-1')
+      ).rejects.toThrow(ApprovalDelegationError);
+    });
+  });
+
+  describe('cancel', () => {
+    it('keeps the delegation and marks it cancelled', async () => {
+      mockPrisma.approvalDelegation.findUnique.mockResolvedValue({
+        delegatorId: 'lead-1',
+        endsAt: window.endsAt,
+        cancelledAt: null,
+      });
+
+      await ApprovalDelegationService.cancel('delegation-1', { id: 'lead-1', role: 'team_lead' });
+
+      expect(mockPrisma.approvalDelegation.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'delegation-1' },
+          data: { cancelledAt: expect.any(Date) },
+        })
+      );
+    });
+
+    it('refuses someone else\'s delegation unless they are an admin', async () => {
+      mockPrisma.approvalDelegation.findUnique.mockResolvedValue({
+        delegatorId: 'lead-1',
+        endsAt: window.endsAt,
+        cancelledAt: null,
+      });
+
+      await expect(
+        ApprovalDelegationService.cancel('delegation-1', { id: 'lead-2', role: 'team_lead' })
+      ).rejects.toThrow(ApprovalDelegationForbiddenError);
+      await expect(
+        ApprovalDelegationService.cancel('delegation-1', { id: 'admin-1', role: 'admin' })
+      ).resolves.not.toThrow();
+    });
+  });
+
+  describe('routeToDelegates', () => {
+    it('swaps absent approvers for their delegates without duplicating anyone', async () => {
+      mockPrisma.approvalDelegation.findMany.mockResolvedValue([
+        {
+          id: 'delegation-1',
+          delegatorId: 'lead-1',
+          delegator: { id: 'lead-1', name: 'Lead' },
+          delegate: { id: 'lead-2', name: 'Other Lead', email: 'other@example.com' },
+        },
+      ]);
+
+      const routed = await ApprovalDelegationService.routeToDelegates([
+        { id: 'lead-1', email: 'lead@example.com' },
+        { id: 'lead-2', email: 'other@example.com' },
+      ]);
+
+      expect(routed).toEqual([
+        {
+          id: 'lead-2',
+          name: 'Other Lead',
+          email: 'other@example.com',
+          delegationId: 'delegation-1',
+          onBehalfOf: { id: 'lead-1', name: 'Lead' },
+        },
+      ]);
+      expect(mockPrisma.approvalDelegation.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            delegatorId: { in: ['lead-1', 'lead-2'] },
+            cancelledAt: null,
+            delegate: { isActive: true },
+          }),
+        })
+      );
+    });
+
+    it('leaves the approvers alone when nobody is away', async () => {
+      mockPrisma.approvalDelegation.findMany.mockResolvedValue([]);
+      const approvers = [{ id: 'lead-1' }];
+
+      await expect(ApprovalDelegationService.routeToDelegates(approvers)).resolves.toBe(approvers);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+// ABOUTME: Unit tests for route and resource authorization policies
+// ABOUTME: Tests the role matrix for each route policy and team lookups for resource policies
+
+import { authorizeResource, policies, resourcePolicies, type PolicyName } from '../authorization';
+import { prisma } from '../prisma';
+import { type UserRole } from '@/types';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock };
+};
+
+const roles: UserRole[] = ['user', 'team_lead', 'admin'];
+
+const expectedRoles: Record<PolicyName, UserRole[]> = {
+  public: ['user', 'team_lead', 'admin'],
+  authenticated: ['user', 'team_lead', 'admin'],
+  manageEquipment: ['team_lead', 'admin'],
+  viewAllEquipment: ['team_lead', 'admin'],
+  approveRequests: ['team_lead', 'admin'],
+  viewReports: ['team_lead', 'admin'],
+  viewUsers: ['team_lead', 'admin'],
+  manageSubscriptions: ['team_lead', 'admin'],
+  manageUsers: ['admin'],
+  manageTeams: ['admin'],
+  admin: ['admin'],
+};
+
+function mockTeams(teams: Record<string, string | null>) {
+  mockPrisma.user.findUnique.mockImplementation(({ where }: { where: { id: string } }) =>
+    Promise.resolve(where.id in teams ? { teamId: teams[where.id] } : null)
+  );
+}
+
+describe('route policies', () => {
+  it.each(Object.entries(expectedRoles))('%s allows exactly the expected roles', (name, allowed) => {
+    const policy = policies[name as PolicyName];
+
+    for (const role of roles) {
+      expect(policy.allows({ id: 'user-1', role })).toBe(allowed.includes(role));
+    }
+  });
+
+  it('marks only the public policy as open to anonymous callers', () => {
+    const open = Object.values(policies).filter((policy) => 'public' in policy && policy.public);
+    expect(open.map((policy) => policy.name)).toEqual(['public']);
+  });
+
+  it('names every policy after its key', () => {
+    for (const [key, policy] of Object.entries(policies)) {
+      expect(policy.name).toBe(key);
+    }
+  });
+});
+
+describe('authorizeResource', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('ownerOrManager', () => {
+    it('lets owners and managers through without looking up teams', async () => {
+      await expect(
+        authorizeResource({ id: 'user-1', role: 'user' }, resourcePolicies.ownerOrManager, 'user-1')
+      ).resolves.toBe(true);
+      await expect(
+        authorizeResource({ id: 'lead-1', role: 'team_lead' }, resourcePolicies.ownerOrManager, 'user-1')
+      ).resolves.toBe(true);
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('blocks other users', async () => {
+      await expect(
+        authorizeResource({ id: 'user-2', role: 'user' }, resourcePolicies.ownerOrManager, 'user-1')
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('ownerOrTeamLead', () => {
+    it('lets a team lead act for members of their own team', async () => {
+      mockTeams({ 'lead-1': 'team-a', 'user-1': 'team-a' });
+
+      await expect(
+        authorizeResource({ id: 'lead-1', role: 'team_lead' }, resourcePolicies.ownerOrTeamLead, 'user-1')
+      ).resolves.toBe(true);
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledTimes(2);
+    });
+
+    it('blocks a team lead from another team', async () => {
+      mockTeams({ 'lead-1': 'team-b', 'user-1': 'team-a' });
+
+      await expect(
+        authorizeResource({ id: 'lead-1', role: 'team_lead' }, resourcePolicies.ownerOrTeamLead, 'user-1')
+      ).resolves.toBe(false);
+    });
+
+    it('leaves owners without a team open to every team lead', async () => {
+      mockTeams({ 'lead-1': 'team-b', 'user-1': null });
+
+      await expect(
+        authorizeResource({ id: 'lead-1', role: 'team_lead' }, resourcePolicies.ownerOrTeamLead, 'user-1')
+      ).resolves.toBe(true);
+    });
+
+    it('lets admins and owners through without looking up teams', async () => {
+      await expect(
+        authorizeResource({ id: 'admin-1', role: 'admin' }, resourcePolicies.ownerOrTeamLead, 'user-1')
+      ).resolves.toBe(true);
+      await expect(
+        authorizeResource({ id: 'user-1', role: 'user' }, resourcePolicies.ownerOrTeamLead, 'user-1')
+      ).resolves.toBe(true);
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('blocks regular users acting for someone else', async () => {
+      await expect(
+        authorizeResource({ id: 'user-2', role: 'user' }, resourcePolicies.ownerOrTeamLead, 'user-1')
+      ).resolves.toBe(false);
+    });
+  });
+});
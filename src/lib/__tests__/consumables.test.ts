@@ -0,0 +1,84 @@
+// ABOUTME: Unit tests for the consumable stock service
+// ABOUTME: Tests movement deltas, low-stock detection and stock guards on check-out
+
+import {
+  ConsumableStockService,
+  InsufficientStockError,
+  getStockDelta,
+  isLowStock,
+} from '../consumables';
+
+jest.mock('../prisma', () => ({
+  prisma: {},
+}));
+
+describe('getStockDelta', () => {
+  it('should add check-ins and subtract check-outs', () => {
+    expect(getStockDelta('check_in', 5)).toBe(5);
+    expect(getStockDelta('check_out', 3)).toBe(-3);
+  });
+
+  it('should keep the sign of adjustments', () => {
+    expect(getStockDelta('adjustment', -2)).toBe(-2);
+    expect(getStockDelta('adjustment', 4)).toBe(4);
+  });
+});
+
+describe('isLowStock', () => {
+  it('should flag items below their minimum', () => {
+    expect(isLowStock({ currentStock: 2, minStock: 5 })).toBe(true);
+    expect(isLowStock({ currentStock: 5, minStock: 5 })).toBe(false);
+  });
+
+  it('should never flag items without a minimum', () => {
+    expect(isLowStock({ currentStock: 0, minStock: 0 })).toBe(false);
+  });
+});
+
+describe('ConsumableStockService.recordMovement', () => {
+  const createTx = (currentStock: number, updatedCount: number) => ({
+    smallInventoryItem: {
+      updateMany: jest.fn().mockResolvedValue({ count: updatedCount }),
+      findUnique: jest.fn().mockResolvedValue({ id: 'item_1', currentStock }),
+    },
+    stockMovement: {
+      create: jest.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'mov_1', ...data })),
+    },
+  });
+
+  it('should guard check-outs on available stock and record the balance', async () => {
+    const tx = createTx(7, 1);
+
+    const result = await ConsumableStockService.recordMovement(
+      'item_1',
+      { type: 'check_out', quantity: 3, reason: 'New joiner', recipientId: 'user_2' },
+      'user_1',
+      tx as never
+    );
+
+    expect(tx.smallInventoryItem.updateMany).toHaveBeenCalledWith({
+      where: { id: 'item_1', currentStock: { gte: 3 } },
+      data: { currentStock: { increment: -3 } },
+    });
+    expect(result.movement).toMatchObject({
+      quantity: -3,
+      balanceAfter: 7,
+      performedById: 'user_1',
+      recipientId: 'user_2',
+    });
+  });
+
+  it('should reject check-outs that exceed stock without recording a movement', async () => {
+    const tx = createTx(1, 0);
+
+    await expect(
+      ConsumableStockService.recordMovement(
+        'item_1',
+        { type: 'check_out', quantity: 3, reason: 'Team event' },
+        'user_1',
+        tx as never
+      )
+    ).rejects.toBeInstanceOf(InsufficientStockError);
+    expect(tx.stockMovement.create).not.toHaveBeenCalled();
+  });
+});
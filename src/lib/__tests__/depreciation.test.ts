@@ -0,0 +1,261 @@
+// ABOUTME: Unit tests for the depreciation engine
+// ABOUTME: Tests each method's book values, policy precedence and valuing equipment from the database
+
+import {
+  DepreciationService,
+  calculateDepreciation,
+  getMonthlyCharges,
+  monthsBetween,
+  resolveDepreciationPolicy,
+  summarizeValuations,
+  type DepreciableEquipment,
+} from '../depreciation';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    equipment: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    equipmentCategory: {
+      findMany: jest.fn(),
+    },
+    systemSetting: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  equipment: { findMany: jest.Mock; update: jest.Mock };
+  equipmentCategory: { findMany: jest.Mock };
+  systemSetting: { findUnique: jest.Mock };
+};
+
+const purchased = new Date(2024, 0, 15);
+const monthsLater = (months: number) => new Date(2024, months, 15);
+
+function item(overrides: Partial<DepreciableEquipment> = {}): DepreciableEquipment {
+  return {
+    purchasePrice: 1000,
+    purchaseDate: purchased,
+    depreciationMethod: null,
+    usefulLifeMonths: null,
+    salvageValue: null,
+    depreciationSchedule: null,
+    ...overrides,
+  };
+}
+
+describe('monthsBetween', () => {
+  it('counts a month once its day is reached', () => {
+    expect(monthsBetween(purchased, new Date(2024, 2, 14))).toBe(1);
+    expect(monthsBetween(purchased, new Date(2024, 2, 15))).toBe(2);
+  });
+
+  it('never goes negative', () => {
+    expect(monthsBetween(purchased, new Date(2023, 11, 1))).toBe(0);
+  });
+});
+
+describe('getMonthlyCharges', () => {
+  it('spreads straight-line evenly with the rounding remainder in the last month', () => {
+    expect(getMonthlyCharges(1000, { method: 'straight_line', usefulLifeMonths: 3, salvageValue: 0 })).toEqual([
+      333.33, 333.33, 333.34,
+    ]);
+  });
+
+  it('has nothing to charge once salvage covers the price', () => {
+    expect(getMonthlyCharges(500, { method: 'straight_line', usefulLifeMonths: 12, salvageValue: 500 })).toEqual([]);
+  });
+});
+
+describe('calculateDepreciation', () => {
+  it('writes straight-line off evenly down to zero', () => {
+    const policy = { method: 'straight_line' as const, usefulLifeMonths: 24, salvageValue: 0 };
+
+    expect(calculateDepreciation(1200, purchased, policy, monthsLater(6))).toMatchObject({
+      ageMonths: 6,
+      accumulatedDepreciation: 300,
+      bookValue: 900,
+      depreciationRate: 0.25,
+      fullyDepreciated: false,
+    });
+    expect(calculateDepreciation(1200, purchased, policy, monthsLater(30))).toMatchObject({
+      bookValue: 0,
+      fullyDepreciated: true,
+    });
+  });
+
+  it('front-loads declining balance and lands exactly on salvage value', () => {
+    const policy = { method: 'declining_balance' as const, usefulLifeMonths: 36, salvageValue: 100 };
+
+    expect(calculateDepreciation(1000, purchased, policy, monthsLater(12)).bookValue).toBe(333.33);
+    expect(calculateDepreciation(1000, purchased, policy, monthsLater(24)).bookValue).toBe(111.11);
+    expect(calculateDepreciation(1000, purchased, policy, monthsLater(36))).toMatchObject({
+      bookValue: 100,
+      accumulatedDepreciation: 900,
+      fullyDepreciated: true,
+    });
+    expect(calculateDepreciation(1000, purchased, policy, monthsLater(60)).bookValue).toBe(100);
+  });
+
+  it('follows a custom yearly schedule', () => {
+    const policy = { method: 'custom' as const, usefulLifeMonths: 36, salvageValue: 0, schedule: [0.5, 0.3, 0.2] };
+
+    expect(calculateDepreciation(1000, purchased, policy, monthsLater(12)).bookValue).toBe(500);
+    expect(calculateDepreciation(1000, purchased, policy, monthsLater(24)).bookValue).toBe(200);
+    expect(calculateDepreciation(1000, purchased, policy, monthsLater(36)).bookValue).toBe(0);
+  });
+
+  it('treats items without a price as worth nothing', () => {
+    const policy = { method: 'straight_line' as const, usefulLifeMonths: 24, salvageValue: 0 };
+
+    expect(calculateDepreciation(null, purchased, policy, monthsLater(6))).toMatchObject({
+      bookValue: 0,
+      depreciationRate: 0,
+    });
+  });
+});
+
+describe('resolveDepreciationPolicy', () => {
+  const category = {
+    depreciationMethod: 'declining_balance',
+    usefulLifeMonths: 60,
+    salvageRate: 0.1,
+    depreciationSchedule: null,
+  };
+
+  it('falls back to straight-line over the default period', () => {
+    expect(resolveDepreciationPolicy(item(), 24)).toEqual({
+      method: 'straight_line',
+      usefulLifeMonths: 24,
+      salvageValue: 0,
+    });
+  });
+
+  it('takes the category settings, with salvage as a share of the price', () => {
+    expect(resolveDepreciationPolicy(item({ categoryObj: category }), 24)).toEqual({
+      method: 'declining_balance',
+      usefulLifeMonths: 60,
+      salvageValue: 100,
+    });
+  });
+
+  it('prefers the invoice period over the category and the item over both', () => {
+    const fromInvoice = item({ categoryObj: category, invoice: { depreciationPeriod: 36 } });
+    expect(resolveDepreciationPolicy(fromInvoice, 24).usefulLifeMonths).toBe(36);
+
+    const overridden = item({
+      categoryObj: category,
+      invoice: { depreciationPeriod: 36 },
+      depreciationMethod: 'straight_line',
+      usefulLifeMonths: 12,
+      salvageValue: 50,
+    });
+    expect(resolveDepreciationPolicy(overridden, 24)).toEqual({
+      method: 'straight_line',
+      usefulLifeMonths: 12,
+      salvageValue: 50,
+    });
+  });
+
+  it('takes the life of a custom schedule from its length', () => {
+    const custom = item({ depreciationMethod: 'custom', depreciationSchedule: '[0.4,0.3,0.2,0.1]' });
+
+    expect(resolveDepreciationPolicy(custom, 24)).toEqual({
+      method: 'custom',
+      usefulLifeMonths: 48,
+      salvageValue: 0,
+      schedule: [0.4, 0.3, 0.2, 0.1],
+    });
+  });
+
+  it('writes off evenly when a custom method has no usable schedule', () => {
+    const custom = item({ depreciationMethod: 'custom', depreciationSchedule: '{broken' });
+
+    expect(resolveDepreciationPolicy(custom, 24).method).toBe('straight_line');
+  });
+
+  it('keeps salvage value between zero and the price', () => {
+    expect(resolveDepreciationPolicy(item({ salvageValue: 5000 }), 24).salvageValue).toBe(1000);
+  });
+});
+
+describe('DepreciationService', () => {
+  const equipmentRow = {
+    id: 'eq-1',
+    name: 'Laptop',
+    serialNumber: 'SN-1',
+    category: 'Laptops',
+    status: 'available',
+    purchaseMethod: 'profi_co',
+    purchaseDate: purchased,
+    purchasePrice: 1200,
+    currentValue: 1200,
+    depreciationMethod: null,
+    usefulLifeMonths: null,
+    salvageValue: null,
+    depreciationSchedule: null,
+    categoryObj: null,
+    invoice: null,
+    disposals: [] as Array<{ disposalDate: Date; saleProceeds: number; reason: string }>,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(monthsLater(6));
+    mockPrisma.systemSetting.findUnique.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('matches older items to their category by name', async () => {
+    mockPrisma.equipment.findMany.mockResolvedValue([equipmentRow]);
+    mockPrisma.equipmentCategory.findMany.mockResolvedValue([
+      { name: 'laptops', depreciationMethod: 'straight_line', usefulLifeMonths: 12, salvageRate: 0, depreciationSchedule: null },
+    ]);
+
+    const [valuation] = await DepreciationService.valueEquipment();
+
+    expect(valuation.policy.usefulLifeMonths).toBe(12);
+    expect(valuation.bookValue).toBe(600);
+  });
+
+  it('stops depreciating on the disposal date and writes off the rest', async () => {
+    mockPrisma.equipment.findMany.mockResolvedValue([
+      {
+        ...equipmentRow,
+        status: 'decommissioned',
+        disposals: [{ disposalDate: monthsLater(3), saleProceeds: 100, reason: 'sold' }],
+      },
+    ]);
+    mockPrisma.equipmentCategory.findMany.mockResolvedValue([]);
+
+    const [valuation] = await DepreciationService.valueEquipment();
+
+    expect(valuation).toMatchObject({ accumulatedDepreciation: 150, bookValue: 0, writtenOffValue: 1050 });
+    expect(summarizeValuations([valuation])).toMatchObject({
+      currentValue: 0,
+      depreciatedValue: 150,
+      writtenOffValue: 1050,
+    });
+  });
+
+  it('only writes book values that changed', async () => {
+    mockPrisma.equipment.findMany.mockResolvedValue([
+      equipmentRow,
+      { ...equipmentRow, id: 'eq-2', currentValue: 900 },
+    ]);
+    mockPrisma.equipmentCategory.findMany.mockResolvedValue([]);
+
+    await expect(DepreciationService.refreshCurrentValues()).resolves.toBe(1);
+    expect(mockPrisma.equipment.update).toHaveBeenCalledWith({
+      where: { id: 'eq-1' },
+      data: { currentValue: 900 },
+    });
+  });
+});
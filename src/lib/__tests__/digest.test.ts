@@ -0,0 +1,232 @@
+// ABOUTME: Unit tests for the notification digest job
+// ABOUTME: Tests recipient scoping, empty digest skipping and delivery through a fake transport
+
+import { DigestService, type DigestRecipient } from '../digest';
+import { EmailTemplates } from '../email';
+import type { EmailMessage, EmailTransport } from '../email-transport';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    user: { findMany: jest.fn() },
+    notificationPreference: { findMany: jest.fn() },
+    notification: { findMany: jest.fn(), createMany: jest.fn() },
+    systemSetting: { findUnique: jest.fn() },
+    equipmentRequest: { findMany: jest.fn() },
+    maintenanceRecord: { findMany: jest.fn() },
+    equipment: { findMany: jest.fn() },
+    subscription: { findMany: jest.fn() },
+    smallInventoryItem: { findMany: jest.fn() },
+    approvalDelegation: { findMany: jest.fn().mockResolvedValue([]) },
+  },
+}));
+
+const mockPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const now = new Date('2026-10-19T07:00:00Z');
+
+const teamLead: DigestRecipient = {
+  id: 'lead_1',
+  name: 'Jane Smith',
+  email: 'jane.smith@profico.com',
+  role: 'team_lead',
+  teamId: 'team_dev',
+};
+
+const user: DigestRecipient = {
+  id: 'user_1',
+  name: 'John Doe',
+  email: 'john.doe@profico.com',
+  role: 'user',
+  teamId: 'team_dev',
+};
+
+function createFakeTransport() {
+  const sent: EmailMessage[] = [];
+  const transport: EmailTransport = {
+    send: async (message) => {
+      sent.push(message);
+    },
+  };
+  return { sent, transport };
+}
+
+describe('DigestService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    for (const model of Object.values(mockPrisma)) {
+      for (const method of Object.values(model)) {
+        method.mockResolvedValue([]);
+      }
+    }
+    mockPrisma.systemSetting.findUnique.mockResolvedValue(null);
+  });
+
+  it('should scope pending approvals for team leads to their team', async () => {
+    await DigestService.getPendingApprovals(teamLead);
+
+    expect(mockPrisma.equipmentRequest.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          status: 'pending',
+          OR: expect.arrayContaining([
+            {
+              approvals: { some: { status: 'pending', approverId: null, approverRole: 'team_lead' } },
+              requester: { OR: [{ teamId: 'team_dev' }, { teamId: null }] },
+            },
+          ]),
+        }),
+      })
+    );
+  });
+
+  it('should send one summary per recipient and skip empty digests', async () => {
+    mockPrisma.user.findMany.mockResolvedValue([teamLead, user]);
+    mockPrisma.equipmentRequest.findMany.mockResolvedValue([
+      {
+        id: 'req_1',
+        equipmentType: 'Monitor',
+        priority: 'low',
+        createdAt: new Date('2026-10-18T10:00:00Z'),
+        requester: { name: 'John Doe' },
+      },
+    ]);
+    mockPrisma.smallInventoryItem.findMany.mockResolvedValue([
+      { id: 'item_1', name: 'USB-C Cables', currentStock: 1, minStock: 5 },
+    ]);
+    const { sent, transport } = createFakeTransport();
+
+    const result = await DigestService.sendDigests({ now, transport });
+
+    expect(result).toEqual({ sent: 1, skipped: 1, failed: 0 });
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe('jane.smith@profico.com');
+    expect(sent[0].subject).toBe('Daily Inventory Digest: 2 items need attention');
+    expect(sent[0].text).toContain('Monitor for John Doe');
+    expect(sent[0].text).toContain('USB-C Cables: 1 in stock, minimum 5');
+  });
+
+  it('should include notifications the recipient moved to the digest', async () => {
+    mockPrisma.notificationPreference.findMany.mockResolvedValue([{ eventType: 'request_approved' }]);
+    mockPrisma.notification.findMany.mockResolvedValue([
+      {
+        type: 'request_approved',
+        title: 'Equipment Request Approved',
+        message: 'Your request for Monitor has been approved.',
+        actionUrl: '/requests/req_1',
+      },
+      {
+        type: 'transfer_completed',
+        title: 'Equipment Transferred',
+        message: 'Dell XPS 13 is now yours.',
+        actionUrl: null,
+      },
+    ]);
+
+    const digest = await DigestService.buildDigest(user, 'weekly', now);
+
+    expect(digest.sections).toEqual([
+      {
+        title: 'Updates',
+        items: [
+          {
+            title: 'Equipment Request Approved',
+            detail: 'Your request for Monitor has been approved.',
+            url: '/requests/req_1',
+          },
+        ],
+      },
+    ]);
+    expect(mockPrisma.equipmentRequest.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should raise maintenance and renewal reminders before building the digests', async () => {
+    mockPrisma.user.findMany.mockResolvedValue([user]);
+    mockPrisma.subscription.findMany.mockResolvedValue([
+      {
+        id: 'sub_1',
+        softwareName: 'Figma',
+        assignedUserId: 'user_1',
+        price: 540,
+        billingFrequency: 'yearly',
+        renewalDate: new Date('2026-10-25T00:00:00Z'),
+      },
+    ]);
+    mockPrisma.notification.createMany.mockResolvedValue({ count: 1 });
+    mockPrisma.notificationPreference.findMany.mockResolvedValue([
+      { userId: 'user_1', eventType: 'renewal_due', channel: 'digest' },
+    ]);
+    mockPrisma.notification.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        {
+          type: 'renewal_due',
+          title: 'Subscription Renewal Due',
+          message: 'Figma renews on 2026-10-25 for €540 (yearly).',
+          actionUrl: '/subscriptions/sub_1',
+        },
+      ]);
+    const { sent, transport } = createFakeTransport();
+
+    const result = await DigestService.sendDigests({ now, transport });
+
+    expect(mockPrisma.equipment.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ nextMaintenanceDate: expect.anything() }) })
+    );
+    expect(mockPrisma.notification.createMany.mock.calls[0][0].data[0]).toMatchObject({
+      userId: 'user_1',
+      type: 'renewal_due',
+    });
+    expect(result).toEqual({ sent: 1, skipped: 0, failed: 0 });
+    expect(sent[0].text).toContain('Figma renews on 2026-10-25');
+  });
+
+  it('should not raise reminders on a dry run', async () => {
+    mockPrisma.user.findMany.mockResolvedValue([user]);
+    mockPrisma.subscription.findMany.mockResolvedValue([
+      {
+        id: 'sub_1',
+        softwareName: 'Figma',
+        assignedUserId: 'user_1',
+        price: 540,
+        billingFrequency: 'yearly',
+        renewalDate: new Date('2026-10-25T00:00:00Z'),
+      },
+    ]);
+    const { transport } = createFakeTransport();
+
+    await DigestService.sendDigests({ now, transport, dryRun: true });
+
+    expect(mockPrisma.subscription.findMany).not.toHaveBeenCalled();
+    expect(mockPrisma.notification.createMany).not.toHaveBeenCalled();
+  });
+
+  it('should not send anything when notification email is turned off', async () => {
+    mockPrisma.systemSetting.findUnique.mockResolvedValue({ key: 'enableEmailNotifications', value: 'false' });
+    const { sent, transport } = createFakeTransport();
+
+    const result = await DigestService.sendDigests({ now, transport });
+
+    expect(result).toEqual({ sent: 0, skipped: 0, failed: 0 });
+    expect(sent).toHaveLength(0);
+    expect(mockPrisma.user.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('EmailTemplates.digest', () => {
+  it('should title the email by frequency and count', () => {
+    const template = EmailTemplates.digest({
+      recipient: { id: 'admin_1', name: 'Admin User', email: 'admin@profico.com', role: 'admin' },
+      frequency: 'weekly',
+      generatedAt: now,
+      sections: [
+        { title: 'Subscription Renewals', items: [{ title: 'Figma', detail: 'Renews soon' }] },
+        { title: 'Low Consumable Stock', items: [] },
+      ],
+    });
+
+    expect(template.subject).toBe('Weekly Inventory Digest: 1 item needs attention');
+    expect(template.html).toContain('Subscription Renewals (1)');
+    expect(template.html).not.toContain('Low Consumable Stock');
+  });
+});
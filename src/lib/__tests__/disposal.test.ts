@@ -0,0 +1,251 @@
+// ABOUTME: Unit tests for the equipment disposal workflow
+// ABOUTME: Tests request checks, write-off on approval and that reviewed disposals stay reviewed
+
+import { EquipmentDisposalService, DisposalError } from '../disposal';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    equipment: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    equipmentDisposal: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    equipmentHistory: {
+      create: jest.fn(),
+    },
+    equipmentCategory: {
+      findMany: jest.fn(),
+    },
+    systemSetting: {
+      findUnique: jest.fn(),
+    },
+    file: {
+      findFirst: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  equipment: { findUnique: jest.Mock; findMany: jest.Mock; update: jest.Mock };
+  equipmentDisposal: {
+    findFirst: jest.Mock;
+    findUnique: jest.Mock;
+    findUniqueOrThrow: jest.Mock;
+    create: jest.Mock;
+    update: jest.Mock;
+    updateMany: jest.Mock;
+  };
+  equipmentHistory: { create: jest.Mock };
+  equipmentCategory: { findMany: jest.Mock };
+  systemSetting: { findUnique: jest.Mock };
+  file: { findFirst: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+const request = {
+  reason: 'sold' as const,
+  disposalDate: '2026-03-20',
+  saleProceeds: 300,
+  dataWiped: true,
+};
+
+describe('EquipmentDisposalService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date(2026, 4, 10));
+    mockPrisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+    mockPrisma.equipment.findUnique.mockResolvedValue({
+      id: 'eq-1',
+      status: 'broken',
+      purchaseDate: new Date(2026, 0, 15),
+    });
+    mockPrisma.equipmentDisposal.findFirst.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('requestDisposal', () => {
+    it('records who wiped the data, defaulting to the requester', async () => {
+      await EquipmentDisposalService.requestDisposal('eq-1', request, 'lead-1');
+
+      expect(mockPrisma.equipmentDisposal.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            equipmentId: 'eq-1',
+            reason: 'sold',
+            saleProceeds: 300,
+            dataWiped: true,
+            dataWipedById: 'lead-1',
+            requestedById: 'lead-1',
+          }),
+        })
+      );
+    });
+
+    it('requires a data wipe unless the item is lost or stolen', async () => {
+      await expect(
+        EquipmentDisposalService.requestDisposal('eq-1', { ...request, dataWiped: false }, 'lead-1')
+      ).rejects.toThrow('Confirm the data wipe');
+
+      await EquipmentDisposalService.requestDisposal(
+        'eq-1',
+        { ...request, reason: 'stolen', saleProceeds: 0, dataWiped: false },
+        'lead-1'
+      );
+      expect(mockPrisma.equipmentDisposal.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuses assigned equipment, future dates and a second pending request', async () => {
+      mockPrisma.equipment.findUnique.mockResolvedValueOnce({
+        id: 'eq-1',
+        status: 'assigned',
+        purchaseDate: new Date(2026, 0, 15),
+      });
+      await expect(EquipmentDisposalService.requestDisposal('eq-1', request, 'lead-1')).rejects.toThrow(DisposalError);
+
+      await expect(
+        EquipmentDisposalService.requestDisposal('eq-1', { ...request, disposalDate: '2026-06-01' }, 'lead-1')
+      ).rejects.toThrow('Disposal date cannot be in the future');
+
+      mockPrisma.equipmentDisposal.findFirst.mockResolvedValueOnce({ id: 'disp-0' });
+      await expect(EquipmentDisposalService.requestDisposal('eq-1', request, 'lead-1')).rejects.toThrow(
+        'already waiting for approval'
+      );
+
+      expect(mockPrisma.equipmentDisposal.create).not.toHaveBeenCalled();
+    });
+
+    it('only accepts certificates attached to the same equipment', async () => {
+      mockPrisma.file.findFirst.mockResolvedValue(null);
+
+      await expect(
+        EquipmentDisposalService.requestDisposal('eq-1', { ...request, certificateFileId: 'file-9' }, 'lead-1')
+      ).rejects.toThrow('Certificate must be a file attached to this equipment');
+      expect(mockPrisma.file.findFirst).toHaveBeenCalledWith({
+        where: { id: 'file-9', equipmentId: 'eq-1' },
+        select: { id: true },
+      });
+    });
+  });
+
+  describe('approve', () => {
+    const pending = {
+      id: 'disp-1',
+      equipmentId: 'eq-1',
+      status: 'pending',
+      reason: 'sold',
+      disposalDate: new Date(2026, 2, 20),
+      saleProceeds: 300,
+      equipment: { status: 'broken' },
+    };
+
+    beforeEach(() => {
+      mockPrisma.equipmentDisposal.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.systemSetting.findUnique.mockResolvedValue(null);
+      mockPrisma.equipmentCategory.findMany.mockResolvedValue([]);
+      mockPrisma.equipment.findMany.mockResolvedValue([
+        {
+          id: 'eq-1',
+          name: 'Laptop',
+          serialNumber: 'SN-1',
+          category: 'computers',
+          status: 'broken',
+          purchaseMethod: 'profi_co',
+          purchaseDate: new Date(2026, 0, 15),
+          purchasePrice: 1200,
+          currentValue: 1100,
+          depreciationMethod: 'straight_line',
+          usefulLifeMonths: 12,
+          salvageValue: null,
+          depreciationSchedule: null,
+          categoryObj: null,
+          invoice: null,
+          disposals: [],
+        },
+      ]);
+    });
+
+    it('writes off book value on the disposal date less proceeds and decommissions the item', async () => {
+      mockPrisma.equipmentDisposal.findUnique.mockResolvedValue(pending);
+
+      await EquipmentDisposalService.approve('disp-1', 'admin-1', 'Sold to staff');
+
+      expect(mockPrisma.equipmentDisposal.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'disp-1', status: 'pending' },
+          data: expect.objectContaining({
+            status: 'approved',
+            reviewedById: 'admin-1',
+            reviewNotes: 'Sold to staff',
+            bookValue: 1000,
+            writeOffAmount: 700,
+          }),
+        })
+      );
+      expect(mockPrisma.equipment.update).toHaveBeenCalledWith({
+        where: { id: 'eq-1' },
+        data: { status: 'decommissioned', currentOwnerId: null, currentValue: 0 },
+      });
+      expect(mockPrisma.equipmentHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ equipmentId: 'eq-1', action: 'STATUS_DECOMMISSIONED' }),
+      });
+    });
+
+    it('does not review a disposal twice', async () => {
+      mockPrisma.equipmentDisposal.findUnique.mockResolvedValue({ ...pending, status: 'rejected' });
+
+      await expect(EquipmentDisposalService.approve('disp-1', 'admin-1')).rejects.toThrow(
+        'Disposal has already been rejected'
+      );
+      expect(mockPrisma.equipment.update).not.toHaveBeenCalled();
+    });
+
+    it('does not write off a disposal another admin approved in the meantime', async () => {
+      mockPrisma.equipmentDisposal.findUnique.mockResolvedValue(pending);
+      mockPrisma.equipmentDisposal.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(EquipmentDisposalService.approve('disp-1', 'admin-1')).rejects.toThrow(
+        'Disposal has already been reviewed'
+      );
+      expect(mockPrisma.equipment.update).not.toHaveBeenCalled();
+      expect(mockPrisma.equipmentHistory.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses items handed out again while the request waited, but still lets it be rejected', async () => {
+      mockPrisma.equipmentDisposal.findUnique.mockResolvedValue({ ...pending, equipment: { status: 'assigned' } });
+
+      await expect(EquipmentDisposalService.approve('disp-1', 'admin-1')).rejects.toThrow(DisposalError);
+      expect(mockPrisma.equipment.update).not.toHaveBeenCalled();
+
+      await EquipmentDisposalService.reject('disp-1', 'admin-1');
+      expect(mockPrisma.equipmentDisposal.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'disp-1', status: 'pending' },
+          data: expect.objectContaining({ status: 'rejected' }),
+        })
+      );
+    });
+
+    it('does not reject a disposal another admin approved in the meantime', async () => {
+      mockPrisma.equipmentDisposal.findUnique.mockResolvedValue(pending);
+      mockPrisma.equipmentDisposal.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(EquipmentDisposalService.reject('disp-1', 'admin-1')).rejects.toThrow(
+        'Disposal has already been reviewed'
+      );
+      expect(mockPrisma.equipmentDisposal.findUniqueOrThrow).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,189 @@
+// ABOUTME: Unit tests for the email outbox and transport selection
+// ABOUTME: Tests delivery logging, retry backoff, claiming before sending, giving up after repeated failures and driver configuration
+
+import { EmailOutboxService, MAX_EMAIL_ATTEMPTS, getRetryDelay } from '../email-outbox';
+import { resetEmailTransport, resolveTransportName, type EmailTransport } from '../email-transport';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    emailDelivery: {
+      create: jest.fn(),
+      update: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  emailDelivery: Record<'create' | 'update' | 'findMany' | 'findUnique' | 'updateMany', jest.Mock>;
+};
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const storedDelivery = {
+  id: 'mail_1',
+  to: '["lead@profico.com"]',
+  subject: 'New Equipment Request',
+  html: '<p>Hello</p>',
+  text: 'Hello',
+  transport: 'smtp',
+  status: 'pending',
+  attempts: 0,
+  lastError: null,
+  nextAttemptAt: null,
+  providerId: null,
+  sentAt: null,
+  createdAt: now,
+  updatedAt: now,
+};
+
+function transportThat(send: EmailTransport['send']): EmailTransport {
+  return { name: 'smtp', send: jest.fn(send) };
+}
+
+describe('EmailOutboxService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation();
+    mockPrisma.emailDelivery.create.mockResolvedValue(storedDelivery);
+    mockPrisma.emailDelivery.update.mockImplementation(({ data }) =>
+      Promise.resolve({ ...storedDelivery, ...data })
+    );
+    mockPrisma.emailDelivery.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('should log the message and mark it sent', async () => {
+    const transport = transportThat(async () => ({ id: 'smtp-123' }));
+
+    const delivery = await EmailOutboxService.send(
+      { to: 'lead@profico.com', subject: 'New Equipment Request', html: '<p>Hello</p>', text: 'Hello' },
+      transport
+    );
+
+    expect(mockPrisma.emailDelivery.create.mock.calls[0][0].data).toMatchObject({
+      to: '["lead@profico.com"]',
+      transport: 'smtp',
+    });
+    expect(transport.send).toHaveBeenCalledWith(
+      expect.objectContaining({ to: ['lead@profico.com'], subject: 'New Equipment Request' })
+    );
+    expect(delivery).toMatchObject({ status: 'sent', attempts: 1, providerId: 'smtp-123' });
+  });
+
+  it('should log and queue the message when the configured transport cannot be set up', async () => {
+    const previous = process.env.EMAIL_TRANSPORT;
+    process.env.EMAIL_TRANSPORT = 'carrier-pigeon';
+    resetEmailTransport();
+
+    try {
+      const delivery = await EmailOutboxService.send({ to: 'lead@profico.com', subject: 'Hi', html: '<p>Hi</p>', text: 'Hi' });
+
+      expect(mockPrisma.emailDelivery.create).toHaveBeenCalled();
+      expect(delivery).toMatchObject({ status: 'pending', attempts: 1, lastError: 'Unknown EMAIL_TRANSPORT "carrier-pigeon"' });
+    } finally {
+      if (previous === undefined) {
+        delete process.env.EMAIL_TRANSPORT;
+      } else {
+        process.env.EMAIL_TRANSPORT = previous;
+      }
+      resetEmailTransport();
+    }
+  });
+
+  it('should queue a failed send for retry with backoff instead of throwing', async () => {
+    const transport = transportThat(async () => {
+      throw new Error('Connection refused');
+    });
+
+    const delivery = await EmailOutboxService.attempt(
+      { ...storedDelivery, attempts: 2 },
+      transport,
+      now
+    );
+
+    expect(delivery).toMatchObject({
+      status: 'pending',
+      attempts: 3,
+      lastError: 'Connection refused',
+      nextAttemptAt: new Date(now.getTime() + 4 * 60 * 1000),
+    });
+  });
+
+  it('should give up after the last attempt', async () => {
+    const transport = transportThat(async () => {
+      throw new Error('Mailbox unavailable');
+    });
+
+    const delivery = await EmailOutboxService.attempt(
+      { ...storedDelivery, attempts: MAX_EMAIL_ATTEMPTS - 1 },
+      transport,
+      now
+    );
+
+    expect(delivery).toMatchObject({ status: 'failed', attempts: MAX_EMAIL_ATTEMPTS, nextAttemptAt: null });
+  });
+
+  it('should only retry deliveries whose backoff has elapsed', async () => {
+    mockPrisma.emailDelivery.findMany.mockResolvedValue([storedDelivery]);
+    const transport = transportThat(async () => ({ id: 'smtp-456' }));
+
+    const result = await EmailOutboxService.processDue({ now, transport });
+
+    expect(mockPrisma.emailDelivery.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { status: { in: ['pending', 'sending'] }, nextAttemptAt: { lte: now } } })
+    );
+    expect(result).toEqual({ sent: 1, retrying: 0, failed: 0 });
+  });
+
+  it('should skip deliveries another run claimed first', async () => {
+    const due = { ...storedDelivery, nextAttemptAt: new Date('2026-10-19T11:58:00Z') };
+    mockPrisma.emailDelivery.findMany.mockResolvedValue([due]);
+    mockPrisma.emailDelivery.updateMany.mockResolvedValue({ count: 0 });
+    const transport = transportThat(async () => ({ id: 'smtp-456' }));
+
+    const result = await EmailOutboxService.processDue({ now, transport });
+
+    expect(mockPrisma.emailDelivery.updateMany).toHaveBeenCalledWith({
+      where: { id: 'mail_1', status: 'pending', nextAttemptAt: due.nextAttemptAt },
+      data: { status: 'sending', nextAttemptAt: new Date(now.getTime() + 10 * 60 * 1000) },
+    });
+    expect(transport.send).not.toHaveBeenCalled();
+    expect(result).toEqual({ sent: 0, retrying: 0, failed: 0 });
+  });
+
+  it('should not retry a delivery that is already being sent', async () => {
+    mockPrisma.emailDelivery.findUnique.mockResolvedValue({ ...storedDelivery, status: 'failed' });
+    mockPrisma.emailDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(EmailOutboxService.retry('mail_1')).resolves.toBeNull();
+    expect(mockPrisma.emailDelivery.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('should double the delay and cap it at an hour', () => {
+    expect(getRetryDelay(1)).toBe(60 * 1000);
+    expect(getRetryDelay(2)).toBe(2 * 60 * 1000);
+    expect(getRetryDelay(10)).toBe(60 * 60 * 1000);
+  });
+});
+
+describe('resolveTransportName', () => {
+  it('should use the configured driver', () => {
+    expect(resolveTransportName({ EMAIL_TRANSPORT: 'smtp' })).toBe('smtp');
+  });
+
+  it('should fall back to the database outbox without a Resend key', () => {
+    expect(resolveTransportName({})).toBe('database');
+    expect(resolveTransportName({ RESEND_API_KEY: 're_123' })).toBe('resend');
+  });
+
+  it('should reject unknown drivers', () => {
+    expect(() => resolveTransportName({ EMAIL_TRANSPORT: 'carrier-pigeon' })).toThrow(
+      'Unknown EMAIL_TRANSPORT "carrier-pigeon"'
+    );
+  });
+});
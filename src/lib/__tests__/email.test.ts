@@ -24,6 +24,9 @@ jest.mock('../prisma', () => ({
       findUnique: jest.fn(),
       findMany: jest.fn(),
     },
+    approvalDelegation: {
+      findMany: jest.fn().mockResolvedValue([]),
+    },
   },
 }));
 
@@ -383,7 +386,7 @@ describe('EmailNotificationService', () => {
               include: {
                 members: {
                   where: { role: 'team_lead' },
-                  select: { email: true },
+                  select: { id: true, email: true },
                 },
               },
             },
@@ -403,10 +406,33 @@ describe('EmailNotificationService', () => {
         expect(emails).toEqual(['lead1@profico.com', 'lead2@profico.com']);
         expect(prisma.user.findMany).toHaveBeenCalledWith({
           where: { role: 'team_lead', isActive: true },
-          select: { email: true },
+          select: { id: true, email: true },
         });
       });
 
+      it('should send to the delegate of a team lead who is out of office', async () => {
+        prisma.user.findUnique.mockResolvedValue({
+          team: {
+            members: [
+              { id: 'lead_1', email: 'lead1@profico.com' },
+              { id: 'lead_2', email: 'lead2@profico.com' },
+            ],
+          },
+        });
+        prisma.approvalDelegation.findMany.mockResolvedValueOnce([
+          {
+            id: 'delegation_1',
+            delegatorId: 'lead_1',
+            delegator: { id: 'lead_1', name: 'Lead One' },
+            delegate: { id: 'admin_1', name: 'Admin', email: 'admin@profico.com' },
+          },
+        ]);
+
+        const emails = await EmailNotificationService.getTeamLeadEmails('user_123');
+
+        expect(emails).toEqual(['admin@profico.com', 'lead2@profico.com']);
+      });
+
       it('should handle database errors gracefully', async () => {
         prisma.user.findUnique.mockRejectedValue(new Error('Database error'));
         const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
@@ -0,0 +1,148 @@
+// ABOUTME: Unit tests for the shared file upload service
+// ABOUTME: Tests content type detection, size limits from settings, storage keys and recording uploaded files
+
+import {
+  detectContentType,
+  DOCUMENT_CONTENT_TYPES,
+  FileUploadError,
+  FileUploadService,
+  IMAGE_CONTENT_TYPES,
+  storageKeyFor,
+} from '../file-uploads';
+import { setStorage, type StorageDriver } from '../storage';
+import { SystemSettingsService } from '../system-settings';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    file: {
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../system-settings', () => ({
+  ...jest.requireActual('../system-settings'),
+  SystemSettingsService: { get: jest.fn() },
+}));
+
+const mockPrisma = prisma as unknown as {
+  $transaction: jest.Mock;
+  file: { create: jest.Mock; update: jest.Mock };
+};
+
+const PDF = Buffer.from('%PDF-1.7 invoice');
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+
+function memoryStorage(): StorageDriver & { files: Map<string, Buffer> } {
+  const files = new Map<string, Buffer>();
+  return {
+    files,
+    put: jest.fn(async (key: string, body: Buffer) => {
+      files.set(key, body);
+    }),
+    get: jest.fn(async (key: string) => {
+      const body = files.get(key);
+      return body ? { body, size: body.length } : null;
+    }),
+    delete: jest.fn(async (key: string) => {
+      files.delete(key);
+    }),
+    signedUrl: jest.fn(async (key: string) => `/signed/${key}`),
+  };
+}
+
+describe('detectContentType', () => {
+  it('recognises PDFs and images from their first bytes', () => {
+    expect(detectContentType(PDF)).toBe('application/pdf');
+    expect(detectContentType(PNG)).toBe('image/png');
+    expect(detectContentType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(detectContentType(Buffer.from('GIF89a...'))).toBe('image/gif');
+    expect(detectContentType(Buffer.from('RIFF\0\0\0\0WEBPVP8 '))).toBe('image/webp');
+  });
+
+  it('returns null for anything else', () => {
+    expect(detectContentType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeNull();
+    expect(detectContentType(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe('storageKeyFor', () => {
+  it('groups keys by month and keeps a safe version of the name', () => {
+    expect(storageKeyFor('files', 'Dell invoice #42.PDF', new Date(2026, 2, 5))).toMatch(
+      /^files\/2026\/03\/[0-9a-f-]+-Dell_invoice__42\.pdf$/
+    );
+  });
+
+  it('falls back to a generic name for unnamed uploads', () => {
+    expect(storageKeyFor('files', '', new Date(2026, 2, 5))).toMatch(/^files\/2026\/03\/[0-9a-f-]+-file$/);
+  });
+});
+
+describe('FileUploadService', () => {
+  let storage: ReturnType<typeof memoryStorage>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    storage = memoryStorage();
+    setStorage(storage);
+    (SystemSettingsService.get as jest.Mock).mockResolvedValue(1);
+    mockPrisma.$transaction.mockImplementation((callback) => callback(mockPrisma));
+  });
+
+  afterAll(() => {
+    setStorage(null);
+  });
+
+  it('enforces the size limit configured in settings', async () => {
+    await expect(FileUploadService.validate(Buffer.concat([PDF, Buffer.alloc(1024 * 1024)]), DOCUMENT_CONTENT_TYPES))
+      .rejects.toThrow('maximum limit of 1MB');
+    expect(SystemSettingsService.get).toHaveBeenCalledWith('maxFileUploadSize');
+  });
+
+  it('checks the detected type rather than the file name', async () => {
+    await expect(FileUploadService.validate(PDF, IMAGE_CONTENT_TYPES)).rejects.toThrow(FileUploadError);
+    await expect(FileUploadService.validate(Buffer.alloc(0), DOCUMENT_CONTENT_TYPES)).rejects.toThrow('File is empty');
+    await expect(FileUploadService.validate(PNG, IMAGE_CONTENT_TYPES)).resolves.toBe('image/png');
+  });
+
+  it('records stored files with a url that goes through the access check', async () => {
+    mockPrisma.file.create.mockImplementation(({ data }) => Promise.resolve({ id: 'file-1', ...data }));
+    mockPrisma.file.update.mockImplementation(({ data }) => Promise.resolve({ id: 'file-1', ...data }));
+
+    const file = await FileUploadService.storeFile(
+      { body: PDF, fileName: 'manual.pdf', prefix: 'equipment-files', allowedTypes: DOCUMENT_CONTENT_TYPES },
+      { uploadedById: 'user-1', equipmentId: 'eq-1' }
+    );
+
+    const data = mockPrisma.file.create.mock.calls[0][0].data;
+    expect(data).toEqual(expect.objectContaining({ type: 'application/pdf', size: PDF.length, equipmentId: 'eq-1' }));
+    expect(storage.files.get(data.storageKey)).toEqual(PDF);
+    expect(file.url).toBe('/api/files/file-1');
+  });
+
+  it('removes the stored file when the record cannot be saved', async () => {
+    mockPrisma.file.create.mockRejectedValue(new Error('db down'));
+
+    await expect(
+      FileUploadService.storeFile(
+        { body: PNG, fileName: 'photo.png', prefix: 'equipment-files', allowedTypes: IMAGE_CONTENT_TYPES },
+        { uploadedById: 'user-1' }
+      )
+    ).rejects.toThrow('db down');
+
+    expect(storage.files.size).toBe(0);
+  });
+
+  it('hands out signed links for stored files', async () => {
+    const url = await FileUploadService.downloadUrl(
+      { storageKey: 'files/a.pdf', fileName: 'a.pdf', contentType: 'application/pdf' },
+      { download: true }
+    );
+
+    expect(url).toBe('/signed/files/a.pdf');
+    expect(storage.signedUrl).toHaveBeenCalledWith('files/a.pdf', expect.objectContaining({ download: true, fileName: 'a.pdf' }));
+  });
+});
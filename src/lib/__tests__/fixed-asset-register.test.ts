@@ -0,0 +1,248 @@
+// ABOUTME: Unit tests for the fixed-asset register and month-end close
+// ABOUTME: Tests carry-over between periods, additions, disposals, journal balance and close ordering
+
+import {
+  FixedAssetRegisterService,
+  PeriodCloseError,
+  buildJournalLines,
+  buildRegisterLines,
+  getPeriodRange,
+  type RegisterLine,
+} from '../fixed-asset-register';
+import { calculateDepreciation, resolveDepreciationPolicy, type EquipmentValuation } from '../depreciation';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    fixedAssetPeriod: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    fixedAssetSnapshot: {
+      findMany: jest.fn(),
+    },
+    equipment: {
+      findMany: jest.fn(),
+    },
+    equipmentCategory: {
+      findMany: jest.fn(),
+    },
+    systemSetting: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  fixedAssetPeriod: { findFirst: jest.Mock; findUnique: jest.Mock; create: jest.Mock };
+  fixedAssetSnapshot: { findMany: jest.Mock };
+  equipment: { findMany: jest.Mock };
+  equipmentCategory: { findMany: jest.Mock };
+  systemSetting: { findUnique: jest.Mock };
+};
+
+function equipmentRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'eq-1',
+    name: 'Laptop',
+    serialNumber: 'SN-1',
+    category: 'computers',
+    status: 'assigned',
+    purchaseMethod: 'profi_co',
+    purchaseDate: new Date(2026, 0, 15),
+    purchasePrice: 1200,
+    currentValue: 1200,
+    depreciationMethod: 'straight_line',
+    usefulLifeMonths: 12,
+    salvageValue: null,
+    depreciationSchedule: null,
+    categoryObj: null,
+    invoice: { depreciationPeriod: 24, invoiceNumber: 'INV-1', vendor: 'Acme' },
+    disposals: [] as Array<{ disposalDate: Date; saleProceeds: number; reason: string }>,
+    ...overrides,
+  };
+}
+
+function valueAt(row: ReturnType<typeof equipmentRow>, period: string): EquipmentValuation {
+  const policy = resolveDepreciationPolicy(row, 24);
+  const { endDate } = getPeriodRange(period);
+  const disposal = row.disposals.find((approved) => approved.disposalDate <= endDate) ?? null;
+  const result = calculateDepreciation(row.purchasePrice, row.purchaseDate, policy, disposal?.disposalDate ?? endDate);
+  return {
+    equipment: row,
+    policy,
+    purchasePrice: row.purchasePrice,
+    ...result,
+    ...(disposal && { bookValue: 0 }),
+    disposal,
+    writtenOffValue: disposal ? result.bookValue : 0,
+  };
+}
+
+function linesFor(period: string, rows: ReturnType<typeof equipmentRow>[], previous: RegisterLine[] | null) {
+  return buildRegisterLines(
+    rows.map((row) => valueAt(row, period)),
+    previous ? new Map(previous.map((line) => [line.equipmentId, line])) : null,
+    getPeriodRange(period).startDate
+  );
+}
+
+describe('buildRegisterLines', () => {
+  it('opens older items at book value on the first close', () => {
+    const [line] = linesFor('2026-03', [equipmentRow()], null);
+
+    expect(line).toMatchObject({
+      openingValue: 1100,
+      additions: 0,
+      depreciationCharge: 100,
+      closingValue: 1000,
+      invoiceNumber: 'INV-1',
+      disposed: false,
+    });
+  });
+
+  it('carries the closing value forward and charges one month', () => {
+    const february = linesFor('2026-02', [equipmentRow()], null);
+    const [march] = linesFor('2026-03', [equipmentRow()], february);
+
+    expect(march).toMatchObject({ openingValue: 1100, depreciationCharge: 100, closingValue: 1000 });
+  });
+
+  it('keeps closed figures even when the purchase price is edited later', () => {
+    const february = linesFor('2026-02', [equipmentRow()], null);
+    const [march] = linesFor('2026-03', [equipmentRow({ purchasePrice: 2400 })], february);
+
+    expect(march.openingValue).toBe(1100);
+    expect(march.closingValue).toBe(march.openingValue - march.depreciationCharge);
+  });
+
+  it('brings new items in as additions at cost', () => {
+    const february = linesFor('2026-02', [equipmentRow()], null);
+    const newItem = equipmentRow({ id: 'eq-2', purchaseDate: new Date(2026, 2, 10), purchasePrice: 600 });
+    const lines = linesFor('2026-03', [equipmentRow(), newItem], february);
+
+    expect(lines.find((line) => line.equipmentId === 'eq-2')).toMatchObject({
+      openingValue: 0,
+      additions: 600,
+      depreciationCharge: 0,
+      closingValue: 600,
+    });
+  });
+
+  it('takes retired and deleted items off at book value, once', () => {
+    const february = linesFor('2026-02', [equipmentRow(), equipmentRow({ id: 'eq-2' })], null);
+    const march = linesFor('2026-03', [equipmentRow({ status: 'decommissioned' })], february);
+
+    expect(march).toEqual([
+      expect.objectContaining({ equipmentId: 'eq-1', disposals: 1100, depreciationCharge: 0, closingValue: 0, disposed: true }),
+      expect.objectContaining({ equipmentId: 'eq-2', disposals: 1100, closingValue: 0, disposed: true }),
+    ]);
+
+    expect(linesFor('2026-04', [equipmentRow({ status: 'decommissioned' })], march)).toEqual([]);
+  });
+
+  it('depreciates approved disposals up to the disposal date', () => {
+    const disposed = equipmentRow({
+      status: 'decommissioned',
+      disposals: [{ disposalDate: new Date(2026, 3, 20), saleProceeds: 950, reason: 'sold' }],
+    });
+    const february = linesFor('2026-02', [equipmentRow()], null);
+    const march = linesFor('2026-03', [disposed], february);
+
+    expect(march).toEqual([expect.objectContaining({ depreciationCharge: 100, closingValue: 1000, disposed: false })]);
+    expect(linesFor('2026-04', [disposed], march)).toEqual([
+      expect.objectContaining({ depreciationCharge: 100, disposals: 900, saleProceeds: 950, disposed: true }),
+    ]);
+  });
+});
+
+describe('buildJournalLines', () => {
+  it('posts depreciation and disposals as balanced entries per category', () => {
+    const february = linesFor('2026-02', [equipmentRow(), equipmentRow({ id: 'eq-2' })], null);
+    const march = linesFor('2026-03', [equipmentRow(), equipmentRow({ id: 'eq-2', status: 'lost' })], february);
+    const journal = buildJournalLines('2026-03', getPeriodRange('2026-03').endDate, march);
+
+    expect(journal).toEqual([
+      expect.objectContaining({ date: '2026-03-31', reference: 'DEP-2026-03', account: 'Depreciation Expense', debit: 100 }),
+      expect.objectContaining({ account: 'Accumulated Depreciation', credit: 100 }),
+      expect.objectContaining({ account: 'Accumulated Depreciation', debit: 100 }),
+      expect.objectContaining({ account: 'Loss on Disposal of Fixed Assets', debit: 1100 }),
+      expect.objectContaining({ account: 'Fixed Assets', credit: 1200 }),
+    ]);
+
+    const debits = journal.reduce((sum, line) => sum + line.debit, 0);
+    const credits = journal.reduce((sum, line) => sum + line.credit, 0);
+    expect(debits).toBeCloseTo(credits, 2);
+  });
+
+  it('books sale proceeds and posts a gain when they exceed book value', () => {
+    const sold = equipmentRow({
+      status: 'decommissioned',
+      disposals: [{ disposalDate: new Date(2026, 2, 20), saleProceeds: 1050, reason: 'sold' }],
+    });
+    const february = linesFor('2026-02', [equipmentRow()], null);
+    const journal = buildJournalLines('2026-03', getPeriodRange('2026-03').endDate, linesFor('2026-03', [sold], february));
+
+    expect(journal.filter((line) => line.description === 'Disposals 2026-03')).toEqual([
+      expect.objectContaining({ account: 'Accumulated Depreciation', debit: 200 }),
+      expect.objectContaining({ account: 'Disposal Proceeds Receivable', debit: 1050 }),
+      expect.objectContaining({ account: 'Gain on Disposal of Fixed Assets', credit: 50 }),
+      expect.objectContaining({ account: 'Fixed Assets', credit: 1200 }),
+    ]);
+
+    const debits = journal.reduce((sum, line) => sum + line.debit, 0);
+    const credits = journal.reduce((sum, line) => sum + line.credit, 0);
+    expect(debits).toBeCloseTo(credits, 2);
+  });
+});
+
+describe('FixedAssetRegisterService.closePeriod', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date(2026, 4, 10));
+    mockPrisma.systemSetting.findUnique.mockResolvedValue(null);
+    mockPrisma.equipmentCategory.findMany.mockResolvedValue([]);
+    mockPrisma.equipment.findMany.mockResolvedValue([equipmentRow()]);
+    mockPrisma.fixedAssetSnapshot.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('refuses months that have not ended', async () => {
+    await expect(FixedAssetRegisterService.closePeriod('2026-05', 'admin-1')).rejects.toThrow(PeriodCloseError);
+    expect(mockPrisma.fixedAssetPeriod.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses closed months and gaps', async () => {
+    mockPrisma.fixedAssetPeriod.findFirst.mockResolvedValue({ period: '2026-02' });
+
+    await expect(FixedAssetRegisterService.closePeriod('2026-01', 'admin-1')).rejects.toThrow('2026-01 is already closed');
+    await expect(FixedAssetRegisterService.closePeriod('2026-04', 'admin-1')).rejects.toThrow('Close 2026-03 before 2026-04');
+    expect(mockPrisma.fixedAssetPeriod.create).not.toHaveBeenCalled();
+  });
+
+  it('freezes the register with its totals', async () => {
+    mockPrisma.fixedAssetPeriod.findFirst.mockResolvedValue(null);
+    mockPrisma.fixedAssetPeriod.findUnique.mockResolvedValue(null);
+
+    await FixedAssetRegisterService.closePeriod('2026-02', 'admin-1');
+
+    expect(mockPrisma.fixedAssetPeriod.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        period: '2026-02',
+        openingValue: 1200,
+        additions: 0,
+        disposals: 0,
+        depreciationCharge: 100,
+        closingValue: 1100,
+        closedById: 'admin-1',
+        snapshots: {
+          create: [expect.objectContaining({ equipmentId: 'eq-1', closingValue: 1100 })],
+        },
+      }),
+    });
+  });
+});
@@ -0,0 +1,168 @@
+// ABOUTME: Unit tests for handover checklists
+// ABOUTME: Tests step storage, opening checklists on handover and releasing returned equipment on completion
+
+import {
+  HandoverChecklistService,
+  ChecklistError,
+  parseChecklistSteps,
+  serializeChecklistSteps,
+} from '../handover-checklists';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    equipment: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    equipmentCategory: {
+      findMany: jest.fn(),
+    },
+    equipmentHistory: {
+      create: jest.fn(),
+    },
+    handoverChecklist: {
+      create: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+    },
+    handoverChecklistItem: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  equipment: { findUnique: jest.Mock; update: jest.Mock };
+  equipmentCategory: { findMany: jest.Mock };
+  equipmentHistory: { create: jest.Mock };
+  handoverChecklist: { create: jest.Mock; update: jest.Mock; count: jest.Mock };
+  handoverChecklistItem: { findFirst: jest.Mock; update: jest.Mock; count: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+const laptopSteps = JSON.stringify({
+  return: ['Wipe disk', 'Remove from MDM', 'Return charger'],
+});
+
+describe('checklist step storage', () => {
+  it('keeps only string lists for known stages', () => {
+    expect(
+      parseChecklistSteps(JSON.stringify({ return: ['Wipe disk'], transfer: [1, 2], other: ['x'] }))
+    ).toEqual({ return: ['Wipe disk'] });
+    expect(parseChecklistSteps('not json')).toEqual({});
+    expect(parseChecklistSteps(null)).toEqual({});
+  });
+
+  it('leaves steps alone when undefined and clears them when empty', () => {
+    expect(serializeChecklistSteps(undefined)).toBeUndefined();
+    expect(serializeChecklistSteps({ assignment: [], return: [] })).toBeNull();
+    expect(serializeChecklistSteps({ return: ['Remove SIM'] })).toBe('{"return":["Remove SIM"]}');
+  });
+});
+
+describe('HandoverChecklistService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  });
+
+  describe('start', () => {
+    it('opens a checklist from the category steps with handover steps already ticked', async () => {
+      mockPrisma.equipment.findUnique.mockResolvedValue({
+        category: 'laptop',
+        categoryObj: { handoverChecklists: laptopSteps },
+      });
+
+      await HandoverChecklistService.start(prisma, {
+        equipmentId: 'eq-1',
+        stage: 'return',
+        historyId: 'hist-1',
+        completedSteps: ['Return charger'],
+        userId: 'lead-1',
+      });
+
+      const { data } = mockPrisma.handoverChecklist.create.mock.calls[0][0];
+      expect(data).toEqual(
+        expect.objectContaining({ equipmentId: 'eq-1', historyId: 'hist-1', stage: 'return', completedAt: null })
+      );
+      expect(data.items.create).toEqual([
+        { position: 0, label: 'Wipe disk' },
+        { position: 1, label: 'Remove from MDM' },
+        expect.objectContaining({ position: 2, label: 'Return charger', completed: true, completedById: 'lead-1' }),
+      ]);
+    });
+
+    it('falls back to the category name and skips stages without steps', async () => {
+      mockPrisma.equipment.findUnique.mockResolvedValue({ category: 'Laptop', categoryObj: null });
+      mockPrisma.equipmentCategory.findMany.mockResolvedValue([{ name: 'laptop', handoverChecklists: laptopSteps }]);
+
+      const checklist = await HandoverChecklistService.start(prisma, {
+        equipmentId: 'eq-1',
+        stage: 'assignment',
+        historyId: 'hist-1',
+        userId: 'lead-1',
+      });
+
+      expect(checklist).toBeNull();
+      expect(mockPrisma.handoverChecklist.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setItemCompleted', () => {
+    it('releases pending equipment when the last return step is ticked', async () => {
+      mockPrisma.handoverChecklistItem.findFirst.mockResolvedValue({
+        id: 'item-1',
+        checklist: { stage: 'return', completedAt: null },
+      });
+      mockPrisma.handoverChecklistItem.count.mockResolvedValue(0);
+      mockPrisma.handoverChecklist.update.mockResolvedValue({ id: 'cl-1', stage: 'return', completedAt: new Date() });
+      mockPrisma.handoverChecklist.count.mockResolvedValue(0);
+      mockPrisma.equipment.findUnique.mockResolvedValue({ status: 'pending' });
+
+      const result = await HandoverChecklistService.setItemCompleted('eq-1', 'cl-1', 'item-1', true, 'lead-1');
+
+      expect(result?.released).toBe(true);
+      expect(mockPrisma.handoverChecklistItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: expect.objectContaining({ completed: true, completedById: 'lead-1' }),
+      });
+      expect(mockPrisma.equipment.update).toHaveBeenCalledWith({
+        where: { id: 'eq-1' },
+        data: { status: 'available' },
+      });
+      expect(mockPrisma.equipmentHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ equipmentId: 'eq-1', action: 'STATUS_AVAILABLE' }),
+      });
+    });
+
+    it('keeps equipment pending while steps remain', async () => {
+      mockPrisma.handoverChecklistItem.findFirst.mockResolvedValue({
+        id: 'item-1',
+        checklist: { stage: 'return', completedAt: null },
+      });
+      mockPrisma.handoverChecklistItem.count.mockResolvedValue(1);
+      mockPrisma.handoverChecklist.update.mockResolvedValue({ id: 'cl-1', stage: 'return', completedAt: null });
+
+      const result = await HandoverChecklistService.setItemCompleted('eq-1', 'cl-1', 'item-1', true, 'lead-1');
+
+      expect(result?.released).toBe(false);
+      expect(mockPrisma.equipment.update).not.toHaveBeenCalled();
+    });
+
+    it('does not change completed checklists', async () => {
+      mockPrisma.handoverChecklistItem.findFirst.mockResolvedValue({
+        id: 'item-1',
+        checklist: { stage: 'return', completedAt: new Date() },
+      });
+
+      await expect(
+        HandoverChecklistService.setItemCompleted('eq-1', 'cl-1', 'item-1', false, 'lead-1')
+      ).rejects.toThrow(ChecklistError);
+      expect(mockPrisma.handoverChecklistItem.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,162 @@
+// ABOUTME: Unit tests for the inventory check audit service
+// ABOUTME: Tests QR payload parsing, discrepancy detection, scope filters, unknown scans and closing a check once
+
+import {
+  InventoryCheckError,
+  InventoryCheckService,
+  detectDiscrepancies,
+  extractEquipmentCode,
+} from '../inventory-check';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    equipment: { findFirst: jest.fn() },
+    user: { findMany: jest.fn() },
+    inventoryCheck: { findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    inventoryCheckItem: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      upsert: jest.fn(),
+      create: jest.fn(),
+      count: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>> & { $transaction: jest.Mock };
+
+describe('extractEquipmentCode', () => {
+  it('should extract the equipment id from generated QR URLs', () => {
+    expect(extractEquipmentCode('https://inventory.profico.com/equipment/clx123abc')).toBe('clx123abc');
+    expect(extractEquipmentCode('http://localhost:3000/equipment/clx123abc?ref=qr')).toBe('clx123abc');
+  });
+
+  it('should return bare ids and serial numbers unchanged', () => {
+    expect(extractEquipmentCode('  SN-2024-0042 ')).toBe('SN-2024-0042');
+  });
+});
+
+describe('detectDiscrepancies', () => {
+  const verified = {
+    status: 'verified',
+    expected: true,
+    expectedOwnerId: 'user_1',
+    expectedLocation: 'Zagreb Office',
+  };
+
+  it('should report nothing for a clean verification', () => {
+    expect(detectDiscrepancies({ ...verified, observedLocation: ' zagreb office' })).toEqual([]);
+  });
+
+  it('should report nothing for items that are still pending', () => {
+    expect(detectDiscrepancies({ ...verified, status: 'pending' })).toEqual([]);
+  });
+
+  it('should report missing and unexpected items', () => {
+    expect(detectDiscrepancies({ ...verified, status: 'missing' })).toEqual(['missing']);
+    expect(detectDiscrepancies({ ...verified, status: 'unexpected', expected: false })).toEqual(['unexpected']);
+  });
+
+  it('should only compare owners when the auditor recorded one', () => {
+    expect(detectDiscrepancies({ ...verified, observedOwnerId: null })).toEqual([]);
+    expect(detectDiscrepancies({ ...verified, ownerObserved: true, observedOwnerId: null })).toEqual(['wrong_owner']);
+    expect(detectDiscrepancies({ ...verified, ownerObserved: true, observedOwnerId: 'user_2' })).toEqual(['wrong_owner']);
+    expect(detectDiscrepancies({ ...verified, ownerObserved: true, observedOwnerId: 'user_1' })).toEqual([]);
+  });
+
+  it('should report wrong owner and wrong location together', () => {
+    expect(
+      detectDiscrepancies({
+        ...verified,
+        ownerObserved: true,
+        observedOwnerId: 'user_2',
+        observedLocation: 'Split Office',
+      })
+    ).toEqual(['wrong_owner', 'wrong_location']);
+  });
+});
+
+describe('InventoryCheckService.buildScopeWhere', () => {
+  it('should exclude written-off equipment from every scope', () => {
+    expect(InventoryCheckService.buildScopeWhere('all')).toEqual({
+      status: { notIn: ['decommissioned', 'lost', 'stolen'] },
+    });
+  });
+
+  it('should filter by location, category and owner team', () => {
+    expect(InventoryCheckService.buildScopeWhere('location', 'Zagreb Office')).toMatchObject({
+      location: 'Zagreb Office',
+    });
+    expect(InventoryCheckService.buildScopeWhere('category', 'computers')).toMatchObject({
+      OR: [{ category: 'computers' }, { categoryId: 'computers' }],
+    });
+    expect(InventoryCheckService.buildScopeWhere('team', 'team_1')).toMatchObject({
+      currentOwner: { teamId: 'team_1' },
+    });
+  });
+});
+
+describe('InventoryCheckService', () => {
+  const check = { id: 'check_1', status: 'in_progress', scopeType: 'all', scopeValue: null };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+    mockPrisma.inventoryCheckItem.count.mockResolvedValue(0);
+    mockPrisma.user.findMany.mockResolvedValue([]);
+  });
+
+  it('should record an unknown code scanned twice as one unexpected item', async () => {
+    mockPrisma.equipment.findFirst.mockResolvedValue(null);
+    mockPrisma.inventoryCheckItem.upsert.mockResolvedValue({ id: 'item_9', status: 'unexpected', expected: false });
+
+    await InventoryCheckService.recordScan(check, { code: 'UNKNOWN-42' }, 'user_1');
+
+    expect(mockPrisma.inventoryCheckItem.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { checkId_scannedCode: { checkId: 'check_1', scannedCode: 'UNKNOWN-42' } },
+      })
+    );
+    expect(mockPrisma.inventoryCheckItem.create).not.toHaveBeenCalled();
+  });
+
+  it('should only close a check that is still open', async () => {
+    mockPrisma.inventoryCheck.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(InventoryCheckService.closeCheck('check_1', 'admin_1')).rejects.toThrow(InventoryCheckError);
+    expect(mockPrisma.inventoryCheckItem.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should mark unscanned items missing and freeze the report in one transaction', async () => {
+    mockPrisma.inventoryCheck.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.inventoryCheck.findUnique.mockResolvedValue({
+      id: 'check_1',
+      name: 'Q4 audit',
+      status: 'completed',
+      scopeType: 'all',
+      scopeValue: null,
+      scheduledAt: new Date('2026-10-01'),
+      startedAt: new Date('2026-10-02'),
+      completedAt: new Date('2026-10-19'),
+      items: [
+        { id: 'item_1', status: 'missing', expected: true, equipmentId: 'eq_1', equipment: { id: 'eq_1', name: 'Dell XPS 13', serialNumber: 'SN-1' } },
+      ],
+    });
+
+    const report = await InventoryCheckService.closeCheck('check_1', 'admin_1');
+
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.inventoryCheck.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'check_1', status: { in: ['pending', 'in_progress'] } } })
+    );
+    expect(mockPrisma.inventoryCheckItem.updateMany).toHaveBeenCalledWith({
+      where: { checkId: 'check_1', status: 'pending' },
+      data: { status: 'missing' },
+    });
+    expect(report.summary.missing).toBe(1);
+    expect(report.check.status).toBe('completed');
+  });
+});
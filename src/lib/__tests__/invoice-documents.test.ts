@@ -0,0 +1,168 @@
+// ABOUTME: Unit tests for invoice documents kept in storage
+// ABOUTME: Tests keeping uploaded originals, attaching them to saved invoices and removing abandoned uploads
+
+import { InvoiceDocumentService, InvoiceDocumentError } from '../invoice-documents';
+import { FileUploadError } from '../file-uploads';
+import { setStorage, type StorageDriver } from '../storage';
+import { SystemSettingsService } from '../system-settings';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    invoiceDocument: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../system-settings', () => ({
+  ...jest.requireActual('../system-settings'),
+  SystemSettingsService: { get: jest.fn() },
+}));
+
+const PNG_HEADER = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const mockPrisma = prisma as unknown as {
+  invoiceDocument: {
+    findUnique: jest.Mock;
+    findMany: jest.Mock;
+    create: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+  };
+};
+
+function memoryStorage(): StorageDriver & { files: Map<string, Buffer> } {
+  const files = new Map<string, Buffer>();
+  return {
+    files,
+    put: jest.fn(async (key: string, body: Buffer) => {
+      files.set(key, body);
+    }),
+    get: jest.fn(async (key: string) => {
+      const body = files.get(key);
+      return body ? { body, size: body.length } : null;
+    }),
+    delete: jest.fn(async (key: string) => {
+      files.delete(key);
+    }),
+    signedUrl: jest.fn(async (key: string) => `/signed/${key}`),
+  };
+}
+
+describe('InvoiceDocumentService', () => {
+  let storage: ReturnType<typeof memoryStorage>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    storage = memoryStorage();
+    setStorage(storage);
+    (SystemSettingsService.get as jest.Mock).mockResolvedValue(10);
+  });
+
+  afterAll(() => {
+    setStorage(null);
+  });
+
+  it('stores the original with its checksum under a month-grouped key', async () => {
+    mockPrisma.invoiceDocument.create.mockImplementation(({ data }) => Promise.resolve({ id: 'doc-1', ...data }));
+    const body = Buffer.from('%PDF-1.7 invoice');
+
+    await InvoiceDocumentService.store({
+      body,
+      fileName: 'Dell invoice #42.pdf',
+      uploadedById: 'user-1',
+    });
+
+    const data = mockPrisma.invoiceDocument.create.mock.calls[0][0].data;
+    expect(data.storageKey).toMatch(/^invoices\/\d{4}\/\d{2}\/[0-9a-f-]+-Dell_invoice__42\.pdf$/);
+    expect(data.contentType).toBe('application/pdf');
+    expect(data.size).toBe(body.length);
+    expect(data.checksum).toHaveLength(64);
+    expect(storage.files.get(data.storageKey)).toEqual(body);
+  });
+
+  it('removes the stored file when the document row cannot be created', async () => {
+    mockPrisma.invoiceDocument.create.mockRejectedValue(new Error('db down'));
+
+    await expect(
+      InvoiceDocumentService.store({
+        body: PNG_HEADER,
+        fileName: 'scan.png',
+        uploadedById: 'user-1',
+      })
+    ).rejects.toThrow('db down');
+
+    expect(storage.files.size).toBe(0);
+  });
+
+  it('refuses files that are not really PDFs or images, whatever their name says', async () => {
+    await expect(
+      InvoiceDocumentService.store({
+        body: Buffer.from('<html>not an invoice</html>'),
+        fileName: 'invoice.pdf',
+        uploadedById: 'user-1',
+      })
+    ).rejects.toThrow(FileUploadError);
+
+    expect(storage.files.size).toBe(0);
+    expect(mockPrisma.invoiceDocument.create).not.toHaveBeenCalled();
+  });
+
+  it('attaches an uploaded document to the saved invoice', async () => {
+    mockPrisma.invoiceDocument.findUnique.mockResolvedValue({ id: 'doc-1', uploadedById: 'user-1', invoiceId: null });
+    mockPrisma.invoiceDocument.update.mockResolvedValue({ id: 'doc-1' });
+
+    await InvoiceDocumentService.attach('doc-1', 'invoice-1', { id: 'user-1', role: 'user' });
+
+    expect(mockPrisma.invoiceDocument.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'doc-1' }, data: { invoiceId: 'invoice-1' } })
+    );
+  });
+
+  it("refuses to attach someone else's upload unless the user is an admin", async () => {
+    mockPrisma.invoiceDocument.findUnique.mockResolvedValue({ id: 'doc-1', uploadedById: 'user-2', invoiceId: null });
+    mockPrisma.invoiceDocument.update.mockResolvedValue({ id: 'doc-1' });
+
+    await expect(
+      InvoiceDocumentService.attach('doc-1', 'invoice-1', { id: 'user-1', role: 'team_lead' })
+    ).rejects.toThrow(InvoiceDocumentError);
+
+    await InvoiceDocumentService.attach('doc-1', 'invoice-1', { id: 'admin-1', role: 'admin' });
+    expect(mockPrisma.invoiceDocument.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses to move a document to a second invoice', async () => {
+    mockPrisma.invoiceDocument.findUnique.mockResolvedValue({ id: 'doc-1', uploadedById: 'user-1', invoiceId: 'invoice-1' });
+
+    await expect(
+      InvoiceDocumentService.attach('doc-1', 'invoice-2', { id: 'user-1', role: 'user' })
+    ).rejects.toThrow('already attached');
+    expect(mockPrisma.invoiceDocument.update).not.toHaveBeenCalled();
+  });
+
+  it('removes only unattached uploads older than the cutoff that no OCR job is waiting for', async () => {
+    storage.files.set('invoices/2026/01/a.pdf', Buffer.from('a'));
+    mockPrisma.invoiceDocument.findMany.mockResolvedValue([{ id: 'doc-1', storageKey: 'invoices/2026/01/a.pdf' }]);
+    const cutoff = new Date('2026-01-10T00:00:00Z');
+
+    const removed = await InvoiceDocumentService.removeOrphans(cutoff);
+
+    expect(removed).toBe(1);
+    expect(mockPrisma.invoiceDocument.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          invoiceId: null,
+          createdAt: { lt: cutoff },
+          NOT: { ocrJobFile: { is: { status: { in: ['pending', 'processing'] } } } },
+        },
+      })
+    );
+    expect(mockPrisma.invoiceDocument.delete).toHaveBeenCalledWith({ where: { id: 'doc-1' } });
+    expect(storage.files.size).toBe(0);
+  });
+});
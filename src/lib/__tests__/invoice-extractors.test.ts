@@ -0,0 +1,178 @@
+// ABOUTME: Unit tests for invoice extractors and the offline rule-based parser
+// ABOUTME: Tests template matching, amount and date parsing, merging by confidence and falling back when Gemini is unavailable
+
+import {
+  createGeminiExtractor,
+  createLocalExtractor,
+  extractInvoice,
+  mergeExtractionResults,
+  resolveExtractorNames,
+  type InvoiceExtractor,
+} from '../invoice-extractors';
+import { normalizeInvoiceDate, parseAmount, parseInvoiceText } from '../invoice-templates';
+import type { OCRResult } from '../gemini-ocr';
+
+jest.mock('pdf-parse', () => jest.fn());
+
+const linksInvoice = `Links d.o.o.
+Ulica grada Vukovara 269, Zagreb
+Račun broj: R-2026-1042
+Datum računa: 14.10.2026.
+Dell Latitude 7450 2 1.099,00 2.198,00
+Osnovica 2.198,00
+PDV 25%: 549,50
+Ukupno za platiti: 2.747,50 EUR`;
+
+function fakeExtractor(name: string, outcome: OCRResult | Error, available = true): InvoiceExtractor {
+  return {
+    name,
+    isAvailable: () => available,
+    extract: jest.fn(() => (outcome instanceof Error ? Promise.reject(outcome) : Promise.resolve(outcome))),
+  };
+}
+
+describe('parseInvoiceText', () => {
+  it('reads a known supplier with its template', () => {
+    const result = parseInvoiceText(linksInvoice);
+
+    expect(result).toMatchObject({
+      vendor: 'Links d.o.o.',
+      invoiceNumber: 'R-2026-1042',
+      date: '2026-10-14',
+      amount: 2747.5,
+      vatAmount: 549.5,
+      currency: 'EUR',
+      invoiceType: 'equipment',
+      equipment: [{ name: 'Dell Latitude 7450', quantity: 2, unitPrice: 1099 }],
+    });
+    expect(result.confidence).toBe(0.9);
+  });
+
+  it('falls back to generic rules and scores lower without a template', () => {
+    const result = parseInvoiceText(`Supplier: Acme Hardware Ltd
+Invoice No: INV-778
+Invoice date: 2026-09-30
+Total: $1,250.00`);
+
+    expect(result).toMatchObject({
+      vendor: 'Acme Hardware Ltd',
+      invoiceNumber: 'INV-778',
+      date: '2026-09-30',
+      amount: 1250,
+      currency: 'USD',
+    });
+    expect(result.confidence).toBe(0.6);
+  });
+});
+
+describe('parseAmount and normalizeInvoiceDate', () => {
+  it('reads European and US number formats', () => {
+    expect(parseAmount('1.234,56')).toBe(1234.56);
+    expect(parseAmount('1,234.56')).toBe(1234.56);
+    expect(parseAmount('1.299')).toBe(1299);
+    expect(parseAmount('49,90')).toBe(49.9);
+  });
+
+  it('reads numeric dates day first and rejects impossible ones', () => {
+    expect(normalizeInvoiceDate('03.04.2026.')).toBe('2026-04-03');
+    expect(normalizeInvoiceDate('3/4/26')).toBe('2026-04-03');
+    expect(normalizeInvoiceDate('31.02.2026')).toBeUndefined();
+  });
+});
+
+describe('createLocalExtractor', () => {
+  it('parses PDF text with the templates', async () => {
+    const extractor = createLocalExtractor({ readPdfText: async () => linksInvoice });
+
+    const result = await extractor.extract(Buffer.from('%PDF-'), 'application/pdf');
+
+    expect(result.invoiceNumber).toBe('R-2026-1042');
+    expect(result.extractionDetails?.modelUsed).toBe('local-rules');
+  });
+
+  it('refuses images when Tesseract is not configured', async () => {
+    const extractor = createLocalExtractor({ tesseractPath: undefined });
+
+    await expect(extractor.extract(Buffer.from('png'), 'image/png')).rejects.toThrow(/TESSERACT_PATH/);
+  });
+
+  it('reads images through the OCR step when one is given', async () => {
+    const readImageText = jest.fn().mockResolvedValue(linksInvoice);
+    const extractor = createLocalExtractor({ readImageText });
+
+    const result = await extractor.extract(Buffer.from('png'), 'image/png');
+
+    expect(readImageText).toHaveBeenCalled();
+    expect(result.extractionDetails?.modelUsed).toBe('local-tesseract');
+  });
+});
+
+describe('createGeminiExtractor', () => {
+  it('is unavailable without an API key', () => {
+    const service = { extractInvoiceData: jest.fn(), extractFromImage: jest.fn() };
+
+    expect(createGeminiExtractor(service, undefined).isAvailable()).toBe(false);
+    expect(createGeminiExtractor(service, 'key').isAvailable()).toBe(true);
+  });
+});
+
+describe('mergeExtractionResults', () => {
+  it('takes each field from the most confident extractor that found it and lists disagreements', () => {
+    const merged = mergeExtractionResults([
+      { extractor: 'local', result: { vendor: 'Links d.o.o.', amount: 2747.5, invoiceNumber: 'R-2026-1042', confidence: 0.6 } },
+      { extractor: 'gemini', result: { vendor: 'Links', amount: 2747.5, equipment: [{ name: 'Laptop' }], confidence: 0.9 } },
+    ]);
+
+    expect(merged).toMatchObject({
+      vendor: 'Links',
+      amount: 2747.5,
+      invoiceNumber: 'R-2026-1042',
+      equipment: [{ name: 'Laptop' }],
+      confidence: 0.9,
+    });
+    expect(merged.extractionDetails?.fieldSources).toMatchObject({
+      vendor: 'gemini',
+      invoiceNumber: 'local',
+      equipment: 'gemini',
+    });
+    expect(merged.extractionDetails?.conflicts).toEqual(['vendor']);
+  });
+});
+
+describe('extractInvoice', () => {
+  it('keeps working with the local extractor when Gemini has no key', async () => {
+    const gemini = fakeExtractor('gemini', { vendor: 'Dell', confidence: 0.9 }, false);
+    const local = fakeExtractor('local', { vendor: 'Links d.o.o.', confidence: 0.6 });
+
+    const result = await extractInvoice(Buffer.from('%PDF-'), 'application/pdf', 'a.pdf', [gemini, local]);
+
+    expect(result.vendor).toBe('Links d.o.o.');
+    expect(gemini.extract).not.toHaveBeenCalled();
+  });
+
+  it('uses what succeeded when one extractor fails', async () => {
+    const result = await extractInvoice(Buffer.from('%PDF-'), 'application/pdf', 'a.pdf', [
+      fakeExtractor('gemini', new Error('quota exceeded')),
+      fakeExtractor('local', { vendor: 'Links d.o.o.', confidence: 0.6 }),
+    ]);
+
+    expect(result.vendor).toBe('Links d.o.o.');
+  });
+
+  it('fails with every reason when all extractors fail, so the job retries', async () => {
+    await expect(
+      extractInvoice(Buffer.from('%PDF-'), 'application/pdf', 'a.pdf', [
+        fakeExtractor('gemini', new Error('quota exceeded')),
+        fakeExtractor('local', new Error('No text found')),
+      ])
+    ).rejects.toThrow('gemini: quota exceeded; local: No text found');
+  });
+});
+
+describe('resolveExtractorNames', () => {
+  it('runs both extractors unless configured', () => {
+    expect(resolveExtractorNames({})).toEqual(['gemini', 'local']);
+    expect(resolveExtractorNames({ INVOICE_EXTRACTORS: 'local' })).toEqual(['local']);
+    expect(() => resolveExtractorNames({ INVOICE_EXTRACTORS: 'local,textract' })).toThrow(/textract/);
+  });
+});
@@ -0,0 +1,89 @@
+// ABOUTME: Unit tests for notification preferences
+// ABOUTME: Tests default channels, email recipient filtering and the global email switch
+
+import {
+  NotificationPreferenceService,
+  getNotificationEvent,
+} from '../notification-preferences';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    notificationPreference: {
+      findMany: jest.fn(),
+    },
+    systemSetting: {
+      findUnique: jest.fn(),
+    },
+    user: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  notificationPreference: { findMany: jest.Mock };
+  systemSetting: { findUnique: jest.Mock };
+  user: { findMany: jest.Mock };
+};
+
+describe('getNotificationEvent', () => {
+  it('should group team lead and admin approval notices under new requests', () => {
+    expect(getNotificationEvent('request_created')).toBe('new_request');
+    expect(getNotificationEvent('approval_needed')).toBe('new_request');
+    expect(getNotificationEvent('transfer_requested')).toBeUndefined();
+  });
+});
+
+describe('NotificationPreferenceService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.systemSetting.findUnique.mockResolvedValue(null);
+    mockPrisma.notificationPreference.findMany.mockResolvedValue([]);
+  });
+
+  it('should default every event to email and apply stored choices', async () => {
+    mockPrisma.notificationPreference.findMany.mockResolvedValue([
+      { eventType: 'new_request', channel: 'digest' },
+      { eventType: 'retired_event', channel: 'none' },
+    ]);
+
+    const preferences = await NotificationPreferenceService.getPreferences('lead_1');
+
+    expect(preferences.new_request).toBe('digest');
+    expect(preferences.request_approved).toBe('email');
+    expect(Object.keys(preferences)).toHaveLength(7);
+  });
+
+  it('should drop addresses of users who do not want the event by email', async () => {
+    mockPrisma.user.findMany.mockResolvedValue([
+      { id: 'lead_1', email: 'lead1@profico.com' },
+      { id: 'lead_2', email: 'lead2@profico.com' },
+    ]);
+    mockPrisma.notificationPreference.findMany.mockResolvedValue([
+      { userId: 'lead_1', channel: 'digest' },
+    ]);
+
+    const recipients = await NotificationPreferenceService.filterEmailRecipients(
+      ['lead1@profico.com', 'lead2@profico.com', 'external@example.com'],
+      'new_request'
+    );
+
+    expect(recipients).toEqual(['lead2@profico.com', 'external@example.com']);
+  });
+
+  it('should send no email when an admin has turned email off', async () => {
+    mockPrisma.systemSetting.findUnique.mockResolvedValue({
+      key: 'enableEmailNotifications',
+      value: 'false',
+    });
+
+    const recipients = await NotificationPreferenceService.filterEmailRecipients(
+      ['lead1@profico.com'],
+      'new_request'
+    );
+
+    expect(recipients).toEqual([]);
+    expect(mockPrisma.user.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,322 @@
+// ABOUTME: Unit tests for the in-app notification service
+// ABOUTME: Tests serialization, priority mapping, dedupe and maintenance and renewal reminders
+
+import {
+  NotificationService,
+  serializeNotification,
+  toNotificationPriority,
+} from '../notifications';
+import { EmailNotificationService } from '../email';
+import { prisma } from '../prisma';
+
+jest.mock('../email', () => ({
+  EmailNotificationService: {
+    notifyMaintenanceDue: jest.fn(),
+    notifyRenewalDue: jest.fn(),
+  },
+}));
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    notification: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    notificationPreference: {
+      findMany: jest.fn(),
+    },
+    equipment: {
+      findMany: jest.fn(),
+    },
+    subscription: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  notification: { findMany: jest.Mock; createMany: jest.Mock };
+  notificationPreference: { findMany: jest.Mock };
+  equipment: { findMany: jest.Mock };
+  subscription: { findMany: jest.Mock };
+};
+
+describe('toNotificationPriority', () => {
+  it('should fold urgent requests into high priority', () => {
+    expect(toNotificationPriority('urgent')).toBe('high');
+    expect(toNotificationPriority('low')).toBe('low');
+    expect(toNotificationPriority(undefined)).toBe('medium');
+  });
+});
+
+describe('serializeNotification', () => {
+  it('should map stored records to the notification center shape', () => {
+    const createdAt = new Date('2026-10-01T10:00:00Z');
+
+    expect(
+      serializeNotification({
+        id: 'ntf_1',
+        type: 'request_approved',
+        title: 'Equipment Request Approved',
+        message: 'Your request for MacBook Pro has been approved.',
+        priority: 'medium',
+        relatedId: 'req_1',
+        relatedType: 'request',
+        actionUrl: '/requests/req_1',
+        metadata: '{"approvedBy":"Ana Admin"}',
+        read: false,
+        createdAt,
+      })
+    ).toEqual({
+      id: 'ntf_1',
+      type: 'request_approved',
+      title: 'Equipment Request Approved',
+      message: 'Your request for MacBook Pro has been approved.',
+      timestamp: createdAt,
+      read: false,
+      relatedId: 'req_1',
+      relatedType: 'request',
+      actionUrl: '/requests/req_1',
+      priority: 'medium',
+      metadata: { approvedBy: 'Ana Admin' },
+    });
+  });
+
+  it('should ignore malformed metadata', () => {
+    const serialized = serializeNotification({
+      id: 'ntf_2',
+      type: 'info',
+      title: 'Info',
+      message: 'Hello',
+      priority: 'low',
+      relatedId: null,
+      relatedType: null,
+      actionUrl: null,
+      metadata: '{not json',
+      read: true,
+      createdAt: new Date(),
+    });
+
+    expect(serialized.metadata).toBeUndefined();
+    expect(serialized.actionUrl).toBeUndefined();
+  });
+});
+
+describe('NotificationService.notifyUsers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.notification.createMany.mockImplementation(({ data }) =>
+      Promise.resolve({ count: data.length })
+    );
+    mockPrisma.notificationPreference.findMany.mockResolvedValue([]);
+  });
+
+  it('should create one notification per distinct user', async () => {
+    const count = await NotificationService.notifyUsers(['user_1', 'user_1', '', 'user_2'], {
+      type: 'info',
+      title: 'Hello',
+      message: 'World',
+    });
+
+    expect(count).toBe(2);
+    expect(mockPrisma.notification.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should skip users who already received a notification with the same dedupe key', async () => {
+    mockPrisma.notification.findMany.mockResolvedValue([{ userId: 'user_1' }]);
+
+    const count = await NotificationService.notifyUsers(['user_1', 'user_2'], {
+      type: 'maintenance_due',
+      title: 'Maintenance Due',
+      message: 'Due soon',
+      dedupeKey: 'maintenance_due:eq_1:2026-10-20',
+    });
+
+    expect(count).toBe(1);
+    expect(mockPrisma.notification.createMany.mock.calls[0][0].data).toEqual([
+      expect.objectContaining({ userId: 'user_2', dedupeKey: 'maintenance_due:eq_1:2026-10-20' }),
+    ]);
+  });
+
+  it('should skip users who turned the event off', async () => {
+    mockPrisma.notificationPreference.findMany.mockResolvedValue([
+      { userId: 'user_1', channel: 'none' },
+      { userId: 'user_2', channel: 'digest' },
+    ]);
+
+    const count = await NotificationService.notifyUsers(['user_1', 'user_2'], {
+      type: 'request_created',
+      title: 'New Equipment Request',
+      message: 'Ana requested a monitor',
+    });
+
+    expect(count).toBe(1);
+    expect(mockPrisma.notificationPreference.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: { in: ['user_1', 'user_2'] }, eventType: 'new_request' },
+      })
+    );
+    expect(mockPrisma.notification.createMany.mock.calls[0][0].data).toEqual([
+      expect.objectContaining({ userId: 'user_2' }),
+    ]);
+  });
+});
+
+describe('NotificationService.notifyApprovalNeeded', () => {
+  const request = {
+    id: 'req_1',
+    equipmentType: 'MacBook Pro',
+    justification: 'New hire',
+    priority: 'medium',
+    status: 'pending',
+    requester: { id: 'usr_1', name: 'Ivan User', email: 'ivan@profico.com', role: 'user' as const },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.notification.findMany.mockResolvedValue([]);
+    mockPrisma.notificationPreference.findMany.mockResolvedValue([]);
+    mockPrisma.notification.createMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('should not claim a new request passed an earlier stage', async () => {
+    await NotificationService.notifyApprovalNeeded(request, ['usr_2'], 'Finance', true);
+
+    const [notification] = mockPrisma.notification.createMany.mock.calls[0][0].data;
+    expect(notification.title).toBe('New Equipment Request');
+    expect(notification.message).toBe('Ivan User requested MacBook Pro. It needs Finance approval.');
+  });
+
+  it('should say a request moving on passed its previous stage', async () => {
+    await NotificationService.notifyApprovalNeeded(request, ['usr_2'], 'Finance');
+
+    const [notification] = mockPrisma.notification.createMany.mock.calls[0][0].data;
+    expect(notification.message).toContain('passed its previous approval stage');
+  });
+});
+
+describe('NotificationService.notifyMaintenanceDue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.notification.findMany.mockResolvedValue([]);
+    mockPrisma.notification.createMany.mockResolvedValue({ count: 1 });
+    mockPrisma.notificationPreference.findMany.mockResolvedValue([]);
+  });
+
+  it('should remind owners once per equipment and due date', async () => {
+    mockPrisma.equipment.findMany.mockResolvedValue([
+      {
+        id: 'eq_1',
+        name: 'Dell XPS 13',
+        serialNumber: 'DXS123456',
+        currentOwnerId: 'user_1',
+        currentOwner: { email: 'john.doe@profico.com' },
+        nextMaintenanceDate: new Date('2026-10-10T00:00:00Z'),
+      },
+    ]);
+
+    const created = await NotificationService.notifyMaintenanceDue({
+      now: new Date('2026-10-19T08:00:00Z'),
+    });
+
+    expect(created).toBe(1);
+    expect(mockPrisma.notification.createMany.mock.calls[0][0].data[0]).toMatchObject({
+      userId: 'user_1',
+      type: 'maintenance_due',
+      title: 'Maintenance Overdue',
+      priority: 'high',
+      dedupeKey: 'maintenance_due:eq_1:2026-10-10',
+    });
+    expect(EmailNotificationService.notifyMaintenanceDue).toHaveBeenCalledWith(
+      'john.doe@profico.com',
+      expect.objectContaining({ title: 'Maintenance Overdue', url: '/equipment/eq_1', urgent: true })
+    );
+  });
+
+  it('should not email again once the owner has been reminded', async () => {
+    mockPrisma.equipment.findMany.mockResolvedValue([
+      {
+        id: 'eq_1',
+        name: 'Dell XPS 13',
+        serialNumber: 'DXS123456',
+        currentOwnerId: 'user_1',
+        currentOwner: { email: 'john.doe@profico.com' },
+        nextMaintenanceDate: new Date('2026-10-10T00:00:00Z'),
+      },
+    ]);
+    mockPrisma.notification.findMany.mockResolvedValue([{ userId: 'user_1' }]);
+
+    const created = await NotificationService.notifyMaintenanceDue({
+      now: new Date('2026-10-19T08:00:00Z'),
+    });
+
+    expect(created).toBe(0);
+    expect(EmailNotificationService.notifyMaintenanceDue).not.toHaveBeenCalled();
+  });
+});
+
+describe('NotificationService.notifyRenewalsDue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.notification.findMany.mockResolvedValue([]);
+    mockPrisma.notification.createMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('should remind assignees once per subscription and renewal date', async () => {
+    mockPrisma.notificationPreference.findMany.mockResolvedValue([]);
+    mockPrisma.subscription.findMany.mockResolvedValue([
+      {
+        id: 'sub_1',
+        softwareName: 'Figma',
+        assignedUserId: 'user_1',
+        assignedUser: { email: 'john.doe@profico.com' },
+        price: 540,
+        billingFrequency: 'yearly',
+        renewalDate: new Date('2026-10-25T00:00:00Z'),
+      },
+    ]);
+
+    const created = await NotificationService.notifyRenewalsDue({
+      now: new Date('2026-10-19T08:00:00Z'),
+    });
+
+    expect(created).toBe(1);
+    expect(mockPrisma.notification.createMany.mock.calls[0][0].data[0]).toMatchObject({
+      userId: 'user_1',
+      type: 'renewal_due',
+      relatedType: 'subscription',
+      dedupeKey: 'renewal_due:sub_1:2026-10-25',
+    });
+    expect(EmailNotificationService.notifyRenewalDue).toHaveBeenCalledWith(
+      'john.doe@profico.com',
+      expect.objectContaining({ url: '/subscriptions/sub_1' })
+    );
+  });
+
+  it('should skip assignees who turned renewal reminders off', async () => {
+    mockPrisma.notificationPreference.findMany.mockResolvedValue([
+      { userId: 'user_1', eventType: 'renewal_due', channel: 'none' },
+    ]);
+    mockPrisma.subscription.findMany.mockResolvedValue([
+      {
+        id: 'sub_1',
+        softwareName: 'Figma',
+        assignedUserId: 'user_1',
+        assignedUser: { email: 'john.doe@profico.com' },
+        price: 540,
+        billingFrequency: 'yearly',
+        renewalDate: new Date('2026-10-25T00:00:00Z'),
+      },
+    ]);
+
+    const created = await NotificationService.notifyRenewalsDue({
+      now: new Date('2026-10-19T08:00:00Z'),
+    });
+
+    expect(created).toBe(0);
+    expect(mockPrisma.notification.createMany).not.toHaveBeenCalled();
+    expect(EmailNotificationService.notifyRenewalDue).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,307 @@
+// ABOUTME: Unit tests for the OCR job queue
+// ABOUTME: Tests queueing uploads, retries with backoff, giving up, worker claims and retrying failed files
+
+import {
+  OcrJobService,
+  MAX_OCR_ATTEMPTS,
+  getOcrRetryDelay,
+  summarizeJob,
+} from '../ocr-jobs';
+import { InvoiceDocumentService } from '../invoice-documents';
+import { FileUploadError } from '../file-uploads';
+import { pdfProcessingService } from '../pdf-processing';
+import { setStorage, type StorageDriver } from '../storage';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    ocrJob: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    ocrJobFile: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+    invoiceDocument: {
+      findUnique: jest.fn(),
+    },
+    activityLog: {
+      create: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../invoice-documents', () => ({
+  InvoiceDocumentService: { store: jest.fn(), remove: jest.fn() },
+}));
+
+jest.mock('../pdf-processing', () => ({
+  pdfProcessingService: { extract: jest.fn() },
+}));
+
+const mockPrisma = prisma as unknown as {
+  ocrJob: Record<'create' | 'findUnique' | 'update' | 'updateMany', jest.Mock>;
+  ocrJobFile: Record<'findMany' | 'update' | 'updateMany' | 'count', jest.Mock>;
+  invoiceDocument: { findUnique: jest.Mock };
+  activityLog: { create: jest.Mock };
+};
+const mockStore = InvoiceDocumentService.store as jest.Mock;
+const mockRemove = InvoiceDocumentService.remove as jest.Mock;
+const mockExtract = pdfProcessingService.extract as jest.Mock;
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const queuedFile = {
+  id: 'file-1',
+  jobId: 'job-1',
+  documentId: 'doc-1',
+  position: 0,
+  status: 'processing',
+  attempts: 0,
+  lastError: null,
+  nextAttemptAt: now,
+  startedAt: now,
+  result: null,
+  rawResult: null,
+  processingTime: null,
+  completedAt: null,
+  createdAt: now,
+  updatedAt: now,
+};
+
+const ocrResult = { vendor: 'Dell', amount: 1200, confidence: 0.9, equipment: [] };
+
+describe('OcrJobService', () => {
+  const files = new Map<string, Buffer>();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation();
+    files.clear();
+    files.set('invoices/2026/10/a.pdf', Buffer.from('%PDF-1.7'));
+    setStorage({
+      put: jest.fn(),
+      get: jest.fn(async (key: string) => {
+        const body = files.get(key);
+        return body ? { body, size: body.length } : null;
+      }),
+      delete: jest.fn(),
+      signedUrl: jest.fn(),
+    } as StorageDriver);
+
+    mockPrisma.invoiceDocument.findUnique.mockResolvedValue({
+      id: 'doc-1',
+      storageKey: 'invoices/2026/10/a.pdf',
+      fileName: 'a.pdf',
+      contentType: 'application/pdf',
+    });
+    mockPrisma.ocrJobFile.update.mockImplementation(({ data }) => Promise.resolve({ ...queuedFile, ...data }));
+    mockPrisma.ocrJobFile.count.mockResolvedValue(1);
+    mockPrisma.ocrJob.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterAll(() => {
+    setStorage(null);
+  });
+
+  it('stores each original and queues the files in upload order', async () => {
+    mockStore.mockImplementation(({ fileName }) => Promise.resolve({ id: `doc-${fileName}` }));
+    mockPrisma.ocrJob.create.mockResolvedValue({ id: 'job-1' });
+
+    await OcrJobService.create(
+      [
+        { body: Buffer.from('%PDF-'), fileName: 'a.pdf' },
+        { body: Buffer.from('%PDF-'), fileName: 'b.pdf' },
+      ],
+      'user-1',
+      now
+    );
+
+    expect(mockPrisma.ocrJob.create.mock.calls[0][0].data).toEqual({
+      createdById: 'user-1',
+      files: {
+        create: [
+          { documentId: 'doc-a.pdf', position: 0, nextAttemptAt: now },
+          { documentId: 'doc-b.pdf', position: 1, nextAttemptAt: now },
+        ],
+      },
+    });
+  });
+
+  it('queues nothing when one file of the batch is rejected, and says which', async () => {
+    mockStore
+      .mockResolvedValueOnce({ id: 'doc-1' })
+      .mockRejectedValueOnce(new FileUploadError('File type is not supported'));
+    mockRemove.mockResolvedValue(undefined);
+
+    await expect(
+      OcrJobService.create(
+        [
+          { body: Buffer.from('%PDF-'), fileName: 'a.pdf' },
+          { body: Buffer.from('<html>'), fileName: 'b.pdf' },
+        ],
+        'user-1'
+      )
+    ).rejects.toThrow('b.pdf: File type is not supported');
+
+    expect(mockRemove).toHaveBeenCalledWith('doc-1');
+    expect(mockPrisma.ocrJob.create).not.toHaveBeenCalled();
+  });
+
+  it('records the extracted data and logs the job once its last file is done', async () => {
+    mockExtract.mockResolvedValue({ data: ocrResult, raw: ocrResult });
+    mockPrisma.ocrJobFile.count.mockResolvedValue(0);
+    mockPrisma.ocrJob.findUnique.mockResolvedValue({
+      id: 'job-1',
+      createdById: 'user-1',
+      files: [{ status: 'completed', processingTime: 900 }],
+    });
+
+    const file = await OcrJobService.attempt(queuedFile, now);
+
+    expect(mockExtract).toHaveBeenCalledWith(Buffer.from('%PDF-1.7'), 'a.pdf', 'application/pdf');
+    expect(file).toMatchObject({ status: 'completed', attempts: 1, result: JSON.stringify(ocrResult), rawResult: null });
+    expect(mockPrisma.ocrJob.updateMany).toHaveBeenCalledWith({
+      where: { id: 'job-1', completedAt: null },
+      data: { completedAt: now },
+    });
+    expect(JSON.parse(mockPrisma.activityLog.create.mock.calls[0][0].data.details)).toMatchObject({
+      jobId: 'job-1',
+      filesProcessed: 1,
+      successful: 1,
+      failed: 0,
+    });
+  });
+
+  it('keeps what the extractors read when vendor corrections changed it', async () => {
+    const raw = { ...ocrResult, currency: 'USD' };
+    mockExtract.mockResolvedValue({ data: { ...ocrResult, currency: 'EUR' }, raw });
+
+    const file = await OcrJobService.attempt(queuedFile, now);
+
+    expect(JSON.parse(file.result!).currency).toBe('EUR');
+    expect(file.rawResult).toBe(JSON.stringify(raw));
+  });
+
+  it('queues a failed extraction for retry with backoff', async () => {
+    mockExtract.mockRejectedValue(new Error('Model timed out'));
+
+    const file = await OcrJobService.attempt(queuedFile, now);
+
+    expect(file).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastError: 'Model timed out',
+      nextAttemptAt: new Date(now.getTime() + getOcrRetryDelay(1)),
+    });
+    expect(mockPrisma.ocrJob.updateMany).not.toHaveBeenCalled();
+    expect(mockPrisma.activityLog.create).not.toHaveBeenCalled();
+  });
+
+  it('gives up after the last attempt', async () => {
+    mockExtract.mockRejectedValue(new Error('Model timed out'));
+
+    const file = await OcrJobService.attempt({ ...queuedFile, attempts: MAX_OCR_ATTEMPTS - 1 }, now);
+
+    expect(file).toMatchObject({ status: 'failed', attempts: MAX_OCR_ATTEMPTS, nextAttemptAt: null });
+  });
+
+  it('fails straight away when the original is gone from storage', async () => {
+    files.clear();
+
+    const file = await OcrJobService.attempt(queuedFile, now);
+
+    expect(file.status).toBe('failed');
+    expect(file.lastError).toMatch(/no longer in storage/);
+    expect(mockExtract).not.toHaveBeenCalled();
+  });
+
+  it('skips files another worker has already claimed', async () => {
+    mockPrisma.ocrJobFile.findMany.mockResolvedValue([
+      { ...queuedFile, id: 'file-1', status: 'pending' },
+      { ...queuedFile, id: 'file-2', status: 'pending' },
+    ]);
+    mockPrisma.ocrJobFile.updateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 });
+    mockExtract.mockResolvedValue({ data: ocrResult, raw: ocrResult });
+
+    const result = await OcrJobService.processDue({ jobId: 'job-1', now });
+
+    expect(result).toEqual({ completed: 1, retrying: 0, failed: 0 });
+    expect(mockPrisma.ocrJobFile.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'file-2' } }));
+  });
+
+  it('stamps claims and outcomes with the time they happen, not the time the batch started', async () => {
+    const batchStart = new Date(Date.now() - 60 * 60 * 1000);
+    mockPrisma.ocrJobFile.findMany.mockResolvedValue([{ ...queuedFile, status: 'pending' }]);
+    mockPrisma.ocrJobFile.updateMany.mockResolvedValue({ count: 1 });
+    mockExtract.mockRejectedValue(new Error('Model timed out'));
+
+    await OcrJobService.processDue({ jobId: 'job-1', now: batchStart });
+
+    const claim = mockPrisma.ocrJobFile.updateMany.mock.calls[0][0];
+    expect(claim.where.OR[0]).toEqual({ status: 'pending', nextAttemptAt: { lte: batchStart } });
+    expect(claim.data.startedAt.getTime()).toBeGreaterThan(batchStart.getTime() + 30 * 60 * 1000);
+    const retry = mockPrisma.ocrJobFile.update.mock.calls[0][0];
+    expect(retry.data.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('gives retried files one more attempt and reopens the job', async () => {
+    mockPrisma.ocrJobFile.updateMany.mockResolvedValue({ count: 1 });
+
+    const retried = await OcrJobService.retry('job-1', ['file-1'], now);
+
+    expect(retried).toBe(1);
+    expect(mockPrisma.ocrJobFile.updateMany).toHaveBeenCalledWith({
+      where: { jobId: 'job-1', status: 'failed', id: { in: ['file-1'] } },
+      data: { status: 'pending', attempts: MAX_OCR_ATTEMPTS - 1, nextAttemptAt: now },
+    });
+    expect(mockPrisma.ocrJob.update).toHaveBeenCalledWith({ where: { id: 'job-1' }, data: { completedAt: null } });
+  });
+});
+
+describe('summarizeJob', () => {
+  const document = { id: 'doc-1', fileName: 'a.pdf', contentType: 'application/pdf', size: 10 };
+  const job = {
+    id: 'job-1',
+    createdById: 'user-1',
+    completedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  it('reports a job as queued until a file has been tried', () => {
+    const summary = summarizeJob({ ...job, files: [{ ...queuedFile, status: 'pending', document }] });
+
+    expect(summary.status).toBe('queued');
+    expect(summary.progress).toEqual({ total: 1, completed: 0, failed: 0, remaining: 1 });
+  });
+
+  it('returns each file in the shape of a processing result', () => {
+    const summary = summarizeJob({
+      ...job,
+      completedAt: now,
+      files: [
+        { ...queuedFile, status: 'completed', attempts: 1, result: JSON.stringify(ocrResult), processingTime: 900, document },
+        { ...queuedFile, id: 'file-2', status: 'failed', attempts: 3, lastError: 'Model timed out', document },
+      ],
+    });
+
+    expect(summary.status).toBe('completed');
+    expect(summary.files[0]).toMatchObject({ filename: 'a.pdf', success: true, data: ocrResult, processingTime: 900, document });
+    expect(summary.files[1]).toMatchObject({ success: false, error: 'Model timed out', attempts: 3 });
+    expect(summary.progress).toEqual({ total: 2, completed: 1, failed: 1, remaining: 0 });
+  });
+});
+
+describe('getOcrRetryDelay', () => {
+  it('doubles the wait after each attempt up to ten minutes', () => {
+    expect(getOcrRetryDelay(1)).toBe(30 * 1000);
+    expect(getOcrRetryDelay(2)).toBe(60 * 1000);
+    expect(getOcrRetryDelay(10)).toBe(10 * 60 * 1000);
+  });
+});
@@ -0,0 +1,189 @@
+// ABOUTME: Unit tests for employee offboarding
+// ABOUTME: Tests resolving a leaving user's items and that sign-off waits until nothing is left
+
+import { OffboardingService, OffboardingError } from '../offboarding';
+import { HandoverChecklistService } from '../handover-checklists';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+    },
+    equipment: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    subscription: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    equipmentRequest: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    equipmentTransferRequest: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    equipmentHistory: {
+      create: jest.fn(),
+    },
+    requestHistory: {
+      create: jest.fn(),
+    },
+    offboarding: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    offboardingAction: {
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../handover-checklists', () => ({
+  HandoverChecklistService: {
+    start: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; findMany: jest.Mock; count: jest.Mock; update: jest.Mock };
+  equipment: { findMany: jest.Mock; update: jest.Mock };
+  subscription: { findMany: jest.Mock; update: jest.Mock };
+  equipmentRequest: { findMany: jest.Mock; update: jest.Mock };
+  equipmentTransferRequest: { findMany: jest.Mock; update: jest.Mock };
+  equipmentHistory: { create: jest.Mock };
+  requestHistory: { create: jest.Mock };
+  offboarding: { findFirst: jest.Mock; create: jest.Mock; update: jest.Mock };
+  offboardingAction: { create: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+const mockStartChecklist = HandoverChecklistService.start as jest.Mock;
+
+const laptop = { id: 'eq-1', name: 'Laptop', serialNumber: 'SN-1', category: 'laptop', status: 'assigned' };
+const figma = { id: 'sub-1', softwareName: 'Figma', vendor: null, price: 15, billingFrequency: 'monthly', renewalDate: new Date() };
+
+describe('OffboardingService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+    mockPrisma.offboarding.findFirst.mockResolvedValue({ id: 'off-1' });
+    mockPrisma.equipment.findMany.mockResolvedValue([laptop]);
+    mockPrisma.subscription.findMany.mockResolvedValue([figma]);
+    mockPrisma.equipmentRequest.findMany.mockResolvedValue([]);
+    mockPrisma.equipmentTransferRequest.findMany.mockResolvedValue([]);
+    mockPrisma.user.findMany.mockResolvedValue([{ id: 'user-2', name: 'Ana', email: 'ana@example.com' }]);
+    mockPrisma.equipmentHistory.create.mockResolvedValue({ id: 'hist-1' });
+    mockStartChecklist.mockResolvedValue(null);
+  });
+
+  describe('resolve', () => {
+    it('returns equipment to stock, holding it pending while its return checklist is open', async () => {
+      mockStartChecklist.mockResolvedValue({ id: 'cl-1', completedAt: null });
+
+      await OffboardingService.resolve(
+        'user-1',
+        [{ type: 'equipment', action: 'return', id: 'eq-1', condition: 'good' }],
+        'admin-1'
+      );
+
+      expect(mockPrisma.equipmentHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ equipmentId: 'eq-1', fromUserId: 'user-1', action: 'returned' }),
+      });
+      expect(mockPrisma.equipment.update).toHaveBeenCalledWith({
+        where: { id: 'eq-1' },
+        data: { currentOwnerId: null, status: 'pending', condition: 'good' },
+      });
+      expect(mockPrisma.offboardingAction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          offboardingId: 'off-1',
+          itemType: 'equipment',
+          itemName: 'Laptop',
+          action: 'returned',
+          performedById: 'admin-1',
+        }),
+      });
+    });
+
+    it('transfers subscriptions to another active user', async () => {
+      await OffboardingService.resolve(
+        'user-1',
+        [{ type: 'subscription', action: 'transfer', id: 'sub-1', toUserId: 'user-2' }],
+        'admin-1'
+      );
+
+      expect(mockPrisma.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { assignedUserId: 'user-2', assignedUserEmail: 'ana@example.com' },
+      });
+      expect(mockPrisma.offboardingAction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ itemName: 'Figma', action: 'transferred', toUserId: 'user-2' }),
+      });
+    });
+
+    it('refuses items the user does not hold and inactive recipients', async () => {
+      await expect(
+        OffboardingService.resolve('user-1', [{ type: 'request', action: 'cancel', id: 'req-9' }], 'admin-1')
+      ).rejects.toThrow(OffboardingError);
+
+      mockPrisma.user.findMany.mockResolvedValue([]);
+      await expect(
+        OffboardingService.resolve(
+          'user-1',
+          [{ type: 'equipment', action: 'reassign', id: 'eq-1', toUserId: 'user-3' }],
+          'admin-1'
+        )
+      ).rejects.toThrow('Items can only be handed to active users');
+
+      expect(mockPrisma.equipment.update).not.toHaveBeenCalled();
+    });
+
+    it('needs an offboarding in progress', async () => {
+      mockPrisma.offboarding.findFirst.mockResolvedValue(null);
+
+      await expect(
+        OffboardingService.resolve('user-1', [{ type: 'subscription', action: 'cancel', id: 'sub-1' }], 'admin-1')
+      ).rejects.toThrow('Start offboarding for this user first');
+    });
+  });
+
+  describe('complete', () => {
+    it('blocks sign-off while the user still holds items', async () => {
+      await expect(OffboardingService.complete('user-1', 'admin-1')).rejects.toThrow(
+        'Resolve the remaining 2 items before signing off'
+      );
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('signs off and deactivates the user once everything is resolved', async () => {
+      mockPrisma.equipment.findMany.mockResolvedValue([]);
+      mockPrisma.subscription.findMany.mockResolvedValue([]);
+      mockPrisma.user.findUnique.mockResolvedValue({ role: 'user' });
+
+      await OffboardingService.complete('user-1', 'admin-1', 'Badge collected');
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { isActive: false },
+      });
+      expect(mockPrisma.offboarding.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'off-1' },
+          data: expect.objectContaining({
+            status: 'completed',
+            signedOffById: 'admin-1',
+            signOffNotes: 'Badge collected',
+          }),
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,99 @@
+// ABOUTME: Unit tests for onboarding kits
+// ABOUTME: Tests kit matching by team and role and spawning a pre-approved request with a line per kit item
+
+import { OnboardingKitService, OnboardingKitError } from '../onboarding-kits';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    onboardingKit: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    equipmentRequest: {
+      create: jest.fn(),
+    },
+    requestHistory: {
+      create: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  onboardingKit: { findUnique: jest.Mock; findMany: jest.Mock };
+  equipmentRequest: { create: jest.Mock };
+  requestHistory: { create: jest.Mock };
+};
+
+const developerKit = {
+  id: 'kit-1',
+  name: 'Developer kit',
+  isActive: true,
+  items: [
+    { kind: 'equipment', name: 'Laptop', quantity: 1, budget: 1500, position: 0 },
+    { kind: 'equipment', name: 'Monitor', quantity: 2, budget: 250, position: 1 },
+    { kind: 'subscription', name: 'GitHub', quantity: 1, budget: null, position: 2 },
+  ],
+};
+
+describe('OnboardingKitService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.equipmentRequest.create.mockImplementation(({ data }) => Promise.resolve({ id: 'req-1', ...data }));
+  });
+
+  describe('spawnRequest', () => {
+    it('creates an approved request with one line per kit item and the summed budget', async () => {
+      mockPrisma.onboardingKit.findUnique.mockResolvedValue(developerKit);
+
+      await OnboardingKitService.spawnRequest(prisma as never, 'kit-1', 'user-1', 'admin-1');
+
+      const { data } = mockPrisma.equipmentRequest.create.mock.calls[0][0];
+      expect(data).toEqual(expect.objectContaining({
+        requesterId: 'user-1',
+        status: 'approved',
+        adminApproval: true,
+        approverId: 'admin-1',
+        budget: 2000,
+        kitId: 'kit-1',
+      }));
+      expect(data.items.create).toEqual([
+        expect.objectContaining({ kind: 'equipment', name: 'Laptop', quantity: 1, budget: 1500, position: 0 }),
+        expect.objectContaining({ kind: 'equipment', name: 'Monitor', quantity: 2, budget: 250, position: 1 }),
+        expect.objectContaining({ kind: 'subscription', name: 'GitHub', quantity: 1, budget: null, position: 2 }),
+      ]);
+      expect(mockPrisma.requestHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          requestId: 'req-1',
+          action: 'created',
+          newStatus: 'approved',
+          notes: 'Onboarding kit "Developer kit" requested with 3 line items',
+        }),
+      });
+    });
+
+    it('refuses kits that are no longer active', async () => {
+      mockPrisma.onboardingKit.findUnique.mockResolvedValue({ ...developerKit, isActive: false });
+
+      await expect(
+        OnboardingKitService.spawnRequest(prisma as never, 'kit-1', 'user-1', 'admin-1')
+      ).rejects.toThrow(OnboardingKitError);
+      expect(mockPrisma.equipmentRequest.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('matching', () => {
+    it('lists the most specific kits first', async () => {
+      mockPrisma.onboardingKit.findMany.mockResolvedValue([
+        { id: 'any', teamId: null, role: null },
+        { id: 'role', teamId: null, role: 'user' },
+        { id: 'team-role', teamId: 'team-1', role: 'user' },
+        { id: 'team', teamId: 'team-1', role: null },
+      ]);
+
+      const kits = await OnboardingKitService.matching('team-1', 'user');
+
+      expect(kits.map((kit) => kit.id)).toEqual(['team-role', 'team', 'role', 'any']);
+    });
+  });
+});
@@ -0,0 +1,314 @@
+// ABOUTME: Unit tests for purchase orders
+// ABOUTME: Tests ordering for approved requests, receiving goods into equipment and cancelling untouched orders
+
+import { PurchaseOrderService, PurchaseOrderError, receiptStatus } from '../purchase-orders';
+import { RequestHistoryService } from '../request-history';
+import { DepreciationService } from '../depreciation';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    purchaseOrder: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    purchaseOrderLine: {
+      update: jest.fn(),
+    },
+    equipmentRequest: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    equipment: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    equipmentHistory: {
+      create: jest.fn(),
+    },
+    invoice: {
+      findUnique: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../request-history', () => ({
+  RequestHistoryService: {
+    createHistoryEntry: jest.fn(),
+  },
+}));
+
+jest.mock('../depreciation', () => ({
+  DepreciationService: {
+    refreshCurrentValues: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  purchaseOrder: { findUnique: jest.Mock; create: jest.Mock; update: jest.Mock };
+  purchaseOrderLine: { update: jest.Mock };
+  equipmentRequest: { findMany: jest.Mock; update: jest.Mock };
+  equipment: { findMany: jest.Mock; create: jest.Mock; updateMany: jest.Mock };
+  equipmentHistory: { create: jest.Mock };
+  invoice: { findUnique: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+const mockCreateHistory = RequestHistoryService.createHistoryEntry as jest.Mock;
+
+const order = {
+  poNumber: 'PO-2026-001',
+  vendor: 'Laptop Shop',
+  purchaseMethod: 'off_the_shelf',
+  lines: [
+    { requestId: 'request-1', description: 'MacBook Pro 14', category: 'computers', quantity: 2, unitPrice: 2200 },
+  ],
+};
+
+const placedOrder = (overrides: Record<string, unknown> = {}) => ({
+  id: 'po-1',
+  poNumber: 'PO-2026-001',
+  status: 'ordered',
+  purchaseMethod: 'off_the_shelf',
+  invoiceId: null,
+  lines: [
+    {
+      id: 'line-1',
+      requestId: 'request-1',
+      description: 'MacBook Pro 14',
+      category: 'computers',
+      quantity: 2,
+      unitPrice: 2200,
+      receivedQuantity: 0,
+    },
+  ],
+  ...overrides,
+});
+
+describe('receiptStatus', () => {
+  it('follows the units received across the lines', () => {
+    expect(receiptStatus([{ quantity: 2, receivedQuantity: 0 }])).toBe('ordered');
+    expect(receiptStatus([{ quantity: 2, receivedQuantity: 1 }, { quantity: 1, receivedQuantity: 1 }])).toBe('partially_received');
+    expect(receiptStatus([{ quantity: 2, receivedQuantity: 2 }])).toBe('received');
+  });
+});
+
+describe('PurchaseOrderService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) =>
+      typeof fn === 'function' ? fn(prisma) : Promise.all(fn)
+    );
+    mockPrisma.purchaseOrder.create.mockResolvedValue({ id: 'po-1' });
+    mockPrisma.equipment.findMany.mockResolvedValue([]);
+  });
+
+  describe('create', () => {
+    it('places the order and moves approved requests to ordered', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValue(null);
+      mockPrisma.equipmentRequest.findMany.mockResolvedValue([{ id: 'request-1', status: 'approved', items: [] }]);
+
+      await PurchaseOrderService.create(order, 'admin-1');
+
+      expect(mockPrisma.purchaseOrder.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            poNumber: 'PO-2026-001',
+            vendor: 'Laptop Shop',
+            createdById: 'admin-1',
+            lines: {
+              create: [
+                {
+                  requestId: 'request-1',
+                  requestItemId: null,
+                  description: 'MacBook Pro 14',
+                  category: 'computers',
+                  quantity: 2,
+                  unitPrice: 2200,
+                  position: 0,
+                },
+              ],
+            },
+          }),
+        })
+      );
+      expect(mockPrisma.equipmentRequest.update).toHaveBeenCalledWith({
+        where: { id: 'request-1' },
+        data: { status: 'ordered' },
+      });
+      expect(mockCreateHistory).toHaveBeenCalledWith(
+        expect.objectContaining({
+          requestId: 'request-1',
+          action: 'ordered',
+          oldStatus: 'approved',
+          newStatus: 'ordered',
+          notes: 'Ordered from Laptop Shop on purchase order PO-2026-001',
+        }),
+        prisma
+      );
+    });
+
+    it('refuses requests that are not approved yet', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValue(null);
+      mockPrisma.equipmentRequest.findMany.mockResolvedValue([{ id: 'request-1', status: 'pending', items: [] }]);
+
+      await expect(PurchaseOrderService.create(order, 'admin-1')).rejects.toThrow(
+        'Cannot order for a request with status: pending'
+      );
+      expect(mockPrisma.purchaseOrder.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses a PO number that is already used', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValue({ id: 'po-0' });
+
+      await expect(PurchaseOrderService.create(order, 'admin-1')).rejects.toThrow(PurchaseOrderError);
+    });
+  });
+
+  describe('receive', () => {
+    it('creates equipment linked to the request and invoice for each serial number', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValue(placedOrder({ invoiceId: 'invoice-1' }));
+      mockPrisma.equipment.create
+        .mockResolvedValueOnce({ id: 'eq-1', name: 'MacBook Pro 14', serialNumber: 'SN-1' })
+        .mockResolvedValueOnce({ id: 'eq-2', name: 'MacBook Pro 14', serialNumber: 'SN-2' });
+
+      const result = await PurchaseOrderService.receive(
+        'po-1',
+        { lines: [{ lineId: 'line-1', serialNumbers: ['SN-1', 'SN-2'] }], status: 'available' },
+        'admin-1'
+      );
+
+      expect(result?.equipment).toHaveLength(2);
+      expect(mockPrisma.equipment.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            serialNumber: 'SN-1',
+            name: 'MacBook Pro 14',
+            category: 'computers',
+            purchasePrice: 2200,
+            status: 'available',
+            invoiceId: 'invoice-1',
+            originRequestId: 'request-1',
+            purchaseOrderLineId: 'line-1',
+            createdBy: 'admin-1',
+          }),
+        })
+      );
+      expect(mockPrisma.purchaseOrderLine.update).toHaveBeenCalledWith({
+        where: { id: 'line-1' },
+        data: { receivedQuantity: 2 },
+      });
+      expect(mockPrisma.purchaseOrder.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { status: 'received', receivedAt: expect.any(Date) } })
+      );
+      expect(mockCreateHistory).toHaveBeenCalledWith(
+        expect.objectContaining({ requestId: 'request-1', action: 'goods_received' }),
+        prisma
+      );
+      expect(DepreciationService.refreshCurrentValues).toHaveBeenCalledWith({ invoiceId: 'invoice-1' });
+    });
+
+    it('leaves the order partially received until every unit arrives', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValue(placedOrder());
+      mockPrisma.equipment.create.mockResolvedValue({ id: 'eq-1', name: 'MacBook Pro 14', serialNumber: 'SN-1' });
+
+      await PurchaseOrderService.receive(
+        'po-1',
+        { lines: [{ lineId: 'line-1', serialNumbers: ['SN-1'] }], status: 'pending' },
+        'admin-1'
+      );
+
+      expect(mockPrisma.purchaseOrder.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { status: 'partially_received' } })
+      );
+    });
+
+    it('refuses more units than were ordered', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValue(placedOrder());
+
+      await expect(
+        PurchaseOrderService.receive(
+          'po-1',
+          { lines: [{ lineId: 'line-1', serialNumbers: ['SN-1', 'SN-2', 'SN-3'] }], status: 'available' },
+          'admin-1'
+        )
+      ).rejects.toThrow('Only 2 more of MacBook Pro 14 were ordered');
+      expect(mockPrisma.equipment.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses serial numbers that are already in the inventory', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValue(placedOrder());
+      mockPrisma.equipment.findMany.mockResolvedValue([{ serialNumber: 'SN-1' }]);
+
+      await expect(
+        PurchaseOrderService.receive(
+          'po-1',
+          { lines: [{ lineId: 'line-1', serialNumbers: ['SN-1'] }], status: 'available' },
+          'admin-1'
+        )
+      ).rejects.toThrow('Serial numbers already in use: SN-1');
+    });
+  });
+
+  describe('linkInvoice', () => {
+    it('links the invoice to the order and the equipment already received', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValue({ status: 'received' });
+      mockPrisma.invoice.findUnique.mockResolvedValue({ id: 'invoice-1' });
+      mockPrisma.purchaseOrder.update.mockReturnValue('order-update');
+      mockPrisma.equipment.updateMany.mockReturnValue({ count: 2 });
+
+      await expect(PurchaseOrderService.linkInvoice('po-1', 'invoice-1')).resolves.toBe(2);
+
+      expect(mockPrisma.equipment.updateMany).toHaveBeenCalledWith({
+        where: { purchaseOrderLine: { purchaseOrderId: 'po-1' } },
+        data: { invoiceId: 'invoice-1' },
+      });
+      expect(DepreciationService.refreshCurrentValues).toHaveBeenCalledWith({ invoiceId: 'invoice-1' });
+    });
+  });
+
+  describe('linkInvoice on a cancelled order', () => {
+    it('refuses to link the invoice', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValue({ status: 'cancelled' });
+
+      await expect(PurchaseOrderService.linkInvoice('po-1', 'invoice-1')).rejects.toThrow(
+        'Cannot link an invoice to a cancelled purchase order'
+      );
+      expect(mockPrisma.purchaseOrder.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    it('puts requests no other order covers back to approved', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValue({
+        ...placedOrder(),
+        lines: [{ requestId: 'request-1', receivedQuantity: 0 }],
+      });
+      mockPrisma.equipmentRequest.findMany.mockResolvedValue([{ id: 'request-1' }]);
+
+      await PurchaseOrderService.cancel('po-1', 'admin-1');
+
+      expect(mockPrisma.purchaseOrder.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { status: 'cancelled', cancelledAt: expect.any(Date) } })
+      );
+      expect(mockPrisma.equipmentRequest.update).toHaveBeenCalledWith({
+        where: { id: 'request-1' },
+        data: { status: 'approved' },
+      });
+    });
+
+    it('refuses orders that goods have arrived for', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValue({
+        ...placedOrder({ status: 'partially_received' }),
+        lines: [{ requestId: 'request-1', receivedQuantity: 1 }],
+      });
+
+      await expect(PurchaseOrderService.cancel('po-1', 'admin-1')).rejects.toThrow(
+        'Only purchase orders with nothing received can be cancelled'
+      );
+    });
+  });
+});
@@ -0,0 +1,143 @@
+// ABOUTME: Unit tests for API rate limiting
+// ABOUTME: Tests the sliding window, Retry-After calculation, route groups and per-group configuration
+
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  MemoryRateLimitStore,
+  RateLimiter,
+  applyRateLimitHeaders,
+  getRateLimitGroup,
+  getRateLimitIdentifier,
+  getRateLimitRule,
+  rateLimitExceededResponse,
+} from '../rate-limit';
+
+// next/server needs the Fetch API globals, which the jsdom environment lacks
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({
+      status: init?.status ?? 200,
+      headers: new Map<string, string>(),
+      json: async () => body,
+    }),
+  },
+}));
+
+function createRequest(headers: Record<string, string>) {
+  return { headers: new Map(Object.entries(headers)) } as unknown as NextRequest;
+}
+
+const rule = { limit: 3, windowMs: 60 * 1000 };
+
+function createLimiter(startAt: number) {
+  let now = startAt;
+  const limiter = new RateLimiter(new MemoryRateLimitStore(), () => now);
+  return {
+    limiter,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+describe('RateLimiter', () => {
+  it('should allow requests up to the limit and then block with Retry-After', async () => {
+    const { limiter } = createLimiter(0);
+
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await limiter.consume('general:user:1', rule));
+    }
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, true, false]);
+    expect(results[2].remaining).toBe(0);
+    // The window is full, so the caller waits until enough of it slides out of the next window
+    expect(results[3].retryAfterSeconds).toBe(90);
+  });
+
+  it('should weight the previous window so bursts at the boundary are still limited', async () => {
+    const { limiter, advance } = createLimiter(0);
+
+    for (let i = 0; i < 3; i++) {
+      await limiter.consume('general:user:1', rule);
+    }
+
+    // Halfway into the next window half of the previous requests still count
+    advance(90 * 1000);
+    expect((await limiter.consume('general:user:1', rule)).allowed).toBe(true);
+    expect((await limiter.consume('general:user:1', rule)).allowed).toBe(false);
+  });
+
+  it('should keep callers and groups apart', async () => {
+    const { limiter } = createLimiter(0);
+
+    for (let i = 0; i < 3; i++) {
+      await limiter.consume('ocr:user:1', rule);
+    }
+
+    expect((await limiter.consume('ocr:user:2', rule)).allowed).toBe(true);
+    expect((await limiter.consume('general:user:1', rule)).allowed).toBe(true);
+  });
+});
+
+describe('rate limit configuration', () => {
+  it('should map paths onto route groups', () => {
+    expect(getRateLimitGroup('/api/auth/register')).toBe('auth');
+    expect(getRateLimitGroup('/api/auth/signin/nodemailer')).toBe('auth');
+    expect(getRateLimitGroup('/api/auth/callback/nodemailer')).toBe('auth');
+    expect(getRateLimitGroup('/api/auth/signout')).toBe('general');
+    expect(getRateLimitGroup('/api/auth/session')).toBe('general');
+    expect(getRateLimitGroup('/api/ocr/process-invoice')).toBe('ocr');
+    expect(getRateLimitGroup('/api/subscriptions/export')).toBe('export');
+    expect(getRateLimitGroup('/api/equipment')).toBe('general');
+  });
+
+  it('should read per-group overrides from the environment', () => {
+    expect(getRateLimitRule('ocr', { RATE_LIMIT_OCR: '50/3600' })).toEqual({ limit: 50, windowMs: 3600 * 1000 });
+    expect(getRateLimitRule('ocr', { RATE_LIMIT_OCR: 'lots' })).toEqual({ limit: 30, windowMs: 3600 * 1000 });
+  });
+
+  it('should key signed-in callers by user and others by the address our proxy added', () => {
+    const request = createRequest({ 'x-forwarded-for': '203.0.113.7' });
+
+    expect(getRateLimitIdentifier(request, 'user_1')).toBe('user:user_1');
+    expect(getRateLimitIdentifier(request)).toBe('ip:203.0.113.7');
+    expect(getRateLimitIdentifier(createRequest({ 'x-real-ip': '198.51.100.2' }))).toBe('ip:198.51.100.2');
+  });
+
+  it('should ignore forwarded addresses the client made up', () => {
+    const spoofed = createRequest({ 'x-forwarded-for': '192.0.2.99, 203.0.113.7' });
+    const respoofed = createRequest({ 'x-forwarded-for': '192.0.2.100, 203.0.113.7' });
+
+    expect(getRateLimitIdentifier(spoofed, undefined, {})).toBe('ip:203.0.113.7');
+    expect(getRateLimitIdentifier(respoofed, undefined, {})).toBe('ip:203.0.113.7');
+  });
+
+  it('should count trusted proxy hops from the right', () => {
+    const request = createRequest({ 'x-forwarded-for': '192.0.2.99, 203.0.113.7, 10.0.0.1' });
+
+    expect(getRateLimitIdentifier(request, undefined, { TRUSTED_PROXY_HOPS: '2' })).toBe('ip:203.0.113.7');
+  });
+});
+
+describe('rate limit responses', () => {
+  const blocked = { allowed: false, limit: 30, remaining: 0, resetAt: 1_800_000_000_000, retryAfterSeconds: 120 };
+
+  it('should answer 429 with Retry-After and X-RateLimit headers', async () => {
+    const response = rateLimitExceededResponse(blocked);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('120');
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('30');
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('0');
+    expect(response.headers.get('X-RateLimit-Reset')).toBe('1800000000');
+    expect(await response.json()).toEqual({ error: 'Rate limit exceeded', retryAfter: 120 });
+  });
+
+  it('should not send Retry-After on allowed requests', () => {
+    const response = applyRateLimitHeaders(NextResponse.json({}), { ...blocked, allowed: true, remaining: 5 });
+
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('5');
+    expect(response.headers.get('Retry-After')).toBeUndefined();
+  });
+});
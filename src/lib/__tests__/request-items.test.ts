@@ -0,0 +1,178 @@
+// ABOUTME: Unit tests for request line items
+// ABOUTME: Tests fulfilling lines unit by unit and moving the request through partial to full fulfillment
+
+import { RequestItemService, RequestItemError, summarizeRequestItems } from '../request-items';
+import { RequestHistoryService } from '../request-history';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    equipmentRequest: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    equipmentRequestItem: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    equipmentRequestAllocation: {
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../request-history', () => ({
+  RequestHistoryService: {
+    logLineItemProgress: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  equipmentRequest: { findUnique: jest.Mock; update: jest.Mock };
+  equipmentRequestItem: { findFirst: jest.Mock; update: jest.Mock };
+  equipmentRequestAllocation: { create: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+const mockLogProgress = RequestHistoryService.logLineItemProgress as jest.Mock;
+
+const laptop = { id: 'eq-1', name: 'MacBook Pro' };
+
+const monitorLine = (fulfilledQuantity: number) => ({
+  id: 'item-1',
+  kind: 'equipment',
+  name: 'Monitor',
+  status: fulfilledQuantity > 0 ? 'partially_fulfilled' : 'pending',
+  quantity: 2,
+  fulfilledQuantity,
+  request: { status: fulfilledQuantity > 0 ? 'partially_fulfilled' : 'approved', requesterId: 'user-1' },
+});
+
+describe('RequestItemService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  });
+
+  describe('fulfilWithEquipment', () => {
+    it('hands over one unit and leaves the request partially fulfilled', async () => {
+      mockPrisma.equipmentRequestItem.findFirst.mockResolvedValue(monitorLine(0));
+      mockPrisma.equipmentRequest.findUnique.mockResolvedValue({
+        status: 'approved',
+        items: [{ quantity: 2, fulfilledQuantity: 1 }],
+      });
+
+      const status = await RequestItemService.fulfilWithEquipment(prisma as never, 'req-1', 'item-1', laptop, 'admin-1');
+
+      expect(mockPrisma.equipmentRequestAllocation.create).toHaveBeenCalledWith({
+        data: { itemId: 'item-1', equipmentId: 'eq-1' },
+      });
+      expect(mockPrisma.equipmentRequestItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: { fulfilledQuantity: 1, status: 'partially_fulfilled' },
+      });
+      expect(mockPrisma.equipmentRequest.update).toHaveBeenCalledWith({
+        where: { id: 'req-1' },
+        data: { status: 'partially_fulfilled' },
+      });
+      expect(status).toBe('partially_fulfilled');
+      expect(mockLogProgress).toHaveBeenCalledWith(
+        'req-1',
+        'admin-1',
+        'equipment_assigned',
+        expect.objectContaining({ itemName: 'Monitor', quantity: 2, fulfilledQuantity: 1 }),
+        expect.objectContaining({ newStatus: 'partially_fulfilled' }),
+        prisma
+      );
+    });
+
+    it('closes the request once the last unit is handed over', async () => {
+      mockPrisma.equipmentRequestItem.findFirst.mockResolvedValue(monitorLine(1));
+      mockPrisma.equipmentRequest.findUnique.mockResolvedValue({
+        status: 'partially_fulfilled',
+        items: [{ quantity: 2, fulfilledQuantity: 2 }, { quantity: 1, fulfilledQuantity: 1 }],
+      });
+
+      const status = await RequestItemService.fulfilWithEquipment(prisma as never, 'req-1', 'item-1', laptop, 'admin-1');
+
+      expect(mockPrisma.equipmentRequestItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: expect.objectContaining({ fulfilledQuantity: 2, status: 'fulfilled' }),
+      });
+      expect(mockPrisma.equipmentRequest.update).toHaveBeenCalledWith({
+        where: { id: 'req-1' },
+        data: { status: 'fulfilled' },
+      });
+      expect(status).toBe('fulfilled');
+    });
+
+    it('refuses more units than the line asked for', async () => {
+      mockPrisma.equipmentRequestItem.findFirst.mockResolvedValue(monitorLine(2));
+
+      await expect(
+        RequestItemService.fulfilWithEquipment(prisma as never, 'req-1', 'item-1', laptop, 'admin-1')
+      ).rejects.toThrow('Line item is already fulfilled');
+      expect(mockPrisma.equipmentRequestAllocation.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateItem', () => {
+    it('flags a line for purchase and records it in the request history', async () => {
+      mockPrisma.equipmentRequestItem.findFirst.mockResolvedValue(monitorLine(0));
+      mockPrisma.equipmentRequestItem.update.mockResolvedValue({ id: 'item-1', status: 'to_purchase' });
+      mockPrisma.equipmentRequest.findUnique.mockResolvedValue({
+        status: 'approved',
+        items: [{ quantity: 2, fulfilledQuantity: 0 }],
+      });
+
+      const result = await RequestItemService.updateItem('req-1', 'item-1', { status: 'to_purchase' }, 'admin-1');
+
+      expect(mockLogProgress).toHaveBeenCalledWith(
+        'req-1',
+        'admin-1',
+        'item_updated',
+        expect.objectContaining({ itemName: 'Monitor', status: 'to_purchase' }),
+        expect.objectContaining({ notes: 'flagged for purchase' }),
+        prisma
+      );
+      expect(result?.requestStatus).toBe('approved');
+    });
+
+    it('keeps a partly handed over line partially fulfilled when set back to pending', async () => {
+      mockPrisma.equipmentRequestItem.findFirst.mockResolvedValue({ ...monitorLine(1), status: 'to_purchase' });
+      mockPrisma.equipmentRequest.findUnique.mockResolvedValue({
+        status: 'partially_fulfilled',
+        items: [{ quantity: 2, fulfilledQuantity: 1 }],
+      });
+
+      await RequestItemService.updateItem('req-1', 'item-1', { status: 'pending' }, 'admin-1');
+
+      expect(mockPrisma.equipmentRequestItem.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: 'partially_fulfilled' }),
+        })
+      );
+    });
+
+    it('refuses to mark equipment lines fulfilled without a handover', async () => {
+      mockPrisma.equipmentRequestItem.findFirst.mockResolvedValue(monitorLine(0));
+
+      await expect(
+        RequestItemService.updateItem('req-1', 'item-1', { status: 'fulfilled' }, 'admin-1')
+      ).rejects.toThrow(RequestItemError);
+      expect(mockPrisma.equipmentRequestItem.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('summarizeRequestItems', () => {
+    it('counts units and fully fulfilled lines', () => {
+      expect(
+        summarizeRequestItems([
+          { quantity: 2, fulfilledQuantity: 1 },
+          { quantity: 1, fulfilledQuantity: 1 },
+        ])
+      ).toEqual({ lines: 2, fulfilledLines: 1, units: 3, fulfilledUnits: 2 });
+    });
+  });
+});
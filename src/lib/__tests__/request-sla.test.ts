@@ -0,0 +1,62 @@
+// ABOUTME: Unit tests for request SLA rules
+// ABOUTME: Tests business-day deadlines, reminder and breach thresholds and need-by highlighting
+
+import { addBusinessDays, neededByUrgency, slaDeadline, slaState, stageOpenedAt } from '../request-sla';
+
+// 2026-03-04 is a Wednesday
+const wednesday = new Date(2026, 2, 4, 10, 0);
+const friday = new Date(2026, 2, 6, 10, 0);
+const saturday = new Date(2026, 2, 7, 15, 0);
+
+describe('addBusinessDays', () => {
+  it('skips the weekend', () => {
+    expect(addBusinessDays(friday, 1)).toEqual(new Date(2026, 2, 9, 10, 0));
+    expect(addBusinessDays(wednesday, 3)).toEqual(new Date(2026, 2, 9, 10, 0));
+  });
+
+  it('starts the clock on Monday morning for weekend submissions', () => {
+    expect(addBusinessDays(saturday, 1)).toEqual(new Date(2026, 2, 10, 0, 0));
+  });
+});
+
+describe('slaDeadline', () => {
+  it('counts clock hours for urgent requests and business days otherwise', () => {
+    expect(slaDeadline(friday, 'urgent')).toEqual(new Date(2026, 2, 6, 14, 0));
+    expect(slaDeadline(friday, 'high')).toEqual(new Date(2026, 2, 9, 10, 0));
+    expect(slaDeadline(wednesday, 'low')).toEqual(new Date(2026, 2, 11, 10, 0));
+  });
+
+  it('uses the configured targets', () => {
+    const targets = { urgentHours: 2, highBusinessDays: 2, mediumBusinessDays: 4, lowBusinessDays: 10 };
+
+    expect(slaDeadline(wednesday, 'urgent', targets)).toEqual(new Date(2026, 2, 4, 12, 0));
+    expect(slaDeadline(wednesday, 'medium', targets)).toEqual(new Date(2026, 2, 10, 10, 0));
+  });
+});
+
+describe('slaState', () => {
+  it('is on track, then due soon, then breached as the deadline passes', () => {
+    const at = (hours: number) => new Date(wednesday.getTime() + hours * 60 * 60 * 1000);
+
+    expect(slaState(wednesday, 'urgent', undefined, at(1)).status).toBe('on_track');
+    expect(slaState(wednesday, 'urgent', undefined, at(3)).status).toBe('at_risk');
+    expect(slaState(wednesday, 'urgent', undefined, at(4)).status).toBe('breached');
+  });
+});
+
+describe('stageOpenedAt', () => {
+  it('falls back to the request creation for stages opened before SLAs were tracked', () => {
+    expect(stageOpenedAt({ openedAt: friday }, wednesday)).toEqual(friday);
+    expect(stageOpenedAt({ openedAt: null }, wednesday)).toEqual(wednesday);
+  });
+});
+
+describe('neededByUrgency', () => {
+  it('flags need-by dates that passed or are within three days', () => {
+    expect(neededByUrgency(new Date(2026, 2, 3), wednesday)).toBe('overdue');
+    expect(neededByUrgency(new Date(2026, 2, 4), wednesday)).toBe('soon');
+    expect(neededByUrgency(new Date(2026, 2, 7), wednesday)).toBe('soon');
+    expect(neededByUrgency(new Date(2026, 2, 8), wednesday)).toBeNull();
+    expect(neededByUrgency(null, wednesday)).toBeNull();
+  });
+});
@@ -0,0 +1,190 @@
+// ABOUTME: Unit tests for request SLA tracking
+// ABOUTME: Tests reminding and escalating overdue approval stages and summarizing response times per team
+
+import { SlaTrackingService, summarizeResponseTimes } from '../sla-tracking';
+import { EmailNotificationService } from '../email';
+import { NotificationService } from '../notifications';
+import { ApprovalChainService } from '../approval-chains';
+import { DEFAULT_SYSTEM_SETTINGS, SystemSettingsService } from '../system-settings';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    requestApproval: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../system-settings', () => ({
+  ...jest.requireActual('../system-settings'),
+  SystemSettingsService: { getAll: jest.fn() },
+}));
+
+jest.mock('../approval-chains', () => ({
+  ApprovalChainService: { approvers: jest.fn() },
+}));
+
+jest.mock('../email', () => ({
+  EmailNotificationService: { notifyApprovalOverdue: jest.fn() },
+}));
+
+jest.mock('../notifications', () => ({
+  NotificationService: { notifyApprovalOverdue: jest.fn() },
+}));
+
+const mockPrisma = prisma as unknown as {
+  requestApproval: { findMany: jest.Mock; updateMany: jest.Mock };
+};
+const mockApprovers = ApprovalChainService.approvers as jest.Mock;
+const mockEmail = EmailNotificationService.notifyApprovalOverdue as jest.Mock;
+const mockNotify = NotificationService.notifyApprovalOverdue as jest.Mock;
+
+const hour = 60 * 60 * 1000;
+const now = new Date(2026, 2, 4, 15, 0); // a Wednesday afternoon
+
+const stage = (openedHoursAgo: number, overrides: Record<string, unknown> = {}) => ({
+  id: 'stage-1',
+  requestId: 'request-1',
+  name: 'Team lead approval',
+  approverRole: 'team_lead',
+  approverId: null,
+  openedAt: new Date(now.getTime() - openedHoursAgo * hour),
+  remindedAt: null,
+  escalatedAt: null,
+  request: {
+    id: 'request-1',
+    equipmentType: 'Laptop',
+    justification: 'Broken screen',
+    priority: 'urgent',
+    status: 'pending',
+    neededBy: null,
+    budget: null,
+    specificRequirements: null,
+    createdAt: new Date(now.getTime() - 10 * hour),
+    updatedAt: now,
+    requester: { id: 'user-1', name: 'Dev', email: 'dev@example.com', role: 'user', teamId: 'team-1' },
+  },
+  ...overrides,
+});
+
+describe('SlaTrackingService.escalate', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (SystemSettingsService.getAll as jest.Mock).mockResolvedValue(DEFAULT_SYSTEM_SETTINGS);
+    mockPrisma.requestApproval.updateMany.mockResolvedValue({ count: 1 });
+    mockApprovers.mockImplementation((approverStage: { approverRole: string }) =>
+      Promise.resolve(
+        approverStage.approverRole === 'admin'
+          ? [{ id: 'admin-1', email: 'admin@example.com' }]
+          : [{ id: 'lead-1', email: 'lead@example.com' }]
+      )
+    );
+  });
+
+  it('reminds the approvers of a stage nearing its deadline', async () => {
+    mockPrisma.requestApproval.findMany.mockResolvedValue([stage(3.5)]);
+
+    const result = await SlaTrackingService.escalate(now);
+
+    expect(result).toEqual({ checked: 1, reminded: 1, escalated: 0, failed: 0 });
+    expect(mockPrisma.requestApproval.updateMany).toHaveBeenCalledWith({
+      where: { id: 'stage-1', remindedAt: null },
+      data: { remindedAt: now },
+    });
+    expect(mockEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'request-1' }),
+      ['lead@example.com'],
+      expect.objectContaining({ stageName: 'Team lead approval', escalated: false })
+    );
+    expect(mockNotify).toHaveBeenCalledWith(expect.anything(), ['lead-1'], expect.anything());
+  });
+
+  it('escalates a breached stage to the approvers and admins', async () => {
+    mockPrisma.requestApproval.findMany.mockResolvedValue([stage(5, { remindedAt: now })]);
+
+    const result = await SlaTrackingService.escalate(now);
+
+    expect(result.escalated).toBe(1);
+    expect(mockPrisma.requestApproval.updateMany).toHaveBeenCalledWith({
+      where: { id: 'stage-1', escalatedAt: null },
+      data: { escalatedAt: now },
+    });
+    expect(mockEmail).toHaveBeenCalledWith(
+      expect.anything(),
+      ['lead@example.com', 'admin@example.com'],
+      expect.objectContaining({ escalated: true })
+    );
+  });
+
+  it('sends nothing when another run already claimed the stage', async () => {
+    mockPrisma.requestApproval.findMany.mockResolvedValue([stage(5)]);
+    mockPrisma.requestApproval.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await SlaTrackingService.escalate(now);
+
+    expect(result.escalated).toBe(0);
+    expect(mockEmail).not.toHaveBeenCalled();
+    expect(mockNotify).not.toHaveBeenCalled();
+  });
+
+  it('leaves stages that are on track or already reminded alone', async () => {
+    mockPrisma.requestApproval.findMany.mockResolvedValue([
+      stage(1),
+      stage(3.5, { id: 'stage-2', remindedAt: now }),
+    ]);
+
+    const result = await SlaTrackingService.escalate(now);
+
+    expect(result).toEqual({ checked: 2, reminded: 0, escalated: 0, failed: 0 });
+    expect(mockPrisma.requestApproval.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('summarizeResponseTimes', () => {
+  const submitted = new Date(2026, 2, 2, 9, 0);
+  const after = (hours: number) => new Date(submitted.getTime() + hours * hour);
+
+  it('averages time to approve and fulfil per team from request history', () => {
+    const report = summarizeResponseTimes([
+      {
+        createdAt: submitted,
+        team: { id: 'team-2', name: 'Sales' },
+        history: [
+          { newStatus: 'approved', createdAt: after(2) },
+          { newStatus: 'fulfilled', createdAt: after(30) },
+        ],
+      },
+      {
+        createdAt: submitted,
+        team: { id: 'team-1', name: 'Engineering' },
+        history: [{ newStatus: 'approved', createdAt: after(4) }],
+      },
+      {
+        createdAt: submitted,
+        team: { id: 'team-1', name: 'Engineering' },
+        history: [
+          { newStatus: 'pending', createdAt: after(1) },
+          { newStatus: 'approved', createdAt: after(7) },
+          { newStatus: 'approved', createdAt: after(9) },
+        ],
+      },
+      { createdAt: submitted, team: null, history: [] },
+    ]);
+
+    expect(report.teams.map((team) => team.teamName)).toEqual(['Engineering', 'No team', 'Sales']);
+    expect(report.teams[0]).toEqual({
+      teamId: 'team-1',
+      teamName: 'Engineering',
+      requests: 2,
+      approved: 2,
+      averageHoursToApprove: 5.5,
+      fulfilled: 0,
+      averageHoursToFulfil: null,
+    });
+    expect(report.overall).toEqual(
+      expect.objectContaining({ requests: 4, approved: 3, averageHoursToApprove: 4.3, averageHoursToFulfil: 30 })
+    );
+  });
+});
@@ -0,0 +1,212 @@
+// ABOUTME: Unit tests for the local and S3-compatible storage drivers
+// ABOUTME: Tests reading and writing by key, signed download links and driver selection from the environment
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createLocalStorage,
+  createS3Storage,
+  resolveStorageDriverName,
+  s3ConfigFromEnv,
+  signedUrlTtl,
+  StorageError,
+  verifyLocalSignature,
+  DEFAULT_SIGNED_URL_TTL_SECONDS,
+} from '../storage';
+
+const SECRET = 'test-signing-secret';
+
+describe('createLocalStorage', () => {
+  let directory: string;
+  const originalSecret = process.env.STORAGE_SIGNING_SECRET;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-test-'));
+    process.env.STORAGE_SIGNING_SECRET = SECRET;
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+    process.env.STORAGE_SIGNING_SECRET = originalSecret;
+  });
+
+  it('writes, reads and deletes files by key', async () => {
+    const storage = createLocalStorage(directory);
+
+    await storage.put('invoices/2026/01/a.pdf', Buffer.from('pdf'), 'application/pdf');
+    expect((await storage.get('invoices/2026/01/a.pdf'))?.body.toString()).toBe('pdf');
+
+    await storage.delete('invoices/2026/01/a.pdf');
+    expect(await storage.get('invoices/2026/01/a.pdf')).toBeNull();
+  });
+
+  it('rejects keys that would leave the storage directory', async () => {
+    const storage = createLocalStorage(directory);
+
+    await expect(storage.get('../secrets.env')).rejects.toThrow(StorageError);
+    await expect(storage.put('/etc/passwd', Buffer.from('x'), 'text/plain')).rejects.toThrow(StorageError);
+  });
+
+  it('signs download links that the storage route can verify', async () => {
+    const storage = createLocalStorage(directory);
+
+    const url = await storage.signedUrl('invoices/2026/01/a b.pdf', {
+      fileName: 'a b.pdf',
+      contentType: 'application/pdf',
+      download: true,
+      expiresIn: 60,
+    });
+
+    const parsed = new URL(url, 'http://localhost');
+    expect(parsed.pathname).toBe('/api/storage/invoices/2026/01/a%20b.pdf');
+
+    const params = Object.fromEntries(parsed.searchParams);
+    expect(params.disposition).toMatch(/^attachment; filename="a b.pdf"/);
+    expect(params.type).toBe('application/pdf');
+    expect(verifyLocalSignature('invoices/2026/01/a b.pdf', params, new Date(), SECRET)).toBe(true);
+  });
+});
+
+describe('verifyLocalSignature', () => {
+  const key = 'files/2026/01/photo.png';
+
+  async function signedParams(expiresIn = 60) {
+    process.env.STORAGE_SIGNING_SECRET = SECRET;
+    const url = await createLocalStorage(os.tmpdir()).signedUrl(key, {
+      fileName: 'photo.png',
+      contentType: 'image/png',
+      expiresIn,
+    });
+    return Object.fromEntries(new URL(url, 'http://localhost').searchParams);
+  }
+
+  it('rejects expired links', async () => {
+    const params = await signedParams(60);
+    const later = new Date(Date.now() + 120 * 1000);
+
+    expect(verifyLocalSignature(key, params, later, SECRET)).toBe(false);
+  });
+
+  it('rejects links whose key or parameters were changed', async () => {
+    const params = await signedParams();
+
+    expect(verifyLocalSignature('files/2026/01/other.png', params, new Date(), SECRET)).toBe(false);
+    expect(verifyLocalSignature(key, { ...params, type: 'text/html' }, new Date(), SECRET)).toBe(false);
+    expect(verifyLocalSignature(key, params, new Date(), 'another-secret')).toBe(false);
+  });
+
+  it('rejects links with missing parameters', () => {
+    expect(verifyLocalSignature(key, { expires: '9999999999' }, new Date(), SECRET)).toBe(false);
+  });
+});
+
+describe('createS3Storage', () => {
+  const config = {
+    bucket: 'inventory',
+    region: 'us-east-1',
+    endpoint: 'http://minio:9000',
+    accessKeyId: 'minio',
+    secretAccessKey: 'minio-secret',
+    forcePathStyle: true,
+  };
+
+  function fakeFetch(status: number, body = '') {
+    return jest.fn().mockResolvedValue({
+      ok: status >= 200 && status < 300,
+      status,
+      arrayBuffer: async () => {
+        const bytes = Buffer.from(body);
+        return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length);
+      },
+    }) as jest.Mock & typeof fetch;
+  }
+
+  it('uploads objects with a signed PUT to the bucket path', async () => {
+    const fetchImpl = fakeFetch(200);
+    const storage = createS3Storage(config, fetchImpl);
+
+    await storage.put('files/2026/01/a.pdf', Buffer.from('%PDF-'), 'application/pdf');
+
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url.toString()).toBe('http://minio:9000/inventory/files/2026/01/a.pdf');
+    expect(init.method).toBe('PUT');
+    expect(init.headers['content-type']).toBe('application/pdf');
+    expect(init.headers.authorization).toMatch(/^AWS4-HMAC-SHA256 Credential=minio\//);
+    expect(init.headers.host).toBeUndefined();
+  });
+
+  it('uses virtual-hosted URLs unless path style is forced', async () => {
+    const fetchImpl = fakeFetch(200);
+    const storage = createS3Storage({ ...config, endpoint: undefined, forcePathStyle: false }, fetchImpl);
+
+    await storage.delete('files/a.pdf');
+
+    expect(fetchImpl.mock.calls[0][0].toString()).toBe('https://inventory.s3.us-east-1.amazonaws.com/files/a.pdf');
+  });
+
+  it('returns null for missing objects and raises on other failures', async () => {
+    expect(await createS3Storage(config, fakeFetch(404)).get('files/a.pdf')).toBeNull();
+
+    await expect(
+      createS3Storage(config, fakeFetch(403)).put('files/a.pdf', Buffer.from('x'), 'application/pdf')
+    ).rejects.toThrow(StorageError);
+  });
+
+  it('reads object bodies', async () => {
+    const storage = createS3Storage(config, fakeFetch(200, 'pdf bytes'));
+
+    const stored = await storage.get('files/a.pdf');
+
+    expect(stored?.body.toString()).toBe('pdf bytes');
+    expect(stored?.size).toBe(9);
+  });
+
+  it('presigns downloads that set the file name and type', async () => {
+    const storage = createS3Storage(config, fakeFetch(200));
+
+    const url = new URL(
+      await storage.signedUrl('files/a.pdf', { fileName: 'a.pdf', contentType: 'application/pdf', download: true, expiresIn: 120 })
+    );
+
+    expect(url.pathname).toBe('/inventory/files/a.pdf');
+    expect(url.searchParams.get('response-content-type')).toBe('application/pdf');
+    expect(url.searchParams.get('response-content-disposition')).toMatch(/^attachment; filename="a.pdf"/);
+    expect(url.searchParams.get('X-Amz-Expires')).toBe('120');
+    expect(url.searchParams.get('X-Amz-Signature')).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('configuration', () => {
+  it('defaults to local storage and rejects unknown drivers', () => {
+    expect(resolveStorageDriverName({})).toBe('local');
+    expect(resolveStorageDriverName({ STORAGE_DRIVER: 's3' })).toBe('s3');
+    expect(() => resolveStorageDriverName({ STORAGE_DRIVER: 'ftp' })).toThrow(StorageError);
+  });
+
+  it('reads S3 settings and uses path-style URLs for custom endpoints', () => {
+    const env = {
+      S3_BUCKET: 'inventory',
+      S3_ACCESS_KEY_ID: 'key',
+      S3_SECRET_ACCESS_KEY: 'secret',
+      S3_ENDPOINT: 'http://minio:9000/',
+    };
+
+    expect(s3ConfigFromEnv(env)).toEqual({
+      bucket: 'inventory',
+      region: 'us-east-1',
+      endpoint: 'http://minio:9000',
+      accessKeyId: 'key',
+      secretAccessKey: 'secret',
+      forcePathStyle: true,
+    });
+    expect(s3ConfigFromEnv({ ...env, S3_ENDPOINT: undefined }).forcePathStyle).toBe(false);
+    expect(() => s3ConfigFromEnv({ S3_BUCKET: 'inventory' })).toThrow(StorageError);
+  });
+
+  it('falls back to the default link lifetime for missing or invalid values', () => {
+    expect(signedUrlTtl({})).toBe(DEFAULT_SIGNED_URL_TTL_SECONDS);
+    expect(signedUrlTtl({ STORAGE_SIGNED_URL_TTL: 'soon' })).toBe(DEFAULT_SIGNED_URL_TTL_SECONDS);
+    expect(signedUrlTtl({ STORAGE_SIGNED_URL_TTL: '900' })).toBe(900);
+  });
+});
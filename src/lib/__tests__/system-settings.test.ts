@@ -0,0 +1,114 @@
+// ABOUTME: Unit tests for the system settings store
+// ABOUTME: Tests defaults, decoding of stored values and change history on update
+
+import { DEFAULT_SYSTEM_SETTINGS, SystemSettingsService } from '../system-settings';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    systemSetting: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn((args) => ({ op: 'upsert', args })),
+    },
+    systemSettingChange: {
+      create: jest.fn((args) => ({ op: 'create', args })),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  systemSetting: { findUnique: jest.Mock; findMany: jest.Mock; upsert: jest.Mock };
+  systemSettingChange: { create: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+describe('SystemSettingsService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('get', () => {
+    it('returns the default for a setting that was never saved', async () => {
+      mockPrisma.systemSetting.findUnique.mockResolvedValue(null);
+
+      await expect(SystemSettingsService.get('maxFileUploadSize')).resolves.toBe(10);
+      await expect(SystemSettingsService.get('enableUserRegistration')).resolves.toBe(true);
+    });
+
+    it('decodes the stored value', async () => {
+      mockPrisma.systemSetting.findUnique.mockResolvedValue({ key: 'enableUserRegistration', value: 'false' });
+
+      await expect(SystemSettingsService.get('enableUserRegistration')).resolves.toBe(false);
+    });
+
+    it('falls back to the default for unreadable or mistyped values', async () => {
+      mockPrisma.systemSetting.findUnique.mockResolvedValueOnce({ key: 'maxFileUploadSize', value: '{oops' });
+      await expect(SystemSettingsService.get('maxFileUploadSize')).resolves.toBe(10);
+
+      mockPrisma.systemSetting.findUnique.mockResolvedValueOnce({ key: 'maxFileUploadSize', value: '"25"' });
+      await expect(SystemSettingsService.get('maxFileUploadSize')).resolves.toBe(10);
+    });
+  });
+
+  describe('getAll', () => {
+    it('fills in defaults around saved settings and ignores unknown keys', async () => {
+      mockPrisma.systemSetting.findMany.mockResolvedValue([
+        { key: 'companyName', value: '"Acme"' },
+        { key: 'defaultDepreciationPeriod', value: '36' },
+        { key: 'legacySetting', value: '"ignored"' },
+      ]);
+
+      const settings = await SystemSettingsService.getAll();
+
+      expect(settings).toEqual({
+        ...DEFAULT_SYSTEM_SETTINGS,
+        companyName: 'Acme',
+        defaultDepreciationPeriod: 36,
+      });
+      expect(settings).not.toHaveProperty('legacySetting');
+    });
+  });
+
+  describe('update', () => {
+    it('saves changed settings and records their previous values', async () => {
+      mockPrisma.systemSetting.findMany.mockResolvedValue([
+        { key: 'maxFileUploadSize', value: '10' },
+      ]);
+
+      const changed = await SystemSettingsService.update(
+        { maxFileUploadSize: 20, enableUserRegistration: false },
+        'admin-1'
+      );
+
+      expect(changed).toEqual(['enableUserRegistration', 'maxFileUploadSize']);
+      expect(mockPrisma.systemSettingChange.create).toHaveBeenCalledWith({
+        data: { key: 'maxFileUploadSize', oldValue: '10', newValue: '20', changedById: 'admin-1' },
+      });
+      expect(mockPrisma.systemSettingChange.create).toHaveBeenCalledWith({
+        data: { key: 'enableUserRegistration', oldValue: null, newValue: 'false', changedById: 'admin-1' },
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalledWith([
+        expect.objectContaining({ op: 'upsert' }),
+        expect.objectContaining({ op: 'create' }),
+        expect.objectContaining({ op: 'upsert' }),
+        expect.objectContaining({ op: 'create' }),
+      ]);
+    });
+
+    it('skips values that match what is already in effect, including defaults', async () => {
+      mockPrisma.systemSetting.findMany.mockResolvedValue([
+        { key: 'companyName', value: '"Acme"' },
+      ]);
+
+      const changed = await SystemSettingsService.update(
+        { companyName: 'Acme', backupRetentionDays: DEFAULT_SYSTEM_SETTINGS.backupRetentionDays },
+        'admin-1'
+      );
+
+      expect(changed).toEqual([]);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
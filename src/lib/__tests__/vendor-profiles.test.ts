@@ -0,0 +1,214 @@
+// ABOUTME: Unit tests for vendor profiles learned from OCR review corrections
+// ABOUTME: Tests learning field, category and serial number corrections and reapplying them to later invoices
+
+import {
+  VendorProfileService,
+  applyCorrections,
+  parseVendorProfile,
+  learnCorrections,
+  normalizeVendorKey,
+  type LearnedCorrections,
+} from '../vendor-profiles';
+import type { VendorProfile } from '@prisma/client';
+import type { OCRResult } from '../gemini-ocr';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    vendorProfile: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    ocrJobFile: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  vendorProfile: Record<'findUnique' | 'findFirst' | 'create' | 'update', jest.Mock>;
+  ocrJobFile: { findUnique: jest.Mock };
+};
+
+const extracted: OCRResult = {
+  vendor: 'LINKS D.O.O. ZAGREB',
+  invoiceNumber: 'R-2026-1042',
+  amount: 2198,
+  currency: 'EUR',
+  purchaseMethod: 'Off-the-shelf',
+  equipment: [
+    { name: 'Dell WD22TB4 Dock', specifications: 'Thunderbolt 4, S/N: CN0WD22TB', category: 'other' },
+    { name: 'Dell Latitude 7450 Laptop', specifications: '16GB RAM, S/N: 7XKQ2Y3' },
+  ],
+  confidence: 0.8,
+};
+
+const reviewed: OCRResult = {
+  ...extracted,
+  vendor: 'Links d.o.o.',
+  purchaseMethod: 'ZOPI',
+  equipment: [
+    { ...extracted.equipment![0], category: 'peripheral', serialNumber: 'CN0WD22TB' },
+    { ...extracted.equipment![1], category: 'laptop', serialNumber: '7XKQ2Y3' },
+  ],
+};
+
+function profileRow(overrides: Partial<VendorProfile> = {}): VendorProfile {
+  return {
+    id: 'profile-1',
+    vendorKey: 'links',
+    vendor: 'Links d.o.o.',
+    aliases: '[]',
+    fieldCorrections: '{}',
+    itemCategories: '{}',
+    serialNumberSource: null,
+    reviewsLearned: 1,
+    updatedById: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const empty: LearnedCorrections = { vendor: 'Links d.o.o.', aliases: [], fields: {}, itemCategories: {} };
+
+describe('normalizeVendorKey', () => {
+  it('ignores case, punctuation and legal forms', () => {
+    expect(normalizeVendorKey('LINKS D.O.O.')).toBe('links');
+    expect(normalizeVendorKey('Links doo')).toBe('links');
+    expect(normalizeVendorKey('Apple Distribution International Ltd.')).toBe('apple distribution international');
+  });
+});
+
+describe('learnCorrections', () => {
+  it('learns what the reviewer changed and nothing they kept', () => {
+    const { learned, changes } = learnCorrections(empty, extracted, reviewed);
+
+    expect(learned.aliases).toEqual(['links doo zagreb']);
+    expect(learned.fields).toEqual({ purchaseMethod: [{ from: 'off-the-shelf', to: 'ZOPI' }] });
+    // The laptop was already guessed right from its name
+    expect(learned.itemCategories).toEqual({ 'dell wd22tb4 dock': 'peripheral' });
+    expect(learned.serialNumber).toEqual({ field: 'specifications', label: 'S/N:' });
+    expect(changes).toBe(4);
+  });
+
+  it('learns nothing from a review that changed nothing', () => {
+    const learned = { ...empty, vendor: 'LINKS D.O.O. ZAGREB' };
+
+    expect(learnCorrections(learned, extracted, extracted).changes).toBe(0);
+  });
+});
+
+describe('applyCorrections', () => {
+  const { learned } = learnCorrections(empty, extracted, reviewed);
+
+  it("reapplies the vendor's corrections to its next invoice and flags them", () => {
+    const next = applyCorrections(
+      {
+        vendor: 'Links d.o.o. Zagreb',
+        purchaseMethod: 'Off-the-shelf',
+        equipment: [{ name: 'Dell WD22TB4 Dock', specifications: 'S/N: CN0AB12CD' }],
+        extractionDetails: { processingTime: 500, modelUsed: 'local-rules' },
+      },
+      learned
+    );
+
+    expect(next).toMatchObject({
+      vendor: 'Links d.o.o.',
+      purchaseMethod: 'ZOPI',
+      equipment: [{ category: 'peripheral', serialNumber: 'CN0AB12CD' }],
+    });
+    expect(next.extractionDetails?.autoCorrected).toEqual([
+      'vendor',
+      'purchaseMethod',
+      'equipment.0.category',
+      'equipment.0.serialNumber',
+    ]);
+    expect(next.extractionDetails?.fieldSources).toMatchObject({ vendor: 'learned', purchaseMethod: 'learned' });
+  });
+
+  it('leaves values it has not seen corrected alone', () => {
+    const result: OCRResult = {
+      vendor: 'Links d.o.o.',
+      purchaseMethod: 'Leasing',
+      equipment: [{ name: 'Logitech MX Keys', serialNumber: 'LGT-1' }],
+    };
+
+    expect(applyCorrections(result, learned)).toBe(result);
+  });
+});
+
+describe('parseVendorProfile', () => {
+  it('ignores a damaged column instead of failing every extraction for the vendor', () => {
+    jest.spyOn(console, 'error').mockImplementation();
+
+    const learned = parseVendorProfile(
+      profileRow({ fieldCorrections: '{not json', itemCategories: JSON.stringify({ dock: 'peripheral' }) })
+    );
+
+    expect(learned.fields).toEqual({});
+    expect(learned.itemCategories).toEqual({ dock: 'peripheral' });
+  });
+});
+
+describe('VendorProfileService.learnFromReview', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.ocrJobFile.findUnique.mockResolvedValue({ result: JSON.stringify(extracted) });
+  });
+
+  it("creates the vendor's profile from its first reviewed invoice", async () => {
+    mockPrisma.vendorProfile.findUnique.mockResolvedValue(null);
+    mockPrisma.vendorProfile.findFirst.mockResolvedValue(null);
+
+    const changes = await VendorProfileService.learnFromReview('doc-1', reviewed, 'user-1');
+
+    expect(changes).toBe(4);
+    expect(mockPrisma.vendorProfile.create.mock.calls[0][0].data).toMatchObject({
+      vendorKey: 'links',
+      vendor: 'Links d.o.o.',
+      aliases: JSON.stringify(['links doo zagreb']),
+      serialNumberSource: JSON.stringify({ field: 'specifications', label: 'S/N:' }),
+      reviewsLearned: 1,
+      updatedById: 'user-1',
+    });
+  });
+
+  it('learns from what the extractor read, not from corrections it already had applied', async () => {
+    mockPrisma.ocrJobFile.findUnique.mockResolvedValue({
+      result: JSON.stringify({ vendor: 'Links d.o.o.', currency: 'EUR' }),
+      rawResult: JSON.stringify({ vendor: 'Links d.o.o.', currency: 'USD' }),
+    });
+    mockPrisma.vendorProfile.findUnique.mockResolvedValue(
+      profileRow({ fieldCorrections: JSON.stringify({ currency: [{ from: 'usd', to: 'EUR' }] }) })
+    );
+
+    await VendorProfileService.learnFromReview('doc-1', { vendor: 'Links d.o.o.', currency: 'HRK' }, 'user-1');
+
+    expect(JSON.parse(mockPrisma.vendorProfile.update.mock.calls[0][0].data.fieldCorrections)).toEqual({
+      currency: [{ from: 'usd', to: 'HRK' }],
+    });
+  });
+
+  it('does not count a correction it already knew as something learned', async () => {
+    mockPrisma.ocrJobFile.findUnique.mockResolvedValue({
+      result: JSON.stringify({ vendor: 'Links d.o.o.', currency: 'EUR' }),
+      rawResult: JSON.stringify({ vendor: 'Links d.o.o.', currency: 'USD' }),
+    });
+    mockPrisma.vendorProfile.findUnique.mockResolvedValue(
+      profileRow({ fieldCorrections: JSON.stringify({ currency: [{ from: 'usd', to: 'EUR' }] }) })
+    );
+
+    expect(await VendorProfileService.learnFromReview('doc-1', { vendor: 'Links d.o.o.', currency: 'EUR' }, 'user-1')).toBe(0);
+    expect(mockPrisma.vendorProfile.update).not.toHaveBeenCalled();
+  });
+
+  it('skips invoices that were not extracted from a queued upload', async () => {
+    mockPrisma.ocrJobFile.findUnique.mockResolvedValue(null);
+
+    expect(await VendorProfileService.learnFromReview('doc-1', reviewed, 'user-1')).toBe(0);
+    expect(mockPrisma.vendorProfile.create).not.toHaveBeenCalled();
+  });
+});
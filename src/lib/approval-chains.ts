@@ -0,0 +1,744 @@
+// ABOUTME: Approval chain service for ProfiCo Inventory Management System
+// ABOUTME: Matches requests to admin-defined approval policies and moves them through each approval stage
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { RequestHistoryService } from "@/lib/request-history";
+import { ApprovalDelegationService } from "@/lib/approval-delegations";
+import {
+  currentApprovalStage,
+  isStageApprover,
+  parseStringList,
+  type ApprovalStageStatus,
+  type ApproverRole,
+} from "@/lib/approval-stages";
+
+export interface ApprovalStageData {
+  name: string;
+  approverRole?: ApproverRole | null;
+  approverId?: string | null;
+  skipPriorities: string[];
+}
+
+export interface ApprovalPolicyData {
+  name: string;
+  description?: string;
+  order: number;
+  isActive: boolean;
+  minBudget?: number | null;
+  maxBudget?: number | null;
+  priorities: string[];
+  equipmentType?: string | null;
+  teamId?: string | null;
+  stages: ApprovalStageData[];
+}
+
+export interface ApprovalRequestFacts {
+  budget: number | null;
+  priority: string;
+  equipmentType: string;
+  teamId: string | null;
+}
+
+export interface ApprovalReviewer {
+  id: string;
+  role: string;
+}
+
+/**
+ * How a user gets to decide a stage: as its approver, or as the delegate of an approver who is out of office
+ */
+export interface StageDecider {
+  delegation: { id: string; delegator: { id: string; name: string } } | null;
+}
+
+/**
+ * Raised when a policy cannot be saved or a request cannot move through its approval stages
+ */
+export class ApprovalChainError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApprovalChainError";
+  }
+}
+
+/**
+ * Raised when someone other than the current stage's approver tries to decide it
+ */
+export class ApprovalStageForbiddenError extends ApprovalChainError {
+  constructor(stageName: string) {
+    super(`Request is waiting on the ${stageName} stage, which you do not approve`);
+    this.name = "ApprovalStageForbiddenError";
+  }
+}
+
+// Requests no active policy matches go to their team lead, then an admin
+export const DEFAULT_APPROVAL_STAGES: ApprovalStageData[] = [
+  { name: "Team Lead", approverRole: "team_lead", skipPriorities: [] },
+  { name: "Admin", approverRole: "admin", skipPriorities: [] },
+];
+
+export const approvalPolicyInclude = {
+  team: {
+    select: { id: true, name: true },
+  },
+  stages: {
+    include: {
+      approver: {
+        select: { id: true, name: true, email: true, role: true },
+      },
+    },
+    orderBy: { position: "asc" },
+  },
+} satisfies Prisma.ApprovalPolicyInclude;
+
+export const requestApprovalInclude = {
+  approver: {
+    select: { id: true, name: true },
+  },
+  decidedBy: {
+    select: { id: true, name: true },
+  },
+  delegation: {
+    select: {
+      id: true,
+      delegator: { select: { id: true, name: true } },
+    },
+  },
+} satisfies Prisma.RequestApprovalInclude;
+
+type PolicyConditions = {
+  minBudget: number | null;
+  maxBudget: number | null;
+  priorities: string | null;
+  equipmentType: string | null;
+  teamId: string | null;
+};
+
+/**
+ * Whether a policy's conditions all hold for a request. Budget bounds only match requests with a budget;
+ * the minimum is inclusive and the maximum exclusive, so "under 200" and "200 or more" do not overlap.
+ */
+export function policyMatches(policy: PolicyConditions, facts: ApprovalRequestFacts): boolean {
+  if (policy.minBudget !== null && (facts.budget === null || facts.budget < policy.minBudget)) {
+    return false;
+  }
+
+  if (policy.maxBudget !== null && (facts.budget === null || facts.budget >= policy.maxBudget)) {
+    return false;
+  }
+
+  const priorities = parseStringList(policy.priorities);
+  if (priorities.length > 0 && !priorities.includes(facts.priority)) {
+    return false;
+  }
+
+  if (
+    policy.equipmentType &&
+    !facts.equipmentType.toLowerCase().includes(policy.equipmentType.toLowerCase())
+  ) {
+    return false;
+  }
+
+  return !policy.teamId || policy.teamId === facts.teamId;
+}
+
+function policyStagesCreate(stages: ApprovalStageData[]) {
+  return stages.map((stage, position) => ({
+    position,
+    name: stage.name,
+    approverRole: stage.approverId ? null : stage.approverRole ?? null,
+    approverId: stage.approverId ?? null,
+    skipPriorities: stage.skipPriorities.length > 0 ? JSON.stringify(stage.skipPriorities) : null,
+  }));
+}
+
+function policyFields(data: ApprovalPolicyData) {
+  return {
+    name: data.name,
+    description: data.description,
+    order: data.order,
+    isActive: data.isActive,
+    minBudget: data.minBudget ?? null,
+    maxBudget: data.maxBudget ?? null,
+    priorities: data.priorities.length > 0 ? JSON.stringify(data.priorities) : null,
+    equipmentType: data.equipmentType || null,
+    teamId: data.teamId ?? null,
+  };
+}
+
+function onBehalfOf(delegation: StageDecider["delegation"]) {
+  return delegation ? ` on behalf of ${delegation.delegator.name}` : "";
+}
+
+// Decisions a delegate makes record whose approval they stood in for
+function delegationMetadata(delegation: StageDecider["delegation"]) {
+  return delegation ? { delegationId: delegation.id, onBehalfOf: delegation.delegator } : {};
+}
+
+/**
+ * Approval chain service: each request gets its own copy of the matching policy's stages
+ * and moves through them one decision at a time
+ */
+export class ApprovalChainService {
+  static async list() {
+    return prisma.approvalPolicy.findMany({
+      include: approvalPolicyInclude,
+      orderBy: [{ order: "asc" }, { name: "asc" }],
+    });
+  }
+
+  static async create(data: ApprovalPolicyData, createdById: string) {
+    await this.assertNameFree(data.name);
+    await this.assertApprovers(data.stages);
+
+    return prisma.approvalPolicy.create({
+      data: {
+        ...policyFields(data),
+        createdById,
+        stages: { create: policyStagesCreate(data.stages) },
+      },
+      include: approvalPolicyInclude,
+    });
+  }
+
+  /**
+   * Replace a policy's conditions and stages. Requests already routed keep their own stages.
+   */
+  static async update(id: string, data: ApprovalPolicyData) {
+    const existing = await prisma.approvalPolicy.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return null;
+    }
+
+    await this.assertNameFree(data.name, id);
+    await this.assertApprovers(data.stages);
+
+    return prisma.$transaction(async (tx) => {
+      await tx.approvalPolicyStage.deleteMany({ where: { policyId: id } });
+
+      return tx.approvalPolicy.update({
+        where: { id },
+        data: {
+          ...policyFields(data),
+          stages: { create: policyStagesCreate(data.stages) },
+        },
+        include: approvalPolicyInclude,
+      });
+    });
+  }
+
+  static async delete(id: string) {
+    const existing = await prisma.approvalPolicy.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return null;
+    }
+
+    return prisma.approvalPolicy.delete({ where: { id } });
+  }
+
+  /**
+   * The first active policy, by order, whose conditions match the request
+   */
+  static async matchPolicy(facts: ApprovalRequestFacts, client: Prisma.TransactionClient = prisma) {
+    const policies = await client.approvalPolicy.findMany({
+      where: { isActive: true },
+      include: { stages: { orderBy: { position: "asc" } } },
+      orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+    });
+
+    return policies.find((policy) => policyMatches(policy, facts)) ?? null;
+  }
+
+  /**
+   * Active users who can decide a stage: the named approver, the requester's team leads
+   * (every team lead when the requester has no team), or every admin. Approvers who are
+   * out of office are replaced by their delegates.
+   */
+  static async approvers(
+    stage: { approverRole: string | null; approverId: string | null },
+    requesterTeamId: string | null,
+    client: Prisma.TransactionClient = prisma
+  ) {
+    const select = { id: true, name: true, email: true };
+
+    const approvers = stage.approverId
+      ? await client.user.findMany({ where: { id: stage.approverId, isActive: true }, select })
+      : await client.user.findMany({
+          where:
+            stage.approverRole === "team_lead"
+              ? { role: "team_lead", isActive: true, ...(requesterTeamId && { teamId: requesterTeamId }) }
+              : { role: "admin", isActive: true },
+          select,
+        });
+
+    return ApprovalDelegationService.routeToDelegates(approvers, client);
+  }
+
+  /**
+   * Route a new request through the stages of the policy that matches it. Stages skipped for the
+   * request's priority are recorded as skipped; with nothing left to decide the request is approved.
+   */
+  static async start(client: Prisma.TransactionClient, requestId: string, userId: string) {
+    const facts = await this.requestFacts(client, requestId);
+    const policy = await this.matchPolicy(facts, client);
+
+    const stages: ApprovalStageData[] = policy
+      ? policy.stages.map((stage) => ({
+          name: stage.name,
+          approverRole: stage.approverRole as ApproverRole | null,
+          approverId: stage.approverId,
+          skipPriorities: parseStringList(stage.skipPriorities),
+        }))
+      : DEFAULT_APPROVAL_STAGES;
+
+    return this.createChain(client, requestId, userId, facts, stages, policy);
+  }
+
+  /**
+   * A request's approval stages, creating the default chain for requests made before policies existed.
+   * A team lead approval already given on such a request counts as the first stage.
+   */
+  static async ensureChain(client: Prisma.TransactionClient, requestId: string, userId: string) {
+    const existing = await client.requestApproval.findMany({
+      where: { requestId },
+      orderBy: { position: "asc" },
+    });
+
+    if (existing.length > 0) {
+      return existing;
+    }
+
+    const facts = await this.requestFacts(client, requestId);
+    const request = await client.equipmentRequest.findUnique({
+      where: { id: requestId },
+      select: { teamLeadApproval: true },
+    });
+
+    await this.createChain(
+      client,
+      requestId,
+      userId,
+      facts,
+      DEFAULT_APPROVAL_STAGES,
+      null,
+      request?.teamLeadApproval === true ? 1 : 0
+    );
+
+    return client.requestApproval.findMany({
+      where: { requestId },
+      orderBy: { position: "asc" },
+    });
+  }
+
+  /**
+   * Whether the user decides this stage of the request, themselves or for an approver who is out of office
+   */
+  static async canDecide(
+    user: ApprovalReviewer,
+    stage: { approverRole: string | null; approverId: string | null },
+    requesterId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<boolean> {
+    return (await this.stageDecider(user, stage, requesterId, client)) !== null;
+  }
+
+  /**
+   * How the user gets to decide this stage, or null when they do not. Their own right comes first;
+   * otherwise they decide for an approver whose out-of-office delegation names them.
+   */
+  static async stageDecider(
+    user: ApprovalReviewer,
+    stage: { approverRole: string | null; approverId: string | null },
+    requesterId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<StageDecider | null> {
+    if (await this.decidesAsApprover(user, stage, requesterId, client)) {
+      return { delegation: null };
+    }
+
+    const delegations = await ApprovalDelegationService.activeForDelegate(user.id, client);
+
+    for (const delegation of delegations) {
+      if (await this.decidesAsApprover(delegation.delegator, stage, requesterId, client)) {
+        return {
+          delegation: {
+            id: delegation.id,
+            delegator: { id: delegation.delegator.id, name: delegation.delegator.name },
+          },
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Team lead stages belong to the requester's team leads; requesters without a team can be
+   * approved by any team lead
+   */
+  private static async decidesAsApprover(
+    user: ApprovalReviewer,
+    stage: { approverRole: string | null; approverId: string | null },
+    requesterId: string,
+    client: Prisma.TransactionClient
+  ): Promise<boolean> {
+    if (!isStageApprover(stage, user)) {
+      return false;
+    }
+
+    if (stage.approverId || stage.approverRole !== "team_lead") {
+      return true;
+    }
+
+    const [reviewer, requester] = await Promise.all([
+      client.user.findUnique({ where: { id: user.id }, select: { teamId: true } }),
+      client.user.findUnique({ where: { id: requesterId }, select: { teamId: true } }),
+    ]);
+
+    return !requester?.teamId || requester.teamId === reviewer?.teamId;
+  }
+
+  /**
+   * Approve the current stage and open the next one, or approve the request when it was the last
+   */
+  static async approve(requestId: string, user: ApprovalReviewer, notes?: string) {
+    return prisma.$transaction(async (tx) => {
+      const { approvals, stage, delegation } = await this.reviewableStage(tx, requestId, user);
+      const nextStage = approvals.find((step) => step.position > stage.position && step.status === "waiting") ?? null;
+      const status = nextStage ? "pending" : "approved";
+
+      await tx.requestApproval.update({
+        where: { id: stage.id },
+        data: {
+          status: "approved",
+          decidedById: user.id,
+          decidedAt: new Date(),
+          delegationId: delegation?.id ?? null,
+          notes,
+        },
+      });
+
+      if (nextStage) {
+        await tx.requestApproval.update({
+          where: { id: nextStage.id },
+          data: { status: "pending", openedAt: new Date() },
+        });
+      }
+
+      // The two approval flags are kept for screens that still read them
+      await tx.equipmentRequest.update({
+        where: { id: requestId },
+        data: {
+          status,
+          approverId: user.id,
+          ...(notes && { approvalNotes: notes }),
+          ...(stage.approverRole === "team_lead" && { teamLeadApproval: true }),
+          ...(stage.approverRole === "admin" && { adminApproval: true }),
+        },
+      });
+
+      await RequestHistoryService.createHistoryEntry(
+        {
+          requestId,
+          userId: user.id,
+          action: "stage_approved",
+          oldStatus: "pending",
+          newStatus: status,
+          notes: notes || `${stage.name} approved${onBehalfOf(delegation)}`,
+          metadata: {
+            stage: stage.name,
+            position: stage.position,
+            nextStage: nextStage?.name,
+            ...delegationMetadata(delegation),
+          },
+        },
+        tx
+      );
+
+      return { status, stage, nextStage };
+    });
+  }
+
+  /**
+   * Reject the request at its current stage. Admins can reject whichever stage it is waiting on.
+   */
+  static async reject(requestId: string, user: ApprovalReviewer, reason: string, notes?: string) {
+    return prisma.$transaction(async (tx) => {
+      const { stage, delegation } = await this.reviewableStage(tx, requestId, user, user.role === "admin");
+
+      await tx.requestApproval.update({
+        where: { id: stage.id },
+        data: {
+          status: "rejected",
+          decidedById: user.id,
+          decidedAt: new Date(),
+          delegationId: delegation?.id ?? null,
+          notes: notes || reason,
+        },
+      });
+
+      await tx.equipmentRequest.update({
+        where: { id: requestId },
+        data: {
+          status: "rejected",
+          approverId: user.id,
+          rejectionReason: reason,
+          ...(notes && { approvalNotes: notes }),
+          ...(user.role === "team_lead" && { teamLeadApproval: false }),
+          ...(user.role === "admin" && { adminApproval: false }),
+        },
+      });
+
+      await RequestHistoryService.createHistoryEntry(
+        {
+          requestId,
+          userId: user.id,
+          action: "stage_rejected",
+          oldStatus: "pending",
+          newStatus: "rejected",
+          notes: notes || `${stage.name} rejected${onBehalfOf(delegation)}`,
+          metadata: {
+            stage: stage.name,
+            position: stage.position,
+            rejectionReason: reason,
+            ...delegationMetadata(delegation),
+          },
+        },
+        tx
+      );
+
+      return { status: "rejected", stage };
+    });
+  }
+
+  /**
+   * Filter for pending requests waiting on this user: stages named for them, role stages for
+   * their role (team leads only for their own team and requesters without one), and requests
+   * made before policies existed that are still at the matching step of the default chain.
+   * The same goes for every approver the user is covering for while they are out of office.
+   */
+  static async pendingApprovalWhere(
+    user: ApprovalReviewer & { teamId?: string | null }
+  ): Promise<Prisma.EquipmentRequestWhereInput> {
+    const teamId =
+      user.teamId !== undefined
+        ? user.teamId
+        : (await prisma.user.findUnique({ where: { id: user.id }, select: { teamId: true } }))?.teamId ?? null;
+    const delegations = await ApprovalDelegationService.activeForDelegate(user.id);
+
+    return {
+      status: "pending",
+      OR: [
+        ...this.approvalQueue({ id: user.id, role: user.role, teamId }),
+        ...delegations.flatMap((delegation) => this.approvalQueue(delegation.delegator)),
+      ],
+    };
+  }
+
+  private static approvalQueue(
+    user: ApprovalReviewer & { teamId: string | null }
+  ): Prisma.EquipmentRequestWhereInput[] {
+    const { teamId } = user;
+    const teamScope = { OR: [...(teamId ? [{ teamId }] : []), { teamId: null }] };
+    const waitingOn = (stage: Prisma.RequestApprovalWhereInput) => ({
+      approvals: { some: { status: "pending", ...stage } },
+    });
+
+    const roleStages: Prisma.EquipmentRequestWhereInput =
+      user.role === "team_lead"
+        ? { ...waitingOn({ approverId: null, approverRole: "team_lead" }), requester: teamScope }
+        : waitingOn({ approverId: null, approverRole: user.role });
+
+    const unrouted: Prisma.EquipmentRequestWhereInput =
+      user.role === "admin"
+        ? { approvals: { none: {} }, teamLeadApproval: true, adminApproval: null }
+        : { approvals: { none: {} }, teamLeadApproval: null, requester: teamScope };
+
+    return [waitingOn({ approverId: user.id }), roleStages, unrouted];
+  }
+
+  private static async requestFacts(client: Prisma.TransactionClient, requestId: string): Promise<ApprovalRequestFacts> {
+    const request = await client.equipmentRequest.findUnique({
+      where: { id: requestId },
+      select: {
+        budget: true,
+        priority: true,
+        equipmentType: true,
+        requester: { select: { teamId: true } },
+      },
+    });
+
+    if (!request) {
+      throw new ApprovalChainError("Request not found");
+    }
+
+    return {
+      budget: request.budget,
+      priority: request.priority,
+      equipmentType: request.equipmentType,
+      teamId: request.requester.teamId,
+    };
+  }
+
+  private static async createChain(
+    client: Prisma.TransactionClient,
+    requestId: string,
+    userId: string,
+    facts: ApprovalRequestFacts,
+    stages: ApprovalStageData[],
+    policy: { id: string; name: string } | null,
+    alreadyApproved = 0
+  ) {
+    let opened = false;
+    const now = new Date();
+    const steps = stages.map((stage, position) => {
+      let status: ApprovalStageStatus = "waiting";
+      if (position < alreadyApproved) {
+        status = "approved";
+      } else if (stage.skipPriorities.includes(facts.priority)) {
+        status = "skipped";
+      } else if (!opened) {
+        opened = true;
+        status = "pending";
+      }
+
+      return {
+        requestId,
+        position,
+        name: stage.name,
+        approverRole: stage.approverId ? null : stage.approverRole ?? null,
+        approverId: stage.approverId ?? null,
+        status,
+        openedAt: status === "pending" ? now : null,
+      };
+    });
+
+    await client.requestApproval.createMany({ data: steps });
+
+    const status = opened ? "pending" : "approved";
+    await client.equipmentRequest.update({
+      where: { id: requestId },
+      data: {
+        approvalPolicyId: policy?.id ?? null,
+        ...(!opened && { status }),
+      },
+    });
+
+    const summary = await Promise.all(
+      steps.map(async (step) => ({
+        name: step.name,
+        status: step.status,
+        approvers: (await this.approvers(step, facts.teamId, client)).map((approver) =>
+          "onBehalfOf" in approver ? `${approver.name} (for ${approver.onBehalfOf.name})` : approver.name
+        ),
+      }))
+    );
+    const required = steps.filter((step) => step.status !== "skipped").map((step) => step.name);
+
+    await RequestHistoryService.createHistoryEntry(
+      {
+        requestId,
+        userId,
+        action: "approval_chain_started",
+        newStatus: status,
+        notes: `${policy ? `Approval policy "${policy.name}"` : "Default approval chain"}: ${
+          required.length > 0 ? required.join(" → ") : "no approval needed"
+        }`,
+        metadata: {
+          policyId: policy?.id,
+          policyName: policy?.name,
+          stages: summary,
+        },
+      },
+      client
+    );
+
+    for (const step of steps.filter((entry) => entry.status === "skipped")) {
+      await RequestHistoryService.createHistoryEntry(
+        {
+          requestId,
+          userId,
+          action: "stage_skipped",
+          newStatus: status,
+          notes: `${step.name} skipped for ${facts.priority} priority requests`,
+          metadata: { stage: step.name, position: step.position },
+        },
+        client
+      );
+    }
+
+    return { status, stages: steps };
+  }
+
+  private static async reviewableStage(
+    client: Prisma.TransactionClient,
+    requestId: string,
+    user: ApprovalReviewer,
+    anyStage = false
+  ) {
+    const request = await client.equipmentRequest.findUnique({
+      where: { id: requestId },
+      select: { status: true, requesterId: true },
+    });
+
+    if (!request) {
+      throw new ApprovalChainError("Request not found");
+    }
+
+    if (request.status !== "pending") {
+      throw new ApprovalChainError(`Request cannot be reviewed - current status: ${request.status}`);
+    }
+
+    const approvals = await this.ensureChain(client, requestId, user.id);
+    const stage = currentApprovalStage(approvals);
+
+    if (!stage) {
+      throw new ApprovalChainError("Request has no approval stage waiting on a decision");
+    }
+
+    const decider = await this.stageDecider(user, stage, request.requesterId, client);
+
+    if (!decider && !anyStage) {
+      throw new ApprovalStageForbiddenError(stage.name);
+    }
+
+    return { approvals, stage, delegation: decider?.delegation ?? null };
+  }
+
+  private static async assertNameFree(name: string, exceptId?: string) {
+    const existing = await prisma.approvalPolicy.findUnique({
+      where: { name },
+      select: { id: true },
+    });
+
+    if (existing && existing.id !== exceptId) {
+      throw new ApprovalChainError("An approval policy with this name already exists");
+    }
+  }
+
+  // Named approvers go through the approval endpoints, which only team leads and admins can use
+  private static async assertApprovers(stages: ApprovalStageData[]) {
+    const approverIds = [...new Set(stages.map((stage) => stage.approverId).filter((id): id is string => !!id))];
+    if (approverIds.length === 0) {
+      return;
+    }
+
+    const approvers = await prisma.user.findMany({
+      where: { id: { in: approverIds }, isActive: true, role: { in: ["team_lead", "admin"] } },
+      select: { id: true },
+    });
+
+    if (approvers.length !== approverIds.length) {
+      throw new ApprovalChainError("Named approvers must be active team leads or admins");
+    }
+  }
+}
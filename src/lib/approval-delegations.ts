@@ -0,0 +1,252 @@
+// ABOUTME: Approval delegation service for ProfiCo Inventory Management System
+// ABOUTME: Records approvers' out-of-office windows and routes their approvals to a delegate in the meantime
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export interface ApprovalDelegationData {
+  delegateId: string;
+  startsAt: Date;
+  endsAt: Date;
+  reason?: string;
+}
+
+/**
+ * A delegate standing in for an approver who is out of office
+ */
+export interface DelegatedApprover {
+  id: string;
+  name: string;
+  email: string;
+  delegationId: string;
+  onBehalfOf: { id: string; name: string };
+}
+
+/**
+ * Raised when an out-of-office window cannot be recorded or changed
+ */
+export class ApprovalDelegationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApprovalDelegationError";
+  }
+}
+
+/**
+ * Raised when someone other than the absent approver or an admin tries to change their delegation
+ */
+export class ApprovalDelegationForbiddenError extends ApprovalDelegationError {
+  constructor() {
+    super("You can only change your own out-of-office delegations");
+    this.name = "ApprovalDelegationForbiddenError";
+  }
+}
+
+// Only people who approve requests can hand approvals over or pick them up
+const APPROVER_ROLES = ["team_lead", "admin"];
+
+export const approvalDelegationInclude = {
+  delegator: {
+    select: { id: true, name: true, email: true, role: true },
+  },
+  delegate: {
+    select: { id: true, name: true, email: true, role: true },
+  },
+  createdBy: {
+    select: { id: true, name: true },
+  },
+} satisfies Prisma.ApprovalDelegationInclude;
+
+/**
+ * Delegations in force at a moment: not cancelled, inside their window and with a delegate still active
+ */
+function activeAt(at: Date): Prisma.ApprovalDelegationWhereInput {
+  return {
+    cancelledAt: null,
+    startsAt: { lte: at },
+    endsAt: { gt: at },
+    delegate: { isActive: true },
+  };
+}
+
+/**
+ * Approval delegation service: while an approver is out of office their approvals and
+ * approval notifications go to the delegate they picked. Delegation is one level deep;
+ * a delegate's own delegate does not pick up the approvals they are covering.
+ */
+export class ApprovalDelegationService {
+  /**
+   * Delegations the user gave or received, newest window first. Admins see everyone's.
+   */
+  static async list(user: { id: string; role: string }) {
+    return prisma.approvalDelegation.findMany({
+      where: user.role === "admin" ? undefined : { OR: [{ delegatorId: user.id }, { delegateId: user.id }] },
+      include: approvalDelegationInclude,
+      orderBy: { startsAt: "desc" },
+    });
+  }
+
+  /**
+   * Record an out-of-office window for an approver. The window must not overlap another of theirs,
+   * and the delegate must not be out of office themselves during it.
+   */
+  static async create(delegatorId: string, data: ApprovalDelegationData, createdById: string) {
+    if (data.endsAt <= data.startsAt) {
+      throw new ApprovalDelegationError("The out-of-office window must end after it starts");
+    }
+
+    if (data.endsAt <= new Date()) {
+      throw new ApprovalDelegationError("The out-of-office window is already over");
+    }
+
+    if (data.delegateId === delegatorId) {
+      throw new ApprovalDelegationError("You cannot delegate approvals to yourself");
+    }
+
+    const [delegator, delegate] = await Promise.all([
+      prisma.user.findUnique({ where: { id: delegatorId }, select: { role: true, isActive: true } }),
+      prisma.user.findUnique({ where: { id: data.delegateId }, select: { name: true, role: true, isActive: true } }),
+    ]);
+
+    if (!delegator?.isActive || !APPROVER_ROLES.includes(delegator.role)) {
+      throw new ApprovalDelegationError("Only active team leads and admins can delegate approvals");
+    }
+
+    if (!delegate?.isActive || !APPROVER_ROLES.includes(delegate.role)) {
+      throw new ApprovalDelegationError("Approvals can only be delegated to an active team lead or admin");
+    }
+
+    const overlapping = {
+      cancelledAt: null,
+      startsAt: { lt: data.endsAt },
+      endsAt: { gt: data.startsAt },
+    };
+
+    const [ownOverlap, delegateAway] = await Promise.all([
+      prisma.approvalDelegation.findFirst({ where: { delegatorId, ...overlapping }, select: { id: true } }),
+      prisma.approvalDelegation.findFirst({ where: { delegatorId: data.delegateId, ...overlapping }, select: { id: true } }),
+    ]);
+
+    if (ownOverlap) {
+      throw new ApprovalDelegationError("This window overlaps another out-of-office delegation");
+    }
+
+    if (delegateAway) {
+      throw new ApprovalDelegationError(`${delegate.name} is out of office during this window`);
+    }
+
+    return prisma.approvalDelegation.create({
+      data: {
+        delegatorId,
+        delegateId: data.delegateId,
+        startsAt: data.startsAt,
+        endsAt: data.endsAt,
+        reason: data.reason || null,
+        createdById,
+      },
+      include: approvalDelegationInclude,
+    });
+  }
+
+  /**
+   * Cancel a delegation that has not ended yet. The row is kept so decisions made under it stay traceable.
+   */
+  static async cancel(id: string, user: { id: string; role: string }) {
+    const delegation = await prisma.approvalDelegation.findUnique({
+      where: { id },
+      select: { delegatorId: true, endsAt: true, cancelledAt: true },
+    });
+
+    if (!delegation) {
+      return null;
+    }
+
+    if (delegation.delegatorId !== user.id && user.role !== "admin") {
+      throw new ApprovalDelegationForbiddenError();
+    }
+
+    if (delegation.cancelledAt || delegation.endsAt <= new Date()) {
+      throw new ApprovalDelegationError("This delegation has already ended");
+    }
+
+    return prisma.approvalDelegation.update({
+      where: { id },
+      data: { cancelledAt: new Date() },
+      include: approvalDelegationInclude,
+    });
+  }
+
+  /**
+   * Delegations in force for approvers who are out of office
+   */
+  static async activeForDelegators(
+    delegatorIds: string[],
+    client: Prisma.TransactionClient = prisma,
+    at = new Date()
+  ) {
+    return client.approvalDelegation.findMany({
+      where: { delegatorId: { in: delegatorIds }, ...activeAt(at) },
+      include: {
+        delegator: { select: { id: true, name: true } },
+        delegate: { select: { id: true, name: true, email: true } },
+      },
+    });
+  }
+
+  /**
+   * Delegations in force where the user is covering for an approver, with what is needed to act as them
+   */
+  static async activeForDelegate(
+    delegateId: string,
+    client: Prisma.TransactionClient = prisma,
+    at = new Date()
+  ) {
+    return client.approvalDelegation.findMany({
+      where: { delegateId, ...activeAt(at) },
+      include: {
+        delegator: { select: { id: true, name: true, role: true, teamId: true } },
+      },
+    });
+  }
+
+  /**
+   * Swap approvers who are out of office for their delegates, keeping everyone else and dropping duplicates
+   */
+  static async routeToDelegates<T extends { id: string }>(
+    approvers: T[],
+    client: Prisma.TransactionClient = prisma,
+    at = new Date()
+  ): Promise<Array<T | DelegatedApprover>> {
+    if (approvers.length === 0) {
+      return approvers;
+    }
+
+    const delegations = await this.activeForDelegators(
+      approvers.map((approver) => approver.id),
+      client,
+      at
+    );
+
+    if (delegations.length === 0) {
+      return approvers;
+    }
+
+    const away = new Map(delegations.map((delegation) => [delegation.delegatorId, delegation]));
+    const seen = new Set<string>();
+    const routed: Array<T | DelegatedApprover> = [];
+
+    for (const approver of approvers) {
+      const delegation = away.get(approver.id);
+      const recipient: T | DelegatedApprover = delegation
+        ? { ...delegation.delegate, delegationId: delegation.id, onBehalfOf: delegation.delegator }
+        : approver;
+
+      if (!seen.has(recipient.id)) {
+        seen.add(recipient.id);
+        routed.push(recipient);
+      }
+    }
+
+    return routed;
+  }
+}
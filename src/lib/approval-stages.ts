@@ -0,0 +1,58 @@
+// ABOUTME: Approval stage helpers shared by the approval chain service and the request pages
+// ABOUTME: Works out a request's current stage and whether a user is the one who decides it
+
+export type ApproverRole = "team_lead" | "admin";
+
+export type ApprovalStageStatus = "waiting" | "pending" | "approved" | "rejected" | "skipped";
+
+export interface ApprovalStep {
+  id: string;
+  position: number;
+  name: string;
+  approverRole: string | null;
+  approverId: string | null;
+  status: string;
+}
+
+export const approverRoleLabels: Record<ApproverRole, string> = {
+  team_lead: "Team lead",
+  admin: "Admin",
+};
+
+/**
+ * The stage waiting on a decision, if the chain is still open
+ */
+export function currentApprovalStage<T extends Pick<ApprovalStep, "status">>(approvals: T[]): T | undefined {
+  return approvals.find((stage) => stage.status === "pending");
+}
+
+/**
+ * Whether the user decides this stage. Named approvers decide their own stages; otherwise the
+ * stage's role does. Team scoping for team lead stages is checked by the approval chain service.
+ */
+export function isStageApprover(
+  stage: Pick<ApprovalStep, "approverRole" | "approverId">,
+  user: { id: string; role: string }
+): boolean {
+  if (stage.approverId) {
+    return stage.approverId === user.id;
+  }
+
+  return stage.approverRole === user.role;
+}
+
+/**
+ * Parse a JSON array column, treating missing or malformed values as empty
+ */
+export function parseStringList(value: string | null | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((entry): entry is string => typeof entry === "string") : [];
+  } catch {
+    return [];
+  }
+}
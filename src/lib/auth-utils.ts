@@ -37,6 +37,18 @@ export function canAccessReports(userRole: UserRole): boolean {
   return userRole === "admin" || userRole === "team_lead";
 }
 
+export function canViewUsers(userRole: UserRole): boolean {
+  return userRole === "admin" || userRole === "team_lead";
+}
+
+export function canManageTeams(userRole: UserRole): boolean {
+  return userRole === "admin";
+}
+
+export function canManageSubscriptions(userRole: UserRole): boolean {
+  return userRole === "admin" || userRole === "team_lead";
+}
+
 export function getRoleDisplayName(role: UserRole): string {
   switch (role) {
     case "admin":
@@ -0,0 +1,136 @@
+// ABOUTME: Authorization policies for ProfiCo Inventory Management System
+// ABOUTME: Declarative route and resource policies built on the auth-utils role helpers
+
+import { prisma } from "@/lib/prisma";
+import {
+  canAccessAdminRoutes,
+  canAccessReports,
+  canApproveRequests,
+  canManageEquipment,
+  canManageSubscriptions,
+  canManageTeams,
+  canManageUsers,
+  canViewAllEquipment,
+  canViewUsers,
+} from "@/lib/auth-utils";
+import { type UserRole } from "@/types";
+
+export interface PolicyUser {
+  id: string;
+  role: UserRole;
+}
+
+/**
+ * Who may call a route at all; checked by withSecurity before the handler runs
+ */
+export interface RoutePolicy {
+  name: string;
+  description: string;
+  /** Anonymous callers are let through */
+  public?: boolean;
+  allows(user: PolicyUser): boolean;
+}
+
+/**
+ * The person a record belongs to, e.g. an equipment owner or a requester
+ */
+export interface ResourceOwner {
+  id: string | null;
+  teamId: string | null;
+}
+
+/**
+ * Who may act on one record; checked inside the handler once the record is loaded
+ */
+export interface ResourcePolicy {
+  name: string;
+  description: string;
+  /** Compares team membership, so both teams are looked up before checking */
+  teamScoped?: boolean;
+  allows(user: PolicyUser & { teamId: string | null }, owner: ResourceOwner): boolean;
+}
+
+function rolePolicy(
+  name: string,
+  description: string,
+  check: (role: UserRole) => boolean
+): RoutePolicy {
+  return { name, description, allows: (user) => check(user.role) };
+}
+
+export const policies = {
+  public: {
+    name: "public",
+    description: "Anyone, signed in or not",
+    public: true,
+    allows: () => true,
+  },
+  authenticated: rolePolicy("authenticated", "Any signed-in user", () => true),
+  manageEquipment: rolePolicy("manageEquipment", "Team leads and admins", canManageEquipment),
+  viewAllEquipment: rolePolicy("viewAllEquipment", "Team leads and admins", canViewAllEquipment),
+  approveRequests: rolePolicy("approveRequests", "Team leads and admins", canApproveRequests),
+  viewReports: rolePolicy("viewReports", "Team leads and admins", canAccessReports),
+  viewUsers: rolePolicy("viewUsers", "Team leads and admins", canViewUsers),
+  manageSubscriptions: rolePolicy("manageSubscriptions", "Team leads and admins", canManageSubscriptions),
+  manageUsers: rolePolicy("manageUsers", "Admins only", canManageUsers),
+  manageTeams: rolePolicy("manageTeams", "Admins only", canManageTeams),
+  admin: rolePolicy("admin", "Admins only", canAccessAdminRoutes),
+} satisfies Record<string, RoutePolicy>;
+
+export type PolicyName = keyof typeof policies;
+
+export const resourcePolicies = {
+  ownerOrManager: {
+    name: "ownerOrManager",
+    description: "The owner, any team lead or an admin",
+    allows: (user, owner) => owner.id === user.id || canViewAllEquipment(user.role),
+  },
+  ownerOrTeamLead: {
+    name: "ownerOrTeamLead",
+    description: "The owner, the team lead of the owner's team or an admin",
+    teamScoped: true,
+    allows: (user, owner) => {
+      if (user.role === "admin" || owner.id === user.id) {
+        return true;
+      }
+      if (user.role !== "team_lead") {
+        return false;
+      }
+      // Records without an owner or owners without a team are open to every team lead
+      return !owner.teamId || owner.teamId === user.teamId;
+    },
+  },
+} satisfies Record<string, ResourcePolicy>;
+
+async function getTeamId(userId: string | null | undefined): Promise<string | null> {
+  if (!userId) {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { teamId: true },
+  });
+
+  return user?.teamId ?? null;
+}
+
+/**
+ * Check a resource policy against the record's owner, loading team membership only when needed
+ */
+export async function authorizeResource(
+  user: PolicyUser,
+  policy: ResourcePolicy,
+  ownerId: string | null | undefined
+): Promise<boolean> {
+  const needsTeams =
+    policy.teamScoped && user.role === "team_lead" && !!ownerId && ownerId !== user.id;
+  const [userTeamId, ownerTeamId] = needsTeams
+    ? await Promise.all([getTeamId(user.id), getTeamId(ownerId)])
+    : [null, null];
+
+  return policy.allows(
+    { ...user, teamId: userTeamId },
+    { id: ownerId ?? null, teamId: ownerTeamId }
+  );
+}
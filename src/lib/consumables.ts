@@ -0,0 +1,158 @@
+// ABOUTME: Consumable stock service for ProfiCo Inventory Management System
+// ABOUTME: Records attributed stock movements for small-inventory items and reports low stock
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export type StockMovementType = "check_in" | "check_out" | "adjustment";
+
+export interface StockMovementData {
+  type: StockMovementType;
+  quantity: number; // Positive units for check-in/out, signed delta for adjustments
+  reason: string;
+  recipientId?: string;
+  requestId?: string;
+}
+
+export interface StockLevel {
+  currentStock: number;
+  minStock: number;
+}
+
+/**
+ * Raised when a movement would take an item below zero stock
+ */
+export class InsufficientStockError extends Error {
+  constructor(
+    public readonly available: number,
+    public readonly requested: number
+  ) {
+    super(`Insufficient stock: ${available} available, ${requested} requested`);
+    this.name = "InsufficientStockError";
+  }
+}
+
+const movementInclude = {
+  performedBy: {
+    select: { id: true, name: true, email: true },
+  },
+  recipient: {
+    select: { id: true, name: true, email: true },
+  },
+  request: {
+    select: { id: true, equipmentType: true, status: true },
+  },
+};
+
+/**
+ * Convert a movement into the signed change it applies to stock
+ */
+export function getStockDelta(type: StockMovementType, quantity: number): number {
+  switch (type) {
+    case "check_in":
+      return Math.abs(quantity);
+    case "check_out":
+      return -Math.abs(quantity);
+    default:
+      return quantity;
+  }
+}
+
+/**
+ * An item is low on stock once it falls below its configured minimum.
+ * Items with a minimum of zero never alert.
+ */
+export function isLowStock(item: StockLevel): boolean {
+  return item.minStock > 0 && item.currentStock < item.minStock;
+}
+
+/**
+ * Consumable stock service for cables, adapters, mice and similar unserialized items
+ */
+export class ConsumableStockService {
+  /**
+   * Apply a stock movement and record who made it and why.
+   * Runs inside the given transaction when called from a larger workflow such as request fulfilment.
+   */
+  static async recordMovement(
+    itemId: string,
+    data: StockMovementData,
+    userId: string,
+    tx?: Prisma.TransactionClient
+  ) {
+    const apply = async (client: Prisma.TransactionClient) => {
+      const delta = getStockDelta(data.type, data.quantity);
+
+      // Conditional decrement so two concurrent check-outs cannot both take the last unit
+      const updated = await client.smallInventoryItem.updateMany({
+        where: {
+          id: itemId,
+          ...(delta < 0 ? { currentStock: { gte: -delta } } : {}),
+        },
+        data: { currentStock: { increment: delta } },
+      });
+
+      const item = await client.smallInventoryItem.findUnique({ where: { id: itemId } });
+      if (!item) {
+        throw new Error("Consumable not found");
+      }
+
+      if (updated.count === 0) {
+        throw new InsufficientStockError(item.currentStock, -delta);
+      }
+
+      const movement = await client.stockMovement.create({
+        data: {
+          itemId,
+          type: data.type,
+          quantity: delta,
+          balanceAfter: item.currentStock,
+          reason: data.reason,
+          performedById: userId,
+          recipientId: data.recipientId,
+          requestId: data.requestId,
+        },
+        include: movementInclude,
+      });
+
+      return { item, movement };
+    };
+
+    return tx ? apply(tx) : prisma.$transaction(apply);
+  }
+
+  /**
+   * Get the movement history for an item, newest first
+   */
+  static async getMovements(itemId: string, limit: number = 100) {
+    try {
+      return await prisma.stockMovement.findMany({
+        where: { itemId },
+        include: movementInclude,
+        orderBy: { createdAt: "desc" },
+        take: limit,
+      });
+    } catch (error) {
+      console.error("Failed to get stock movements:", error);
+      throw new Error("Failed to get stock movements");
+    }
+  }
+
+  /**
+   * Get all items currently below their minimum stock level
+   */
+  static async getLowStockItems() {
+    try {
+      // Prisma cannot compare two columns of the same row, so filter in memory
+      const items = await prisma.smallInventoryItem.findMany({
+        where: { minStock: { gt: 0 } },
+        orderBy: { name: "asc" },
+      });
+
+      return items.filter(isLowStock);
+    } catch (error) {
+      console.error("Failed to get low stock items:", error);
+      throw new Error("Failed to get low stock items");
+    }
+  }
+}
@@ -175,4 +175,47 @@ export const securePut = (url: string, data: unknown) => csrfManager.put(url, da
 export const securePatch = (url: string, data: unknown) => csrfManager.patch(url, data);
 export const secureDelete = (url: string) => csrfManager.delete(url);
 
+const STATE_CHANGING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+let fetchInstalled = false;
+
+/**
+ * Patch window.fetch so same-origin API calls that change state carry the CSRF token.
+ * A rejected token (e.g. after the cookie expired) is refreshed and the call retried once.
+ */
+export function installCsrfFetch(): void {
+  if (typeof window === 'undefined' || fetchInstalled) {
+    return;
+  }
+  fetchInstalled = true;
+
+  const originalFetch = window.fetch.bind(window);
+
+  window.fetch = async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = new URL(input instanceof Request ? input.url : input.toString(), window.location.origin);
+    const method = (init.method || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+
+    if (
+      url.origin !== window.location.origin ||
+      !url.pathname.startsWith('/api/') ||
+      !STATE_CHANGING_METHODS.includes(method)
+    ) {
+      return originalFetch(input, init);
+    }
+
+    const send = async () => {
+      const headers = new Headers(init.headers || (input instanceof Request ? input.headers : undefined));
+      headers.set('X-CSRF-Token', await csrfManager.getToken());
+      return originalFetch(input, { ...init, headers, credentials: 'include' });
+    };
+
+    const response = await send();
+    if (response.status === 403 && (await response.clone().text()).includes('CSRF')) {
+      csrfManager.clearToken();
+      return send();
+    }
+
+    return response;
+  };
+}
+
 export default csrfManager;
\ No newline at end of file
@@ -73,7 +73,6 @@ export class CSRFProtection {
     const exemptPaths = [
       '/api/auth/',
       '/api/webhooks/',
-      '/api/uploadthing/', // Uploadthing has its own CSRF protection
       '/api/export/',      // Export endpoints might be called from external systems
     ];
 
@@ -0,0 +1,360 @@
+// ABOUTME: Depreciation engine for ProfiCo Inventory Management System
+// ABOUTME: Straight-line, double-declining and custom schedules per item or category, shared by reports and book values
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { SystemSettingsService } from "@/lib/system-settings";
+
+export type DepreciationMethod = "straight_line" | "declining_balance" | "custom";
+
+export const DEPRECIATION_METHODS: DepreciationMethod[] = ["straight_line", "declining_balance", "custom"];
+
+export interface DepreciationPolicy {
+  method: DepreciationMethod;
+  usefulLifeMonths: number;
+  salvageValue: number;
+  /** Custom schedules only: share of the depreciable amount written off in each year */
+  schedule?: number[];
+}
+
+export interface DepreciationResult {
+  ageMonths: number;
+  accumulatedDepreciation: number;
+  bookValue: number;
+  /** Share of the purchase price written off so far */
+  depreciationRate: number;
+  fullyDepreciated: boolean;
+}
+
+interface CategoryDepreciation {
+  depreciationMethod: string;
+  usefulLifeMonths: number | null;
+  salvageRate: number;
+  depreciationSchedule: string | null;
+}
+
+/**
+ * The fields the engine needs from an equipment record, with its category and invoice
+ */
+export interface DepreciableEquipment {
+  purchasePrice: number | null;
+  purchaseDate: Date;
+  depreciationMethod: string | null;
+  usefulLifeMonths: number | null;
+  salvageValue: number | null;
+  depreciationSchedule: string | null;
+  categoryObj?: CategoryDepreciation | null;
+  invoice?: { depreciationPeriod: number } | null;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isMethod(method: string | null | undefined): method is DepreciationMethod {
+  return !!method && (DEPRECIATION_METHODS as string[]).includes(method);
+}
+
+export function parseSchedule(schedule: string | null | undefined): number[] | undefined {
+  if (!schedule) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(schedule);
+    return Array.isArray(parsed) && parsed.length > 0 && parsed.every((share) => typeof share === "number")
+      ? parsed
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Store a schedule as JSON; undefined leaves the stored value alone
+ */
+export function serializeSchedule(schedule: number[] | null | undefined): string | null | undefined {
+  if (schedule === undefined) {
+    return undefined;
+  }
+  return schedule && schedule.length > 0 ? JSON.stringify(schedule) : null;
+}
+
+/**
+ * Whole calendar months from purchase to the given date; a month counts once its day is reached
+ */
+export function monthsBetween(from: Date, to: Date): number {
+  let months = (to.getFullYear() - from.getFullYear()) * 12 + (to.getMonth() - from.getMonth());
+  if (to.getDate() < from.getDate()) {
+    months--;
+  }
+  return Math.max(months, 0);
+}
+
+/**
+ * Split an amount over a number of months in cents, with the last month taking the rounding remainder
+ */
+function spreadEvenly(amount: number, months: number): number[] {
+  const monthly = roundCents(amount / months);
+  const charges = Array<number>(months).fill(monthly);
+  charges[months - 1] = roundCents(amount - monthly * (months - 1));
+  return charges;
+}
+
+/**
+ * Depreciation charge for every month of the asset's life, in cents.
+ * Declining balance applies twice the straight-line rate to the book value at the start of each
+ * year and switches to straight-line once that writes off more, so it lands exactly on salvage value.
+ */
+export function getMonthlyCharges(purchasePrice: number, policy: DepreciationPolicy): number[] {
+  const depreciable = Math.max(purchasePrice - policy.salvageValue, 0);
+  const life = Math.max(Math.round(policy.usefulLifeMonths), 1);
+
+  if (depreciable === 0) {
+    return [];
+  }
+
+  if (policy.method === "custom" && policy.schedule) {
+    return policy.schedule.flatMap((share) => spreadEvenly(depreciable * share, 12));
+  }
+
+  if (policy.method === "declining_balance") {
+    const charges: number[] = [];
+    let bookValue = purchasePrice;
+
+    for (let month = 0; month < life; month += 12) {
+      const monthsLeft = life - month;
+      const yearMonths = Math.min(12, monthsLeft);
+      const decliningCharge = (bookValue * 2 * yearMonths) / life;
+      const straightLineCharge = ((bookValue - policy.salvageValue) * yearMonths) / monthsLeft;
+      const yearCharge = roundCents(
+        Math.min(Math.max(decliningCharge, straightLineCharge), bookValue - policy.salvageValue)
+      );
+
+      charges.push(...spreadEvenly(yearCharge, yearMonths));
+      bookValue = roundCents(bookValue - yearCharge);
+    }
+
+    return charges;
+  }
+
+  return spreadEvenly(depreciable, life);
+}
+
+/**
+ * Book value of one asset on a given date
+ */
+export function calculateDepreciation(
+  purchasePrice: number | null,
+  purchaseDate: Date,
+  policy: DepreciationPolicy,
+  asOf: Date = new Date()
+): DepreciationResult {
+  const cost = purchasePrice || 0;
+  const ageMonths = monthsBetween(purchaseDate, asOf);
+  const charges = getMonthlyCharges(cost, policy);
+  const accumulatedDepreciation = roundCents(
+    charges.slice(0, ageMonths).reduce((sum, charge) => sum + charge, 0)
+  );
+
+  return {
+    ageMonths,
+    accumulatedDepreciation,
+    bookValue: roundCents(cost - accumulatedDepreciation),
+    depreciationRate: cost > 0 ? accumulatedDepreciation / cost : 0,
+    fullyDepreciated: ageMonths >= charges.length,
+  };
+}
+
+/**
+ * Work out how an item depreciates. Settings on the item win, then the invoice it was bought on,
+ * then its category, then the system-wide default period.
+ */
+export function resolveDepreciationPolicy(
+  item: DepreciableEquipment,
+  defaultLifeMonths: number,
+  category: CategoryDepreciation | null = item.categoryObj ?? null
+): DepreciationPolicy {
+  const cost = item.purchasePrice || 0;
+  const method = isMethod(item.depreciationMethod)
+    ? item.depreciationMethod
+    : isMethod(category?.depreciationMethod)
+      ? category.depreciationMethod
+      : "straight_line";
+  const schedule = parseSchedule(item.depreciationSchedule) ?? parseSchedule(category?.depreciationSchedule);
+  const salvageValue = Math.min(Math.max(item.salvageValue ?? cost * (category?.salvageRate ?? 0), 0), cost);
+
+  if (method === "custom" && schedule) {
+    return { method, usefulLifeMonths: schedule.length * 12, salvageValue, schedule };
+  }
+
+  return {
+    // A custom method without a schedule has nothing to follow, so it is written off evenly
+    method: method === "custom" ? "straight_line" : method,
+    usefulLifeMonths:
+      item.usefulLifeMonths ??
+      item.invoice?.depreciationPeriod ??
+      category?.usefulLifeMonths ??
+      defaultLifeMonths,
+    salvageValue,
+  };
+}
+
+export const depreciationEquipmentSelect = {
+  id: true,
+  name: true,
+  serialNumber: true,
+  category: true,
+  status: true,
+  purchaseMethod: true,
+  purchaseDate: true,
+  purchasePrice: true,
+  currentValue: true,
+  depreciationMethod: true,
+  usefulLifeMonths: true,
+  salvageValue: true,
+  depreciationSchedule: true,
+  categoryObj: {
+    select: {
+      depreciationMethod: true,
+      usefulLifeMonths: true,
+      salvageRate: true,
+      depreciationSchedule: true,
+    },
+  },
+  invoice: {
+    select: { depreciationPeriod: true, invoiceNumber: true, vendor: true },
+  },
+  disposals: {
+    where: { status: "approved" },
+    select: { disposalDate: true, saleProceeds: true, reason: true },
+    take: 1,
+  },
+} satisfies Prisma.EquipmentSelect;
+
+export type ValuedEquipment = Prisma.EquipmentGetPayload<{ select: typeof depreciationEquipmentSelect }>;
+
+export type ApprovedDisposal = ValuedEquipment["disposals"][number];
+
+export interface EquipmentValuation extends DepreciationResult {
+  equipment: ValuedEquipment;
+  policy: DepreciationPolicy;
+  purchasePrice: number;
+  /** Approved disposal on or before the valuation date */
+  disposal: ApprovedDisposal | null;
+  /** Book value taken off the books when the item was disposed */
+  writtenOffValue: number;
+}
+
+export interface ValuationTotals {
+  equipmentCount: number;
+  originalValue: number;
+  currentValue: number;
+  depreciatedValue: number;
+  writtenOffValue: number;
+  depreciationRate: number;
+}
+
+/**
+ * Add up a set of valuations
+ */
+export function summarizeValuations(valuations: EquipmentValuation[]): ValuationTotals {
+  const originalValue = roundCents(valuations.reduce((sum, v) => sum + v.purchasePrice, 0));
+  const currentValue = roundCents(valuations.reduce((sum, v) => sum + v.bookValue, 0));
+  const writtenOffValue = roundCents(valuations.reduce((sum, v) => sum + v.writtenOffValue, 0));
+  const depreciatedValue = roundCents(originalValue - currentValue - writtenOffValue);
+
+  return {
+    equipmentCount: valuations.length,
+    originalValue,
+    currentValue,
+    depreciatedValue,
+    writtenOffValue,
+    depreciationRate: originalValue > 0 ? depreciatedValue / originalValue : 0,
+  };
+}
+
+/**
+ * Depreciation service: values equipment from the database and keeps currentValue in step
+ */
+export class DepreciationService {
+  /**
+   * Value every matching item on the given date
+   */
+  static async valueEquipment(
+    where: Prisma.EquipmentWhereInput = {},
+    asOf: Date = new Date()
+  ): Promise<EquipmentValuation[]> {
+    const [equipment, categories, defaultLifeMonths] = await Promise.all([
+      prisma.equipment.findMany({ where, select: depreciationEquipmentSelect }),
+      prisma.equipmentCategory.findMany(),
+      SystemSettingsService.get("defaultDepreciationPeriod"),
+    ]);
+
+    // Older items only carry the category name, so fall back to matching on it
+    const categoriesByName = new Map(categories.map((category) => [category.name.toLowerCase(), category]));
+
+    return equipment.map((item) => {
+      const category = item.categoryObj ?? categoriesByName.get(item.category.toLowerCase()) ?? null;
+      const policy = resolveDepreciationPolicy(item, defaultLifeMonths, category);
+      const disposal = item.disposals.find((approved) => approved.disposalDate <= asOf) ?? null;
+
+      // Disposed items stop depreciating on the disposal date and whatever was left is written off
+      const result = calculateDepreciation(
+        item.purchasePrice,
+        item.purchaseDate,
+        policy,
+        disposal?.disposalDate ?? asOf
+      );
+
+      return {
+        equipment: item,
+        policy,
+        purchasePrice: item.purchasePrice || 0,
+        ...result,
+        ...(disposal && { bookValue: 0, fullyDepreciated: true }),
+        disposal,
+        writtenOffValue: disposal ? result.bookValue : 0,
+      };
+    });
+  }
+
+  /**
+   * Recalculate one item's currentValue, e.g. after its price or depreciation settings change
+   */
+  static async refreshCurrentValue(equipmentId: string): Promise<number | null> {
+    const [valuation] = await this.valueEquipment({ id: equipmentId });
+    if (!valuation) {
+      return null;
+    }
+
+    if (valuation.equipment.currentValue !== valuation.bookValue) {
+      await prisma.equipment.update({
+        where: { id: equipmentId },
+        data: { currentValue: valuation.bookValue },
+      });
+    }
+
+    return valuation.bookValue;
+  }
+
+  /**
+   * Recalculate Equipment.currentValue for matching items and return how many changed
+   */
+  static async refreshCurrentValues(
+    where: Prisma.EquipmentWhereInput = {},
+    asOf: Date = new Date()
+  ): Promise<number> {
+    const valuations = await this.valueEquipment(where, asOf);
+    const stale = valuations.filter((valuation) => valuation.equipment.currentValue !== valuation.bookValue);
+
+    for (const valuation of stale) {
+      await prisma.equipment.update({
+        where: { id: valuation.equipment.id },
+        data: { currentValue: valuation.bookValue },
+      });
+    }
+
+    return stale.length;
+  }
+}
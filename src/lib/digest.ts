@@ -0,0 +1,339 @@
+// ABOUTME: Email digest job for ProfiCo Inventory Management System
+// ABOUTME: Rolls pending approvals, maintenance, warranties, renewals and low stock into one summary email per recipient
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  EmailTemplates,
+  type DigestEmailData,
+  type DigestEmailSection,
+} from "@/lib/email";
+import { EmailOutboxService } from "@/lib/email-outbox";
+import type { EmailTransport } from "@/lib/email-transport";
+import { ConsumableStockService } from "@/lib/consumables";
+import { ApprovalChainService } from "@/lib/approval-chains";
+import {
+  NotificationPreferenceService,
+  getNotificationEvent,
+  isNotificationEvent,
+  type NotificationEvent,
+} from "@/lib/notification-preferences";
+import { NotificationService, RENEWAL_REMINDER_DAYS, type NotificationType } from "@/lib/notifications";
+import type { UserRole } from "@/types/index";
+
+export type DigestFrequency = "daily" | "weekly";
+
+// How far ahead expiring warranties and upcoming renewals are listed
+export const WARRANTY_EXPIRY_DAYS = 30;
+export const SUBSCRIPTION_RENEWAL_DAYS = RENEWAL_REMINDER_DAYS;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INACTIVE_EQUIPMENT_STATUSES = ["decommissioned", "lost", "stolen"];
+
+export interface DigestRecipient {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  teamId: string | null;
+}
+
+export interface DigestRunOptions {
+  frequency?: DigestFrequency;
+  now?: Date;
+  transport?: EmailTransport; // Bypasses the outbox, for dry runs and tests
+  dryRun?: boolean; // Leaves the database untouched: no reminders are raised
+}
+
+export interface DigestRunResult {
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString();
+}
+
+function isManager(recipient: DigestRecipient): boolean {
+  return recipient.role === "admin" || recipient.role === "team_lead";
+}
+
+/**
+ * Team leads only see their own team; admins see everything
+ */
+function teamScope(recipient: DigestRecipient): Prisma.UserWhereInput | undefined {
+  return recipient.role === "admin" ? undefined : { teamId: recipient.teamId };
+}
+
+/**
+ * Digest service that collects everything waiting on a recipient and emails it as one summary
+ */
+export class DigestService {
+  /**
+   * Active team leads and admins, plus anyone who moved at least one event to the digest
+   */
+  static async getRecipients(): Promise<DigestRecipient[]> {
+    const digestPreferences = await prisma.notificationPreference.findMany({
+      where: { channel: "digest" },
+      select: { userId: true },
+    });
+
+    const users = await prisma.user.findMany({
+      where: {
+        isActive: true,
+        OR: [
+          { role: { in: ["admin", "team_lead"] } },
+          { id: { in: digestPreferences.map((preference) => preference.userId) } },
+        ],
+      },
+      select: { id: true, name: true, email: true, role: true, teamId: true },
+      orderBy: { name: "asc" },
+    });
+
+    return users.map((user) => ({ ...user, role: user.role as UserRole }));
+  }
+
+  /**
+   * Requests waiting on this recipient's decision at their current approval stage.
+   * Team leads review their team and anyone without a team.
+   */
+  static async getPendingApprovals(recipient: DigestRecipient): Promise<DigestEmailSection> {
+    const where = await ApprovalChainService.pendingApprovalWhere(recipient);
+
+    const requests = await prisma.equipmentRequest.findMany({
+      where,
+      include: { requester: { select: { name: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return {
+      title: "Pending Approvals",
+      items: requests.map((request) => ({
+        title: `${request.equipmentType} for ${request.requester.name}`,
+        detail: `${request.priority.toUpperCase()} priority, submitted ${formatDate(request.createdAt)}`,
+        url: `/requests/${request.id}`,
+      })),
+    };
+  }
+
+  /**
+   * Maintenance that was scheduled in the past and is still not completed
+   */
+  static async getOverdueMaintenance(recipient: DigestRecipient, now: Date): Promise<DigestEmailSection> {
+    const scope = teamScope(recipient);
+    const records = await prisma.maintenanceRecord.findMany({
+      where: {
+        status: { not: "completed" },
+        scheduledAt: { lt: now },
+        ...(scope ? { equipment: { currentOwner: scope } } : {}),
+      },
+      include: { equipment: { select: { id: true, name: true, serialNumber: true } } },
+      orderBy: { scheduledAt: "asc" },
+    });
+
+    return {
+      title: "Overdue Maintenance",
+      items: records.map((record) => ({
+        title: `${record.equipment.name} (${record.equipment.serialNumber})`,
+        detail: `${record.description}, scheduled ${formatDate(record.scheduledAt!)}`,
+        url: `/equipment/${record.equipment.id}`,
+      })),
+    };
+  }
+
+  static async getWarrantyExpiries(recipient: DigestRecipient, now: Date): Promise<DigestEmailSection> {
+    const scope = teamScope(recipient);
+    const equipment = await prisma.equipment.findMany({
+      where: {
+        status: { notIn: INACTIVE_EQUIPMENT_STATUSES },
+        warrantyExpiry: { gte: now, lte: new Date(now.getTime() + WARRANTY_EXPIRY_DAYS * DAY_MS) },
+        ...(scope ? { currentOwner: scope } : {}),
+      },
+      select: { id: true, name: true, serialNumber: true, warrantyExpiry: true },
+      orderBy: { warrantyExpiry: "asc" },
+    });
+
+    return {
+      title: "Warranties Expiring",
+      items: equipment.map((item) => ({
+        title: `${item.name} (${item.serialNumber})`,
+        detail: `Warranty expires ${formatDate(item.warrantyExpiry!)}`,
+        url: `/equipment/${item.id}`,
+      })),
+    };
+  }
+
+  static async getSubscriptionRenewals(recipient: DigestRecipient, now: Date): Promise<DigestEmailSection> {
+    const scope = teamScope(recipient);
+    const subscriptions = await prisma.subscription.findMany({
+      where: {
+        isActive: true,
+        renewalDate: { gte: now, lte: new Date(now.getTime() + SUBSCRIPTION_RENEWAL_DAYS * DAY_MS) },
+        ...(scope ? { assignedUser: scope } : {}),
+      },
+      include: { assignedUser: { select: { name: true } } },
+      orderBy: { renewalDate: "asc" },
+    });
+
+    return {
+      title: "Subscription Renewals",
+      items: subscriptions.map((subscription) => ({
+        title: `${subscription.softwareName} (${subscription.assignedUser.name})`,
+        detail: `Renews ${formatDate(subscription.renewalDate)} for €${subscription.price.toLocaleString()} (${subscription.billingFrequency})`,
+        url: `/subscriptions/${subscription.id}`,
+      })),
+    };
+  }
+
+  static async getLowStock(): Promise<DigestEmailSection> {
+    const items = await ConsumableStockService.getLowStockItems();
+
+    return {
+      title: "Low Consumable Stock",
+      items: items.map((item) => ({
+        title: item.name,
+        detail: `${item.currentStock} in stock, minimum ${item.minStock}`,
+        url: "/consumables",
+      })),
+    };
+  }
+
+  /**
+   * In-app notifications from the period for events the recipient moved to the digest.
+   * New-request notices are left out for managers because pending approvals already list them.
+   */
+  static async getDigestUpdates(
+    recipient: DigestRecipient,
+    since: Date
+  ): Promise<DigestEmailSection> {
+    const preferences = await prisma.notificationPreference.findMany({
+      where: { userId: recipient.id, channel: "digest" },
+      select: { eventType: true },
+    });
+
+    const events = new Set<NotificationEvent>(
+      preferences
+        .map((preference) => preference.eventType)
+        .filter(isNotificationEvent)
+        .filter((event) => !(event === "new_request" && isManager(recipient)))
+    );
+
+    if (events.size === 0) {
+      return { title: "Updates", items: [] };
+    }
+
+    const notifications = await prisma.notification.findMany({
+      where: { userId: recipient.id, createdAt: { gte: since } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return {
+      title: "Updates",
+      items: notifications
+        .filter((notification) => {
+          const event = getNotificationEvent(notification.type as NotificationType);
+          return event !== undefined && events.has(event);
+        })
+        .map((notification) => ({
+          title: notification.title,
+          detail: notification.message,
+          url: notification.actionUrl ?? undefined,
+        })),
+    };
+  }
+
+  /**
+   * Assemble the digest for one recipient
+   */
+  static async buildDigest(
+    recipient: DigestRecipient,
+    frequency: DigestFrequency = "daily",
+    now: Date = new Date()
+  ): Promise<DigestEmailData> {
+    const since = new Date(now.getTime() - (frequency === "weekly" ? 7 : 1) * DAY_MS);
+    const sections: DigestEmailSection[] = [];
+
+    if (isManager(recipient)) {
+      sections.push(
+        await this.getPendingApprovals(recipient),
+        await this.getOverdueMaintenance(recipient, now),
+        await this.getWarrantyExpiries(recipient, now),
+        await this.getSubscriptionRenewals(recipient, now),
+        await this.getLowStock()
+      );
+    }
+
+    sections.push(await this.getDigestUpdates(recipient, since));
+
+    return {
+      recipient: {
+        id: recipient.id,
+        name: recipient.name,
+        email: recipient.email,
+        role: recipient.role,
+      },
+      frequency,
+      generatedAt: now,
+      sections: sections.filter((section) => section.items.length > 0),
+    };
+  }
+
+  /**
+   * Send one digest to every recipient with something to report.
+   * A failure for one recipient is logged and does not stop the rest.
+   */
+  static async sendDigests(options: DigestRunOptions = {}): Promise<DigestRunResult> {
+    const { frequency = "daily", now = new Date(), transport, dryRun = false } = options;
+    const result: DigestRunResult = { sent: 0, skipped: 0, failed: 0 };
+
+    if (!(await NotificationPreferenceService.isEmailEnabled())) {
+      console.log("Notification email is turned off, skipping digest");
+      return result;
+    }
+
+    // Maintenance and renewal reminders are date-driven, so raise any that became due for the Updates section
+    if (!dryRun) {
+      try {
+        await NotificationService.notifyMaintenanceDue({ now });
+        await NotificationService.notifyRenewalsDue({ now });
+      } catch (reminderError) {
+        console.error("Failed to create reminders:", reminderError);
+      }
+    }
+
+    const recipients = await this.getRecipients();
+
+    for (const recipient of recipients) {
+      try {
+        const digest = await this.buildDigest(recipient, frequency, now);
+
+        if (digest.sections.length === 0) {
+          result.skipped++;
+          continue;
+        }
+
+        const template = EmailTemplates.digest(digest);
+        const message = {
+          to: recipient.email,
+          subject: template.subject,
+          html: template.html,
+          text: template.text,
+        };
+
+        if (transport) {
+          await transport.send(message);
+        } else {
+          await EmailOutboxService.send(message);
+        }
+
+        result.sent++;
+      } catch (error) {
+        console.error(`Failed to send ${frequency} digest to ${recipient.email}:`, error);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+}
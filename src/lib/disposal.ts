@@ -0,0 +1,294 @@
+// ABOUTME: Equipment disposal service for ProfiCo Inventory Management System
+// ABOUTME: Records disposal requests, approves them into write-offs and decommissions the equipment
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { DepreciationService } from "@/lib/depreciation";
+
+export type DisposalReason = "sold" | "recycled" | "donated" | "lost" | "stolen";
+
+export type DisposalStatus = "pending" | "approved" | "rejected";
+
+export interface DisposalRequestData {
+  reason: DisposalReason;
+  disposalDate: string;
+  saleProceeds: number;
+  dataWiped: boolean;
+  dataWipedById?: string;
+  certificateFileId?: string;
+  notes?: string;
+}
+
+export interface DisposalListOptions {
+  status?: DisposalStatus;
+  page?: number;
+  limit?: number;
+}
+
+// Statuses that can move to decommissioned, matching the equipment status transitions
+export const DISPOSABLE_STATUSES = ["available", "maintenance", "broken", "lost", "stolen"];
+
+// Equipment that has left our hands cannot be wiped, so these reasons skip the data-wipe check
+export const NO_WIPE_REASONS: DisposalReason[] = ["lost", "stolen"];
+
+/**
+ * Raised when a disposal cannot be requested or reviewed in the item's current state
+ */
+export class DisposalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DisposalError";
+  }
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+const userSelect = {
+  select: { id: true, name: true, email: true },
+};
+
+export const disposalInclude = {
+  equipment: {
+    select: { id: true, name: true, serialNumber: true, category: true, status: true, purchasePrice: true },
+  },
+  requestedBy: userSelect,
+  reviewedBy: userSelect,
+  dataWipedBy: userSelect,
+  certificateFile: {
+    select: { id: true, name: true, url: true, type: true },
+  },
+} satisfies Prisma.EquipmentDisposalInclude;
+
+/**
+ * Equipment disposal service: every decommissioning goes through a request that an admin approves
+ */
+export class EquipmentDisposalService {
+  /**
+   * Ask for an item to be disposed of. The item stays in service until an admin approves.
+   */
+  static async requestDisposal(equipmentId: string, data: DisposalRequestData, requestedById: string) {
+    const equipment = await prisma.equipment.findUnique({
+      where: { id: equipmentId },
+      select: { id: true, status: true, purchaseDate: true },
+    });
+
+    if (!equipment) {
+      return null;
+    }
+
+    if (!DISPOSABLE_STATUSES.includes(equipment.status)) {
+      throw new DisposalError(`Equipment with status ${equipment.status} cannot be disposed of`);
+    }
+
+    const disposalDate = new Date(data.disposalDate);
+    if (disposalDate > new Date()) {
+      throw new DisposalError("Disposal date cannot be in the future");
+    }
+
+    if (disposalDate < equipment.purchaseDate) {
+      throw new DisposalError("Disposal date cannot be before the purchase date");
+    }
+
+    const needsWipe = !NO_WIPE_REASONS.includes(data.reason);
+    if (needsWipe && !data.dataWiped) {
+      throw new DisposalError("Confirm the data wipe before disposing of equipment");
+    }
+
+    const pending = await prisma.equipmentDisposal.findFirst({
+      where: { equipmentId, status: "pending" },
+      select: { id: true },
+    });
+
+    if (pending) {
+      throw new DisposalError("A disposal is already waiting for approval for this equipment");
+    }
+
+    if (data.certificateFileId) {
+      const certificate = await prisma.file.findFirst({
+        where: { id: data.certificateFileId, equipmentId },
+        select: { id: true },
+      });
+
+      if (!certificate) {
+        throw new DisposalError("Certificate must be a file attached to this equipment");
+      }
+    }
+
+    const wiped = needsWipe && data.dataWiped;
+
+    return prisma.equipmentDisposal.create({
+      data: {
+        equipmentId,
+        reason: data.reason,
+        disposalDate,
+        saleProceeds: data.saleProceeds,
+        dataWiped: wiped,
+        dataWipedById: wiped ? data.dataWipedById ?? requestedById : null,
+        dataWipedAt: wiped ? new Date() : null,
+        certificateFileId: data.certificateFileId,
+        notes: data.notes,
+        requestedById,
+      },
+      include: disposalInclude,
+    });
+  }
+
+  /**
+   * Approve a disposal: record the write-off at book value on the disposal date and decommission the item
+   */
+  static async approve(disposalId: string, reviewedById: string, reviewNotes?: string) {
+    const disposal = await this.getPending(disposalId);
+    if (!disposal) {
+      return null;
+    }
+
+    // The item may have been handed out again while the request was waiting
+    if (!DISPOSABLE_STATUSES.includes(disposal.equipment.status)) {
+      throw new DisposalError(`Equipment with status ${disposal.equipment.status} cannot be disposed of`);
+    }
+
+    const [valuation] = await DepreciationService.valueEquipment(
+      { id: disposal.equipmentId },
+      disposal.disposalDate
+    );
+    const bookValue = valuation?.bookValue ?? 0;
+
+    return prisma.$transaction(async (tx) => {
+      // Only a disposal that is still pending is approved, so a second approval cannot write it off again
+      const claimed = await tx.equipmentDisposal.updateMany({
+        where: { id: disposalId, status: "pending" },
+        data: {
+          status: "approved",
+          reviewedById,
+          reviewedAt: new Date(),
+          reviewNotes,
+          bookValue,
+          writeOffAmount: roundCents(bookValue - disposal.saleProceeds),
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new DisposalError("Disposal has already been reviewed");
+      }
+
+      await tx.equipment.update({
+        where: { id: disposal.equipmentId },
+        data: {
+          status: "decommissioned",
+          currentOwnerId: null,
+          currentValue: 0,
+        },
+      });
+
+      await tx.equipmentHistory.create({
+        data: {
+          equipmentId: disposal.equipmentId,
+          action: "STATUS_DECOMMISSIONED",
+          notes: `Disposed of (${disposal.reason}) on ${disposal.disposalDate.toISOString().split("T")[0]}`,
+        },
+      });
+
+      return tx.equipmentDisposal.findUniqueOrThrow({
+        where: { id: disposalId },
+        include: disposalInclude,
+      });
+    });
+  }
+
+  /**
+   * Turn a disposal down; the equipment keeps its current status
+   */
+  static async reject(disposalId: string, reviewedById: string, reviewNotes?: string) {
+    const disposal = await this.getPending(disposalId);
+    if (!disposal) {
+      return null;
+    }
+
+    // Same claim as approve, so a rejection cannot overwrite an approval that won the race
+    const claimed = await prisma.equipmentDisposal.updateMany({
+      where: { id: disposalId, status: "pending" },
+      data: {
+        status: "rejected",
+        reviewedById,
+        reviewedAt: new Date(),
+        reviewNotes,
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new DisposalError("Disposal has already been reviewed");
+    }
+
+    return prisma.equipmentDisposal.findUniqueOrThrow({
+      where: { id: disposalId },
+      include: disposalInclude,
+    });
+  }
+
+  /**
+   * Disposals across all equipment, newest first
+   */
+  static async list(options: DisposalListOptions = {}) {
+    const { status, page = 1, limit = 20 } = options;
+    const where: Prisma.EquipmentDisposalWhereInput = status ? { status } : {};
+
+    const [disposals, total] = await Promise.all([
+      prisma.equipmentDisposal.findMany({
+        where,
+        include: disposalInclude,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.equipmentDisposal.count({ where }),
+    ]);
+
+    return {
+      disposals,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Every disposal requested for one item, newest first
+   */
+  static async listForEquipment(equipmentId: string) {
+    return prisma.equipmentDisposal.findMany({
+      where: { equipmentId },
+      include: disposalInclude,
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  private static async getPending(disposalId: string) {
+    const disposal = await prisma.equipmentDisposal.findUnique({
+      where: { id: disposalId },
+      select: {
+        id: true,
+        equipmentId: true,
+        status: true,
+        reason: true,
+        disposalDate: true,
+        saleProceeds: true,
+        equipment: { select: { status: true } },
+      },
+    });
+
+    if (!disposal) {
+      return null;
+    }
+
+    if (disposal.status !== "pending") {
+      throw new DisposalError(`Disposal has already been ${disposal.status}`);
+    }
+
+    return disposal;
+  }
+}
@@ -0,0 +1,252 @@
+// ABOUTME: Email delivery log and retry queue for ProfiCo Inventory Management System
+// ABOUTME: Records every outgoing email, retries failed sends with exponential backoff and lists them for admins
+
+import type { EmailDelivery } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getEmailTransport, type EmailMessage, type EmailTransport } from "@/lib/email-transport";
+
+export type EmailDeliveryStatus = "pending" | "sending" | "sent" | "failed";
+
+export interface EmailDeliveryListOptions {
+  status?: EmailDeliveryStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface EmailProcessResult {
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+// A delivery is given up after this many attempts, about 15 minutes after the first
+export const MAX_EMAIL_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// A claimed delivery still "sending" after this long was abandoned by a run that crashed, and is retried
+const SEND_CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+function claimExpiry(now: Date): Date {
+  return new Date(now.getTime() + SEND_CLAIM_TIMEOUT_MS);
+}
+
+/**
+ * Wait before the next attempt: 1, 2, 4, 8... minutes, capped at an hour
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+export function parseRecipients(to: string): string[] {
+  try {
+    const parsed = JSON.parse(to);
+    return Array.isArray(parsed) ? parsed : [String(parsed)];
+  } catch {
+    return [to];
+  }
+}
+
+/**
+ * Delivery details without the message bodies, for listings
+ */
+export function summarizeDelivery(delivery: EmailDelivery) {
+  return {
+    id: delivery.id,
+    to: parseRecipients(delivery.to),
+    subject: delivery.subject,
+    transport: delivery.transport,
+    status: delivery.status as EmailDeliveryStatus,
+    attempts: delivery.attempts,
+    lastError: delivery.lastError,
+    nextAttemptAt: delivery.nextAttemptAt,
+    sentAt: delivery.sentAt,
+    createdAt: delivery.createdAt,
+  };
+}
+
+/**
+ * Email outbox service: every message is stored first, then handed to the configured transport
+ */
+export class EmailOutboxService {
+  /**
+   * Store and send a message. A failed send, or a transport that cannot be set up, is queued
+   * for retry instead of thrown.
+   */
+  static async send(
+    message: EmailMessage,
+    transport?: EmailTransport
+  ): Promise<EmailDelivery> {
+    const delivery = await prisma.emailDelivery.create({
+      data: {
+        to: JSON.stringify(Array.isArray(message.to) ? message.to : [message.to]),
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        // Replaced by the transport's name once it has been set up on the first attempt
+        transport: transport ? transport.name || "custom" : "unresolved",
+        // Created already claimed, so only this call sends it unless it is abandoned
+        status: "sending",
+        nextAttemptAt: claimExpiry(new Date()),
+      },
+    });
+
+    return this.attempt(delivery, transport);
+  }
+
+  /**
+   * Move a delivery to "sending" if nobody else has since, so a cron run, an overlapping run and
+   * an admin retry cannot send the same email twice
+   */
+  private static async claim(delivery: EmailDelivery, now: Date): Promise<boolean> {
+    const claimed = await prisma.emailDelivery.updateMany({
+      where: { id: delivery.id, status: delivery.status, nextAttemptAt: delivery.nextAttemptAt },
+      data: { status: "sending", nextAttemptAt: claimExpiry(now) },
+    });
+
+    return claimed.count > 0;
+  }
+
+  /**
+   * Make one delivery attempt and record the outcome. Callers claim the delivery first.
+   */
+  static async attempt(
+    delivery: EmailDelivery,
+    transport?: EmailTransport,
+    now: Date = new Date()
+  ): Promise<EmailDelivery> {
+    const attempts = delivery.attempts + 1;
+    let sender = transport;
+
+    try {
+      // Resolved here so a misconfigured transport is recorded as a failed attempt
+      sender ??= getEmailTransport();
+
+      const result = await sender.send({
+        to: parseRecipients(delivery.to),
+        subject: delivery.subject,
+        html: delivery.html,
+        text: delivery.text,
+      });
+
+      return await prisma.emailDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: "sent",
+          attempts,
+          transport: sender.name || delivery.transport,
+          providerId: result?.id,
+          lastError: null,
+          nextAttemptAt: null,
+          sentAt: now,
+        },
+      });
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      const givenUp = attempts >= MAX_EMAIL_ATTEMPTS;
+
+      console.error(
+        `Email delivery ${delivery.id} failed (attempt ${attempts}/${MAX_EMAIL_ATTEMPTS}):`,
+        lastError
+      );
+
+      return prisma.emailDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: givenUp ? "failed" : "pending",
+          attempts,
+          transport: sender?.name || delivery.transport,
+          lastError,
+          nextAttemptAt: givenUp ? null : new Date(now.getTime() + getRetryDelay(attempts)),
+        },
+      });
+    }
+  }
+
+  /**
+   * Retry every pending delivery whose backoff has elapsed, and every abandoned claim.
+   * Deliveries another run claimed in the meantime are skipped.
+   */
+  static async processDue(
+    options: { now?: Date; transport?: EmailTransport; limit?: number } = {}
+  ): Promise<EmailProcessResult> {
+    const { now = new Date(), transport, limit = 50 } = options;
+    const result: EmailProcessResult = { sent: 0, retrying: 0, failed: 0 };
+
+    const due = await prisma.emailDelivery.findMany({
+      where: { status: { in: ["pending", "sending"] }, nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: "asc" },
+      take: limit,
+    });
+
+    for (const delivery of due) {
+      if (!(await this.claim(delivery, now))) {
+        continue;
+      }
+
+      const updated = await this.attempt(delivery, transport, now);
+
+      if (updated.status === "sent") {
+        result.sent++;
+      } else if (updated.status === "failed") {
+        result.failed++;
+      } else {
+        result.retrying++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Send a delivery again straight away, including ones that already gave up.
+   * Null when it is not found, already sent or being sent.
+   */
+  static async retry(id: string): Promise<EmailDelivery | null> {
+    const delivery = await prisma.emailDelivery.findUnique({ where: { id } });
+    if (!delivery || delivery.status === "sent" || !(await this.claim(delivery, new Date()))) {
+      return null;
+    }
+
+    // Give a manual retry its own attempt even when the automatic ones are used up
+    return this.attempt({ ...delivery, attempts: Math.min(delivery.attempts, MAX_EMAIL_ATTEMPTS - 1) });
+  }
+
+  /**
+   * List deliveries newest first, with a count per status for the admin page
+   */
+  static async list(options: EmailDeliveryListOptions = {}) {
+    const { status, page = 1, limit = 20 } = options;
+    const where = status ? { status } : {};
+
+    const [deliveries, total, grouped] = await Promise.all([
+      prisma.emailDelivery.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.emailDelivery.count({ where }),
+      prisma.emailDelivery.groupBy({
+        by: ["status"],
+        _count: { _all: true },
+      }),
+    ]);
+
+    const counts: Record<EmailDeliveryStatus, number> = { pending: 0, sending: 0, sent: 0, failed: 0 };
+    for (const group of grouped) {
+      counts[group.status as EmailDeliveryStatus] = group._count._all;
+    }
+
+    return {
+      deliveries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+      counts,
+    };
+  }
+}
@@ -0,0 +1,156 @@
+// ABOUTME: Email transport drivers for ProfiCo Inventory Management System
+// ABOUTME: Delivers messages through Resend, SMTP, an outbox directory or the database, chosen by EMAIL_TRANSPORT
+
+import { promises as fs } from "fs";
+import path from "path";
+import { Resend } from "resend";
+import nodemailer from "nodemailer";
+
+export type EmailTransportName = "resend" | "smtp" | "file" | "database";
+
+export const EMAIL_TRANSPORT_NAMES: EmailTransportName[] = ["resend", "smtp", "file", "database"];
+
+export interface EmailMessage {
+  to: string | string[];
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailSendResult {
+  id?: string;
+}
+
+/**
+ * Anything that can deliver an email message; swapped for a fake in tests and dry runs
+ */
+export interface EmailTransport {
+  name?: string;
+  send(message: EmailMessage): Promise<EmailSendResult | void>;
+}
+
+function getFromAddress(): string {
+  return process.env.EMAIL_FROM || "noreply@profico-inventory.com";
+}
+
+export function createResendTransport(apiKey = process.env.RESEND_API_KEY): EmailTransport {
+  if (!apiKey) {
+    throw new Error("RESEND_API_KEY environment variable is required");
+  }
+
+  const resend = new Resend(apiKey);
+
+  return {
+    name: "resend",
+    async send(message) {
+      const { data, error } = await resend.emails.send({ from: getFromAddress(), ...message });
+      if (error) {
+        throw new Error(error.message);
+      }
+      return { id: data?.id };
+    },
+  };
+}
+
+export function createSmtpTransport(): EmailTransport {
+  if (!process.env.SMTP_HOST) {
+    throw new Error("SMTP_HOST environment variable is required");
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      const info = await transporter.sendMail({ from: getFromAddress(), ...message });
+      return { id: info.messageId };
+    },
+  };
+}
+
+/**
+ * Writes each message as a JSON file, for environments that must never send real email
+ */
+export function createFileTransport(
+  directory = process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), "outbox")
+): EmailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(
+        path.join(directory, `${id}.json`),
+        JSON.stringify({ id, from: getFromAddress(), ...message, createdAt: new Date().toISOString() }, null, 2)
+      );
+
+      return { id };
+    },
+  };
+}
+
+/**
+ * Sends nothing; the delivery log row is the only copy, readable from the admin email page
+ */
+export function createDatabaseTransport(): EmailTransport {
+  return {
+    name: "database",
+    async send() {
+      return {};
+    },
+  };
+}
+
+/**
+ * Pick the configured driver. Without EMAIL_TRANSPORT, Resend is used when a key is
+ * present and the database outbox otherwise, so a missing key never breaks a workflow.
+ */
+export function resolveTransportName(
+  env: Record<string, string | undefined> = process.env
+): EmailTransportName {
+  const configured = env.EMAIL_TRANSPORT;
+
+  if (configured) {
+    if (!(EMAIL_TRANSPORT_NAMES as string[]).includes(configured)) {
+      throw new Error(`Unknown EMAIL_TRANSPORT "${configured}"`);
+    }
+    return configured as EmailTransportName;
+  }
+
+  return env.RESEND_API_KEY ? "resend" : "database";
+}
+
+export function createEmailTransport(name: EmailTransportName): EmailTransport {
+  switch (name) {
+    case "resend":
+      return createResendTransport();
+    case "smtp":
+      return createSmtpTransport();
+    case "file":
+      return createFileTransport();
+    default:
+      return createDatabaseTransport();
+  }
+}
+
+// Create the transport lazily to allow for testing
+let transportInstance: EmailTransport | null = null;
+
+export function getEmailTransport(): EmailTransport {
+  if (!transportInstance) {
+    transportInstance = createEmailTransport(resolveTransportName());
+  }
+  return transportInstance;
+}
+
+export function resetEmailTransport(): void {
+  transportInstance = null;
+}
@@ -1,23 +1,11 @@
 // ABOUTME: Email notification service for ProfiCo Inventory Management System
-// ABOUTME: Handles sending emails for equipment requests using Resend infrastructure
+// ABOUTME: Builds equipment request emails and hands them to the email outbox for delivery
 
-import { Resend } from 'resend';
 import { type UserRole } from '@/types/index';
-
-const fromEmail = process.env.EMAIL_FROM || 'noreply@profico-inventory.com';
-
-// Create Resend instance lazily to allow for testing
-let resendInstance: Resend | null = null;
-
-function getResendInstance(): Resend {
-  if (!resendInstance) {
-    if (!process.env.RESEND_API_KEY) {
-      throw new Error('RESEND_API_KEY environment variable is required');
-    }
-    resendInstance = new Resend(process.env.RESEND_API_KEY);
-  }
-  return resendInstance;
-}
+import { NotificationPreferenceService } from '@/lib/notification-preferences';
+import { EmailOutboxService } from '@/lib/email-outbox';
+import { resetEmailTransport } from '@/lib/email-transport';
+import { ApprovalDelegationService } from '@/lib/approval-delegations';
 
 export interface EmailUser {
   id: string;
@@ -50,6 +38,38 @@ export interface EmailEquipment {
   status: string;
 }
 
+export interface ApprovalOverdueEmailData {
+  stageName: string;
+  deadline: Date;
+  escalated: boolean; // Sent to admins once the deadline has passed, rather than to the stage's approvers
+}
+
+export interface ReminderEmailData {
+  title: string;
+  message: string;
+  url: string;
+  actionLabel: string;
+  urgent: boolean; // Overdue reminders use the alert colour
+}
+
+export interface DigestEmailItem {
+  title: string;
+  detail: string;
+  url?: string;
+}
+
+export interface DigestEmailSection {
+  title: string;
+  items: DigestEmailItem[];
+}
+
+export interface DigestEmailData {
+  recipient: EmailUser;
+  frequency: 'daily' | 'weekly';
+  generatedAt: Date;
+  sections: DigestEmailSection[];
+}
+
 /**
  * Email templates for different notification types
  */
@@ -305,6 +325,113 @@ ${request.specificRequirements ? `\nRequirements: ${request.specificRequirements
 
 Review this request at: ${process.env.NEXTAUTH_URL}/dashboard/requests/${request.id}
 
+--
+ProfiCo Inventory Management System
+    `.trim();
+
+    return { subject, html, text };
+  }
+
+  /**
+   * Email template reminding approvers that a stage is nearly due, or alerting admins that it is overdue
+   */
+  static approvalOverdue(request: EquipmentRequestEmailData, overdue: ApprovalOverdueEmailData): {
+    subject: string;
+    html: string;
+    text: string;
+  } {
+    const subject = overdue.escalated
+      ? `Approval Overdue: ${request.equipmentType} (${overdue.stageName} stage)`
+      : `Approval Due Soon: ${request.equipmentType} (${overdue.stageName} stage)`;
+    const summary = overdue.escalated
+      ? `The ${overdue.stageName} stage missed its approval deadline of ${overdue.deadline.toLocaleString()}.`
+      : `The ${overdue.stageName} stage is due for a decision by ${overdue.deadline.toLocaleString()}.`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: ${overdue.escalated ? '#dc2626' : '#ea580c'}; color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+            .content { background-color: #f8fafc; padding: 20px; border: 1px solid #e2e8f0; }
+            .footer { background-color: #64748b; color: white; padding: 15px; border-radius: 0 0 8px 8px; text-align: center; }
+            .detail-row { margin: 10px 0; }
+            .label { font-weight: bold; display: inline-block; width: 120px; }
+            .action-button { 
+              background-color: ${overdue.escalated ? '#dc2626' : '#ea580c'}; 
+              color: white; 
+              padding: 12px 24px; 
+              text-decoration: none; 
+              border-radius: 6px; 
+              display: inline-block; 
+              margin: 15px 10px 15px 0;
+            }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${overdue.escalated ? 'Approval Overdue' : 'Approval Due Soon'}</h1>
+              <p>${summary}</p>
+            </div>
+            
+            <div class="content">
+              <div class="detail-row">
+                <span class="label">Request ID:</span> #${request.id.slice(-8)}
+              </div>
+              <div class="detail-row">
+                <span class="label">Requested by:</span> ${request.requester.name} (${request.requester.email})
+              </div>
+              <div class="detail-row">
+                <span class="label">Equipment:</span> ${request.equipmentType}
+              </div>
+              <div class="detail-row">
+                <span class="label">Priority:</span> ${request.priority.toUpperCase()}
+              </div>
+              <div class="detail-row">
+                <span class="label">Submitted:</span> ${request.createdAt.toLocaleString()}
+              </div>
+              ${request.neededBy ? `
+              <div class="detail-row">
+                <span class="label">Needed by:</span> ${request.neededBy.toLocaleDateString()}
+              </div>
+              ` : ''}
+              
+              <div style="text-align: center; margin-top: 30px;">
+                <a href="${process.env.NEXTAUTH_URL}/requests/${request.id}" class="action-button">
+                  Review Request
+                </a>
+              </div>
+            </div>
+            
+            <div class="footer">
+              <p>ProfiCo Inventory Management System</p>
+              <p style="font-size: 12px; margin-top: 8px;">
+                ${overdue.escalated
+                  ? 'You received this email because you approve this stage or oversee approvals as an admin.'
+                  : 'You received this email because the request is waiting on your approval.'}
+              </p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `
+${overdue.escalated ? 'Approval Overdue' : 'Approval Due Soon'}
+
+${summary}
+
+Request ID: #${request.id.slice(-8)}
+Requested by: ${request.requester.name} (${request.requester.email})
+Equipment: ${request.equipmentType}
+Priority: ${request.priority.toUpperCase()}
+Submitted: ${request.createdAt.toLocaleString()}
+${request.neededBy ? `Needed by: ${request.neededBy.toLocaleDateString()}\n` : ''}
+Review this request at: ${process.env.NEXTAUTH_URL}/requests/${request.id}
+
 --
 ProfiCo Inventory Management System
     `.trim();
@@ -777,6 +904,158 @@ Your equipment is ready for collection. Please keep it safe and return it when n
 
     return { subject, html, text };
   }
+
+  /**
+   * Email template for date-driven reminders such as maintenance due or a subscription renewal
+   */
+  static reminder(reminder: ReminderEmailData): {
+    subject: string;
+    html: string;
+    text: string;
+  } {
+    const subject = `${reminder.title}: ${reminder.message}`;
+    const color = reminder.urgent ? '#dc2626' : '#ea580c';
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: ${color}; color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+            .content { background-color: #f8fafc; padding: 20px; border: 1px solid #e2e8f0; }
+            .footer { background-color: #64748b; color: white; padding: 15px; border-radius: 0 0 8px 8px; text-align: center; }
+            .action-button { 
+              background-color: ${color}; 
+              color: white; 
+              padding: 12px 24px; 
+              text-decoration: none; 
+              border-radius: 6px; 
+              display: inline-block; 
+              margin: 15px 10px 15px 0;
+            }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${reminder.title}</h1>
+            </div>
+            
+            <div class="content">
+              <p>${reminder.message}</p>
+              
+              <div style="text-align: center; margin-top: 30px;">
+                <a href="${process.env.NEXTAUTH_URL}${reminder.url}" class="action-button">
+                  ${reminder.actionLabel}
+                </a>
+              </div>
+            </div>
+            
+            <div class="footer">
+              <p>ProfiCo Inventory Management System</p>
+              <p style="font-size: 12px; margin-top: 8px;">
+                You can change which events reach you by email from your profile page.
+              </p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `
+${reminder.title}
+
+${reminder.message}
+
+${reminder.actionLabel}: ${process.env.NEXTAUTH_URL}${reminder.url}
+
+--
+ProfiCo Inventory Management System
+    `.trim();
+
+    return { subject, html, text };
+  }
+
+  /**
+   * Email template for the daily or weekly summary sent to team leads and admins
+   */
+  static digest(digest: DigestEmailData): {
+    subject: string;
+    html: string;
+    text: string;
+  } {
+    const sections = digest.sections.filter(section => section.items.length > 0);
+    const itemCount = sections.reduce((total, section) => total + section.items.length, 0);
+    const period = digest.frequency === 'weekly' ? 'Weekly' : 'Daily';
+    const subject = `${period} Inventory Digest: ${itemCount} item${itemCount === 1 ? '' : 's'} need${itemCount === 1 ? 's' : ''} attention`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #2563eb; color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+            .content { background-color: #f8fafc; padding: 20px; border: 1px solid #e2e8f0; }
+            .footer { background-color: #64748b; color: white; padding: 15px; border-radius: 0 0 8px 8px; text-align: center; }
+            .section { margin-bottom: 25px; }
+            .section h2 { font-size: 18px; color: #1e293b; border-bottom: 2px solid #2563eb; padding-bottom: 6px; }
+            .item { background-color: white; border: 1px solid #e2e8f0; border-radius: 6px; padding: 10px 12px; margin: 8px 0; }
+            .item-title { font-weight: bold; }
+            .item-detail { color: #475569; font-size: 14px; }
+            .item a { color: #2563eb; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${period} Inventory Digest</h1>
+              <p>Hi ${digest.recipient.name}, here is what needs your attention as of ${digest.generatedAt.toLocaleDateString()}.</p>
+            </div>
+            
+            <div class="content">
+              ${sections.map(section => `
+              <div class="section">
+                <h2>${section.title} (${section.items.length})</h2>
+                ${section.items.map(item => `
+                <div class="item">
+                  <div class="item-title">${item.title}</div>
+                  <div class="item-detail">${item.detail}</div>
+                  ${item.url ? `<a href="${process.env.NEXTAUTH_URL}${item.url}">View details</a>` : ''}
+                </div>
+                `).join('')}
+              </div>
+              `).join('')}
+            </div>
+            
+            <div class="footer">
+              <p>ProfiCo Inventory Management System</p>
+              <p style="font-size: 12px; margin-top: 8px;">
+                You can change which events reach you by email from your profile page.
+              </p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `
+${period} Inventory Digest
+
+Hi ${digest.recipient.name}, here is what needs your attention as of ${digest.generatedAt.toLocaleDateString()}.
+${sections.map(section => `
+${section.title.toUpperCase()} (${section.items.length}):
+${section.items.map(item => `- ${item.title}: ${item.detail}${item.url ? ` (${process.env.NEXTAUTH_URL}${item.url})` : ''}`).join('\n')}
+`).join('')}
+--
+ProfiCo Inventory Management System
+    `.trim();
+
+    return { subject, html, text };
+  }
 }
 
 /**
@@ -784,10 +1063,10 @@ Your equipment is ready for collection. Please keep it safe and return it when n
  */
 export class EmailNotificationService {
   /**
-   * Reset the Resend instance (primarily for testing)
+   * Reset the email transport (primarily for testing)
    */
   static resetInstance(): void {
-    resendInstance = null;
+    resetEmailTransport();
   }
   /**
    * Send notification to team leads when a team member submits a request
@@ -801,18 +1080,23 @@ export class EmailNotificationService {
       return;
     }
 
+    const recipients = await NotificationPreferenceService.filterEmailRecipients(teamLeadEmails, 'new_request');
+    if (recipients.length === 0) {
+      console.log(`All recipients opted out of email for request ${request.id}`);
+      return;
+    }
+
     const template = EmailTemplates.newRequestForTeamLead(request);
 
     try {
-      const result = await getResendInstance().emails.send({
-        from: fromEmail,
-        to: teamLeadEmails,
+      const delivery = await EmailOutboxService.send({
+        to: recipients,
         subject: template.subject,
         html: template.html,
         text: template.text,
       });
 
-      console.log(`Team lead notification sent for request ${request.id}:`, result);
+      console.log(`Team lead notification sent for request ${request.id}: ${delivery.status}`);
     } catch (error) {
       console.error(`Failed to send team lead notification for request ${request.id}:`, error);
       throw new Error('Failed to send team lead notification email');
@@ -831,40 +1115,89 @@ export class EmailNotificationService {
       return;
     }
 
+    const recipients = await NotificationPreferenceService.filterEmailRecipients(adminEmails, 'new_request');
+    if (recipients.length === 0) {
+      console.log(`All recipients opted out of email for request ${request.id}`);
+      return;
+    }
+
     const template = EmailTemplates.requestNeedsAdminApproval(request);
 
     try {
-      const result = await getResendInstance().emails.send({
-        from: fromEmail,
-        to: adminEmails,
+      const delivery = await EmailOutboxService.send({
+        to: recipients,
         subject: template.subject,
         html: template.html,
         text: template.text,
       });
 
-      console.log(`Admin notification sent for request ${request.id}:`, result);
+      console.log(`Admin notification sent for request ${request.id}: ${delivery.status}`);
     } catch (error) {
       console.error(`Failed to send admin notification for request ${request.id}:`, error);
       throw new Error('Failed to send admin notification email');
     }
   }
 
+  /**
+   * Remind approvers of a stage nearing its deadline, or alert admins to one that has passed it
+   */
+  static async notifyApprovalOverdue(
+    request: EquipmentRequestEmailData,
+    emails: string[],
+    overdue: ApprovalOverdueEmailData
+  ): Promise<void> {
+    if (emails.length === 0) {
+      console.warn(`No one to notify about the overdue approval of request ${request.id}`);
+      return;
+    }
+
+    const recipients = await NotificationPreferenceService.filterEmailRecipients(emails, 'new_request');
+    if (recipients.length === 0) {
+      console.log(`All recipients opted out of email for request ${request.id}`);
+      return;
+    }
+
+    const template = EmailTemplates.approvalOverdue(request, overdue);
+
+    try {
+      const delivery = await EmailOutboxService.send({
+        to: recipients,
+        subject: template.subject,
+        html: template.html,
+        text: template.text,
+      });
+
+      console.log(`Overdue approval notification sent for request ${request.id}: ${delivery.status}`);
+    } catch (error) {
+      console.error(`Failed to send overdue approval notification for request ${request.id}:`, error);
+      throw new Error('Failed to send overdue approval notification email');
+    }
+  }
+
   /**
    * Send approval notification to the requester
    */
   static async notifyRequesterOfApproval(request: EquipmentRequestEmailData): Promise<void> {
+    const [recipient] = await NotificationPreferenceService.filterEmailRecipients(
+      [request.requester.email],
+      'request_approved'
+    );
+    if (!recipient) {
+      console.log(`Requester opted out of email for request ${request.id}`);
+      return;
+    }
+
     const template = EmailTemplates.requestApproved(request);
 
     try {
-      const result = await getResendInstance().emails.send({
-        from: fromEmail,
-        to: request.requester.email,
+      const delivery = await EmailOutboxService.send({
+        to: recipient,
         subject: template.subject,
         html: template.html,
         text: template.text,
       });
 
-      console.log(`Approval notification sent to requester for request ${request.id}:`, result);
+      console.log(`Approval notification sent to requester for request ${request.id}: ${delivery.status}`);
     } catch (error) {
       console.error(`Failed to send approval notification for request ${request.id}:`, error);
       throw new Error('Failed to send approval notification email');
@@ -875,18 +1208,26 @@ export class EmailNotificationService {
    * Send rejection notification to the requester
    */
   static async notifyRequesterOfRejection(request: EquipmentRequestEmailData): Promise<void> {
+    const [recipient] = await NotificationPreferenceService.filterEmailRecipients(
+      [request.requester.email],
+      'request_rejected'
+    );
+    if (!recipient) {
+      console.log(`Requester opted out of email for request ${request.id}`);
+      return;
+    }
+
     const template = EmailTemplates.requestRejected(request);
 
     try {
-      const result = await getResendInstance().emails.send({
-        from: fromEmail,
-        to: request.requester.email,
+      const delivery = await EmailOutboxService.send({
+        to: recipient,
         subject: template.subject,
         html: template.html,
         text: template.text,
       });
 
-      console.log(`Rejection notification sent to requester for request ${request.id}:`, result);
+      console.log(`Rejection notification sent to requester for request ${request.id}: ${delivery.status}`);
     } catch (error) {
       console.error(`Failed to send rejection notification for request ${request.id}:`, error);
       throw new Error('Failed to send rejection notification email');
@@ -906,18 +1247,23 @@ export class EmailNotificationService {
       return;
     }
 
+    const recipients = await NotificationPreferenceService.filterEmailRecipients(notifyEmails, 'status_changed');
+    if (recipients.length === 0) {
+      console.log(`All recipients opted out of email for request ${request.id}`);
+      return;
+    }
+
     const template = EmailTemplates.requestStatusChanged(request, oldStatus);
 
     try {
-      const result = await getResendInstance().emails.send({
-        from: fromEmail,
-        to: notifyEmails,
+      const delivery = await EmailOutboxService.send({
+        to: recipients,
         subject: template.subject,
         html: template.html,
         text: template.text,
       });
 
-      console.log(`Status change notification sent for request ${request.id}:`, result);
+      console.log(`Status change notification sent for request ${request.id}: ${delivery.status}`);
     } catch (error) {
       console.error(`Failed to send status change notification for request ${request.id}:`, error);
       throw new Error('Failed to send status change notification email');
@@ -928,18 +1274,26 @@ export class EmailNotificationService {
    * Send equipment assignment notification to the requester
    */
   static async notifyRequesterOfEquipmentAssignment(request: EquipmentRequestEmailData): Promise<void> {
+    const [recipient] = await NotificationPreferenceService.filterEmailRecipients(
+      [request.requester.email],
+      'equipment_assigned'
+    );
+    if (!recipient) {
+      console.log(`Requester opted out of email for request ${request.id}`);
+      return;
+    }
+
     const template = EmailTemplates.equipmentAssigned(request);
 
     try {
-      const result = await getResendInstance().emails.send({
-        from: fromEmail,
-        to: request.requester.email,
+      const delivery = await EmailOutboxService.send({
+        to: recipient,
         subject: template.subject,
         html: template.html,
         text: template.text,
       });
 
-      console.log(`Equipment assignment notification sent to requester for request ${request.id}:`, result);
+      console.log(`Equipment assignment notification sent to requester for request ${request.id}: ${delivery.status}`);
     } catch (error) {
       console.error(`Failed to send equipment assignment notification for request ${request.id}:`, error);
       throw new Error('Failed to send equipment assignment notification email');
@@ -947,7 +1301,49 @@ export class EmailNotificationService {
   }
 
   /**
-   * Get team lead emails for a user's team
+   * Send a maintenance reminder to the equipment holder
+   */
+  static async notifyMaintenanceDue(email: string, reminder: ReminderEmailData): Promise<void> {
+    await this.sendReminder(email, 'maintenance_due', reminder);
+  }
+
+  /**
+   * Send a renewal reminder to the subscription assignee
+   */
+  static async notifyRenewalDue(email: string, reminder: ReminderEmailData): Promise<void> {
+    await this.sendReminder(email, 'renewal_due', reminder);
+  }
+
+  private static async sendReminder(
+    email: string,
+    event: 'maintenance_due' | 'renewal_due',
+    reminder: ReminderEmailData
+  ): Promise<void> {
+    const [recipient] = await NotificationPreferenceService.filterEmailRecipients([email], event);
+    if (!recipient) {
+      console.log(`Recipient opted out of email for ${event} reminder ${reminder.url}`);
+      return;
+    }
+
+    const template = EmailTemplates.reminder(reminder);
+
+    try {
+      const delivery = await EmailOutboxService.send({
+        to: recipient,
+        subject: template.subject,
+        html: template.html,
+        text: template.text,
+      });
+
+      console.log(`${reminder.title} reminder sent for ${reminder.url}: ${delivery.status}`);
+    } catch (error) {
+      console.error(`Failed to send ${event} reminder for ${reminder.url}:`, error);
+      throw new Error('Failed to send reminder email');
+    }
+  }
+
+  /**
+   * Get team lead emails for a user's team, with team leads who are out of office replaced by their delegates
    */
   static async getTeamLeadEmails(userId: string): Promise<string[]> {
     try {
@@ -958,23 +1354,23 @@ export class EmailNotificationService {
             include: {
               members: {
                 where: { role: 'team_lead' },
-                select: { email: true }
+                select: { id: true, email: true }
               }
             }
           }
         }
       });
 
-      if (!user?.team) {
-        // If user is not in a team, get all team leads as fallback
-        const teamLeads = await prisma.user.findMany({
-          where: { role: 'team_lead', isActive: true },
-          select: { email: true }
-        });
-        return teamLeads.map(tl => tl.email);
-      }
+      // If user is not in a team, get all team leads as fallback
+      const teamLeads = user?.team
+        ? user.team.members
+        : await prisma.user.findMany({
+            where: { role: 'team_lead', isActive: true },
+            select: { id: true, email: true }
+          });
 
-      return user.team.members.map(member => member.email);
+      const recipients = await ApprovalDelegationService.routeToDelegates(teamLeads);
+      return recipients.map(recipient => recipient.email);
     } catch (error) {
       console.error(`Failed to get team lead emails for user ${userId}:`, error);
       return [];
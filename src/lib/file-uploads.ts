@@ -0,0 +1,178 @@
+// ABOUTME: Upload handling shared by every file upload in ProfiCo Inventory Management System
+// ABOUTME: Checks size against settings, detects the real content type from the bytes and stores files under dated keys
+
+import { randomUUID } from "crypto";
+import path from "path";
+import { prisma } from "@/lib/prisma";
+import { getStorage, signedUrlTtl } from "@/lib/storage";
+import { SystemSettingsService } from "@/lib/system-settings";
+
+export const IMAGE_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+
+export const DOCUMENT_CONTENT_TYPES = ["application/pdf", ...IMAGE_CONTENT_TYPES];
+
+export interface UploadData {
+  body: Buffer;
+  fileName: string;
+  // Leading part of the storage key, e.g. "equipment-files"
+  prefix: string;
+  allowedTypes: string[];
+}
+
+export interface FileRecordData {
+  uploadedById: string;
+  equipmentId?: string;
+  description?: string | null;
+}
+
+export interface StoredUpload {
+  storageKey: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
+/**
+ * Raised when an upload is too large or is not a file type the upload accepts
+ */
+export class FileUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FileUploadError";
+  }
+}
+
+const SIGNATURES: Array<{ type: string; matches: (body: Buffer) => boolean }> = [
+  { type: "application/pdf", matches: (body) => body.subarray(0, 5).toString("latin1") === "%PDF-" },
+  { type: "image/png", matches: (body) => body.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { type: "image/jpeg", matches: (body) => body.length > 3 && body[0] === 0xff && body[1] === 0xd8 && body[2] === 0xff },
+  { type: "image/gif", matches: (body) => ["GIF87a", "GIF89a"].includes(body.subarray(0, 6).toString("latin1")) },
+  {
+    type: "image/webp",
+    matches: (body) => body.subarray(0, 4).toString("latin1") === "RIFF" && body.subarray(8, 12).toString("latin1") === "WEBP",
+  },
+];
+
+/**
+ * The content type the bytes really are, whatever the browser claimed. Null for anything unrecognised.
+ */
+export function detectContentType(body: Buffer): string | null {
+  return SIGNATURES.find((signature) => signature.matches(body))?.type ?? null;
+}
+
+/**
+ * Storage key for a new upload: grouped by month, unique, and keeping a readable file name
+ */
+export function storageKeyFor(prefix: string, fileName: string, now: Date = new Date()): string {
+  const ext = path.extname(fileName).toLowerCase().replace(/[^a-z0-9.]/g, "");
+  const name = path.basename(fileName, path.extname(fileName)).replace(/[^a-zA-Z0-9.-]/g, "_").slice(0, 80) || "file";
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+
+  return `${prefix}/${now.getFullYear()}/${month}/${randomUUID()}-${name}${ext}`;
+}
+
+function describeTypes(types: string[]): string {
+  return types.map((type) => (type === "application/pdf" ? "PDF" : type.replace("image/", "").toUpperCase())).join(", ");
+}
+
+/**
+ * File upload service: the one way uploads reach storage
+ */
+export class FileUploadService {
+  /**
+   * Largest accepted upload in bytes, configured by admins as maxFileUploadSize in megabytes
+   */
+  static async maxFileSize(): Promise<number> {
+    return (await SystemSettingsService.get("maxFileUploadSize")) * 1024 * 1024;
+  }
+
+  /**
+   * Check an upload before storing or processing it, returning its detected content type
+   */
+  static async validate(body: Buffer, allowedTypes: string[]): Promise<string> {
+    const maxFileSize = await this.maxFileSize();
+    if (body.length > maxFileSize) {
+      throw new FileUploadError(`File size exceeds maximum limit of ${maxFileSize / 1024 / 1024}MB`);
+    }
+
+    if (body.length === 0) {
+      throw new FileUploadError("File is empty");
+    }
+
+    const contentType = detectContentType(body);
+    if (!contentType || !allowedTypes.includes(contentType)) {
+      throw new FileUploadError(`File type is not supported. Allowed types: ${describeTypes(allowedTypes)}`);
+    }
+
+    return contentType;
+  }
+
+  static async store(upload: UploadData): Promise<StoredUpload> {
+    const contentType = await this.validate(upload.body, upload.allowedTypes);
+    const storageKey = storageKeyFor(upload.prefix, upload.fileName);
+
+    await getStorage().put(storageKey, upload.body, contentType);
+
+    return {
+      storageKey,
+      fileName: upload.fileName,
+      contentType,
+      size: upload.body.length,
+    };
+  }
+
+  /**
+   * Store an upload and record it as a File. The record's url is the app route that checks access
+   * and hands out a signed link, so it stays valid however the file is stored.
+   */
+  static async storeFile(upload: UploadData, record: FileRecordData) {
+    const stored = await this.store(upload);
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const file = await tx.file.create({
+          data: {
+            name: stored.fileName,
+            url: "",
+            storageKey: stored.storageKey,
+            size: stored.size,
+            type: stored.contentType,
+            description: record.description ?? null,
+            equipmentId: record.equipmentId,
+            uploadedById: record.uploadedById,
+          },
+        });
+
+        return tx.file.update({
+          where: { id: file.id },
+          data: { url: `/api/files/${file.id}` },
+        });
+      });
+    } catch (error) {
+      await this.remove(stored.storageKey).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a stored file, for example when the record that pointed at it could not be saved
+   */
+  static async remove(storageKey: string): Promise<void> {
+    await getStorage().delete(storageKey);
+  }
+
+  /**
+   * Short-lived URL for a stored file. Callers check access before handing it out.
+   */
+  static async downloadUrl(
+    file: { storageKey: string; fileName: string; contentType: string },
+    options: { download?: boolean } = {}
+  ): Promise<string> {
+    return getStorage().signedUrl(file.storageKey, {
+      fileName: file.fileName,
+      contentType: file.contentType,
+      download: options.download,
+      expiresIn: signedUrlTtl(),
+    });
+  }
+}
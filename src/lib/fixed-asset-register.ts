@@ -0,0 +1,407 @@
+// ABOUTME: Fixed-asset register and month-end close for ProfiCo Inventory Management System
+// ABOUTME: Freezes each item's depreciation for a month and turns it into journal lines for the books
+
+import { prisma } from "@/lib/prisma";
+import { DepreciationService, calculateDepreciation, type EquipmentValuation } from "@/lib/depreciation";
+
+// Items in these states have left the company and are taken off the register
+export const RETIRED_STATUSES = ["lost", "stolen", "decommissioned"];
+
+export const JOURNAL_ACCOUNTS = {
+  depreciationExpense: "Depreciation Expense",
+  accumulatedDepreciation: "Accumulated Depreciation",
+  disposalProceeds: "Disposal Proceeds Receivable",
+  disposalLoss: "Loss on Disposal of Fixed Assets",
+  disposalGain: "Gain on Disposal of Fixed Assets",
+  fixedAssets: "Fixed Assets",
+};
+
+export interface RegisterLine {
+  equipmentId: string;
+  name: string;
+  serialNumber: string;
+  category: string;
+  purchaseDate: Date;
+  purchasePrice: number;
+  invoiceNumber: string | null;
+  vendor: string | null;
+  depreciationMethod: string;
+  usefulLifeMonths: number;
+  openingValue: number;
+  additions: number;
+  disposals: number;
+  depreciationCharge: number;
+  closingValue: number;
+  /** Left the register this period */
+  disposed: boolean;
+  /** Received for the item when it was disposed */
+  saleProceeds: number;
+}
+
+export interface RegisterTotals {
+  openingValue: number;
+  additions: number;
+  disposals: number;
+  depreciationCharge: number;
+  closingValue: number;
+}
+
+export interface FixedAssetRegister {
+  period: string;
+  startDate: Date;
+  endDate: Date;
+  closed: boolean;
+  closedAt: Date | null;
+  closedBy: { id: string; name: string; email: string } | null;
+  totals: RegisterTotals;
+  lines: RegisterLine[];
+}
+
+export interface JournalLine {
+  date: string;
+  reference: string;
+  account: string;
+  category: string;
+  description: string;
+  debit: number;
+  credit: number;
+}
+
+/**
+ * Raised when a period cannot be closed, e.g. it has not ended or an earlier month is still open
+ */
+export class PeriodCloseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PeriodCloseError";
+  }
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * First and last moment of a "YYYY-MM" period, in server time
+ */
+export function getPeriodRange(period: string): { startDate: Date; endDate: Date } {
+  const [year, month] = period.split("-").map(Number);
+  return {
+    startDate: new Date(year, month - 1, 1),
+    endDate: new Date(year, month, 0, 23, 59, 59, 999),
+  };
+}
+
+export function formatPeriod(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+export function getNextPeriod(period: string): string {
+  const { startDate } = getPeriodRange(period);
+  return formatPeriod(new Date(startDate.getFullYear(), startDate.getMonth() + 1, 1));
+}
+
+export function sumRegister(lines: RegisterLine[]): RegisterTotals {
+  const total = (pick: (line: RegisterLine) => number) =>
+    roundCents(lines.reduce((sum, line) => sum + pick(line), 0));
+
+  return {
+    openingValue: total((line) => line.openingValue),
+    additions: total((line) => line.additions),
+    disposals: total((line) => line.disposals),
+    depreciationCharge: total((line) => line.depreciationCharge),
+    closingValue: total((line) => line.closingValue),
+  };
+}
+
+/**
+ * Work out each item's register line for a period.
+ * Opening values carry over from the previous close, so every period picks up exactly where the last
+ * one ended. Items new to the register come in as additions at cost, with any catch-up depreciation
+ * in the same period. On the very first close, older items open at their book value instead.
+ */
+export function buildRegisterLines(
+  valuations: EquipmentValuation[],
+  previous: Map<string, RegisterLine> | null,
+  startDate: Date
+): RegisterLine[] {
+  const previousEnd = new Date(startDate.getTime() - 1);
+  const lines: RegisterLine[] = [];
+  const seen = new Set<string>();
+
+  for (const valuation of valuations) {
+    const { equipment, policy } = valuation;
+    const prior = previous?.get(equipment.id);
+    // An approved disposal dated after this period keeps the item on the register until then
+    const disposedLater = !valuation.disposal && equipment.disposals.length > 0;
+    const retired = !!valuation.disposal || (RETIRED_STATUSES.includes(equipment.status) && !disposedLater);
+    seen.add(equipment.id);
+
+    if (prior?.disposed) {
+      continue;
+    }
+
+    const carriedOver = !!prior || (!previous && equipment.purchaseDate < startDate);
+    // Retired before it ever reached the register, so there is nothing to take off
+    if (retired && !carriedOver) {
+      continue;
+    }
+
+    const depreciatedBefore = carriedOver
+      ? calculateDepreciation(valuation.purchasePrice, equipment.purchaseDate, policy, previousEnd)
+          .accumulatedDepreciation
+      : 0;
+    const openingValue = prior
+      ? prior.closingValue
+      : carriedOver
+        ? roundCents(valuation.purchasePrice - depreciatedBefore)
+        : 0;
+    const additions = carriedOver ? 0 : valuation.purchasePrice;
+    const available = roundCents(openingValue + additions);
+
+    // Disposals depreciate up to their disposal date; items retired without one are taken off as they stand
+    const depreciationCharge = retired && !valuation.disposal
+      ? 0
+      : Math.min(Math.max(roundCents(valuation.accumulatedDepreciation - depreciatedBefore), 0), available);
+    const disposals = retired ? roundCents(available - depreciationCharge) : 0;
+
+    lines.push({
+      equipmentId: equipment.id,
+      name: equipment.name,
+      serialNumber: equipment.serialNumber,
+      category: equipment.category,
+      purchaseDate: equipment.purchaseDate,
+      purchasePrice: valuation.purchasePrice,
+      invoiceNumber: equipment.invoice?.invoiceNumber ?? null,
+      vendor: equipment.invoice?.vendor ?? null,
+      depreciationMethod: policy.method,
+      usefulLifeMonths: policy.usefulLifeMonths,
+      openingValue,
+      additions,
+      disposals,
+      depreciationCharge,
+      closingValue: roundCents(available - depreciationCharge - disposals),
+      disposed: retired,
+      saleProceeds: valuation.disposal?.saleProceeds ?? 0,
+    });
+  }
+
+  // Deleted equipment still on last period's register is taken off at its book value
+  for (const prior of previous?.values() ?? []) {
+    if (!seen.has(prior.equipmentId) && !prior.disposed) {
+      lines.push({
+        ...prior,
+        openingValue: prior.closingValue,
+        additions: 0,
+        disposals: prior.closingValue,
+        depreciationCharge: 0,
+        closingValue: 0,
+        disposed: true,
+      });
+    }
+  }
+
+  return lines.sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Double-entry journal for a register, one set of lines per category.
+ * Additions are left out because they are booked from the supplier invoice.
+ * Disposals remove cost and accumulated depreciation, book any proceeds and post the difference
+ * against book value as a loss or a gain.
+ */
+export function buildJournalLines(period: string, endDate: Date, lines: RegisterLine[]): JournalLine[] {
+  const date = `${formatPeriod(endDate)}-${String(endDate.getDate()).padStart(2, "0")}`;
+  const reference = `DEP-${period}`;
+  const journal: JournalLine[] = [];
+
+  const categories = Array.from(new Set(lines.map((line) => line.category))).sort();
+  for (const category of categories) {
+    const inCategory = lines.filter((line) => line.category === category);
+    const disposed = inCategory.filter((line) => line.disposed);
+
+    const charge = roundCents(inCategory.reduce((sum, line) => sum + line.depreciationCharge, 0));
+    const disposedCost = roundCents(disposed.reduce((sum, line) => sum + line.purchasePrice, 0));
+    const disposedBookValue = roundCents(disposed.reduce((sum, line) => sum + line.disposals, 0));
+    const disposedDepreciation = roundCents(disposedCost - disposedBookValue);
+    const proceeds = roundCents(disposed.reduce((sum, line) => sum + line.saleProceeds, 0));
+    const loss = roundCents(disposed.reduce((sum, line) => sum + Math.max(line.disposals - line.saleProceeds, 0), 0));
+    const gain = roundCents(disposed.reduce((sum, line) => sum + Math.max(line.saleProceeds - line.disposals, 0), 0));
+
+    const entries: Array<[string, string, number, number]> = [
+      [JOURNAL_ACCOUNTS.depreciationExpense, `Depreciation ${period}`, charge, 0],
+      [JOURNAL_ACCOUNTS.accumulatedDepreciation, `Depreciation ${period}`, 0, charge],
+      [JOURNAL_ACCOUNTS.accumulatedDepreciation, `Disposals ${period}`, disposedDepreciation, 0],
+      [JOURNAL_ACCOUNTS.disposalProceeds, `Disposals ${period}`, proceeds, 0],
+      [JOURNAL_ACCOUNTS.disposalLoss, `Disposals ${period}`, loss, 0],
+      [JOURNAL_ACCOUNTS.disposalGain, `Disposals ${period}`, 0, gain],
+      [JOURNAL_ACCOUNTS.fixedAssets, `Disposals ${period}`, 0, disposedCost],
+    ];
+
+    for (const [account, description, debit, credit] of entries) {
+      if (debit > 0 || credit > 0) {
+        journal.push({ date, reference, account, category, description, debit, credit });
+      }
+    }
+  }
+
+  return journal;
+}
+
+const registerLineSelect = {
+  equipmentId: true,
+  name: true,
+  serialNumber: true,
+  category: true,
+  purchaseDate: true,
+  purchasePrice: true,
+  invoiceNumber: true,
+  vendor: true,
+  depreciationMethod: true,
+  usefulLifeMonths: true,
+  openingValue: true,
+  additions: true,
+  disposals: true,
+  depreciationCharge: true,
+  closingValue: true,
+  disposed: true,
+  saleProceeds: true,
+};
+
+const closedBySelect = {
+  closedBy: {
+    select: { id: true, name: true, email: true },
+  },
+};
+
+/**
+ * Fixed-asset register service: previews open months and freezes them on close
+ */
+export class FixedAssetRegisterService {
+  /**
+   * Closed periods, newest first
+   */
+  static async listPeriods() {
+    return prisma.fixedAssetPeriod.findMany({
+      include: closedBySelect,
+      orderBy: { period: "desc" },
+    });
+  }
+
+  /**
+   * The register for a period: frozen lines once closed, a live preview until then
+   */
+  static async getRegister(period: string): Promise<FixedAssetRegister> {
+    const closed = await prisma.fixedAssetPeriod.findUnique({
+      where: { period },
+      include: {
+        ...closedBySelect,
+        snapshots: { select: registerLineSelect, orderBy: [{ category: "asc" }, { name: "asc" }] },
+      },
+    });
+
+    if (closed) {
+      return {
+        period,
+        startDate: closed.startDate,
+        endDate: closed.endDate,
+        closed: true,
+        closedAt: closed.closedAt,
+        closedBy: closed.closedBy,
+        totals: {
+          openingValue: closed.openingValue,
+          additions: closed.additions,
+          disposals: closed.disposals,
+          depreciationCharge: closed.depreciationCharge,
+          closingValue: closed.closingValue,
+        },
+        lines: closed.snapshots,
+      };
+    }
+
+    const { startDate, endDate } = getPeriodRange(period);
+    const lines = await this.computeLines(period);
+
+    return {
+      period,
+      startDate,
+      endDate,
+      closed: false,
+      closedAt: null,
+      closedBy: null,
+      totals: sumRegister(lines),
+      lines,
+    };
+  }
+
+  /**
+   * Freeze a month's register. Months close in order and cannot be reopened.
+   */
+  static async closePeriod(period: string, closedById: string): Promise<FixedAssetRegister> {
+    const { startDate, endDate } = getPeriodRange(period);
+
+    if (endDate >= new Date()) {
+      throw new PeriodCloseError(`${period} has not ended yet`);
+    }
+
+    const latest = await prisma.fixedAssetPeriod.findFirst({
+      orderBy: { period: "desc" },
+      select: { period: true },
+    });
+
+    if (latest && period <= latest.period) {
+      throw new PeriodCloseError(`${period} is already closed`);
+    }
+
+    if (latest && period !== getNextPeriod(latest.period)) {
+      throw new PeriodCloseError(`Close ${getNextPeriod(latest.period)} before ${period}`);
+    }
+
+    const lines = await this.computeLines(period, latest?.period);
+
+    await prisma.fixedAssetPeriod.create({
+      data: {
+        period,
+        startDate,
+        endDate,
+        ...sumRegister(lines),
+        closedById,
+        snapshots: {
+          create: lines,
+        },
+      },
+    });
+
+    return this.getRegister(period);
+  }
+
+  private static async computeLines(period: string, previousPeriod?: string): Promise<RegisterLine[]> {
+    const { startDate, endDate } = getPeriodRange(period);
+
+    const lastClosed =
+      previousPeriod ??
+      (
+        await prisma.fixedAssetPeriod.findFirst({
+          where: { period: { lt: period } },
+          orderBy: { period: "desc" },
+          select: { period: true },
+        })
+      )?.period;
+
+    const [valuations, previousLines] = await Promise.all([
+      DepreciationService.valueEquipment({ purchaseDate: { lte: endDate } }, endDate),
+      lastClosed
+        ? prisma.fixedAssetSnapshot.findMany({
+            where: { period: { period: lastClosed } },
+            select: registerLineSelect,
+          })
+        : Promise.resolve(null),
+    ]);
+
+    const previous = previousLines
+      ? new Map(previousLines.map((line) => [line.equipmentId, line]))
+      : null;
+
+    return buildRegisterLines(valuations, previous, startDate);
+  }
+}
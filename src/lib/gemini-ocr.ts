@@ -41,9 +41,55 @@ export interface OCRResult {
     processingTime: number;
     modelUsed: string;
     tokensUsed?: number;
+    // Set when several extractors ran: which one each field was taken from
+    fieldSources?: Record<string, string>;
+    // Fields the extractors read differently, worth a closer look in review
+    conflicts?: string[];
+    // Fields changed by corrections learned from earlier reviews of the vendor, e.g. "currency" or "equipment.0.category"
+    autoCorrected?: string[];
   };
 }
 
+/**
+ * Guess the kind of invoice from keywords in its text
+ */
+export function detectInvoiceType(text: string): 'equipment' | 'subscription' | 'mixed' {
+  const lowerText = text.toLowerCase();
+  
+  // Keywords for subscription invoices
+  const subscriptionKeywords = [
+    'license', 'subscription', 'saas', 'software service', 'monthly fee',
+    'annual fee', 'renewal', 'seat', 'user license', 'cloud service',
+    'hosting', 'domain', 'ssl certificate', 'api usage'
+  ];
+  
+  // Keywords for equipment invoices
+  const equipmentKeywords = [
+    'laptop', 'desktop', 'monitor', 'keyboard', 'mouse', 'tablet',
+    'smartphone', 'printer', 'scanner', 'server', 'switch', 'router',
+    'cable', 'adapter', 'hard drive', 'ssd', 'ram', 'processor',
+    'graphics card', 'motherboard', 'power supply', 'case'
+  ];
+  
+  const subscriptionMatches = subscriptionKeywords.filter(keyword => 
+    lowerText.includes(keyword)
+  ).length;
+  
+  const equipmentMatches = equipmentKeywords.filter(keyword => 
+    lowerText.includes(keyword)
+  ).length;
+  
+  if (subscriptionMatches > equipmentMatches && subscriptionMatches > 0) {
+    return 'subscription';
+  } else if (equipmentMatches > subscriptionMatches && equipmentMatches > 0) {
+    return 'equipment';
+  } else if (subscriptionMatches > 0 && equipmentMatches > 0) {
+    return 'mixed';
+  } else {
+    return 'equipment'; // Default assumption
+  }
+}
+
 export class GeminiOCRService {
   private model: ReturnType<typeof genAI.getGenerativeModel>;
   private visionModel: ReturnType<typeof genAI.getGenerativeModel>;
@@ -80,7 +126,7 @@ export class GeminiOCRService {
       const pdfText = await this.extractTextFromPDF(pdfBuffer);
       
       // Determine if this is likely an equipment or subscription invoice
-      const invoiceType = this.detectInvoiceType(pdfText);
+      const invoiceType = detectInvoiceType(pdfText);
       
       // Create enhanced prompt based on invoice type
       const prompt = this.createEnhancedPrompt(pdfText, invoiceType);
@@ -130,43 +176,6 @@ export class GeminiOCRService {
     }
   }
   
-  private detectInvoiceType(text: string): 'equipment' | 'subscription' | 'mixed' {
-    const lowerText = text.toLowerCase();
-    
-    // Keywords for subscription invoices
-    const subscriptionKeywords = [
-      'license', 'subscription', 'saas', 'software service', 'monthly fee',
-      'annual fee', 'renewal', 'seat', 'user license', 'cloud service',
-      'hosting', 'domain', 'ssl certificate', 'api usage'
-    ];
-    
-    // Keywords for equipment invoices
-    const equipmentKeywords = [
-      'laptop', 'desktop', 'monitor', 'keyboard', 'mouse', 'tablet',
-      'smartphone', 'printer', 'scanner', 'server', 'switch', 'router',
-      'cable', 'adapter', 'hard drive', 'ssd', 'ram', 'processor',
-      'graphics card', 'motherboard', 'power supply', 'case'
-    ];
-    
-    const subscriptionMatches = subscriptionKeywords.filter(keyword => 
-      lowerText.includes(keyword)
-    ).length;
-    
-    const equipmentMatches = equipmentKeywords.filter(keyword => 
-      lowerText.includes(keyword)
-    ).length;
-    
-    if (subscriptionMatches > equipmentMatches && subscriptionMatches > 0) {
-      return 'subscription';
-    } else if (equipmentMatches > subscriptionMatches && equipmentMatches > 0) {
-      return 'equipment';
-    } else if (subscriptionMatches > 0 && equipmentMatches > 0) {
-      return 'mixed';
-    } else {
-      return 'equipment'; // Default assumption
-    }
-  }
-  
   private createEnhancedPrompt(text: string, invoiceType: string): string {
     const baseInstructions = `
 Analyze this ${invoiceType} invoice text and extract structured information in JSON format.
@@ -352,12 +361,12 @@ ${text}`;
         name: item.name,
         serialNumber: item.serialNumber || undefined,
         specifications: item.specifications || undefined,
-        category: this.categorizeEquipment(item.name),
+        category: item.category || this.categorizeEquipment(item.name),
         status: 'pending',
         purchasePrice: data.amount ? data.amount / (data.equipment?.length || 1) : 0,
         purchaseDate: new Date(data.date || Date.now()),
         purchaseMethod: data.purchaseMethod || 'Off-the-shelf',
-        depreciationPeriod: data.depreciationPeriod || 24,
+        usefulLifeMonths: data.depreciationPeriod || this.getDefaultDepreciationPeriod(item.name),
         vendor: data.vendor || '',
         invoiceNumber: data.invoiceNumber || '',
         confidence: data.confidence || 0
@@ -404,7 +413,7 @@ ${text}`;
     return subscriptionItems;
   }
 
-  private categorizeEquipment(name: string): string {
+  categorizeEquipment(name: string): string {
     const nameLower = name.toLowerCase();
     
     // Computing devices
@@ -471,7 +480,7 @@ ${text}`;
     return prefixes[category] || 'GN';
   }
   
-  private getDefaultDepreciationPeriod(equipmentName: string): number {
+  getDefaultDepreciationPeriod(equipmentName: string): number {
     const category = this.categorizeEquipment(equipmentName);
     const periods: Record<string, number> = {
       laptop: 36,
@@ -0,0 +1,256 @@
+// ABOUTME: Handover checklist service for ProfiCo Inventory Management System
+// ABOUTME: Runs per-category checklists on assignment, return and transfer and gates returns on completion
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export type ChecklistStage = "assignment" | "return" | "transfer";
+
+export const CHECKLIST_STAGES: ChecklistStage[] = ["assignment", "return", "transfer"];
+
+export type HandoverChecklistSteps = Partial<Record<ChecklistStage, string[]>>;
+
+export interface StartChecklistData {
+  equipmentId: string;
+  stage: ChecklistStage;
+  historyId: string;
+  /** Step labels already done at the handover */
+  completedSteps?: string[];
+  userId: string;
+}
+
+/**
+ * Raised when a checklist cannot be changed, e.g. it is already complete
+ */
+export class ChecklistError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChecklistError";
+  }
+}
+
+/**
+ * Read a category's checklist steps, dropping anything that isn't a list of step labels
+ */
+export function parseChecklistSteps(value: string | null | undefined): HandoverChecklistSteps {
+  if (!value) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    const steps: HandoverChecklistSteps = {};
+
+    for (const stage of CHECKLIST_STAGES) {
+      const stageSteps = parsed?.[stage];
+      if (Array.isArray(stageSteps) && stageSteps.every((step) => typeof step === "string")) {
+        steps[stage] = stageSteps;
+      }
+    }
+
+    return steps;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Store checklist steps on a category: undefined leaves them alone, empty clears them
+ */
+export function serializeChecklistSteps(steps: HandoverChecklistSteps | null | undefined): string | null | undefined {
+  if (steps === undefined) {
+    return undefined;
+  }
+
+  const stages = CHECKLIST_STAGES.filter((stage) => steps?.[stage]?.length);
+  if (stages.length === 0) {
+    return null;
+  }
+
+  return JSON.stringify(Object.fromEntries(stages.map((stage) => [stage, steps?.[stage]])));
+}
+
+export const checklistInclude = {
+  items: {
+    include: {
+      completedBy: {
+        select: { id: true, name: true, email: true },
+      },
+    },
+    orderBy: { position: "asc" },
+  },
+} satisfies Prisma.HandoverChecklistInclude;
+
+/**
+ * Handover checklist service: the steps come from the equipment's category
+ */
+export class HandoverChecklistService {
+  /**
+   * The category's checklist steps for an item, by stage
+   */
+  static async getSteps(
+    equipmentId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<HandoverChecklistSteps> {
+    const equipment = await client.equipment.findUnique({
+      where: { id: equipmentId },
+      select: {
+        category: true,
+        categoryObj: { select: { handoverChecklists: true } },
+      },
+    });
+
+    if (!equipment) {
+      return {};
+    }
+
+    if (equipment.categoryObj) {
+      return parseChecklistSteps(equipment.categoryObj.handoverChecklists);
+    }
+
+    // Older items only carry the category name, so fall back to matching on it
+    const categories = await client.equipmentCategory.findMany({
+      select: { name: true, handoverChecklists: true },
+    });
+    const category = categories.find((c) => c.name.toLowerCase() === equipment.category.toLowerCase());
+
+    return parseChecklistSteps(category?.handoverChecklists);
+  }
+
+  /**
+   * Open a checklist for a handover that was just recorded in the equipment history.
+   * Returns null when the category has no steps for this stage.
+   */
+  static async start(client: Prisma.TransactionClient, data: StartChecklistData) {
+    const steps = (await this.getSteps(data.equipmentId, client))[data.stage] ?? [];
+    if (steps.length === 0) {
+      return null;
+    }
+
+    const done = new Set(data.completedSteps ?? []);
+    const now = new Date();
+
+    return client.handoverChecklist.create({
+      data: {
+        equipmentId: data.equipmentId,
+        historyId: data.historyId,
+        stage: data.stage,
+        completedAt: steps.every((step) => done.has(step)) ? now : null,
+        items: {
+          create: steps.map((label, position) => ({
+            position,
+            label,
+            ...(done.has(label) && { completed: true, completedAt: now, completedById: data.userId }),
+          })),
+        },
+      },
+      include: checklistInclude,
+    });
+  }
+
+  /**
+   * Whether the item still has return steps outstanding
+   */
+  static async hasOpenReturnChecklist(
+    equipmentId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<boolean> {
+    const open = await client.handoverChecklist.count({
+      where: { equipmentId, stage: "return", completedAt: null },
+    });
+    return open > 0;
+  }
+
+  /**
+   * Tick or untick a step. Completing the last return step releases a returned item back to available.
+   */
+  static async setItemCompleted(
+    equipmentId: string,
+    checklistId: string,
+    itemId: string,
+    completed: boolean,
+    userId: string
+  ) {
+    return prisma.$transaction(async (tx) => {
+      const item = await tx.handoverChecklistItem.findFirst({
+        where: { id: itemId, checklist: { id: checklistId, equipmentId } },
+        include: { checklist: { select: { stage: true, completedAt: true } } },
+      });
+
+      if (!item) {
+        return null;
+      }
+
+      // Completed checklists are the record of the handover and stay as they are
+      if (item.checklist.completedAt) {
+        throw new ChecklistError("Checklist is already complete");
+      }
+
+      await tx.handoverChecklistItem.update({
+        where: { id: itemId },
+        data: completed
+          ? { completed: true, completedAt: new Date(), completedById: userId }
+          : { completed: false, completedAt: null, completedById: null },
+      });
+
+      const remaining = await tx.handoverChecklistItem.count({
+        where: { checklistId, completed: false },
+      });
+
+      const checklist = await tx.handoverChecklist.update({
+        where: { id: checklistId },
+        data: { completedAt: remaining === 0 ? new Date() : null },
+        include: checklistInclude,
+      });
+
+      let released = false;
+      if (checklist.completedAt && checklist.stage === "return") {
+        const equipment = await tx.equipment.findUnique({
+          where: { id: equipmentId },
+          select: { status: true },
+        });
+
+        if (equipment?.status === "pending" && !(await this.hasOpenReturnChecklist(equipmentId, tx))) {
+          await tx.equipment.update({
+            where: { id: equipmentId },
+            data: { status: "available" },
+          });
+
+          await tx.equipmentHistory.create({
+            data: {
+              equipmentId,
+              action: "STATUS_AVAILABLE",
+              notes: "Return checklist completed",
+            },
+          });
+
+          released = true;
+        }
+      }
+
+      return { checklist, released };
+    });
+  }
+
+  /**
+   * Every checklist run for an item, newest first
+   */
+  static async listForEquipment(equipmentId: string) {
+    return prisma.handoverChecklist.findMany({
+      where: { equipmentId },
+      include: {
+        ...checklistInclude,
+        history: {
+          select: {
+            id: true,
+            action: true,
+            createdAt: true,
+            fromUser: { select: { id: true, name: true } },
+            toUser: { select: { id: true, name: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+}
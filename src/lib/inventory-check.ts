@@ -0,0 +1,459 @@
+// ABOUTME: Physical inventory audit service for ProfiCo Inventory Management System
+// ABOUTME: Snapshots equipment in scope, records QR scans and reconciles discrepancies on close
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export type InventoryCheckScope = "all" | "location" | "category" | "team";
+
+export type InventoryCheckStatus = "pending" | "in_progress" | "completed";
+
+export type InventoryCheckItemStatus = "pending" | "verified" | "missing" | "unexpected";
+
+export type DiscrepancyType = "missing" | "unexpected" | "wrong_owner" | "wrong_location";
+
+export interface InventoryCheckCreateData {
+  name: string;
+  description?: string;
+  scopeType: InventoryCheckScope;
+  scopeValue?: string;
+  scheduledAt: Date;
+  notes?: string;
+}
+
+export interface InventoryScanData {
+  code: string;
+  location?: string;
+  ownerId?: string | null;
+  notes?: string;
+}
+
+export interface InventoryCheckItemSnapshot {
+  status: string;
+  expected: boolean;
+  expectedOwnerId?: string | null;
+  expectedLocation?: string | null;
+  observedOwnerId?: string | null;
+  ownerObserved?: boolean;
+  observedLocation?: string | null;
+}
+
+export interface InventoryDiscrepancy {
+  type: DiscrepancyType;
+  itemId: string;
+  equipmentId?: string | null;
+  name?: string | null;
+  serialNumber?: string | null;
+  scannedCode?: string | null;
+  expectedOwner?: string | null;
+  observedOwner?: string | null;
+  expectedLocation?: string | null;
+  observedLocation?: string | null;
+}
+
+export interface ReconciliationReport {
+  check: {
+    id: string;
+    name: string;
+    status: string;
+    scopeType: string;
+    scopeValue: string | null;
+    scheduledAt: Date;
+    startedAt: Date | null;
+    completedAt: Date | null;
+  };
+  summary: {
+    expected: number;
+    verified: number;
+    missing: number;
+    unexpected: number;
+    wrongOwner: number;
+    wrongLocation: number;
+    pending: number;
+    accuracy: number; // Percentage of expected items verified without discrepancies
+  };
+  discrepancies: InventoryDiscrepancy[];
+}
+
+export class InventoryCheckError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InventoryCheckError";
+  }
+}
+
+// Equipment in these states is not expected to be found on the shelf
+const OUT_OF_SCOPE_STATUSES = ["decommissioned", "lost", "stolen"];
+
+const itemInclude = {
+  equipment: {
+    select: { id: true, name: true, serialNumber: true, category: true, status: true },
+  },
+  verifiedBy: {
+    select: { id: true, name: true, email: true },
+  },
+};
+
+/**
+ * Normalize free-text locations so "Zagreb Office " and "zagreb office" compare equal
+ */
+function normalizeLocation(location?: string | null): string {
+  return (location || "").trim().toLowerCase();
+}
+
+/**
+ * Extract the equipment identifier from a scanned QR payload.
+ * Generated QR codes encode a URL like https://host/equipment/<id>,
+ * while hand-labelled items may carry the bare id or serial number.
+ */
+export function extractEquipmentCode(scannedText: string): string {
+  const text = scannedText.trim();
+  const match = text.match(/\/equipment\/([^/?#]+)/);
+  return match ? decodeURIComponent(match[1]) : text;
+}
+
+/**
+ * Determine which discrepancies apply to a single check item
+ */
+export function detectDiscrepancies(item: InventoryCheckItemSnapshot): DiscrepancyType[] {
+  if (item.status === "missing") {
+    return ["missing"];
+  }
+
+  if (!item.expected || item.status === "unexpected") {
+    return ["unexpected"];
+  }
+
+  if (item.status !== "verified") {
+    return [];
+  }
+
+  const discrepancies: DiscrepancyType[] = [];
+
+  if (item.ownerObserved && (item.observedOwnerId ?? null) !== (item.expectedOwnerId ?? null)) {
+    discrepancies.push("wrong_owner");
+  }
+
+  if (
+    item.observedLocation &&
+    normalizeLocation(item.observedLocation) !== normalizeLocation(item.expectedLocation)
+  ) {
+    discrepancies.push("wrong_location");
+  }
+
+  return discrepancies;
+}
+
+/**
+ * Inventory check service for running physical stocktakes against the equipment register
+ */
+export class InventoryCheckService {
+  /**
+   * Build the equipment filter for a check scope
+   */
+  static buildScopeWhere(scopeType: string, scopeValue?: string | null): Record<string, unknown> {
+    const where: Record<string, unknown> = {
+      status: { notIn: OUT_OF_SCOPE_STATUSES },
+    };
+
+    switch (scopeType) {
+      case "location":
+        where.location = scopeValue;
+        break;
+      case "category":
+        where.OR = [{ category: scopeValue }, { categoryId: scopeValue }];
+        break;
+      case "team":
+        where.currentOwner = { teamId: scopeValue };
+        break;
+    }
+
+    return where;
+  }
+
+  /**
+   * Create a check and snapshot the equipment expected to be found
+   */
+  static async createCheck(data: InventoryCheckCreateData, userId: string) {
+    try {
+      const equipment = await prisma.equipment.findMany({
+        where: this.buildScopeWhere(data.scopeType, data.scopeValue),
+        select: { id: true, currentOwnerId: true, location: true },
+      });
+
+      return await prisma.inventoryCheck.create({
+        data: {
+          name: data.name,
+          description: data.description,
+          scopeType: data.scopeType,
+          scopeValue: data.scopeType === "all" ? null : data.scopeValue,
+          scheduledAt: data.scheduledAt,
+          notes: data.notes,
+          createdById: userId,
+          equipmentCount: equipment.length,
+          items: {
+            create: equipment.map((item) => ({
+              equipmentId: item.id,
+              expected: true,
+              expectedOwnerId: item.currentOwnerId,
+              expectedLocation: item.location,
+            })),
+          },
+        },
+      });
+    } catch (error) {
+      console.error("Failed to create inventory check:", error);
+      throw new Error("Failed to create inventory check");
+    }
+  }
+
+  /**
+   * Resolve a scanned code to an equipment record by id or serial number
+   */
+  static async resolveScannedCode(scannedText: string) {
+    const code = extractEquipmentCode(scannedText);
+
+    return prisma.equipment.findFirst({
+      where: { OR: [{ id: code }, { serialNumber: code }] },
+      select: { id: true, name: true, serialNumber: true, currentOwnerId: true, location: true },
+    });
+  }
+
+  /**
+   * Record a scan against an open check.
+   * Items outside the snapshot are recorded as unexpected rather than rejected.
+   */
+  static async recordScan(
+    check: { id: string; status: string; scopeType: string; scopeValue: string | null },
+    scan: InventoryScanData,
+    userId: string
+  ) {
+    const equipment = await this.resolveScannedCode(scan.code);
+
+    // In a location-scoped check the auditor is standing in the scoped location
+    const observedLocation =
+      scan.location || (check.scopeType === "location" ? check.scopeValue : null);
+
+    const existing = equipment
+      ? await prisma.inventoryCheckItem.findUnique({
+          where: { checkId_equipmentId: { checkId: check.id, equipmentId: equipment.id } },
+        })
+      : null;
+
+    // An ownerId of null records that nobody holds the item; undefined means it was not checked
+    const scanData = {
+      observedOwnerId: scan.ownerId ?? null,
+      ownerObserved: scan.ownerId !== undefined,
+      observedLocation,
+      verifiedById: userId,
+      verifiedAt: new Date(),
+      notes: scan.notes,
+    };
+
+    const item = await prisma.$transaction(async (tx) => {
+      if (check.status === "pending") {
+        await tx.inventoryCheck.update({
+          where: { id: check.id },
+          data: { status: "in_progress", startedAt: new Date() },
+        });
+      }
+
+      if (existing) {
+        return tx.inventoryCheckItem.update({
+          where: { id: existing.id },
+          data: {
+            ...scanData,
+            status: existing.expected ? "verified" : "unexpected",
+          },
+          include: itemInclude,
+        });
+      }
+
+      // Scanning the same unknown code again updates its item instead of adding another
+      if (!equipment) {
+        return tx.inventoryCheckItem.upsert({
+          where: { checkId_scannedCode: { checkId: check.id, scannedCode: scan.code } },
+          update: scanData,
+          create: {
+            ...scanData,
+            checkId: check.id,
+            scannedCode: scan.code,
+            expected: false,
+            status: "unexpected",
+          },
+          include: itemInclude,
+        });
+      }
+
+      return tx.inventoryCheckItem.create({
+        data: {
+          ...scanData,
+          checkId: check.id,
+          equipmentId: equipment.id,
+          scannedCode: scan.code,
+          expected: false,
+          expectedOwnerId: equipment.currentOwnerId,
+          expectedLocation: equipment.location,
+          status: "unexpected",
+        },
+        include: itemInclude,
+      });
+    });
+
+    const verifiedCount = await prisma.inventoryCheckItem.count({
+      where: { checkId: check.id, status: "verified" },
+    });
+    await prisma.inventoryCheck.update({
+      where: { id: check.id },
+      data: { verifiedCount },
+    });
+
+    return {
+      item,
+      matched: !!equipment,
+      discrepancies: detectDiscrepancies(item),
+    };
+  }
+
+  /**
+   * Build the reconciliation report for a check from its current items
+   */
+  static async getReconciliationReport(
+    checkId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<ReconciliationReport | null> {
+    const check = await client.inventoryCheck.findUnique({
+      where: { id: checkId },
+      include: {
+        items: {
+          include: {
+            equipment: { select: { id: true, name: true, serialNumber: true } },
+          },
+        },
+      },
+    });
+
+    if (!check) {
+      return null;
+    }
+
+    // Resolve owner names for the report in one query
+    const ownerIds = new Set<string>();
+    for (const item of check.items) {
+      if (item.expectedOwnerId) ownerIds.add(item.expectedOwnerId);
+      if (item.observedOwnerId) ownerIds.add(item.observedOwnerId);
+    }
+    const owners = await client.user.findMany({
+      where: { id: { in: Array.from(ownerIds) } },
+      select: { id: true, name: true },
+    });
+    const ownerNames = new Map(owners.map((owner) => [owner.id, owner.name]));
+
+    const discrepancies: InventoryDiscrepancy[] = [];
+    let cleanVerified = 0;
+
+    for (const item of check.items) {
+      const types = detectDiscrepancies(item);
+
+      if (item.status === "verified" && types.length === 0) {
+        cleanVerified++;
+      }
+
+      for (const type of types) {
+        discrepancies.push({
+          type,
+          itemId: item.id,
+          equipmentId: item.equipmentId,
+          name: item.equipment?.name,
+          serialNumber: item.equipment?.serialNumber,
+          scannedCode: item.equipment ? undefined : item.scannedCode,
+          expectedOwner: item.expectedOwnerId ? ownerNames.get(item.expectedOwnerId) : null,
+          observedOwner: item.observedOwnerId ? ownerNames.get(item.observedOwnerId) : null,
+          expectedLocation: item.expectedLocation,
+          observedLocation: item.observedLocation,
+        });
+      }
+    }
+
+    const count = (type: DiscrepancyType) => discrepancies.filter((d) => d.type === type).length;
+    const expected = check.items.filter((item) => item.expected).length;
+
+    return {
+      check: {
+        id: check.id,
+        name: check.name,
+        status: check.status,
+        scopeType: check.scopeType,
+        scopeValue: check.scopeValue,
+        scheduledAt: check.scheduledAt,
+        startedAt: check.startedAt,
+        completedAt: check.completedAt,
+      },
+      summary: {
+        expected,
+        verified: check.items.filter((item) => item.status === "verified").length,
+        missing: count("missing"),
+        unexpected: count("unexpected"),
+        wrongOwner: count("wrong_owner"),
+        wrongLocation: count("wrong_location"),
+        pending: check.items.filter((item) => item.status === "pending").length,
+        accuracy: expected > 0 ? Math.round((cleanVerified / expected) * 1000) / 10 : 100,
+      },
+      discrepancies,
+    };
+  }
+
+  /**
+   * Close a check: unscanned items become missing and the discrepancies are frozen on the check.
+   * All or nothing, and only once: a second close of the same check fails with InventoryCheckError.
+   */
+  static async closeCheck(checkId: string, userId: string, notes?: string): Promise<ReconciliationReport> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const completedAt = new Date();
+
+        // Claim the check first so two close requests cannot both reconcile it
+        const claimed = await tx.inventoryCheck.updateMany({
+          where: { id: checkId, status: { in: ["pending", "in_progress"] } },
+          data: {
+            status: "completed",
+            completedAt,
+            closedById: userId,
+            ...(notes ? { notes } : {}),
+          },
+        });
+
+        if (claimed.count === 0) {
+          throw new InventoryCheckError("Inventory check is already closed");
+        }
+
+        await tx.inventoryCheckItem.updateMany({
+          where: { checkId, status: "pending" },
+          data: { status: "missing" },
+        });
+
+        const report = await this.getReconciliationReport(checkId, tx);
+        if (!report) {
+          throw new Error("Inventory check not found");
+        }
+
+        await tx.inventoryCheck.update({
+          where: { id: checkId },
+          data: {
+            verifiedCount: report.summary.verified,
+            discrepancies: JSON.stringify(report.discrepancies),
+          },
+        });
+
+        return report;
+      });
+    } catch (error) {
+      if (error instanceof InventoryCheckError) {
+        throw error;
+      }
+
+      console.error("Failed to close inventory check:", error);
+      throw new Error("Failed to close inventory check");
+    }
+  }
+}
@@ -0,0 +1,156 @@
+// ABOUTME: Invoice document service for ProfiCo Inventory Management System
+// ABOUTME: Keeps the original PDF or image behind every processed invoice in storage and links it to the invoice record
+
+import { createHash } from "crypto";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { FileUploadService } from "@/lib/file-uploads";
+import type { PolicyUser } from "@/lib/authorization";
+
+// What invoice OCR can read
+export const INVOICE_DOCUMENT_TYPES = ["application/pdf", "image/jpeg", "image/png", "image/webp"];
+
+export interface InvoiceDocumentUpload {
+  body: Buffer;
+  fileName: string;
+  uploadedById: string;
+}
+
+/**
+ * Raised when a document cannot be linked to an invoice
+ */
+export class InvoiceDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvoiceDocumentError";
+  }
+}
+
+export const invoiceDocumentSelect = {
+  id: true,
+  fileName: true,
+  contentType: true,
+  size: true,
+  createdAt: true,
+} satisfies Prisma.InvoiceDocumentSelect;
+
+/**
+ * Invoice document service: stores originals when they are uploaded and attaches them once the invoice is saved
+ */
+export class InvoiceDocumentService {
+  /**
+   * Store an uploaded original. It stays unlinked until the reviewed invoice is saved.
+   */
+  static async store(upload: InvoiceDocumentUpload) {
+    const stored = await FileUploadService.store({
+      body: upload.body,
+      fileName: upload.fileName,
+      prefix: "invoices",
+      allowedTypes: INVOICE_DOCUMENT_TYPES,
+    });
+
+    try {
+      return await prisma.invoiceDocument.create({
+        data: {
+          ...stored,
+          checksum: createHash("sha256").update(upload.body).digest("hex"),
+          uploadedById: upload.uploadedById,
+        },
+        select: invoiceDocumentSelect,
+      });
+    } catch (error) {
+      // Without its row the file could never be found again
+      await FileUploadService.remove(stored.storageKey).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  static async get(id: string) {
+    return prisma.invoiceDocument.findUnique({
+      where: { id },
+      include: {
+        invoice: { select: { id: true, processedBy: true } },
+      },
+    });
+  }
+
+  /**
+   * Link a stored original to the invoice extracted from it. Only the uploader, or an admin,
+   * can attach a document, and each document belongs to one invoice.
+   */
+  static async attach(
+    documentId: string,
+    invoiceId: string,
+    user: PolicyUser,
+    client: Prisma.TransactionClient = prisma
+  ) {
+    const document = await client.invoiceDocument.findUnique({
+      where: { id: documentId },
+      select: { id: true, uploadedById: true, invoiceId: true },
+    });
+
+    if (!document) {
+      throw new InvoiceDocumentError("Invoice document not found");
+    }
+
+    if (document.uploadedById !== user.id && user.role !== "admin") {
+      throw new InvoiceDocumentError("You can only attach documents you uploaded");
+    }
+
+    if (document.invoiceId && document.invoiceId !== invoiceId) {
+      throw new InvoiceDocumentError("This document is already attached to another invoice");
+    }
+
+    return client.invoiceDocument.update({
+      where: { id: documentId },
+      data: { invoiceId },
+      select: invoiceDocumentSelect,
+    });
+  }
+
+  /**
+   * Delete a stored original and its row
+   */
+  static async remove(id: string): Promise<void> {
+    const document = await prisma.invoiceDocument.findUnique({
+      where: { id },
+      select: { storageKey: true },
+    });
+
+    if (!document) {
+      return;
+    }
+
+    await FileUploadService.remove(document.storageKey);
+    await prisma.invoiceDocument.delete({ where: { id } });
+  }
+
+  /**
+   * Delete uploads that were never saved as an invoice, such as reviews that were cancelled.
+   * Documents attached to an invoice are kept for good, and so are those still waiting for OCR.
+   */
+  static async removeOrphans(olderThan: Date): Promise<number> {
+    const orphans = await prisma.invoiceDocument.findMany({
+      where: {
+        invoiceId: null,
+        createdAt: { lt: olderThan },
+        NOT: { ocrJobFile: { is: { status: { in: ["pending", "processing"] } } } },
+      },
+      select: { id: true, storageKey: true },
+    });
+
+    let removed = 0;
+
+    for (const orphan of orphans) {
+      try {
+        await FileUploadService.remove(orphan.storageKey);
+        await prisma.invoiceDocument.delete({ where: { id: orphan.id } });
+        removed++;
+      } catch (error) {
+        console.error(`Failed to remove unattached invoice document ${orphan.id}:`, error);
+      }
+    }
+
+    return removed;
+  }
+}
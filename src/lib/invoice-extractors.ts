@@ -0,0 +1,256 @@
+// ABOUTME: Invoice extractors for ProfiCo Inventory Management System
+// ABOUTME: Runs Gemini and the offline rule-based extractor chosen by INVOICE_EXTRACTORS and merges their results by confidence
+
+import { execFile } from "child_process";
+import pdf from "pdf-parse";
+import { geminiOCRService, type GeminiOCRService, type OCRResult } from "@/lib/gemini-ocr";
+import { BUILT_IN_VENDOR_TEMPLATES, parseInvoiceText, type VendorTemplate } from "@/lib/invoice-templates";
+
+export type InvoiceExtractorName = "gemini" | "local";
+
+export const INVOICE_EXTRACTOR_NAMES: InvoiceExtractorName[] = ["gemini", "local"];
+
+/**
+ * Anything that can read an invoice; swapped for fakes in tests
+ */
+export interface InvoiceExtractor {
+  name: string;
+  // Whether it can run in this environment, e.g. Gemini needs an API key
+  isAvailable(): boolean;
+  extract(file: Buffer, contentType: string, filename?: string): Promise<OCRResult>;
+}
+
+export class InvoiceExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvoiceExtractionError";
+  }
+}
+
+/**
+ * Gemini reads PDFs through their text and images through the vision model
+ */
+export function createGeminiExtractor(
+  service: Pick<GeminiOCRService, "extractInvoiceData" | "extractFromImage"> = geminiOCRService,
+  apiKey: string | undefined = process.env.GOOGLE_GEMINI_API_KEY
+): InvoiceExtractor {
+  return {
+    name: "gemini",
+    isAvailable: () => !!apiKey,
+    extract: (file, contentType, filename) =>
+      contentType === "application/pdf"
+        ? service.extractInvoiceData(file, filename)
+        : service.extractFromImage(file, contentType),
+  };
+}
+
+export interface LocalExtractorOptions {
+  templates?: () => VendorTemplate[] | Promise<VendorTemplate[]>;
+  // Tesseract command for reading images; images are refused without it
+  tesseractPath?: string;
+  readPdfText?: (file: Buffer) => Promise<string>;
+  readImageText?: (file: Buffer) => Promise<string>;
+}
+
+function runTesseract(tesseractPath: string, file: Buffer): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      tesseractPath,
+      ["stdin", "stdout"],
+      { maxBuffer: 10 * 1024 * 1024, timeout: 60 * 1000 },
+      (error, stdout) => (error ? reject(error) : resolve(stdout))
+    );
+    child.stdin?.end(file);
+  });
+}
+
+/**
+ * Works offline and gives the same answer every time: PDF text, or Tesseract output for
+ * images, read with vendor templates and generic rules
+ */
+export function createLocalExtractor(options: LocalExtractorOptions = {}): InvoiceExtractor {
+  const {
+    templates = () => BUILT_IN_VENDOR_TEMPLATES,
+    tesseractPath = process.env.TESSERACT_PATH,
+    readPdfText = async (file: Buffer) => (await pdf(file)).text,
+    readImageText = tesseractPath ? (file: Buffer) => runTesseract(tesseractPath, file) : undefined,
+  } = options;
+
+  return {
+    name: "local",
+    isAvailable: () => true,
+    async extract(file, contentType) {
+      const startTime = Date.now();
+      let text: string;
+
+      if (contentType === "application/pdf") {
+        text = await readPdfText(file);
+      } else if (readImageText) {
+        text = await readImageText(file);
+      } else {
+        throw new InvoiceExtractionError("Reading images offline needs Tesseract; set TESSERACT_PATH");
+      }
+
+      if (!text.trim()) {
+        throw new InvoiceExtractionError("No text found in the document; it may be a scan without a text layer");
+      }
+
+      return {
+        ...parseInvoiceText(text, await templates()),
+        extractionDetails: {
+          processingTime: Date.now() - startTime,
+          modelUsed: contentType === "application/pdf" ? "local-rules" : "local-tesseract",
+        },
+      };
+    },
+  };
+}
+
+const MERGED_FIELDS = [
+  "vendor",
+  "invoiceNumber",
+  "date",
+  "amount",
+  "currency",
+  "vatAmount",
+  "invoiceType",
+  "purchaseMethod",
+  "depreciationPeriod",
+] as const satisfies ReadonlyArray<keyof OCRResult>;
+
+const MERGED_LISTS = ["equipment", "subscriptions"] as const satisfies ReadonlyArray<keyof OCRResult>;
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== "" && !(Array.isArray(value) && value.length === 0);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === "number" && typeof b === "number") {
+    return Math.abs(a - b) < 0.01;
+  }
+  return String(a).trim().toLowerCase() === String(b).trim().toLowerCase();
+}
+
+/**
+ * Combine results field by field: each field comes from the most confident extractor that found
+ * it, and fields the extractors read differently are listed as conflicts
+ */
+export function mergeExtractionResults(results: Array<{ extractor: string; result: OCRResult }>): OCRResult {
+  if (results.length === 0) {
+    throw new InvoiceExtractionError("No extraction results to merge");
+  }
+
+  const ranked = [...results].sort((a, b) => (b.result.confidence ?? 0) - (a.result.confidence ?? 0));
+  const best = ranked[0];
+
+  if (ranked.length === 1) {
+    return best.result;
+  }
+
+  const merged: OCRResult = { ...best.result };
+  const fieldSources: Record<string, string> = {};
+  const conflicts: string[] = [];
+
+  for (const field of [...MERGED_FIELDS, ...MERGED_LISTS]) {
+    const found = ranked.filter(({ result }) => isPresent(result[field]));
+    if (found.length === 0) {
+      continue;
+    }
+
+    (merged as Record<string, unknown>)[field] = found[0].result[field];
+    fieldSources[field] = found[0].extractor;
+
+    if (!MERGED_LISTS.includes(field as (typeof MERGED_LISTS)[number]) &&
+        found.some(({ result }) => !sameValue(result[field], found[0].result[field]))) {
+      conflicts.push(field);
+    }
+  }
+
+  const contributors = Array.from(new Set(Object.values(fieldSources)));
+
+  return {
+    ...merged,
+    rawText: ranked.find(({ result }) => result.rawText)?.result.rawText,
+    extractionDetails: {
+      processingTime: Math.max(...ranked.map(({ result }) => result.extractionDetails?.processingTime ?? 0)),
+      modelUsed: ranked
+        .filter(({ extractor }) => contributors.includes(extractor))
+        .map(({ extractor, result }) => result.extractionDetails?.modelUsed ?? extractor)
+        .join(" + "),
+      tokensUsed: best.result.extractionDetails?.tokensUsed,
+      fieldSources,
+      conflicts,
+    },
+  };
+}
+
+/**
+ * Run every available extractor side by side and merge what they found. Fails only when all of them fail.
+ */
+export async function extractInvoice(
+  file: Buffer,
+  contentType: string,
+  filename?: string,
+  extractors: InvoiceExtractor[] = getInvoiceExtractors()
+): Promise<OCRResult> {
+  const available = extractors.filter((extractor) => extractor.isAvailable());
+
+  if (available.length === 0) {
+    throw new InvoiceExtractionError("No invoice extractor is available; check INVOICE_EXTRACTORS and GOOGLE_GEMINI_API_KEY");
+  }
+
+  const settled = await Promise.allSettled(available.map((extractor) => extractor.extract(file, contentType, filename)));
+
+  const results = settled.flatMap((outcome, index) =>
+    outcome.status === "fulfilled" ? [{ extractor: available[index].name, result: outcome.value }] : []
+  );
+
+  if (results.length === 0) {
+    const reasons = settled.map((outcome, index) =>
+      `${available[index].name}: ${outcome.status === "rejected" && outcome.reason instanceof Error ? outcome.reason.message : "failed"}`
+    );
+    throw new InvoiceExtractionError(`Invoice extraction failed (${reasons.join("; ")})`);
+  }
+
+  return mergeExtractionResults(results);
+}
+
+/**
+ * Pick the configured extractors. Without INVOICE_EXTRACTORS both run, and Gemini only when its key is set.
+ */
+export function resolveExtractorNames(
+  env: Record<string, string | undefined> = process.env
+): InvoiceExtractorName[] {
+  const configured = env.INVOICE_EXTRACTORS;
+
+  if (!configured) {
+    return ["gemini", "local"];
+  }
+
+  const names = configured.split(",").map((name) => name.trim()).filter(Boolean);
+  for (const name of names) {
+    if (!(INVOICE_EXTRACTOR_NAMES as string[]).includes(name)) {
+      throw new InvoiceExtractionError(`Unknown invoice extractor "${name}"`);
+    }
+  }
+
+  return names as InvoiceExtractorName[];
+}
+
+export function createInvoiceExtractor(name: InvoiceExtractorName): InvoiceExtractor {
+  return name === "gemini" ? createGeminiExtractor() : createLocalExtractor();
+}
+
+// Create the extractors lazily to allow for testing
+let extractorsInstance: InvoiceExtractor[] | null = null;
+
+export function getInvoiceExtractors(): InvoiceExtractor[] {
+  if (!extractorsInstance) {
+    extractorsInstance = resolveExtractorNames().map(createInvoiceExtractor);
+  }
+  return extractorsInstance;
+}
+
+export function setInvoiceExtractors(extractors: InvoiceExtractor[] | null): void {
+  extractorsInstance = extractors;
+}
@@ -0,0 +1,268 @@
+// ABOUTME: Rule-based invoice parsing for ProfiCo Inventory Management System
+// ABOUTME: Reads vendor, number, date, totals and line items from invoice text with per-vendor templates and generic rules
+
+import { detectInvoiceType, type EquipmentItem, type OCRResult, type SubscriptionItem } from "@/lib/gemini-ocr";
+
+/**
+ * How to read one supplier's invoices. Patterns capture the value in their first group.
+ */
+export interface VendorTemplate {
+  id: string;
+  vendor: string;
+  // Any of these found in the text identifies the supplier
+  match: RegExp[];
+  invoiceNumber?: RegExp;
+  date?: RegExp;
+  total?: RegExp;
+  vat?: RegExp;
+  currency?: string;
+  invoiceType?: OCRResult["invoiceType"];
+}
+
+// Invoice numbers on Croatian invoices follow "Račun broj" or "Račun br."
+const CROATIAN_INVOICE_NUMBER = /ra[čc]un\s*(?:broj|br\.?)\s*[:#]?\s*([A-Z0-9][A-Z0-9\-/]{2,})/i;
+const ENGLISH_INVOICE_NUMBER = /invoice\s*(?:number|no\.?|nr\.?|#)\s*[:#]?\s*([A-Z0-9][A-Z0-9\-/]{2,})/i;
+
+/**
+ * The suppliers we buy from most often
+ */
+export const BUILT_IN_VENDOR_TEMPLATES: VendorTemplate[] = [
+  {
+    id: "dell",
+    vendor: "Dell",
+    match: [/dell\s+(?:technologies|computer|emea|products)/i],
+    invoiceNumber: ENGLISH_INVOICE_NUMBER,
+    currency: "EUR",
+    invoiceType: "equipment",
+  },
+  {
+    id: "apple",
+    vendor: "Apple",
+    match: [/apple\s+(?:distribution international|sales international|inc\b)/i],
+    invoiceNumber: ENGLISH_INVOICE_NUMBER,
+    currency: "EUR",
+    invoiceType: "equipment",
+  },
+  {
+    id: "links",
+    vendor: "Links d.o.o.",
+    match: [/links\s+d\.o\.o\./i],
+    invoiceNumber: CROATIAN_INVOICE_NUMBER,
+    currency: "EUR",
+    invoiceType: "equipment",
+  },
+  {
+    id: "instar",
+    vendor: "Instar Informatika d.o.o.",
+    match: [/instar\s+informatika/i],
+    invoiceNumber: CROATIAN_INVOICE_NUMBER,
+    currency: "EUR",
+    invoiceType: "equipment",
+  },
+  {
+    id: "microsoft",
+    vendor: "Microsoft",
+    match: [/microsoft\s+(?:ireland|corporation)/i],
+    invoiceNumber: /(?:invoice|billing)\s*(?:number|no\.?|id)\s*[:#]?\s*([A-Z0-9]{6,})/i,
+    invoiceType: "subscription",
+  },
+  {
+    id: "adobe",
+    vendor: "Adobe",
+    match: [/adobe\s+(?:systems|inc\b|ireland)/i],
+    invoiceNumber: ENGLISH_INVOICE_NUMBER,
+    invoiceType: "subscription",
+  },
+  {
+    id: "google",
+    vendor: "Google",
+    match: [/google\s+(?:cloud emea|ireland|workspace)/i],
+    invoiceNumber: ENGLISH_INVOICE_NUMBER,
+    invoiceType: "subscription",
+  },
+  {
+    id: "jetbrains",
+    vendor: "JetBrains",
+    match: [/jetbrains\s+s\.r\.o\./i],
+    invoiceNumber: ENGLISH_INVOICE_NUMBER,
+    invoiceType: "subscription",
+  },
+];
+
+const DATE_VALUE = String.raw`(\d{4}-\d{2}-\d{2}|\d{1,2}[./-]\s?\d{1,2}[./-]\s?\d{2,4})`;
+const AMOUNT_VALUE = String.raw`(?:EUR|USD|GBP|€|\$|£)?\s*(-?\d[\d.,\s]*\d|\d)`;
+
+const GENERIC_PATTERNS = {
+  invoiceNumber: [ENGLISH_INVOICE_NUMBER, CROATIAN_INVOICE_NUMBER],
+  date: new RegExp(String.raw`(?:invoice date|date of issue|issue date|datum(?:\s+ra[čc]una|\s+izdavanja)?|date)\s*:?\s*${DATE_VALUE}`, "i"),
+  anyDate: new RegExp(DATE_VALUE),
+  total: new RegExp(
+    String.raw`(?:grand total|total due|amount due|total amount|total|sveukupno|ukupno za platiti|za platiti|ukupno)\s*(?:\(?(?:EUR|USD|GBP)\)?)?\s*:?\s*${AMOUNT_VALUE}`,
+    "gi"
+  ),
+  vat: new RegExp(String.raw`(?:VAT|PDV|tax)\s*(?:\(?\d{1,2}(?:[.,]\d+)?\s*%\)?)?\s*(?:amount|iznos)?\s*:?\s*${AMOUNT_VALUE}`, "i"),
+  vendorLabel: /(?:vendor|supplier|seller|from|company|dobavlja[čc]|prodavatelj)\s*:\s*([^\n]+)/i,
+  companyLine: /^.*\b(?:d\.o\.o\.|d\.d\.|GmbH|Ltd\.?|Limited|Inc\.?|LLC|B\.V\.|S\.A\.|s\.r\.o\.)(?=\s|,|$).*$/im,
+  // "<description> <quantity> <unit price> <line total>", the usual table row
+  lineItem: /^(.{3,}?)\s+(\d{1,4})\s*(?:x|kom|pcs|kos)?\s+(\d[\d.,]*\d)\s+(\d[\d.,]*\d)\s*$/gim,
+};
+
+const SUBSCRIPTION_LINE_KEYWORDS = ["license", "licence", "subscription", "licenca", "pretplata", "seat", "annual plan", "monthly plan"];
+
+/**
+ * Amounts in either "1.234,56" or "1,234.56" form
+ */
+export function parseAmount(value: string): number | undefined {
+  const cleaned = value.replace(/\s/g, "");
+  const lastComma = cleaned.lastIndexOf(",");
+  const lastDot = cleaned.lastIndexOf(".");
+  let normalized: string;
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    normalized = lastComma > lastDot
+      ? cleaned.replace(/\./g, "").replace(",", ".")
+      : cleaned.replace(/,/g, "");
+  } else if (lastComma !== -1) {
+    // A comma before exactly two digits is a decimal comma, otherwise it separates thousands
+    normalized = /,\d{2}$/.test(cleaned) ? cleaned.replace(/,(?=\d{2}$)/, ".").replace(/,/g, "") : cleaned.replace(/,/g, "");
+  } else if (/^-?\d{1,3}(\.\d{3})+$/.test(cleaned)) {
+    // Only dots in groups of three: thousands separators, as in "1.299"
+    normalized = cleaned.replace(/\./g, "");
+  } else {
+    normalized = cleaned;
+  }
+
+  const amount = parseFloat(normalized);
+  return Number.isFinite(amount) ? amount : undefined;
+}
+
+/**
+ * Dates as YYYY-MM-DD. Numeric dates are read day first, as on European invoices.
+ */
+export function normalizeInvoiceDate(value: string): string | undefined {
+  const compact = value.replace(/\s/g, "");
+  let year: number, month: number, day: number;
+
+  const iso = compact.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const dayFirst = compact.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2,4})\.?$/);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (dayFirst) {
+    [day, month, year] = [Number(dayFirst[1]), Number(dayFirst[2]), Number(dayFirst[3])];
+    if (year < 100) year += 2000;
+  } else {
+    return undefined;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+
+  return date.toISOString().split("T")[0];
+}
+
+function detectCurrency(text: string): string | undefined {
+  if (/\bEUR\b|€/.test(text)) return "EUR";
+  if (/\bUSD\b|\$/.test(text)) return "USD";
+  if (/\bGBP\b|£/.test(text)) return "GBP";
+  return undefined;
+}
+
+function firstCapture(text: string, patterns: Array<RegExp | undefined>): string | undefined {
+  for (const pattern of patterns) {
+    const value = pattern && text.match(pattern)?.[1]?.trim();
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function lastTotal(text: string, pattern?: RegExp): number | undefined {
+  if (pattern) {
+    const value = text.match(pattern)?.[1];
+    if (value) {
+      return parseAmount(value);
+    }
+  }
+
+  // Subtotals come first; the amount payable is the last total on the page
+  const totals = Array.from(text.matchAll(GENERIC_PATTERNS.total))
+    .map((match) => parseAmount(match[1]))
+    .filter((amount): amount is number => amount !== undefined && amount > 0);
+
+  return totals.at(-1);
+}
+
+function parseLineItems(text: string) {
+  const equipment: EquipmentItem[] = [];
+  const subscriptions: SubscriptionItem[] = [];
+
+  for (const match of text.matchAll(GENERIC_PATTERNS.lineItem)) {
+    const name = match[1].trim();
+    const quantity = Number(match[2]);
+    const unitPrice = parseAmount(match[3]);
+    const lineTotal = parseAmount(match[4]);
+
+    // Skip totals and other rows that only look like items
+    if (/total|ukupno|vat|pdv|subtotal|osnovica/i.test(name) || !quantity) {
+      continue;
+    }
+
+    if (SUBSCRIPTION_LINE_KEYWORDS.some((keyword) => name.toLowerCase().includes(keyword))) {
+      subscriptions.push({ softwareName: name, seats: quantity, unitPrice, totalPrice: lineTotal });
+    } else {
+      equipment.push({ name, quantity, unitPrice });
+    }
+  }
+
+  return { equipment, subscriptions };
+}
+
+export function findVendorTemplate(text: string, templates: VendorTemplate[] = BUILT_IN_VENDOR_TEMPLATES) {
+  return templates.find((template) => template.match.some((pattern) => pattern.test(text)));
+}
+
+/**
+ * Read an invoice from its text. Confidence reflects how much was found and whether the
+ * supplier's template applied; rules alone never score as high as a matched template.
+ */
+export function parseInvoiceText(text: string, templates: VendorTemplate[] = BUILT_IN_VENDOR_TEMPLATES): OCRResult {
+  const template = findVendorTemplate(text, templates);
+
+  const vendor = template?.vendor
+    ?? firstCapture(text, [GENERIC_PATTERNS.vendorLabel])
+    ?? text.match(GENERIC_PATTERNS.companyLine)?.[0].trim();
+  const invoiceNumber = firstCapture(text, [template?.invoiceNumber, ...GENERIC_PATTERNS.invoiceNumber]);
+  const rawDate = firstCapture(text, [template?.date, GENERIC_PATTERNS.date, GENERIC_PATTERNS.anyDate]);
+  const date = rawDate ? normalizeInvoiceDate(rawDate) : undefined;
+  const amount = lastTotal(text, template?.total);
+  const rawVat = firstCapture(text, [template?.vat, GENERIC_PATTERNS.vat]);
+  const vatAmount = rawVat ? parseAmount(rawVat) : undefined;
+  const { equipment, subscriptions } = parseLineItems(text);
+
+  const invoiceType = template?.invoiceType
+    ?? (subscriptions.length > 0 && equipment.length > 0 ? "mixed" : subscriptions.length > 0 ? "subscription" : detectInvoiceType(text));
+
+  const found = [vendor, invoiceNumber, date, amount].filter((value) => value !== undefined).length;
+  const confidence = Math.min(
+    found * 0.15 + (template ? 0.25 : 0) + (equipment.length + subscriptions.length > 0 ? 0.05 : 0),
+    0.9
+  );
+
+  return {
+    vendor,
+    invoiceNumber,
+    date,
+    amount,
+    currency: template?.currency ?? detectCurrency(text),
+    vatAmount,
+    invoiceType,
+    equipment,
+    subscriptions,
+    confidence: Math.round(confidence * 100) / 100,
+    rawText: text,
+  };
+}
@@ -0,0 +1,236 @@
+// ABOUTME: Per-user notification preferences for ProfiCo Inventory Management System
+// ABOUTME: Resolves which channel each event is delivered on and holds the global email switch
+
+import { prisma } from "@/lib/prisma";
+import type { NotificationType } from "@/lib/notifications";
+import { SystemSettingsService } from "@/lib/system-settings";
+
+export type NotificationEvent =
+  | "new_request"
+  | "request_approved"
+  | "request_rejected"
+  | "equipment_assigned"
+  | "status_changed"
+  | "maintenance_due"
+  | "renewal_due";
+
+// email: immediate email plus the in-app bell
+// in_app: bell only
+// digest: bell now, email rolled into the daily digest
+// none: not delivered at all
+export type NotificationChannel = "email" | "in_app" | "digest" | "none";
+
+export type NotificationPreferences = Record<NotificationEvent, NotificationChannel>;
+
+export const NOTIFICATION_EVENTS: Array<{
+  event: NotificationEvent;
+  label: string;
+  description: string;
+}> = [
+  {
+    event: "new_request",
+    label: "New requests for approval",
+    description: "A team member submits a request you can approve",
+  },
+  {
+    event: "request_approved",
+    label: "Request approved",
+    description: "One of your requests is approved",
+  },
+  {
+    event: "request_rejected",
+    label: "Request rejected",
+    description: "One of your requests is rejected",
+  },
+  {
+    event: "equipment_assigned",
+    label: "Equipment assigned",
+    description: "Equipment or consumables are handed to you",
+  },
+  {
+    event: "status_changed",
+    label: "Request status changes",
+    description: "A request you are involved in changes status",
+  },
+  {
+    event: "maintenance_due",
+    label: "Maintenance due",
+    description: "Equipment you hold is due for maintenance",
+  },
+  {
+    event: "renewal_due",
+    label: "Renewal due",
+    description: "A subscription you manage is about to renew",
+  },
+];
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ["email", "in_app", "digest", "none"];
+
+// Matches the behaviour before preferences existed: every event is emailed
+export const DEFAULT_NOTIFICATION_CHANNEL: NotificationChannel = "email";
+
+const NOTIFICATION_TYPE_EVENTS: Partial<Record<NotificationType, NotificationEvent>> = {
+  request_created: "new_request",
+  approval_needed: "new_request",
+  request_approved: "request_approved",
+  request_rejected: "request_rejected",
+  request_status_changed: "status_changed",
+  equipment_assigned: "equipment_assigned",
+  maintenance_due: "maintenance_due",
+  renewal_due: "renewal_due",
+};
+
+/**
+ * Preference event an in-app notification type falls under.
+ * Transfers and informational notices are not configurable.
+ */
+export function getNotificationEvent(type: NotificationType): NotificationEvent | undefined {
+  return NOTIFICATION_TYPE_EVENTS[type];
+}
+
+export function isNotificationEvent(value: string): value is NotificationEvent {
+  return NOTIFICATION_EVENTS.some((item) => item.event === value);
+}
+
+export function isNotificationChannel(value: string): value is NotificationChannel {
+  return (NOTIFICATION_CHANNELS as string[]).includes(value);
+}
+
+export function deliversInApp(channel: NotificationChannel): boolean {
+  return channel !== "none";
+}
+
+export function deliversEmail(channel: NotificationChannel): boolean {
+  return channel === "email";
+}
+
+/**
+ * Notification preference service deciding who hears about what, and how
+ */
+export class NotificationPreferenceService {
+  /**
+   * Get a user's channel for every event, filling in defaults for events never configured
+   */
+  static async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const stored = await prisma.notificationPreference.findMany({
+      where: { userId },
+      select: { eventType: true, channel: true },
+    });
+
+    const preferences = Object.fromEntries(
+      NOTIFICATION_EVENTS.map(({ event }) => [event, DEFAULT_NOTIFICATION_CHANNEL])
+    ) as NotificationPreferences;
+
+    for (const preference of stored) {
+      if (isNotificationEvent(preference.eventType) && isNotificationChannel(preference.channel)) {
+        preferences[preference.eventType] = preference.channel;
+      }
+    }
+
+    return preferences;
+  }
+
+  /**
+   * Save the given event channels for a user, leaving other events untouched
+   */
+  static async updatePreferences(
+    userId: string,
+    updates: Partial<NotificationPreferences>
+  ): Promise<NotificationPreferences> {
+    const entries = Object.entries(updates) as Array<[NotificationEvent, NotificationChannel]>;
+
+    await prisma.$transaction(
+      entries.map(([eventType, channel]) =>
+        prisma.notificationPreference.upsert({
+          where: { userId_eventType: { userId, eventType } },
+          update: { channel },
+          create: { userId, eventType, channel },
+        })
+      )
+    );
+
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Resolve the channel for each user for one event.
+   * A failed lookup falls back to defaults so a preference problem never swallows a notification.
+   */
+  static async getChannels(
+    userIds: string[],
+    event: NotificationEvent
+  ): Promise<Map<string, NotificationChannel>> {
+    const channels = new Map<string, NotificationChannel>(
+      userIds.map((userId) => [userId, DEFAULT_NOTIFICATION_CHANNEL])
+    );
+
+    if (userIds.length === 0) {
+      return channels;
+    }
+
+    try {
+      const stored = await prisma.notificationPreference.findMany({
+        where: { userId: { in: userIds }, eventType: event },
+        select: { userId: true, channel: true },
+      });
+
+      for (const preference of stored) {
+        if (isNotificationChannel(preference.channel)) {
+          channels.set(preference.userId, preference.channel);
+        }
+      }
+    } catch (error) {
+      console.error("Failed to load notification preferences:", error);
+    }
+
+    return channels;
+  }
+
+  /**
+   * Keep only the users who want this event in the notification center
+   */
+  static async filterInAppRecipients(userIds: string[], event: NotificationEvent): Promise<string[]> {
+    const channels = await this.getChannels(userIds, event);
+    return userIds.filter((userId) => deliversInApp(channels.get(userId) || DEFAULT_NOTIFICATION_CHANNEL));
+  }
+
+  /**
+   * Keep only the addresses that should receive this event by email right away.
+   * Addresses that do not belong to a user keep the default and are emailed.
+   */
+  static async filterEmailRecipients(emails: string[], event: NotificationEvent): Promise<string[]> {
+    if (emails.length === 0 || !(await this.isEmailEnabled())) {
+      return [];
+    }
+
+    try {
+      const users = await prisma.user.findMany({
+        where: { email: { in: emails } },
+        select: { id: true, email: true },
+      });
+      const channels = await this.getChannels(users.map((user) => user.id), event);
+      const optedOut = new Set(
+        users
+          .filter((user) => !deliversEmail(channels.get(user.id) || DEFAULT_NOTIFICATION_CHANNEL))
+          .map((user) => user.email)
+      );
+
+      return emails.filter((email) => !optedOut.has(email));
+    } catch (error) {
+      console.error("Failed to resolve email recipients:", error);
+      return emails;
+    }
+  }
+
+  /**
+   * Whether the system sends any notification email at all (admin setting, on by default)
+   */
+  static async isEmailEnabled(): Promise<boolean> {
+    try {
+      return await SystemSettingsService.get("enableEmailNotifications");
+    } catch (error) {
+      console.error("Failed to read email notification setting:", error);
+      return true;
+    }
+  }
+}
@@ -0,0 +1,685 @@
+// ABOUTME: In-app notification service for ProfiCo Inventory Management System
+// ABOUTME: Persists per-user notifications for request, transfer and maintenance events alongside email
+
+import { prisma } from "@/lib/prisma";
+import {
+  EmailNotificationService,
+  type ApprovalOverdueEmailData,
+  type EquipmentRequestEmailData,
+} from "@/lib/email";
+import { ApprovalDelegationService } from "@/lib/approval-delegations";
+import {
+  NotificationPreferenceService,
+  getNotificationEvent,
+} from "@/lib/notification-preferences";
+
+export type NotificationType =
+  | "request_created"
+  | "approval_needed"
+  | "request_approved"
+  | "request_rejected"
+  | "request_status_changed"
+  | "equipment_assigned"
+  | "transfer_requested"
+  | "transfer_completed"
+  | "transfer_rejected"
+  | "maintenance_due"
+  | "renewal_due"
+  | "info";
+
+export type NotificationPriority = "low" | "medium" | "high";
+
+export type NotificationRelatedType = "equipment" | "request" | "transfer" | "subscription" | "user";
+
+export interface NotificationCreateData {
+  type: NotificationType;
+  title: string;
+  message: string;
+  priority?: NotificationPriority;
+  relatedId?: string;
+  relatedType?: NotificationRelatedType;
+  actionUrl?: string;
+  metadata?: Record<string, unknown>;
+  dedupeKey?: string;
+}
+
+export interface NotificationListOptions {
+  page?: number;
+  limit?: number;
+  unreadOnly?: boolean;
+}
+
+export interface NotificationRecord {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  priority: string;
+  relatedId: string | null;
+  relatedType: string | null;
+  actionUrl: string | null;
+  metadata: string | null;
+  read: boolean;
+  createdAt: Date;
+}
+
+export interface SerializedNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  timestamp: Date;
+  read: boolean;
+  relatedId?: string;
+  relatedType?: NotificationRelatedType;
+  actionUrl?: string;
+  priority: NotificationPriority;
+  metadata?: Record<string, unknown>;
+}
+
+export interface TransferNotificationData {
+  id: string;
+  equipment: { id: string; name: string };
+  fromUserId?: string | null;
+  toUserId: string;
+  toUserName?: string;
+  requestedById: string;
+  requestedByName?: string;
+  approverIds?: string[];
+  reason: string;
+}
+
+// How far ahead maintenance reminders are raised
+export const MAINTENANCE_REMINDER_DAYS = 7;
+
+// How far ahead subscription renewal reminders are raised
+export const RENEWAL_REMINDER_DAYS = 14;
+
+/**
+ * Map request priority onto the three notification priority levels
+ */
+export function toNotificationPriority(priority?: string): NotificationPriority {
+  switch (priority) {
+    case "urgent":
+    case "high":
+      return "high";
+    case "low":
+      return "low";
+    default:
+      return "medium";
+  }
+}
+
+/**
+ * Convert a stored notification into the shape used by the notification center
+ */
+export function serializeNotification(notification: NotificationRecord): SerializedNotification {
+  let metadata: Record<string, unknown> | undefined;
+  if (notification.metadata) {
+    try {
+      metadata = JSON.parse(notification.metadata);
+    } catch {
+      metadata = undefined;
+    }
+  }
+
+  return {
+    id: notification.id,
+    type: notification.type as NotificationType,
+    title: notification.title,
+    message: notification.message,
+    timestamp: notification.createdAt,
+    read: notification.read,
+    relatedId: notification.relatedId ?? undefined,
+    relatedType: (notification.relatedType as NotificationRelatedType) ?? undefined,
+    actionUrl: notification.actionUrl ?? undefined,
+    priority: toNotificationPriority(notification.priority),
+    metadata,
+  };
+}
+
+function requestReference(request: { id: string }) {
+  return {
+    relatedId: request.id,
+    relatedType: "request" as const,
+    actionUrl: `/requests/${request.id}`,
+  };
+}
+
+/**
+ * Notification service for the in-app notification center
+ */
+export class NotificationService {
+  /**
+   * Create the same notification for each user.
+   * Users who turned the event off, or already hold a notification with the same dedupe key, are skipped.
+   */
+  static async notifyUsers(userIds: string[], data: NotificationCreateData): Promise<number> {
+    try {
+      let recipients = Array.from(new Set(userIds.filter(Boolean)));
+
+      const event = getNotificationEvent(data.type);
+      if (event && recipients.length > 0) {
+        recipients = await NotificationPreferenceService.filterInAppRecipients(recipients, event);
+      }
+
+      if (data.dedupeKey && recipients.length > 0) {
+        const existing = await prisma.notification.findMany({
+          where: { userId: { in: recipients }, dedupeKey: data.dedupeKey },
+          select: { userId: true },
+        });
+        const notified = new Set(existing.map((notification) => notification.userId));
+        recipients = recipients.filter((userId) => !notified.has(userId));
+      }
+
+      if (recipients.length === 0) {
+        return 0;
+      }
+
+      const result = await prisma.notification.createMany({
+        data: recipients.map((userId) => ({
+          userId,
+          type: data.type,
+          title: data.title,
+          message: data.message,
+          priority: data.priority || "medium",
+          relatedId: data.relatedId,
+          relatedType: data.relatedType,
+          actionUrl: data.actionUrl,
+          metadata: data.metadata ? JSON.stringify(data.metadata) : undefined,
+          dedupeKey: data.dedupeKey,
+        })),
+      });
+
+      return result.count;
+    } catch (error) {
+      console.error("Failed to create notifications:", error);
+      throw new Error("Failed to create notifications");
+    }
+  }
+
+  /**
+   * List a user's notifications, newest first
+   */
+  static async listForUser(userId: string, options: NotificationListOptions = {}) {
+    const page = Math.max(options.page || 1, 1);
+    const limit = Math.min(Math.max(options.limit || 20, 1), 100);
+    const where = {
+      userId,
+      ...(options.unreadOnly ? { read: false } : {}),
+    };
+
+    try {
+      const [notifications, total, unreadCount] = await Promise.all([
+        prisma.notification.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.notification.count({ where }),
+        prisma.notification.count({ where: { userId, read: false } }),
+      ]);
+
+      return {
+        notifications: notifications.map(serializeNotification),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+        unreadCount,
+      };
+    } catch (error) {
+      console.error("Failed to list notifications:", error);
+      throw new Error("Failed to list notifications");
+    }
+  }
+
+  /**
+   * Set the read state of one of the user's notifications
+   */
+  static async setReadState(userId: string, notificationId: string, read: boolean): Promise<boolean> {
+    const result = await prisma.notification.updateMany({
+      where: { id: notificationId, userId },
+      data: { read, readAt: read ? new Date() : null },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Mark every unread notification of the user as read
+   */
+  static async markAllAsRead(userId: string): Promise<number> {
+    const result = await prisma.notification.updateMany({
+      where: { userId, read: false },
+      data: { read: true, readAt: new Date() },
+    });
+    return result.count;
+  }
+
+  /**
+   * Delete one of the user's notifications
+   */
+  static async deleteForUser(userId: string, notificationId: string): Promise<boolean> {
+    const result = await prisma.notification.deleteMany({
+      where: { id: notificationId, userId },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Get the team leads who approve requests from a user.
+   * Mirrors EmailNotificationService.getTeamLeadEmails so both channels reach the same people,
+   * including delegates standing in for team leads who are out of office.
+   */
+  static async getTeamLeadIds(userId: string): Promise<string[]> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        team: {
+          include: {
+            members: {
+              where: { role: "team_lead" },
+              select: { id: true },
+            },
+          },
+        },
+      },
+    });
+
+    const teamLeads = user?.team
+      ? user.team.members
+      : await prisma.user.findMany({
+          where: { role: "team_lead", isActive: true },
+          select: { id: true },
+        });
+
+    const recipients = await ApprovalDelegationService.routeToDelegates(teamLeads);
+    return recipients.map((recipient) => recipient.id);
+  }
+
+  /**
+   * Get all active admins
+   */
+  static async getAdminIds(): Promise<string[]> {
+    const admins = await prisma.user.findMany({
+      where: { role: "admin", isActive: true },
+      select: { id: true },
+    });
+    return admins.map((admin) => admin.id);
+  }
+
+  /**
+   * Notify team leads about a new request from their team member
+   */
+  static async notifyRequestCreated(request: EquipmentRequestEmailData): Promise<number> {
+    const teamLeadIds = await this.getTeamLeadIds(request.requester.id);
+
+    return this.notifyUsers(teamLeadIds, {
+      type: "request_created",
+      title: "New Equipment Request",
+      message: `${request.requester.name} requested ${request.equipmentType}.`,
+      priority: toNotificationPriority(request.priority),
+      ...requestReference(request),
+      metadata: {
+        equipmentType: request.equipmentType,
+        requestedBy: request.requester.name,
+        priority: request.priority,
+      },
+    });
+  }
+
+  /**
+   * Notify the approvers of a request's next approval stage; admins when no approvers are given.
+   * `firstStage` is set for a new request, which has not been through any stage yet.
+   */
+  static async notifyApprovalNeeded(
+    request: EquipmentRequestEmailData,
+    approverIds?: string[],
+    stageName?: string,
+    firstStage = false
+  ): Promise<number> {
+    const recipientIds = approverIds ?? (await this.getAdminIds());
+
+    let message: string;
+    if (firstStage) {
+      message = `${request.requester.name} requested ${request.equipmentType}. It needs ${stageName ?? "admin"} approval.`;
+    } else if (stageName) {
+      message = `${request.requester.name}'s request for ${request.equipmentType} passed its previous approval stage and needs ${stageName} approval.`;
+    } else {
+      message = `${request.requester.name}'s request for ${request.equipmentType} was approved by their team lead and needs admin approval.`;
+    }
+
+    return this.notifyUsers(recipientIds, {
+      type: "approval_needed",
+      title: firstStage
+        ? "New Equipment Request"
+        : stageName ? `Request Awaiting ${stageName} Approval` : "Request Awaiting Final Approval",
+      message,
+      priority: toNotificationPriority(request.priority),
+      ...requestReference(request),
+      metadata: {
+        equipmentType: request.equipmentType,
+        requestedBy: request.requester.name,
+        teamLeadApprover: request.approver?.name,
+      },
+    });
+  }
+
+  /**
+   * Remind approvers that a stage is nearly due, or tell them and the admins that it is overdue.
+   * Each stage gets one reminder and one escalation.
+   */
+  static async notifyApprovalOverdue(
+    request: EquipmentRequestEmailData,
+    userIds: string[],
+    overdue: ApprovalOverdueEmailData
+  ): Promise<number> {
+    return this.notifyUsers(userIds, {
+      type: "approval_needed",
+      title: overdue.escalated ? "Approval Overdue" : "Approval Due Soon",
+      message: overdue.escalated
+        ? `${request.requester.name}'s request for ${request.equipmentType} missed its ${overdue.stageName} approval deadline of ${overdue.deadline.toLocaleString()}.`
+        : `${request.requester.name}'s request for ${request.equipmentType} needs ${overdue.stageName} approval by ${overdue.deadline.toLocaleString()}.`,
+      priority: "high",
+      ...requestReference(request),
+      metadata: {
+        equipmentType: request.equipmentType,
+        stage: overdue.stageName,
+        deadline: overdue.deadline.toISOString(),
+      },
+      dedupeKey: `approval-${overdue.escalated ? "escalated" : "reminder"}:${request.id}:${overdue.stageName}`,
+    });
+  }
+
+  /**
+   * Notify the requester that their request was fully approved
+   */
+  static async notifyRequestApproved(request: EquipmentRequestEmailData): Promise<number> {
+    return this.notifyUsers([request.requester.id], {
+      type: "request_approved",
+      title: "Equipment Request Approved",
+      message: `Your request for ${request.equipmentType} has been approved.`,
+      ...requestReference(request),
+      metadata: {
+        equipmentType: request.equipmentType,
+        approvedBy: request.approver?.name,
+      },
+    });
+  }
+
+  /**
+   * Notify the requester that their request was rejected
+   */
+  static async notifyRequestRejected(request: EquipmentRequestEmailData): Promise<number> {
+    return this.notifyUsers([request.requester.id], {
+      type: "request_rejected",
+      title: "Equipment Request Rejected",
+      message: `Your request for ${request.equipmentType} was rejected.${
+        request.rejectionReason ? ` Reason: ${request.rejectionReason}` : ""
+      }`,
+      priority: "high",
+      ...requestReference(request),
+      metadata: {
+        equipmentType: request.equipmentType,
+        rejectedBy: request.approver?.name,
+      },
+    });
+  }
+
+  /**
+   * Notify users about a request status change
+   */
+  static async notifyStatusChange(
+    request: EquipmentRequestEmailData,
+    oldStatus: string,
+    userIds: string[]
+  ): Promise<number> {
+    return this.notifyUsers(userIds, {
+      type: "request_status_changed",
+      title: "Request Status Updated",
+      message: `The request for ${request.equipmentType} moved from ${oldStatus} to ${request.status}.`,
+      priority: "low",
+      ...requestReference(request),
+      metadata: {
+        equipmentType: request.equipmentType,
+        oldStatus,
+        newStatus: request.status,
+      },
+    });
+  }
+
+  /**
+   * Notify the requester that equipment or stock was handed out for their request
+   */
+  static async notifyEquipmentAssigned(
+    request: {
+      id: string;
+      equipmentType: string;
+      requester: { id: string };
+      equipment?: { serialNumber: string } | null;
+    },
+    itemName: string
+  ): Promise<number> {
+    return this.notifyUsers([request.requester.id], {
+      type: "equipment_assigned",
+      title: "Equipment Assigned",
+      message: `${itemName} has been assigned to you for your ${request.equipmentType} request.`,
+      ...requestReference(request),
+      metadata: {
+        equipment: itemName,
+        serialNumber: request.equipment?.serialNumber,
+      },
+    });
+  }
+
+  /**
+   * Notify the approvers that a transfer is waiting for them, falling back to admins
+   */
+  static async notifyTransferRequested(transfer: TransferNotificationData): Promise<number> {
+    const approverIds = transfer.approverIds?.length ? transfer.approverIds : await this.getAdminIds();
+
+    return this.notifyUsers(approverIds, {
+      type: "transfer_requested",
+      title: "Transfer Awaiting Approval",
+      message: `${transfer.requestedByName || "A user"} asked to transfer ${transfer.equipment.name}${
+        transfer.toUserName ? ` to ${transfer.toUserName}` : ""
+      }.`,
+      relatedId: transfer.equipment.id,
+      relatedType: "equipment",
+      actionUrl: `/equipment/${transfer.equipment.id}`,
+      metadata: {
+        equipment: transfer.equipment.name,
+        reason: transfer.reason,
+      },
+    });
+  }
+
+  /**
+   * Notify everyone involved that a transfer went through
+   */
+  static async notifyTransferCompleted(transfer: TransferNotificationData): Promise<number> {
+    return this.notifyUsers(
+      [transfer.toUserId, transfer.fromUserId || "", transfer.requestedById],
+      {
+        type: "transfer_completed",
+        title: "Equipment Transferred",
+        message: `${transfer.equipment.name} was transferred${
+          transfer.toUserName ? ` to ${transfer.toUserName}` : ""
+        }.`,
+        relatedId: transfer.equipment.id,
+        relatedType: "equipment",
+        actionUrl: `/equipment/${transfer.equipment.id}`,
+        metadata: {
+          equipment: transfer.equipment.name,
+          reason: transfer.reason,
+        },
+      }
+    );
+  }
+
+  /**
+   * Notify the requester that their transfer was rejected
+   */
+  static async notifyTransferRejected(transfer: TransferNotificationData): Promise<number> {
+    return this.notifyUsers([transfer.requestedById], {
+      type: "transfer_rejected",
+      title: "Transfer Rejected",
+      message: `The transfer of ${transfer.equipment.name} was rejected.`,
+      priority: "high",
+      relatedId: transfer.equipment.id,
+      relatedType: "equipment",
+      actionUrl: `/equipment/${transfer.equipment.id}`,
+      metadata: {
+        equipment: transfer.equipment.name,
+        reason: transfer.reason,
+      },
+    });
+  }
+
+  /**
+   * Remind equipment owners about maintenance due within the reminder window, in-app and by email
+   * for owners who keep this event on email.
+   * Safe to run repeatedly: each owner is reminded once per equipment and due date.
+   */
+  static async notifyMaintenanceDue(
+    options: { userId?: string; withinDays?: number; now?: Date } = {}
+  ): Promise<number> {
+    const now = options.now || new Date();
+    const horizon = new Date(now);
+    horizon.setDate(horizon.getDate() + (options.withinDays ?? MAINTENANCE_REMINDER_DAYS));
+
+    const equipment = await prisma.equipment.findMany({
+      where: {
+        currentOwnerId: options.userId ? options.userId : { not: null },
+        nextMaintenanceDate: { lte: horizon },
+        status: { notIn: ["decommissioned", "lost", "stolen"] },
+      },
+      select: {
+        id: true,
+        name: true,
+        serialNumber: true,
+        currentOwnerId: true,
+        currentOwner: { select: { email: true } },
+        nextMaintenanceDate: true,
+      },
+    });
+
+    let created = 0;
+    for (const item of equipment) {
+      if (!item.currentOwnerId || !item.nextMaintenanceDate) continue;
+
+      const dueDate = item.nextMaintenanceDate.toISOString().split("T")[0];
+      const overdue = item.nextMaintenanceDate < now;
+      const title = overdue ? "Maintenance Overdue" : "Maintenance Due";
+      const message = `Scheduled maintenance for ${item.name} is ${overdue ? "overdue since" : "due on"} ${dueDate}.`;
+
+      const reminded = await this.notifyUsers([item.currentOwnerId], {
+        type: "maintenance_due",
+        title,
+        message,
+        priority: overdue ? "high" : "medium",
+        relatedId: item.id,
+        relatedType: "equipment",
+        actionUrl: `/equipment/${item.id}`,
+        metadata: {
+          equipmentName: item.name,
+          serialNumber: item.serialNumber,
+          dueDate,
+        },
+        dedupeKey: `maintenance_due:${item.id}:${dueDate}`,
+      });
+      created += reminded;
+
+      // Emailed only alongside a new reminder, so the dedupe above also stops repeat emails
+      if (reminded > 0 && item.currentOwner) {
+        try {
+          await EmailNotificationService.notifyMaintenanceDue(item.currentOwner.email, {
+            title,
+            message,
+            url: `/equipment/${item.id}`,
+            actionLabel: "View Equipment",
+            urgent: overdue,
+          });
+        } catch (emailError) {
+          console.error(`Failed to email maintenance reminder for ${item.id}:`, emailError);
+          // Don't fail the remaining reminders if email fails
+        }
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Remind assignees of active subscriptions that renew soon, in-app and by email for assignees who
+   * keep this event on email. Each assignee is reminded once per subscription and renewal date.
+   * Returns the number of reminders created.
+   */
+  static async notifyRenewalsDue(
+    options: { userId?: string; withinDays?: number; now?: Date } = {}
+  ): Promise<number> {
+    const now = options.now || new Date();
+    const horizon = new Date(now);
+    horizon.setDate(horizon.getDate() + (options.withinDays ?? RENEWAL_REMINDER_DAYS));
+
+    const subscriptions = await prisma.subscription.findMany({
+      where: {
+        ...(options.userId ? { assignedUserId: options.userId } : {}),
+        isActive: true,
+        renewalDate: { gte: now, lte: horizon },
+      },
+      select: {
+        id: true,
+        softwareName: true,
+        assignedUserId: true,
+        assignedUser: { select: { email: true } },
+        price: true,
+        billingFrequency: true,
+        renewalDate: true,
+      },
+    });
+
+    let created = 0;
+    for (const subscription of subscriptions) {
+      const renewalDate = subscription.renewalDate.toISOString().split("T")[0];
+      const title = "Subscription Renewal Due";
+      const message = `${subscription.softwareName} renews on ${renewalDate} for €${subscription.price.toLocaleString()} (${subscription.billingFrequency}).`;
+
+      const reminded = await this.notifyUsers([subscription.assignedUserId], {
+        type: "renewal_due",
+        title,
+        message,
+        priority: "medium",
+        relatedId: subscription.id,
+        relatedType: "subscription",
+        actionUrl: `/subscriptions/${subscription.id}`,
+        metadata: {
+          softwareName: subscription.softwareName,
+          renewalDate,
+        },
+        dedupeKey: `renewal_due:${subscription.id}:${renewalDate}`,
+      });
+      created += reminded;
+
+      if (reminded > 0 && subscription.assignedUser) {
+        try {
+          await EmailNotificationService.notifyRenewalDue(subscription.assignedUser.email, {
+            title,
+            message,
+            url: `/subscriptions/${subscription.id}`,
+            actionLabel: "View Subscription",
+            urgent: false,
+          });
+        } catch (emailError) {
+          console.error(`Failed to email renewal reminder for ${subscription.id}:`, emailError);
+          // Don't fail the remaining reminders if email fails
+        }
+      }
+    }
+
+    return created;
+  }
+}
@@ -0,0 +1,351 @@
+// ABOUTME: OCR job queue for ProfiCo Inventory Management System
+// ABOUTME: Queues uploaded invoices, extracts them one file at a time with retries and backoff and reports per-file progress
+
+import type { OcrJobFile, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getStorage } from "@/lib/storage";
+import { pdfProcessingService } from "@/lib/pdf-processing";
+import { InvoiceDocumentService } from "@/lib/invoice-documents";
+import { FileUploadError } from "@/lib/file-uploads";
+import type { OCRResult } from "@/lib/gemini-ocr";
+
+export type OcrJobStatus = "queued" | "processing" | "completed";
+
+export type OcrJobFileStatus = "pending" | "processing" | "completed" | "failed";
+
+export interface OcrJobUpload {
+  body: Buffer;
+  fileName: string;
+}
+
+export interface OcrProcessResult {
+  completed: number;
+  retrying: number;
+  failed: number;
+}
+
+// A file is given up after this many attempts, a few minutes after the first
+export const MAX_OCR_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+
+// A claim older than this belongs to a worker that died mid-file, so the file is picked up again
+export const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+/**
+ * Wait before the next attempt: 30 seconds, 1 minute, 2 minutes... capped at 10 minutes
+ */
+export function getOcrRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Raised for failures a retry cannot fix, such as a missing original
+ */
+export class OcrJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OcrJobError";
+  }
+}
+
+const jobInclude = {
+  files: {
+    orderBy: { position: "asc" },
+    include: {
+      document: { select: { id: true, fileName: true, contentType: true, size: true } },
+    },
+  },
+} satisfies Prisma.OcrJobInclude;
+
+type OcrJobWithFiles = Prisma.OcrJobGetPayload<{ include: typeof jobInclude }>;
+
+function parseResult(result: string | null): OCRResult | undefined {
+  if (!result) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(result);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A job and its files in the shape the upload screen shows: every file carries the same fields
+ * as a synchronous processing result, plus its place in the queue
+ */
+export function summarizeJob(job: OcrJobWithFiles) {
+  const files = job.files.map((file) => ({
+    id: file.id,
+    filename: file.document.fileName,
+    status: file.status as OcrJobFileStatus,
+    attempts: file.attempts,
+    maxAttempts: MAX_OCR_ATTEMPTS,
+    nextAttemptAt: file.nextAttemptAt,
+    success: file.status === "completed",
+    data: parseResult(file.result),
+    error: file.lastError ?? undefined,
+    processingTime: file.processingTime ?? 0,
+    document: file.document,
+  }));
+
+  const count = (status: OcrJobFileStatus) => files.filter((file) => file.status === status).length;
+  const started = job.files.some((file) => file.attempts > 0 || file.status !== "pending");
+
+  return {
+    id: job.id,
+    status: (job.completedAt ? "completed" : started ? "processing" : "queued") as OcrJobStatus,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+    progress: {
+      total: files.length,
+      completed: count("completed"),
+      failed: count("failed"),
+      remaining: count("pending") + count("processing"),
+    },
+    files,
+  };
+}
+
+/**
+ * OCR job service: uploads return straight away and files are extracted in the background
+ */
+export class OcrJobService {
+  /**
+   * Store the originals and queue them. Nothing is queued if any file is rejected.
+   */
+  static async create(uploads: OcrJobUpload[], userId: string, now: Date = new Date()) {
+    const documents = [];
+
+    try {
+      for (const upload of uploads) {
+        try {
+          documents.push(
+            await InvoiceDocumentService.store({ body: upload.body, fileName: upload.fileName, uploadedById: userId })
+          );
+        } catch (error) {
+          // Say which file of the batch was rejected
+          throw error instanceof FileUploadError ? new FileUploadError(`${upload.fileName}: ${error.message}`) : error;
+        }
+      }
+    } catch (error) {
+      // Drop the originals already stored for this batch
+      await Promise.all(documents.map((document) => InvoiceDocumentService.remove(document.id).catch(() => undefined)));
+      throw error;
+    }
+
+    return prisma.ocrJob.create({
+      data: {
+        createdById: userId,
+        files: {
+          create: documents.map((document, position) => ({
+            documentId: document.id,
+            position,
+            nextAttemptAt: now,
+          })),
+        },
+      },
+      include: jobInclude,
+    });
+  }
+
+  static async get(id: string) {
+    return prisma.ocrJob.findUnique({ where: { id }, include: jobInclude });
+  }
+
+  /**
+   * The user's most recent jobs, so an interrupted batch can be picked up again
+   */
+  static async list(userId: string, limit = 10) {
+    return prisma.ocrJob.findMany({
+      where: { createdById: userId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+      include: jobInclude,
+    });
+  }
+
+  /**
+   * Take a file that is due by `dueBy` for this worker. Returns false when another worker got there first.
+   * The claim is stamped with the real time, so it only goes stale once this worker has held it that long.
+   */
+  static async claim(fileId: string, dueBy: Date = new Date()): Promise<boolean> {
+    const claimedAt = new Date();
+    const { count } = await prisma.ocrJobFile.updateMany({
+      where: {
+        id: fileId,
+        OR: [
+          { status: "pending", nextAttemptAt: { lte: dueBy } },
+          { status: "processing", startedAt: { lt: new Date(claimedAt.getTime() - STALE_CLAIM_MS) } },
+        ],
+      },
+      data: { status: "processing", startedAt: claimedAt },
+    });
+
+    return count === 1;
+  }
+
+  /**
+   * Make one extraction attempt on a claimed file and record the outcome
+   */
+  static async attempt(file: OcrJobFile, now: Date = new Date()): Promise<OcrJobFile> {
+    const attempts = file.attempts + 1;
+    const startTime = Date.now();
+
+    try {
+      const document = await prisma.invoiceDocument.findUnique({ where: { id: file.documentId } });
+      const stored = document ? await getStorage().get(document.storageKey) : null;
+
+      if (!document || !stored) {
+        throw new OcrJobError("The uploaded file is no longer in storage; upload it again");
+      }
+
+      const { data, raw } = await pdfProcessingService.extract(stored.body, document.fileName, document.contentType);
+
+      return await prisma.ocrJobFile.update({
+        where: { id: file.id },
+        data: {
+          status: "completed",
+          attempts,
+          result: JSON.stringify(data),
+          // Reviews are learned from what the extractors read, not from corrections already applied
+          rawResult: data === raw ? null : JSON.stringify(raw),
+          processingTime: Date.now() - startTime,
+          lastError: null,
+          nextAttemptAt: null,
+          completedAt: now,
+        },
+      });
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      const givenUp = error instanceof OcrJobError || attempts >= MAX_OCR_ATTEMPTS;
+
+      console.error(`OCR of job file ${file.id} failed (attempt ${attempts}/${MAX_OCR_ATTEMPTS}):`, lastError);
+
+      return await prisma.ocrJobFile.update({
+        where: { id: file.id },
+        data: {
+          status: givenUp ? "failed" : "pending",
+          attempts,
+          lastError,
+          nextAttemptAt: givenUp ? null : new Date(now.getTime() + getOcrRetryDelay(attempts)),
+        },
+      });
+    } finally {
+      await this.finishIfDone(file.jobId, now);
+    }
+  }
+
+  /**
+   * Work through every file whose turn has come, optionally for one job only, oldest first
+   */
+  static async processDue(
+    options: { jobId?: string; now?: Date; limit?: number } = {}
+  ): Promise<OcrProcessResult> {
+    const { jobId, now = new Date(), limit = 20 } = options;
+    const result: OcrProcessResult = { completed: 0, retrying: 0, failed: 0 };
+
+    const due = await prisma.ocrJobFile.findMany({
+      where: {
+        ...(jobId ? { jobId } : {}),
+        OR: [
+          { status: "pending", nextAttemptAt: { lte: now } },
+          { status: "processing", startedAt: { lt: new Date(now.getTime() - STALE_CLAIM_MS) } },
+        ],
+      },
+      orderBy: [{ createdAt: "asc" }, { position: "asc" }],
+      take: limit,
+    });
+
+    // `now` only decides which files are due; a long batch stamps each claim and outcome with the time it happens
+    for (const file of due) {
+      if (!(await this.claim(file.id, now))) {
+        continue;
+      }
+
+      const updated = await this.attempt(file);
+
+      if (updated.status === "completed") {
+        result.completed++;
+      } else if (updated.status === "failed") {
+        result.failed++;
+      } else {
+        result.retrying++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Queue failed files of a job again without uploading them again. Each gets one more attempt.
+   */
+  static async retry(jobId: string, fileIds?: string[], now: Date = new Date()): Promise<number> {
+    const { count } = await prisma.ocrJobFile.updateMany({
+      where: {
+        jobId,
+        status: "failed",
+        ...(fileIds ? { id: { in: fileIds } } : {}),
+      },
+      data: {
+        status: "pending",
+        attempts: MAX_OCR_ATTEMPTS - 1,
+        nextAttemptAt: now,
+      },
+    });
+
+    if (count > 0) {
+      await prisma.ocrJob.update({ where: { id: jobId }, data: { completedAt: null } });
+    }
+
+    return count;
+  }
+
+  /**
+   * Mark the job finished once no file is left to try, and log it like a synchronous run
+   */
+  private static async finishIfDone(jobId: string, now: Date): Promise<void> {
+    const remaining = await prisma.ocrJobFile.count({
+      where: { jobId, status: { in: ["pending", "processing"] } },
+    });
+
+    if (remaining > 0) {
+      return;
+    }
+
+    // Only one worker gets to finish the job
+    const { count } = await prisma.ocrJob.updateMany({
+      where: { id: jobId, completedAt: null },
+      data: { completedAt: now },
+    });
+
+    if (count === 0) {
+      return;
+    }
+
+    const job = await prisma.ocrJob.findUnique({
+      where: { id: jobId },
+      include: { files: { select: { status: true, processingTime: true } } },
+    });
+
+    if (!job) {
+      return;
+    }
+
+    await prisma.activityLog.create({
+      data: {
+        userId: job.createdById,
+        action: "OCR_PROCESSING",
+        details: JSON.stringify({
+          jobId,
+          filesProcessed: job.files.length,
+          successful: job.files.filter((file) => file.status === "completed").length,
+          failed: job.files.filter((file) => file.status === "failed").length,
+          totalProcessingTime: job.files.reduce((sum, file) => sum + (file.processingTime ?? 0), 0),
+        }),
+      },
+    });
+  }
+}
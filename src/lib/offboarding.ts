@@ -0,0 +1,393 @@
+// ABOUTME: Employee offboarding service for ProfiCo Inventory Management System
+// ABOUTME: Lists what a leaving user holds, resolves each item and signs off before deactivation
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { HandoverChecklistService } from "@/lib/handover-checklists";
+
+export type OffboardingItemType = "equipment" | "subscription" | "request" | "transfer";
+
+export type OffboardingResolution =
+  | { type: "equipment"; action: "return"; id: string; condition: ReturnCondition; notes?: string }
+  | { type: "equipment"; action: "reassign"; id: string; toUserId: string; notes?: string }
+  | { type: "subscription" | "request" | "transfer"; action: "cancel"; id: string; notes?: string }
+  | { type: "subscription"; action: "transfer"; id: string; toUserId: string; notes?: string };
+
+type ReturnCondition = "excellent" | "good" | "fair" | "poor" | "broken";
+
+// Requests that are still waiting on someone and would otherwise outlive the requester
+export const OPEN_REQUEST_STATUSES = ["pending", "approved", "ordered", "partially_fulfilled"];
+
+/**
+ * Raised when an offboarding step cannot be taken in the current state
+ */
+export class OffboardingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OffboardingError";
+  }
+}
+
+const userSelect = {
+  select: { id: true, name: true, email: true },
+};
+
+export const offboardingInclude = {
+  user: userSelect,
+  startedBy: userSelect,
+  signedOffBy: userSelect,
+  actions: {
+    include: {
+      toUser: userSelect,
+      performedBy: userSelect,
+    },
+    orderBy: { createdAt: "asc" },
+  },
+} satisfies Prisma.OffboardingInclude;
+
+// Same condition rules as a regular return
+function statusForCondition(condition: ReturnCondition): string {
+  if (condition === "broken") {
+    return "broken";
+  }
+  if (condition === "poor") {
+    return "maintenance";
+  }
+  return "available";
+}
+
+/**
+ * Offboarding service: a user is only deactivated once nothing is left attached to them
+ */
+export class OffboardingService {
+  /**
+   * Everything the user still holds: equipment, active subscriptions, open requests and pending transfers
+   */
+  static async getHoldings(userId: string, client: Prisma.TransactionClient = prisma) {
+    const [equipment, subscriptions, requests, transfers] = await Promise.all([
+      client.equipment.findMany({
+        where: { currentOwnerId: userId, status: { not: "decommissioned" } },
+        select: { id: true, name: true, serialNumber: true, category: true, status: true },
+        orderBy: { name: "asc" },
+      }),
+      client.subscription.findMany({
+        where: { assignedUserId: userId, isActive: true },
+        select: { id: true, softwareName: true, vendor: true, price: true, billingFrequency: true, renewalDate: true },
+        orderBy: { softwareName: "asc" },
+      }),
+      client.equipmentRequest.findMany({
+        where: { requesterId: userId, status: { in: OPEN_REQUEST_STATUSES } },
+        select: { id: true, equipmentType: true, status: true, createdAt: true },
+        orderBy: { createdAt: "asc" },
+      }),
+      client.equipmentTransferRequest.findMany({
+        where: { status: "pending", OR: [{ fromUserId: userId }, { toUserId: userId }] },
+        select: {
+          id: true,
+          createdAt: true,
+          equipment: { select: { id: true, name: true, serialNumber: true } },
+          fromUser: { select: { id: true, name: true } },
+          toUser: { select: { id: true, name: true } },
+        },
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+
+    return { equipment, subscriptions, requests, transfers };
+  }
+
+  /**
+   * How many items still block the user's deactivation
+   */
+  static async countOutstanding(userId: string, client: Prisma.TransactionClient = prisma): Promise<number> {
+    const holdings = await this.getHoldings(userId, client);
+    return (
+      holdings.equipment.length +
+      holdings.subscriptions.length +
+      holdings.requests.length +
+      holdings.transfers.length
+    );
+  }
+
+  /**
+   * The user's most recent offboarding with its actions, if any
+   */
+  static async getLatest(userId: string) {
+    return prisma.offboarding.findFirst({
+      where: { userId },
+      include: offboardingInclude,
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  /**
+   * Open an offboarding for an active user, or return the one already in progress
+   */
+  static async start(userId: string, startedById: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, isActive: true },
+    });
+
+    if (!user) {
+      return null;
+    }
+
+    const current = await prisma.offboarding.findFirst({
+      where: { userId, status: "in_progress" },
+      include: offboardingInclude,
+    });
+
+    if (current) {
+      return current;
+    }
+
+    if (!user.isActive) {
+      throw new OffboardingError("User is already deactivated");
+    }
+
+    if (userId === startedById) {
+      throw new OffboardingError("You cannot offboard yourself");
+    }
+
+    return prisma.offboarding.create({
+      data: { userId, startedById },
+      include: offboardingInclude,
+    });
+  }
+
+  /**
+   * Resolve items the user holds. All resolutions apply together or not at all.
+   */
+  static async resolve(userId: string, resolutions: OffboardingResolution[], performedById: string) {
+    const offboarding = await this.getInProgress(userId);
+
+    const recipientIds = [
+      ...new Set(resolutions.flatMap((r) => ("toUserId" in r ? [r.toUserId] : []))),
+    ];
+    const recipients = await prisma.user.findMany({
+      where: { id: { in: recipientIds }, isActive: true },
+      select: { id: true, name: true, email: true },
+    });
+    const recipientsById = new Map(recipients.map((r) => [r.id, r]));
+
+    const keys = resolutions.map((r) => `${r.type}:${r.id}`);
+    if (new Set(keys).size !== keys.length) {
+      throw new OffboardingError("Each item can only be resolved once");
+    }
+
+    for (const id of recipientIds) {
+      if (id === userId) {
+        throw new OffboardingError("Items cannot be handed back to the user being offboarded");
+      }
+      if (!recipientsById.has(id)) {
+        throw new OffboardingError("Items can only be handed to active users");
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const holdings = await this.getHoldings(userId, tx);
+
+      for (const resolution of resolutions) {
+        const record = (itemName: string, action: string, toUserId?: string) =>
+          tx.offboardingAction.create({
+            data: {
+              offboardingId: offboarding.id,
+              itemType: resolution.type,
+              itemId: resolution.id,
+              itemName,
+              action,
+              toUserId,
+              notes: resolution.notes,
+              performedById,
+            },
+          });
+
+        if (resolution.type === "equipment") {
+          const equipment = holdings.equipment.find((e) => e.id === resolution.id);
+          if (!equipment) {
+            throw new OffboardingError("Equipment is not held by this user");
+          }
+
+          if (resolution.action === "return") {
+            const history = await tx.equipmentHistory.create({
+              data: {
+                equipmentId: equipment.id,
+                fromUserId: userId,
+                action: "returned",
+                condition: resolution.condition,
+                notes: resolution.notes || "Returned during offboarding",
+              },
+            });
+
+            const checklist = await HandoverChecklistService.start(tx, {
+              equipmentId: equipment.id,
+              stage: "return",
+              historyId: history.id,
+              userId: performedById,
+            });
+
+            const status = statusForCondition(resolution.condition);
+            await tx.equipment.update({
+              where: { id: equipment.id },
+              data: {
+                currentOwnerId: null,
+                status: status === "available" && checklist && !checklist.completedAt ? "pending" : status,
+                condition: resolution.condition,
+              },
+            });
+
+            await record(equipment.name, "returned");
+          } else {
+            const history = await tx.equipmentHistory.create({
+              data: {
+                equipmentId: equipment.id,
+                fromUserId: userId,
+                toUserId: resolution.toUserId,
+                action: "transferred",
+                notes: resolution.notes || "Reassigned during offboarding",
+              },
+            });
+
+            await HandoverChecklistService.start(tx, {
+              equipmentId: equipment.id,
+              stage: "transfer",
+              historyId: history.id,
+              userId: performedById,
+            });
+
+            await tx.equipment.update({
+              where: { id: equipment.id },
+              data: { currentOwnerId: resolution.toUserId, status: "assigned" },
+            });
+
+            await record(equipment.name, "reassigned", resolution.toUserId);
+          }
+        } else if (resolution.type === "subscription") {
+          const subscription = holdings.subscriptions.find((s) => s.id === resolution.id);
+          if (!subscription) {
+            throw new OffboardingError("Subscription is not held by this user");
+          }
+
+          if (resolution.action === "transfer") {
+            const recipient = recipientsById.get(resolution.toUserId);
+            await tx.subscription.update({
+              where: { id: subscription.id },
+              data: { assignedUserId: resolution.toUserId, assignedUserEmail: recipient?.email },
+            });
+
+            await record(subscription.softwareName, "transferred", resolution.toUserId);
+          } else {
+            await tx.subscription.update({
+              where: { id: subscription.id },
+              data: { isActive: false },
+            });
+
+            await record(subscription.softwareName, "cancelled");
+          }
+        } else if (resolution.type === "request") {
+          const equipmentRequest = holdings.requests.find((r) => r.id === resolution.id);
+          if (!equipmentRequest) {
+            throw new OffboardingError("Request is not an open request of this user");
+          }
+
+          await tx.equipmentRequest.update({
+            where: { id: equipmentRequest.id },
+            data: { status: "rejected", rejectionReason: "Requester offboarded" },
+          });
+
+          await tx.requestHistory.create({
+            data: {
+              requestId: equipmentRequest.id,
+              userId: performedById,
+              action: "cancelled",
+              oldStatus: equipmentRequest.status,
+              newStatus: "rejected",
+              notes: resolution.notes || "Cancelled during offboarding",
+            },
+          });
+
+          await record(equipmentRequest.equipmentType, "cancelled");
+        } else {
+          const transfer = holdings.transfers.find((t) => t.id === resolution.id);
+          if (!transfer) {
+            throw new OffboardingError("Transfer is not a pending transfer of this user");
+          }
+
+          await tx.equipmentTransferRequest.update({
+            where: { id: transfer.id },
+            data: {
+              status: "rejected",
+              approverId: performedById,
+              notes: resolution.notes || "Cancelled during offboarding",
+            },
+          });
+
+          await record(transfer.equipment.name, "cancelled");
+        }
+      }
+    });
+
+    return this.getLatest(userId);
+  }
+
+  /**
+   * Sign off the offboarding and deactivate the user, once nothing is left to resolve
+   */
+  static async complete(userId: string, signedOffById: string, signOffNotes?: string) {
+    const offboarding = await this.getInProgress(userId);
+
+    const outstanding = await this.countOutstanding(userId);
+    if (outstanding > 0) {
+      throw new OffboardingError(
+        `Resolve the remaining ${outstanding} item${outstanding === 1 ? "" : "s"} before signing off`
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true },
+    });
+
+    if (user?.role === "admin") {
+      const adminCount = await prisma.user.count({
+        where: { role: "admin", isActive: true },
+      });
+
+      if (adminCount <= 1) {
+        throw new OffboardingError("Cannot deactivate the last administrator");
+      }
+    }
+
+    return prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: { isActive: false },
+      });
+
+      return tx.offboarding.update({
+        where: { id: offboarding.id },
+        data: {
+          status: "completed",
+          signedOffById,
+          signedOffAt: new Date(),
+          signOffNotes,
+        },
+        include: offboardingInclude,
+      });
+    });
+  }
+
+  private static async getInProgress(userId: string) {
+    const offboarding = await prisma.offboarding.findFirst({
+      where: { userId, status: "in_progress" },
+      select: { id: true },
+    });
+
+    if (!offboarding) {
+      throw new OffboardingError("Start offboarding for this user first");
+    }
+
+    return offboarding;
+  }
+}
@@ -0,0 +1,221 @@
+// ABOUTME: Onboarding kit service for ProfiCo Inventory Management System
+// ABOUTME: Manages role and team equipment bundles and spawns a kit request with line items for new users
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { requestItemsBudget, requestItemsCreate, type RequestItemKind } from "@/lib/request-items";
+
+export interface OnboardingKitItemData {
+  kind: RequestItemKind;
+  name: string;
+  quantity: number;
+  budget?: number;
+}
+
+export interface OnboardingKitData {
+  name: string;
+  description?: string;
+  teamId?: string | null;
+  role?: string | null;
+  isActive: boolean;
+  items: OnboardingKitItemData[];
+}
+
+/**
+ * Raised when a kit cannot be saved or requested
+ */
+export class OnboardingKitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OnboardingKitError";
+  }
+}
+
+export const kitInclude = {
+  team: {
+    select: { id: true, name: true },
+  },
+  items: {
+    orderBy: { position: "asc" },
+  },
+} satisfies Prisma.OnboardingKitInclude;
+
+function kitItemsCreate(items: OnboardingKitItemData[]) {
+  return items.map((item, position) => ({
+    kind: item.kind,
+    name: item.name,
+    quantity: item.quantity,
+    budget: item.budget,
+    position,
+  }));
+}
+
+/**
+ * Onboarding kit service: kits are requested as one pre-approved request with a line per kit item
+ */
+export class OnboardingKitService {
+  /**
+   * All kits, or only those that can still be requested
+   */
+  static async list(activeOnly = false) {
+    return prisma.onboardingKit.findMany({
+      where: activeOnly ? { isActive: true } : undefined,
+      include: kitInclude,
+      orderBy: { name: "asc" },
+    });
+  }
+
+  /**
+   * Active kits that suit a team and role, the most specific first
+   */
+  static async matching(teamId: string | null | undefined, role: string | null | undefined) {
+    const kits = await prisma.onboardingKit.findMany({
+      where: {
+        isActive: true,
+        AND: [
+          { OR: [{ teamId: null }, ...(teamId ? [{ teamId }] : [])] },
+          { OR: [{ role: null }, ...(role ? [{ role }] : [])] },
+        ],
+      },
+      include: kitInclude,
+      orderBy: { name: "asc" },
+    });
+
+    const specificity = (kit: { teamId: string | null; role: string | null }) =>
+      (kit.teamId ? 2 : 0) + (kit.role ? 1 : 0);
+
+    return kits.sort((a, b) => specificity(b) - specificity(a));
+  }
+
+  static async create(data: OnboardingKitData, createdById: string) {
+    await this.assertNameFree(data.name);
+
+    return prisma.onboardingKit.create({
+      data: {
+        name: data.name,
+        description: data.description,
+        teamId: data.teamId ?? null,
+        role: data.role ?? null,
+        isActive: data.isActive,
+        createdById,
+        items: { create: kitItemsCreate(data.items) },
+      },
+      include: kitInclude,
+    });
+  }
+
+  /**
+   * Replace a kit's details and items. Requests already spawned keep their own line items.
+   */
+  static async update(id: string, data: OnboardingKitData) {
+    const existing = await prisma.onboardingKit.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return null;
+    }
+
+    await this.assertNameFree(data.name, id);
+
+    return prisma.$transaction(async (tx) => {
+      await tx.onboardingKitItem.deleteMany({ where: { kitId: id } });
+
+      return tx.onboardingKit.update({
+        where: { id },
+        data: {
+          name: data.name,
+          description: data.description,
+          teamId: data.teamId ?? null,
+          role: data.role ?? null,
+          isActive: data.isActive,
+          items: { create: kitItemsCreate(data.items) },
+        },
+        include: kitInclude,
+      });
+    });
+  }
+
+  static async delete(id: string) {
+    const existing = await prisma.onboardingKit.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return null;
+    }
+
+    return prisma.onboardingKit.delete({ where: { id } });
+  }
+
+  /**
+   * Request a kit for a user. Kits are chosen by an admin, so the request starts approved
+   * with one line item per kit item, ready to be fulfilled from stock or flagged for purchase.
+   */
+  static async spawnRequest(
+    client: Prisma.TransactionClient,
+    kitId: string,
+    requesterId: string,
+    requestedById: string
+  ) {
+    const kit = await client.onboardingKit.findUnique({
+      where: { id: kitId },
+      include: { items: { orderBy: { position: "asc" } } },
+    });
+
+    if (!kit || !kit.isActive) {
+      throw new OnboardingKitError("Onboarding kit not found or no longer active");
+    }
+
+    const lines = kit.items.map((item) => ({
+      kind: item.kind as RequestItemKind,
+      name: item.name,
+      quantity: item.quantity,
+      budget: item.budget,
+    }));
+
+    const request = await client.equipmentRequest.create({
+      data: {
+        requesterId,
+        equipmentType: kit.name,
+        justification: `Onboarding kit "${kit.name}" for a new starter`,
+        status: "approved",
+        adminApproval: true,
+        approverId: requestedById,
+        budget: requestItemsBudget(lines),
+        kitId: kit.id,
+        items: {
+          create: requestItemsCreate(lines),
+        },
+      },
+      include: {
+        items: { orderBy: { position: "asc" } },
+      },
+    });
+
+    await client.requestHistory.create({
+      data: {
+        requestId: request.id,
+        userId: requestedById,
+        action: "created",
+        newStatus: "approved",
+        notes: `Onboarding kit "${kit.name}" requested with ${lines.length} line item${lines.length === 1 ? "" : "s"}`,
+      },
+    });
+
+    return request;
+  }
+
+  private static async assertNameFree(name: string, exceptId?: string) {
+    const existing = await prisma.onboardingKit.findUnique({
+      where: { name },
+      select: { id: true },
+    });
+
+    if (existing && existing.id !== exceptId) {
+      throw new OnboardingKitError("An onboarding kit with this name already exists");
+    }
+  }
+}
@@ -1,6 +1,10 @@
-import { promises as fs } from 'fs';
 import path from 'path';
-import { geminiOCRService, OCRResult } from './gemini-ocr';
+import { OCRResult } from './gemini-ocr';
+import { extractInvoice } from './invoice-extractors';
+import { VendorProfileService } from './vendor-profiles';
+import { FileUploadService } from './file-uploads';
+import { InvoiceDocumentService, INVOICE_DOCUMENT_TYPES } from './invoice-documents';
+import { prisma } from './prisma';
 
 export interface ProcessingResult {
   success: boolean;
@@ -8,58 +12,51 @@ export interface ProcessingResult {
   error?: string;
   filename: string;
   processingTime: number;
+  // The stored original, to be attached to the invoice once it is saved
+  document?: {
+    id: string;
+    fileName: string;
+    contentType: string;
+    size: number;
+  };
 }
 
-export class PDFProcessingService {
-  private uploadDir: string;
-  private maxFileSize: number; // 10MB
-  private allowedTypes: string[];
-
-  constructor() {
-    this.uploadDir = path.join(process.cwd(), 'uploads', 'invoices');
-    this.maxFileSize = 10 * 1024 * 1024; // 10MB
-    this.allowedTypes = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
-  }
+export interface ExtractionOutcome {
+  data: OCRResult;
+  raw: OCRResult;
+}
 
-  async initialize(): Promise<void> {
-    try {
-      await fs.mkdir(this.uploadDir, { recursive: true });
-    } catch (error) {
-      console.error('Failed to create upload directory:', error);
-    }
-  }
+export interface ProcessingOptions {
+  // When set, the original file is kept in storage on behalf of this user
+  uploadedById?: string;
+}
 
+export class PDFProcessingService {
   async processFile(
     file: Buffer,
     filename: string,
-    mimetype: string
+    mimetype: string,
+    options: ProcessingOptions = {}
   ): Promise<ProcessingResult> {
     const startTime = Date.now();
 
     try {
-      // Validate file
-      this.validateFile(file, mimetype);
+      // Validate file; the type comes from its bytes rather than what the browser claimed
+      const contentType = await FileUploadService.validate(file, INVOICE_DOCUMENT_TYPES);
 
       // Generate unique filename
       const uniqueFilename = this.generateUniqueFilename(filename);
-      const filePath = path.join(this.uploadDir, uniqueFilename);
-
-      // Save file temporarily
-      await fs.writeFile(filePath, file);
 
-      let ocrResult: OCRResult;
+      const { data: ocrResult } = await this.extract(file, filename, contentType);
 
-      // Process based on file type
-      if (mimetype === 'application/pdf') {
-        ocrResult = await geminiOCRService.extractInvoiceData(file, filename);
-      } else if (mimetype.startsWith('image/')) {
-        ocrResult = await geminiOCRService.extractFromImage(file, mimetype);
-      } else {
-        throw new Error(`Unsupported file type: ${mimetype}`);
-      }
-
-      // Clean up temporary file
-      await fs.unlink(filePath);
+      // Keep the original so the saved invoice can point back to it
+      const document = options.uploadedById
+        ? await InvoiceDocumentService.store({
+            body: file,
+            fileName: filename,
+            uploadedById: options.uploadedById,
+          })
+        : undefined;
 
       const processingTime = Date.now() - startTime;
 
@@ -67,7 +64,8 @@ export class PDFProcessingService {
         success: true,
         data: ocrResult,
         filename: uniqueFilename,
-        processingTime
+        processingTime,
+        document
       };
     } catch (error) {
       const processingTime = Date.now() - startTime;
@@ -80,27 +78,37 @@ export class PDFProcessingService {
     }
   }
 
+  // Run the configured extractors on a file that has already been validated, then apply what reviewers
+  // corrected on the vendor's earlier invoices. `raw` is what the extractors read, for learning from the
+  // next review. Throws when all extractors fail.
+  async extract(file: Buffer, filename: string, contentType: string): Promise<ExtractionOutcome> {
+    const raw = await extractInvoice(file, contentType, filename);
+    return { data: await VendorProfileService.apply(raw), raw };
+  }
+
   // Legacy method name for backward compatibility
   async processPDFFile(
     file: Buffer,
     filename: string,
-    mimetype: string
+    mimetype: string,
+    options: ProcessingOptions = {}
   ): Promise<ProcessingResult> {
-    return this.processFile(file, filename, mimetype);
+    return this.processFile(file, filename, mimetype, options);
   }
 
   async processMultipleFiles(files: Array<{
     buffer: Buffer;
     filename: string;
     mimetype: string;
-  }>): Promise<ProcessingResult[]> {
+  }>, options: ProcessingOptions = {}): Promise<ProcessingResult[]> {
     const results: ProcessingResult[] = [];
 
     for (const file of files) {
       const result = await this.processFile(
         file.buffer,
         file.filename,
-        file.mimetype
+        file.mimetype,
+        options
       );
       results.push(result);
     }
@@ -108,16 +116,6 @@ export class PDFProcessingService {
     return results;
   }
 
-  private validateFile(file: Buffer, mimetype: string): void {
-    if (file.length > this.maxFileSize) {
-      throw new Error(`File size exceeds maximum limit of ${this.maxFileSize / 1024 / 1024}MB`);
-    }
-
-    if (!this.allowedTypes.includes(mimetype)) {
-      throw new Error(`File type ${mimetype} is not supported. Allowed types: ${this.allowedTypes.join(', ')}`);
-    }
-  }
-
   private generateUniqueFilename(originalFilename: string): string {
     const timestamp = Date.now();
     const random = Math.random().toString(36).substring(2, 8);
@@ -130,23 +128,10 @@ export class PDFProcessingService {
     return `${timestamp}_${random}_${sanitizedName}${ext}`;
   }
 
+  // Originals that were never saved as an invoice are dropped after maxAge; saved ones are kept
   async cleanupOldFiles(maxAge: number = 24 * 60 * 60 * 1000): Promise<number> {
     try {
-      const files = await fs.readdir(this.uploadDir);
-      const now = Date.now();
-      let cleanedCount = 0;
-
-      for (const file of files) {
-        const filePath = path.join(this.uploadDir, file);
-        const stats = await fs.stat(filePath);
-        
-        if (now - stats.mtime.getTime() > maxAge) {
-          await fs.unlink(filePath);
-          cleanedCount++;
-        }
-      }
-
-      return cleanedCount;
+      return await InvoiceDocumentService.removeOrphans(new Date(Date.now() - maxAge));
     } catch (error) {
       console.error('Failed to cleanup old files:', error);
       return 0;
@@ -160,31 +145,18 @@ export class PDFProcessingService {
     newestFile?: Date;
   }> {
     try {
-      const files = await fs.readdir(this.uploadDir);
-      let totalSize = 0;
-      let oldestFile: Date | undefined;
-      let newestFile: Date | undefined;
-
-      for (const file of files) {
-        const filePath = path.join(this.uploadDir, file);
-        const stats = await fs.stat(filePath);
-        
-        totalSize += stats.size;
-        
-        if (!oldestFile || stats.mtime < oldestFile) {
-          oldestFile = stats.mtime;
-        }
-        
-        if (!newestFile || stats.mtime > newestFile) {
-          newestFile = stats.mtime;
-        }
-      }
+      const stats = await prisma.invoiceDocument.aggregate({
+        _count: { _all: true },
+        _sum: { size: true },
+        _min: { createdAt: true },
+        _max: { createdAt: true },
+      });
 
       return {
-        totalFiles: files.length,
-        totalSize,
-        oldestFile,
-        newestFile
+        totalFiles: stats._count._all,
+        totalSize: stats._sum.size ?? 0,
+        oldestFile: stats._min.createdAt ?? undefined,
+        newestFile: stats._max.createdAt ?? undefined
       };
     } catch (error) {
       console.error('Failed to get processing stats:', error);
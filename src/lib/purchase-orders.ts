@@ -0,0 +1,517 @@
+// ABOUTME: Purchase order service for ProfiCo Inventory Management System
+// ABOUTME: Orders equipment for approved requests from vendors and receives the goods into stock as equipment
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { DepreciationService } from "@/lib/depreciation";
+import { RequestHistoryService } from "@/lib/request-history";
+import { OPEN_LINE_REQUEST_STATUSES } from "@/lib/request-items";
+
+export type PurchaseOrderStatus = "ordered" | "partially_received" | "received" | "cancelled";
+
+export interface PurchaseOrderLineInput {
+  requestId: string;
+  requestItemId?: string;
+  description: string;
+  category: string;
+  quantity: number;
+  unitPrice?: number | null;
+}
+
+export interface PurchaseOrderData {
+  poNumber: string;
+  vendor: string;
+  purchaseMethod: string;
+  expectedDelivery?: Date | null;
+  notes?: string;
+  lines: PurchaseOrderLineInput[];
+}
+
+export interface PurchaseOrderUpdateData {
+  expectedDelivery?: Date | null;
+  notes?: string;
+  invoiceId?: string;
+}
+
+export interface ReceiptData {
+  // Serial numbers of the units that arrived, per purchase order line
+  lines: Array<{ lineId: string; serialNumbers: string[] }>;
+  status: "pending" | "available";
+  location?: string;
+  notes?: string;
+}
+
+export interface PurchaseOrderListOptions {
+  status?: PurchaseOrderStatus;
+  requestId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Requests can be ordered for once approved and until they are fulfilled
+export const ORDERABLE_REQUEST_STATUSES = OPEN_LINE_REQUEST_STATUSES;
+
+/**
+ * Raised when a purchase order cannot be placed, changed or received the way it was asked to
+ */
+export class PurchaseOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PurchaseOrderError";
+  }
+}
+
+export const purchaseOrderInclude = {
+  createdBy: {
+    select: { id: true, name: true },
+  },
+  invoice: {
+    select: { id: true, vendor: true, invoiceNumber: true, status: true },
+  },
+  lines: {
+    include: {
+      request: {
+        select: {
+          id: true,
+          equipmentType: true,
+          status: true,
+          requester: { select: { id: true, name: true } },
+        },
+      },
+      requestItem: {
+        select: { id: true, name: true, quantity: true },
+      },
+      equipment: {
+        select: { id: true, name: true, serialNumber: true, status: true },
+        orderBy: { createdAt: "asc" },
+      },
+    },
+    orderBy: { position: "asc" },
+  },
+} satisfies Prisma.PurchaseOrderInclude;
+
+/**
+ * Where an order stands given what has arrived against its lines
+ */
+export function receiptStatus(lines: { quantity: number; receivedQuantity: number }[]): PurchaseOrderStatus {
+  const ordered = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const received = lines.reduce((sum, line) => sum + Math.min(line.receivedQuantity, line.quantity), 0);
+
+  if (ordered > 0 && received >= ordered) {
+    return "received";
+  }
+
+  return received > 0 ? "partially_received" : "ordered";
+}
+
+/**
+ * Purchase order service: sits between a request being approved and it being fulfilled.
+ * Placing an order moves approved requests to ordered; receiving creates the equipment,
+ * which is then handed over through the usual request fulfilment.
+ */
+export class PurchaseOrderService {
+  /**
+   * Purchase orders, newest first
+   */
+  static async list(options: PurchaseOrderListOptions = {}) {
+    const { status, requestId, page = 1, limit = 20 } = options;
+    const where: Prisma.PurchaseOrderWhereInput = {
+      ...(status && { status }),
+      ...(requestId && { lines: { some: { requestId } } }),
+    };
+
+    const [purchaseOrders, total] = await Promise.all([
+      prisma.purchaseOrder.findMany({
+        where,
+        include: purchaseOrderInclude,
+        orderBy: { orderedAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.purchaseOrder.count({ where }),
+    ]);
+
+    return {
+      purchaseOrders,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  static async get(id: string) {
+    return prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: purchaseOrderInclude,
+    });
+  }
+
+  /**
+   * Place an order with a vendor for one or more open requests. Approved requests move to ordered.
+   */
+  static async create(data: PurchaseOrderData, userId: string) {
+    const existing = await prisma.purchaseOrder.findUnique({
+      where: { poNumber: data.poNumber },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new PurchaseOrderError(`Purchase order number ${data.poNumber} is already in use`);
+    }
+
+    const requestIds = Array.from(new Set(data.lines.map((line) => line.requestId)));
+    const requests = await prisma.equipmentRequest.findMany({
+      where: { id: { in: requestIds } },
+      select: {
+        id: true,
+        status: true,
+        items: { select: { id: true, kind: true } },
+      },
+    });
+    const requestsById = new Map(requests.map((request) => [request.id, request]));
+
+    for (const line of data.lines) {
+      const request = requestsById.get(line.requestId);
+
+      if (!request) {
+        throw new PurchaseOrderError("Request not found");
+      }
+
+      if (!ORDERABLE_REQUEST_STATUSES.includes(request.status)) {
+        throw new PurchaseOrderError(`Cannot order for a request with status: ${request.status}`);
+      }
+
+      if (line.requestItemId) {
+        const item = request.items.find((candidate) => candidate.id === line.requestItemId);
+
+        if (!item) {
+          throw new PurchaseOrderError("Line item not found on this request");
+        }
+
+        if (item.kind !== "equipment") {
+          throw new PurchaseOrderError("Only equipment lines can be ordered");
+        }
+      }
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const purchaseOrder = await tx.purchaseOrder.create({
+        data: {
+          poNumber: data.poNumber,
+          vendor: data.vendor,
+          purchaseMethod: data.purchaseMethod,
+          expectedDelivery: data.expectedDelivery ?? null,
+          notes: data.notes,
+          createdById: userId,
+          lines: {
+            create: data.lines.map((line, position) => ({
+              requestId: line.requestId,
+              requestItemId: line.requestItemId ?? null,
+              description: line.description,
+              category: line.category,
+              quantity: line.quantity,
+              unitPrice: line.unitPrice ?? null,
+              position,
+            })),
+          },
+        },
+        include: purchaseOrderInclude,
+      });
+
+      for (const request of requests) {
+        const newStatus = request.status === "approved" ? "ordered" : request.status;
+
+        if (newStatus !== request.status) {
+          await tx.equipmentRequest.update({
+            where: { id: request.id },
+            data: { status: newStatus },
+          });
+        }
+
+        await RequestHistoryService.createHistoryEntry(
+          {
+            requestId: request.id,
+            userId,
+            action: "ordered",
+            oldStatus: request.status,
+            newStatus,
+            notes: `Ordered from ${data.vendor} on purchase order ${data.poNumber}`,
+            metadata: { purchaseOrderId: purchaseOrder.id, poNumber: data.poNumber },
+          },
+          tx
+        );
+      }
+
+      return purchaseOrder;
+    });
+  }
+
+  /**
+   * Change the expected delivery or notes, or link the vendor's invoice
+   */
+  static async update(id: string, data: PurchaseOrderUpdateData) {
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      select: { id: true, status: true },
+    });
+
+    if (!purchaseOrder) {
+      return null;
+    }
+
+    if (purchaseOrder.status === "cancelled") {
+      throw new PurchaseOrderError("Cannot change a cancelled purchase order");
+    }
+
+    if (data.invoiceId) {
+      await this.linkInvoice(id, data.invoiceId);
+    }
+
+    return prisma.purchaseOrder.update({
+      where: { id },
+      data: {
+        expectedDelivery: data.expectedDelivery,
+        notes: data.notes,
+      },
+      include: purchaseOrderInclude,
+    });
+  }
+
+  /**
+   * Link the vendor's invoice to the order and to the equipment already received against it.
+   * Units received later pick the invoice up when they are created.
+   */
+  static async linkInvoice(id: string, invoiceId: string) {
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      select: { status: true },
+    });
+
+    if (purchaseOrder?.status === "cancelled") {
+      throw new PurchaseOrderError("Cannot link an invoice to a cancelled purchase order");
+    }
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      select: { id: true },
+    });
+
+    if (!invoice) {
+      throw new PurchaseOrderError("Invoice not found");
+    }
+
+    const [, linked] = await prisma.$transaction([
+      prisma.purchaseOrder.update({
+        where: { id },
+        data: { invoiceId },
+      }),
+      prisma.equipment.updateMany({
+        where: { purchaseOrderLine: { purchaseOrderId: id } },
+        data: { invoiceId },
+      }),
+    ]);
+
+    // The invoice's depreciation period now applies to the units
+    if (linked.count > 0) {
+      await DepreciationService.refreshCurrentValues({ invoiceId });
+    }
+
+    return linked.count;
+  }
+
+  /**
+   * Receive goods: one equipment row per serial number, linked to the line's request and to the
+   * order's invoice when there is one. The units wait in stock until the request is fulfilled.
+   */
+  static async receive(id: string, data: ReceiptData, userId: string) {
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: { lines: true },
+    });
+
+    if (!purchaseOrder) {
+      return null;
+    }
+
+    if (purchaseOrder.status === "cancelled" || purchaseOrder.status === "received") {
+      throw new PurchaseOrderError(`Cannot receive goods on a purchase order with status: ${purchaseOrder.status}`);
+    }
+
+    const serialNumbers = data.lines.flatMap((receipt) => receipt.serialNumbers);
+    if (new Set(serialNumbers).size !== serialNumbers.length) {
+      throw new PurchaseOrderError("Each unit needs its own serial number");
+    }
+
+    const taken = await prisma.equipment.findMany({
+      where: { serialNumber: { in: serialNumbers } },
+      select: { serialNumber: true },
+    });
+
+    if (taken.length > 0) {
+      throw new PurchaseOrderError(
+        `Serial numbers already in use: ${taken.map((equipment) => equipment.serialNumber).join(", ")}`
+      );
+    }
+
+    const linesById = new Map(purchaseOrder.lines.map((line) => [line.id, line]));
+    for (const receipt of data.lines) {
+      const line = linesById.get(receipt.lineId);
+
+      if (!line) {
+        throw new PurchaseOrderError("Line not found on this purchase order");
+      }
+
+      if (line.receivedQuantity + receipt.serialNumbers.length > line.quantity) {
+        throw new PurchaseOrderError(
+          `Only ${line.quantity - line.receivedQuantity} more of ${line.description} were ordered`
+        );
+      }
+    }
+
+    const receivedAt = new Date();
+
+    const result = await prisma.$transaction(async (tx) => {
+      const equipment: Array<{ id: string; name: string; serialNumber: string }> = [];
+      const receivedByRequest = new Map<string, string[]>();
+
+      for (const receipt of data.lines) {
+        const line = linesById.get(receipt.lineId)!;
+
+        for (const serialNumber of receipt.serialNumbers) {
+          const created = await tx.equipment.create({
+            data: {
+              serialNumber,
+              name: line.description,
+              category: line.category,
+              purchaseDate: receivedAt,
+              purchaseMethod: purchaseOrder.purchaseMethod,
+              purchasePrice: line.unitPrice,
+              currentValue: line.unitPrice,
+              status: data.status,
+              location: data.location,
+              invoiceId: purchaseOrder.invoiceId,
+              originRequestId: line.requestId,
+              purchaseOrderLineId: line.id,
+              createdBy: userId,
+            },
+            select: { id: true, name: true, serialNumber: true },
+          });
+
+          await tx.equipmentHistory.create({
+            data: {
+              equipmentId: created.id,
+              action: "created",
+              notes: `Received on purchase order ${purchaseOrder.poNumber}`,
+            },
+          });
+
+          equipment.push(created);
+        }
+
+        line.receivedQuantity += receipt.serialNumbers.length;
+        await tx.purchaseOrderLine.update({
+          where: { id: line.id },
+          data: { receivedQuantity: line.receivedQuantity },
+        });
+
+        const received = receivedByRequest.get(line.requestId) ?? [];
+        received.push(`${receipt.serialNumbers.length} × ${line.description}`);
+        receivedByRequest.set(line.requestId, received);
+      }
+
+      const status = receiptStatus(purchaseOrder.lines);
+      const updated = await tx.purchaseOrder.update({
+        where: { id },
+        data: {
+          status,
+          ...(status === "received" && { receivedAt }),
+        },
+        include: purchaseOrderInclude,
+      });
+
+      for (const [requestId, received] of receivedByRequest) {
+        await RequestHistoryService.createHistoryEntry(
+          {
+            requestId,
+            userId,
+            action: "goods_received",
+            notes: data.notes || `Received ${received.join(", ")} on purchase order ${purchaseOrder.poNumber}`,
+            metadata: { purchaseOrderId: id, poNumber: purchaseOrder.poNumber },
+          },
+          tx
+        );
+      }
+
+      return { purchaseOrder: updated, equipment };
+    });
+
+    if (purchaseOrder.invoiceId) {
+      await DepreciationService.refreshCurrentValues({ invoiceId: purchaseOrder.invoiceId });
+    }
+
+    return result;
+  }
+
+  /**
+   * Cancel an order nothing has arrived for yet. Requests it moved to ordered go back to approved
+   * unless another open order still covers them.
+   */
+  static async cancel(id: string, userId: string) {
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: { lines: { select: { requestId: true, receivedQuantity: true } } },
+    });
+
+    if (!purchaseOrder) {
+      return null;
+    }
+
+    if (purchaseOrder.status !== "ordered" || purchaseOrder.lines.some((line) => line.receivedQuantity > 0)) {
+      throw new PurchaseOrderError("Only purchase orders with nothing received can be cancelled");
+    }
+
+    const requestIds = Array.from(new Set(purchaseOrder.lines.map((line) => line.requestId)));
+
+    return prisma.$transaction(async (tx) => {
+      const cancelled = await tx.purchaseOrder.update({
+        where: { id },
+        data: { status: "cancelled", cancelledAt: new Date() },
+        include: purchaseOrderInclude,
+      });
+
+      const requests = await tx.equipmentRequest.findMany({
+        where: {
+          id: { in: requestIds },
+          status: "ordered",
+          purchaseOrderLines: { none: { purchaseOrder: { status: { not: "cancelled" } } } },
+        },
+        select: { id: true },
+      });
+
+      for (const request of requests) {
+        await tx.equipmentRequest.update({
+          where: { id: request.id },
+          data: { status: "approved" },
+        });
+
+        await RequestHistoryService.createHistoryEntry(
+          {
+            requestId: request.id,
+            userId,
+            action: "status_changed",
+            oldStatus: "ordered",
+            newStatus: "approved",
+            notes: `Purchase order ${purchaseOrder.poNumber} was cancelled`,
+            metadata: { purchaseOrderId: id, poNumber: purchaseOrder.poNumber },
+          },
+          tx
+        );
+      }
+
+      return cancelled;
+    });
+  }
+}
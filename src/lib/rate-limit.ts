@@ -0,0 +1,235 @@
+// ABOUTME: API rate limiting for ProfiCo Inventory Management System
+// ABOUTME: Sliding-window limiter per route group keyed by user or IP, with an in-memory store that can be swapped out
+
+import { NextRequest, NextResponse } from "next/server";
+
+export type RateLimitGroup = "auth" | "ocr" | "export" | "general";
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // Epoch milliseconds when the current window ends
+  retryAfterSeconds: number;
+}
+
+/**
+ * Counter storage behind the limiter. The in-memory store only covers a single
+ * server process; a shared store (e.g. Redis INCR + PEXPIRE) is needed when scaling out.
+ */
+export interface RateLimitStore {
+  /** Add one to the counter, creating it with the given lifetime, and return the new value */
+  increment(key: string, ttlMs: number): Promise<number>;
+  /** Current counter value, zero when missing or expired */
+  get(key: string): Promise<number>;
+}
+
+// Login and registration are brute-force targets; OCR calls a paid model
+export const DEFAULT_RATE_LIMIT_RULES: Record<RateLimitGroup, RateLimitRule> = {
+  auth: { limit: 10, windowMs: 15 * 60 * 1000 },
+  ocr: { limit: 30, windowMs: 60 * 60 * 1000 },
+  export: { limit: 20, windowMs: 60 * 60 * 1000 },
+  general: { limit: 120, windowMs: 60 * 1000 },
+};
+
+// How many keys the memory store holds before it sweeps out expired ones
+const MEMORY_STORE_SWEEP_SIZE = 10000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { count: number; expiresAt: number }>();
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= now) {
+      if (this.entries.size >= MEMORY_STORE_SWEEP_SIZE) {
+        this.sweep(now);
+      }
+      this.entries.set(key, { count: 1, expiresAt: now + ttlMs });
+      return 1;
+    }
+
+    entry.count++;
+    return entry.count;
+  }
+
+  async get(key: string): Promise<number> {
+    const entry = this.entries.get(key);
+    return entry && entry.expiresAt > Date.now() ? entry.count : 0;
+  }
+
+  private sweep(now: number) {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+// Auth paths that take credentials or send magic links; sign-out, session and CSRF calls are routine traffic
+const CREDENTIAL_AUTH_PATHS = /^\/api\/auth\/(signin|callback|register)(\/|$)/;
+
+/**
+ * Pick the route group from the request path
+ */
+export function getRateLimitGroup(pathname: string): RateLimitGroup {
+  if (CREDENTIAL_AUTH_PATHS.test(pathname)) return "auth";
+  if (pathname.startsWith("/api/ocr")) return "ocr";
+  if (pathname.includes("/export")) return "export";
+  return "general";
+}
+
+/**
+ * Limits for a group. Override with RATE_LIMIT_<GROUP>="<requests>/<seconds>", e.g. RATE_LIMIT_OCR="50/3600".
+ */
+export function getRateLimitRule(
+  group: RateLimitGroup,
+  env: Record<string, string | undefined> = process.env
+): RateLimitRule {
+  const configured = env[`RATE_LIMIT_${group.toUpperCase()}`];
+  const match = configured?.match(/^(\d+)\/(\d+)$/);
+
+  if (match && Number(match[1]) > 0 && Number(match[2]) > 0) {
+    return { limit: Number(match[1]), windowMs: Number(match[2]) * 1000 };
+  }
+
+  return DEFAULT_RATE_LIMIT_RULES[group];
+}
+
+/**
+ * Sliding-window counter: the previous window's count is weighted by how much of it
+ * still overlaps the last windowMs, which smooths out bursts at window boundaries.
+ */
+export class RateLimiter {
+  constructor(
+    private store: RateLimitStore = new MemoryRateLimitStore(),
+    private clock: () => number = Date.now
+  ) {}
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = this.clock();
+    const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+    const resetAt = windowStart + rule.windowMs;
+    const overlap = 1 - (now - windowStart) / rule.windowMs;
+
+    const previous = await this.store.get(`${key}:${windowStart - rule.windowMs}`);
+    // Kept for two windows so it can still be weighted in as the previous window
+    const current = await this.store.increment(`${key}:${windowStart}`, rule.windowMs * 2);
+    const used = previous * overlap + current;
+
+    if (used <= rule.limit) {
+      return {
+        allowed: true,
+        limit: rule.limit,
+        remaining: Math.max(Math.floor(rule.limit - used), 0),
+        resetAt,
+        retryAfterSeconds: 0,
+      };
+    }
+
+    // Work out when one more request fits: either enough of the previous window slides
+    // out, or, when this window alone is full, enough of it slides out of the next one
+    const retryAt =
+      current < rule.limit
+        ? windowStart + rule.windowMs * (1 - (rule.limit - current - 1) / previous)
+        : resetAt + rule.windowMs * (1 - (rule.limit - 1) / current);
+
+    return {
+      allowed: false,
+      limit: rule.limit,
+      remaining: 0,
+      resetAt,
+      retryAfterSeconds: Math.max(Math.ceil((retryAt - now) / 1000), 1),
+    };
+  }
+}
+
+let rateLimiter = new RateLimiter();
+
+/**
+ * Swap the backing store, e.g. for a shared store when running several instances
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  rateLimiter = new RateLimiter(store);
+}
+
+/**
+ * Identify the caller by user id when signed in, otherwise by client IP.
+ * Clients can put anything at the start of X-Forwarded-For, so the address is read
+ * TRUSTED_PROXY_HOPS entries from the right, where our own proxies appended it (default 1).
+ */
+export function getRateLimitIdentifier(
+  request: NextRequest,
+  userId?: string,
+  env: Record<string, string | undefined> = process.env
+): string {
+  if (userId) {
+    return `user:${userId}`;
+  }
+
+  const hops = Number(env.TRUSTED_PROXY_HOPS);
+  const trustedHops = Number.isInteger(hops) && hops > 0 ? hops : 1;
+
+  const forwarded = (request.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+  const ip = forwarded[Math.max(forwarded.length - trustedHops, 0)] || request.headers.get("x-real-ip") || "unknown";
+
+  return `ip:${ip}`;
+}
+
+/**
+ * Count one request against the caller's limit for the group
+ */
+export async function checkRateLimit(
+  request: NextRequest,
+  options: { group?: RateLimitGroup; userId?: string; rule?: Partial<RateLimitRule> } = {}
+): Promise<RateLimitResult> {
+  const group = options.group || getRateLimitGroup(request.nextUrl.pathname);
+  const rule = { ...getRateLimitRule(group), ...options.rule };
+  const key = `${group}:${getRateLimitIdentifier(request, options.userId)}`;
+
+  return rateLimiter.consume(key, rule);
+}
+
+export function applyRateLimitHeaders(response: NextResponse, result: RateLimitResult): NextResponse {
+  response.headers.set("X-RateLimit-Limit", String(result.limit));
+  response.headers.set("X-RateLimit-Remaining", String(result.remaining));
+  response.headers.set("X-RateLimit-Reset", String(Math.ceil(result.resetAt / 1000)));
+
+  if (!result.allowed) {
+    response.headers.set("Retry-After", String(result.retryAfterSeconds));
+  }
+
+  return response;
+}
+
+export function rateLimitExceededResponse(result: RateLimitResult): NextResponse {
+  return applyRateLimitHeaders(
+    NextResponse.json(
+      { error: "Rate limit exceeded", retryAfter: result.retryAfterSeconds },
+      { status: 429 }
+    ),
+    result
+  );
+}
+
+/**
+ * For routes outside withSecurity: returns a 429 response when the caller is over the limit
+ */
+export async function enforceRateLimit(
+  request: NextRequest,
+  group?: RateLimitGroup,
+  userId?: string
+): Promise<NextResponse | null> {
+  const result = await checkRateLimit(request, { group, userId });
+  return result.allowed ? null : rateLimitExceededResponse(result);
+}
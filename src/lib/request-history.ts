@@ -1,6 +1,7 @@
 // ABOUTME: Request history and audit trail service for ProfiCo Inventory Management System
 // ABOUTME: Provides functions to create and retrieve request audit trail entries
 
+import type { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 
 export interface RequestHistoryCreateData {
@@ -13,6 +14,14 @@ export interface RequestHistoryCreateData {
   metadata?: Record<string, unknown>;
 }
 
+export interface LineItemProgress {
+  itemId: string;
+  itemName: string;
+  quantity: number;
+  fulfilledQuantity: number;
+  status: string;
+}
+
 export interface RequestHistoryEntry {
   id: string;
   requestId: string;
@@ -39,9 +48,12 @@ export class RequestHistoryService {
   /**
    * Create a new history entry for a request
    */
-  static async createHistoryEntry(data: RequestHistoryCreateData): Promise<RequestHistoryEntry> {
+  static async createHistoryEntry(
+    data: RequestHistoryCreateData,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<RequestHistoryEntry> {
     try {
-      const historyEntry = await prisma.requestHistory.create({
+      const historyEntry = await client.requestHistory.create({
         data: {
           requestId: data.requestId,
           userId: data.userId,
@@ -311,6 +323,86 @@ export class RequestHistoryService {
     });
   }
 
+  /**
+   * Convenience method to log consumables issued from stock
+   */
+  static async logConsumableIssue(
+    requestId: string,
+    userId: string,
+    itemId: string,
+    itemName: string,
+    quantity: number
+  ): Promise<RequestHistoryEntry> {
+    return this.createHistoryEntry({
+      requestId,
+      userId,
+      action: "consumable_issued",
+      oldStatus: "approved",
+      newStatus: "fulfilled",
+      notes: `Issued from stock: ${quantity} x ${itemName}`,
+      metadata: {
+        itemId,
+        itemName,
+        quantity,
+      },
+    });
+  }
+
+  /**
+   * Convenience method to log progress on a request line item, such as a unit handed over
+   * or a line flagged for purchase. The line's progress is kept so the timeline can show it.
+   */
+  static async logLineItemProgress(
+    requestId: string,
+    userId: string,
+    action: string,
+    progress: LineItemProgress,
+    status: { oldStatus?: string; newStatus?: string; notes?: string | null; metadata?: Record<string, unknown> },
+    client: Prisma.TransactionClient = prisma
+  ): Promise<RequestHistoryEntry> {
+    return this.createHistoryEntry(
+      {
+        requestId,
+        userId,
+        action,
+        oldStatus: status.oldStatus,
+        newStatus: status.newStatus,
+        notes: status.notes
+          ? `${progress.itemName}: ${status.notes}`
+          : `${progress.itemName}: ${progress.fulfilledQuantity} of ${progress.quantity} fulfilled`,
+        metadata: {
+          ...status.metadata,
+          lineItem: progress,
+        },
+      },
+      client
+    );
+  }
+
+  /**
+   * Current progress of every line item on a request, in line order
+   */
+  static async getLineItemProgress(requestId: string): Promise<LineItemProgress[]> {
+    try {
+      const items = await prisma.equipmentRequestItem.findMany({
+        where: { requestId },
+        select: { id: true, name: true, quantity: true, fulfilledQuantity: true, status: true },
+        orderBy: { position: "asc" },
+      });
+
+      return items.map((item) => ({
+        itemId: item.id,
+        itemName: item.name,
+        quantity: item.quantity,
+        fulfilledQuantity: item.fulfilledQuantity,
+        status: item.status,
+      }));
+    } catch (error) {
+      console.error("Failed to fetch line item progress:", error);
+      throw new Error("Failed to fetch line item progress");
+    }
+  }
+
   /**
    * Convenience method to log status changes
    */
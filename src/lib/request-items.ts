@@ -0,0 +1,284 @@
+// ABOUTME: Request line item service for ProfiCo Inventory Management System
+// ABOUTME: Fulfills line items unit by unit from stock or flags them for purchase and tracks partial fulfillment
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { RequestHistoryService } from "@/lib/request-history";
+
+export type RequestItemKind = "equipment" | "subscription";
+
+export type RequestItemStatus = "pending" | "to_purchase" | "partially_fulfilled" | "fulfilled";
+
+export interface RequestItemInput {
+  kind: RequestItemKind;
+  name: string;
+  quantity: number;
+  budget?: number | null;
+  notes?: string;
+}
+
+export interface RequestItemUpdateData {
+  status: "pending" | "to_purchase" | "fulfilled";
+  subscriptionId?: string;
+  notes?: string;
+}
+
+// Line items can only change while the request is open
+export const OPEN_LINE_REQUEST_STATUSES = ["approved", "ordered", "partially_fulfilled"];
+
+/**
+ * Raised when a line item cannot be changed the way it was asked to
+ */
+export class RequestItemError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RequestItemError";
+  }
+}
+
+export const requestItemInclude = {
+  allocations: {
+    include: {
+      equipment: {
+        select: { id: true, name: true, serialNumber: true },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  },
+  subscription: {
+    select: { id: true, softwareName: true },
+  },
+} satisfies Prisma.EquipmentRequestItemInclude;
+
+/**
+ * Nested create data for a request's line items, kept in the order given
+ */
+export function requestItemsCreate(items: RequestItemInput[]) {
+  return items.map((item, position) => ({
+    kind: item.kind,
+    name: item.name,
+    quantity: item.quantity,
+    budget: item.budget ?? null,
+    notes: item.notes,
+    position,
+  }));
+}
+
+/**
+ * Total budget of the lines that have one, or null when none do
+ */
+export function requestItemsBudget(items: Pick<RequestItemInput, "quantity" | "budget">[]): number | null {
+  const budgeted = items.filter((item) => item.budget !== null && item.budget !== undefined);
+  if (budgeted.length === 0) {
+    return null;
+  }
+  return budgeted.reduce((sum, item) => sum + (item.budget ?? 0) * item.quantity, 0);
+}
+
+/**
+ * Units and lines fulfilled so far across a request's line items
+ */
+export function summarizeRequestItems(items: { quantity: number; fulfilledQuantity: number }[]) {
+  return {
+    lines: items.length,
+    fulfilledLines: items.filter((item) => item.fulfilledQuantity >= item.quantity).length,
+    units: items.reduce((sum, item) => sum + item.quantity, 0),
+    fulfilledUnits: items.reduce((sum, item) => sum + Math.min(item.fulfilledQuantity, item.quantity), 0),
+  };
+}
+
+/**
+ * Request line item service
+ */
+export class RequestItemService {
+  /**
+   * Move the request to partially fulfilled or fulfilled as its lines are. Returns the request's status.
+   */
+  static async syncRequestStatus(client: Prisma.TransactionClient, requestId: string): Promise<string | null> {
+    const request = await client.equipmentRequest.findUnique({
+      where: { id: requestId },
+      select: { status: true, items: { select: { quantity: true, fulfilledQuantity: true } } },
+    });
+
+    if (!request) {
+      return null;
+    }
+
+    const progress = summarizeRequestItems(request.items);
+    if (progress.units === 0 || !OPEN_LINE_REQUEST_STATUSES.includes(request.status)) {
+      return request.status;
+    }
+
+    let status = request.status;
+    if (progress.fulfilledUnits >= progress.units) {
+      status = "fulfilled";
+    } else if (progress.fulfilledUnits > 0) {
+      status = "partially_fulfilled";
+    }
+
+    if (status !== request.status) {
+      await client.equipmentRequest.update({
+        where: { id: requestId },
+        data: { status },
+      });
+    }
+
+    return status;
+  }
+
+  /**
+   * Record one unit of an equipment line as handed over. The handover itself is done by the caller.
+   */
+  static async fulfilWithEquipment(
+    client: Prisma.TransactionClient,
+    requestId: string,
+    itemId: string,
+    equipment: { id: string; name: string },
+    userId: string,
+    notes?: string
+  ) {
+    const item = await client.equipmentRequestItem.findFirst({
+      where: { id: itemId, requestId },
+      select: {
+        id: true,
+        kind: true,
+        name: true,
+        status: true,
+        quantity: true,
+        fulfilledQuantity: true,
+        request: { select: { status: true } },
+      },
+    });
+
+    if (!item) {
+      throw new RequestItemError("Line item not found on this request");
+    }
+
+    if (item.kind !== "equipment") {
+      throw new RequestItemError("Only equipment lines are fulfilled from stock");
+    }
+
+    if (item.fulfilledQuantity >= item.quantity) {
+      throw new RequestItemError("Line item is already fulfilled");
+    }
+
+    const fulfilledQuantity = item.fulfilledQuantity + 1;
+    const complete = fulfilledQuantity >= item.quantity;
+
+    await client.equipmentRequestAllocation.create({
+      data: { itemId, equipmentId: equipment.id },
+    });
+
+    await client.equipmentRequestItem.update({
+      where: { id: itemId },
+      data: {
+        fulfilledQuantity,
+        status: complete ? "fulfilled" : "partially_fulfilled",
+        ...(complete && { fulfilledAt: new Date() }),
+      },
+    });
+
+    const requestStatus = await this.syncRequestStatus(client, requestId);
+
+    await RequestHistoryService.logLineItemProgress(
+      requestId,
+      userId,
+      "equipment_assigned",
+      {
+        itemId,
+        itemName: item.name,
+        quantity: item.quantity,
+        fulfilledQuantity,
+        status: complete ? "fulfilled" : "partially_fulfilled",
+      },
+      {
+        oldStatus: item.request.status,
+        newStatus: requestStatus ?? undefined,
+        notes,
+        metadata: { equipmentId: equipment.id, equipmentName: equipment.name },
+      },
+      client
+    );
+
+    return requestStatus;
+  }
+
+  /**
+   * Flag a line for purchase, put it back to pending, or mark a subscription line as set up
+   */
+  static async updateItem(requestId: string, itemId: string, data: RequestItemUpdateData, userId: string) {
+    const item = await prisma.equipmentRequestItem.findFirst({
+      where: { id: itemId, requestId },
+      include: {
+        request: { select: { status: true, requesterId: true } },
+      },
+    });
+
+    if (!item) {
+      return null;
+    }
+
+    if (!OPEN_LINE_REQUEST_STATUSES.includes(item.request.status)) {
+      throw new RequestItemError(`Cannot change line items of a request with status: ${item.request.status}`);
+    }
+
+    if (item.status === "fulfilled") {
+      throw new RequestItemError("Line item is already fulfilled");
+    }
+
+    if (data.status === "fulfilled") {
+      // Equipment goes through the assign endpoint so each handover is recorded
+      if (item.kind === "equipment") {
+        throw new RequestItemError("Assign equipment from stock to fulfil an equipment line");
+      }
+
+      if (data.subscriptionId) {
+        const subscription = await prisma.subscription.findFirst({
+          where: { id: data.subscriptionId, assignedUserId: item.request.requesterId },
+          select: { id: true },
+        });
+
+        if (!subscription) {
+          throw new RequestItemError("Subscription must be assigned to the requester");
+        }
+      }
+    }
+
+    // A line with units already handed over stays partially fulfilled rather than going back to pending
+    const status = data.status === "pending" && item.fulfilledQuantity > 0 ? "partially_fulfilled" : data.status;
+    const fulfilledQuantity = data.status === "fulfilled" ? item.quantity : item.fulfilledQuantity;
+
+    return prisma.$transaction(async (tx) => {
+      const updated = await tx.equipmentRequestItem.update({
+        where: { id: itemId },
+        data: {
+          status,
+          notes: data.notes,
+          ...(data.status === "fulfilled" && {
+            fulfilledQuantity,
+            subscriptionId: data.subscriptionId,
+            fulfilledAt: new Date(),
+          }),
+        },
+        include: requestItemInclude,
+      });
+
+      const requestStatus = await this.syncRequestStatus(tx, requestId);
+
+      await RequestHistoryService.logLineItemProgress(
+        requestId,
+        userId,
+        "item_updated",
+        { itemId, itemName: item.name, quantity: item.quantity, fulfilledQuantity, status },
+        {
+          oldStatus: item.request.status,
+          newStatus: requestStatus ?? undefined,
+          notes: data.notes || (status === "to_purchase" ? "flagged for purchase" : undefined),
+        },
+        tx
+      );
+
+      return { item: updated, requestStatus };
+    });
+  }
+}
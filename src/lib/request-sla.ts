@@ -0,0 +1,155 @@
+// ABOUTME: Request SLA rules shared by the escalation job and the approval screens
+// ABOUTME: Works out when an approval stage is due for its priority and flags requests whose need-by date is close
+
+import type { SystemSettings } from "@/lib/system-settings";
+
+export type SlaStatus = "on_track" | "at_risk" | "breached";
+
+export type NeededByUrgency = "overdue" | "soon";
+
+export interface SlaTargets {
+  urgentHours: number;
+  highBusinessDays: number;
+  mediumBusinessDays: number;
+  lowBusinessDays: number;
+}
+
+export interface SlaState {
+  deadline: Date;
+  remindAt: Date;
+  status: SlaStatus;
+}
+
+export const DEFAULT_SLA_TARGETS: SlaTargets = {
+  urgentHours: 4,
+  highBusinessDays: 1,
+  mediumBusinessDays: 3,
+  lowBusinessDays: 5,
+};
+
+// Approvers are reminded once this share of the SLA window has passed
+export const SLA_REMINDER_RATIO = 0.75;
+
+// Open requests needed within this many days are highlighted
+export const NEEDED_BY_WARNING_DAYS = 3;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const slaStatusLabels: Record<SlaStatus, string> = {
+  on_track: "On track",
+  at_risk: "Due soon",
+  breached: "SLA breached",
+};
+
+export function slaTargetsFromSettings(
+  settings: Pick<SystemSettings, "slaUrgentHours" | "slaHighBusinessDays" | "slaMediumBusinessDays" | "slaLowBusinessDays">
+): SlaTargets {
+  return {
+    urgentHours: settings.slaUrgentHours,
+    highBusinessDays: settings.slaHighBusinessDays,
+    mediumBusinessDays: settings.slaMediumBusinessDays,
+    lowBusinessDays: settings.slaLowBusinessDays,
+  };
+}
+
+function isWeekend(date: Date): boolean {
+  const day = date.getDay();
+  return day === 0 || day === 6;
+}
+
+/**
+ * Move forward by business days, skipping Saturdays and Sundays. Weekend time does not count,
+ * so something started on a Saturday is treated as started first thing on Monday.
+ */
+export function addBusinessDays(start: Date, days: number): Date {
+  const result = new Date(start);
+
+  if (isWeekend(result)) {
+    do {
+      result.setDate(result.getDate() + 1);
+    } while (isWeekend(result));
+    result.setHours(0, 0, 0, 0);
+  }
+
+  let remaining = days;
+  while (remaining > 0) {
+    result.setDate(result.getDate() + 1);
+    if (!isWeekend(result)) {
+      remaining--;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * When a stage that started waiting at `openedAt` is due. Urgent requests count clock hours;
+ * every other priority counts business days.
+ */
+export function slaDeadline(openedAt: Date, priority: string, targets: SlaTargets = DEFAULT_SLA_TARGETS): Date {
+  switch (priority) {
+    case "urgent":
+      return new Date(openedAt.getTime() + targets.urgentHours * HOUR_MS);
+    case "high":
+      return addBusinessDays(openedAt, targets.highBusinessDays);
+    case "low":
+      return addBusinessDays(openedAt, targets.lowBusinessDays);
+    default:
+      return addBusinessDays(openedAt, targets.mediumBusinessDays);
+  }
+}
+
+/**
+ * Where a waiting stage stands against its deadline
+ */
+export function slaState(
+  openedAt: Date,
+  priority: string,
+  targets: SlaTargets = DEFAULT_SLA_TARGETS,
+  now: Date = new Date()
+): SlaState {
+  const deadline = slaDeadline(openedAt, priority, targets);
+  const remindAt = new Date(openedAt.getTime() + (deadline.getTime() - openedAt.getTime()) * SLA_REMINDER_RATIO);
+
+  let status: SlaStatus = "on_track";
+  if (now >= deadline) {
+    status = "breached";
+  } else if (now >= remindAt) {
+    status = "at_risk";
+  }
+
+  return { deadline, remindAt, status };
+}
+
+/**
+ * When a stage started waiting. Stages opened before SLAs were tracked count from the request's creation.
+ */
+export function stageOpenedAt(
+  stage: { openedAt?: Date | string | null },
+  requestCreatedAt: Date | string
+): Date {
+  return new Date(stage.openedAt ?? requestCreatedAt);
+}
+
+/**
+ * Whether a request's need-by date has passed or falls within the warning window
+ */
+export function neededByUrgency(
+  neededBy: Date | string | null | undefined,
+  now: Date = new Date()
+): NeededByUrgency | null {
+  if (!neededBy) {
+    return null;
+  }
+
+  const due = new Date(neededBy).getTime();
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+
+  if (due < today.getTime()) {
+    return "overdue";
+  }
+
+  return due < today.getTime() + (NEEDED_BY_WARNING_DAYS + 1) * DAY_MS ? "soon" : null;
+}
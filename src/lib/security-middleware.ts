@@ -3,15 +3,34 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import type { RoutePolicy } from './authorization';
 import { securityValidation, InputSanitizer } from './validation';
 import { CSRFProtection } from './csrf';
+import {
+  applyRateLimitHeaders,
+  checkRateLimit,
+  rateLimitExceededResponse,
+  type RateLimitGroup,
+  type RateLimitResult,
+} from './rate-limit';
+
+type RateLimitedRequest = NextRequest & { rateLimit?: RateLimitResult };
+
+export type SessionUser = NonNullable<Awaited<ReturnType<typeof auth>>>['user'];
+
+/**
+ * Request handed to withSecurity handlers; user is set for every non-public policy
+ */
+export interface AuthenticatedRequest extends NextRequest {
+  user: SessionUser;
+}
 
 export class SecurityMiddleware {
   /**
    * Main security middleware function
    * Apply this to all API routes for comprehensive protection
    */
-  static async apply(request: NextRequest, options: SecurityOptions = {}) {
+  static async apply(request: NextRequest, options: SecurityOptions) {
     try {
       // Validate request source
       if (!securityValidation.validateRequestSource(request)) {
@@ -21,12 +40,50 @@ export class SecurityMiddleware {
         );
       }
 
+      const { policy } = options;
+
+      // Signed-in callers are limited per user, everyone else per IP
+      const session = !policy.public || options.enableRateLimit !== false ? await auth() : null;
+
       // Check rate limiting
-      if (!securityValidation.validateRateLimit()) {
-        return NextResponse.json(
-          { error: 'Rate limit exceeded' },
-          { status: 429 }
-        );
+      if (options.enableRateLimit !== false) {
+        const rateLimit = await checkRateLimit(request, {
+          group: options.rateLimitGroup,
+          userId: session?.user?.id,
+          rule: {
+            ...(options.rateLimitMax ? { limit: options.rateLimitMax } : {}),
+            ...(options.rateLimitWindow ? { windowMs: options.rateLimitWindow } : {}),
+          },
+        });
+
+        if (!rateLimit.allowed) {
+          return rateLimitExceededResponse(rateLimit);
+        }
+
+        // Picked up by withSecurity to add the X-RateLimit-* headers
+        (request as RateLimitedRequest).rateLimit = rateLimit;
+      }
+
+      // Route policy
+      if (!policy.public) {
+        if (!session?.user) {
+          return NextResponse.json(
+            { error: 'Authentication required' },
+            { status: 401 }
+          );
+        }
+
+        if (!policy.allows(session.user)) {
+          return NextResponse.json(
+            { error: 'Insufficient permissions' },
+            { status: 403 }
+          );
+        }
+      }
+
+      // Add user info to request for downstream use
+      if (session?.user) {
+        (request as AuthenticatedRequest).user = session.user;
       }
 
       // Validate Content Security Policy
@@ -75,28 +132,6 @@ export class SecurityMiddleware {
         }
       }
 
-      // Authentication check if required
-      if (options.requireAuth) {
-        const session = await auth();
-        if (!session) {
-          return NextResponse.json(
-            { error: 'Authentication required' },
-            { status: 401 }
-          );
-        }
-
-        // Role-based access control
-        if (options.requiredRoles && !options.requiredRoles.includes(session.user.role)) {
-          return NextResponse.json(
-            { error: 'Insufficient permissions' },
-            { status: 403 }
-          );
-        }
-
-        // Add user info to request for downstream use
-        (request as Request & { user?: unknown }).user = session.user;
-      }
-
       // Return null if all checks pass (continue processing)
       return null;
 
@@ -109,21 +144,6 @@ export class SecurityMiddleware {
     }
   }
 
-  /**
-   * Get identifier for rate limiting
-   */
-  private static getRateLimitIdentifier(request: NextRequest): string {
-    // Use IP address as primary identifier
-    const forwarded = request.headers.get('x-forwarded-for');
-    const realIp = request.headers.get('x-real-ip');
-    const ip = forwarded || realIp || 'unknown';
-    
-    // Add user agent for more granular rate limiting
-    const userAgent = request.headers.get('user-agent') || 'unknown';
-    
-    return `${ip}:${userAgent}`;
-  }
-
   /**
    * Check for malicious headers
    */
@@ -305,27 +325,27 @@ export class SecurityMiddleware {
 
 export interface SecurityOptions {
   /**
-   * Whether authentication is required
+   * Who may call the route, from the policies in authorization.ts
    */
-  requireAuth?: boolean;
+  policy: RoutePolicy;
 
   /**
-   * Required user roles (if authentication is required)
+   * Whether to enable rate limiting (defaults to true)
    */
-  requiredRoles?: ('admin' | 'team_lead' | 'user')[];
+  enableRateLimit?: boolean;
 
   /**
-   * Whether to enable rate limiting
+   * Route group whose limits apply; inferred from the path when omitted
    */
-  enableRateLimit?: boolean;
+  rateLimitGroup?: RateLimitGroup;
 
   /**
-   * Rate limit window in milliseconds
+   * Rate limit window in milliseconds, overriding the group's window
    */
   rateLimitWindow?: number;
 
   /**
-   * Maximum requests per window
+   * Maximum requests per window, overriding the group's limit
    */
   rateLimitMax?: number;
 
@@ -340,8 +360,8 @@ export interface SecurityOptions {
  */
 export async function withSecurity(
   request: NextRequest,
-  handler: (request: NextRequest) => Promise<NextResponse>,
-  options?: SecurityOptions
+  handler: (request: AuthenticatedRequest) => Promise<NextResponse>,
+  options: SecurityOptions
 ): Promise<NextResponse> {
   // Apply security middleware
   const securityResult = await SecurityMiddleware.apply(request, options);
@@ -352,11 +372,16 @@ export async function withSecurity(
   }
 
   // Execute the handler
-  let response = await handler(request);
+  let response = await handler(request as AuthenticatedRequest);
 
   // Apply security headers
   response = SecurityMiddleware.applySecurityHeaders(response);
 
+  const rateLimit = (request as RateLimitedRequest).rateLimit;
+  if (rateLimit) {
+    response = applyRateLimitHeaders(response, rateLimit);
+  }
+
   return response;
 }
 
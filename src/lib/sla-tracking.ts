@@ -0,0 +1,284 @@
+// ABOUTME: Request SLA tracking service for ProfiCo Inventory Management System
+// ABOUTME: Reminds and escalates approval stages nearing or past their SLA and reports response times per team
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { SystemSettingsService } from "@/lib/system-settings";
+import { ApprovalChainService } from "@/lib/approval-chains";
+import { EmailNotificationService, type EquipmentRequestEmailData } from "@/lib/email";
+import { NotificationService } from "@/lib/notifications";
+import {
+  slaState,
+  slaTargetsFromSettings,
+  stageOpenedAt,
+  type SlaState,
+  type SlaTargets,
+} from "@/lib/request-sla";
+import type { UserRole } from "@/types/index";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface SlaEscalationResult {
+  checked: number;
+  reminded: number;
+  escalated: number;
+  failed: number;
+}
+
+export interface TeamResponseTimes {
+  teamId: string | null;
+  teamName: string;
+  requests: number;
+  approved: number;
+  averageHoursToApprove: number | null;
+  fulfilled: number;
+  averageHoursToFulfil: number | null;
+}
+
+export interface ResponseTimesReport {
+  since: Date;
+  teams: TeamResponseTimes[];
+  overall: TeamResponseTimes;
+}
+
+interface RequestTimeline {
+  createdAt: Date;
+  team: { id: string; name: string } | null;
+  history: Array<{ newStatus: string | null; createdAt: Date }>;
+}
+
+const pendingStageInclude = {
+  request: {
+    include: {
+      requester: {
+        select: { id: true, name: true, email: true, role: true, teamId: true },
+      },
+    },
+  },
+} satisfies Prisma.RequestApprovalInclude;
+
+type PendingStage = Awaited<ReturnType<typeof findPendingStages>>[number];
+
+function findPendingStages() {
+  return prisma.requestApproval.findMany({
+    where: { status: "pending", escalatedAt: null, request: { status: "pending" } },
+    include: pendingStageInclude,
+  });
+}
+
+function toEmailData(request: PendingStage["request"]): EquipmentRequestEmailData {
+  return {
+    id: request.id,
+    equipmentType: request.equipmentType,
+    justification: request.justification,
+    priority: request.priority,
+    neededBy: request.neededBy || undefined,
+    budget: request.budget || undefined,
+    specificRequirements: request.specificRequirements || undefined,
+    status: request.status,
+    requester: {
+      id: request.requester.id,
+      name: request.requester.name,
+      email: request.requester.email,
+      role: request.requester.role as UserRole,
+    },
+    createdAt: request.createdAt,
+    updatedAt: request.updatedAt,
+  };
+}
+
+function averageHours(durations: number[]): number | null {
+  if (durations.length === 0) {
+    return null;
+  }
+
+  const total = durations.reduce((sum, duration) => sum + duration, 0);
+  return Math.round((total / durations.length / HOUR_MS) * 10) / 10;
+}
+
+function teamTimes(teamId: string | null, teamName: string, timelines: RequestTimeline[]): TeamResponseTimes {
+  const toApprove: number[] = [];
+  const toFulfil: number[] = [];
+
+  for (const timeline of timelines) {
+    const approved = timeline.history.find((entry) => entry.newStatus === "approved");
+    const fulfilled = timeline.history.find((entry) => entry.newStatus === "fulfilled");
+
+    if (approved) {
+      toApprove.push(approved.createdAt.getTime() - timeline.createdAt.getTime());
+    }
+    if (fulfilled) {
+      toFulfil.push(fulfilled.createdAt.getTime() - timeline.createdAt.getTime());
+    }
+  }
+
+  return {
+    teamId,
+    teamName,
+    requests: timelines.length,
+    approved: toApprove.length,
+    averageHoursToApprove: averageHours(toApprove),
+    fulfilled: toFulfil.length,
+    averageHoursToFulfil: averageHours(toFulfil),
+  };
+}
+
+/**
+ * Average time from submission to approval and to fulfilment, per requester team. The times
+ * come from the first history entry that moved each request to approved or fulfilled.
+ */
+export function summarizeResponseTimes(timelines: RequestTimeline[]): Omit<ResponseTimesReport, "since"> {
+  const byTeam = new Map<string | null, { name: string; timelines: RequestTimeline[] }>();
+
+  for (const timeline of timelines) {
+    const key = timeline.team?.id ?? null;
+    const group = byTeam.get(key) ?? { name: timeline.team?.name ?? "No team", timelines: [] };
+    group.timelines.push(timeline);
+    byTeam.set(key, group);
+  }
+
+  const teams = Array.from(byTeam.entries())
+    .map(([teamId, group]) => teamTimes(teamId, group.name, group.timelines))
+    .sort((a, b) => a.teamName.localeCompare(b.teamName));
+
+  return {
+    teams,
+    overall: teamTimes(null, "All teams", timelines),
+  };
+}
+
+/**
+ * SLA tracking service: keeps approval stages moving and measures how quickly requests are handled
+ */
+export class SlaTrackingService {
+  /**
+   * The SLA targets admins configured, or the defaults
+   */
+  static async getTargets(): Promise<SlaTargets> {
+    return slaTargetsFromSettings(await SystemSettingsService.getAll());
+  }
+
+  /**
+   * Remind the approvers of stages nearing their deadline, then alert approvers and admins once a
+   * stage is breached. Each stage is reminded and escalated at most once; a failure on one stage
+   * is logged and does not stop the rest.
+   */
+  static async escalate(now: Date = new Date()): Promise<SlaEscalationResult> {
+    const targets = await this.getTargets();
+    const stages = await findPendingStages();
+    const result: SlaEscalationResult = { checked: stages.length, reminded: 0, escalated: 0, failed: 0 };
+
+    for (const stage of stages) {
+      try {
+        const state = slaState(stageOpenedAt(stage, stage.request.createdAt), stage.request.priority, targets, now);
+
+        if (state.status === "breached") {
+          if (await this.escalateStage(stage, state, now)) {
+            result.escalated++;
+          }
+        } else if (state.status === "at_risk" && !stage.remindedAt) {
+          if (await this.remindStage(stage, state, now)) {
+            result.reminded++;
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to check the approval SLA of request ${stage.requestId}:`, error);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Response times for requests submitted since the given date, optionally for one team only
+   */
+  static async responseTimes(options: { since: Date; teamId?: string | null }): Promise<ResponseTimesReport> {
+    const requests = await prisma.equipmentRequest.findMany({
+      where: {
+        createdAt: { gte: options.since },
+        ...(options.teamId !== undefined && { requester: { teamId: options.teamId } }),
+      },
+      select: {
+        createdAt: true,
+        requester: { select: { team: { select: { id: true, name: true } } } },
+        history: {
+          select: { newStatus: true, createdAt: true },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    return {
+      since: options.since,
+      ...summarizeResponseTimes(
+        requests.map((request) => ({
+          createdAt: request.createdAt,
+          team: request.requester.team,
+          history: request.history,
+        }))
+      ),
+    };
+  }
+
+  private static async remindStage(stage: PendingStage, state: SlaState, now: Date): Promise<boolean> {
+    // Claiming the reminder first keeps overlapping runs from sending it twice
+    const claimed = await prisma.requestApproval.updateMany({
+      where: { id: stage.id, remindedAt: null },
+      data: { remindedAt: now },
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    const approvers = await ApprovalChainService.approvers(stage, stage.request.requester.teamId);
+    const emailData = toEmailData(stage.request);
+    const overdue = { stageName: stage.name, deadline: state.deadline, escalated: false };
+
+    await EmailNotificationService.notifyApprovalOverdue(
+      emailData,
+      approvers.map((approver) => approver.email),
+      overdue
+    );
+    await NotificationService.notifyApprovalOverdue(
+      emailData,
+      approvers.map((approver) => approver.id),
+      overdue
+    );
+
+    return true;
+  }
+
+  private static async escalateStage(stage: PendingStage, state: SlaState, now: Date): Promise<boolean> {
+    const claimed = await prisma.requestApproval.updateMany({
+      where: { id: stage.id, escalatedAt: null },
+      data: { escalatedAt: now },
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    const [approvers, admins] = await Promise.all([
+      ApprovalChainService.approvers(stage, stage.request.requester.teamId),
+      ApprovalChainService.approvers({ approverRole: "admin", approverId: null }, null),
+    ]);
+    const recipients = Array.from(new Map([...approvers, ...admins].map((user) => [user.id, user])).values());
+    const emailData = toEmailData(stage.request);
+    const overdue = { stageName: stage.name, deadline: state.deadline, escalated: true };
+
+    await EmailNotificationService.notifyApprovalOverdue(
+      emailData,
+      recipients.map((recipient) => recipient.email),
+      overdue
+    );
+    await NotificationService.notifyApprovalOverdue(
+      emailData,
+      recipients.map((recipient) => recipient.id),
+      overdue
+    );
+
+    return true;
+  }
+}
@@ -0,0 +1,305 @@
+// ABOUTME: File storage drivers for ProfiCo Inventory Management System
+// ABOUTME: Keeps uploads under a storage key on local disk or in an S3-compatible bucket, chosen by STORAGE_DRIVER
+
+import { promises as fs } from "fs";
+import path from "path";
+import { createHmac, timingSafeEqual } from "crypto";
+import {
+  encodeKeyPath,
+  presignUrl,
+  sha256Hex,
+  signRequest,
+  type S3Credentials,
+} from "@/lib/s3-signing";
+
+export type StorageDriverName = "local" | "s3";
+
+export const STORAGE_DRIVER_NAMES: StorageDriverName[] = ["local", "s3"];
+
+// Signed download URLs stay valid this long unless STORAGE_SIGNED_URL_TTL says otherwise
+export const DEFAULT_SIGNED_URL_TTL_SECONDS = 300;
+
+export interface StoredObject {
+  body: Buffer;
+  size: number;
+}
+
+export interface SignedUrlOptions {
+  fileName: string;
+  contentType: string;
+  // Attachment rather than inline display
+  download?: boolean;
+  expiresIn?: number;
+}
+
+/**
+ * Anything that can keep files by key; swapped for an in-memory fake in tests
+ */
+export interface StorageDriver {
+  name?: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+  // A URL that serves the file to whoever holds it until it expires
+  signedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+}
+
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
+
+/**
+ * Keys are relative, slash-separated paths. Anything that could climb out of the storage root is refused.
+ */
+export function assertValidKey(key: string): void {
+  const segments = key.split("/");
+
+  if (!key || key.startsWith("/") || key.includes("\\") || segments.some((segment) => !segment || segment === "." || segment === "..")) {
+    throw new StorageError(`Invalid storage key "${key}"`);
+  }
+}
+
+export function signedUrlTtl(env: Record<string, string | undefined> = process.env): number {
+  const configured = Number(env.STORAGE_SIGNED_URL_TTL);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_SIGNED_URL_TTL_SECONDS;
+}
+
+function contentDisposition(options: SignedUrlOptions): string {
+  const fallback = options.fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `${options.download ? "attachment" : "inline"}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(options.fileName)}`;
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.NEXTAUTH_SECRET || process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new StorageError("STORAGE_SIGNING_SECRET or NEXTAUTH_SECRET is required to sign download URLs");
+  }
+  return secret;
+}
+
+export interface LocalSignedParams {
+  expires: string;
+  disposition: string;
+  type: string;
+  signature: string;
+}
+
+function localSignature(key: string, params: Omit<LocalSignedParams, "signature">, secret: string): string {
+  return createHmac("sha256", secret)
+    .update([key, params.expires, params.disposition, params.type].join("\n"))
+    .digest("hex");
+}
+
+/**
+ * Check a local signed URL: the signature must cover exactly these parameters and must not have expired
+ */
+export function verifyLocalSignature(
+  key: string,
+  params: Partial<LocalSignedParams>,
+  now: Date = new Date(),
+  secret: string = getSigningSecret()
+): params is LocalSignedParams {
+  const { expires, disposition, type, signature } = params;
+
+  if (!expires || !disposition || !type || !signature || Number(expires) * 1000 < now.getTime()) {
+    return false;
+  }
+
+  const expected = Buffer.from(localSignature(key, { expires, disposition, type }, secret));
+  const given = Buffer.from(signature);
+
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+/**
+ * Writes files below a directory on the server's disk. Signed URLs point at /api/storage, which
+ * checks the signature before streaming the file.
+ */
+export function createLocalStorage(
+  directory = process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), "uploads")
+): StorageDriver {
+  const resolve = (key: string) => {
+    assertValidKey(key);
+    return path.join(directory, ...key.split("/"));
+  };
+
+  return {
+    name: "local",
+    async put(key, body) {
+      const filePath = resolve(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, body);
+    },
+    async get(key) {
+      try {
+        const body = await fs.readFile(resolve(key));
+        return { body, size: body.length };
+      } catch (error) {
+        if (isMissingFile(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async delete(key) {
+      try {
+        await fs.unlink(resolve(key));
+      } catch (error) {
+        if (!isMissingFile(error)) {
+          throw error;
+        }
+      }
+    },
+    async signedUrl(key, options) {
+      assertValidKey(key);
+
+      const params = {
+        expires: String(Math.floor(Date.now() / 1000) + (options.expiresIn ?? signedUrlTtl())),
+        disposition: contentDisposition(options),
+        type: options.contentType,
+      };
+      const query = new URLSearchParams({ ...params, signature: localSignature(key, params, getSigningSecret()) });
+
+      return `/api/storage/${encodeKeyPath(key)}?${query.toString()}`;
+    },
+  };
+}
+
+export interface S3StorageConfig extends S3Credentials {
+  bucket: string;
+  // Custom endpoint for MinIO and other S3-compatible services, e.g. http://minio:9000
+  endpoint?: string;
+  forcePathStyle: boolean;
+}
+
+export function s3ConfigFromEnv(env: Record<string, string | undefined> = process.env): S3StorageConfig {
+  const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = env;
+
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new StorageError("S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required for S3 storage");
+  }
+
+  return {
+    bucket: S3_BUCKET,
+    region: env.S3_REGION || "us-east-1",
+    endpoint: env.S3_ENDPOINT?.replace(/\/+$/, "") || undefined,
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+    // MinIO serves buckets by path unless it has been set up with a domain
+    forcePathStyle: env.S3_FORCE_PATH_STYLE ? env.S3_FORCE_PATH_STYLE === "true" : !!env.S3_ENDPOINT,
+  };
+}
+
+/**
+ * Keeps files in an S3 bucket, or any S3-compatible service such as MinIO. Signed URLs are
+ * presigned GETs, so downloads go straight to the bucket.
+ */
+export function createS3Storage(
+  config: S3StorageConfig = s3ConfigFromEnv(),
+  fetchImpl: typeof fetch = fetch
+): StorageDriver {
+  const objectUrl = (key: string) => {
+    assertValidKey(key);
+
+    const base = config.endpoint ?? `https://s3.${config.region}.amazonaws.com`;
+    if (config.forcePathStyle) {
+      return new URL(`${base}/${config.bucket}/${encodeKeyPath(key)}`);
+    }
+
+    const origin = new URL(base);
+    return new URL(`${origin.protocol}//${config.bucket}.${origin.host}/${encodeKeyPath(key)}`);
+  };
+
+  const send = async (method: string, key: string, body?: Buffer, contentType?: string) => {
+    const url = objectUrl(key);
+    const headers = signRequest({
+      method,
+      url,
+      credentials: config,
+      headers: contentType ? { "content-type": contentType } : undefined,
+      payloadHash: sha256Hex(body ?? ""),
+    });
+    // fetch sets the host header itself
+    delete headers.host;
+
+    return fetchImpl(url, { method, headers, body: body ? new Uint8Array(body) : undefined });
+  };
+
+  return {
+    name: "s3",
+    async put(key, body, contentType) {
+      const response = await send("PUT", key, body, contentType);
+      if (!response.ok) {
+        throw new StorageError(`Storing ${key} failed with status ${response.status}`);
+      }
+    },
+    async get(key) {
+      const response = await send("GET", key);
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new StorageError(`Reading ${key} failed with status ${response.status}`);
+      }
+
+      const body = Buffer.from(await response.arrayBuffer());
+      return { body, size: body.length };
+    },
+    async delete(key) {
+      const response = await send("DELETE", key);
+      if (!response.ok && response.status !== 404) {
+        throw new StorageError(`Deleting ${key} failed with status ${response.status}`);
+      }
+    },
+    async signedUrl(key, options) {
+      const url = objectUrl(key);
+      url.searchParams.set("response-content-disposition", contentDisposition(options));
+      url.searchParams.set("response-content-type", options.contentType);
+
+      return presignUrl({ url, credentials: config, expiresIn: options.expiresIn ?? signedUrlTtl() });
+    },
+  };
+}
+
+/**
+ * Pick the configured driver. Without STORAGE_DRIVER files stay on local disk.
+ */
+export function resolveStorageDriverName(
+  env: Record<string, string | undefined> = process.env
+): StorageDriverName {
+  const configured = env.STORAGE_DRIVER;
+
+  if (configured) {
+    if (!(STORAGE_DRIVER_NAMES as string[]).includes(configured)) {
+      throw new StorageError(`Unknown STORAGE_DRIVER "${configured}"`);
+    }
+    return configured as StorageDriverName;
+  }
+
+  return "local";
+}
+
+export function createStorage(name: StorageDriverName): StorageDriver {
+  return name === "s3" ? createS3Storage() : createLocalStorage();
+}
+
+// Create the driver lazily to allow for testing
+let storageInstance: StorageDriver | null = null;
+
+export function getStorage(): StorageDriver {
+  if (!storageInstance) {
+    storageInstance = createStorage(resolveStorageDriverName());
+  }
+  return storageInstance;
+}
+
+export function setStorage(driver: StorageDriver | null): void {
+  storageInstance = driver;
+}
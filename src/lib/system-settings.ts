@@ -0,0 +1,184 @@
+// ABOUTME: System-wide settings store for ProfiCo Inventory Management System
+// ABOUTME: Typed access to admin-configured settings with defaults and a change history
+
+import { prisma } from "@/lib/prisma";
+
+export interface SystemSettings {
+  companyName: string;
+  companyEmail: string;
+  companyWebsite: string;
+  defaultDepreciationPeriod: number; // Months
+  minMaintenanceInterval: number; // Days
+  enableEmailNotifications: boolean;
+  enableQRCodeGeneration: boolean;
+  enableOfflineMode: boolean;
+  enablePWA: boolean;
+  defaultUserRole: "user" | "team_lead";
+  enableUserRegistration: boolean;
+  maxFileUploadSize: number; // Megabytes
+  backupRetentionDays: number;
+  // How long an approval stage may wait for a decision, by request priority
+  slaUrgentHours: number;
+  slaHighBusinessDays: number;
+  slaMediumBusinessDays: number;
+  slaLowBusinessDays: number;
+}
+
+export type SystemSettingKey = keyof SystemSettings;
+
+// Used for any setting an admin has never saved
+export const DEFAULT_SYSTEM_SETTINGS: SystemSettings = {
+  companyName: "ProfiCo",
+  companyEmail: "info@profico.com",
+  companyWebsite: "https://profico.com",
+  defaultDepreciationPeriod: 24,
+  minMaintenanceInterval: 90,
+  enableEmailNotifications: true,
+  enableQRCodeGeneration: true,
+  enableOfflineMode: true,
+  enablePWA: true,
+  defaultUserRole: "user",
+  enableUserRegistration: true,
+  maxFileUploadSize: 10,
+  backupRetentionDays: 30,
+  slaUrgentHours: 4,
+  slaHighBusinessDays: 1,
+  slaMediumBusinessDays: 3,
+  slaLowBusinessDays: 5,
+};
+
+export const SYSTEM_SETTING_KEYS = Object.keys(DEFAULT_SYSTEM_SETTINGS) as SystemSettingKey[];
+
+function isSettingKey(key: string): key is SystemSettingKey {
+  return key in DEFAULT_SYSTEM_SETTINGS;
+}
+
+/**
+ * Decode a stored value, falling back to the default when it is unreadable or of the wrong type
+ */
+function decodeSetting<K extends SystemSettingKey>(key: K, value: string | null | undefined): SystemSettings[K] {
+  const fallback = DEFAULT_SYSTEM_SETTINGS[key];
+  if (value == null) {
+    return fallback;
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed === typeof fallback ? parsed : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * System settings service: one row per saved key, every change recorded with who made it
+ */
+export class SystemSettingsService {
+  /**
+   * Read one setting, or its default when it has never been saved
+   */
+  static async get<K extends SystemSettingKey>(key: K): Promise<SystemSettings[K]> {
+    const setting = await prisma.systemSetting.findUnique({ where: { key } });
+    return decodeSetting(key, setting?.value);
+  }
+
+  /**
+   * Read every setting, filling in defaults for unsaved ones
+   */
+  static async getAll(): Promise<SystemSettings> {
+    const rows = await prisma.systemSetting.findMany({
+      where: { key: { in: SYSTEM_SETTING_KEYS } },
+    });
+
+    const settings = { ...DEFAULT_SYSTEM_SETTINGS };
+    for (const row of rows) {
+      if (isSettingKey(row.key)) {
+        Object.assign(settings, { [row.key]: decodeSetting(row.key, row.value) });
+      }
+    }
+
+    return settings;
+  }
+
+  /**
+   * Save the given settings and record a history entry for each one that actually changed.
+   * Returns the keys that changed.
+   */
+  static async update(
+    changes: Partial<SystemSettings>,
+    changedById: string
+  ): Promise<SystemSettingKey[]> {
+    const current = await prisma.systemSetting.findMany({
+      where: { key: { in: Object.keys(changes) } },
+    });
+    const stored = new Map(current.map((row) => [row.key, row.value]));
+
+    const changed = SYSTEM_SETTING_KEYS.filter(
+      (key) =>
+        changes[key] !== undefined &&
+        changes[key] !== decodeSetting(key, stored.get(key))
+    );
+
+    if (changed.length === 0) {
+      return [];
+    }
+
+    await prisma.$transaction(
+      changed.flatMap((key) => {
+        const value = JSON.stringify(changes[key]);
+        return [
+          prisma.systemSetting.upsert({
+            where: { key },
+            update: { value, updatedById: changedById },
+            create: { key, value, updatedById: changedById },
+          }),
+          prisma.systemSettingChange.create({
+            data: { key, oldValue: stored.get(key) ?? null, newValue: value, changedById },
+          }),
+        ];
+      })
+    );
+
+    return changed;
+  }
+
+  /**
+   * Change history, newest first
+   */
+  static async getHistory(options: { key?: SystemSettingKey; page?: number; limit?: number } = {}) {
+    const { key, page = 1, limit = 20 } = options;
+    const where = key ? { key } : {};
+
+    const [changes, total] = await Promise.all([
+      prisma.systemSettingChange.findMany({
+        where,
+        include: {
+          changedBy: {
+            select: { id: true, name: true, email: true },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.systemSettingChange.count({ where }),
+    ]);
+
+    return {
+      changes: changes.map((change) => ({
+        id: change.id,
+        key: change.key,
+        oldValue: change.oldValue == null ? null : JSON.parse(change.oldValue),
+        newValue: JSON.parse(change.newValue),
+        changedBy: change.changedBy,
+        createdAt: change.createdAt,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+}
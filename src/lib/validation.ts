@@ -109,7 +109,7 @@ export const commonSchemas = {
   priority: z.enum(['low', 'medium', 'high', 'urgent']),
 
   // Request status
-  requestStatus: z.enum(['pending', 'approved', 'rejected', 'ordered', 'fulfilled']),
+  requestStatus: z.enum(['pending', 'approved', 'rejected', 'ordered', 'partially_fulfilled', 'fulfilled']),
 
   // Purchase method validation
   purchaseMethod: z.enum(['profi_co', 'zopi', 'leasing', 'off_the_shelf']),
@@ -187,6 +187,7 @@ export const userSchemas = {
     phone: commonSchemas.phone.optional(),
     department: z.string().max(100).optional(),
     employeeId: z.string().max(50).optional(),
+    onboardingKitId: commonSchemas.cuid.optional(),
   }),
 
   update: z.object({
@@ -202,7 +203,17 @@ export const userSchemas = {
 };
 
 // Request-related schemas
+const requestItemSchema = z.object({
+  kind: z.enum(['equipment', 'subscription']).default('equipment'),
+  name: z.string().trim().min(2, "Item name must be at least 2 characters").max(100),
+  quantity: z.number().int().min(1, "Quantity must be at least 1").max(50).default(1),
+  budget: z.number().min(0, "Budget cannot be negative").optional(),
+  notes: z.string().max(500).optional(),
+});
+
 export const requestSchemas = {
+  item: requestItemSchema,
+
   create: z.object({
     equipmentType: z.string().min(2, "Equipment type must be at least 2 characters").max(100),
     justification: z.string().min(20, "Justification must be at least 20 characters").max(2000),
@@ -216,6 +227,18 @@ export const requestSchemas = {
       z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format").transform(date => new Date(date)),
       z.date()
     ]).optional(),
+    consumableId: commonSchemas.cuid.optional(),
+    quantity: z.number().int().positive("Quantity must be positive").max(1000).optional(),
+    items: z.array(requestItemSchema).min(1, "Add at least one line item").max(30, "Too many line items").optional(),
+  }).refine((data) => !(data.items && data.consumableId), {
+    message: "Consumable requests cannot have line items",
+    path: ["items"],
+  }),
+
+  updateItem: z.object({
+    status: z.enum(['pending', 'to_purchase', 'fulfilled']),
+    subscriptionId: commonSchemas.cuid.optional(),
+    notes: z.string().max(500).optional(),
   }),
 
   approve: z.object({
@@ -264,6 +287,139 @@ export const reportSchemas = {
   }),
 };
 
+// Inventory check (audit) schemas
+export const inventoryCheckSchemas = {
+  create: z.object({
+    name: z.string().min(2, "Name must be at least 2 characters").max(100),
+    description: z.string().max(1000).optional(),
+    scopeType: z.enum(['all', 'location', 'category', 'team']).default('all'),
+    scopeValue: z.string().max(200).optional(),
+    scheduledAt: z.union([
+      z.string().regex(/^\d{4}-\d{2}-\d{2}/, "Invalid date format").transform(date => new Date(date)),
+      z.date()
+    ]),
+    notes: z.string().max(2000).optional(),
+  }).refine(data => data.scopeType === 'all' || !!data.scopeValue, {
+    message: "Scope value is required when the check is limited to a location, category or team",
+    path: ['scopeValue'],
+  }),
+
+  scan: z.object({
+    code: z.string().min(1, "Scanned code is required").max(500),
+    location: z.string().max(200).optional(),
+    ownerId: commonSchemas.cuid.nullable().optional(),
+    notes: z.string().max(1000).optional(),
+  }),
+
+  close: z.object({
+    notes: z.string().max(2000).optional(),
+  }),
+};
+
+// Consumable (small inventory) schemas
+export const consumableSchemas = {
+  create: z.object({
+    name: z.string().min(2, "Name must be at least 2 characters").max(100),
+    category: z.string().min(2, "Category required").max(50),
+    currentStock: z.number().int().min(0, "Stock cannot be negative").default(0),
+    minStock: z.number().int().min(0, "Minimum stock cannot be negative").default(0),
+    maxStock: z.number().int().positive().nullable().optional(),
+    unitPrice: z.number().min(0, "Unit price cannot be negative").nullable().optional(),
+    location: z.string().max(200).optional(),
+    notes: z.string().max(2000).optional(),
+  }).refine(data => data.maxStock == null || data.maxStock >= data.minStock, {
+    message: "Maximum stock must not be lower than minimum stock",
+    path: ['maxStock'],
+  }),
+
+  // Stock level is only changed through movements so every change is attributed
+  update: z.object({
+    name: z.string().min(2).max(100).optional(),
+    category: z.string().min(2).max(50).optional(),
+    minStock: z.number().int().min(0).optional(),
+    maxStock: z.number().int().positive().nullable().optional(),
+    unitPrice: z.number().min(0).nullable().optional(),
+    location: z.string().max(200).optional(),
+    notes: z.string().max(2000).optional(),
+  }),
+
+  movement: z.object({
+    type: z.enum(['check_in', 'check_out', 'adjustment']),
+    quantity: z.number().int().refine(n => n !== 0, "Quantity must not be zero"),
+    reason: z.string().min(3, "Reason must be at least 3 characters").max(500),
+    recipientId: commonSchemas.cuid.optional(),
+  }).refine(data => data.type === 'adjustment' || data.quantity > 0, {
+    message: "Check-in and check-out quantities must be positive",
+    path: ['quantity'],
+  }),
+};
+
+// In-app notification schemas
+export const notificationSchemas = {
+  list: z.object({
+    page: z.string().regex(/^\d+$/).transform(Number).refine(n => n > 0, "Page must be positive").default(1),
+    limit: z.string().regex(/^\d+$/).transform(Number).refine(n => n > 0 && n <= 100, "Limit must be between 1 and 100").default(20),
+    unread: z.enum(['true', 'false']).optional(),
+  }),
+
+  update: z.object({
+    read: z.boolean(),
+  }),
+
+  preferences: z.object({
+    new_request: z.enum(['email', 'in_app', 'digest', 'none']),
+    request_approved: z.enum(['email', 'in_app', 'digest', 'none']),
+    request_rejected: z.enum(['email', 'in_app', 'digest', 'none']),
+    equipment_assigned: z.enum(['email', 'in_app', 'digest', 'none']),
+    status_changed: z.enum(['email', 'in_app', 'digest', 'none']),
+    maintenance_due: z.enum(['email', 'in_app', 'digest', 'none']),
+    renewal_due: z.enum(['email', 'in_app', 'digest', 'none']),
+  }).partial().strict().refine(
+    preferences => Object.keys(preferences).length > 0,
+    "At least one preference is required"
+  ),
+};
+
+export const emailDeliverySchemas = {
+  list: z.object({
+    page: z.string().regex(/^\d+$/).transform(Number).refine(n => n > 0, "Page must be positive").default(1),
+    limit: z.string().regex(/^\d+$/).transform(Number).refine(n => n > 0 && n <= 100, "Limit must be between 1 and 100").default(20),
+    status: z.enum(['pending', 'sending', 'sent', 'failed']).optional(),
+  }),
+};
+
+// Admin system settings schemas
+export const systemSettingSchemas = {
+  update: z.object({
+    companyName: z.string().trim().min(1, "Company name is required").max(100),
+    companyEmail: commonSchemas.email,
+    companyWebsite: z.string().url("Invalid website URL").max(200),
+    defaultDepreciationPeriod: z.number().int().min(1, "Depreciation period must be at least 1 month").max(600),
+    minMaintenanceInterval: z.number().int().min(1, "Maintenance interval must be at least 1 day").max(3650),
+    enableEmailNotifications: z.boolean(),
+    enableQRCodeGeneration: z.boolean(),
+    enableOfflineMode: z.boolean(),
+    enablePWA: z.boolean(),
+    defaultUserRole: z.enum(['user', 'team_lead']),
+    enableUserRegistration: z.boolean(),
+    maxFileUploadSize: z.number().int().min(1, "Upload size must be at least 1 MB").max(100, "Upload size cannot exceed 100 MB"),
+    backupRetentionDays: z.number().int().min(1).max(3650),
+    slaUrgentHours: z.number().int().min(1, "SLA must be at least 1 hour").max(168),
+    slaHighBusinessDays: z.number().int().min(1, "SLA must be at least 1 business day").max(30),
+    slaMediumBusinessDays: z.number().int().min(1, "SLA must be at least 1 business day").max(30),
+    slaLowBusinessDays: z.number().int().min(1, "SLA must be at least 1 business day").max(30),
+  }).partial().strict().refine(
+    settings => Object.keys(settings).length > 0,
+    "At least one setting is required"
+  ),
+
+  history: z.object({
+    page: z.string().regex(/^\d+$/).transform(Number).refine(n => n > 0, "Page must be positive").default(1),
+    limit: z.string().regex(/^\d+$/).transform(Number).refine(n => n > 0 && n <= 100, "Limit must be between 1 and 100").default(20),
+    key: z.string().max(100).optional(),
+  }),
+};
+
 // File upload schemas
 export const fileSchemas = {
   invoice: commonSchemas.fileUpload.extend({
@@ -387,13 +543,6 @@ export const securityValidation = {
     return true;
   },
 
-  // Rate limiting helper
-  validateRateLimit: () => {
-    // This would be implemented with Redis or similar in production
-    // For now, it's a placeholder
-    return true;
-  },
-
   // Content Security Policy validation
   validateCSP: () => {
     // Additional CSP validation logic would go here
@@ -449,6 +598,222 @@ export const subscriptionSchemas = {
   }),
 };
 
+// Depreciation settings, shared by equipment and categories
+export const depreciationSchemas = {
+  method: z.enum(['straight_line', 'declining_balance', 'custom']),
+  usefulLifeMonths: z.number().int().min(1, "Useful life must be at least 1 month").max(600, "Useful life cannot exceed 50 years"),
+  // Share of the depreciable amount written off in each year, e.g. [0.4, 0.3, 0.2, 0.1]
+  schedule: z.array(z.number().min(0).max(1)).min(1).max(50).refine(
+    shares => Math.abs(shares.reduce((sum, share) => sum + share, 0) - 1) < 0.0001,
+    "Schedule shares must add up to 100%"
+  ),
+};
+
+// Month-end close of the fixed-asset register
+export const fixedAssetSchemas = {
+  period: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Period must be in YYYY-MM format"),
+  journalExport: z.object({
+    format: z.enum(['csv', 'xlsx']).default('csv'),
+  }),
+};
+
+// Equipment disposal workflow
+export const disposalSchemas = {
+  request: z.object({
+    reason: z.enum(['sold', 'recycled', 'donated', 'lost', 'stolen']),
+    disposalDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format"),
+    saleProceeds: z.number().min(0, "Sale proceeds cannot be negative").default(0),
+    dataWiped: z.boolean().default(false),
+    dataWipedById: commonSchemas.cuid.optional(),
+    certificateFileId: commonSchemas.cuid.optional(),
+    notes: z.string().max(2000).optional(),
+  }).refine(data => data.reason === 'sold' || data.saleProceeds === 0, {
+    message: "Only sold equipment can have sale proceeds",
+    path: ['saleProceeds'],
+  }),
+
+  review: z.object({
+    notes: z.string().max(1000).optional(),
+  }),
+
+  list: z.object({
+    status: z.enum(['pending', 'approved', 'rejected']).optional(),
+    page: z.string().regex(/^\d+$/).transform(Number).refine(n => n > 0, "Page must be positive").default(1),
+    limit: z.string().regex(/^\d+$/).transform(Number).refine(n => n > 0 && n <= 100, "Limit must be between 1 and 100").default(20),
+  }),
+};
+
+// Handover checklists, configured per category and ticked off at each handover
+export const handoverChecklistSchemas = {
+  steps: z.object({
+    assignment: z.array(z.string().trim().min(1, "Step cannot be empty").max(200, "Step too long")).max(30, "Too many steps").optional(),
+    return: z.array(z.string().trim().min(1, "Step cannot be empty").max(200, "Step too long")).max(30, "Too many steps").optional(),
+    transfer: z.array(z.string().trim().min(1, "Step cannot be empty").max(200, "Step too long")).max(30, "Too many steps").optional(),
+  }),
+
+  // Step labels already done when the handover is recorded
+  completedSteps: z.array(z.string().max(200)).max(30).optional(),
+
+  updateItem: z.object({
+    itemId: commonSchemas.cuid,
+    completed: z.boolean(),
+  }),
+};
+
+// Employee offboarding: each resolution returns, reassigns, cancels or transfers one thing the user holds
+export const offboardingSchemas = {
+  resolve: z.object({
+    actions: z.array(z.discriminatedUnion('action', [
+      z.object({
+        type: z.literal('equipment'),
+        action: z.literal('return'),
+        id: commonSchemas.cuid,
+        condition: z.enum(['excellent', 'good', 'fair', 'poor', 'broken']).default('good'),
+        notes: z.string().max(500).optional(),
+      }),
+      z.object({
+        type: z.literal('equipment'),
+        action: z.literal('reassign'),
+        id: commonSchemas.cuid,
+        toUserId: commonSchemas.cuid,
+        notes: z.string().max(500).optional(),
+      }),
+      z.object({
+        type: z.enum(['subscription', 'request', 'transfer']),
+        action: z.literal('cancel'),
+        id: commonSchemas.cuid,
+        notes: z.string().max(500).optional(),
+      }),
+      z.object({
+        type: z.literal('subscription'),
+        action: z.literal('transfer'),
+        id: commonSchemas.cuid,
+        toUserId: commonSchemas.cuid,
+        notes: z.string().max(500).optional(),
+      }),
+    ])).min(1, "Choose at least one item to resolve").max(100),
+  }),
+
+  complete: z.object({
+    notes: z.string().max(2000).optional(),
+  }),
+};
+
+// Onboarding kits and the request line items they spawn
+export const onboardingKitSchemas = {
+  kit: z.object({
+    name: z.string().trim().min(2, "Name must be at least 2 characters").max(100),
+    description: z.string().max(500).optional(),
+    teamId: commonSchemas.cuid.nullable().optional(),
+    role: commonSchemas.userRole.nullable().optional(),
+    isActive: z.boolean().default(true),
+    items: z.array(z.object({
+      kind: z.enum(['equipment', 'subscription']),
+      name: z.string().trim().min(1, "Item name is required").max(100),
+      quantity: z.number().int().min(1).max(10).default(1),
+      budget: z.number().min(0, "Budget cannot be negative").optional(),
+    })).min(1, "A kit needs at least one item").max(30, "Too many items"),
+  }),
+};
+
+// Approval policy schemas; a stage is decided either by a role or by a named approver
+export const approvalPolicySchemas = {
+  policy: z.object({
+    name: z.string().trim().min(2, "Name must be at least 2 characters").max(100),
+    description: z.string().max(500).optional(),
+    order: z.number().int().min(0).max(1000).default(0),
+    isActive: z.boolean().default(true),
+    minBudget: z.number().min(0, "Budget cannot be negative").nullable().optional(),
+    maxBudget: z.number().min(0, "Budget cannot be negative").nullable().optional(),
+    priorities: z.array(commonSchemas.priority).default([]),
+    equipmentType: z.string().trim().max(100).nullable().optional(),
+    teamId: commonSchemas.cuid.nullable().optional(),
+    stages: z.array(z.object({
+      name: z.string().trim().min(1, "Stage name is required").max(50),
+      approverRole: z.enum(['team_lead', 'admin']).nullable().optional(),
+      approverId: commonSchemas.cuid.nullable().optional(),
+      skipPriorities: z.array(commonSchemas.priority).default([]),
+    }).refine(
+      (stage) => !!stage.approverRole !== !!stage.approverId,
+      { message: "Choose either an approver role or a named approver", path: ['approverRole'] }
+    )).min(1, "A policy needs at least one stage").max(10, "Too many stages"),
+  }).refine(
+    (policy) => policy.minBudget == null || policy.maxBudget == null || policy.minBudget < policy.maxBudget,
+    { message: "Minimum budget must be below the maximum", path: ['maxBudget'] }
+  ),
+};
+
+// Out-of-office delegation; admins may record one for another approver with delegatorId
+export const approvalDelegationSchemas = {
+  delegation: z.object({
+    delegatorId: commonSchemas.cuid.optional(),
+    delegateId: commonSchemas.cuid,
+    startsAt: z.coerce.date(),
+    endsAt: z.coerce.date(),
+    reason: z.string().trim().max(200, "Reason too long").optional(),
+  }).refine(
+    (delegation) => delegation.endsAt > delegation.startsAt,
+    { message: "The out-of-office window must end after it starts", path: ['endsAt'] }
+  ),
+};
+
+// Purchase orders placed for approved requests and the goods received against them
+export const purchaseOrderSchemas = {
+  create: z.object({
+    poNumber: z.string().trim().min(1, "PO number is required").max(50, "PO number too long"),
+    vendor: z.string().trim().min(1, "Vendor is required").max(200, "Vendor name too long"),
+    purchaseMethod: commonSchemas.purchaseMethod.default('off_the_shelf'),
+    expectedDelivery: z.coerce.date().nullable().optional(),
+    notes: z.string().max(2000, "Notes too long").optional(),
+    lines: z.array(z.object({
+      requestId: commonSchemas.cuid,
+      requestItemId: commonSchemas.cuid.optional(),
+      description: z.string().trim().min(1, "Description is required").max(200, "Description too long"),
+      category: z.string().trim().min(2, "Category is required").max(50, "Category too long"),
+      quantity: z.number().int().min(1, "Quantity must be at least 1").max(1000, "Quantity too large"),
+      unitPrice: z.number().min(0, "Unit price must be non-negative").nullable().optional(),
+    })).min(1, "Add at least one line").max(100, "Too many lines"),
+  }),
+
+  update: z.object({
+    expectedDelivery: z.coerce.date().nullable().optional(),
+    notes: z.string().max(2000, "Notes too long").optional(),
+    invoiceId: commonSchemas.cuid.optional(),
+  }),
+
+  receive: z.object({
+    lines: z.array(z.object({
+      lineId: commonSchemas.cuid,
+      serialNumbers: z.array(
+        z.string().trim().min(1, "Serial number is required").max(100, "Serial number too long")
+      ).min(1, "Enter a serial number for each unit received"),
+    })).min(1, "Receive at least one unit"),
+    status: z.enum(['pending', 'available']).default('available'),
+    location: z.string().max(200, "Location too long").optional(),
+    notes: z.string().max(1000, "Notes too long").optional(),
+  }),
+
+  list: z.object({
+    status: z.enum(['ordered', 'partially_received', 'received', 'cancelled']).optional(),
+    requestId: commonSchemas.cuid.optional(),
+    page: z.string().regex(/^\d+$/).transform(Number).refine(n => n > 0, "Page must be positive").default(1),
+    limit: z.string().regex(/^\d+$/).transform(Number).refine(n => n > 0 && n <= 100, "Limit must be between 1 and 100").default(20),
+  }),
+};
+
+// Equipment category schema; depreciation settings apply to items that don't override them
+export const equipmentCategorySchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters").max(50, "Name too long"),
+  description: z.string().max(200, "Description too long").optional(),
+  color: z.string().min(4, "Color is required"),
+  icon: z.string().min(1, "Icon is required"),
+  depreciationMethod: depreciationSchemas.method.optional(),
+  usefulLifeMonths: depreciationSchemas.usefulLifeMonths.nullable().optional(),
+  salvageRate: z.number().min(0).max(1, "Salvage rate must be between 0 and 1").optional(),
+  depreciationSchedule: depreciationSchemas.schedule.nullable().optional(),
+  handoverChecklists: handoverChecklistSchemas.steps.nullable().optional(),
+});
+
 // Equipment schema for forms
 export const equipmentSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters").max(100, "Name too long"),
@@ -459,7 +824,11 @@ export const equipmentSchema = z.object({
   status: commonSchemas.equipmentStatus.default("available"),
   purchaseDate: z.date(),
   purchasePrice: z.number().min(0, "Purchase price must be non-negative"),
-  currentValue: z.number().min(0, "Current value must be non-negative").optional(),
+  currentValue: z.number().min(0, "Current value must be non-negative").optional(), // Recalculated on save
+  depreciationMethod: depreciationSchemas.method.nullable().optional(),
+  usefulLifeMonths: depreciationSchemas.usefulLifeMonths.nullable().optional(),
+  salvageValue: z.number().min(0, "Salvage value must be non-negative").nullable().optional(),
+  depreciationSchedule: depreciationSchemas.schedule.nullable().optional(),
   warrantyExpiry: z.date().optional().nullable(),
   lastMaintenanceDate: z.date().optional().nullable(),
   nextMaintenanceDate: z.date().optional().nullable(),
@@ -0,0 +1,363 @@
+// ABOUTME: Vendor profile service for ProfiCo Inventory Management System
+// ABOUTME: Learns per-vendor corrections from reviewed OCR results and reapplies them to later invoices from the same vendor
+
+import type { VendorProfile } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { geminiOCRService, type EquipmentItem, type OCRResult } from "@/lib/gemini-ocr";
+
+// Fields that hold for every invoice of a vendor; numbers, dates and amounts change from one invoice to the next
+export const LEARNED_FIELDS = ["currency", "invoiceType", "purchaseMethod", "depreciationPeriod"] as const;
+
+export type LearnedField = (typeof LEARNED_FIELDS)[number];
+
+export interface FieldCorrection {
+  // Normalized extracted value, null when nothing was extracted
+  from: string | null;
+  to: string | number;
+}
+
+export interface SerialNumberSource {
+  field: "name" | "specifications";
+  // Text the serial number follows, such as "S/N:"
+  label: string;
+}
+
+export interface LearnedCorrections {
+  vendor: string;
+  aliases: string[];
+  fields: Partial<Record<LearnedField, FieldCorrection[]>>;
+  itemCategories: Record<string, string>;
+  serialNumber?: SerialNumberSource;
+}
+
+// Legal forms are dropped so "LINKS D.O.O." and "Links doo" are the same vendor
+const LEGAL_FORMS = new Set(["doo", "dd", "jdoo", "inc", "ltd", "llc", "gmbh", "limited", "bv", "sa", "sro", "corp", "corporation", "co"]);
+
+export function normalizeVendorKey(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replace(/\./g, "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+  while (words.length > 1 && LEGAL_FORMS.has(words[words.length - 1])) {
+    words.pop();
+  }
+
+  return words.join(" ");
+}
+
+export function normalizeItemName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function normalizeValue(value: unknown): string | null {
+  return value === undefined || value === null || value === "" ? null : String(value).trim().toLowerCase();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Pair extracted line items with their reviewed versions: by position when the reviewer kept
+ * every row, by name otherwise
+ */
+function pairItems(original: EquipmentItem[], corrected: EquipmentItem[]) {
+  if (original.length === corrected.length) {
+    return original.map((item, index) => [item, corrected[index]] as const);
+  }
+
+  return original.flatMap((item) => {
+    const match = corrected.find((candidate) => normalizeItemName(candidate.name) === normalizeItemName(item.name));
+    return match ? [[item, match] as const] : [];
+  });
+}
+
+/**
+ * Where a reviewer found the serial number: the item field it was copied from and the label before it
+ */
+function findSerialNumberSource(item: EquipmentItem, serialNumber: string): SerialNumberSource | undefined {
+  for (const field of ["specifications", "name"] as const) {
+    const text = item[field];
+    const index = text ? text.toLowerCase().indexOf(serialNumber.toLowerCase()) : -1;
+
+    if (text && index > 0) {
+      const label = text.slice(0, index).trim().split(/\s+/).pop();
+      if (label && /\p{L}/u.test(label)) {
+        return { field, label };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Compare an extraction with what the reviewer saved and fold the differences into the vendor's
+ * corrections. Returns how many corrections were learned.
+ */
+export function learnCorrections(
+  learned: LearnedCorrections,
+  original: OCRResult,
+  corrected: OCRResult
+): { learned: LearnedCorrections; changes: number } {
+  const next: LearnedCorrections = {
+    ...learned,
+    aliases: [...learned.aliases],
+    fields: { ...learned.fields },
+    itemCategories: { ...learned.itemCategories },
+  };
+  let changes = 0;
+
+  if (original.vendor && normalizeVendorKey(original.vendor) !== normalizeVendorKey(learned.vendor)) {
+    const alias = normalizeVendorKey(original.vendor);
+    if (alias && !next.aliases.includes(alias)) {
+      next.aliases.push(alias);
+      changes++;
+    }
+  }
+
+  for (const field of LEARNED_FIELDS) {
+    const to = corrected[field];
+    const from = normalizeValue(original[field]);
+
+    if (to === undefined || to === null || to === "" || from === normalizeValue(to)) {
+      continue;
+    }
+
+    const existing = next.fields[field]?.find((correction) => correction.from === from);
+    if (existing && normalizeValue(existing.to) === normalizeValue(to)) {
+      continue;
+    }
+
+    // A later correction of the same extracted value replaces the earlier one
+    next.fields[field] = [...(next.fields[field] ?? []).filter((correction) => correction.from !== from), { from, to }];
+    changes++;
+  }
+
+  for (const [item, reviewed] of pairItems(original.equipment ?? [], corrected.equipment ?? [])) {
+    const guessed = item.category || geminiOCRService.categorizeEquipment(item.name);
+    const key = normalizeItemName(item.name);
+    if (reviewed.category && reviewed.category !== guessed && next.itemCategories[key] !== reviewed.category) {
+      next.itemCategories[key] = reviewed.category;
+      changes++;
+    }
+
+    if (!item.serialNumber && reviewed.serialNumber) {
+      const source = findSerialNumberSource(item, reviewed.serialNumber);
+      if (source && (source.field !== next.serialNumber?.field || source.label !== next.serialNumber?.label)) {
+        next.serialNumber = source;
+        changes++;
+      }
+    }
+  }
+
+  return { learned: next, changes };
+}
+
+/**
+ * Category learned for an item: an exact name match, or else the longest learned name the item starts with
+ */
+function learnedCategory(itemCategories: Record<string, string>, name: string): string | undefined {
+  const key = normalizeItemName(name);
+  if (itemCategories[key]) {
+    return itemCategories[key];
+  }
+
+  const prefix = Object.keys(itemCategories)
+    .filter((learnedName) => key.startsWith(learnedName))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? itemCategories[prefix] : undefined;
+}
+
+/**
+ * Apply a vendor's learned corrections to a new extraction and record which fields they changed
+ */
+export function applyCorrections(result: OCRResult, learned: LearnedCorrections): OCRResult {
+  const corrected: OCRResult = { ...result };
+  const autoCorrected: string[] = [];
+
+  if (result.vendor !== learned.vendor) {
+    corrected.vendor = learned.vendor;
+    autoCorrected.push("vendor");
+  }
+
+  for (const field of LEARNED_FIELDS) {
+    const current = normalizeValue(result[field]);
+    const correction = learned.fields[field]?.find((candidate) => candidate.from === current);
+
+    if (correction && current !== normalizeValue(correction.to)) {
+      (corrected as Record<string, unknown>)[field] = correction.to;
+      autoCorrected.push(field);
+    }
+  }
+
+  if (result.equipment) {
+    corrected.equipment = result.equipment.map((item, index) => {
+      const next = { ...item };
+
+      const category = learnedCategory(learned.itemCategories, item.name);
+      if (category && category !== item.category) {
+        next.category = category;
+        autoCorrected.push(`equipment.${index}.category`);
+      }
+
+      const source = learned.serialNumber;
+      const serialNumber = source && !item.serialNumber
+        ? item[source.field]?.match(new RegExp(`${escapeRegExp(source.label)}\\s*([A-Z0-9][A-Z0-9\\-]{3,})`, "i"))?.[1]
+        : undefined;
+      if (serialNumber) {
+        next.serialNumber = serialNumber;
+        autoCorrected.push(`equipment.${index}.serialNumber`);
+      }
+
+      return next;
+    });
+  }
+
+  if (autoCorrected.length === 0) {
+    return result;
+  }
+
+  const fieldSources = { ...result.extractionDetails?.fieldSources };
+  for (const field of autoCorrected.filter((path) => !path.includes("."))) {
+    fieldSources[field] = "learned";
+  }
+
+  return {
+    ...corrected,
+    extractionDetails: {
+      processingTime: result.extractionDetails?.processingTime ?? 0,
+      modelUsed: result.extractionDetails?.modelUsed ?? "unknown",
+      ...result.extractionDetails,
+      fieldSources,
+      autoCorrected,
+    },
+  };
+}
+
+function parseColumn<T>(profile: VendorProfile, column: string, value: string | null, fallback: T): T {
+  if (!value) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    // A damaged column loses only what it held; the next review rewrites it
+    console.error(`Vendor profile ${profile.id} has unreadable ${column}; ignoring it`);
+    return fallback;
+  }
+}
+
+export function parseVendorProfile(profile: VendorProfile): LearnedCorrections {
+  return {
+    vendor: profile.vendor,
+    aliases: parseColumn(profile, "aliases", profile.aliases, []),
+    fields: parseColumn(profile, "fieldCorrections", profile.fieldCorrections, {}),
+    itemCategories: parseColumn(profile, "itemCategories", profile.itemCategories, {}),
+    serialNumber: parseColumn(profile, "serialNumberSource", profile.serialNumberSource, undefined),
+  };
+}
+
+/**
+ * Vendor profile service: remembers how reviewers correct each vendor's invoices
+ */
+export class VendorProfileService {
+  /**
+   * The profile for a vendor name as reviewers spell it or as an extractor read it before
+   */
+  static async find(vendor: string) {
+    const key = normalizeVendorKey(vendor);
+    if (!key) {
+      return null;
+    }
+
+    return (
+      (await prisma.vendorProfile.findUnique({ where: { vendorKey: key } })) ??
+      prisma.vendorProfile.findFirst({ where: { aliases: { contains: JSON.stringify(key) } } })
+    );
+  }
+
+  static async list() {
+    return prisma.vendorProfile.findMany({
+      orderBy: { vendor: "asc" },
+      include: { updatedBy: { select: { id: true, name: true } } },
+    });
+  }
+
+  /**
+   * Forget a vendor's corrections, e.g. after a reviewer taught it something wrong. Null when not found.
+   */
+  static async remove(id: string) {
+    const profile = await prisma.vendorProfile.findUnique({ where: { id } });
+    if (!profile) {
+      return null;
+    }
+
+    return prisma.vendorProfile.delete({ where: { id } });
+  }
+
+  /**
+   * Reapply what reviewers corrected on earlier invoices from the same vendor
+   */
+  static async apply(result: OCRResult): Promise<OCRResult> {
+    const profile = result.vendor ? await this.find(result.vendor) : null;
+    return profile ? applyCorrections(result, parseVendorProfile(profile)) : result;
+  }
+
+  /**
+   * Learn from a reviewed invoice by comparing it with what the extractors read from its stored original,
+   * before any learned corrections were applied.
+   * Returns the number of corrections learned.
+   */
+  static async learnFromReview(documentId: string, corrected: OCRResult, userId: string): Promise<number> {
+    if (!corrected.vendor) {
+      return 0;
+    }
+
+    const jobFile = await prisma.ocrJobFile.findUnique({
+      where: { documentId },
+      select: { result: true, rawResult: true },
+    });
+
+    const stored = jobFile?.rawResult ?? jobFile?.result;
+    if (!stored) {
+      return 0;
+    }
+
+    const original: OCRResult = JSON.parse(stored);
+    const profile = (await this.find(corrected.vendor)) ?? (original.vendor ? await this.find(original.vendor) : null);
+    const current: LearnedCorrections = profile
+      ? parseVendorProfile(profile)
+      : { vendor: corrected.vendor, aliases: [], fields: {}, itemCategories: {} };
+
+    const { learned, changes } = learnCorrections(current, original, corrected);
+
+    if (changes === 0) {
+      return 0;
+    }
+
+    const data = {
+      aliases: JSON.stringify(learned.aliases),
+      fieldCorrections: JSON.stringify(learned.fields),
+      itemCategories: JSON.stringify(learned.itemCategories),
+      serialNumberSource: learned.serialNumber ? JSON.stringify(learned.serialNumber) : null,
+      updatedById: userId,
+    };
+
+    if (profile) {
+      await prisma.vendorProfile.update({
+        where: { id: profile.id },
+        data: { ...data, reviewsLearned: { increment: 1 } },
+      });
+    } else {
+      await prisma.vendorProfile.create({
+        data: { ...data, vendorKey: normalizeVendorKey(corrected.vendor), vendor: corrected.vendor, reviewsLearned: 1 },
+      });
+    }
+
+    return changes;
+  }
+}
@@ -32,6 +32,8 @@ export async function middleware(req: NextRequest) {
     "/requests/approve",
     "/equipment/assign",
     "/equipment/bulk",
+    "/inventory-checks",
+    "/consumables",
   ];
 
   // Check if the current path is public
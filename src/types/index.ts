@@ -10,7 +10,10 @@ import type {
   Subscription as PrismaSubscription,
   MaintenanceRecord as PrismaMaintenanceRecord,
   InventoryCheck as PrismaInventoryCheck,
+  InventoryCheckItem as PrismaInventoryCheckItem,
   SmallInventoryItem as PrismaSmallInventoryItem,
+  StockMovement as PrismaStockMovement,
+  Notification as PrismaNotification,
 } from "@prisma/client";
 
 // Re-export Prisma types
@@ -22,7 +25,10 @@ export type EquipmentHistory = PrismaEquipmentHistory;
 export type Subscription = PrismaSubscription;
 export type MaintenanceRecord = PrismaMaintenanceRecord;
 export type InventoryCheck = PrismaInventoryCheck;
+export type InventoryCheckItem = PrismaInventoryCheckItem;
 export type SmallInventoryItem = PrismaSmallInventoryItem;
+export type StockMovement = PrismaStockMovement;
+export type Notification = PrismaNotification;
 
 // Enum types
 export type UserRole = "admin" | "team_lead" | "user";
@@ -53,6 +59,7 @@ export type RequestStatus =
   | "approved"
   | "rejected"
   | "ordered"
+  | "partially_fulfilled"
   | "fulfilled";
 
 export type BillingFrequency = "monthly" | "yearly";